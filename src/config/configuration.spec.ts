@@ -113,6 +113,34 @@ describe('Configuration', () => {
 
       expect(config.jwt.expiresIn).toBe('2h');
     });
+
+    it('should verify with the shared secret unless a JWKS is configured', () => {
+      delete process.env.JWT_JWKS_URI;
+      delete process.env.JWT_JWKS_FILE;
+      delete process.env.JWT_JWKS_CACHE_TTL_SECONDS;
+      delete process.env.JWT_AUDIENCE;
+
+      const config = configuration();
+
+      expect(config.jwt.jwksUri).toBeUndefined();
+      expect(config.jwt.jwksFile).toBeUndefined();
+      expect(config.jwt.jwksCacheTtlSeconds).toBe(600);
+      expect(config.jwt.audience).toBeUndefined();
+    });
+
+    it('should read JWKS settings from environment variables', () => {
+      process.env.JWT_JWKS_URI = 'https://auth.example.com/.well-known/jwks.json';
+      process.env.JWT_JWKS_FILE = '/etc/jwks.json';
+      process.env.JWT_JWKS_CACHE_TTL_SECONDS = '60';
+      process.env.JWT_AUDIENCE = 'meal-plan-service';
+
+      const config = configuration();
+
+      expect(config.jwt.jwksUri).toBe('https://auth.example.com/.well-known/jwks.json');
+      expect(config.jwt.jwksFile).toBe('/etc/jwks.json');
+      expect(config.jwt.jwksCacheTtlSeconds).toBe(60);
+      expect(config.jwt.audience).toBe('meal-plan-service');
+    });
   });
 
   describe('redis configuration', () => {
@@ -120,9 +148,11 @@ describe('Configuration', () => {
       delete process.env.REDIS_HOST;
       delete process.env.REDIS_PORT;
       delete process.env.REDIS_PASSWORD;
+      delete process.env.REDIS_ENABLED;
 
       const config = configuration();
 
+      expect(config.redis.enabled).toBe(false);
       expect(config.redis.host).toBe('localhost');
       expect(config.redis.port).toBe(6379);
       expect(config.redis.password).toBeUndefined();
@@ -135,6 +165,32 @@ describe('Configuration', () => {
 
       expect(config.redis.port).toBe(6379);
     });
+
+    it('should enable redis when REDIS_ENABLED is true', () => {
+      process.env.REDIS_ENABLED = 'true';
+
+      const config = configuration();
+
+      expect(config.redis.enabled).toBe(true);
+    });
+  });
+
+  describe('cache configuration', () => {
+    it('should cache responses for 60 seconds by default', () => {
+      delete process.env.CACHE_TTL_SECONDS;
+
+      const config = configuration();
+
+      expect(config.cache.ttlSeconds).toBe(60);
+    });
+
+    it('should allow disabling the cache', () => {
+      process.env.CACHE_TTL_SECONDS = '0';
+
+      const config = configuration();
+
+      expect(config.cache.ttlSeconds).toBe(0);
+    });
   });
 
   describe('rate limit configuration', () => {
@@ -221,6 +277,186 @@ describe('Configuration', () => {
     });
   });
 
+  describe('calendar configuration', () => {
+    it('should use default meal hours and event duration', () => {
+      delete process.env.CALENDAR_BREAKFAST_HOUR;
+      delete process.env.CALENDAR_DINNER_HOUR;
+      delete process.env.CALENDAR_EVENT_DURATION_MINUTES;
+      delete process.env.CALENDAR_FEED_BASE_URL;
+
+      const config = configuration();
+
+      expect(config.calendar.mealHours.BREAKFAST).toBe(8);
+      expect(config.calendar.mealHours.DINNER).toBe(18);
+      expect(config.calendar.eventDurationMinutes).toBe(60);
+      expect(config.calendar.feedBaseUrl).toBeUndefined();
+    });
+
+    it('should default to Monday weeks and the en-US locale', () => {
+      delete process.env.CALENDAR_WEEK_START_DAY;
+      delete process.env.CALENDAR_DEFAULT_LOCALE;
+
+      const config = configuration();
+
+      expect(config.calendar.weekStartDay).toBe('MONDAY');
+      expect(config.calendar.defaultLocale).toBe('en-US');
+    });
+
+    it('should read the week start day and locale from environment variables', () => {
+      process.env.CALENDAR_WEEK_START_DAY = 'SUNDAY';
+      process.env.CALENDAR_DEFAULT_LOCALE = 'fr-FR';
+
+      const config = configuration();
+
+      expect(config.calendar.weekStartDay).toBe('SUNDAY');
+      expect(config.calendar.defaultLocale).toBe('fr-FR');
+    });
+
+    it('should read meal hours from environment variables', () => {
+      process.env.CALENDAR_BREAKFAST_HOUR = '0';
+      process.env.CALENDAR_DINNER_HOUR = '19';
+      process.env.CALENDAR_EVENT_DURATION_MINUTES = '30';
+      process.env.CALENDAR_FEED_BASE_URL = 'https://api.example.com';
+
+      const config = configuration();
+
+      expect(config.calendar.mealHours.BREAKFAST).toBe(0);
+      expect(config.calendar.mealHours.DINNER).toBe(19);
+      expect(config.calendar.eventDurationMinutes).toBe(30);
+      expect(config.calendar.feedBaseUrl).toBe('https://api.example.com');
+    });
+  });
+
+  describe('share link configuration', () => {
+    it('should fall back to the JWT secret and a 30 day lifetime', () => {
+      process.env.JWT_SECRET = 'jwt-secret';
+      delete process.env.SHARE_LINK_SECRET;
+      delete process.env.SHARE_LINK_TTL_DAYS;
+      delete process.env.SHARE_LINK_BASE_URL;
+
+      const config = configuration();
+
+      expect(config.shareLinks.secret).toBe('jwt-secret');
+      expect(config.shareLinks.ttlDays).toBe(30);
+      expect(config.shareLinks.baseUrl).toBeUndefined();
+    });
+
+    it('should fall back to the JWT secret when the share link secret is empty', () => {
+      process.env.JWT_SECRET = 'jwt-secret';
+      process.env.SHARE_LINK_SECRET = '';
+
+      const config = configuration();
+
+      expect(config.shareLinks.secret).toBe('jwt-secret');
+    });
+
+    it('should read share link settings from environment variables', () => {
+      process.env.SHARE_LINK_SECRET = 'share-link-secret';
+      process.env.SHARE_LINK_TTL_DAYS = '7';
+      process.env.SHARE_LINK_BASE_URL = 'https://api.example.com';
+
+      const config = configuration();
+
+      expect(config.shareLinks.secret).toBe('share-link-secret');
+      expect(config.shareLinks.ttlDays).toBe(7);
+      expect(config.shareLinks.baseUrl).toBe('https://api.example.com');
+    });
+  });
+
+  describe('trending configuration', () => {
+    it('should use the default weights, decay, window and cap', () => {
+      delete process.env.TRENDING_WEIGHT_FAVORITE;
+      delete process.env.TRENDING_WEIGHT_VIEW;
+      delete process.env.TRENDING_DECAY_RATE;
+      delete process.env.TRENDING_WINDOW_DAYS;
+      delete process.env.TRENDING_MAX_RESULTS;
+      delete process.env.TRENDING_REFRESH_INTERVAL_SECONDS;
+
+      const config = configuration();
+
+      expect(config.trending.weights.favorite).toBe(3);
+      expect(config.trending.weights.view).toBe(0.5);
+      expect(config.trending.decayRate).toBe(0.23);
+      expect(config.trending.windowDays).toBe(30);
+      expect(config.trending.maxResults).toBe(100);
+      expect(config.trending.refreshIntervalSeconds).toBe(300);
+    });
+
+    it('should read trending settings from environment variables', () => {
+      process.env.TRENDING_WEIGHT_CLONE = '0';
+      process.env.TRENDING_WEIGHT_RECIPE_ADDED = '2.5';
+      process.env.TRENDING_DECAY_RATE = '0.1';
+      process.env.TRENDING_WINDOW_DAYS = '14';
+      process.env.TRENDING_MAX_RESULTS = '50';
+      process.env.TRENDING_REFRESH_INTERVAL_SECONDS = '0';
+
+      const config = configuration();
+
+      expect(config.trending.weights.clone).toBe(0);
+      expect(config.trending.weights.recipeAdded).toBe(2.5);
+      expect(config.trending.decayRate).toBe(0.1);
+      expect(config.trending.windowDays).toBe(14);
+      expect(config.trending.maxResults).toBe(50);
+      expect(config.trending.refreshIntervalSeconds).toBe(0);
+    });
+  });
+
+  describe('recipe id configuration', () => {
+    it('should accept legacy recipe UUIDs by default', () => {
+      delete process.env.RECIPE_ID_ACCEPT_LEGACY_UUIDS;
+
+      const config = configuration();
+
+      expect(config.recipeIds.acceptLegacyUuids).toBe(true);
+    });
+
+    it('should stop accepting legacy recipe UUIDs when disabled', () => {
+      process.env.RECIPE_ID_ACCEPT_LEGACY_UUIDS = 'false';
+
+      const config = configuration();
+
+      expect(config.recipeIds.acceptLegacyUuids).toBe(false);
+    });
+  });
+
+  describe('user data configuration', () => {
+    it('should leave the anonymous user unset by default', () => {
+      delete process.env.USER_DATA_ANONYMOUS_USER_ID;
+
+      const config = configuration();
+
+      expect(config.userData.anonymousUserId).toBeUndefined();
+    });
+
+    it('should read the anonymous user from environment variables', () => {
+      process.env.USER_DATA_ANONYMOUS_USER_ID = '00000000-0000-4000-8000-000000000000';
+
+      const config = configuration();
+
+      expect(config.userData.anonymousUserId).toBe('00000000-0000-4000-8000-000000000000');
+    });
+  });
+
+  describe('oauth2 configuration', () => {
+    it('should use the default introspection cache TTLs', () => {
+      delete process.env.OAUTH2_INTROSPECTION_CACHE_TTL;
+      delete process.env.OAUTH2_INTROSPECTION_NEGATIVE_CACHE_TTL;
+
+      const config = configuration();
+
+      expect(config.oauth2.introspectionCacheTTL).toBe(60000);
+      expect(config.oauth2.introspectionNegativeCacheTTL).toBe(30000);
+    });
+
+    it('should read the negative cache TTL from environment variables', () => {
+      process.env.OAUTH2_INTROSPECTION_NEGATIVE_CACHE_TTL = '5000';
+
+      const config = configuration();
+
+      expect(config.oauth2.introspectionNegativeCacheTTL).toBe(5000);
+    });
+  });
+
   describe('external services configuration', () => {
     it('should handle optional external service URLs', () => {
       delete process.env.RECIPE_SERVICE_URL;
@@ -16,9 +16,19 @@ export interface DatabaseConfig {
 export interface JwtConfig {
   secret: string;
   expiresIn: string;
+  // Verify RS256/ES256 tokens against this JWKS endpoint instead of the secret
+  jwksUri?: string;
+  // Static JWKS document used instead of the endpoint, e.g. in tests or air-gapped setups
+  jwksFile?: string;
+  // Seconds before the key set is fetched again
+  jwksCacheTtlSeconds: number;
+  // Audience tokens must be issued for (not checked when unset)
+  audience?: string;
 }
 
 export interface RedisConfig {
+  // Cache responses in Redis instead of in process memory
+  enabled: boolean;
   host: string;
   port: number;
   db: number;
@@ -26,6 +36,11 @@ export interface RedisConfig {
   password?: string;
 }
 
+export interface CacheConfig {
+  // Seconds a cached response is served before it is reloaded (0 disables caching)
+  ttlSeconds: number;
+}
+
 export interface AppConfig {
   nodeEnv: string;
   port: number;
@@ -53,13 +68,59 @@ export interface ExternalServicesConfig {
   userServiceUrl?: string;
 }
 
+export interface CalendarConfig {
+  // Hour of day (0-23) that meals of each type start at in calendar exports
+  mealHours: Record<'BREAKFAST' | 'LUNCH' | 'DINNER' | 'SNACK' | 'DESSERT', number>;
+  eventDurationMinutes: number;
+  // Public base URL used to build calendar subscription links
+  feedBaseUrl?: string;
+  // First day of the week in week and month views unless the request picks one
+  weekStartDay: 'SUNDAY' | 'MONDAY' | 'SATURDAY';
+  // Locale for day and month names when neither the request nor Accept-Language picks one
+  defaultLocale: string;
+}
+
+export interface ShareLinkConfig {
+  // Secret used to sign share-link tokens
+  secret: string;
+  ttlDays: number;
+  // Public base URL used to build share links
+  baseUrl?: string;
+}
+
+export interface TrendingConfig {
+  // Points each engagement signal adds to a meal plan's score before time decay
+  weights: Record<'favorite' | 'view' | 'clone' | 'recipeAdded', number>;
+  // Exponential decay per day of signal age (0.23 halves a signal in ~3 days)
+  decayRate: number;
+  // Only signals from the last windowDays days are counted
+  windowDays: number;
+  // Maximum number of meal plans in the trending ranking
+  maxResults: number;
+  // Seconds between rebuilds of the precomputed ranking (0 disables the scheduler)
+  refreshIntervalSeconds: number;
+}
+
+export interface RecipeIdConfig {
+  // Accept legacy recipe UUIDs alongside numeric recipe IDs (migration window)
+  acceptLegacyUuids: boolean;
+}
+
+export interface UserDataConfig {
+  // Account that keeps a user's shared meal plans when their data is anonymized
+  anonymousUserId?: string;
+}
+
 export interface OAuth2Config {
   enabled: boolean;
   serviceToServiceEnabled: boolean;
   introspectionEnabled: boolean;
   clientId: string;
   clientSecret: string;
+  // Milliseconds to cache active tokens that carry no expiry
   introspectionCacheTTL: number;
+  // Milliseconds to cache inactive tokens
+  introspectionNegativeCacheTTL: number;
 }
 
 export default () => ({
@@ -89,9 +150,14 @@ export default () => ({
   jwt: {
     secret: process.env.JWT_SECRET!,
     expiresIn: process.env.JWT_EXPIRES_IN ?? '1d',
+    jwksUri: process.env.JWT_JWKS_URI,
+    jwksFile: process.env.JWT_JWKS_FILE,
+    jwksCacheTtlSeconds: parseInt(process.env.JWT_JWKS_CACHE_TTL_SECONDS!, 10) || 600,
+    audience: process.env.JWT_AUDIENCE,
   } as JwtConfig,
 
   redis: {
+    enabled: process.env.REDIS_ENABLED === 'true',
     host: process.env.REDIS_HOST ?? 'localhost',
     port: parseInt(process.env.REDIS_PORT!, 10) || 6379,
     db: parseInt(process.env.REDIS_DB!, 10) || 0,
@@ -99,6 +165,10 @@ export default () => ({
     password: process.env.REDIS_PASSWORD,
   } as RedisConfig,
 
+  cache: {
+    ttlSeconds: parseInt(process.env.CACHE_TTL_SECONDS ?? '60', 10),
+  } as CacheConfig,
+
   rateLimit: {
     ttl: parseInt(process.env.RATE_LIMIT_TTL!, 10) ?? 60,
     limit: parseInt(process.env.RATE_LIMIT_MAX!, 10) ?? 100,
@@ -119,6 +189,48 @@ export default () => ({
     userServiceUrl: process.env.USER_SERVICE_URL,
   } as ExternalServicesConfig,
 
+  calendar: {
+    mealHours: {
+      BREAKFAST: parseInt(process.env.CALENDAR_BREAKFAST_HOUR ?? '8', 10),
+      LUNCH: parseInt(process.env.CALENDAR_LUNCH_HOUR ?? '12', 10),
+      DINNER: parseInt(process.env.CALENDAR_DINNER_HOUR ?? '18', 10),
+      SNACK: parseInt(process.env.CALENDAR_SNACK_HOUR ?? '15', 10),
+      DESSERT: parseInt(process.env.CALENDAR_DESSERT_HOUR ?? '20', 10),
+    },
+    eventDurationMinutes: parseInt(process.env.CALENDAR_EVENT_DURATION_MINUTES!, 10) || 60,
+    feedBaseUrl: process.env.CALENDAR_FEED_BASE_URL,
+    weekStartDay: process.env.CALENDAR_WEEK_START_DAY ?? 'MONDAY',
+    defaultLocale: process.env.CALENDAR_DEFAULT_LOCALE ?? 'en-US',
+  } as CalendarConfig,
+
+  shareLinks: {
+    // eslint-disable-next-line @typescript-eslint/prefer-nullish-coalescing -- An empty SHARE_LINK_SECRET also falls back
+    secret: process.env.SHARE_LINK_SECRET || process.env.JWT_SECRET!,
+    ttlDays: parseInt(process.env.SHARE_LINK_TTL_DAYS!, 10) || 30,
+    baseUrl: process.env.SHARE_LINK_BASE_URL,
+  } as ShareLinkConfig,
+
+  trending: {
+    weights: {
+      favorite: parseFloat(process.env.TRENDING_WEIGHT_FAVORITE ?? '3'),
+      view: parseFloat(process.env.TRENDING_WEIGHT_VIEW ?? '0.5'),
+      clone: parseFloat(process.env.TRENDING_WEIGHT_CLONE ?? '4'),
+      recipeAdded: parseFloat(process.env.TRENDING_WEIGHT_RECIPE_ADDED ?? '1'),
+    },
+    decayRate: parseFloat(process.env.TRENDING_DECAY_RATE ?? '0.23'),
+    windowDays: parseInt(process.env.TRENDING_WINDOW_DAYS!, 10) || 30,
+    maxResults: parseInt(process.env.TRENDING_MAX_RESULTS!, 10) || 100,
+    refreshIntervalSeconds: parseInt(process.env.TRENDING_REFRESH_INTERVAL_SECONDS ?? '300', 10),
+  } as TrendingConfig,
+
+  recipeIds: {
+    acceptLegacyUuids: process.env.RECIPE_ID_ACCEPT_LEGACY_UUIDS !== 'false',
+  } as RecipeIdConfig,
+
+  userData: {
+    anonymousUserId: process.env.USER_DATA_ANONYMOUS_USER_ID,
+  } as UserDataConfig,
+
   oauth2: {
     enabled: process.env.OAUTH2_SERVICE_ENABLED === 'true',
     serviceToServiceEnabled: process.env.OAUTH2_SERVICE_TO_SERVICE_ENABLED === 'true',
@@ -126,5 +238,7 @@ export default () => ({
     clientId: process.env.OAUTH2_CLIENT_ID!,
     clientSecret: process.env.OAUTH2_CLIENT_SECRET!,
     introspectionCacheTTL: parseInt(process.env.OAUTH2_INTROSPECTION_CACHE_TTL!, 10) || 60000,
+    introspectionNegativeCacheTTL:
+      parseInt(process.env.OAUTH2_INTROSPECTION_NEGATIVE_CACHE_TTL!, 10) || 30000,
   } as OAuth2Config,
 });
@@ -1,8 +1,10 @@
-import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { Injectable, OnModuleInit, OnModuleDestroy, Optional } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PrismaClient } from '@generated/prisma/client';
 import { PrismaPg } from '@prisma/adapter-pg';
 import { LoggerService } from '@/shared/services/logger.service';
+import { MetricsService } from '@/modules/metrics/metrics.service';
+import { createQueryMetricsExtension } from '@/shared/database/query-metrics.extension';
 
 export interface DatabaseHealthStatus {
   status: 'healthy' | 'unhealthy';
@@ -27,6 +29,7 @@ export class PrismaService extends PrismaClient implements OnModuleInit, OnModul
   constructor(
     private readonly logger: LoggerService,
     private readonly configService: ConfigService,
+    @Optional() metricsService?: MetricsService,
   ) {
     const databaseUrl =
       configService.get<string>('database.url') ??
@@ -63,6 +66,12 @@ export class PrismaService extends PrismaClient implements OnModuleInit, OnModul
     this.enableContinuousRetry = configService.get<boolean>('database.enableContinuousRetry', true);
 
     this.setupEventListeners();
+
+    // The extended client keeps this instance as its prototype, so the
+    // lifecycle and health check methods below still apply to it
+    if (metricsService) {
+      return this.$extends(createQueryMetricsExtension(metricsService)) as unknown as this;
+    }
   }
 
   async onModuleInit() {
@@ -18,18 +18,58 @@ export const validationSchema = Joi.object({
   // JWT
   JWT_SECRET: Joi.string().required(),
   JWT_EXPIRES_IN: Joi.string().default('1d'),
+  JWT_JWKS_URI: Joi.string().uri().optional(),
+  JWT_JWKS_FILE: Joi.string().optional(),
+  JWT_JWKS_CACHE_TTL_SECONDS: Joi.number().integer().min(1).default(600),
+  JWT_AUDIENCE: Joi.string().optional(),
 
   // Redis (for caching/sessions)
+  REDIS_ENABLED: Joi.boolean().default(false),
   REDIS_HOST: Joi.string().default('localhost'),
   REDIS_PORT: Joi.number().default(6379),
   REDIS_DB: Joi.number().integer().min(0).max(15).default(0),
   REDIS_USER: Joi.string().optional(),
   REDIS_PASSWORD: Joi.string().optional(),
 
+  // Response cache
+  CACHE_TTL_SECONDS: Joi.number().integer().min(0).default(60),
+
   // External APIs
   RECIPE_SERVICE_URL: Joi.string().uri().optional(),
   USER_SERVICE_URL: Joi.string().uri().optional(),
 
+  // Calendar export
+  CALENDAR_BREAKFAST_HOUR: Joi.number().integer().min(0).max(23).default(8),
+  CALENDAR_LUNCH_HOUR: Joi.number().integer().min(0).max(23).default(12),
+  CALENDAR_DINNER_HOUR: Joi.number().integer().min(0).max(23).default(18),
+  CALENDAR_SNACK_HOUR: Joi.number().integer().min(0).max(23).default(15),
+  CALENDAR_DESSERT_HOUR: Joi.number().integer().min(0).max(23).default(20),
+  CALENDAR_EVENT_DURATION_MINUTES: Joi.number().integer().min(1).max(1440).default(60),
+  CALENDAR_FEED_BASE_URL: Joi.string().uri().optional(),
+  CALENDAR_WEEK_START_DAY: Joi.string().valid('SUNDAY', 'MONDAY', 'SATURDAY').default('MONDAY'),
+  CALENDAR_DEFAULT_LOCALE: Joi.string().default('en-US'),
+
+  // Meal plan share links
+  SHARE_LINK_SECRET: Joi.string().min(32).allow('').optional(),
+  SHARE_LINK_TTL_DAYS: Joi.number().integer().min(1).max(365).default(30),
+  SHARE_LINK_BASE_URL: Joi.string().uri().optional(),
+
+  // Trending meal plans
+  TRENDING_WEIGHT_FAVORITE: Joi.number().min(0).default(3),
+  TRENDING_WEIGHT_VIEW: Joi.number().min(0).default(0.5),
+  TRENDING_WEIGHT_CLONE: Joi.number().min(0).default(4),
+  TRENDING_WEIGHT_RECIPE_ADDED: Joi.number().min(0).default(1),
+  TRENDING_DECAY_RATE: Joi.number().min(0).default(0.23),
+  TRENDING_WINDOW_DAYS: Joi.number().integer().min(1).max(365).default(30),
+  TRENDING_MAX_RESULTS: Joi.number().integer().min(1).max(1000).default(100),
+  TRENDING_REFRESH_INTERVAL_SECONDS: Joi.number().integer().min(0).default(300),
+
+  // Recipe identifiers
+  RECIPE_ID_ACCEPT_LEGACY_UUIDS: Joi.boolean().default(true),
+
+  // User data lifecycle
+  USER_DATA_ANONYMOUS_USER_ID: Joi.string().uuid().optional(),
+
   // Rate limiting
   RATE_LIMIT_TTL: Joi.number().default(60),
   RATE_LIMIT_MAX: Joi.number().default(100),
@@ -51,6 +91,8 @@ export const validationSchema = Joi.object({
     then: Joi.required(),
     otherwise: Joi.optional(),
   }),
+  OAUTH2_INTROSPECTION_CACHE_TTL: Joi.number().integer().min(1).default(60000),
+  OAUTH2_INTROSPECTION_NEGATIVE_CACHE_TTL: Joi.number().integer().min(1).default(30000),
 
   // Logging
   LOG_LEVEL: Joi.string().valid('error', 'warn', 'info', 'debug', 'verbose').default('info'),
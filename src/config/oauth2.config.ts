@@ -11,7 +11,6 @@ export interface OAuth2StaticConfig {
   scopes: string[];
   endpoints: OAuth2EndpointsConfig;
   tokenCacheTTL: number;
-  introspectionCacheTTL: number;
   tokenRefreshBuffer: number;
 }
 
@@ -27,8 +26,6 @@ export const oauth2Config: OAuth2StaticConfig = {
   },
   // Cache service tokens for 55 minutes (with 5min buffer for 1hr tokens)
   tokenCacheTTL: 3300000,
-  // Cache introspection results for 1 minute
-  introspectionCacheTTL: 60000,
   // Refresh tokens 30 seconds before expiry
   tokenRefreshBuffer: 30000,
 };
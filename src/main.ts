@@ -7,6 +7,11 @@ import { AppModule } from './app.module';
 import { HttpExceptionFilter } from '@/shared/filters/http-exception.filter';
 import { ResponseInterceptor } from '@/shared/interceptors/response.interceptor';
 import { CorrelationIdInterceptor } from '@/shared/interceptors/correlation-id.interceptor';
+import { oauth2Config } from '@/config/oauth2.config';
+import {
+  OAUTH2_SCOPE_DESCRIPTIONS,
+  OAUTH2_SECURITY_SCHEME,
+} from '@/modules/auth/constants/oauth2-scopes.constant';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
@@ -64,7 +69,8 @@ This API uses OAuth2 with JWT Bearer tokens for authentication. All endpoints (e
 
 - **Format**: JWT (JSON Web Token)
 - **Type**: Bearer token in Authorization header
-- **Scopes**: Tokens must include appropriate scopes (read, write)
+- **Scopes**: Each endpoint lists the scopes it requires under the OAuth2 security scheme
+  (\`meal_plans:read\` for reads, \`meal_plans:write\` for changes). Tokens without them get 403
 - **Expiration**: Tokens have limited lifetime and must be refreshed
 
 ### Service-to-Service Authentication
@@ -114,6 +120,19 @@ Enter your JWT access token. The token should be obtained from your OAuth2 autho
       },
       'JWT-Auth',
     )
+    .addOAuth2(
+      {
+        type: 'oauth2',
+        description: 'Scopes required by each endpoint. Tokens are issued by the auth service.',
+        flows: {
+          clientCredentials: {
+            tokenUrl: `${oauth2Config.authBaseUrl}${oauth2Config.endpoints.token}`,
+            scopes: OAUTH2_SCOPE_DESCRIPTIONS,
+          },
+        },
+      },
+      OAUTH2_SECURITY_SCHEME,
+    )
     .addSecurityRequirements('JWT-Auth')
     .addServer('http://localhost:3000', 'Development server')
     .addServer('https://api.example.com', 'Production server')
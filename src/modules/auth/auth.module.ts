@@ -5,9 +5,11 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthService } from './auth.service';
 import { TokenValidationService } from './services/token-validation.service';
 import { ServiceAuthService } from './services/service-auth.service';
+import { JwksService } from './services/jwks.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { ServiceAuthGuard } from './guards/service-auth.guard';
+import { ScopesGuard } from './guards/scopes.guard';
 import { OAuth2Config } from '../../config/configuration';
 
 const jwtStrategyProvider: Provider = {
@@ -31,9 +33,11 @@ const jwtStrategyProvider: Provider = {
     AuthService,
     TokenValidationService,
     ServiceAuthService,
+    JwksService,
     jwtStrategyProvider,
     JwtAuthGuard,
     ServiceAuthGuard,
+    ScopesGuard,
   ],
   exports: [
     AuthService,
@@ -41,6 +45,7 @@ const jwtStrategyProvider: Provider = {
     ServiceAuthService,
     JwtAuthGuard,
     ServiceAuthGuard,
+    ScopesGuard,
     PassportModule,
   ],
 })
@@ -12,7 +12,6 @@ describe('AuthService', () => {
   let configService: { get: Mock<(key: string) => unknown> };
   let tokenValidationService: {
     validateToken: Mock<(token: string) => Promise<AuthenticatedUser>>;
-    cleanupCache: Mock<() => void>;
   };
 
   const mockOAuth2Config: OAuth2Config = {
@@ -22,6 +21,7 @@ describe('AuthService', () => {
     clientId: 'test-client',
     clientSecret: 'test-secret', // pragma: allowlist secret
     introspectionCacheTTL: 60000,
+    introspectionNegativeCacheTTL: 30000,
   };
 
   const mockUser: AuthenticatedUser = {
@@ -39,7 +39,6 @@ describe('AuthService', () => {
 
     const mockTokenValidationService = {
       validateToken: mock(() => Promise.resolve(mockUser)),
-      cleanupCache: mock(() => {}),
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -317,32 +316,6 @@ describe('AuthService', () => {
     });
   });
 
-  describe('cleanupTokenCache', () => {
-    it('should delegate cache cleanup to TokenValidationService', () => {
-      service.cleanupTokenCache();
-
-      expect(tokenValidationService.cleanupCache).toHaveBeenCalled();
-    });
-
-    it('should not throw error when cleanup is called multiple times', () => {
-      expect(() => {
-        service.cleanupTokenCache();
-        service.cleanupTokenCache();
-        service.cleanupTokenCache();
-      }).not.toThrow();
-
-      expect(tokenValidationService.cleanupCache).toHaveBeenCalledTimes(3);
-    });
-
-    it('should handle cleanup service errors gracefully', () => {
-      tokenValidationService.cleanupCache.mockImplementation(() => {
-        throw new Error('Cleanup failed');
-      });
-
-      expect(() => service.cleanupTokenCache()).toThrow('Cleanup failed');
-    });
-  });
-
   describe('integration scenarios', () => {
     it('should work with all features enabled', () => {
       const fullConfig: OAuth2Config = {
@@ -352,6 +325,7 @@ describe('AuthService', () => {
         clientId: 'full-client',
         clientSecret: 'full-secret', // pragma: allowlist secret
         introspectionCacheTTL: 60000,
+        introspectionNegativeCacheTTL: 30000,
       };
       configService.get.mockReturnValue(fullConfig);
 
@@ -368,6 +342,7 @@ describe('AuthService', () => {
         clientId: 'minimal-client',
         clientSecret: 'minimal-secret', // pragma: allowlist secret
         introspectionCacheTTL: 60000,
+        introspectionNegativeCacheTTL: 30000,
       };
       configService.get.mockReturnValue(minimalConfig);
 
@@ -384,6 +359,7 @@ describe('AuthService', () => {
         clientId: 'disabled-client',
         clientSecret: 'disabled-secret', // pragma: allowlist secret
         introspectionCacheTTL: 60000,
+        introspectionNegativeCacheTTL: 30000,
       };
       configService.get.mockReturnValue(disabledConfig);
 
@@ -400,6 +376,7 @@ describe('AuthService', () => {
         clientId: 'mixed-client',
         clientSecret: 'mixed-secret', // pragma: allowlist secret
         introspectionCacheTTL: 60000,
+        introspectionNegativeCacheTTL: 30000,
       };
       configService.get.mockReturnValue(mixedConfig);
 
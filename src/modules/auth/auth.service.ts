@@ -31,9 +31,4 @@ export class AuthService {
     const oauth2Config = this.configService.get<OAuth2Config>('oauth2');
     return oauth2Config?.introspectionEnabled === true;
   }
-
-  // Cleanup method that can be called periodically
-  cleanupTokenCache(): void {
-    this.tokenValidationService.cleanupCache();
-  }
 }
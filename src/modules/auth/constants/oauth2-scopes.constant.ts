@@ -0,0 +1,25 @@
+/**
+ * Scopes that access tokens must carry to call the meal plan endpoints.
+ */
+export const MealPlanScopes = {
+  READ: 'meal_plans:read',
+  WRITE: 'meal_plans:write',
+} as const;
+
+/**
+ * Scope that services must carry to export, erase or transfer a user's data.
+ */
+export const UserDataScopes = {
+  ADMIN: 'user_data:admin',
+} as const;
+
+// Scope descriptions published in the OpenAPI OAuth2 security scheme
+export const OAUTH2_SCOPE_DESCRIPTIONS: Record<string, string> = {
+  [MealPlanScopes.READ]:
+    'Read meal plans, their tags, favorites, templates, collaborators and calendar exports',
+  [MealPlanScopes.WRITE]:
+    'Create, update and delete meal plans, their tags, favorites, templates, collaborators, share links and calendar subscriptions',
+  [UserDataScopes.ADMIN]: "Export, erase and transfer a user's meal plan data",
+};
+
+export const OAUTH2_SECURITY_SCHEME = 'OAuth2';
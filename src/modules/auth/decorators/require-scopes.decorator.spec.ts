@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'bun:test';
+import { RequireScopes, REQUIRED_SCOPES_KEY } from './require-scopes.decorator';
+import { MealPlansController } from '../../meal-plans/meal-plans.controller';
+import { MealPlanTagsController } from '../../meal-plans/meal-plan-tags.controller';
+import { MealPlanFavoritesController } from '../../meal-plans/meal-plan-favorites.controller';
+
+class TestController {
+  @RequireScopes('meal_plans:read', 'meal_plans:write')
+  handle(): void {}
+}
+
+describe('RequireScopes Decorator', () => {
+  it('should store the required scopes as route metadata', () => {
+    expect(Reflect.getMetadata(REQUIRED_SCOPES_KEY, TestController.prototype.handle)).toEqual([
+      'meal_plans:read',
+      'meal_plans:write',
+    ]);
+  });
+
+  it('should document the scopes as an OAuth2 security requirement', () => {
+    expect(Reflect.getMetadata('swagger/apiSecurity', TestController.prototype.handle)).toEqual([
+      { OAuth2: ['meal_plans:read', 'meal_plans:write'] },
+    ]);
+  });
+
+  describe.each([
+    ['MealPlansController', MealPlansController],
+    ['MealPlanTagsController', MealPlanTagsController],
+    ['MealPlanFavoritesController', MealPlanFavoritesController],
+  ])('%s', (_name, controller) => {
+    const handlerNames = Object.getOwnPropertyNames(controller.prototype).filter(
+      (name) => name !== 'constructor',
+    );
+
+    it.each(handlerNames)('should declare the scopes required by %s', (handlerName) => {
+      const handler = (controller.prototype as unknown as Record<string, unknown>)[handlerName];
+
+      expect(Reflect.getMetadata(REQUIRED_SCOPES_KEY, handler as object)).toEqual([
+        expect.stringMatching(/^meal_plans:(read|write)$/),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,16 @@
+import { applyDecorators, SetMetadata } from '@nestjs/common';
+import { ApiOAuth2 } from '@nestjs/swagger';
+import { OAUTH2_SECURITY_SCHEME } from '../constants/oauth2-scopes.constant';
+
+export const REQUIRED_SCOPES_KEY = 'requiredScopes';
+
+/**
+ * Require the access token to carry every listed scope. Enforced by
+ * ScopesGuard (and ServiceAuthGuard) and listed as the OAuth2 security
+ * requirement of the operation in the OpenAPI document.
+ */
+export const RequireScopes = (...scopes: string[]) =>
+  applyDecorators(
+    SetMetadata(REQUIRED_SCOPES_KEY, scopes),
+    ApiOAuth2(scopes, OAUTH2_SECURITY_SCHEME),
+  );
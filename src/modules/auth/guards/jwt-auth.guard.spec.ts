@@ -17,6 +17,7 @@ describe('JwtAuthGuard', () => {
     clientId: 'test-client',
     clientSecret: 'test-secret', // pragma: allowlist secret
     introspectionCacheTTL: 300000,
+    introspectionNegativeCacheTTL: 30000,
   };
 
   const mockUser: AuthenticatedUser = {
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Request } from 'express';
+import { ScopesGuard } from './scopes.guard';
+import { RequireScopes } from '../decorators/require-scopes.decorator';
+import { OAuth2Config } from '../../../config/configuration';
+import { AuthenticatedUser } from '../interfaces/jwt-payload.interface';
+
+interface AuthenticatedRequest extends Request {
+  user?: AuthenticatedUser;
+}
+
+@RequireScopes('meal_plans:read')
+class ScopedController {
+  list(): void {}
+
+  @RequireScopes('meal_plans:read', 'meal_plans:write')
+  update(): void {}
+}
+
+class UnscopedController {
+  health(): void {}
+}
+
+describe('ScopesGuard', () => {
+  let guard: ScopesGuard;
+  let configService: { get: Mock<(...args: unknown[]) => unknown> };
+
+  const mockOAuth2Config: OAuth2Config = {
+    enabled: true,
+    serviceToServiceEnabled: true,
+    introspectionEnabled: false,
+    clientId: 'test-client',
+    clientSecret: 'test-secret', // pragma: allowlist secret
+    introspectionCacheTTL: 300000,
+    introspectionNegativeCacheTTL: 30000,
+  };
+
+  const mockUser: AuthenticatedUser = {
+    id: 'user-123',
+    sub: 'user-123',
+    clientId: 'test-client',
+    scopes: ['meal_plans:read'],
+    exp: Math.floor(Date.now() / 1000) + 3600,
+  };
+
+  const createMockExecutionContext = (
+    controller: new () => unknown,
+    handler: () => void,
+    user?: AuthenticatedUser,
+  ): ExecutionContext => {
+    const mockRequest = { headers: {}, user } as AuthenticatedRequest;
+
+    return {
+      switchToHttp: mock(() => ({
+        getRequest: mock(() => mockRequest),
+      })),
+      getClass: mock(() => controller),
+      getHandler: mock(() => handler),
+    } as unknown as ExecutionContext;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScopesGuard,
+        {
+          provide: ConfigService,
+          useValue: { get: mock(() => mockOAuth2Config) },
+        },
+      ],
+    }).compile();
+
+    guard = module.get<ScopesGuard>(ScopesGuard);
+    configService = module.get(ConfigService);
+  });
+
+  it('should allow routes without declared scopes', () => {
+    const context = createMockExecutionContext(
+      UnscopedController,
+      UnscopedController.prototype.health,
+    );
+
+    expect(guard.canActivate(context)).toBe(true);
+  });
+
+  it('should allow users holding the scopes declared on the controller', () => {
+    const context = createMockExecutionContext(
+      ScopedController,
+      ScopedController.prototype.list,
+      mockUser,
+    );
+
+    expect(guard.canActivate(context)).toBe(true);
+  });
+
+  it('should prefer the scopes declared on the handler', () => {
+    const context = createMockExecutionContext(
+      ScopedController,
+      ScopedController.prototype.update,
+      { ...mockUser, scopes: ['meal_plans:read', 'meal_plans:write'] },
+    );
+
+    expect(guard.canActivate(context)).toBe(true);
+  });
+
+  it('should throw ForbiddenException listing the missing scopes', () => {
+    const context = createMockExecutionContext(
+      ScopedController,
+      ScopedController.prototype.update,
+      mockUser,
+    );
+
+    expect(() => guard.canActivate(context)).toThrow(ForbiddenException);
+    expect(() => guard.canActivate(context)).toThrow('Missing required scopes: meal_plans:write');
+  });
+
+  it('should throw UnauthorizedException when the request is not authenticated', () => {
+    const context = createMockExecutionContext(ScopedController, ScopedController.prototype.list);
+
+    expect(() => guard.canActivate(context)).toThrow(UnauthorizedException);
+  });
+
+  it('should allow all requests when OAuth2 is disabled', () => {
+    configService.get.mockReturnValue({ ...mockOAuth2Config, enabled: false });
+    const context = createMockExecutionContext(
+      ScopedController,
+      ScopedController.prototype.update,
+      { ...mockUser, scopes: [] },
+    );
+
+    expect(guard.canActivate(context)).toBe(true);
+  });
+});
@@ -0,0 +1,62 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { OAuth2Config } from '../../../config/configuration';
+import { AuthenticatedUser } from '../interfaces/jwt-payload.interface';
+import { REQUIRED_SCOPES_KEY } from '../decorators/require-scopes.decorator';
+
+interface AuthenticatedRequest extends Request {
+  user?: AuthenticatedUser;
+}
+
+/**
+ * Enforces the scopes declared with @RequireScopes on the handler or its
+ * controller. Must run after the guard that authenticates the request, e.g.
+ * `@UseGuards(JwtAuthGuard, ScopesGuard)`.
+ */
+@Injectable()
+export class ScopesGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly configService: ConfigService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredScopes = this.reflector.getAllAndOverride<string[] | undefined>(
+      REQUIRED_SCOPES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requiredScopes?.length) {
+      return true;
+    }
+
+    const oauth2Config = this.configService.get<OAuth2Config>('oauth2');
+
+    // If OAuth2 is disabled, requests carry no token to take scopes from
+    if (!oauth2Config?.enabled) {
+      return true;
+    }
+
+    const { user } = context.switchToHttp().getRequest<AuthenticatedRequest>();
+
+    if (!user) {
+      throw new UnauthorizedException('Authentication failed');
+    }
+
+    const missingScopes = requiredScopes.filter((scope) => !user.scopes.includes(scope));
+
+    if (missingScopes.length > 0) {
+      throw new ForbiddenException(`Missing required scopes: ${missingScopes.join(', ')}`);
+    }
+
+    return true;
+  }
+}
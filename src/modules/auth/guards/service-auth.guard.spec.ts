@@ -1,12 +1,13 @@
 import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
 import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
-import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
 import { Request } from 'express';
 import { ServiceAuthGuard } from './service-auth.guard';
 import { TokenValidationService } from '../services/token-validation.service';
 import { OAuth2Config } from '../../../config/configuration';
 import { AuthenticatedUser } from '../interfaces/jwt-payload.interface';
+import { RequireScopes } from '../decorators/require-scopes.decorator';
 
 interface AuthenticatedRequest extends Request {
   user?: AuthenticatedUser;
@@ -24,6 +25,7 @@ describe('ServiceAuthGuard', () => {
     clientId: 'test-client',
     clientSecret: 'test-secret', // pragma: allowlist secret
     introspectionCacheTTL: 300000,
+    introspectionNegativeCacheTTL: 30000,
   };
 
   const mockUser: AuthenticatedUser = {
@@ -49,8 +51,16 @@ describe('ServiceAuthGuard', () => {
     scopes: [],
   };
 
+  class ScopedController {
+    @RequireScopes('meal_plans:write')
+    update(): void {}
+
+    unscoped(): void {}
+  }
+
   const createMockExecutionContext = (
     request: Partial<AuthenticatedRequest> = {},
+    handler: () => void = ScopedController.prototype.unscoped,
   ): { context: ExecutionContext; request: AuthenticatedRequest } => {
     const mockRequest = {
       headers: {},
@@ -61,8 +71,8 @@ describe('ServiceAuthGuard', () => {
       switchToHttp: mock(() => ({
         getRequest: mock(() => mockRequest),
       })),
-      getClass: mock(() => {}),
-      getHandler: mock(() => {}),
+      getClass: mock(() => ScopedController),
+      getHandler: mock(() => handler),
       getArgs: mock(() => {}),
       getArgByIndex: mock(() => {}),
       switchToRpc: mock(() => {}),
@@ -132,6 +142,20 @@ describe('ServiceAuthGuard', () => {
         expect(tokenValidationService.validateToken).not.toHaveBeenCalled();
       });
 
+      it('should throw ForbiddenException for routes declaring scopes', async () => {
+        const disabledConfig: OAuth2Config = {
+          ...mockOAuth2Config,
+          serviceToServiceEnabled: false,
+        };
+        configService.get.mockReturnValue(disabledConfig);
+
+        const { context } = createMockExecutionContext({}, ScopedController.prototype.update);
+
+        expect(guard.canActivate(context)).rejects.toThrow(ForbiddenException);
+        expect(guard.canActivate(context)).rejects.toThrow('Service authentication is disabled');
+        expect(tokenValidationService.validateToken).not.toHaveBeenCalled();
+      });
+
       it('should return true when OAuth2 config is undefined', async () => {
         configService.get.mockReturnValue(undefined);
 
@@ -286,6 +310,35 @@ describe('ServiceAuthGuard', () => {
             'Insufficient permissions for service access',
           );
         });
+
+        it('should require the scopes declared on the route', async () => {
+          tokenValidationService.validateToken.mockResolvedValue({
+            ...mockUser,
+            scopes: ['meal_plans:write'],
+          } as never);
+
+          const { context, request } = createMockExecutionContext(
+            { headers: { authorization: 'Bearer valid-token' } },
+            ScopedController.prototype.update,
+          );
+
+          expect(await guard.canActivate(context)).toBe(true);
+          expect(request.user?.scopes).toEqual(['meal_plans:write']);
+        });
+
+        it('should throw ForbiddenException when a declared scope is missing', async () => {
+          tokenValidationService.validateToken.mockResolvedValue(mockUser as never);
+
+          const { context } = createMockExecutionContext(
+            { headers: { authorization: 'Bearer valid-token' } },
+            ScopedController.prototype.update,
+          );
+
+          expect(guard.canActivate(context)).rejects.toThrow(ForbiddenException);
+          expect(guard.canActivate(context)).rejects.toThrow(
+            'Missing required scopes: meal_plans:write',
+          );
+        });
       });
 
       describe('error handling', () => {
@@ -381,6 +434,7 @@ describe('ServiceAuthGuard', () => {
         clientId: 'meal-plan-service',
         clientSecret: 'super-secret-key', // pragma: allowlist secret
         introspectionCacheTTL: 600000,
+        introspectionNegativeCacheTTL: 30000,
       };
       configService.get.mockReturnValue(realisticConfig);
       tokenValidationService.validateToken.mockResolvedValue(mockUser);
@@ -1,9 +1,17 @@
-import { Injectable, CanActivate, ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { ConfigService } from '@nestjs/config';
 import { Request } from 'express';
 import { TokenValidationService } from '../services/token-validation.service';
 import { OAuth2Config } from '../../../config/configuration';
 import { AuthenticatedUser } from '../interfaces/jwt-payload.interface';
+import { REQUIRED_SCOPES_KEY } from '../decorators/require-scopes.decorator';
 
 interface AuthenticatedRequest extends Request {
   user?: AuthenticatedUser;
@@ -14,13 +22,22 @@ export class ServiceAuthGuard implements CanActivate {
   constructor(
     private readonly configService: ConfigService,
     private readonly tokenValidationService: TokenValidationService,
+    private readonly reflector: Reflector,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const oauth2Config = this.configService.get<OAuth2Config>('oauth2');
+    const requiredScopes = this.reflector.getAllAndOverride<string[] | undefined>(
+      REQUIRED_SCOPES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
 
-    // If OAuth2 or service-to-service auth is disabled, allow all requests
+    // If OAuth2 or service-to-service auth is disabled, allow all requests except
+    // to routes declaring @RequireScopes, which must never be reachable unauthenticated
     if (!oauth2Config?.enabled || !oauth2Config.serviceToServiceEnabled) {
+      if (requiredScopes?.length) {
+        throw new ForbiddenException('Service authentication is disabled');
+      }
       return true;
     }
 
@@ -45,9 +62,14 @@ export class ServiceAuthGuard implements CanActivate {
       throw new UnauthorizedException('Service authentication failed');
     }
 
-    // For service-to-service calls, we expect specific client credentials
-    // You might want to check for specific scopes or client IDs here
-    if (!user.scopes.includes('read') && !user.scopes.includes('write')) {
+    if (requiredScopes?.length) {
+      // Routes declaring @RequireScopes need every listed scope
+      const missingScopes = requiredScopes.filter((scope) => !user.scopes.includes(scope));
+      if (missingScopes.length > 0) {
+        throw new ForbiddenException(`Missing required scopes: ${missingScopes.join(', ')}`);
+      }
+    } else if (!user.scopes.includes('read') && !user.scopes.includes('write')) {
+      // Other service routes accept any token with the generic read or write scope
       throw new UnauthorizedException('Insufficient permissions for service access');
     }
 
@@ -0,0 +1,159 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  mock,
+  setSystemTime,
+  type Mock,
+} from 'bun:test';
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import { generateKeyPairSync, KeyObject } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JwksService } from './jwks.service';
+import { JwtConfig } from '../../../config/configuration';
+
+const toJwk = (publicKey: KeyObject, kid: string, use = 'sig') => ({
+  ...publicKey.export({ format: 'jwk' }),
+  kid,
+  use,
+});
+
+describe('JwksService', () => {
+  let service: JwksService;
+  let configService: { get: Mock<(...args: unknown[]) => unknown> };
+  let httpClient: { get: Mock<(...args: unknown[]) => unknown> };
+  let jwtConfig: Partial<JwtConfig>;
+
+  const rsaKey = generateKeyPairSync('rsa', { modulusLength: 2048 }).publicKey;
+  const ecKey = generateKeyPairSync('ec', { namedCurve: 'P-256' }).publicKey;
+
+  beforeEach(() => {
+    setSystemTime(new Date('2024-03-01T10:00:00.000Z'));
+    jwtConfig = {
+      jwksUri: 'https://auth.example.com/.well-known/jwks.json',
+      jwksCacheTtlSeconds: 600,
+    };
+    configService = { get: mock(() => jwtConfig) };
+    httpClient = {
+      get: mock(() => Promise.resolve({ data: { keys: [toJwk(rsaKey, 'rsa-1')] } })),
+    };
+
+    service = new JwksService(configService as unknown as ConfigService);
+    (service as unknown as { httpClient: typeof httpClient }).httpClient = httpClient;
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  describe('isEnabled', () => {
+    it('should be enabled when a JWKS URI or file is configured', () => {
+      expect(service.isEnabled()).toBe(true);
+
+      jwtConfig = { jwksFile: '/etc/jwks.json' };
+      expect(service.isEnabled()).toBe(true);
+    });
+
+    it('should be disabled without a JWKS source', () => {
+      jwtConfig = {};
+
+      expect(service.isEnabled()).toBe(false);
+    });
+  });
+
+  describe('getSigningKey', () => {
+    it('should fetch the key set and return the key with the requested ID', async () => {
+      const key = await service.getSigningKey('rsa-1');
+
+      expect(key.equals(rsaKey)).toBe(true);
+      expect(httpClient.get).toHaveBeenCalledWith('https://auth.example.com/.well-known/jwks.json');
+    });
+
+    it('should serve cached keys until the cache TTL elapses', async () => {
+      await service.getSigningKey('rsa-1');
+      setSystemTime(new Date('2024-03-01T10:09:00.000Z'));
+      await service.getSigningKey('rsa-1');
+
+      expect(httpClient.get).toHaveBeenCalledTimes(1);
+
+      setSystemTime(new Date('2024-03-01T10:10:00.000Z'));
+      await service.getSigningKey('rsa-1');
+
+      expect(httpClient.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refetch the key set when a token uses a rotated key', async () => {
+      await service.getSigningKey('rsa-1');
+      httpClient.get.mockResolvedValue({
+        data: { keys: [toJwk(rsaKey, 'rsa-1'), toJwk(ecKey, 'ec-2')] },
+      } as never);
+
+      setSystemTime(new Date('2024-03-01T10:01:00.000Z'));
+      const key = await service.getSigningKey('ec-2');
+
+      expect(key.equals(ecKey)).toBe(true);
+      expect(httpClient.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throttle refetches for unknown key IDs', async () => {
+      await service.getSigningKey('rsa-1');
+
+      expect(service.getSigningKey('forged')).rejects.toThrow(UnauthorizedException);
+      expect(service.getSigningKey('forged')).rejects.toThrow('Unknown token signing key');
+      expect(httpClient.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share a single fetch between concurrent lookups', async () => {
+      await Promise.all([service.getSigningKey('rsa-1'), service.getSigningKey('rsa-1')]);
+
+      expect(httpClient.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the cached keys when a refresh fails', async () => {
+      await service.getSigningKey('rsa-1');
+      httpClient.get.mockRejectedValue(new Error('Network error') as never);
+
+      setSystemTime(new Date('2024-03-01T10:10:00.000Z'));
+      const key = await service.getSigningKey('rsa-1');
+
+      expect(key.equals(rsaKey)).toBe(true);
+      expect(httpClient.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject lookups when the key set cannot be loaded', async () => {
+      httpClient.get.mockRejectedValue(new Error('Network error') as never);
+
+      expect(service.getSigningKey('rsa-1')).rejects.toThrow('Unknown token signing key');
+    });
+
+    it('should skip encryption keys and keys without an ID', async () => {
+      const keyWithoutId = { ...toJwk(ecKey, 'unused'), kid: undefined };
+      httpClient.get.mockResolvedValue({
+        data: { keys: [toJwk(rsaKey, 'enc-1', 'enc'), keyWithoutId] },
+      } as never);
+
+      expect(service.getSigningKey('enc-1')).rejects.toThrow('Unknown token signing key');
+    });
+
+    it('should read the key set from a static JWKS file', async () => {
+      const directory = mkdtempSync(join(tmpdir(), 'jwks-'));
+      const jwksFile = join(directory, 'jwks.json');
+      writeFileSync(jwksFile, JSON.stringify({ keys: [toJwk(ecKey, 'ec-1')] }));
+      jwtConfig = { jwksFile };
+
+      try {
+        const key = await service.getSigningKey('ec-1');
+
+        expect(key.equals(ecKey)).toBe(true);
+        expect(httpClient.get).not.toHaveBeenCalled();
+      } finally {
+        rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+});
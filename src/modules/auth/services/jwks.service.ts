@@ -0,0 +1,142 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createPublicKey, KeyObject, webcrypto } from 'crypto';
+import { readFile } from 'fs/promises';
+import axios, { AxiosInstance } from 'axios';
+import { JwtConfig } from '../../../config/configuration';
+
+interface SigningJsonWebKey extends webcrypto.JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+interface JsonWebKeySet {
+  keys: SigningJsonWebKey[];
+}
+
+const DEFAULT_JWKS_CACHE_TTL_SECONDS = 600;
+
+// Unknown key IDs trigger a refetch at most this often, so tokens with forged
+// key IDs cannot flood the auth service
+const MIN_REFETCH_INTERVAL_MS = 30000;
+
+/**
+ * Resolves the public keys that asymmetrically signed (RS256/ES256) access
+ * tokens are verified with, by key ID. The key set is fetched from the auth
+ * service's JWKS endpoint, or read from a static JWKS file in tests and
+ * air-gapped environments, and cached. A token signed with a key ID that is
+ * not cached refreshes the key set, so rotated keys are picked up without a
+ * restart. If a refresh fails, the previously fetched keys stay in use.
+ */
+@Injectable()
+export class JwksService {
+  private readonly logger = new Logger(JwksService.name);
+  private readonly httpClient: AxiosInstance;
+  private keys = new Map<string, KeyObject>();
+  private keysExpireAt = 0;
+  private lastFetchAttemptAt = 0;
+  private refreshPromise: Promise<void> | null = null;
+
+  constructor(private readonly configService: ConfigService) {
+    this.httpClient = axios.create({
+      timeout: 5000,
+    });
+  }
+
+  /**
+   * Whether tokens should be verified against a JWKS instead of the shared secret
+   */
+  isEnabled(): boolean {
+    const jwtConfig = this.configService.get<JwtConfig>('jwt');
+    return Boolean(jwtConfig?.jwksUri ?? jwtConfig?.jwksFile);
+  }
+
+  /**
+   * Get the public key a token was signed with
+   *
+   * @param kid - Key ID from the token header
+   * @returns Public key to verify the token signature with
+   * @throws UnauthorizedException if the key set has no key with this ID
+   */
+  async getSigningKey(kid: string): Promise<KeyObject> {
+    const now = Date.now();
+    const needsRefresh = now >= this.keysExpireAt || !this.keys.has(kid);
+    const canRefetch = now - this.lastFetchAttemptAt >= MIN_REFETCH_INTERVAL_MS;
+
+    // Lookups made while a fetch is running wait for its keys
+    if (this.refreshPromise !== null || (needsRefresh && canRefetch)) {
+      await this.refreshKeys();
+    }
+
+    const key = this.keys.get(kid);
+    if (!key) {
+      throw new UnauthorizedException('Unknown token signing key');
+    }
+
+    return key;
+  }
+
+  private async refreshKeys(): Promise<void> {
+    this.refreshPromise ??= this.fetchKeys().finally(() => {
+      this.refreshPromise = null;
+    });
+
+    await this.refreshPromise;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    const jwtConfig = this.configService.get<JwtConfig>('jwt');
+    this.lastFetchAttemptAt = Date.now();
+
+    try {
+      const keySet = await this.loadKeySet(jwtConfig);
+      this.keys = this.importKeys(keySet);
+      this.keysExpireAt =
+        Date.now() + (jwtConfig?.jwksCacheTtlSeconds ?? DEFAULT_JWKS_CACHE_TTL_SECONDS) * 1000;
+
+      this.logger.debug(`Loaded ${this.keys.size} JWKS signing keys`);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(
+        `Failed to load JWKS, keeping ${this.keys.size} cached keys: ${errorMessage}`,
+      );
+    }
+  }
+
+  private async loadKeySet(jwtConfig?: JwtConfig): Promise<JsonWebKeySet> {
+    if (jwtConfig?.jwksFile) {
+      return JSON.parse(await readFile(jwtConfig.jwksFile, 'utf8')) as JsonWebKeySet;
+    }
+
+    if (!jwtConfig?.jwksUri) {
+      throw new Error('JWKS is not configured');
+    }
+
+    const response = await this.httpClient.get<JsonWebKeySet>(jwtConfig.jwksUri);
+    return response.data;
+  }
+
+  private importKeys(keySet: JsonWebKeySet): Map<string, KeyObject> {
+    if (!Array.isArray(keySet.keys)) {
+      throw new Error('JWKS document has no keys array');
+    }
+
+    const keys = new Map<string, KeyObject>();
+
+    for (const jwk of keySet.keys) {
+      // Only signing keys can verify tokens, and lookups need a key ID
+      if (!jwk.kid || jwk.use === 'enc' || (jwk.kty !== 'RSA' && jwk.kty !== 'EC')) {
+        continue;
+      }
+
+      try {
+        keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        this.logger.warn(`Skipping invalid JWKS key ${jwk.kid}: ${errorMessage}`);
+      }
+    }
+
+    return keys;
+  }
+}
@@ -16,6 +16,7 @@ describe('ServiceAuthService', () => {
     clientId: 'test-client',
     clientSecret: 'test-secret', // pragma: allowlist secret
     introspectionCacheTTL: 300000,
+    introspectionNegativeCacheTTL: 30000,
   };
 
   const mockTokenResponse = {
@@ -3,8 +3,12 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
 import { UnauthorizedException } from '@nestjs/common';
 import * as jwt from 'jsonwebtoken';
+import { generateKeyPairSync } from 'crypto';
 import { TokenValidationService } from './token-validation.service';
+import { JwksService } from './jwks.service';
 import { OAuth2Config } from '../../../config/configuration';
+import { CACHE_STORE } from '../../../shared/cache/cache.store';
+import { MemoryCacheStore } from '../../../shared/cache/memory-cache.store';
 import {
   JwtPayload,
   IntrospectionResponse,
@@ -16,6 +20,8 @@ describe('TokenValidationService', () => {
   let configService: { get: Mock<(...args: unknown[]) => unknown> };
   let jwtVerifySpy: ReturnType<typeof spyOn>;
   let mockAxiosInstance: { post: Mock<(...args: unknown[]) => unknown> };
+  let cacheStore: MemoryCacheStore;
+  let jwksService: JwksService;
 
   const mockOAuth2Config: OAuth2Config = {
     enabled: true,
@@ -24,6 +30,7 @@ describe('TokenValidationService', () => {
     clientId: 'test-client',
     clientSecret: 'test-secret', // pragma: allowlist secret
     introspectionCacheTTL: 300000,
+    introspectionNegativeCacheTTL: 30000,
   };
 
   const mockJwtSecret = 'test-jwt-secret'; // pragma: allowlist secret
@@ -70,18 +77,26 @@ describe('TokenValidationService', () => {
     // Create spy on jwt.verify once per test
     jwtVerifySpy = spyOn(jwt, 'verify');
 
+    cacheStore = new MemoryCacheStore();
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         TokenValidationService,
+        JwksService,
         {
           provide: ConfigService,
           useValue: mockConfigService,
         },
+        {
+          provide: CACHE_STORE,
+          useValue: cacheStore,
+        },
       ],
     }).compile();
 
     service = module.get<TokenValidationService>(TokenValidationService);
     configService = module.get(ConfigService);
+    jwksService = module.get<JwksService>(JwksService);
 
     // Replace the axios instance created in constructor with our mock
     (service as any).httpClient = mockAxiosInstance;
@@ -203,13 +218,110 @@ describe('TokenValidationService', () => {
       });
     });
 
+    describe('when JWKS verification is enabled', () => {
+      const rsaKeyPair = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const ecKeyPair = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      let getSigningKey: Mock<(...args: unknown[]) => unknown>;
+
+      const signToken = (
+        payload: Partial<JwtPayload>,
+        options: jwt.SignOptions = { algorithm: 'RS256', keyid: 'rsa-1' },
+        privateKey: jwt.Secret = rsaKeyPair.privateKey,
+      ) => jwt.sign({ ...mockJwtPayload, ...payload }, privateKey, options);
+
+      beforeEach(() => {
+        configService.get.mockImplementation((key: unknown) => {
+          if (key === 'oauth2') return mockOAuth2Config;
+          if (key === 'jwt.audience') return 'meal-plan-service';
+          return undefined;
+        });
+        getSigningKey = mock((kid: unknown) =>
+          Promise.resolve(kid === 'ec-1' ? ecKeyPair.publicKey : rsaKeyPair.publicKey),
+        );
+
+        service = new TokenValidationService(
+          configService as unknown as ConfigService,
+          cacheStore,
+          { isEnabled: () => true, getSigningKey } as unknown as JwksService,
+        );
+      });
+
+      it('should verify RS256 tokens with the key named in the token header', async () => {
+        const result = await service.validateToken(signToken({}));
+
+        expect(result).toEqual(mockExpectedUser);
+        expect(getSigningKey).toHaveBeenCalledWith('rsa-1');
+      });
+
+      it('should verify ES256 tokens', async () => {
+        const token = signToken({}, { algorithm: 'ES256', keyid: 'ec-1' }, ecKeyPair.privateKey);
+
+        const result = await service.validateToken(token);
+
+        expect(result).toEqual(mockExpectedUser);
+        expect(getSigningKey).toHaveBeenCalledWith('ec-1');
+      });
+
+      it('should not require the JWT secret', async () => {
+        expect(configService.get('jwt.secret')).toBeUndefined();
+
+        expect(await service.validateToken(signToken({}))).toEqual(mockExpectedUser);
+      });
+
+      it('should reject tokens signed with a different key', async () => {
+        const otherKeyPair = generateKeyPairSync('rsa', { modulusLength: 2048 });
+        const token = signToken(
+          {},
+          { algorithm: 'RS256', keyid: 'rsa-1' },
+          otherKeyPair.privateKey,
+        );
+
+        expect(service.validateToken(token)).rejects.toThrow('Invalid token signature');
+      });
+
+      it('should reject HMAC tokens', async () => {
+        const token = signToken({}, { algorithm: 'HS256', keyid: 'rsa-1' }, mockJwtSecret);
+
+        expect(service.validateToken(token)).rejects.toThrow('Unsupported token algorithm');
+        expect(getSigningKey).not.toHaveBeenCalled();
+      });
+
+      it('should reject tokens without a key ID', async () => {
+        const token = signToken({}, { algorithm: 'RS256' });
+
+        expect(service.validateToken(token)).rejects.toThrow('Token has no key ID');
+      });
+
+      it('should reject tokens from another issuer', async () => {
+        const token = signToken({ iss: 'other-auth-service' });
+
+        expect(service.validateToken(token)).rejects.toThrow('Invalid token issuer');
+      });
+
+      it('should reject tokens issued for another audience', async () => {
+        const token = signToken({ aud: ['recipe-service'] });
+
+        expect(service.validateToken(token)).rejects.toThrow('Invalid token audience');
+      });
+
+      it('should accept a single audience string', async () => {
+        const token = signToken({ aud: 'meal-plan-service' as unknown as string[] });
+
+        expect(await service.validateToken(token)).toEqual(mockExpectedUser);
+      });
+    });
+
     describe('when introspection is enabled', () => {
       beforeEach(() => {
         const introspectionConfig = { ...mockOAuth2Config, introspectionEnabled: true };
         configService.get.mockReturnValue(introspectionConfig);
 
         // Create new service instance to get the updated config
-        service = new TokenValidationService(configService as unknown as ConfigService);
+        service = new TokenValidationService(
+          configService as unknown as ConfigService,
+          cacheStore,
+          jwksService,
+        );
         // Replace the axios instance with our mock
         (service as any).httpClient = mockAxiosInstance;
       });
@@ -298,9 +410,10 @@ describe('TokenValidationService', () => {
           expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
         });
 
-        it('should not use cache for inactive tokens', async () => {
+        it('should cache inactive tokens for the negative cache TTL', async () => {
           const inactiveResponse = { ...mockIntrospectionResponse, active: false };
           mockAxiosInstance.post.mockResolvedValue({ data: inactiveResponse });
+          const setSpy = spyOn(cacheStore, 'set');
 
           try {
             await service.validateToken('inactive-token');
@@ -316,21 +429,96 @@ describe('TokenValidationService', () => {
 
           // Should only call HTTP once due to caching
           expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+          expect(setSpy).toHaveBeenCalledWith(
+            expect.stringMatching(/^oauth2:introspection:[0-9a-f]{64}$/),
+            JSON.stringify(inactiveResponse),
+            30,
+            [],
+          );
         });
 
-        it('should respect cache configuration', async () => {
-          // Test that cache configuration is properly set up
-          const configWithCustomTTL = {
-            ...mockOAuth2Config,
-            introspectionEnabled: true,
-            introspectionCacheTTL: 60000,
-          };
-          configService.get.mockReturnValue(configWithCustomTTL);
+        it('should cache active tokens for at most the cache TTL', async () => {
+          const exp = Math.floor(Date.now() / 1000) + 3600;
+          mockAxiosInstance.post.mockResolvedValue({
+            data: { ...mockIntrospectionResponse, exp },
+          } as never);
+          const setSpy = spyOn(cacheStore, 'set');
+
+          await service.validateToken('long-lived-token');
 
-          // This test verifies that the service can be configured with different cache TTL values
-          expect(
-            () => new TokenValidationService(configService as unknown as ConfigService),
-          ).not.toThrow();
+          expect(setSpy.mock.calls[0]?.[2]).toBe(300);
+        });
+
+        it('should cache active tokens expiring sooner until they expire', async () => {
+          const exp = Math.floor(Date.now() / 1000) + 120;
+          mockAxiosInstance.post.mockResolvedValue({
+            data: { ...mockIntrospectionResponse, exp },
+          } as never);
+          const setSpy = spyOn(cacheStore, 'set');
+
+          await service.validateToken('expiring-token');
+
+          const ttlSeconds = setSpy.mock.calls[0]?.[2];
+          expect(ttlSeconds).toBeGreaterThanOrEqual(119);
+          expect(ttlSeconds).toBeLessThanOrEqual(120);
+        });
+
+        it('should fall back to the cache TTL for tokens without an expiry', async () => {
+          mockAxiosInstance.post.mockResolvedValue({
+            data: { active: true, sub: 'user-123' },
+          } as never);
+          const setSpy = spyOn(cacheStore, 'set');
+
+          await service.validateToken('no-expiry-token');
+
+          expect(setSpy.mock.calls[0]?.[2]).toBe(300);
+        });
+
+        it('should not cache tokens that have already expired', async () => {
+          mockAxiosInstance.post.mockResolvedValue({
+            data: { ...mockIntrospectionResponse, exp: Math.floor(Date.now() / 1000) - 10 },
+          } as never);
+
+          await service.validateToken('expired-token');
+          await service.validateToken('expired-token');
+
+          expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+        });
+
+        it('should share cached results between instances using the same store', async () => {
+          mockAxiosInstance.post.mockResolvedValue({ data: mockIntrospectionResponse } as never);
+          const otherReplica = new TokenValidationService(
+            configService as unknown as ConfigService,
+            cacheStore,
+            jwksService,
+          );
+
+          await service.validateToken('shared-token');
+          const result = await otherReplica.validateToken('shared-token');
+
+          expect(result.id).toBe('user-123');
+          expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+        });
+
+        it('should introspect the token when the cache store fails', async () => {
+          mockAxiosInstance.post.mockResolvedValue({ data: mockIntrospectionResponse } as never);
+          spyOn(cacheStore, 'get').mockRejectedValue(new Error('Redis unavailable'));
+          spyOn(cacheStore, 'set').mockRejectedValue(new Error('Redis unavailable'));
+
+          const result = await service.validateToken('store-down-token');
+
+          expect(result.id).toBe('user-123');
+          expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+        });
+
+        it('should use distinct keys for tokens sharing their first and last characters', async () => {
+          mockAxiosInstance.post.mockResolvedValue({ data: mockIntrospectionResponse } as never);
+          const setSpy = spyOn(cacheStore, 'set');
+
+          await service.validateToken('abcdefgh-token-one-12345678');
+          await service.validateToken('abcdefgh-token-two-12345678');
+
+          expect(setSpy.mock.calls[0]?.[0]).not.toBe(setSpy.mock.calls[1]?.[0]);
         });
       });
 
@@ -413,22 +601,4 @@ describe('TokenValidationService', () => {
       });
     });
   });
-
-  describe('cleanupCache', () => {
-    it('should remove expired cache entries', () => {
-      // This is testing the private cache cleanup functionality
-      expect(() => service.cleanupCache()).not.toThrow();
-    });
-  });
-
-  describe('hashToken', () => {
-    it('should create consistent hash from token', () => {
-      // Testing the private hashToken method indirectly through caching behavior
-      const token = 'abcdefghijklmnopqrstuvwxyz123456789'; // pragma: allowlist secret
-
-      // The hash should use first 8 and last 8 characters
-      // We can't directly test the private method, but we can verify consistent behavior
-      expect(token.length).toBeGreaterThan(16); // Ensure our test token is long enough
-    });
-  });
 });
@@ -1,25 +1,45 @@
-import { Injectable, UnauthorizedException, Logger } from '@nestjs/common';
+import { Inject, Injectable, UnauthorizedException, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
 import * as jwt from 'jsonwebtoken';
 import axios, { AxiosInstance } from 'axios';
 import { OAuth2Config } from '../../../config/configuration';
 import { oauth2Config } from '../../../config/oauth2.config';
+import { CACHE_STORE } from '../../../shared/cache/cache.store';
+import type { CacheStore } from '../../../shared/cache/cache.store';
 import {
   JwtPayload,
   IntrospectionResponse,
   AuthenticatedUser,
 } from '../interfaces/jwt-payload.interface';
+import { JwksService } from './jwks.service';
 
+const INTROSPECTION_KEY_PREFIX = 'oauth2:introspection:';
+
+// Asymmetric algorithms accepted for tokens verified against the JWKS
+const JWKS_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'ES256'];
+
+/**
+ * Validates access tokens locally or through the auth service's introspection
+ * endpoint. Introspection results are kept in the shared cache store (Redis
+ * when enabled, process memory otherwise) so replicas reuse each other's
+ * lookups: active tokens for the introspection cache TTL or until they expire,
+ * whichever comes first, and inactive ones for the negative cache TTL.
+ *
+ * Local validation verifies RS256/ES256 tokens against the auth service's
+ * JWKS when one is configured, and HMAC tokens against the shared JWT secret
+ * otherwise.
+ */
 @Injectable()
 export class TokenValidationService {
   private readonly logger = new Logger(TokenValidationService.name);
   private readonly httpClient: AxiosInstance;
-  private readonly introspectionCache = new Map<
-    string,
-    { data: IntrospectionResponse; expires: number }
-  >();
 
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(CACHE_STORE) private readonly cacheStore: CacheStore,
+    private readonly jwksService: JwksService,
+  ) {
     this.httpClient = axios.create({
       baseURL: oauth2Config.authBaseUrl,
       timeout: 5000,
@@ -37,7 +57,7 @@ export class TokenValidationService {
       if (oauth2Config.introspectionEnabled) {
         return await this.validateTokenViaIntrospection(token, oauth2Config);
       } else {
-        return this.validateTokenLocally(token);
+        return await this.validateTokenLocally(token);
       }
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -52,15 +72,19 @@ export class TokenValidationService {
     }
   }
 
-  private validateTokenLocally(token: string): AuthenticatedUser {
+  private async validateTokenLocally(token: string): Promise<AuthenticatedUser> {
+    const useJwks = this.jwksService.isEnabled();
     const jwtSecret = this.configService.get<string>('jwt.secret');
 
-    if (!jwtSecret) {
+    if (!useJwks && !jwtSecret) {
       throw new UnauthorizedException('JWT secret not configured');
     }
 
     try {
-      const decoded = jwt.verify(token, jwtSecret) as JwtPayload;
+      const decoded =
+        jwtSecret && !useJwks
+          ? (jwt.verify(token, jwtSecret) as JwtPayload)
+          : await this.verifyWithJwks(token);
 
       // Validate token structure according to OAuth2 service spec
       if (decoded.type !== 'access_token') {
@@ -71,6 +95,11 @@ export class TokenValidationService {
         throw new UnauthorizedException('Invalid token issuer');
       }
 
+      const audience = this.configService.get<string>('jwt.audience');
+      if (audience && ![decoded.aud].flat().includes(audience)) {
+        throw new UnauthorizedException('Invalid token audience');
+      }
+
       // Check if token is expired (JWT library handles this, but we can add buffer)
       const now = Math.floor(Date.now() / 1000);
       if (decoded.exp <= now) {
@@ -95,19 +124,35 @@ export class TokenValidationService {
     }
   }
 
+  private async verifyWithJwks(token: string): Promise<JwtPayload> {
+    const header = jwt.decode(token, { complete: true })?.header;
+
+    if (!header?.kid) {
+      throw new UnauthorizedException('Token has no key ID');
+    }
+
+    if (!JWKS_ALGORITHMS.includes(header.alg as jwt.Algorithm)) {
+      throw new UnauthorizedException('Unsupported token algorithm');
+    }
+
+    const signingKey = await this.jwksService.getSigningKey(header.kid);
+    return jwt.verify(token, signingKey, { algorithms: JWKS_ALGORITHMS }) as JwtPayload;
+  }
+
   private async validateTokenViaIntrospection(
     token: string,
     oauth2EnvConfig: OAuth2Config,
   ): Promise<AuthenticatedUser> {
     // Check cache first
-    const cacheKey = this.hashToken(token);
-    const cached = this.introspectionCache.get(cacheKey);
+    const cacheKey = INTROSPECTION_KEY_PREFIX + this.hashToken(token);
+    const cached = await this.readCache(cacheKey);
 
-    if (cached && cached.expires > Date.now()) {
-      if (!cached.data.active) {
+    if (cached) {
+      const cachedData = JSON.parse(cached) as IntrospectionResponse;
+      if (!cachedData.active) {
         throw new Error('Token is not active');
       }
-      return this.mapIntrospectionToUser(cached.data);
+      return this.mapIntrospectionToUser(cachedData);
     }
 
     try {
@@ -131,10 +176,11 @@ export class TokenValidationService {
       const introspectionData = response.data as IntrospectionResponse;
 
       // Cache the result
-      this.introspectionCache.set(cacheKey, {
-        data: introspectionData,
-        expires: Date.now() + oauth2Config.introspectionCacheTTL,
-      });
+      await this.writeCache(
+        cacheKey,
+        JSON.stringify(introspectionData),
+        this.getIntrospectionCacheTtl(introspectionData, oauth2EnvConfig),
+      );
 
       if (!introspectionData.active) {
         throw new Error('Token is not active');
@@ -168,18 +214,55 @@ export class TokenValidationService {
     };
   }
 
-  private hashToken(token: string): string {
-    // Use first and last 8 characters for cache key (don't store full token)
-    return token.substring(0, 8) + token.substring(token.length - 8);
+  /**
+   * Seconds to cache an introspection result for. Active tokens are cached for
+   * the introspection cache TTL, but never past their expiry, so a token revoked
+   * at the auth service is rejected once that TTL runs out. Inactive tokens use
+   * the negative cache TTL.
+   */
+  private getIntrospectionCacheTtl(
+    data: IntrospectionResponse,
+    oauth2EnvConfig: OAuth2Config,
+  ): number {
+    if (!data.active) {
+      return Math.ceil(oauth2EnvConfig.introspectionNegativeCacheTTL / 1000);
+    }
+
+    const ttlSeconds = Math.ceil(oauth2EnvConfig.introspectionCacheTTL / 1000);
+
+    if (data.exp !== undefined) {
+      return Math.min(ttlSeconds, data.exp - Math.floor(Date.now() / 1000));
+    }
+
+    return ttlSeconds;
   }
 
-  // Clean up expired cache entries periodically
-  public cleanupCache(): void {
-    const now = Date.now();
-    for (const [key, value] of this.introspectionCache.entries()) {
-      if (value.expires <= now) {
-        this.introspectionCache.delete(key);
-      }
+  // Cache failures fall back to introspecting the token again
+  private async readCache(key: string): Promise<string | null> {
+    try {
+      return await this.cacheStore.get(key);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Failed to read the introspection cache: ${errorMessage}`);
+      return null;
+    }
+  }
+
+  private async writeCache(key: string, value: string, ttlSeconds: number): Promise<void> {
+    if (ttlSeconds <= 0) {
+      return;
     }
+
+    try {
+      await this.cacheStore.set(key, value, ttlSeconds, []);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Failed to write the introspection cache: ${errorMessage}`);
+    }
+  }
+
+  private hashToken(token: string): string {
+    // Cache keys hold a digest of the token, never the token itself
+    return createHash('sha256').update(token).digest('hex');
   }
 }
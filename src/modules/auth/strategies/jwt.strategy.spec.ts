@@ -21,6 +21,7 @@ describe('JwtStrategy', () => {
     clientId: 'test-client',
     clientSecret: 'test-secret', // pragma: allowlist secret
     introspectionCacheTTL: 300000,
+    introspectionNegativeCacheTTL: 30000,
   };
 
   const mockJwtSecret = 'test-jwt-secret'; // pragma: allowlist secret
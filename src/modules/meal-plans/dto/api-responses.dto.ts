@@ -7,6 +7,7 @@ import {
   WeekViewResponseDto,
   MonthViewResponseDto,
 } from './meal-plan-view-responses.dto';
+import { CursorPaginationMetaDto } from './pagination.dto';
 
 export class PaginationMetaDto {
   @ApiProperty({
@@ -90,6 +91,34 @@ export class PaginatedMealPlansResponseDto {
   @Type(() => MealPlanResponseDto)
   data!: MealPlanResponseDto[];
 
+  @ApiProperty({
+    description: 'Pagination metadata',
+    type: CursorPaginationMetaDto,
+  })
+  @Expose()
+  @Type(() => CursorPaginationMetaDto)
+  meta!: CursorPaginationMetaDto;
+}
+
+/**
+ * Trending meal plans are ranked by score, so they are paged by page number only
+ */
+export class TrendingMealPlansResponseDto {
+  @ApiProperty({
+    description: 'Whether the request was successful',
+    example: true,
+  })
+  @Expose()
+  success!: boolean;
+
+  @ApiProperty({
+    description: 'Array of trending meal plans',
+    type: [MealPlanResponseDto],
+  })
+  @Expose()
+  @Type(() => MealPlanResponseDto)
+  data!: MealPlanResponseDto[];
+
   @ApiProperty({
     description: 'Pagination metadata',
     type: PaginationMetaDto,
@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+
+/**
+ * Response DTO for a calendar subscription. The token is only returned when
+ * the subscription is created; it cannot be looked up again afterwards.
+ */
+export class CalendarFeedResponseDto {
+  @ApiProperty({
+    description: 'Secret token that identifies the calendar feed',
+    example: 'Q2hhbmdlIG1lIHRvIGEgcmVhbCB0b2tlbiBwbGVhc2U',
+  })
+  @Expose()
+  token!: string;
+
+  @ApiProperty({
+    description:
+      'Subscription URL covering all active meal plans, for Google Calendar, Apple Calendar and other iCalendar clients',
+    example:
+      'https://api.example.com/api/v1/meal-plan-management/meal-plans/calendar/feed/Q2hhbmdlIG1lIHRvIGEgcmVhbCB0b2tlbiBwbGVhc2U.ics',
+  })
+  @Expose()
+  url!: string;
+
+  @ApiProperty({
+    description: 'When the subscription token was created',
+    example: '2025-08-29T10:00:00.000Z',
+    type: 'string',
+    format: 'date-time',
+  })
+  @Expose()
+  @Type(() => Date)
+  createdAt!: Date;
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'bun:test';
+import { validate } from 'class-validator';
+import { plainToClass } from 'class-transformer';
+import { CloneMealPlanDto } from './clone-meal-plan.dto';
+
+describe('CloneMealPlanDto', () => {
+  const validData = {
+    name: 'Weekly Family Meal Plan (repeat)',
+    startDate: '2025-09-06',
+  };
+
+  it('should pass validation with valid data', async () => {
+    const dto = plainToClass(CloneMealPlanDto, validData);
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.startDate).toBeInstanceOf(Date);
+    expect(dto.description).toBeUndefined();
+  });
+
+  it('should accept an optional description', async () => {
+    const dto = plainToClass(CloneMealPlanDto, { ...validData, description: 'Same as last week' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.description).toBe('Same as last week');
+  });
+
+  it('should require name and start date', async () => {
+    const dto = plainToClass(CloneMealPlanDto, {});
+    const errors = await validate(dto);
+
+    expect(errors.map((error) => error.property).sort()).toEqual(['name', 'startDate']);
+  });
+
+  it('should reject a name longer than 255 characters', async () => {
+    const dto = plainToClass(CloneMealPlanDto, { ...validData, name: 'a'.repeat(256) });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('name');
+  });
+
+  it('should reject a description longer than 1000 characters', async () => {
+    const dto = plainToClass(CloneMealPlanDto, { ...validData, description: 'a'.repeat(1001) });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('description');
+  });
+
+  it('should reject an invalid start date', async () => {
+    const dto = plainToClass(CloneMealPlanDto, { ...validData, startDate: 'not-a-date' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('startDate');
+  });
+});
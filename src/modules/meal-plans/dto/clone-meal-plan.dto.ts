@@ -0,0 +1,42 @@
+import { IsString, IsNotEmpty, IsDate, IsOptional, Length } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Request DTO for cloning a meal plan.
+ * The clone keeps the source duration; all recipe dates shift by the
+ * number of days between the source start date and the new start date.
+ */
+export class CloneMealPlanDto {
+  @ApiProperty({
+    description: 'Name of the new meal plan',
+    example: 'Weekly Family Meal Plan (repeat)',
+    minLength: 1,
+    maxLength: 255,
+  })
+  @IsNotEmpty({ message: 'Meal plan name is required' })
+  @IsString({ message: 'Name must be a string' })
+  @Length(1, 255, { message: 'Name must be between 1 and 255 characters' })
+  name!: string;
+
+  @ApiPropertyOptional({
+    description: 'Description of the new meal plan (defaults to the source description)',
+    example: 'Same as last week',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  @Length(0, 1000, { message: 'Description cannot exceed 1000 characters' })
+  description?: string;
+
+  @ApiProperty({
+    description: 'Start date of the new meal plan',
+    example: '2025-09-06',
+    type: 'string',
+    format: 'date',
+  })
+  @IsNotEmpty({ message: 'Start date is required' })
+  @IsDate({ message: 'Start date must be a valid date' })
+  @Type(() => Date)
+  startDate!: Date;
+}
@@ -1,11 +1,11 @@
 import { describe, it, expect } from 'bun:test';
 import { validate } from 'class-validator';
 import { plainToClass } from 'class-transformer';
-import { CreateMealPlanRecipeDto } from './create-meal-plan-recipe.dto';
+import { CreateMealPlanRecipeDto, MAX_DAY_OFFSET } from './create-meal-plan-recipe.dto';
 
 describe('CreateMealPlanRecipeDto', () => {
   const validData = {
-    recipeId: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+    recipeId: '456',
     day: 1,
     mealType: 'BREAKFAST' as const,
     servings: 4,
@@ -128,7 +128,16 @@ describe('CreateMealPlanRecipeDto', () => {
       expect(errors[0]?.constraints).toHaveProperty('isString');
     });
 
-    it('should fail when recipeId is not a valid UUID', async () => {
+    it('should pass with a legacy recipe UUID', async () => {
+      const validLegacyData = { ...validData, recipeId: 'f47ac10b-58cc-4372-a567-0e02b2c3d479' };
+
+      const dto = plainToClass(CreateMealPlanRecipeDto, validLegacyData);
+      const errors = await validate(dto);
+
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should fail when recipeId is neither numeric nor a legacy UUID', async () => {
       const invalidData = { ...validData, recipeId: 'invalid-uuid' };
 
       const dto = plainToClass(CreateMealPlanRecipeDto, invalidData);
@@ -136,7 +145,7 @@ describe('CreateMealPlanRecipeDto', () => {
 
       expect(errors).toHaveLength(1);
       expect(errors[0]?.property).toBe('recipeId');
-      expect(errors[0]?.constraints).toHaveProperty('isUuid');
+      expect(errors[0]?.constraints).toHaveProperty('isRecipeId');
     });
   });
 
@@ -175,15 +184,11 @@ describe('CreateMealPlanRecipeDto', () => {
       expect(errors[0]?.constraints).toHaveProperty('min');
     });
 
-    it('should fail when day is greater than 7', async () => {
-      const invalidData = { ...validData, day: 8 };
-
-      const dto = plainToClass(CreateMealPlanRecipeDto, invalidData);
+    it('should accept days beyond the first week', async () => {
+      const dto = plainToClass(CreateMealPlanRecipeDto, { ...validData, day: 28 });
       const errors = await validate(dto);
 
-      expect(errors).toHaveLength(1);
-      expect(errors[0]?.property).toBe('day');
-      expect(errors[0]?.constraints).toHaveProperty('max');
+      expect(errors).toHaveLength(0);
     });
 
     it('should fail when day is not a number', async () => {
@@ -198,6 +203,62 @@ describe('CreateMealPlanRecipeDto', () => {
     });
   });
 
+  describe('mealDate and dayOffset validation', () => {
+    const dataWithoutDay = { ...validData, day: undefined };
+
+    it('should pass with a meal date instead of a day', async () => {
+      const dto = plainToClass(CreateMealPlanRecipeDto, {
+        ...dataWithoutDay,
+        mealDate: '2025-09-10',
+      });
+      const errors = await validate(dto);
+
+      expect(errors).toHaveLength(0);
+      expect(dto.mealDate).toEqual(new Date('2025-09-10'));
+    });
+
+    it('should pass with a day offset instead of a day', async () => {
+      const dto = plainToClass(CreateMealPlanRecipeDto, { ...dataWithoutDay, dayOffset: '0' });
+      const errors = await validate(dto);
+
+      expect(errors).toHaveLength(0);
+      expect(dto.dayOffset).toBe(0);
+    });
+
+    it('should fail when the meal date is invalid', async () => {
+      const dto = plainToClass(CreateMealPlanRecipeDto, {
+        ...dataWithoutDay,
+        mealDate: 'next tuesday',
+      });
+      const errors = await validate(dto);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]?.property).toBe('mealDate');
+      expect(errors[0]?.constraints).toHaveProperty('isDate');
+    });
+
+    it('should fail when the day offset is negative', async () => {
+      const dto = plainToClass(CreateMealPlanRecipeDto, { ...dataWithoutDay, dayOffset: -1 });
+      const errors = await validate(dto);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]?.property).toBe('dayOffset');
+      expect(errors[0]?.constraints).toHaveProperty('min');
+    });
+
+    it('should fail when the day offset is beyond the latest schedulable day', async () => {
+      const dto = plainToClass(CreateMealPlanRecipeDto, {
+        ...dataWithoutDay,
+        dayOffset: MAX_DAY_OFFSET + 1,
+      });
+      const errors = await validate(dto);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]?.property).toBe('dayOffset');
+      expect(errors[0]?.constraints).toHaveProperty('max');
+    });
+  });
+
   describe('mealType validation', () => {
     it('should fail when mealType is missing', async () => {
       const invalidData: any = { ...validData };
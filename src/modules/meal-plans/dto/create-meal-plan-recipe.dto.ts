@@ -1,40 +1,81 @@
 import {
   IsString,
   IsNotEmpty,
-  IsUUID,
   IsOptional,
   IsInt,
+  IsDate,
   Min,
   Max,
   Length,
   IsIn,
+  ValidateIf,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { MealType, MEAL_TYPE_VALUES } from '../enums/meal-type.enum';
+import { IsRecipeId } from '../validators/recipe-id.validator';
 
+// Latest day a recipe can be scheduled on, counted from the meal plan start (about ten years)
+export const MAX_DAY_OFFSET = 3650;
+
+/**
+ * A recipe to schedule on a meal plan. The day is given by exactly one of
+ * mealDate, dayOffset or the older 1-based day, and must fall within the meal
+ * plan's start and end dates.
+ */
 export class CreateMealPlanRecipeDto {
   @ApiProperty({
-    description: 'Recipe ID to add to the meal plan',
-    example: '123e4567-e89b-12d3-a456-426614174001',
+    description:
+      'Recipe ID to add to the meal plan. Legacy recipe UUIDs are accepted during the migration to numeric IDs',
+    example: '456',
   })
   @IsNotEmpty({ message: 'Recipe ID is required' })
   @IsString({ message: 'Recipe ID must be a string' })
-  @IsUUID(4, { message: 'Recipe ID must be a valid UUID' })
+  @IsRecipeId()
   recipeId!: string;
 
-  @ApiProperty({
-    description: 'Day of the meal plan (1-7 representing Monday-Sunday)',
+  @ApiPropertyOptional({
+    description: 'Date the recipe is scheduled for',
+    example: '2025-09-10',
+    type: 'string',
+    format: 'date',
+  })
+  @IsOptional()
+  @IsDate({ message: 'Meal date must be a valid date' })
+  @Type(() => Date)
+  mealDate?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Days after the meal plan start date (0 is the first day)',
+    example: 13,
+    minimum: 0,
+    maximum: MAX_DAY_OFFSET,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Day offset must be an integer' })
+  @Min(0, { message: 'Day offset cannot be negative' })
+  @Max(MAX_DAY_OFFSET, { message: `Day offset cannot exceed ${MAX_DAY_OFFSET}` })
+  @Type(() => Number)
+  dayOffset?: number;
+
+  @ApiPropertyOptional({
+    description: 'Day of the meal plan, starting at 1 for the start date. Prefer dayOffset.',
     example: 1,
     minimum: 1,
-    maximum: 7,
+    maximum: MAX_DAY_OFFSET + 1,
+    deprecated: true,
+  })
+  @ValidateIf((recipe: CreateMealPlanRecipeDto) => {
+    return (
+      recipe.day !== undefined || (recipe.mealDate === undefined && recipe.dayOffset === undefined)
+    );
   })
-  @IsNotEmpty({ message: 'Day is required' })
+  @IsNotEmpty({ message: 'One of mealDate, dayOffset or day is required' })
   @IsInt({ message: 'Day must be an integer' })
-  @Min(1, { message: 'Day must be between 1 and 7' })
-  @Max(7, { message: 'Day must be between 1 and 7' })
+  @Min(1, { message: 'Day must be at least 1' })
+  @Max(MAX_DAY_OFFSET + 1, { message: `Day cannot exceed ${MAX_DAY_OFFSET + 1}` })
   @Type(() => Number)
-  day!: number;
+  day?: number;
 
   @ApiProperty({
     description: 'Meal type for this recipe',
@@ -2,6 +2,7 @@ import { describe, it, expect } from 'bun:test';
 import { validate } from 'class-validator';
 import { plainToClass } from 'class-transformer';
 import { CreateMealPlanDto } from './create-meal-plan.dto';
+import { MealPlanVisibility } from '../enums/meal-plan-visibility.enum';
 
 describe('CreateMealPlanDto', () => {
   // Helper function to get future dates for testing
@@ -339,6 +340,56 @@ describe('CreateMealPlanDto', () => {
     });
   });
 
+  describe('visibility validation', () => {
+    it('should pass when visibility is omitted', async () => {
+      const dto = plainToClass(CreateMealPlanDto, validData);
+      const errors = await validate(dto);
+
+      expect(errors).toHaveLength(0);
+      expect(dto.visibility).toBeUndefined();
+    });
+
+    it('should pass when visibility is a known value', async () => {
+      const dto = plainToClass(CreateMealPlanDto, {
+        ...validData,
+        visibility: MealPlanVisibility.UNLISTED,
+      });
+      const errors = await validate(dto);
+
+      expect(errors).toHaveLength(0);
+      expect(dto.visibility).toBe(MealPlanVisibility.UNLISTED);
+    });
+
+    it('should fail when visibility is unknown', async () => {
+      const dto = plainToClass(CreateMealPlanDto, { ...validData, visibility: 'FRIENDS' });
+      const errors = await validate(dto);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]?.property).toBe('visibility');
+    });
+  });
+
+  describe('timezone validation', () => {
+    it('should pass when timezone is an IANA time zone', async () => {
+      const dto = plainToClass(CreateMealPlanDto, { ...validData, timezone: 'America/New_York' });
+      const errors = await validate(dto);
+
+      expect(errors).toHaveLength(0);
+      expect(dto.timezone).toBe('America/New_York');
+    });
+
+    it('should fail when timezone is unknown', async () => {
+      const dto = plainToClass(CreateMealPlanDto, { ...validData, timezone: 'Mars/Olympus_Mons' });
+      const errors = await validate(dto);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]!.property).toBe('timezone');
+      expect(errors[0]!.constraints?.isTimeZone).toBe(
+        'Timezone must be an IANA time zone such as Europe/Paris',
+      );
+    });
+  });
+
   describe('date transformation edge cases', () => {
     it('should handle date transformation with non-string values', () => {
       const dates = getFutureDates();
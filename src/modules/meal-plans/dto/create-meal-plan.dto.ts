@@ -8,6 +8,8 @@ import {
   IsArray,
   ValidateNested,
   MaxLength,
+  IsIn,
+  IsTimeZone,
 } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
@@ -18,6 +20,11 @@ import {
   NormalizeWhitespace,
 } from '../validators/sanitizers/simple-sanitizer.validator';
 import { CreateMealPlanRecipeDto } from './create-meal-plan-recipe.dto';
+import { NutritionTargetsDto } from './meal-plan-nutrition.dto';
+import {
+  MealPlanVisibility,
+  MEAL_PLAN_VISIBILITY_VALUES,
+} from '../enums/meal-plan-visibility.enum';
 
 export class CreateMealPlanDto {
   @ApiProperty({
@@ -102,16 +109,45 @@ export class CreateMealPlanDto {
   isActive?: boolean = false;
 
   @ApiPropertyOptional({
-    description: 'Optional list of recipes to add when creating the meal plan',
+    description:
+      'Who can see the meal plan: only its owner and collaborators, anyone with a share link, or everyone',
+    enum: MEAL_PLAN_VISIBILITY_VALUES,
+    example: MealPlanVisibility.UNLISTED,
+    default: MealPlanVisibility.PRIVATE,
+  })
+  @IsOptional()
+  @IsIn(MEAL_PLAN_VISIBILITY_VALUES, {
+    message: `Visibility must be one of: ${MEAL_PLAN_VISIBILITY_VALUES.join(', ')}`,
+  })
+  visibility?: MealPlanVisibility;
+
+  @ApiPropertyOptional({
+    description:
+      'IANA time zone of the meal plan. Decides which date is today for the plan, e.g. when checking that it does not start in the past.',
+    example: 'Europe/Paris',
+    default: 'UTC',
+  })
+  @IsOptional()
+  @IsTimeZone({ message: 'Timezone must be an IANA time zone such as Europe/Paris' })
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Optional list of recipes to add when creating the meal plan. Each entry is scheduled by mealDate or dayOffset and must fall within the start and end dates.',
     type: [CreateMealPlanRecipeDto],
     example: [
       {
-        recipeId: '550e8400-e29b-41d4-a716-446655440000',
-        day: 1,
+        recipeId: '456',
+        dayOffset: 0,
         mealType: 'BREAKFAST',
         servings: 4,
         notes: 'Prepare the night before',
       },
+      {
+        recipeId: '789',
+        mealDate: '2025-09-12',
+        mealType: 'DINNER',
+      },
     ],
   })
   @IsOptional()
@@ -131,6 +167,15 @@ export class CreateMealPlanDto {
   @MaxLength(50, { each: true, message: 'Each tag name must be at most 50 characters' })
   tags?: string[];
 
+  @ApiPropertyOptional({
+    description: 'Daily calorie and macro targets used to compare each day of the plan',
+    type: NutritionTargetsDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NutritionTargetsDto)
+  nutritionTargets?: NutritionTargetsDto;
+
   // Internal field for validation - set by service layer, not by client
   // This field is not exposed in API documentation
   userId?: string;
@@ -1,17 +1,32 @@
 // Export all DTOs for easier imports
 export * from './create-meal-plan.dto';
 export * from './update-meal-plan.dto';
+export * from './clone-meal-plan.dto';
 export * from './create-meal-plan-recipe.dto';
+export * from './meal-plan-recipe-slot.dto';
+export * from './replace-day-recipes.dto';
 export * from './meal-plan-response.dto';
 export * from './meal-plan-query.dto';
 export * from './meal-plan-by-id-query.dto';
 export * from './meal-plan-view-responses.dto';
 export * from './meal-plan-statistics.dto';
+export * from './meal-plan-nutrition.dto';
 export * from './api-responses.dto';
 export * from './pagination.dto';
+export * from './trending-meal-plans-query.dto';
 export * from './meal-plan-favorite.dto';
 export * from './meal-plan-tag.dto';
+export * from './shopping-list.dto';
+export * from './calendar-feed.dto';
+export * from './meal-plan-template.dto';
+export * from './meal-plan-collaborator.dto';
+export * from './meal-plan-share-link.dto';
+export * from './user-data.dto';
 
 // Export enums
 export * from '../enums/meal-type.enum';
+export * from '../enums/meal-plan-status.enum';
+export * from '../enums/meal-plan-role.enum';
+export * from '../enums/meal-plan-visibility.enum';
 export * from '../enums/recipe-difficulty.enum';
+export * from '../enums/week-start-day.enum';
@@ -6,12 +6,14 @@ import {
   IsInt,
   IsEnum,
   IsIn,
+  IsLocale,
   Min,
   Max,
 } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
 import { ApiPropertyOptional } from '@nestjs/swagger';
 import { MealType, MEAL_TYPE_VALUES } from '../enums/meal-type.enum';
+import { WeekStartDay, WEEK_START_DAY_VALUES } from '../enums/week-start-day.enum';
 
 export class MealPlanByIdQueryDto {
   @ApiPropertyOptional({
@@ -123,6 +125,27 @@ export class MealPlanByIdQueryDto {
   @Type(() => Number)
   filterMonth?: number;
 
+  @ApiPropertyOptional({
+    description: 'First day of the week in week and month views (defaults to the server setting)',
+    enum: WEEK_START_DAY_VALUES,
+    example: WeekStartDay.SUNDAY,
+  })
+  @IsOptional()
+  @IsEnum(WeekStartDay, {
+    message: `Week start day must be one of: ${WEEK_START_DAY_VALUES.join(', ')}`,
+  })
+  weekStartDay?: WeekStartDay;
+
+  @ApiPropertyOptional({
+    description:
+      'Locale for day and month names in week and month views. Takes precedence over the Accept-Language header.',
+    example: 'fr-FR',
+  })
+  @IsOptional()
+  @IsString({ message: 'Locale must be a string' })
+  @IsLocale({ message: 'Locale must be a valid language tag' })
+  locale?: string;
+
   @ApiPropertyOptional({
     description: 'Filter results by meal type',
     enum: MEAL_TYPE_VALUES,
@@ -196,4 +219,26 @@ export class MealPlanByIdQueryDto {
     return value as boolean;
   })
   includeStatistics?: boolean = false;
+
+  @ApiPropertyOptional({
+    description:
+      'Include nutrition totals per day and meal type in day, week and month views and in the statistics block',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'Include nutrition must be a boolean' })
+  @Transform(({ value }) => {
+    if (value === undefined || value === null) {
+      return false;
+    }
+    if (typeof value === 'string') {
+      const lowerValue = value.toLowerCase();
+      if (lowerValue === 'true') return true;
+      if (lowerValue === 'false') return false;
+      return false;
+    }
+    return value as boolean;
+  })
+  includeNutrition?: boolean = false;
 }
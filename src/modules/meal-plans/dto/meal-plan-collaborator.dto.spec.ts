@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'bun:test';
+import { validate } from 'class-validator';
+import { plainToClass, plainToInstance } from 'class-transformer';
+import {
+  InviteMealPlanCollaboratorDto,
+  UpdateMealPlanCollaboratorDto,
+  MealPlanInvitationResponseDto,
+} from './meal-plan-collaborator.dto';
+import { MealPlanRole } from '../enums/meal-plan-role.enum';
+
+describe('InviteMealPlanCollaboratorDto', () => {
+  const validData = {
+    userId: '123e4567-e89b-12d3-a456-426614174003',
+    role: 'EDITOR',
+  };
+
+  it('should pass validation with valid data', async () => {
+    const dto = plainToClass(InviteMealPlanCollaboratorDto, validData);
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.role).toBe(MealPlanRole.EDITOR);
+  });
+
+  it('should require a valid user ID', async () => {
+    const dto = plainToClass(InviteMealPlanCollaboratorDto, { ...validData, userId: 'not-a-uuid' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('userId');
+    expect(errors[0]?.constraints?.isUuid).toBe('User ID must be a valid UUID');
+  });
+
+  it('should require a role', async () => {
+    const dto = plainToClass(InviteMealPlanCollaboratorDto, { userId: validData.userId });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('role');
+    expect(errors[0]?.constraints?.isNotEmpty).toBe('Role is required');
+  });
+
+  it('should reject an unknown role', async () => {
+    const dto = plainToClass(InviteMealPlanCollaboratorDto, { ...validData, role: 'ADMIN' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.constraints?.isIn).toBe('Role must be one of: VIEWER, EDITOR, OWNER');
+  });
+});
+
+describe('UpdateMealPlanCollaboratorDto', () => {
+  it('should accept every role', async () => {
+    for (const role of Object.values(MealPlanRole)) {
+      const dto = plainToClass(UpdateMealPlanCollaboratorDto, { role });
+      const errors = await validate(dto);
+
+      expect(errors).toHaveLength(0);
+    }
+  });
+
+  it('should reject a lowercase role', async () => {
+    const dto = plainToClass(UpdateMealPlanCollaboratorDto, { role: 'viewer' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('role');
+  });
+});
+
+describe('MealPlanInvitationResponseDto', () => {
+  it('should expose the collaborator fields together with the meal plan details', () => {
+    const dto = plainToInstance(
+      MealPlanInvitationResponseDto,
+      {
+        mealPlanId: '123',
+        userId: '123e4567-e89b-12d3-a456-426614174003',
+        role: 'VIEWER',
+        invitedBy: '123e4567-e89b-12d3-a456-426614174002',
+        invitedAt: '2025-08-29T10:00:00.000Z',
+        acceptedAt: null,
+        mealPlanName: 'Family Dinners',
+        ownerId: '123e4567-e89b-12d3-a456-426614174002',
+        internalNote: 'hidden',
+      },
+      { excludeExtraneousValues: true },
+    );
+
+    expect(dto.mealPlanName).toBe('Family Dinners');
+    expect(dto.ownerId).toBe('123e4567-e89b-12d3-a456-426614174002');
+    expect(dto.invitedAt).toBeInstanceOf(Date);
+    expect(dto.acceptedAt).toBeNull();
+    expect(dto).not.toHaveProperty('internalNote');
+  });
+});
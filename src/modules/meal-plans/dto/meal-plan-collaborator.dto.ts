@@ -0,0 +1,161 @@
+import { IsNotEmpty, IsString, IsUUID, IsIn } from 'class-validator';
+import { Expose, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MealPlanRole, MEAL_PLAN_ROLE_VALUES } from '../enums/meal-plan-role.enum';
+
+/**
+ * Request DTO for inviting a user to collaborate on a meal plan
+ */
+export class InviteMealPlanCollaboratorDto {
+  @ApiProperty({
+    description: 'ID of the user to invite',
+    example: '123e4567-e89b-12d3-a456-426614174003',
+  })
+  @IsNotEmpty({ message: 'User ID is required' })
+  @IsUUID('all', { message: 'User ID must be a valid UUID' })
+  userId!: string;
+
+  @ApiProperty({
+    description:
+      'Role granted once the invitation is accepted. Viewers can read the meal plan, editors can also change it, and owners can also delete it and manage collaborators.',
+    enum: MEAL_PLAN_ROLE_VALUES,
+    example: MealPlanRole.EDITOR,
+  })
+  @IsNotEmpty({ message: 'Role is required' })
+  @IsString({ message: 'Role must be a string' })
+  @IsIn(MEAL_PLAN_ROLE_VALUES, {
+    message: `Role must be one of: ${MEAL_PLAN_ROLE_VALUES.join(', ')}`,
+  })
+  role!: MealPlanRole;
+}
+
+/**
+ * Request DTO for changing the role of a collaborator
+ */
+export class UpdateMealPlanCollaboratorDto {
+  @ApiProperty({
+    description: 'New role of the collaborator',
+    enum: MEAL_PLAN_ROLE_VALUES,
+    example: MealPlanRole.VIEWER,
+  })
+  @IsNotEmpty({ message: 'Role is required' })
+  @IsString({ message: 'Role must be a string' })
+  @IsIn(MEAL_PLAN_ROLE_VALUES, {
+    message: `Role must be one of: ${MEAL_PLAN_ROLE_VALUES.join(', ')}`,
+  })
+  role!: MealPlanRole;
+}
+
+/**
+ * Response DTO for a collaborator or pending invitation on a meal plan
+ */
+export class MealPlanCollaboratorResponseDto {
+  @ApiProperty({
+    description: 'Meal plan ID',
+    example: '123',
+  })
+  @Expose()
+  mealPlanId!: string;
+
+  @ApiProperty({
+    description: 'User ID of the collaborator',
+    example: '123e4567-e89b-12d3-a456-426614174003',
+  })
+  @Expose()
+  userId!: string;
+
+  @ApiProperty({
+    description: 'Role of the collaborator',
+    enum: MEAL_PLAN_ROLE_VALUES,
+    example: MealPlanRole.EDITOR,
+  })
+  @Expose()
+  role!: MealPlanRole;
+
+  @ApiProperty({
+    description: 'User ID of the user who sent the invitation',
+    example: '123e4567-e89b-12d3-a456-426614174002',
+  })
+  @Expose()
+  invitedBy!: string;
+
+  @ApiProperty({
+    description: 'When the invitation was sent',
+    example: '2025-08-29T10:00:00.000Z',
+    type: 'string',
+    format: 'date-time',
+  })
+  @Expose()
+  @Type(() => Date)
+  invitedAt!: Date;
+
+  @ApiPropertyOptional({
+    description: 'When the invitation was accepted (null while pending)',
+    example: '2025-08-29T12:00:00.000Z',
+    type: 'string',
+    format: 'date-time',
+    nullable: true,
+  })
+  @Expose()
+  @Type(() => Date)
+  acceptedAt?: Date | null;
+}
+
+/**
+ * Response DTO for an invitation received by the current user
+ */
+export class MealPlanInvitationResponseDto extends MealPlanCollaboratorResponseDto {
+  @ApiProperty({
+    description: 'Name of the meal plan',
+    example: 'Family Dinners',
+  })
+  @Expose()
+  mealPlanName!: string;
+
+  @ApiProperty({
+    description: 'User ID of the meal plan owner',
+    example: '123e4567-e89b-12d3-a456-426614174002',
+  })
+  @Expose()
+  ownerId!: string;
+}
+
+/**
+ * API response wrapper for the collaborators of a meal plan
+ */
+export class MealPlanCollaboratorsApiResponseDto {
+  @ApiProperty({
+    description: 'Whether the request was successful',
+    example: true,
+  })
+  @Expose()
+  success!: boolean;
+
+  @ApiProperty({
+    description: 'Collaborators and pending invitations',
+    type: [MealPlanCollaboratorResponseDto],
+  })
+  @Expose()
+  @Type(() => MealPlanCollaboratorResponseDto)
+  data!: MealPlanCollaboratorResponseDto[];
+}
+
+/**
+ * API response wrapper for the pending invitations of the current user
+ */
+export class MealPlanInvitationsApiResponseDto {
+  @ApiProperty({
+    description: 'Whether the request was successful',
+    example: true,
+  })
+  @Expose()
+  success!: boolean;
+
+  @ApiProperty({
+    description: 'Pending invitations',
+    type: [MealPlanInvitationResponseDto],
+  })
+  @Expose()
+  @Type(() => MealPlanInvitationResponseDto)
+  data!: MealPlanInvitationResponseDto[];
+}
@@ -1,7 +1,7 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Expose, Type } from 'class-transformer';
 import { MealPlanResponseDto } from './meal-plan-response.dto';
-import { PaginationMetaDto } from './api-responses.dto';
+import { CursorPaginationMetaDto } from './pagination.dto';
 
 /**
  * Response DTO for a single meal plan favorite record.
@@ -86,11 +86,11 @@ export class PaginatedMealPlanFavoritesResponseDto {
 
   @ApiProperty({
     description: 'Pagination metadata',
-    type: PaginationMetaDto,
+    type: CursorPaginationMetaDto,
   })
   @Expose()
-  @Type(() => PaginationMetaDto)
-  meta!: PaginationMetaDto;
+  @Type(() => CursorPaginationMetaDto)
+  meta!: CursorPaginationMetaDto;
 }
 
 /**
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'bun:test';
+import { validate } from 'class-validator';
+import { plainToClass } from 'class-transformer';
+import {
+  NutritionTargetsDto,
+  DayNutritionDto,
+  NutritionValuesDto,
+  MealTypeNutritionDto,
+} from './meal-plan-nutrition.dto';
+
+describe('NutritionTargetsDto', () => {
+  it('should pass validation with partial targets', async () => {
+    const dto = plainToClass(NutritionTargetsDto, { calories: '2000', protein: 120 });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.calories).toBe(2000);
+    expect(dto.carbohydrates).toBeUndefined();
+  });
+
+  it('should reject negative, fractional and excessive targets', async () => {
+    const dto = plainToClass(NutritionTargetsDto, {
+      calories: -1,
+      protein: 12.5,
+      fat: 2001,
+    });
+    const errors = await validate(dto);
+
+    expect(errors.map((error) => error.property).sort()).toEqual(['calories', 'fat', 'protein']);
+  });
+});
+
+describe('DayNutritionDto', () => {
+  it('should expose nested totals, meal types and target difference', () => {
+    const dto = plainToClass(
+      DayNutritionDto,
+      {
+        date: '2024-03-15',
+        totals: { calories: 2100, protein: 90, carbohydrates: 250, fat: 70, extra: 1 },
+        byMealType: { dinner: { calories: 900, protein: 40, carbohydrates: 100, fat: 30 } },
+        targetDifference: { calories: 100 },
+      },
+      { excludeExtraneousValues: true },
+    );
+
+    expect(dto.totals).toBeInstanceOf(NutritionValuesDto);
+    expect(dto.byMealType).toBeInstanceOf(MealTypeNutritionDto);
+    expect(dto.byMealType.dinner?.calories).toBe(900);
+    expect(dto.byMealType.breakfast).toBeUndefined();
+    expect(dto.targetDifference?.calories).toBe(100);
+    expect((dto.totals as unknown as Record<string, unknown>).extra).toBeUndefined();
+  });
+});
@@ -0,0 +1,276 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { IsInt, IsNumber, IsOptional, Max, Min, ValidateNested } from 'class-validator';
+
+/**
+ * Nutrition amounts. Calories are in kcal, sodium in mg and everything else in grams.
+ * Micronutrients are only present when the nutrition provider has data for them.
+ */
+export class NutritionValuesDto {
+  @ApiPropertyOptional({
+    description: 'Energy in kcal',
+    example: 2150,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Expose()
+  calories?: number;
+
+  @ApiPropertyOptional({
+    description: 'Protein in grams',
+    example: 95.5,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Expose()
+  protein?: number;
+
+  @ApiPropertyOptional({
+    description: 'Carbohydrates in grams',
+    example: 240,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Expose()
+  carbohydrates?: number;
+
+  @ApiPropertyOptional({
+    description: 'Fat in grams',
+    example: 70.2,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Expose()
+  fat?: number;
+
+  @ApiPropertyOptional({
+    description: 'Fiber in grams',
+    example: 28,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Expose()
+  fiber?: number;
+
+  @ApiPropertyOptional({
+    description: 'Sugar in grams',
+    example: 45.5,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Expose()
+  sugar?: number;
+
+  @ApiPropertyOptional({
+    description: 'Sodium in mg',
+    example: 2100,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Expose()
+  sodium?: number;
+}
+
+/**
+ * Daily calorie and macro targets for a meal plan
+ */
+export class NutritionTargetsDto {
+  @ApiPropertyOptional({
+    description: 'Daily energy target in kcal',
+    example: 2000,
+    minimum: 0,
+    maximum: 20000,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Calories target must be an integer' })
+  @Min(0, { message: 'Calories target cannot be negative' })
+  @Max(20000, { message: 'Calories target cannot exceed 20000' })
+  @Type(() => Number)
+  @Expose()
+  calories?: number;
+
+  @ApiPropertyOptional({
+    description: 'Daily protein target in grams',
+    example: 120,
+    minimum: 0,
+    maximum: 2000,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Protein target must be an integer' })
+  @Min(0, { message: 'Protein target cannot be negative' })
+  @Max(2000, { message: 'Protein target cannot exceed 2000' })
+  @Type(() => Number)
+  @Expose()
+  protein?: number;
+
+  @ApiPropertyOptional({
+    description: 'Daily carbohydrates target in grams',
+    example: 250,
+    minimum: 0,
+    maximum: 2000,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Carbohydrates target must be an integer' })
+  @Min(0, { message: 'Carbohydrates target cannot be negative' })
+  @Max(2000, { message: 'Carbohydrates target cannot exceed 2000' })
+  @Type(() => Number)
+  @Expose()
+  carbohydrates?: number;
+
+  @ApiPropertyOptional({
+    description: 'Daily fat target in grams',
+    example: 70,
+    minimum: 0,
+    maximum: 2000,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Fat target must be an integer' })
+  @Min(0, { message: 'Fat target cannot be negative' })
+  @Max(2000, { message: 'Fat target cannot exceed 2000' })
+  @Type(() => Number)
+  @Expose()
+  fat?: number;
+}
+
+export class MealTypeNutritionDto {
+  @ApiPropertyOptional({
+    description: 'Nutrition from breakfast meals',
+    type: NutritionValuesDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NutritionValuesDto)
+  @Expose()
+  breakfast?: NutritionValuesDto;
+
+  @ApiPropertyOptional({
+    description: 'Nutrition from lunch meals',
+    type: NutritionValuesDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NutritionValuesDto)
+  @Expose()
+  lunch?: NutritionValuesDto;
+
+  @ApiPropertyOptional({
+    description: 'Nutrition from dinner meals',
+    type: NutritionValuesDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NutritionValuesDto)
+  @Expose()
+  dinner?: NutritionValuesDto;
+
+  @ApiPropertyOptional({
+    description: 'Nutrition from snack meals',
+    type: NutritionValuesDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NutritionValuesDto)
+  @Expose()
+  snack?: NutritionValuesDto;
+
+  @ApiPropertyOptional({
+    description: 'Nutrition from dessert meals',
+    type: NutritionValuesDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NutritionValuesDto)
+  @Expose()
+  dessert?: NutritionValuesDto;
+}
+
+export class DayNutritionDto {
+  @ApiProperty({
+    description: 'Date these totals are for',
+    example: '2024-03-15',
+    type: 'string',
+    format: 'date',
+  })
+  @Expose()
+  date!: string;
+
+  @ApiProperty({
+    description: 'Nutrition totals for the day, scaled to the servings of each meal',
+    type: NutritionValuesDto,
+  })
+  @ValidateNested()
+  @Type(() => NutritionValuesDto)
+  @Expose()
+  totals!: NutritionValuesDto;
+
+  @ApiProperty({
+    description: 'Nutrition totals per meal type (meal types without meals are omitted)',
+    type: MealTypeNutritionDto,
+  })
+  @ValidateNested()
+  @Type(() => MealTypeNutritionDto)
+  @Expose()
+  byMealType!: MealTypeNutritionDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Totals minus the daily targets, for nutrients that have a target. Positive values are over target, negative values are under.',
+    type: NutritionValuesDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NutritionValuesDto)
+  @Expose()
+  targetDifference?: NutritionValuesDto;
+}
+
+export class NutritionSummaryDto {
+  @ApiProperty({
+    description: 'Nutrition totals for the period',
+    type: NutritionValuesDto,
+  })
+  @ValidateNested()
+  @Type(() => NutritionValuesDto)
+  @Expose()
+  totals!: NutritionValuesDto;
+
+  @ApiProperty({
+    description: 'Average nutrition per day over the period',
+    type: NutritionValuesDto,
+  })
+  @ValidateNested()
+  @Type(() => NutritionValuesDto)
+  @Expose()
+  dailyAverage!: NutritionValuesDto;
+
+  @ApiProperty({
+    description: 'Nutrition totals per meal type for the period',
+    type: MealTypeNutritionDto,
+  })
+  @ValidateNested()
+  @Type(() => MealTypeNutritionDto)
+  @Expose()
+  byMealType!: MealTypeNutritionDto;
+}
+
+export class MealPlanNutritionDto extends NutritionSummaryDto {
+  @ApiPropertyOptional({
+    description: 'Daily targets set on the meal plan',
+    type: NutritionTargetsDto,
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NutritionTargetsDto)
+  @Expose()
+  targets?: NutritionTargetsDto | null;
+
+  @ApiProperty({
+    description: 'Nutrition for every day of the meal plan',
+    type: [DayNutritionDto],
+  })
+  @ValidateNested({ each: true })
+  @Type(() => DayNutritionDto)
+  @Expose()
+  days!: DayNutritionDto[];
+}
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'bun:test';
+import { validate } from 'class-validator';
+import { plainToClass } from 'class-transformer';
+import {
+  MealPlanRecipeSlotDto,
+  AddMealPlanRecipeDto,
+  UpdateMealPlanRecipeSlotDto,
+  MealPlanRecipeApiResponseDto,
+} from './meal-plan-recipe-slot.dto';
+import { MealPlanRecipeResponseDto } from './meal-plan-response.dto';
+import { MealType } from '../enums/meal-type.enum';
+
+describe('MealPlanRecipeSlotDto', () => {
+  const validData = {
+    recipeId: '456',
+    mealDate: '2024-03-15',
+    mealType: 'DINNER',
+  };
+
+  it('should pass validation with valid data', async () => {
+    const dto = plainToClass(MealPlanRecipeSlotDto, validData);
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.mealDate).toBeInstanceOf(Date);
+    expect(dto.mealDate.toISOString()).toBe('2024-03-15T00:00:00.000Z');
+  });
+
+  it('should accept a legacy recipe UUID', async () => {
+    const dto = plainToClass(MealPlanRecipeSlotDto, {
+      ...validData,
+      recipeId: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+    });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+  });
+
+  it('should reject a recipe ID that is neither numeric nor a legacy UUID', async () => {
+    const dto = plainToClass(MealPlanRecipeSlotDto, {
+      ...validData,
+      recipeId: 'recipe-456',
+    });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('recipeId');
+    expect(errors[0]?.constraints?.isRecipeId).toBe(
+      'Recipe ID must be a numeric string (legacy recipe UUIDs are also accepted)',
+    );
+  });
+
+  it('should reject an invalid meal date', async () => {
+    const dto = plainToClass(MealPlanRecipeSlotDto, { ...validData, mealDate: 'not-a-date' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('mealDate');
+  });
+
+  it('should reject an invalid meal type', async () => {
+    const dto = plainToClass(MealPlanRecipeSlotDto, { ...validData, mealType: 'BRUNCH' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('mealType');
+  });
+
+  it('should require all key fields', async () => {
+    const dto = plainToClass(MealPlanRecipeSlotDto, {});
+    const errors = await validate(dto);
+
+    expect(errors.map((error) => error.property).sort()).toEqual([
+      'mealDate',
+      'mealType',
+      'recipeId',
+    ]);
+  });
+});
+
+describe('AddMealPlanRecipeDto', () => {
+  const slotKey = {
+    recipeId: '456',
+    mealDate: '2024-03-15',
+    mealType: 'DINNER',
+  };
+
+  it('should pass validation without servings', async () => {
+    const dto = plainToClass(AddMealPlanRecipeDto, slotKey);
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.servings).toBeUndefined();
+  });
+
+  it('should transform servings to a number', async () => {
+    const dto = plainToClass(AddMealPlanRecipeDto, { ...slotKey, servings: '4' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.servings).toBe(4);
+  });
+
+  it('should reject servings outside 1-100', async () => {
+    for (const servings of [0, 101, 2.5]) {
+      const dto = plainToClass(AddMealPlanRecipeDto, { ...slotKey, servings });
+      const errors = await validate(dto);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]?.property).toBe('servings');
+    }
+  });
+});
+
+describe('UpdateMealPlanRecipeSlotDto', () => {
+  const slotKey = {
+    recipeId: '456',
+    mealDate: '2024-03-15',
+    mealType: 'DINNER',
+  };
+
+  it('should pass validation with only the slot key', async () => {
+    const dto = plainToClass(UpdateMealPlanRecipeSlotDto, slotKey);
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.newMealDate).toBeUndefined();
+    expect(dto.newMealType).toBeUndefined();
+  });
+
+  it('should transform the new meal date and accept a new meal type', async () => {
+    const dto = plainToClass(UpdateMealPlanRecipeSlotDto, {
+      ...slotKey,
+      newMealDate: '2024-03-16',
+      newMealType: 'LUNCH',
+    });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.newMealDate).toBeInstanceOf(Date);
+    expect(dto.newMealType).toBe(MealType.LUNCH);
+  });
+
+  it('should accept new servings', async () => {
+    const dto = plainToClass(UpdateMealPlanRecipeSlotDto, { ...slotKey, newServings: 6 });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.newServings).toBe(6);
+  });
+
+  it('should reject new servings above 100', async () => {
+    const dto = plainToClass(UpdateMealPlanRecipeSlotDto, { ...slotKey, newServings: 101 });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('newServings');
+  });
+
+  it('should reject an invalid new meal type', async () => {
+    const dto = plainToClass(UpdateMealPlanRecipeSlotDto, { ...slotKey, newMealType: 'BRUNCH' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('newMealType');
+  });
+});
+
+describe('MealPlanRecipeApiResponseDto', () => {
+  it('should expose success, data and message', () => {
+    const dto = plainToClass(
+      MealPlanRecipeApiResponseDto,
+      {
+        success: true,
+        data: {
+          mealPlanId: '123',
+          recipeId: '456',
+          mealDate: '2024-03-15',
+          mealType: 'DINNER',
+        },
+        message: 'Recipe added to meal plan successfully',
+        extra: 'ignored',
+      },
+      { excludeExtraneousValues: true },
+    );
+
+    expect(dto.success).toBe(true);
+    expect(dto.data).toBeInstanceOf(MealPlanRecipeResponseDto);
+    expect(dto.data.mealDate).toBeInstanceOf(Date);
+    expect(dto.message).toBe('Recipe added to meal plan successfully');
+    expect((dto as unknown as Record<string, unknown>).extra).toBeUndefined();
+  });
+});
@@ -0,0 +1,132 @@
+import { IsNotEmpty, IsString, IsDate, IsIn, IsOptional, IsInt, Min, Max } from 'class-validator';
+import { Expose, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MealType, MEAL_TYPE_VALUES } from '../enums/meal-type.enum';
+import { IsRecipeId } from '../validators/recipe-id.validator';
+import { MealPlanRecipeResponseDto } from './meal-plan-response.dto';
+
+/**
+ * Identifies a single recipe slot within a meal plan.
+ * Used as query parameters when removing a recipe and as the base for the add and update bodies.
+ */
+export class MealPlanRecipeSlotDto {
+  @ApiProperty({
+    description: 'Recipe ID. Legacy recipe UUIDs are accepted during the migration to numeric IDs',
+    example: '456',
+  })
+  @IsNotEmpty({ message: 'Recipe ID is required' })
+  @IsString({ message: 'Recipe ID must be a string' })
+  @IsRecipeId()
+  recipeId!: string;
+
+  @ApiProperty({
+    description: 'Date the recipe is scheduled for',
+    example: '2024-03-15',
+    type: 'string',
+    format: 'date',
+  })
+  @IsNotEmpty({ message: 'Meal date is required' })
+  @IsDate({ message: 'Meal date must be a valid date' })
+  @Type(() => Date)
+  mealDate!: Date;
+
+  @ApiProperty({
+    description: 'Meal type for this recipe',
+    example: MealType.DINNER,
+    enum: MEAL_TYPE_VALUES,
+  })
+  @IsNotEmpty({ message: 'Meal type is required' })
+  @IsString({ message: 'Meal type must be a string' })
+  @IsIn(MEAL_TYPE_VALUES, {
+    message: `Meal type must be one of: ${MEAL_TYPE_VALUES.join(', ')}`,
+  })
+  mealType!: MealType;
+}
+
+/**
+ * Request body for scheduling a recipe in an existing meal plan.
+ */
+export class AddMealPlanRecipeDto extends MealPlanRecipeSlotDto {
+  @ApiPropertyOptional({
+    description: 'Number of servings for this recipe slot',
+    example: 4,
+    minimum: 1,
+    maximum: 100,
+    default: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Servings must be an integer' })
+  @Min(1, { message: 'Servings must be at least 1' })
+  @Max(100, { message: 'Servings cannot exceed 100' })
+  @Type(() => Number)
+  servings?: number;
+}
+
+/**
+ * Moves an existing recipe slot to a new date and/or meal type, or changes its servings.
+ * The recipeId, mealDate and mealType fields identify the slot being changed.
+ */
+export class UpdateMealPlanRecipeSlotDto extends MealPlanRecipeSlotDto {
+  @ApiPropertyOptional({
+    description: 'New date for the recipe',
+    example: '2024-03-16',
+    type: 'string',
+    format: 'date',
+  })
+  @IsOptional()
+  @IsDate({ message: 'New meal date must be a valid date' })
+  @Type(() => Date)
+  newMealDate?: Date;
+
+  @ApiPropertyOptional({
+    description: 'New meal type for the recipe',
+    example: MealType.LUNCH,
+    enum: MEAL_TYPE_VALUES,
+  })
+  @IsOptional()
+  @IsString({ message: 'New meal type must be a string' })
+  @IsIn(MEAL_TYPE_VALUES, {
+    message: `New meal type must be one of: ${MEAL_TYPE_VALUES.join(', ')}`,
+  })
+  newMealType?: MealType;
+
+  @ApiPropertyOptional({
+    description: 'New number of servings for the recipe',
+    example: 4,
+    minimum: 1,
+    maximum: 100,
+  })
+  @IsOptional()
+  @IsInt({ message: 'New servings must be an integer' })
+  @Min(1, { message: 'New servings must be at least 1' })
+  @Max(100, { message: 'New servings cannot exceed 100' })
+  @Type(() => Number)
+  newServings?: number;
+}
+
+/**
+ * API response wrapper for recipe slot operations on a meal plan.
+ */
+export class MealPlanRecipeApiResponseDto {
+  @ApiProperty({
+    description: 'Whether the request was successful',
+    example: true,
+  })
+  @Expose()
+  success!: boolean;
+
+  @ApiProperty({
+    description: 'The recipe slot',
+    type: MealPlanRecipeResponseDto,
+  })
+  @Expose()
+  @Type(() => MealPlanRecipeResponseDto)
+  data!: MealPlanRecipeResponseDto;
+
+  @ApiPropertyOptional({
+    description: 'Response message',
+    example: 'Recipe added to meal plan successfully',
+  })
+  @Expose()
+  message?: string;
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'bun:test';
 import { plainToClass } from 'class-transformer';
 import { MealPlanResponseDto, MealPlanRecipeResponseDto } from './meal-plan-response.dto';
+import { MealPlanStatus } from '../enums/meal-plan-status.enum';
 
 describe('MealPlanRecipeResponseDto', () => {
   const validRecipeData = {
@@ -204,6 +205,60 @@ describe('MealPlanResponseDto', () => {
     });
   });
 
+  describe('lifecycle status', () => {
+    it('should derive isActive from the meal plan status', () => {
+      const withoutIsActive = { ...validMealPlanData, isActive: undefined };
+
+      const active = plainToClass(
+        MealPlanResponseDto,
+        { ...withoutIsActive, status: MealPlanStatus.ACTIVE, archivedAt: null },
+        { excludeExtraneousValues: true },
+      );
+      const archived = plainToClass(
+        MealPlanResponseDto,
+        {
+          ...withoutIsActive,
+          status: MealPlanStatus.ARCHIVED,
+          archivedAt: '2025-09-10T08:00:00.000Z',
+        },
+        { excludeExtraneousValues: true },
+      );
+
+      expect(active.status).toBe(MealPlanStatus.ACTIVE);
+      expect(active.isActive).toBe(true);
+      expect(active.archivedAt).toBeNull();
+      expect(archived.isActive).toBe(false);
+      expect(archived.archivedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('nutrition targets', () => {
+    it('should build nutrition targets from the daily target columns', () => {
+      const dto = plainToClass(
+        MealPlanResponseDto,
+        {
+          ...validMealPlanData,
+          dailyCaloriesTarget: 2000,
+          dailyProteinTarget: 120,
+          dailyCarbohydratesTarget: null,
+          dailyFatTarget: null,
+        },
+        { excludeExtraneousValues: true },
+      );
+
+      expect(dto.nutritionTargets).toEqual({ calories: 2000, protein: 120 });
+      expect((dto as unknown as Record<string, unknown>).dailyCaloriesTarget).toBeUndefined();
+    });
+
+    it('should return null when no targets are set', () => {
+      const dto = plainToClass(MealPlanResponseDto, validMealPlanData, {
+        excludeExtraneousValues: true,
+      });
+
+      expect(dto.nutritionTargets).toBeNull();
+    });
+  });
+
   describe('nested recipe transformation', () => {
     it('should properly transform nested recipes', () => {
       const dto = plainToClass(MealPlanResponseDto, validMealPlanData);
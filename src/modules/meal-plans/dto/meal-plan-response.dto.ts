@@ -1,8 +1,15 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { Expose, Type } from 'class-transformer';
+import { Expose, Transform, Type } from 'class-transformer';
 import { IsString, IsNumber, IsOptional, IsEnum, IsDate, Min, Max } from 'class-validator';
 import { MealType, MEAL_TYPE_VALUES } from '../enums/meal-type.enum';
+import { MealPlanStatus, MEAL_PLAN_STATUS_VALUES } from '../enums/meal-plan-status.enum';
+import {
+  MealPlanVisibility,
+  MEAL_PLAN_VISIBILITY_VALUES,
+} from '../enums/meal-plan-visibility.enum';
 import { MealPlanTagResponseDto } from './meal-plan-tag.dto';
+import { NutritionTargetsDto } from './meal-plan-nutrition.dto';
+import { NutritionUtil, MealPlanNutritionTargetColumns } from '../utils/nutrition.util';
 
 export class MealPlanRecipeResponseDto {
   @ApiProperty({
@@ -180,13 +187,63 @@ export class MealPlanResponseDto {
   @Type(() => Date)
   endDate!: Date;
 
+  @ApiProperty({
+    description: 'Lifecycle status of the meal plan',
+    example: MealPlanStatus.ACTIVE,
+    enum: MEAL_PLAN_STATUS_VALUES,
+  })
+  @Expose()
+  status!: MealPlanStatus;
+
+  @ApiProperty({
+    description: 'Who can see the meal plan',
+    example: MealPlanVisibility.PRIVATE,
+    enum: MEAL_PLAN_VISIBILITY_VALUES,
+  })
+  @Expose()
+  visibility!: MealPlanVisibility;
+
+  @ApiProperty({
+    description: 'IANA time zone of the meal plan',
+    example: 'Europe/Paris',
+  })
+  @Expose()
+  timezone!: string;
+
   @ApiProperty({
     description: 'Whether this meal plan is currently active',
     example: true,
   })
   @Expose()
+  @Transform(
+    ({ value, obj }: { value: unknown; obj: { status?: MealPlanStatus } }) =>
+      value ?? obj.status === MealPlanStatus.ACTIVE,
+  )
   isActive!: boolean;
 
+  @ApiPropertyOptional({
+    description: 'When the meal plan was archived',
+    example: '2025-09-10T08:00:00.000Z',
+    type: 'string',
+    format: 'date-time',
+    nullable: true,
+  })
+  @Expose()
+  @Type(() => Date)
+  archivedAt?: Date | null;
+
+  @ApiPropertyOptional({
+    description: 'Daily calorie and macro targets',
+    type: NutritionTargetsDto,
+    nullable: true,
+  })
+  @Expose()
+  @Transform(
+    ({ value, obj }: { value: unknown; obj: Partial<MealPlanNutritionTargetColumns> }) =>
+      value ?? NutritionUtil.getTargets(obj),
+  )
+  nutritionTargets?: NutritionTargetsDto | null;
+
   @ApiProperty({
     description: 'When the meal plan was created',
     example: '2025-08-29T10:00:00.000Z',
@@ -236,4 +293,18 @@ export class MealPlanResponseDto {
   @Expose()
   @Type(() => MealPlanTagResponseDto)
   tags?: MealPlanTagResponseDto[];
+
+  @ApiPropertyOptional({
+    description: 'Time-decayed engagement score (trending results only)',
+    example: 14.72,
+  })
+  @Expose()
+  trendingScore?: number;
+
+  @ApiPropertyOptional({
+    description: 'Position in the trending ranking, starting at 1 (trending results only)',
+    example: 1,
+  })
+  @Expose()
+  trendingRank?: number;
 }
@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+
+/**
+ * Response DTO for a share link. Anyone holding the link can view the meal plan
+ * until it expires or the meal plan is made private again.
+ */
+export class MealPlanShareLinkResponseDto {
+  @ApiProperty({
+    description: 'Signed token that grants read access to the meal plan',
+    example: 'MTIzLjE3NTkwNTYwMDA.kV3n0rZ5uQm8pXk2c4m9Jb7GQ0Hk3tXx1y2a9vEw8sQ',
+  })
+  @Expose()
+  token!: string;
+
+  @ApiProperty({
+    description: 'Link that opens the shared meal plan',
+    example:
+      'https://api.example.com/api/v1/meal-plan-management/meal-plans/shared/MTIzLjE3NTkwNTYwMDA.kV3n0rZ5uQm8pXk2c4m9Jb7GQ0Hk3tXx1y2a9vEw8sQ',
+  })
+  @Expose()
+  url!: string;
+
+  @ApiProperty({
+    description: 'When the share link stops working',
+    example: '2025-09-28T10:00:00.000Z',
+    type: 'string',
+    format: 'date-time',
+  })
+  @Expose()
+  @Type(() => Date)
+  expiresAt!: Date;
+}
@@ -14,6 +14,7 @@ describe('MealPlanStatisticsDto', () => {
 
   const validStatistics = {
     totalRecipes: 29,
+    totalServings: 87,
     totalMealTypes: 5,
     averageRecipesPerDay: 4.14,
     mealTypeBreakdown: validMealTypeBreakdown,
@@ -36,6 +37,7 @@ describe('MealPlanStatisticsDto', () => {
     });
 
     expect(dto.totalRecipes).toBe(29);
+    expect(dto.totalServings).toBe(87);
     expect(dto.totalMealTypes).toBe(5);
     expect(dto.averageRecipesPerDay).toBeCloseTo(4.14);
     expect(dto.startDate).toBeInstanceOf(Date);
@@ -1,6 +1,7 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Expose, Type } from 'class-transformer';
-import { IsNumber, IsOptional, Min } from 'class-validator';
+import { IsNumber, IsOptional, Min, ValidateNested } from 'class-validator';
+import { MealPlanNutritionDto } from './meal-plan-nutrition.dto';
 
 export class MealTypeBreakdownDto {
   @ApiPropertyOptional({
@@ -64,6 +65,15 @@ export class MealPlanStatisticsDto {
   @Expose()
   totalRecipes!: number;
 
+  @ApiProperty({
+    description: 'Total number of servings across all recipe instances',
+    example: 152,
+  })
+  @IsNumber()
+  @Min(0)
+  @Expose()
+  totalServings!: number;
+
   @ApiProperty({
     description: 'Total number of unique meal types',
     example: 5,
@@ -116,4 +126,14 @@ export class MealPlanStatisticsDto {
   @Min(1)
   @Expose()
   duration!: number;
+
+  @ApiPropertyOptional({
+    description: 'Nutrition rollup for the whole meal plan (when includeNutrition=true)',
+    type: MealPlanNutritionDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MealPlanNutritionDto)
+  @Expose()
+  nutrition?: MealPlanNutritionDto;
 }
@@ -1,36 +1,7 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Expose, Type } from 'class-transformer';
 import { IsArray, IsString, ArrayMinSize, ArrayMaxSize, MaxLength } from 'class-validator';
-
-/**
- * Pagination metadata DTO (defined locally to avoid circular imports).
- * Not exported to prevent conflict with the one in api-responses.dto.ts
- */
-class PaginationMetaDto {
-  @ApiProperty({ description: 'Current page number', example: 1 })
-  @Expose()
-  page!: number;
-
-  @ApiProperty({ description: 'Number of items per page', example: 20 })
-  @Expose()
-  limit!: number;
-
-  @ApiProperty({ description: 'Total number of items', example: 150 })
-  @Expose()
-  total!: number;
-
-  @ApiProperty({ description: 'Total number of pages', example: 8 })
-  @Expose()
-  totalPages!: number;
-
-  @ApiProperty({ description: 'Whether there is a next page', example: true })
-  @Expose()
-  hasNext!: boolean;
-
-  @ApiProperty({ description: 'Whether there is a previous page', example: false })
-  @Expose()
-  hasPrevious!: boolean;
-}
+import { CursorPaginationMetaDto } from './pagination.dto';
 
 /**
  * Response DTO for a single meal plan tag.
@@ -93,11 +64,11 @@ export class PaginatedTagsResponseDto {
 
   @ApiProperty({
     description: 'Pagination metadata',
-    type: PaginationMetaDto,
+    type: CursorPaginationMetaDto,
   })
   @Expose()
-  @Type(() => PaginationMetaDto)
-  meta!: PaginationMetaDto;
+  @Type(() => CursorPaginationMetaDto)
+  meta!: CursorPaginationMetaDto;
 }
 
 /**
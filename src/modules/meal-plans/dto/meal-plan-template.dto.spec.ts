@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'bun:test';
+import { validate } from 'class-validator';
+import { plainToClass } from 'class-transformer';
+import {
+  CreateMealPlanTemplateDto,
+  InstantiateMealPlanTemplateQueryDto,
+  MAX_TEMPLATE_DURATION_DAYS,
+} from './meal-plan-template.dto';
+
+describe('CreateMealPlanTemplateDto', () => {
+  const validData = {
+    name: 'High Protein Week',
+    slots: [
+      { recipeId: '456', dayOffset: 0, mealType: 'BREAKFAST', servings: 2 },
+      { recipeId: '789', dayOffset: 6, mealType: 'DINNER' },
+    ],
+  };
+
+  it('should pass validation with valid data and apply defaults', async () => {
+    const dto = plainToClass(CreateMealPlanTemplateDto, validData);
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.durationDays).toBe(7);
+    expect(dto.isPublic).toBe(false);
+    expect(dto.slots).toHaveLength(2);
+  });
+
+  it('should accept a template without slots', async () => {
+    const dto = plainToClass(CreateMealPlanTemplateDto, { name: 'Empty Template' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.slots).toBeUndefined();
+  });
+
+  it('should require a name', async () => {
+    const dto = plainToClass(CreateMealPlanTemplateDto, { slots: [] });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('name');
+  });
+
+  it('should reject a duration outside the allowed range', async () => {
+    for (const durationDays of [0, MAX_TEMPLATE_DURATION_DAYS + 1]) {
+      const dto = plainToClass(CreateMealPlanTemplateDto, { ...validData, durationDays });
+      const errors = await validate(dto);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]?.property).toBe('durationDays');
+    }
+  });
+
+  it('should reject a non-boolean isPublic', async () => {
+    const dto = plainToClass(CreateMealPlanTemplateDto, { ...validData, isPublic: 'yes' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('isPublic');
+  });
+
+  it('should validate each slot', async () => {
+    const dto = plainToClass(CreateMealPlanTemplateDto, {
+      ...validData,
+      slots: [{ recipeId: 'abc', dayOffset: -1, mealType: 'BRUNCH', servings: 0 }],
+    });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('slots');
+
+    const slotErrors = errors[0]?.children?.[0]?.children ?? [];
+    expect(slotErrors.map((error) => error.property).sort()).toEqual([
+      'dayOffset',
+      'mealType',
+      'recipeId',
+      'servings',
+    ]);
+  });
+});
+
+describe('InstantiateMealPlanTemplateQueryDto', () => {
+  it('should convert the start date', async () => {
+    const dto = plainToClass(InstantiateMealPlanTemplateQueryDto, { startDate: '2024-03-11' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.startDate).toEqual(new Date('2024-03-11'));
+  });
+
+  it('should require a start date', async () => {
+    const dto = plainToClass(InstantiateMealPlanTemplateQueryDto, {});
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('startDate');
+  });
+
+  it('should reject an invalid start date', async () => {
+    const dto = plainToClass(InstantiateMealPlanTemplateQueryDto, { startDate: 'not-a-date' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('startDate');
+  });
+
+  it('should accept an IANA time zone', async () => {
+    const dto = plainToClass(InstantiateMealPlanTemplateQueryDto, {
+      startDate: '2024-03-11',
+      timezone: 'Europe/Paris',
+    });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.timezone).toBe('Europe/Paris');
+  });
+
+  it('should reject an unknown time zone', async () => {
+    const dto = plainToClass(InstantiateMealPlanTemplateQueryDto, {
+      startDate: '2024-03-11',
+      timezone: 'Mars/Olympus_Mons',
+    });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('timezone');
+  });
+});
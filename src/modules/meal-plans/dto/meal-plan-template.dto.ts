@@ -0,0 +1,273 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsBoolean,
+  IsDate,
+  IsOptional,
+  IsInt,
+  IsIn,
+  IsArray,
+  Length,
+  Min,
+  Max,
+  ValidateNested,
+  IsTimeZone,
+} from 'class-validator';
+import { Expose, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MealType, MEAL_TYPE_VALUES } from '../enums/meal-type.enum';
+import { IsRecipeId } from '../validators/recipe-id.validator';
+import {
+  StripHtml,
+  NormalizeWhitespace,
+} from '../validators/sanitizers/simple-sanitizer.validator';
+import { PaginationMetaDto } from './api-responses.dto';
+
+/**
+ * Longest template that can be created, in days
+ */
+export const MAX_TEMPLATE_DURATION_DAYS = 28;
+
+/**
+ * A recipe scheduled in a template, relative to the start of the plan
+ */
+export class MealPlanTemplateSlotDto {
+  @ApiProperty({
+    description: 'Recipe ID. Legacy recipe UUIDs are accepted during the migration to numeric IDs',
+    example: '456',
+  })
+  @IsNotEmpty({ message: 'Recipe ID is required' })
+  @IsString({ message: 'Recipe ID must be a string' })
+  @IsRecipeId()
+  @Expose()
+  recipeId!: string;
+
+  @ApiProperty({
+    description: 'Days after the start of the plan (0 is the first day)',
+    example: 0,
+    minimum: 0,
+    maximum: MAX_TEMPLATE_DURATION_DAYS - 1,
+  })
+  @IsInt({ message: 'Day offset must be an integer' })
+  @Min(0, { message: 'Day offset cannot be negative' })
+  @Max(MAX_TEMPLATE_DURATION_DAYS - 1, {
+    message: `Day offset must be less than ${MAX_TEMPLATE_DURATION_DAYS}`,
+  })
+  @Type(() => Number)
+  @Expose()
+  dayOffset!: number;
+
+  @ApiProperty({
+    description: 'Meal type for this recipe',
+    example: MealType.DINNER,
+    enum: MEAL_TYPE_VALUES,
+  })
+  @IsNotEmpty({ message: 'Meal type is required' })
+  @IsString({ message: 'Meal type must be a string' })
+  @IsIn(MEAL_TYPE_VALUES, {
+    message: `Meal type must be one of: ${MEAL_TYPE_VALUES.join(', ')}`,
+  })
+  @Expose()
+  mealType!: MealType;
+
+  @ApiPropertyOptional({
+    description: 'Number of servings for this recipe slot',
+    example: 4,
+    minimum: 1,
+    maximum: 100,
+    default: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Servings must be an integer' })
+  @Min(1, { message: 'Servings must be at least 1' })
+  @Max(100, { message: 'Servings cannot exceed 100' })
+  @Type(() => Number)
+  @Expose()
+  servings?: number;
+}
+
+export class CreateMealPlanTemplateDto {
+  @ApiProperty({
+    description: 'Name of the template',
+    example: 'High Protein Week',
+    minLength: 1,
+    maxLength: 255,
+  })
+  @IsNotEmpty({ message: 'Template name is required' })
+  @IsString({ message: 'Name must be a string' })
+  @Length(1, 255, { message: 'Name must be between 1 and 255 characters' })
+  @StripHtml()
+  @NormalizeWhitespace()
+  name!: string;
+
+  @ApiPropertyOptional({
+    description: 'Description of the template',
+    example: 'Seven days of high protein meals',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  @Length(0, 1000, { message: 'Description cannot exceed 1000 characters' })
+  @StripHtml()
+  @NormalizeWhitespace()
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Number of days a meal plan created from this template spans',
+    example: 7,
+    minimum: 1,
+    maximum: MAX_TEMPLATE_DURATION_DAYS,
+    default: 7,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Duration must be an integer' })
+  @Min(1, { message: 'Duration must be at least 1 day' })
+  @Max(MAX_TEMPLATE_DURATION_DAYS, {
+    message: `Duration cannot exceed ${MAX_TEMPLATE_DURATION_DAYS} days`,
+  })
+  @Type(() => Number)
+  durationDays?: number = 7;
+
+  @ApiPropertyOptional({
+    description: 'Share the template in the library, where other users can see it and its author',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'isPublic must be a boolean' })
+  isPublic?: boolean = false;
+
+  @ApiPropertyOptional({
+    description: 'Recipes scheduled in the template',
+    type: [MealPlanTemplateSlotDto],
+  })
+  @IsOptional()
+  @IsArray({ message: 'Slots must be an array' })
+  @ValidateNested({ each: true })
+  @Type(() => MealPlanTemplateSlotDto)
+  slots?: MealPlanTemplateSlotDto[];
+}
+
+/**
+ * Query parameters for creating a dated meal plan from a template
+ */
+export class InstantiateMealPlanTemplateQueryDto {
+  @ApiProperty({
+    description: 'First day of the new meal plan',
+    example: '2024-03-11',
+    type: 'string',
+    format: 'date',
+  })
+  @IsNotEmpty({ message: 'Start date is required' })
+  @IsDate({ message: 'Start date must be a valid date' })
+  @Type(() => Date)
+  startDate!: Date;
+
+  @ApiPropertyOptional({
+    description:
+      'IANA time zone of the new meal plan. Decides which date is today for the plan, e.g. when checking that it does not start in the past.',
+    example: 'Europe/Paris',
+    default: 'UTC',
+  })
+  @IsOptional()
+  @IsTimeZone({ message: 'Timezone must be an IANA time zone such as Europe/Paris' })
+  timezone?: string;
+}
+
+export class MealPlanTemplateResponseDto {
+  @ApiProperty({
+    description: 'Template ID',
+    example: '42',
+  })
+  @Expose()
+  id!: string;
+
+  @ApiProperty({
+    description: 'User ID of the template author',
+    example: '123e4567-e89b-12d3-a456-426614174002',
+  })
+  @Expose()
+  authorId!: string;
+
+  @ApiProperty({
+    description: 'Template name',
+    example: 'High Protein Week',
+  })
+  @Expose()
+  name!: string;
+
+  @ApiPropertyOptional({
+    description: 'Template description',
+    example: 'Seven days of high protein meals',
+    nullable: true,
+  })
+  @Expose()
+  description?: string | null;
+
+  @ApiProperty({
+    description: 'Number of days a meal plan created from this template spans',
+    example: 7,
+  })
+  @Expose()
+  durationDays!: number;
+
+  @ApiProperty({
+    description: 'Whether the template is shared in the library',
+    example: false,
+  })
+  @Expose()
+  isPublic!: boolean;
+
+  @ApiProperty({
+    description: 'Recipes scheduled in the template',
+    type: [MealPlanTemplateSlotDto],
+  })
+  @Expose()
+  @Type(() => MealPlanTemplateSlotDto)
+  slots!: MealPlanTemplateSlotDto[];
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2025-08-29T10:00:00.000Z',
+    type: 'string',
+    format: 'date-time',
+  })
+  @Expose()
+  @Type(() => Date)
+  createdAt!: Date;
+
+  @ApiProperty({
+    description: 'Last update timestamp',
+    example: '2025-08-29T10:00:00.000Z',
+    type: 'string',
+    format: 'date-time',
+  })
+  @Expose()
+  @Type(() => Date)
+  updatedAt!: Date;
+}
+
+export class PaginatedMealPlanTemplatesResponseDto {
+  @ApiProperty({
+    description: 'Whether the request was successful',
+    example: true,
+  })
+  @Expose()
+  success!: boolean;
+
+  @ApiProperty({
+    description: 'Array of meal plan templates',
+    type: [MealPlanTemplateResponseDto],
+  })
+  @Expose()
+  @Type(() => MealPlanTemplateResponseDto)
+  data!: MealPlanTemplateResponseDto[];
+
+  @ApiProperty({
+    description: 'Pagination metadata',
+    type: PaginationMetaDto,
+  })
+  @Expose()
+  @Type(() => PaginationMetaDto)
+  meta!: PaginationMetaDto;
+}
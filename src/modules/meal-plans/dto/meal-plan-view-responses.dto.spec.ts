@@ -129,10 +129,20 @@ describe('WeekDayDto', () => {
     }
   });
 
-  it('should reject invalid day of week', async () => {
+  it('should accept localized day names', async () => {
     const dto = plainToInstance(WeekDayDto, {
       ...validWeekDay,
-      dayOfWeek: 'InvalidDay',
+      dayOfWeek: 'vendredi',
+    });
+
+    const errors = await validate(dto);
+    expect(errors).toHaveLength(0);
+  });
+
+  it('should reject an empty day of week', async () => {
+    const dto = plainToInstance(WeekDayDto, {
+      ...validWeekDay,
+      dayOfWeek: '',
     });
 
     const errors = await validate(dto);
@@ -147,6 +157,8 @@ describe('WeekViewResponseDto', () => {
     startDate: '2024-03-11',
     endDate: '2024-03-17',
     weekNumber: 11,
+    weekStartDay: 'MONDAY',
+    locale: 'en-US',
     days: [],
     totalMeals: 0,
   };
@@ -162,6 +174,17 @@ describe('WeekViewResponseDto', () => {
     expect(dto.startDate).toBeInstanceOf(Date);
     expect(dto.endDate).toBeInstanceOf(Date);
   });
+
+  it('should reject an unsupported week start day', async () => {
+    const dto = plainToInstance(WeekViewResponseDto, {
+      ...validWeekView,
+      weekStartDay: 'WEDNESDAY',
+    });
+
+    const errors = await validate(dto);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('weekStartDay');
+  });
 });
 
 describe('MonthDayMealCountsDto', () => {
@@ -242,6 +265,8 @@ describe('MonthViewResponseDto', () => {
     year: 2024,
     month: 3,
     monthName: 'March',
+    weekStartDay: 'SUNDAY',
+    locale: 'en-US',
     weeks: [],
     totalMeals: 0,
   };
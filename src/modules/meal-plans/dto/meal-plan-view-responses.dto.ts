@@ -8,10 +8,13 @@ import {
   IsOptional,
   ValidateNested,
   IsDate,
-  IsIn,
+  IsEnum,
+  IsNotEmpty,
   Min,
 } from 'class-validator';
 import { MealPlanRecipeResponseDto } from './meal-plan-response.dto';
+import { DayNutritionDto, NutritionSummaryDto } from './meal-plan-nutrition.dto';
+import { WeekStartDay, WEEK_START_DAY_VALUES } from '../enums/week-start-day.enum';
 
 export class DayMealsDto {
   @ApiPropertyOptional({
@@ -115,6 +118,16 @@ export class DayViewResponseDto {
   @Min(0)
   @Expose()
   totalMeals!: number;
+
+  @ApiPropertyOptional({
+    description: 'Nutrition totals for this day (when includeNutrition=true)',
+    type: DayNutritionDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DayNutritionDto)
+  @Expose()
+  nutrition?: DayNutritionDto;
 }
 
 export class WeekDayDto {
@@ -130,13 +143,13 @@ export class WeekDayDto {
   date!: Date;
 
   @ApiProperty({
-    description: 'Day of the week',
+    description: 'Name of the day of the week in the requested locale',
     example: 'Monday',
-    enum: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'],
   })
-  @IsIn(['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'])
+  @IsString()
+  @IsNotEmpty()
   @Expose()
-  dayOfWeek!: 'Monday' | 'Tuesday' | 'Wednesday' | 'Thursday' | 'Friday' | 'Saturday' | 'Sunday';
+  dayOfWeek!: string;
 
   @ApiProperty({
     description: 'Meals for this day organized by meal type',
@@ -155,6 +168,16 @@ export class WeekDayDto {
   @Min(0)
   @Expose()
   totalMeals!: number;
+
+  @ApiPropertyOptional({
+    description: 'Nutrition totals for this day (when includeNutrition=true)',
+    type: DayNutritionDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DayNutritionDto)
+  @Expose()
+  nutrition?: DayNutritionDto;
 }
 
 export class WeekViewResponseDto {
@@ -205,6 +228,23 @@ export class WeekViewResponseDto {
   @Expose()
   weekNumber!: number;
 
+  @ApiProperty({
+    description: 'First day of the week used to lay out the week',
+    enum: WEEK_START_DAY_VALUES,
+    example: WeekStartDay.MONDAY,
+  })
+  @IsEnum(WeekStartDay)
+  @Expose()
+  weekStartDay!: WeekStartDay;
+
+  @ApiProperty({
+    description: 'Locale of the day names',
+    example: 'en-US',
+  })
+  @IsString()
+  @Expose()
+  locale!: string;
+
   @ApiProperty({
     description: 'Days in this week',
     type: [WeekDayDto],
@@ -223,6 +263,16 @@ export class WeekViewResponseDto {
   @Min(0)
   @Expose()
   totalMeals!: number;
+
+  @ApiPropertyOptional({
+    description: 'Nutrition totals for the week (when includeNutrition=true)',
+    type: NutritionSummaryDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NutritionSummaryDto)
+  @Expose()
+  nutrition?: NutritionSummaryDto;
 }
 
 export class MonthDayMealCountsDto {
@@ -323,6 +373,16 @@ export class MonthDayDto {
   @Type(() => MonthDayMealCountsDto)
   @Expose()
   meals!: MonthDayMealCountsDto;
+
+  @ApiPropertyOptional({
+    description: 'Nutrition totals for this day (when includeNutrition=true)',
+    type: DayNutritionDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DayNutritionDto)
+  @Expose()
+  nutrition?: DayNutritionDto;
 }
 
 export class MonthWeekDto {
@@ -411,6 +471,23 @@ export class MonthViewResponseDto {
   @Expose()
   monthName!: string;
 
+  @ApiProperty({
+    description: 'First day of the week used to lay out the month',
+    enum: WEEK_START_DAY_VALUES,
+    example: WeekStartDay.MONDAY,
+  })
+  @IsEnum(WeekStartDay)
+  @Expose()
+  weekStartDay!: WeekStartDay;
+
+  @ApiProperty({
+    description: 'Locale of the day and month names',
+    example: 'en-US',
+  })
+  @IsString()
+  @Expose()
+  locale!: string;
+
   @ApiProperty({
     description: 'Weeks in this month',
     type: [MonthWeekDto],
@@ -429,4 +506,14 @@ export class MonthViewResponseDto {
   @Min(0)
   @Expose()
   totalMeals!: number;
+
+  @ApiPropertyOptional({
+    description: 'Nutrition totals for the month (when includeNutrition=true)',
+    type: NutritionSummaryDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NutritionSummaryDto)
+  @Expose()
+  nutrition?: NutritionSummaryDto;
 }
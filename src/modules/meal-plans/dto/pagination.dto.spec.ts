@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'bun:test';
 import { validate } from 'class-validator';
 import { plainToClass } from 'class-transformer';
-import { PaginationDto, PaginatedResponseDto } from './pagination.dto';
+import { PaginationDto, PaginatedResponseDto, CursorPaginationDto } from './pagination.dto';
 
 describe('PaginationDto', () => {
   describe('valid data', () => {
@@ -243,6 +243,42 @@ describe('PaginationDto', () => {
   });
 });
 
+describe('CursorPaginationDto', () => {
+  it('should accept a cursor and default includeTotal to true', async () => {
+    const dto = plainToClass(CursorPaginationDto, { cursor: 'eyJzIjoibmFtZSJ9', limit: '10' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.cursor).toBe('eyJzIjoibmFtZSJ9');
+    expect(dto.limit).toBe(10);
+    expect(dto.includeTotal).toBe(true);
+  });
+
+  it('should transform includeTotal query strings to booleans', async () => {
+    const dto = plainToClass(CursorPaginationDto, { includeTotal: 'false' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.includeTotal).toBe(false);
+  });
+
+  it('should reject an empty cursor', async () => {
+    const dto = plainToClass(CursorPaginationDto, { cursor: '' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]!.property).toBe('cursor');
+  });
+
+  it('should reject a non-boolean includeTotal', async () => {
+    const dto = plainToClass(CursorPaginationDto, { includeTotal: 'sometimes' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]!.property).toBe('includeTotal');
+  });
+});
+
 describe('PaginatedResponseDto', () => {
   const sampleData = [
     { id: 1, name: 'Item 1' },
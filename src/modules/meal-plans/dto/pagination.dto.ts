@@ -1,6 +1,6 @@
-import { IsInt, Min, Max, IsOptional } from 'class-validator';
-import { Type } from 'class-transformer';
-import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, Min, Max, IsOptional, IsString, IsNotEmpty, IsBoolean } from 'class-validator';
+import { Type, Transform, Expose } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class PaginationDto {
   @ApiPropertyOptional({
@@ -36,6 +36,108 @@ export class PaginationDto {
   }
 }
 
+/**
+ * Pagination for listings that also support cursors. Without a cursor the
+ * page is taken from page and limit as usual; responses carry nextCursor and
+ * prevCursor either way, so clients can switch to cursors from any page.
+ */
+export class CursorPaginationDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description:
+      'Opaque cursor from the nextCursor or prevCursor of a previous response. Returns the page after or before it and ignores page.',
+    example:
+      'eyJzIjoiY3JlYXRlZEF0IiwibyI6ImRlc2MiLCJkIjoibiIsImsiOlsiZCIsIjIwMjQtMDMtMDFUMDA6MDA6MDAuMDAwWiJdLCJpIjoiMTIzIn0',
+  })
+  @IsOptional()
+  @IsString({ message: 'Cursor must be a string' })
+  @IsNotEmpty({ message: 'Cursor cannot be empty' })
+  cursor?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Whether to count all matching items. Skipping the count makes large listings faster.',
+    example: false,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'includeTotal must be a boolean' })
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      const lowerValue = value.toLowerCase();
+      if (lowerValue === 'true') return true;
+      if (lowerValue === 'false') return false;
+    }
+    return value as boolean;
+  })
+  includeTotal?: boolean = true;
+}
+
+/**
+ * Pagination metadata of listings that support cursors (see CursorPaginationDto)
+ */
+export class CursorPaginationMetaDto {
+  @ApiPropertyOptional({
+    description: 'Current page number, when paging by page rather than by cursor',
+    example: 1,
+  })
+  @Expose()
+  page?: number;
+
+  @ApiProperty({
+    description: 'Number of items per page',
+    example: 20,
+  })
+  @Expose()
+  limit!: number;
+
+  @ApiPropertyOptional({
+    description: 'Total number of items, unless includeTotal is false',
+    example: 150,
+  })
+  @Expose()
+  total?: number;
+
+  @ApiPropertyOptional({
+    description: 'Total number of pages, unless includeTotal is false',
+    example: 8,
+  })
+  @Expose()
+  totalPages?: number;
+
+  @ApiProperty({
+    description: 'Whether there is a next page',
+    example: true,
+  })
+  @Expose()
+  hasNext!: boolean;
+
+  @ApiProperty({
+    description: 'Whether there is a previous page',
+    example: false,
+  })
+  @Expose()
+  hasPrevious!: boolean;
+
+  @ApiProperty({
+    description: 'Cursor for the next page, or null on the last page',
+    type: String,
+    nullable: true,
+    example:
+      'eyJzIjoiY3JlYXRlZEF0IiwibyI6ImRlc2MiLCJkIjoibiIsImsiOlsiZCIsIjIwMjQtMDMtMDFUMDA6MDA6MDAuMDAwWiJdLCJpIjoiMTIzIn0',
+  })
+  @Expose()
+  nextCursor!: string | null;
+
+  @ApiProperty({
+    description: 'Cursor for the previous page, or null on the first page',
+    type: String,
+    nullable: true,
+    example: null,
+  })
+  @Expose()
+  prevCursor!: string | null;
+}
+
 export class PaginatedResponseDto<T> {
   @ApiPropertyOptional({
     description: 'The data items for this page',
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'bun:test';
+import { validate } from 'class-validator';
+import { plainToClass } from 'class-transformer';
+import { ReplaceDayRecipesDto, DayRecipeDto } from './replace-day-recipes.dto';
+import { MealType } from '../enums/meal-type.enum';
+
+describe('ReplaceDayRecipesDto', () => {
+  const validData = {
+    recipes: [
+      { recipeId: '456', mealType: 'BREAKFAST' },
+      { recipeId: '789', mealType: 'DINNER' },
+    ],
+  };
+
+  it('should pass validation with valid data', async () => {
+    const dto = plainToClass(ReplaceDayRecipesDto, validData);
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.recipes[0]).toBeInstanceOf(DayRecipeDto);
+    expect(dto.mealType).toBeUndefined();
+  });
+
+  it('should accept an empty recipe list', async () => {
+    const dto = plainToClass(ReplaceDayRecipesDto, { recipes: [] });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+  });
+
+  it('should accept a meal type scope', async () => {
+    const dto = plainToClass(ReplaceDayRecipesDto, {
+      mealType: 'DINNER',
+      recipes: [{ recipeId: '789', mealType: 'DINNER' }],
+    });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.mealType).toBe(MealType.DINNER);
+  });
+
+  it('should reject an invalid meal type scope', async () => {
+    const dto = plainToClass(ReplaceDayRecipesDto, { ...validData, mealType: 'BRUNCH' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('mealType');
+  });
+
+  it('should accept servings per recipe', async () => {
+    const dto = plainToClass(ReplaceDayRecipesDto, {
+      recipes: [{ recipeId: '456', mealType: 'BREAKFAST', servings: 3 }],
+    });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.recipes[0]?.servings).toBe(3);
+  });
+
+  it('should require the recipes array', async () => {
+    const dto = plainToClass(ReplaceDayRecipesDto, {});
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('recipes');
+  });
+
+  it('should reject invalid nested recipes', async () => {
+    const dto = plainToClass(ReplaceDayRecipesDto, {
+      recipes: [{ recipeId: 'abc', mealType: 'BRUNCH', servings: 0 }],
+    });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('recipes');
+    const nestedErrors = errors[0]?.children?.[0]?.children ?? [];
+    expect(nestedErrors.map((error) => error.property).sort()).toEqual([
+      'mealType',
+      'recipeId',
+      'servings',
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  IsNotEmpty,
+  IsString,
+  IsIn,
+  IsOptional,
+  IsArray,
+  ValidateNested,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MealType, MEAL_TYPE_VALUES } from '../enums/meal-type.enum';
+import { IsRecipeId } from '../validators/recipe-id.validator';
+
+/**
+ * A recipe scheduled on the day being replaced.
+ */
+export class DayRecipeDto {
+  @ApiProperty({
+    description: 'Recipe ID. Legacy recipe UUIDs are accepted during the migration to numeric IDs',
+    example: '456',
+  })
+  @IsNotEmpty({ message: 'Recipe ID is required' })
+  @IsString({ message: 'Recipe ID must be a string' })
+  @IsRecipeId()
+  recipeId!: string;
+
+  @ApiProperty({
+    description: 'Meal type for this recipe',
+    example: MealType.DINNER,
+    enum: MEAL_TYPE_VALUES,
+  })
+  @IsNotEmpty({ message: 'Meal type is required' })
+  @IsString({ message: 'Meal type must be a string' })
+  @IsIn(MEAL_TYPE_VALUES, {
+    message: `Meal type must be one of: ${MEAL_TYPE_VALUES.join(', ')}`,
+  })
+  mealType!: MealType;
+
+  @ApiPropertyOptional({
+    description: 'Number of servings for this recipe',
+    example: 4,
+    minimum: 1,
+    maximum: 100,
+    default: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Servings must be an integer' })
+  @Min(1, { message: 'Servings must be at least 1' })
+  @Max(100, { message: 'Servings cannot exceed 100' })
+  @Type(() => Number)
+  servings?: number;
+}
+
+/**
+ * Request DTO for replacing all recipes on a single day of a meal plan.
+ * When mealType is provided only that meal is replaced and the rest of the day is kept.
+ */
+export class ReplaceDayRecipesDto {
+  @ApiPropertyOptional({
+    description: 'Only replace recipes for this meal type',
+    example: MealType.DINNER,
+    enum: MEAL_TYPE_VALUES,
+  })
+  @IsOptional()
+  @IsString({ message: 'Meal type must be a string' })
+  @IsIn(MEAL_TYPE_VALUES, {
+    message: `Meal type must be one of: ${MEAL_TYPE_VALUES.join(', ')}`,
+  })
+  mealType?: MealType;
+
+  @ApiProperty({
+    description: 'Recipes for the day; an empty list clears the day (or the selected meal type)',
+    type: [DayRecipeDto],
+    example: [
+      { recipeId: '456', mealType: 'BREAKFAST' },
+      { recipeId: '789', mealType: 'DINNER' },
+    ],
+  })
+  @IsArray({ message: 'Recipes must be an array' })
+  @ValidateNested({ each: true, message: 'Each recipe must be valid' })
+  @Type(() => DayRecipeDto)
+  recipes!: DayRecipeDto[];
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'bun:test';
+import { validate } from 'class-validator';
+import { plainToClass } from 'class-transformer';
+import {
+  ShoppingListQueryDto,
+  ShoppingListResponseDto,
+  ShoppingListCategoryDto,
+  ShoppingListItemDto,
+} from './shopping-list.dto';
+
+describe('ShoppingListQueryDto', () => {
+  it('should pass validation without a date range', async () => {
+    const dto = plainToClass(ShoppingListQueryDto, {});
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+  });
+
+  it('should transform the date range', async () => {
+    const dto = plainToClass(ShoppingListQueryDto, {
+      startDate: '2024-03-11',
+      endDate: '2024-03-17',
+    });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.startDate).toBeInstanceOf(Date);
+    expect(dto.endDate?.toISOString()).toBe('2024-03-17T00:00:00.000Z');
+  });
+
+  it('should reject invalid dates', async () => {
+    const dto = plainToClass(ShoppingListQueryDto, { startDate: 'not-a-date' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('startDate');
+  });
+});
+
+describe('ShoppingListResponseDto', () => {
+  it('should expose nested categories and items', () => {
+    const dto = plainToClass(
+      ShoppingListResponseDto,
+      {
+        mealPlanId: '123',
+        startDate: '2024-03-11',
+        endDate: '2024-03-17',
+        totalItems: 1,
+        categories: [
+          {
+            category: 'Pantry',
+            items: [
+              { name: 'Olive oil', quantity: 3, unit: 'tbsp', recipeIds: ['456'], extra: 'x' },
+            ],
+          },
+        ],
+        extra: 'ignored',
+      },
+      { excludeExtraneousValues: true },
+    );
+
+    expect(dto.totalItems).toBe(1);
+    expect(dto.categories[0]).toBeInstanceOf(ShoppingListCategoryDto);
+    expect(dto.categories[0]?.items[0]).toBeInstanceOf(ShoppingListItemDto);
+    expect(dto.categories[0]?.items[0]).toEqual({
+      name: 'Olive oil',
+      quantity: 3,
+      unit: 'tbsp',
+      recipeIds: ['456'],
+    });
+    expect((dto as unknown as Record<string, unknown>).extra).toBeUndefined();
+  });
+});
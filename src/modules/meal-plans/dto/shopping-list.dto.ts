@@ -0,0 +1,134 @@
+import { IsDate, IsOptional } from 'class-validator';
+import { Expose, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Query parameters for building a shopping list.
+ * Both bounds default to the meal plan start and end dates.
+ */
+export class ShoppingListQueryDto {
+  @ApiPropertyOptional({
+    description: 'First day to include (defaults to the meal plan start date)',
+    example: '2024-03-11',
+    type: 'string',
+    format: 'date',
+  })
+  @IsOptional()
+  @IsDate({ message: 'Start date must be a valid date' })
+  @Type(() => Date)
+  startDate?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Last day to include (defaults to the meal plan end date)',
+    example: '2024-03-17',
+    type: 'string',
+    format: 'date',
+  })
+  @IsOptional()
+  @IsDate({ message: 'End date must be a valid date' })
+  @Type(() => Date)
+  endDate?: Date;
+}
+
+/**
+ * A single merged ingredient on the shopping list.
+ */
+export class ShoppingListItemDto {
+  @ApiProperty({
+    description: 'Ingredient name',
+    example: 'Olive oil',
+  })
+  @Expose()
+  name!: string;
+
+  @ApiProperty({
+    description: 'Total quantity, scaled to the scheduled servings (null when unspecified)',
+    example: 3,
+    type: Number,
+    nullable: true,
+  })
+  @Expose()
+  quantity!: number | null;
+
+  @ApiProperty({
+    description: 'Normalized unit for the quantity (null when unitless)',
+    example: 'tbsp',
+    type: String,
+    nullable: true,
+  })
+  @Expose()
+  unit!: string | null;
+
+  @ApiProperty({
+    description: 'Recipes that use this ingredient',
+    example: ['456', '789'],
+    type: [String],
+  })
+  @Expose()
+  recipeIds!: string[];
+}
+
+/**
+ * Shopping list items grouped under one aisle or category.
+ */
+export class ShoppingListCategoryDto {
+  @ApiProperty({
+    description: 'Aisle or category name',
+    example: 'Pantry',
+  })
+  @Expose()
+  category!: string;
+
+  @ApiProperty({
+    description: 'Items in this category',
+    type: [ShoppingListItemDto],
+  })
+  @Expose()
+  @Type(() => ShoppingListItemDto)
+  items!: ShoppingListItemDto[];
+}
+
+/**
+ * Aggregated shopping list for a meal plan date range.
+ */
+export class ShoppingListResponseDto {
+  @ApiProperty({
+    description: 'Meal plan ID',
+    example: '123',
+  })
+  @Expose()
+  mealPlanId!: string;
+
+  @ApiProperty({
+    description: 'First day included in the list',
+    example: '2024-03-11',
+    type: 'string',
+    format: 'date',
+  })
+  @Expose()
+  startDate!: string;
+
+  @ApiProperty({
+    description: 'Last day included in the list',
+    example: '2024-03-17',
+    type: 'string',
+    format: 'date',
+  })
+  @Expose()
+  endDate!: string;
+
+  @ApiProperty({
+    description: 'Total number of distinct items',
+    example: 12,
+  })
+  @Expose()
+  totalItems!: number;
+
+  @ApiProperty({
+    description: 'Items grouped by aisle or category',
+    type: [ShoppingListCategoryDto],
+  })
+  @Expose()
+  @Type(() => ShoppingListCategoryDto)
+  categories!: ShoppingListCategoryDto[];
+}
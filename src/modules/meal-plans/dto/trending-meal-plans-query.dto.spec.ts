@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'bun:test';
+import { validate } from 'class-validator';
+import { plainToClass } from 'class-transformer';
+import { TrendingMealPlansQueryDto } from './trending-meal-plans-query.dto';
+
+describe('TrendingMealPlansQueryDto', () => {
+  it('should pass validation with a tag and period', async () => {
+    const dto = plainToClass(TrendingMealPlansQueryDto, {
+      tag: '  vegetarian ',
+      period: 'week',
+      page: '2',
+    });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.tag).toBe('vegetarian');
+    expect(dto.period).toBe('week');
+    expect(dto.offset).toBe(20);
+  });
+
+  it('should pass validation without filters', async () => {
+    const dto = plainToClass(TrendingMealPlansQueryDto, {});
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(0);
+    expect(dto.tag).toBeUndefined();
+    expect(dto.period).toBeUndefined();
+  });
+
+  it('should fail validation with an unknown period', async () => {
+    const dto = plainToClass(TrendingMealPlansQueryDto, { period: 'year' });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('period');
+  });
+
+  it('should fail validation when the tag is too long', async () => {
+    const dto = plainToClass(TrendingMealPlansQueryDto, { tag: 'a'.repeat(51) });
+    const errors = await validate(dto);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]?.property).toBe('tag');
+  });
+});
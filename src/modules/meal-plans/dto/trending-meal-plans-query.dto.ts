@@ -0,0 +1,31 @@
+import { IsString, IsOptional, IsIn, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationDto } from './pagination.dto';
+
+export const TRENDING_PERIOD_VALUES = ['day', 'week', 'month'] as const;
+
+export type TrendingPeriod = (typeof TRENDING_PERIOD_VALUES)[number];
+
+export class TrendingMealPlansQueryDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Only rank meal plans with this tag (case-insensitive)',
+    example: 'Vegetarian',
+    maxLength: 50,
+  })
+  @IsOptional()
+  @IsString({ message: 'Tag must be a string' })
+  @MaxLength(50, { message: 'Tag cannot exceed 50 characters' })
+  @Transform(({ value }: { value: unknown }) => (typeof value === 'string' ? value.trim() : value))
+  tag?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Only count engagement from the last day, week or month instead of the configured window',
+    enum: TRENDING_PERIOD_VALUES,
+    example: 'week',
+  })
+  @IsOptional()
+  @IsIn(TRENDING_PERIOD_VALUES, { message: 'Period must be one of: day, week, month' })
+  period?: TrendingPeriod;
+}
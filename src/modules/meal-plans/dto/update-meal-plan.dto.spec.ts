@@ -2,6 +2,7 @@ import { describe, it, expect } from 'bun:test';
 import { validate } from 'class-validator';
 import { plainToClass } from 'class-transformer';
 import { UpdateMealPlanDto } from './update-meal-plan.dto';
+import { MealPlanVisibility } from '../enums/meal-plan-visibility.enum';
 
 describe('UpdateMealPlanDto', () => {
   // Helper function to get future dates for testing
@@ -267,6 +268,45 @@ describe('UpdateMealPlanDto', () => {
     });
   });
 
+  describe('visibility validation', () => {
+    it('should pass when only visibility is updated', async () => {
+      const dto = plainToClass(UpdateMealPlanDto, { visibility: MealPlanVisibility.PUBLIC });
+      const errors = await validate(dto);
+
+      expect(errors).toHaveLength(0);
+      expect(dto.visibility).toBe(MealPlanVisibility.PUBLIC);
+    });
+
+    it('should fail when visibility is unknown', async () => {
+      const dto = plainToClass(UpdateMealPlanDto, { visibility: 'public' });
+      const errors = await validate(dto);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]?.property).toBe('visibility');
+    });
+  });
+
+  describe('timezone validation', () => {
+    it('should pass when timezone is an IANA time zone', async () => {
+      const dto = plainToClass(UpdateMealPlanDto, { timezone: 'America/New_York' });
+      const errors = await validate(dto);
+
+      expect(errors).toHaveLength(0);
+      expect(dto.timezone).toBe('America/New_York');
+    });
+
+    it('should fail when timezone is unknown', async () => {
+      const dto = plainToClass(UpdateMealPlanDto, { timezone: 'Mars/Olympus_Mons' });
+      const errors = await validate(dto);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]!.property).toBe('timezone');
+      expect(errors[0]!.constraints?.isTimeZone).toBe(
+        'Timezone must be an IANA time zone such as Europe/Paris',
+      );
+    });
+  });
+
   describe('combined scenarios', () => {
     it('should handle mixed valid and invalid fields', async () => {
       const dates = getFutureDates();
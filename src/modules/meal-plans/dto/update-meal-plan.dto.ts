@@ -6,6 +6,9 @@ import {
   Length,
   IsArray,
   MaxLength,
+  ValidateNested,
+  IsIn,
+  IsTimeZone,
 } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
 import { ApiPropertyOptional } from '@nestjs/swagger';
@@ -15,6 +18,12 @@ import {
   StripHtml,
   NormalizeWhitespace,
 } from '../validators/sanitizers/simple-sanitizer.validator';
+import { NutritionTargetsDto } from './meal-plan-nutrition.dto';
+import { CreateMealPlanRecipeDto } from './create-meal-plan-recipe.dto';
+import {
+  MealPlanVisibility,
+  MEAL_PLAN_VISIBILITY_VALUES,
+} from '../enums/meal-plan-visibility.enum';
 
 export class UpdateMealPlanDto {
   @ApiPropertyOptional({
@@ -100,6 +109,26 @@ export class UpdateMealPlanDto {
   })
   isActive?: boolean;
 
+  @ApiPropertyOptional({
+    description:
+      'Who can see the meal plan. Switching back to private stops existing share links from working.',
+    enum: MEAL_PLAN_VISIBILITY_VALUES,
+    example: MealPlanVisibility.UNLISTED,
+  })
+  @IsOptional()
+  @IsIn(MEAL_PLAN_VISIBILITY_VALUES, {
+    message: `Visibility must be one of: ${MEAL_PLAN_VISIBILITY_VALUES.join(', ')}`,
+  })
+  visibility?: MealPlanVisibility;
+
+  @ApiPropertyOptional({
+    description: 'IANA time zone of the meal plan. Decides which date is today for the plan.',
+    example: 'Europe/Paris',
+  })
+  @IsOptional()
+  @IsTimeZone({ message: 'Timezone must be an IANA time zone such as Europe/Paris' })
+  timezone?: string;
+
   @ApiPropertyOptional({
     description: 'Updated list of tag names (replaces existing tags when provided)',
     type: [String],
@@ -111,6 +140,31 @@ export class UpdateMealPlanDto {
   @MaxLength(50, { each: true, message: 'Each tag name must be at most 50 characters' })
   tags?: string[];
 
+  @ApiPropertyOptional({
+    description:
+      'Updated daily targets (replaces all existing targets when provided; send an empty object to clear them)',
+    type: NutritionTargetsDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NutritionTargetsDto)
+  nutritionTargets?: NutritionTargetsDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Updated list of recipes (replaces all scheduled recipes when provided; send an empty array to clear them). Entries are checked against the updated start and end dates.',
+    type: [CreateMealPlanRecipeDto],
+    example: [
+      { recipeId: '456', dayOffset: 0, mealType: 'BREAKFAST', servings: 2 },
+      { recipeId: '789', mealDate: '2025-09-12', mealType: 'DINNER' },
+    ],
+  })
+  @IsOptional()
+  @IsArray({ message: 'Recipes must be an array' })
+  @ValidateNested({ each: true, message: 'Each recipe must be valid' })
+  @Type(() => CreateMealPlanRecipeDto)
+  recipes?: CreateMealPlanRecipeDto[];
+
   // Internal fields for validation - set by service layer, not by client
   // These fields are not exposed in API documentation
   userId?: string;
@@ -0,0 +1,252 @@
+import { IsNotEmpty, IsString, IsUUID, IsIn, IsOptional, IsArray, Matches } from 'class-validator';
+import { Expose, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MealType, MEAL_TYPE_VALUES } from '../enums/meal-type.enum';
+import { MealPlanStatus, MEAL_PLAN_STATUS_VALUES } from '../enums/meal-plan-status.enum';
+import {
+  MealPlanVisibility,
+  MEAL_PLAN_VISIBILITY_VALUES,
+} from '../enums/meal-plan-visibility.enum';
+
+/**
+ * How a user's data is erased. Deleting removes everything the user owns;
+ * anonymizing keeps their public and unlisted content under the anonymous user.
+ */
+export const USER_DATA_ERASURE_MODES = ['delete', 'anonymize'] as const;
+export type UserDataErasureMode = (typeof USER_DATA_ERASURE_MODES)[number];
+
+/**
+ * Query DTO for erasing a user's data
+ */
+export class EraseUserDataQueryDto {
+  @ApiProperty({
+    description:
+      'delete removes all meal plans, templates and favorites of the user. anonymize also removes their private content, but hands public and unlisted meal plans and public templates to the configured anonymous user.',
+    enum: USER_DATA_ERASURE_MODES,
+    example: 'delete',
+  })
+  @IsNotEmpty({ message: 'Erasure mode is required' })
+  @IsIn(USER_DATA_ERASURE_MODES, {
+    message: `Erasure mode must be one of: ${USER_DATA_ERASURE_MODES.join(', ')}`,
+  })
+  mode!: UserDataErasureMode;
+}
+
+/**
+ * Request DTO for transferring meal plans to another user
+ */
+export class TransferMealPlansDto {
+  @ApiProperty({
+    description: 'ID of the user who becomes the owner',
+    example: '123e4567-e89b-12d3-a456-426614174003',
+  })
+  @IsNotEmpty({ message: 'Target user ID is required' })
+  @IsUUID('all', { message: 'Target user ID must be a valid UUID' })
+  toUserId!: string;
+
+  @ApiPropertyOptional({
+    description: 'Meal plans to transfer (all meal plans of the user when omitted)',
+    example: ['123', '124'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray({ message: 'Meal plan IDs must be an array' })
+  @IsString({ each: true, message: 'Meal plan IDs must be strings' })
+  @Matches(/^\d+$/, { each: true, message: 'Meal plan IDs must be numeric strings' })
+  mealPlanIds?: string[];
+}
+
+/**
+ * A recipe scheduled in an exported meal plan
+ */
+export class UserDataExportRecipeDto {
+  @ApiProperty({ description: 'Recipe ID', example: '456' })
+  @Expose()
+  recipeId!: string;
+
+  @ApiProperty({
+    description: 'Date the recipe is scheduled for',
+    example: '2025-09-01',
+    type: 'string',
+    format: 'date',
+  })
+  @Expose()
+  @Type(() => Date)
+  mealDate!: Date;
+
+  @ApiProperty({ description: 'Meal type', enum: MEAL_TYPE_VALUES, example: MealType.DINNER })
+  @Expose()
+  mealType!: MealType;
+
+  @ApiProperty({ description: 'Number of servings', example: 2 })
+  @Expose()
+  servings!: number;
+}
+
+/**
+ * A meal plan owned by the user, with its recipes and tags
+ */
+export class UserDataExportMealPlanDto {
+  @ApiProperty({ description: 'Meal plan ID', example: '123' })
+  @Expose()
+  id!: string;
+
+  @ApiProperty({ description: 'Meal plan name', example: 'Weekly Meal Plan' })
+  @Expose()
+  name!: string;
+
+  @ApiPropertyOptional({ description: 'Meal plan description', nullable: true })
+  @Expose()
+  description?: string | null;
+
+  @ApiPropertyOptional({ type: 'string', format: 'date', nullable: true })
+  @Expose()
+  @Type(() => Date)
+  startDate?: Date | null;
+
+  @ApiPropertyOptional({ type: 'string', format: 'date', nullable: true })
+  @Expose()
+  @Type(() => Date)
+  endDate?: Date | null;
+
+  @ApiProperty({ enum: MEAL_PLAN_STATUS_VALUES, example: MealPlanStatus.ACTIVE })
+  @Expose()
+  status!: MealPlanStatus;
+
+  @ApiProperty({ enum: MEAL_PLAN_VISIBILITY_VALUES, example: MealPlanVisibility.PRIVATE })
+  @Expose()
+  visibility!: MealPlanVisibility;
+
+  @ApiProperty({ description: 'IANA time zone of the plan', example: 'Europe/Paris' })
+  @Expose()
+  timezone!: string;
+
+  @ApiProperty({ type: 'string', format: 'date-time' })
+  @Expose()
+  @Type(() => Date)
+  createdAt!: Date;
+
+  @ApiProperty({ type: 'string', format: 'date-time' })
+  @Expose()
+  @Type(() => Date)
+  updatedAt!: Date;
+
+  @ApiProperty({ description: 'Scheduled recipes', type: [UserDataExportRecipeDto] })
+  @Expose()
+  @Type(() => UserDataExportRecipeDto)
+  recipes!: UserDataExportRecipeDto[];
+
+  @ApiProperty({ description: 'Tag names', example: ['vegetarian'], type: [String] })
+  @Expose()
+  tags!: string[];
+}
+
+/**
+ * A meal plan the user marked as favorite
+ */
+export class UserDataExportFavoriteDto {
+  @ApiProperty({ description: 'Meal plan ID', example: '123' })
+  @Expose()
+  mealPlanId!: string;
+
+  @ApiProperty({ type: 'string', format: 'date-time' })
+  @Expose()
+  @Type(() => Date)
+  favoritedAt!: Date;
+}
+
+/**
+ * Response DTO for the export of a user's data
+ */
+export class UserDataExportResponseDto {
+  @ApiProperty({
+    description: 'User the data belongs to',
+    example: '123e4567-e89b-12d3-a456-426614174002',
+  })
+  @Expose()
+  userId!: string;
+
+  @ApiProperty({
+    description: 'When the export was generated',
+    type: 'string',
+    format: 'date-time',
+  })
+  @Expose()
+  @Type(() => Date)
+  exportedAt!: Date;
+
+  @ApiProperty({ description: 'Meal plans owned by the user', type: [UserDataExportMealPlanDto] })
+  @Expose()
+  @Type(() => UserDataExportMealPlanDto)
+  mealPlans!: UserDataExportMealPlanDto[];
+
+  @ApiProperty({ description: 'Favorite meal plans', type: [UserDataExportFavoriteDto] })
+  @Expose()
+  @Type(() => UserDataExportFavoriteDto)
+  favorites!: UserDataExportFavoriteDto[];
+
+  @ApiProperty({
+    description: 'Distinct tags on the meal plans of the user',
+    example: ['vegetarian', 'quick'],
+    type: [String],
+  })
+  @Expose()
+  tags!: string[];
+}
+
+/**
+ * Response DTO summarizing an erasure of a user's data
+ */
+export class UserDataErasureResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174002' })
+  @Expose()
+  userId!: string;
+
+  @ApiProperty({ enum: USER_DATA_ERASURE_MODES, example: 'delete' })
+  @Expose()
+  mode!: UserDataErasureMode;
+
+  @ApiProperty({ description: 'Meal plans deleted', example: 3 })
+  @Expose()
+  deletedMealPlans!: number;
+
+  @ApiProperty({ description: 'Meal plans handed to the anonymous user', example: 0 })
+  @Expose()
+  anonymizedMealPlans!: number;
+
+  @ApiProperty({ description: 'Templates deleted', example: 1 })
+  @Expose()
+  deletedTemplates!: number;
+
+  @ApiProperty({ description: 'Templates handed to the anonymous user', example: 0 })
+  @Expose()
+  anonymizedTemplates!: number;
+
+  @ApiProperty({ description: 'Favorites removed', example: 5 })
+  @Expose()
+  deletedFavorites!: number;
+
+  @ApiProperty({
+    description: 'Collaborations and invitations removed, including those the user sent',
+    example: 2,
+  })
+  @Expose()
+  deletedCollaborations!: number;
+}
+
+/**
+ * Response DTO for a transfer of meal plan ownership
+ */
+export class MealPlanTransferResponseDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174002' })
+  @Expose()
+  fromUserId!: string;
+
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174003' })
+  @Expose()
+  toUserId!: string;
+
+  @ApiProperty({ description: 'Meal plans transferred', example: ['123', '124'], type: [String] })
+  @Expose()
+  mealPlanIds!: string[];
+}
@@ -0,0 +1,7 @@
+export enum MealPlanRole {
+  VIEWER = 'VIEWER',
+  EDITOR = 'EDITOR',
+  OWNER = 'OWNER',
+}
+
+export const MEAL_PLAN_ROLE_VALUES = Object.values(MealPlanRole);
@@ -0,0 +1,7 @@
+export enum MealPlanStatus {
+  DRAFT = 'DRAFT',
+  ACTIVE = 'ACTIVE',
+  ARCHIVED = 'ARCHIVED',
+}
+
+export const MEAL_PLAN_STATUS_VALUES = Object.values(MealPlanStatus);
@@ -0,0 +1,7 @@
+export enum MealPlanVisibility {
+  PRIVATE = 'PRIVATE',
+  UNLISTED = 'UNLISTED',
+  PUBLIC = 'PUBLIC',
+}
+
+export const MEAL_PLAN_VISIBILITY_VALUES = Object.values(MealPlanVisibility);
@@ -0,0 +1,7 @@
+export enum WeekStartDay {
+  SUNDAY = 'SUNDAY',
+  MONDAY = 'MONDAY',
+  SATURDAY = 'SATURDAY',
+}
+
+export const WEEK_START_DAY_VALUES = Object.values(WeekStartDay);
@@ -0,0 +1,12 @@
+/**
+ * Tags of the cached meal plan responses. Every write invalidates the tags of
+ * the responses it changes.
+ */
+export const MealPlanCacheTags = {
+  // GET /meal-plans/:id and share link views of a single meal plan
+  mealPlan: (mealPlanId: bigint): string => `meal-plan:${mealPlanId.toString()}`,
+  // GET /meal-plans/trending
+  TRENDING: 'meal-plans:trending',
+  // GET /meal-plans/tags
+  TAGS: 'meal-plan-tags',
+};
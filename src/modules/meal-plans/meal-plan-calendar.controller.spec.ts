@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { ExecutionContext, ForbiddenException, StreamableFile } from '@nestjs/common';
+import { MealPlanCalendarController } from './meal-plan-calendar.controller';
+import { MealPlanCalendarService } from './meal-plan-calendar.service';
+import { ScopesGuard } from '@/modules/auth/guards/scopes.guard';
+import { MealPlanScopes } from '@/modules/auth/constants/oauth2-scopes.constant';
+import type { AuthenticatedUser } from '@/modules/auth/interfaces/jwt-payload.interface';
+
+describe('MealPlanCalendarController', () => {
+  let controller: MealPlanCalendarController;
+  let service: {
+    exportMealPlan: Mock<(...args: unknown[]) => unknown>;
+    createFeed: Mock<(...args: unknown[]) => unknown>;
+    revokeFeed: Mock<(...args: unknown[]) => unknown>;
+    getFeed: Mock<(...args: unknown[]) => unknown>;
+  };
+
+  const testUserId = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+  const calendar = 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n';
+
+  const mockUser: AuthenticatedUser = {
+    id: testUserId,
+    sub: testUserId,
+    clientId: 'test-client',
+    scopes: ['read', 'write'],
+    exp: Date.now() + 3600000,
+  };
+
+  const mockService = {
+    exportMealPlan: mock(() => {}),
+    createFeed: mock(() => {}),
+    revokeFeed: mock(() => {}),
+    getFeed: mock(() => {}),
+  };
+
+  beforeEach(async () => {
+    mockService.exportMealPlan.mockReset();
+    mockService.createFeed.mockReset();
+    mockService.revokeFeed.mockReset();
+    mockService.getFeed.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [MealPlanCalendarController],
+      providers: [
+        // Required by ScopesGuard
+        { provide: ConfigService, useValue: { get: mock(() => undefined) } },
+        {
+          provide: MealPlanCalendarService,
+          useValue: mockService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<MealPlanCalendarController>(MealPlanCalendarController);
+    service = module.get(MealPlanCalendarService);
+  });
+
+  describe('exportMealPlan', () => {
+    it('should return the calendar as an .ics attachment', async () => {
+      service.exportMealPlan.mockResolvedValue(calendar as never);
+
+      const result = await controller.exportMealPlan('123', mockUser);
+
+      expect(service.exportMealPlan).toHaveBeenCalledWith('123', testUserId);
+      expect(result).toBeInstanceOf(StreamableFile);
+      expect(result.getHeaders()).toEqual({
+        type: 'text/calendar; charset=utf-8',
+        disposition: 'attachment; filename="meal-plan-123.ics"',
+        length: Buffer.byteLength(calendar),
+      });
+    });
+  });
+
+  describe('createSubscription', () => {
+    it('should create a calendar feed for the user', async () => {
+      const expectedResponse = {
+        token: 'token',
+        url: '/api/v1/meal-plan-management/meal-plans/calendar/feed/token.ics',
+        createdAt: new Date(),
+      };
+      service.createFeed.mockResolvedValue(expectedResponse as never);
+
+      const result = await controller.createSubscription(mockUser);
+
+      expect(result).toEqual(expectedResponse);
+      expect(service.createFeed).toHaveBeenCalledWith(testUserId);
+    });
+  });
+
+  describe('revokeSubscription', () => {
+    it('should revoke the calendar feed of the user', async () => {
+      service.revokeFeed.mockResolvedValue(undefined as never);
+
+      await controller.revokeSubscription(mockUser);
+
+      expect(service.revokeFeed).toHaveBeenCalledWith(testUserId);
+    });
+  });
+
+  describe('getFeed', () => {
+    it('should return the subscription feed inline', async () => {
+      service.getFeed.mockResolvedValue(calendar as never);
+
+      const result = await controller.getFeed('secret-token');
+
+      expect(service.getFeed).toHaveBeenCalledWith('secret-token');
+      expect(result.getHeaders().type).toBe('text/calendar; charset=utf-8');
+      expect(result.getHeaders().disposition).toBe('inline; filename="meal-plans.ics"');
+    });
+  });
+
+  describe('scopes', () => {
+    const guard = new ScopesGuard(
+      new Reflector(),
+      new ConfigService({ oauth2: { enabled: true } }),
+    );
+    const readOnlyUser: AuthenticatedUser = { ...mockUser, scopes: [MealPlanScopes.READ] };
+    const prototype = MealPlanCalendarController.prototype;
+
+    const createContext = (handler: (...args: never[]) => unknown): ExecutionContext =>
+      ({
+        switchToHttp: () => ({ getRequest: () => ({ user: readOnlyUser }) }),
+        getHandler: () => handler,
+        getClass: () => MealPlanCalendarController,
+      }) as unknown as ExecutionContext;
+
+    it('should reject read-only tokens on write routes', () => {
+      for (const handler of [prototype.createSubscription, prototype.revokeSubscription]) {
+        expect(() => guard.canActivate(createContext(handler))).toThrow(ForbiddenException);
+      }
+    });
+
+    it('should accept read-only tokens on read routes', () => {
+      for (const handler of [prototype.exportMealPlan]) {
+        expect(guard.canActivate(createContext(handler))).toBe(true);
+      }
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseInterceptors,
+  ClassSerializerInterceptor,
+  UseGuards,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { MealPlanCalendarService } from './meal-plan-calendar.service';
+import { CalendarFeedResponseDto, ErrorResponseDto } from './dto';
+
+import { JwtAuthGuard } from '@/modules/auth/guards/jwt-auth.guard';
+import { ScopesGuard } from '@/modules/auth/guards/scopes.guard';
+import { RequireScopes } from '@/modules/auth/decorators/require-scopes.decorator';
+import { MealPlanScopes } from '@/modules/auth/constants/oauth2-scopes.constant';
+import { CurrentUser } from '@/modules/auth/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '@/modules/auth/interfaces/jwt-payload.interface';
+
+const ICALENDAR_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+/**
+ * iCalendar export of meal plans. The subscription feed is authenticated by
+ * the token in its URL instead of a JWT, because calendar apps cannot send
+ * Authorization headers; every other endpoint requires a JWT.
+ */
+@ApiTags('calendar')
+@Controller('meal-plan-management/meal-plans')
+@UseInterceptors(ClassSerializerInterceptor)
+@Throttle({ default: { limit: 100, ttl: 60000 } })
+export class MealPlanCalendarController {
+  constructor(private readonly calendarService: MealPlanCalendarService) {}
+
+  @Get(':id/calendar.ics')
+  @UseGuards(JwtAuthGuard, ScopesGuard)
+  @RequireScopes(MealPlanScopes.READ)
+  @ApiBearerAuth('JWT-Auth')
+  @ApiOperation({
+    summary: 'Export meal plan as iCalendar',
+    description:
+      'Download the meal plan as an .ics file with one event per scheduled recipe, starting at the configured hour for its meal type',
+    operationId: 'exportMealPlanCalendar',
+  })
+  @ApiProduces('text/calendar')
+  @ApiParam({
+    name: 'id',
+    description: 'Meal plan ID',
+    type: String,
+    example: '123',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'iCalendar document',
+    schema: { type: 'string' },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - user does not have access to this meal plan',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Meal plan not found',
+    type: ErrorResponseDto,
+  })
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  async exportMealPlan(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<StreamableFile> {
+    const userId = user.id;
+    const calendar = await this.calendarService.exportMealPlan(id, userId);
+
+    return new StreamableFile(Buffer.from(calendar), {
+      type: ICALENDAR_CONTENT_TYPE,
+      disposition: `attachment; filename="meal-plan-${id}.ics"`,
+    });
+  }
+
+  @Post('calendar/subscription')
+  @UseGuards(JwtAuthGuard, ScopesGuard)
+  @RequireScopes(MealPlanScopes.WRITE)
+  @ApiBearerAuth('JWT-Auth')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create calendar subscription',
+    description:
+      'Create a secret subscription URL covering all active meal plans of the authenticated user. Creating a new subscription invalidates the previous URL.',
+    operationId: 'createCalendarSubscription',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Calendar subscription created successfully',
+    type: CalendarFeedResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  async createSubscription(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<CalendarFeedResponseDto> {
+    const userId = user.id;
+    return this.calendarService.createFeed(userId);
+  }
+
+  @Delete('calendar/subscription')
+  @UseGuards(JwtAuthGuard, ScopesGuard)
+  @RequireScopes(MealPlanScopes.WRITE)
+  @ApiBearerAuth('JWT-Auth')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Revoke calendar subscription',
+    description: 'Revoke the calendar subscription URL of the authenticated user',
+    operationId: 'revokeCalendarSubscription',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Calendar subscription revoked successfully',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No calendar subscription found',
+    type: ErrorResponseDto,
+  })
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  async revokeSubscription(@CurrentUser() user: AuthenticatedUser): Promise<void> {
+    const userId = user.id;
+    await this.calendarService.revokeFeed(userId);
+  }
+
+  @Get('calendar/feed/:token.ics')
+  @ApiOperation({
+    summary: 'Calendar subscription feed',
+    description:
+      'iCalendar feed of all active meal plans of the subscription owner. Authenticated by the token in the URL; no Authorization header is needed.',
+    operationId: 'getCalendarFeed',
+    security: [],
+  })
+  @ApiProduces('text/calendar')
+  @ApiParam({
+    name: 'token',
+    description: 'Subscription token',
+    type: String,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'iCalendar document',
+    schema: { type: 'string' },
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Calendar feed not found',
+    type: ErrorResponseDto,
+  })
+  @Throttle({ default: { limit: 30, ttl: 60000 } })
+  async getFeed(@Param('token') token: string): Promise<StreamableFile> {
+    const calendar = await this.calendarService.getFeed(token);
+
+    return new StreamableFile(Buffer.from(calendar), {
+      type: ICALENDAR_CONTENT_TYPE,
+      disposition: 'inline; filename="meal-plans.ics"',
+    });
+  }
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '@/config/database.config';
+import { MealPlanCalendarRepository } from './meal-plan-calendar.repository';
+
+describe('MealPlanCalendarRepository', () => {
+  let repository: MealPlanCalendarRepository;
+  let prisma: {
+    mealPlan: {
+      findUnique: Mock<(...args: unknown[]) => unknown>;
+      findMany: Mock<(...args: unknown[]) => unknown>;
+    };
+    mealPlanCalendarFeed: {
+      upsert: Mock<(...args: unknown[]) => unknown>;
+      findUnique: Mock<(...args: unknown[]) => unknown>;
+      deleteMany: Mock<(...args: unknown[]) => unknown>;
+    };
+  };
+
+  const testUserId = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+  const testTokenHash = 'a'.repeat(64);
+
+  const mockPrismaService = {
+    mealPlan: {
+      findUnique: mock(() => {}),
+      findMany: mock(() => {}),
+    },
+    mealPlanCalendarFeed: {
+      upsert: mock(() => {}),
+      findUnique: mock(() => {}),
+      deleteMany: mock(() => {}),
+    },
+  };
+
+  beforeEach(async () => {
+    mockPrismaService.mealPlan.findUnique.mockReset();
+    mockPrismaService.mealPlan.findMany.mockReset();
+    mockPrismaService.mealPlanCalendarFeed.upsert.mockReset();
+    mockPrismaService.mealPlanCalendarFeed.findUnique.mockReset();
+    mockPrismaService.mealPlanCalendarFeed.deleteMany.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MealPlanCalendarRepository,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    repository = module.get<MealPlanCalendarRepository>(MealPlanCalendarRepository);
+    prisma = module.get(PrismaService);
+  });
+
+  describe('findActiveMealPlansWithRecipes', () => {
+    it('should only load active meal plans of the user with their recipes', async () => {
+      prisma.mealPlan.findMany.mockResolvedValue([] as never);
+
+      await repository.findActiveMealPlansWithRecipes(testUserId);
+
+      expect(prisma.mealPlan.findMany).toHaveBeenCalledWith({
+        where: { userId: testUserId, status: 'ACTIVE' },
+        include: {
+          mealPlanRecipes: {
+            include: {
+              recipe: {
+                select: { recipeId: true, title: true, userId: true },
+              },
+            },
+            orderBy: [{ mealDate: 'asc' }, { mealType: 'asc' }],
+          },
+        },
+        orderBy: { startDate: 'asc' },
+      });
+    });
+  });
+
+  describe('upsertFeed', () => {
+    it('should create the feed or replace its token', async () => {
+      const feed = { userId: testUserId, tokenHash: testTokenHash, createdAt: new Date() };
+      prisma.mealPlanCalendarFeed.upsert.mockResolvedValue(feed as never);
+
+      const result = await repository.upsertFeed(testUserId, testTokenHash);
+
+      expect(result).toEqual(feed);
+      expect(prisma.mealPlanCalendarFeed.upsert).toHaveBeenCalledWith({
+        where: { userId: testUserId },
+        create: { userId: testUserId, tokenHash: testTokenHash },
+        update: { tokenHash: testTokenHash, createdAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('findFeedByTokenHash', () => {
+    it('should look up the feed by token hash', async () => {
+      prisma.mealPlanCalendarFeed.findUnique.mockResolvedValue(null as never);
+
+      const result = await repository.findFeedByTokenHash(testTokenHash);
+
+      expect(result).toBeNull();
+      expect(prisma.mealPlanCalendarFeed.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: testTokenHash },
+      });
+    });
+  });
+
+  describe('deleteFeed', () => {
+    it('should return true when a feed was deleted', async () => {
+      prisma.mealPlanCalendarFeed.deleteMany.mockResolvedValue({ count: 1 } as never);
+
+      expect(await repository.deleteFeed(testUserId)).toBe(true);
+      expect(prisma.mealPlanCalendarFeed.deleteMany).toHaveBeenCalledWith({
+        where: { userId: testUserId },
+      });
+    });
+
+    it('should return false when the user has no feed', async () => {
+      prisma.mealPlanCalendarFeed.deleteMany.mockResolvedValue({ count: 0 } as never);
+
+      expect(await repository.deleteFeed(testUserId)).toBe(false);
+    });
+  });
+});
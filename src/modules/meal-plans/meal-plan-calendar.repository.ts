@@ -0,0 +1,75 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '@/config/database.config';
+import { MealPlanCalendarFeed, MealPlanStatus } from '@generated/prisma/client';
+import { MealPlanWithRecipes } from './meal-plans.repository';
+
+const MEAL_PLAN_RECIPES_INCLUDE = {
+  mealPlanRecipes: {
+    include: {
+      recipe: {
+        select: {
+          recipeId: true,
+          title: true,
+          userId: true,
+        },
+      },
+    },
+    orderBy: [{ mealDate: 'asc' as const }, { mealType: 'asc' as const }],
+  },
+};
+
+@Injectable()
+export class MealPlanCalendarRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Find a meal plan with its scheduled recipes
+   */
+  async findMealPlanWithRecipes(mealPlanId: bigint): Promise<MealPlanWithRecipes | null> {
+    return this.prisma.mealPlan.findUnique({
+      where: { mealPlanId },
+      include: MEAL_PLAN_RECIPES_INCLUDE,
+    });
+  }
+
+  /**
+   * Find all active meal plans of a user with their scheduled recipes
+   */
+  async findActiveMealPlansWithRecipes(userId: string): Promise<MealPlanWithRecipes[]> {
+    return this.prisma.mealPlan.findMany({
+      where: { userId, status: MealPlanStatus.ACTIVE },
+      include: MEAL_PLAN_RECIPES_INCLUDE,
+      orderBy: { startDate: 'asc' },
+    });
+  }
+
+  /**
+   * Create the calendar feed of a user, or replace its token when one exists
+   */
+  async upsertFeed(userId: string, tokenHash: string): Promise<MealPlanCalendarFeed> {
+    return this.prisma.mealPlanCalendarFeed.upsert({
+      where: { userId },
+      create: { userId, tokenHash },
+      update: { tokenHash, createdAt: new Date() },
+    });
+  }
+
+  /**
+   * Find a calendar feed by the hash of its token
+   */
+  async findFeedByTokenHash(tokenHash: string): Promise<MealPlanCalendarFeed | null> {
+    return this.prisma.mealPlanCalendarFeed.findUnique({
+      where: { tokenHash },
+    });
+  }
+
+  /**
+   * Delete the calendar feed of a user. Returns false when the user has none.
+   */
+  async deleteFeed(userId: string): Promise<boolean> {
+    const { count } = await this.prisma.mealPlanCalendarFeed.deleteMany({
+      where: { userId },
+    });
+    return count > 0;
+  }
+}
@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException, ForbiddenException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { MealPlanCalendarService } from './meal-plan-calendar.service';
+import { MealPlanCalendarRepository } from './meal-plan-calendar.repository';
+import { MealPlanCollaboratorsRepository } from './meal-plan-collaborators.repository';
+import { MealPlanPermissionService } from './services/meal-plan-permission.service';
+import { CalendarConfig } from '@/config/configuration';
+
+describe('MealPlanCalendarService', () => {
+  let service: MealPlanCalendarService;
+  let repository: {
+    findMealPlanWithRecipes: Mock<(...args: unknown[]) => unknown>;
+    findActiveMealPlansWithRecipes: Mock<(...args: unknown[]) => unknown>;
+    upsertFeed: Mock<(...args: unknown[]) => unknown>;
+    findFeedByTokenHash: Mock<(...args: unknown[]) => unknown>;
+    deleteFeed: Mock<(...args: unknown[]) => unknown>;
+  };
+
+  const testUserId = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+
+  const calendarConfig: CalendarConfig = {
+    mealHours: { BREAKFAST: 7, LUNCH: 12, DINNER: 19, SNACK: 15, DESSERT: 20 },
+    eventDurationMinutes: 45,
+    feedBaseUrl: 'https://api.example.com/',
+    weekStartDay: 'MONDAY',
+    defaultLocale: 'en-US',
+  };
+
+  const mockRepository = {
+    findMealPlanWithRecipes: mock(() => {}),
+    findActiveMealPlansWithRecipes: mock(() => {}),
+    upsertFeed: mock(() => {}),
+    findFeedByTokenHash: mock(() => {}),
+    deleteFeed: mock(() => {}),
+  };
+
+  const mockCollaboratorsRepository = {
+    findCollaborator: mock(() => {}),
+  };
+
+  const createMealPlan = (mealPlanId: bigint, name: string) => ({
+    mealPlanId,
+    userId: testUserId,
+    name,
+    mealPlanRecipes: [
+      {
+        mealPlanId,
+        recipeId: BigInt(456),
+        mealDate: new Date('2024-03-11'),
+        mealType: 'DINNER',
+        servings: 4,
+        recipe: { recipeId: BigInt(456), title: 'Spaghetti Bolognese', userId: testUserId },
+      },
+      {
+        mealPlanId,
+        recipeId: BigInt(789),
+        mealDate: new Date('2024-03-12'),
+        mealType: 'BREAKFAST',
+        servings: 1,
+        recipe: { recipeId: BigInt(789), title: 'Overnight Oats', userId: testUserId },
+      },
+    ],
+  });
+
+  beforeEach(async () => {
+    mockRepository.findMealPlanWithRecipes.mockReset();
+    mockRepository.findActiveMealPlansWithRecipes.mockReset();
+    mockRepository.upsertFeed.mockReset();
+    mockRepository.findFeedByTokenHash.mockReset();
+    mockRepository.deleteFeed.mockReset();
+    mockCollaboratorsRepository.findCollaborator.mockReset();
+    mockCollaboratorsRepository.findCollaborator.mockResolvedValue(null as never);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MealPlanCalendarService,
+        {
+          provide: MealPlanCalendarRepository,
+          useValue: mockRepository,
+        },
+        MealPlanPermissionService,
+        {
+          provide: MealPlanCollaboratorsRepository,
+          useValue: mockCollaboratorsRepository,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: mock(() => calendarConfig) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MealPlanCalendarService>(MealPlanCalendarService);
+    repository = module.get(MealPlanCalendarRepository);
+  });
+
+  describe('exportMealPlan', () => {
+    it('should emit one event per scheduled recipe at the configured meal hours', async () => {
+      repository.findMealPlanWithRecipes.mockResolvedValue(
+        createMealPlan(BigInt(123), 'Weekly Meal Prep') as never,
+      );
+
+      const calendar = await service.exportMealPlan('123', testUserId);
+
+      expect(repository.findMealPlanWithRecipes).toHaveBeenCalledWith(BigInt(123));
+      expect(calendar).toContain('X-WR-CALNAME:Weekly Meal Prep');
+      expect(calendar.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+      expect(calendar).toContain('UID:123-20240311-DINNER-456@meal-plan-management');
+      expect(calendar).toContain('DTSTART:20240311T190000\r\nDTEND:20240311T194500');
+      expect(calendar).toContain('SUMMARY:Dinner: Spaghetti Bolognese');
+      expect(calendar).toContain('DESCRIPTION:Meal plan: Weekly Meal Prep\\nServings: 4');
+      expect(calendar).toContain('DTSTART:20240312T070000');
+      expect(calendar).toContain('SUMMARY:Breakfast: Overnight Oats');
+    });
+
+    it('should throw NotFoundException when the meal plan does not exist', async () => {
+      repository.findMealPlanWithRecipes.mockResolvedValue(null as never);
+
+      expect(service.exportMealPlan('123', testUserId)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should throw NotFoundException for an invalid meal plan ID', async () => {
+      expect(service.exportMealPlan('invalid', testUserId)).rejects.toThrow(
+        'Invalid meal plan ID: invalid',
+      );
+      expect(repository.findMealPlanWithRecipes).not.toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenException when the user does not own the meal plan', async () => {
+      repository.findMealPlanWithRecipes.mockResolvedValue(
+        createMealPlan(BigInt(123), 'Weekly Meal Prep') as never,
+      );
+
+      expect(service.exportMealPlan('123', 'other-user')).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should export the meal plan for an accepted collaborator', async () => {
+      repository.findMealPlanWithRecipes.mockResolvedValue(
+        createMealPlan(BigInt(123), 'Weekly Meal Prep') as never,
+      );
+      mockCollaboratorsRepository.findCollaborator.mockResolvedValue({
+        role: 'VIEWER',
+        acceptedAt: new Date(),
+      } as never);
+
+      const ics = await service.exportMealPlan('123', 'other-user');
+
+      expect(ics).toContain('BEGIN:VCALENDAR');
+      expect(mockCollaboratorsRepository.findCollaborator).toHaveBeenCalledWith(
+        BigInt(123),
+        'other-user',
+      );
+    });
+
+    it('should export a public meal plan for any user', async () => {
+      repository.findMealPlanWithRecipes.mockResolvedValue({
+        ...createMealPlan(BigInt(123), 'Weekly Meal Prep'),
+        visibility: 'PUBLIC',
+      } as never);
+
+      const ics = await service.exportMealPlan('123', 'other-user');
+
+      expect(ics).toContain('SUMMARY:Dinner: Spaghetti Bolognese');
+      expect(mockCollaboratorsRepository.findCollaborator).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createFeed', () => {
+    it('should store a hash of a new token and return the subscription URL', async () => {
+      const createdAt = new Date('2024-03-01T10:00:00.000Z');
+      repository.upsertFeed.mockResolvedValue({ userId: testUserId, createdAt } as never);
+
+      const result = await service.createFeed(testUserId);
+
+      expect(result.token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(result.url).toBe(
+        `https://api.example.com/api/v1/meal-plan-management/meal-plans/calendar/feed/${result.token}.ics`,
+      );
+      expect(result.createdAt).toEqual(createdAt);
+      expect(repository.upsertFeed).toHaveBeenCalledWith(
+        testUserId,
+        createHash('sha256').update(result.token).digest('hex'),
+      );
+    });
+
+    it('should generate a different token every time', async () => {
+      repository.upsertFeed.mockResolvedValue({
+        userId: testUserId,
+        createdAt: new Date(),
+      } as never);
+
+      const first = await service.createFeed(testUserId);
+      const second = await service.createFeed(testUserId);
+
+      expect(first.token).not.toBe(second.token);
+    });
+  });
+
+  describe('getFeed', () => {
+    it('should include the active meal plans of the feed owner', async () => {
+      repository.findFeedByTokenHash.mockResolvedValue({ userId: testUserId } as never);
+      repository.findActiveMealPlansWithRecipes.mockResolvedValue([
+        createMealPlan(BigInt(123), 'Week 1'),
+        createMealPlan(BigInt(124), 'Week 2'),
+      ] as never);
+
+      const calendar = await service.getFeed('secret-token');
+
+      expect(repository.findFeedByTokenHash).toHaveBeenCalledWith(
+        createHash('sha256').update('secret-token').digest('hex'),
+      );
+      expect(repository.findActiveMealPlansWithRecipes).toHaveBeenCalledWith(testUserId);
+      expect(calendar).toContain('X-WR-CALNAME:Meal Plans');
+      expect(calendar.match(/BEGIN:VEVENT/g)).toHaveLength(4);
+      expect(calendar).toContain('UID:124-20240312-BREAKFAST-789@meal-plan-management');
+    });
+
+    it('should throw NotFoundException for an unknown token', async () => {
+      repository.findFeedByTokenHash.mockResolvedValue(null as never);
+
+      expect(service.getFeed('unknown-token')).rejects.toThrow('Calendar feed not found');
+    });
+  });
+
+  describe('revokeFeed', () => {
+    it('should delete the calendar feed of the user', async () => {
+      repository.deleteFeed.mockResolvedValue(true as never);
+
+      await service.revokeFeed(testUserId);
+
+      expect(repository.deleteFeed).toHaveBeenCalledWith(testUserId);
+    });
+
+    it('should throw NotFoundException when the user has no calendar feed', async () => {
+      repository.deleteFeed.mockResolvedValue(false as never);
+
+      expect(service.revokeFeed(testUserId)).rejects.toThrow(NotFoundException);
+    });
+  });
+});
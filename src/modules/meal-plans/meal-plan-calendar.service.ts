@@ -0,0 +1,128 @@
+import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { plainToInstance } from 'class-transformer';
+import { createHash, randomBytes } from 'crypto';
+import { CalendarConfig } from '@/config/configuration';
+import { MealPlanCalendarRepository } from './meal-plan-calendar.repository';
+import { MealPlanWithRecipes } from './meal-plans.repository';
+import { MealPlanPermissionService } from './services/meal-plan-permission.service';
+import { CalendarFeedResponseDto } from './dto';
+import { CalendarEvent, ICalUtil } from './utils/ical.util';
+
+const FEED_PATH = '/api/v1/meal-plan-management/meal-plans/calendar/feed';
+const UID_DOMAIN = 'meal-plan-management';
+
+const DEFAULT_CALENDAR_CONFIG: CalendarConfig = {
+  mealHours: { BREAKFAST: 8, LUNCH: 12, DINNER: 18, SNACK: 15, DESSERT: 20 },
+  eventDurationMinutes: 60,
+  weekStartDay: 'MONDAY',
+  defaultLocale: 'en-US',
+};
+
+@Injectable()
+export class MealPlanCalendarService {
+  private readonly config: CalendarConfig;
+
+  constructor(
+    private readonly repository: MealPlanCalendarRepository,
+    private readonly permissionService: MealPlanPermissionService,
+    configService: ConfigService,
+  ) {
+    this.config = configService.get<CalendarConfig>('calendar') ?? DEFAULT_CALENDAR_CONFIG;
+  }
+
+  /**
+   * Export a single meal plan as an iCalendar document
+   */
+  async exportMealPlan(id: string, userId: string): Promise<string> {
+    const mealPlan = await this.repository.findMealPlanWithRecipes(this.parseMealPlanId(id));
+    if (!mealPlan) {
+      throw new NotFoundException(`Meal plan with ID ${id} not found`);
+    }
+
+    const canView = await this.permissionService.canView(mealPlan, userId);
+    if (!canView) {
+      throw new ForbiddenException(`Access denied to meal plan ${id} for user ${userId}`);
+    }
+
+    return ICalUtil.buildCalendar(mealPlan.name, this.toEvents(mealPlan));
+  }
+
+  /**
+   * Build the subscription feed covering all active meal plans of the feed owner
+   */
+  async getFeed(token: string): Promise<string> {
+    const feed = await this.repository.findFeedByTokenHash(this.hashToken(token));
+    if (!feed) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    const mealPlans = await this.repository.findActiveMealPlansWithRecipes(feed.userId);
+    return ICalUtil.buildCalendar(
+      'Meal Plans',
+      mealPlans.flatMap((mealPlan) => this.toEvents(mealPlan)),
+    );
+  }
+
+  /**
+   * Create a calendar subscription for a user. Any previous token stops
+   * working, so a leaked subscription URL can be replaced.
+   */
+  async createFeed(userId: string): Promise<CalendarFeedResponseDto> {
+    const token = randomBytes(32).toString('base64url');
+    const feed = await this.repository.upsertFeed(userId, this.hashToken(token));
+
+    return plainToInstance(
+      CalendarFeedResponseDto,
+      {
+        token,
+        url: `${this.config.feedBaseUrl?.replace(/\/+$/, '') ?? ''}${FEED_PATH}/${token}.ics`,
+        createdAt: feed.createdAt,
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  /**
+   * Revoke the calendar subscription of a user
+   */
+  async revokeFeed(userId: string): Promise<void> {
+    const deleted = await this.repository.deleteFeed(userId);
+    if (!deleted) {
+      throw new NotFoundException('No calendar subscription found');
+    }
+  }
+
+  /**
+   * One event per scheduled recipe, starting at the configured hour for its meal type
+   */
+  private toEvents(mealPlan: MealPlanWithRecipes): CalendarEvent[] {
+    return mealPlan.mealPlanRecipes.map((slot) => {
+      const start = new Date(slot.mealDate);
+      start.setUTCHours(this.config.mealHours[slot.mealType], 0, 0, 0);
+      const end = new Date(start.getTime() + this.config.eventDurationMinutes * 60 * 1000);
+      const mealType = slot.mealType.charAt(0) + slot.mealType.slice(1).toLowerCase();
+      const date = slot.mealDate.toISOString().split('T')[0]!.replace(/-/g, '');
+
+      return {
+        uid: `${mealPlan.mealPlanId}-${date}-${slot.mealType}-${slot.recipeId}@${UID_DOMAIN}`,
+        start,
+        end,
+        summary: `${mealType}: ${slot.recipe.title}`,
+        description: `Meal plan: ${mealPlan.name}\nServings: ${slot.servings}`,
+      };
+    });
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private parseMealPlanId(id: string): bigint {
+    try {
+      return BigInt(id);
+    } catch {
+      throw new NotFoundException(`Invalid meal plan ID: ${id}`);
+    }
+  }
+}
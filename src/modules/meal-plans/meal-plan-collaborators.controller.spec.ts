@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { MealPlanCollaboratorsController } from './meal-plan-collaborators.controller';
+import { MealPlanCollaboratorsService } from './meal-plan-collaborators.service';
+import { MealPlanRole } from './dto';
+import { ScopesGuard } from '@/modules/auth/guards/scopes.guard';
+import { MealPlanScopes } from '@/modules/auth/constants/oauth2-scopes.constant';
+import type { AuthenticatedUser } from '@/modules/auth/interfaces/jwt-payload.interface';
+
+describe('MealPlanCollaboratorsController', () => {
+  let controller: MealPlanCollaboratorsController;
+  let service: {
+    listInvitations: Mock<(...args: unknown[]) => unknown>;
+    listCollaborators: Mock<(...args: unknown[]) => unknown>;
+    inviteCollaborator: Mock<(...args: unknown[]) => unknown>;
+    acceptInvitation: Mock<(...args: unknown[]) => unknown>;
+    updateCollaboratorRole: Mock<(...args: unknown[]) => unknown>;
+    removeCollaborator: Mock<(...args: unknown[]) => unknown>;
+  };
+
+  const testUserId = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+  const collaboratorId = 'b1ffcd88-8d1a-4ef8-bb6d-6bb9bd380a22';
+
+  const mockUser: AuthenticatedUser = {
+    id: testUserId,
+    sub: testUserId,
+    clientId: 'test-client',
+    scopes: ['read', 'write'],
+    exp: Date.now() + 3600000,
+  };
+
+  const mockService = {
+    listInvitations: mock(() => {}),
+    listCollaborators: mock(() => {}),
+    inviteCollaborator: mock(() => {}),
+    acceptInvitation: mock(() => {}),
+    updateCollaboratorRole: mock(() => {}),
+    removeCollaborator: mock(() => {}),
+  };
+
+  const collaboratorResponse = {
+    mealPlanId: '123',
+    userId: collaboratorId,
+    role: MealPlanRole.EDITOR,
+    invitedBy: testUserId,
+    invitedAt: new Date(),
+    acceptedAt: null,
+  };
+
+  beforeEach(async () => {
+    mockService.listInvitations.mockReset();
+    mockService.listCollaborators.mockReset();
+    mockService.inviteCollaborator.mockReset();
+    mockService.acceptInvitation.mockReset();
+    mockService.updateCollaboratorRole.mockReset();
+    mockService.removeCollaborator.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [MealPlanCollaboratorsController],
+      providers: [
+        // Required by ScopesGuard
+        { provide: ConfigService, useValue: { get: mock(() => undefined) } },
+        {
+          provide: MealPlanCollaboratorsService,
+          useValue: mockService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<MealPlanCollaboratorsController>(MealPlanCollaboratorsController);
+    service = module.get(MealPlanCollaboratorsService);
+  });
+
+  describe('listInvitations', () => {
+    it('should list the pending invitations of the authenticated user', async () => {
+      const response = { success: true, data: [] };
+      service.listInvitations.mockResolvedValue(response as never);
+
+      const result = await controller.listInvitations(mockUser);
+
+      expect(result).toEqual(response);
+      expect(service.listInvitations).toHaveBeenCalledWith(testUserId);
+    });
+  });
+
+  describe('listCollaborators', () => {
+    it('should list the collaborators of the meal plan', async () => {
+      const response = { success: true, data: [collaboratorResponse] };
+      service.listCollaborators.mockResolvedValue(response as never);
+
+      const result = await controller.listCollaborators('123', mockUser);
+
+      expect(result).toEqual(response);
+      expect(service.listCollaborators).toHaveBeenCalledWith('123', testUserId);
+    });
+  });
+
+  describe('inviteCollaborator', () => {
+    it('should invite the user on behalf of the authenticated user', async () => {
+      const inviteDto = { userId: collaboratorId, role: MealPlanRole.EDITOR };
+      service.inviteCollaborator.mockResolvedValue(collaboratorResponse as never);
+
+      const result = await controller.inviteCollaborator('123', inviteDto, mockUser);
+
+      expect(result).toEqual(collaboratorResponse);
+      expect(service.inviteCollaborator).toHaveBeenCalledWith('123', inviteDto, testUserId);
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should accept the invitation of the authenticated user', async () => {
+      service.acceptInvitation.mockResolvedValue(collaboratorResponse as never);
+
+      const result = await controller.acceptInvitation('123', mockUser);
+
+      expect(result).toEqual(collaboratorResponse);
+      expect(service.acceptInvitation).toHaveBeenCalledWith('123', testUserId);
+    });
+  });
+
+  describe('updateCollaborator', () => {
+    it('should change the role of the collaborator', async () => {
+      const updateDto = { role: MealPlanRole.VIEWER };
+      service.updateCollaboratorRole.mockResolvedValue(collaboratorResponse as never);
+
+      const result = await controller.updateCollaborator(
+        '123',
+        collaboratorId,
+        updateDto,
+        mockUser,
+      );
+
+      expect(result).toEqual(collaboratorResponse);
+      expect(service.updateCollaboratorRole).toHaveBeenCalledWith(
+        '123',
+        collaboratorId,
+        updateDto,
+        testUserId,
+      );
+    });
+  });
+
+  describe('removeCollaborator', () => {
+    it('should remove the collaborator', async () => {
+      service.removeCollaborator.mockResolvedValue(undefined as never);
+
+      const result = await controller.removeCollaborator('123', collaboratorId, mockUser);
+
+      expect(result).toBeUndefined();
+      expect(service.removeCollaborator).toHaveBeenCalledWith('123', collaboratorId, testUserId);
+    });
+  });
+
+  describe('scopes', () => {
+    const guard = new ScopesGuard(
+      new Reflector(),
+      new ConfigService({ oauth2: { enabled: true } }),
+    );
+    const readOnlyUser: AuthenticatedUser = { ...mockUser, scopes: [MealPlanScopes.READ] };
+    const prototype = MealPlanCollaboratorsController.prototype;
+
+    const createContext = (handler: (...args: never[]) => unknown): ExecutionContext =>
+      ({
+        switchToHttp: () => ({ getRequest: () => ({ user: readOnlyUser }) }),
+        getHandler: () => handler,
+        getClass: () => MealPlanCollaboratorsController,
+      }) as unknown as ExecutionContext;
+
+    it('should reject read-only tokens on write routes', () => {
+      for (const handler of [
+        prototype.inviteCollaborator,
+        prototype.acceptInvitation,
+        prototype.updateCollaborator,
+        prototype.removeCollaborator,
+      ]) {
+        expect(() => guard.canActivate(createContext(handler))).toThrow(ForbiddenException);
+      }
+    });
+
+    it('should accept read-only tokens on read routes', () => {
+      for (const handler of [prototype.listInvitations, prototype.listCollaborators]) {
+        expect(guard.canActivate(createContext(handler))).toBe(true);
+      }
+    });
+  });
+});
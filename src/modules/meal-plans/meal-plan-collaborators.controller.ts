@@ -0,0 +1,327 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseInterceptors,
+  ClassSerializerInterceptor,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiBody,
+} from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { MealPlanCollaboratorsService } from './meal-plan-collaborators.service';
+import {
+  InviteMealPlanCollaboratorDto,
+  UpdateMealPlanCollaboratorDto,
+  MealPlanCollaboratorResponseDto,
+  MealPlanCollaboratorsApiResponseDto,
+  MealPlanInvitationsApiResponseDto,
+  ErrorResponseDto,
+} from './dto';
+
+import { JwtAuthGuard } from '@/modules/auth/guards/jwt-auth.guard';
+import { ScopesGuard } from '@/modules/auth/guards/scopes.guard';
+import { RequireScopes } from '@/modules/auth/decorators/require-scopes.decorator';
+import { MealPlanScopes } from '@/modules/auth/constants/oauth2-scopes.constant';
+import { CurrentUser } from '@/modules/auth/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '@/modules/auth/interfaces/jwt-payload.interface';
+
+@ApiTags('collaborators')
+@Controller('meal-plan-management/meal-plans')
+@ApiBearerAuth('JWT-Auth')
+@UseInterceptors(ClassSerializerInterceptor)
+@UseGuards(JwtAuthGuard, ScopesGuard)
+@Throttle({ default: { limit: 100, ttl: 60000 } })
+export class MealPlanCollaboratorsController {
+  constructor(private readonly collaboratorsService: MealPlanCollaboratorsService) {}
+
+  @Get('collaborators/invitations')
+  @RequireScopes(MealPlanScopes.READ)
+  @ApiOperation({
+    summary: 'List my pending invitations',
+    description: 'Retrieve the meal plan invitations the authenticated user has not accepted yet',
+    operationId: 'listMealPlanInvitations',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Pending invitations retrieved successfully',
+    type: MealPlanInvitationsApiResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  async listInvitations(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MealPlanInvitationsApiResponseDto> {
+    const userId = user.id;
+    return this.collaboratorsService.listInvitations(userId);
+  }
+
+  @Get(':id/collaborators')
+  @RequireScopes(MealPlanScopes.READ)
+  @ApiOperation({
+    summary: 'List meal plan collaborators',
+    description:
+      'Retrieve the collaborators and pending invitations of a meal plan. Available to everyone with access to the meal plan.',
+    operationId: 'listMealPlanCollaborators',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Meal plan ID',
+    type: String,
+    example: '123',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Collaborators retrieved successfully',
+    type: MealPlanCollaboratorsApiResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - user does not have access to this meal plan',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Meal plan not found',
+    type: ErrorResponseDto,
+  })
+  async listCollaborators(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MealPlanCollaboratorsApiResponseDto> {
+    const userId = user.id;
+    return this.collaboratorsService.listCollaborators(id, userId);
+  }
+
+  @Post(':id/collaborators')
+  @RequireScopes(MealPlanScopes.WRITE)
+  @HttpCode(HttpStatus.CREATED)
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @ApiOperation({
+    summary: 'Invite a collaborator',
+    description:
+      'Invite a user to a meal plan as viewer, editor or owner. The role takes effect once the user accepts the invitation. Requires the owner role.',
+    operationId: 'inviteMealPlanCollaborator',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Meal plan ID',
+    type: String,
+    example: '123',
+  })
+  @ApiBody({
+    type: InviteMealPlanCollaboratorDto,
+    description: 'User to invite and the role to grant',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Invitation created successfully',
+    type: MealPlanCollaboratorResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error or the owner was invited',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - user is not an owner of this meal plan',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Meal plan or user not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - user has already been invited',
+    type: ErrorResponseDto,
+  })
+  async inviteCollaborator(
+    @Param('id') id: string,
+    @Body() inviteDto: InviteMealPlanCollaboratorDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MealPlanCollaboratorResponseDto> {
+    const userId = user.id;
+    return this.collaboratorsService.inviteCollaborator(id, inviteDto, userId);
+  }
+
+  @Post(':id/collaborators/accept')
+  @RequireScopes(MealPlanScopes.WRITE)
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @ApiOperation({
+    summary: 'Accept an invitation',
+    description: 'Accept the invitation of the authenticated user to collaborate on a meal plan',
+    operationId: 'acceptMealPlanInvitation',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Meal plan ID',
+    type: String,
+    example: '123',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Invitation accepted successfully',
+    type: MealPlanCollaboratorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Meal plan or invitation not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - invitation has already been accepted',
+    type: ErrorResponseDto,
+  })
+  async acceptInvitation(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MealPlanCollaboratorResponseDto> {
+    const userId = user.id;
+    return this.collaboratorsService.acceptInvitation(id, userId);
+  }
+
+  @Patch(':id/collaborators/:userId')
+  @RequireScopes(MealPlanScopes.WRITE)
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @ApiOperation({
+    summary: 'Change a collaborator role',
+    description:
+      'Change the role of a collaborator or pending invitation. Requires the owner role.',
+    operationId: 'updateMealPlanCollaborator',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Meal plan ID',
+    type: String,
+    example: '123',
+  })
+  @ApiParam({
+    name: 'userId',
+    description: 'User ID of the collaborator',
+    type: String,
+    example: '123e4567-e89b-12d3-a456-426614174003',
+  })
+  @ApiBody({
+    type: UpdateMealPlanCollaboratorDto,
+    description: 'New role',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Collaborator role updated successfully',
+    type: MealPlanCollaboratorResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - user is not an owner of this meal plan',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Meal plan or collaborator not found',
+    type: ErrorResponseDto,
+  })
+  async updateCollaborator(
+    @Param('id') id: string,
+    @Param('userId') collaboratorId: string,
+    @Body() updateDto: UpdateMealPlanCollaboratorDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MealPlanCollaboratorResponseDto> {
+    const userId = user.id;
+    return this.collaboratorsService.updateCollaboratorRole(id, collaboratorId, updateDto, userId);
+  }
+
+  @Delete(':id/collaborators/:userId')
+  @RequireScopes(MealPlanScopes.WRITE)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @ApiOperation({
+    summary: 'Remove a collaborator',
+    description:
+      'Remove a collaborator or withdraw an invitation. Requires the owner role, except when users remove themselves to leave a meal plan or decline an invitation.',
+    operationId: 'removeMealPlanCollaborator',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Meal plan ID',
+    type: String,
+    example: '123',
+  })
+  @ApiParam({
+    name: 'userId',
+    description: 'User ID of the collaborator',
+    type: String,
+    example: '123e4567-e89b-12d3-a456-426614174003',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Collaborator removed successfully',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - user is not an owner of this meal plan',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Meal plan or collaborator not found',
+    type: ErrorResponseDto,
+  })
+  async removeCollaborator(
+    @Param('id') id: string,
+    @Param('userId') collaboratorId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    const userId = user.id;
+    await this.collaboratorsService.removeCollaborator(id, collaboratorId, userId);
+  }
+}
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '@/config/database.config';
+import { MealPlanRole } from '@generated/prisma/client';
+import { MealPlanCollaboratorsRepository } from './meal-plan-collaborators.repository';
+
+describe('MealPlanCollaboratorsRepository', () => {
+  let repository: MealPlanCollaboratorsRepository;
+  let prisma: {
+    mealPlanCollaborator: {
+      findUnique: Mock<(...args: unknown[]) => unknown>;
+      findMany: Mock<(...args: unknown[]) => unknown>;
+      create: Mock<(...args: unknown[]) => unknown>;
+      update: Mock<(...args: unknown[]) => unknown>;
+      delete: Mock<(...args: unknown[]) => unknown>;
+    };
+    user: {
+      count: Mock<(...args: unknown[]) => unknown>;
+    };
+  };
+
+  const ownerId = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+  const collaboratorId = 'b1ffcd88-8d1a-4ef8-bb6d-6bb9bd380a22';
+  const compositeKey = {
+    mealPlanId_userId: {
+      mealPlanId: BigInt(123),
+      userId: collaboratorId,
+    },
+  };
+
+  const mockPrismaService = {
+    mealPlanCollaborator: {
+      findUnique: mock(() => {}),
+      findMany: mock(() => {}),
+      create: mock(() => {}),
+      update: mock(() => {}),
+      delete: mock(() => {}),
+    },
+    user: {
+      count: mock(() => {}),
+    },
+  };
+
+  beforeEach(async () => {
+    mockPrismaService.mealPlanCollaborator.findUnique.mockReset();
+    mockPrismaService.mealPlanCollaborator.findMany.mockReset();
+    mockPrismaService.mealPlanCollaborator.create.mockReset();
+    mockPrismaService.mealPlanCollaborator.update.mockReset();
+    mockPrismaService.mealPlanCollaborator.delete.mockReset();
+    mockPrismaService.user.count.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MealPlanCollaboratorsRepository,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    repository = module.get<MealPlanCollaboratorsRepository>(MealPlanCollaboratorsRepository);
+    prisma = module.get(PrismaService);
+  });
+
+  describe('findCollaborator', () => {
+    it('should look up the collaborator by its composite key', async () => {
+      prisma.mealPlanCollaborator.findUnique.mockResolvedValue(null as never);
+
+      const result = await repository.findCollaborator(BigInt(123), collaboratorId);
+
+      expect(result).toBeNull();
+      expect(prisma.mealPlanCollaborator.findUnique).toHaveBeenCalledWith({ where: compositeKey });
+    });
+  });
+
+  describe('findByMealPlan', () => {
+    it('should return the collaborators in invitation order', async () => {
+      prisma.mealPlanCollaborator.findMany.mockResolvedValue([] as never);
+
+      await repository.findByMealPlan(BigInt(123));
+
+      expect(prisma.mealPlanCollaborator.findMany).toHaveBeenCalledWith({
+        where: { mealPlanId: BigInt(123) },
+        orderBy: { invitedAt: 'asc' },
+      });
+    });
+  });
+
+  describe('findPendingInvitations', () => {
+    it('should only return unaccepted invitations with their meal plan', async () => {
+      prisma.mealPlanCollaborator.findMany.mockResolvedValue([] as never);
+
+      await repository.findPendingInvitations(collaboratorId);
+
+      expect(prisma.mealPlanCollaborator.findMany).toHaveBeenCalledWith({
+        where: { userId: collaboratorId, acceptedAt: null },
+        orderBy: { invitedAt: 'desc' },
+        include: {
+          mealPlan: {
+            select: { mealPlanId: true, name: true, userId: true },
+          },
+        },
+      });
+    });
+  });
+
+  describe('create', () => {
+    it('should create a pending invitation', async () => {
+      const data = {
+        mealPlanId: BigInt(123),
+        userId: collaboratorId,
+        role: MealPlanRole.EDITOR,
+        invitedBy: ownerId,
+      };
+      prisma.mealPlanCollaborator.create.mockResolvedValue({ ...data, acceptedAt: null } as never);
+
+      const result = await repository.create(data);
+
+      expect(result.acceptedAt).toBeNull();
+      expect(prisma.mealPlanCollaborator.create).toHaveBeenCalledWith({ data });
+    });
+  });
+
+  describe('updateRole', () => {
+    it('should update the role of the collaborator', async () => {
+      prisma.mealPlanCollaborator.update.mockResolvedValue({} as never);
+
+      await repository.updateRole(BigInt(123), collaboratorId, MealPlanRole.VIEWER);
+
+      expect(prisma.mealPlanCollaborator.update).toHaveBeenCalledWith({
+        where: compositeKey,
+        data: { role: MealPlanRole.VIEWER },
+      });
+    });
+  });
+
+  describe('accept', () => {
+    it('should record when the invitation was accepted', async () => {
+      prisma.mealPlanCollaborator.update.mockResolvedValue({} as never);
+
+      await repository.accept(BigInt(123), collaboratorId);
+
+      expect(prisma.mealPlanCollaborator.update).toHaveBeenCalledWith({
+        where: compositeKey,
+        data: { acceptedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete the collaborator', async () => {
+      prisma.mealPlanCollaborator.delete.mockResolvedValue({} as never);
+
+      await repository.delete(BigInt(123), collaboratorId);
+
+      expect(prisma.mealPlanCollaborator.delete).toHaveBeenCalledWith({ where: compositeKey });
+    });
+  });
+
+  describe('userExists', () => {
+    it('should return true when the user exists', async () => {
+      prisma.user.count.mockResolvedValue(1 as never);
+
+      expect(await repository.userExists(collaboratorId)).toBe(true);
+      expect(prisma.user.count).toHaveBeenCalledWith({ where: { userId: collaboratorId } });
+    });
+
+    it('should return false when the user does not exist', async () => {
+      prisma.user.count.mockResolvedValue(0 as never);
+
+      expect(await repository.userExists(collaboratorId)).toBe(false);
+    });
+  });
+});
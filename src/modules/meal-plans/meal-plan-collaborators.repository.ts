@@ -0,0 +1,130 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '@/config/database.config';
+import { MealPlan, MealPlanCollaborator, MealPlanRole } from '@generated/prisma/client';
+
+export interface MealPlanInvitation extends MealPlanCollaborator {
+  mealPlan: Pick<MealPlan, 'mealPlanId' | 'name' | 'userId'>;
+}
+
+export interface CreateCollaboratorData {
+  mealPlanId: bigint;
+  userId: string;
+  role: MealPlanRole;
+  invitedBy: string;
+}
+
+@Injectable()
+export class MealPlanCollaboratorsRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Find the collaborator record of a user on a meal plan, whether accepted or pending
+   */
+  async findCollaborator(mealPlanId: bigint, userId: string): Promise<MealPlanCollaborator | null> {
+    return this.prisma.mealPlanCollaborator.findUnique({
+      where: {
+        mealPlanId_userId: {
+          mealPlanId,
+          userId,
+        },
+      },
+    });
+  }
+
+  /**
+   * Find all collaborators of a meal plan in invitation order
+   */
+  async findByMealPlan(mealPlanId: bigint): Promise<MealPlanCollaborator[]> {
+    return this.prisma.mealPlanCollaborator.findMany({
+      where: { mealPlanId },
+      orderBy: { invitedAt: 'asc' },
+    });
+  }
+
+  /**
+   * Find the invitations a user has not accepted yet, newest first
+   */
+  async findPendingInvitations(userId: string): Promise<MealPlanInvitation[]> {
+    return this.prisma.mealPlanCollaborator.findMany({
+      where: { userId, acceptedAt: null },
+      orderBy: { invitedAt: 'desc' },
+      include: {
+        mealPlan: {
+          select: { mealPlanId: true, name: true, userId: true },
+        },
+      },
+    });
+  }
+
+  /**
+   * Create a pending invitation
+   */
+  async create(data: CreateCollaboratorData): Promise<MealPlanCollaborator> {
+    return this.prisma.mealPlanCollaborator.create({
+      data: {
+        mealPlanId: data.mealPlanId,
+        userId: data.userId,
+        role: data.role,
+        invitedBy: data.invitedBy,
+      },
+    });
+  }
+
+  /**
+   * Change the role of a collaborator
+   */
+  async updateRole(
+    mealPlanId: bigint,
+    userId: string,
+    role: MealPlanRole,
+  ): Promise<MealPlanCollaborator> {
+    return this.prisma.mealPlanCollaborator.update({
+      where: {
+        mealPlanId_userId: {
+          mealPlanId,
+          userId,
+        },
+      },
+      data: { role },
+    });
+  }
+
+  /**
+   * Mark an invitation as accepted
+   */
+  async accept(mealPlanId: bigint, userId: string): Promise<MealPlanCollaborator> {
+    return this.prisma.mealPlanCollaborator.update({
+      where: {
+        mealPlanId_userId: {
+          mealPlanId,
+          userId,
+        },
+      },
+      data: { acceptedAt: new Date() },
+    });
+  }
+
+  /**
+   * Remove a collaborator or pending invitation
+   */
+  async delete(mealPlanId: bigint, userId: string): Promise<void> {
+    await this.prisma.mealPlanCollaborator.delete({
+      where: {
+        mealPlanId_userId: {
+          mealPlanId,
+          userId,
+        },
+      },
+    });
+  }
+
+  /**
+   * Check if a user exists
+   */
+  async userExists(userId: string): Promise<boolean> {
+    const count = await this.prisma.user.count({
+      where: { userId },
+    });
+    return count > 0;
+  }
+}
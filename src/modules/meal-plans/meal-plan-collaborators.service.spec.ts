@@ -0,0 +1,339 @@
+import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { MealPlanCollaboratorsService } from './meal-plan-collaborators.service';
+import { MealPlanCollaboratorsRepository } from './meal-plan-collaborators.repository';
+import { MealPlansRepository } from './meal-plans.repository';
+import { MealPlanPermissionService } from './services/meal-plan-permission.service';
+import { MealPlanRole } from './dto';
+
+describe('MealPlanCollaboratorsService', () => {
+  let service: MealPlanCollaboratorsService;
+  let repository: {
+    findCollaborator: Mock<(...args: unknown[]) => unknown>;
+    findByMealPlan: Mock<(...args: unknown[]) => unknown>;
+    findPendingInvitations: Mock<(...args: unknown[]) => unknown>;
+    create: Mock<(...args: unknown[]) => unknown>;
+    updateRole: Mock<(...args: unknown[]) => unknown>;
+    accept: Mock<(...args: unknown[]) => unknown>;
+    delete: Mock<(...args: unknown[]) => unknown>;
+    userExists: Mock<(...args: unknown[]) => unknown>;
+  };
+  let mealPlansRepository: {
+    findById: Mock<(...args: unknown[]) => unknown>;
+  };
+
+  const ownerId = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+  const inviteeId = 'b1ffcd88-8d1a-4ef8-bb6d-6bb9bd380a22';
+  const outsiderId = 'c2aade77-7e2b-4ef8-bb6d-6bb9bd380a33';
+
+  const mockRepository = {
+    findCollaborator: mock(() => {}),
+    findByMealPlan: mock(() => {}),
+    findPendingInvitations: mock(() => {}),
+    create: mock(() => {}),
+    updateRole: mock(() => {}),
+    accept: mock(() => {}),
+    delete: mock(() => {}),
+    userExists: mock(() => {}),
+  };
+
+  const mockMealPlansRepository = {
+    findById: mock(() => {}),
+  };
+
+  const mealPlan = {
+    mealPlanId: BigInt(123),
+    userId: ownerId,
+    name: 'Family Dinners',
+  };
+
+  const collaborator = (
+    userId: string,
+    role: MealPlanRole,
+    acceptedAt: Date | null = new Date('2024-03-02'),
+  ) => ({
+    mealPlanId: BigInt(123),
+    userId,
+    role,
+    invitedBy: ownerId,
+    invitedAt: new Date('2024-03-01'),
+    acceptedAt,
+  });
+
+  beforeEach(async () => {
+    mockRepository.findCollaborator.mockReset();
+    mockRepository.findByMealPlan.mockReset();
+    mockRepository.findPendingInvitations.mockReset();
+    mockRepository.create.mockReset();
+    mockRepository.updateRole.mockReset();
+    mockRepository.accept.mockReset();
+    mockRepository.delete.mockReset();
+    mockRepository.userExists.mockReset();
+    mockMealPlansRepository.findById.mockReset();
+
+    mockMealPlansRepository.findById.mockResolvedValue(mealPlan as never);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MealPlanCollaboratorsService,
+        MealPlanPermissionService,
+        {
+          provide: MealPlanCollaboratorsRepository,
+          useValue: mockRepository,
+        },
+        {
+          provide: MealPlansRepository,
+          useValue: mockMealPlansRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<MealPlanCollaboratorsService>(MealPlanCollaboratorsService);
+    repository = module.get(MealPlanCollaboratorsRepository);
+    mealPlansRepository = module.get(MealPlansRepository);
+  });
+
+  describe('listCollaborators', () => {
+    it('should list the collaborators for the owner', async () => {
+      repository.findByMealPlan.mockResolvedValue([
+        collaborator(inviteeId, MealPlanRole.EDITOR),
+      ] as never);
+
+      const result = await service.listCollaborators('123', ownerId);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toHaveLength(1);
+      expect(result.data[0]?.mealPlanId).toBe('123');
+      expect(result.data[0]?.role).toBe(MealPlanRole.EDITOR);
+      expect(repository.findByMealPlan).toHaveBeenCalledWith(BigInt(123));
+    });
+
+    it('should let an accepted viewer see the collaborators', async () => {
+      repository.findCollaborator.mockResolvedValue(
+        collaborator(inviteeId, MealPlanRole.VIEWER) as never,
+      );
+      repository.findByMealPlan.mockResolvedValue([] as never);
+
+      const result = await service.listCollaborators('123', inviteeId);
+
+      expect(result.data).toEqual([]);
+    });
+
+    it('should throw ForbiddenException for a user without access', async () => {
+      repository.findCollaborator.mockResolvedValue(null as never);
+
+      expect(service.listCollaborators('123', outsiderId)).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should throw NotFoundException when the meal plan does not exist', async () => {
+      mealPlansRepository.findById.mockResolvedValue(null as never);
+
+      expect(service.listCollaborators('123', ownerId)).rejects.toThrow(
+        'Meal plan with ID 123 not found',
+      );
+    });
+
+    it('should throw NotFoundException for an invalid meal plan ID', async () => {
+      expect(service.listCollaborators('invalid', ownerId)).rejects.toThrow(
+        'Invalid meal plan ID: invalid',
+      );
+    });
+  });
+
+  describe('inviteCollaborator', () => {
+    const inviteDto = { userId: inviteeId, role: MealPlanRole.EDITOR };
+
+    it('should create a pending invitation', async () => {
+      repository.userExists.mockResolvedValue(true as never);
+      repository.findCollaborator.mockResolvedValue(null as never);
+      repository.create.mockResolvedValue(
+        collaborator(inviteeId, MealPlanRole.EDITOR, null) as never,
+      );
+
+      const result = await service.inviteCollaborator('123', inviteDto, ownerId);
+
+      expect(result.userId).toBe(inviteeId);
+      expect(result.acceptedAt).toBeNull();
+      expect(repository.create).toHaveBeenCalledWith({
+        mealPlanId: BigInt(123),
+        userId: inviteeId,
+        role: MealPlanRole.EDITOR,
+        invitedBy: ownerId,
+      });
+    });
+
+    it('should throw ForbiddenException when an editor invites', async () => {
+      repository.findCollaborator.mockResolvedValue(
+        collaborator(outsiderId, MealPlanRole.EDITOR) as never,
+      );
+
+      expect(service.inviteCollaborator('123', inviteDto, outsiderId)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should throw BadRequestException when the owner invites themselves', async () => {
+      expect(
+        service.inviteCollaborator('123', { ...inviteDto, userId: ownerId }, ownerId),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException when the invited user does not exist', async () => {
+      repository.userExists.mockResolvedValue(false as never);
+
+      expect(service.inviteCollaborator('123', inviteDto, ownerId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should throw ConflictException when the user has already been invited', async () => {
+      repository.userExists.mockResolvedValue(true as never);
+      repository.findCollaborator.mockResolvedValue(
+        collaborator(inviteeId, MealPlanRole.VIEWER, null) as never,
+      );
+
+      expect(service.inviteCollaborator('123', inviteDto, ownerId)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('updateCollaboratorRole', () => {
+    it('should change the role of a collaborator', async () => {
+      repository.findCollaborator.mockResolvedValue(
+        collaborator(inviteeId, MealPlanRole.VIEWER) as never,
+      );
+      repository.updateRole.mockResolvedValue(
+        collaborator(inviteeId, MealPlanRole.EDITOR) as never,
+      );
+
+      const result = await service.updateCollaboratorRole(
+        '123',
+        inviteeId,
+        { role: MealPlanRole.EDITOR },
+        ownerId,
+      );
+
+      expect(result.role).toBe(MealPlanRole.EDITOR);
+      expect(repository.updateRole).toHaveBeenCalledWith(
+        BigInt(123),
+        inviteeId,
+        MealPlanRole.EDITOR,
+      );
+    });
+
+    it('should throw NotFoundException when the user is not a collaborator', async () => {
+      repository.findCollaborator.mockResolvedValue(null as never);
+
+      expect(
+        service.updateCollaboratorRole('123', inviteeId, { role: MealPlanRole.EDITOR }, ownerId),
+      ).rejects.toThrow(`User ${inviteeId} is not a collaborator on meal plan 123`);
+    });
+
+    it('should throw ForbiddenException for a collaborator changing their own role', async () => {
+      repository.findCollaborator.mockResolvedValue(
+        collaborator(inviteeId, MealPlanRole.EDITOR) as never,
+      );
+
+      expect(
+        service.updateCollaboratorRole('123', inviteeId, { role: MealPlanRole.OWNER }, inviteeId),
+      ).rejects.toThrow(ForbiddenException);
+      expect(repository.updateRole).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeCollaborator', () => {
+    it('should let the owner remove a collaborator', async () => {
+      repository.findCollaborator.mockResolvedValue(
+        collaborator(inviteeId, MealPlanRole.EDITOR) as never,
+      );
+
+      await service.removeCollaborator('123', inviteeId, ownerId);
+
+      expect(repository.delete).toHaveBeenCalledWith(BigInt(123), inviteeId);
+    });
+
+    it('should let a collaborator leave the meal plan', async () => {
+      repository.findCollaborator.mockResolvedValue(
+        collaborator(inviteeId, MealPlanRole.VIEWER, null) as never,
+      );
+
+      await service.removeCollaborator('123', inviteeId, inviteeId);
+
+      expect(repository.delete).toHaveBeenCalledWith(BigInt(123), inviteeId);
+    });
+
+    it('should throw ForbiddenException when an editor removes someone else', async () => {
+      repository.findCollaborator.mockResolvedValue(
+        collaborator(outsiderId, MealPlanRole.EDITOR) as never,
+      );
+
+      expect(service.removeCollaborator('123', inviteeId, outsiderId)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should throw NotFoundException when the user is not a collaborator', async () => {
+      repository.findCollaborator.mockResolvedValue(null as never);
+
+      expect(service.removeCollaborator('123', inviteeId, ownerId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should accept a pending invitation', async () => {
+      repository.findCollaborator.mockResolvedValue(
+        collaborator(inviteeId, MealPlanRole.EDITOR, null) as never,
+      );
+      repository.accept.mockResolvedValue(collaborator(inviteeId, MealPlanRole.EDITOR) as never);
+
+      const result = await service.acceptInvitation('123', inviteeId);
+
+      expect(result.acceptedAt).toBeInstanceOf(Date);
+      expect(repository.accept).toHaveBeenCalledWith(BigInt(123), inviteeId);
+    });
+
+    it('should throw NotFoundException without an invitation', async () => {
+      repository.findCollaborator.mockResolvedValue(null as never);
+
+      expect(service.acceptInvitation('123', outsiderId)).rejects.toThrow(
+        `No invitation to meal plan 123 for user ${outsiderId}`,
+      );
+    });
+
+    it('should throw ConflictException when the invitation was already accepted', async () => {
+      repository.findCollaborator.mockResolvedValue(
+        collaborator(inviteeId, MealPlanRole.EDITOR) as never,
+      );
+
+      expect(service.acceptInvitation('123', inviteeId)).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('listInvitations', () => {
+    it('should include the meal plan name and owner', async () => {
+      repository.findPendingInvitations.mockResolvedValue([
+        {
+          ...collaborator(inviteeId, MealPlanRole.VIEWER, null),
+          mealPlan,
+        },
+      ] as never);
+
+      const result = await service.listInvitations(inviteeId);
+
+      expect(result.success).toBe(true);
+      expect(result.data[0]?.mealPlanName).toBe('Family Dinners');
+      expect(result.data[0]?.ownerId).toBe(ownerId);
+      expect(result.data[0]?.mealPlanId).toBe('123');
+      expect(repository.findPendingInvitations).toHaveBeenCalledWith(inviteeId);
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { MealPlan, MealPlanCollaborator } from '@generated/prisma/client';
+import {
+  MealPlanCollaboratorsRepository,
+  MealPlanInvitation,
+} from './meal-plan-collaborators.repository';
+import { MealPlansRepository } from './meal-plans.repository';
+import { MealPlanPermissionService } from './services/meal-plan-permission.service';
+import {
+  InviteMealPlanCollaboratorDto,
+  UpdateMealPlanCollaboratorDto,
+  MealPlanCollaboratorResponseDto,
+  MealPlanCollaboratorsApiResponseDto,
+  MealPlanInvitationResponseDto,
+  MealPlanInvitationsApiResponseDto,
+  MealPlanRole,
+} from './dto';
+
+@Injectable()
+export class MealPlanCollaboratorsService {
+  constructor(
+    private readonly repository: MealPlanCollaboratorsRepository,
+    private readonly mealPlansRepository: MealPlansRepository,
+    private readonly permissionService: MealPlanPermissionService,
+  ) {}
+
+  /**
+   * List the collaborators and pending invitations of a meal plan
+   */
+  async listCollaborators(
+    id: string,
+    userId: string,
+  ): Promise<MealPlanCollaboratorsApiResponseDto> {
+    const mealPlan = await this.findMealPlan(id);
+    await this.permissionService.assertRole(
+      mealPlan,
+      userId,
+      MealPlanRole.VIEWER,
+      'view collaborators on this meal plan',
+    );
+
+    const collaborators = await this.repository.findByMealPlan(mealPlan.mealPlanId);
+
+    return plainToInstance(
+      MealPlanCollaboratorsApiResponseDto,
+      {
+        success: true,
+        data: collaborators.map((collaborator) => this.toResponseDto(collaborator)),
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  /**
+   * Invite a user to collaborate on a meal plan. The role takes effect once the
+   * user accepts the invitation.
+   */
+  async inviteCollaborator(
+    id: string,
+    inviteDto: InviteMealPlanCollaboratorDto,
+    userId: string,
+  ): Promise<MealPlanCollaboratorResponseDto> {
+    const mealPlan = await this.findMealPlan(id);
+    await this.permissionService.assertRole(
+      mealPlan,
+      userId,
+      MealPlanRole.OWNER,
+      'manage collaborators on this meal plan',
+    );
+
+    if (inviteDto.userId === mealPlan.userId) {
+      throw new BadRequestException('The meal plan owner cannot be invited as a collaborator');
+    }
+
+    const userExists = await this.repository.userExists(inviteDto.userId);
+    if (!userExists) {
+      throw new NotFoundException(`User with ID ${inviteDto.userId} not found`);
+    }
+
+    const existing = await this.repository.findCollaborator(mealPlan.mealPlanId, inviteDto.userId);
+    if (existing) {
+      throw new ConflictException(
+        `User ${inviteDto.userId} has already been invited to meal plan ${id}`,
+      );
+    }
+
+    const collaborator = await this.repository.create({
+      mealPlanId: mealPlan.mealPlanId,
+      userId: inviteDto.userId,
+      role: inviteDto.role,
+      invitedBy: userId,
+    });
+
+    return this.toResponseDto(collaborator);
+  }
+
+  /**
+   * Change the role of a collaborator or pending invitation
+   */
+  async updateCollaboratorRole(
+    id: string,
+    collaboratorId: string,
+    updateDto: UpdateMealPlanCollaboratorDto,
+    userId: string,
+  ): Promise<MealPlanCollaboratorResponseDto> {
+    const mealPlan = await this.findMealPlan(id);
+    await this.permissionService.assertRole(
+      mealPlan,
+      userId,
+      MealPlanRole.OWNER,
+      'manage collaborators on this meal plan',
+    );
+
+    await this.findCollaborator(mealPlan, collaboratorId);
+
+    const collaborator = await this.repository.updateRole(
+      mealPlan.mealPlanId,
+      collaboratorId,
+      updateDto.role,
+    );
+
+    return this.toResponseDto(collaborator);
+  }
+
+  /**
+   * Remove a collaborator or withdraw an invitation. Collaborators can also
+   * remove themselves to leave a meal plan or decline an invitation.
+   */
+  async removeCollaborator(id: string, collaboratorId: string, userId: string): Promise<void> {
+    const mealPlan = await this.findMealPlan(id);
+    if (collaboratorId !== userId) {
+      await this.permissionService.assertRole(
+        mealPlan,
+        userId,
+        MealPlanRole.OWNER,
+        'manage collaborators on this meal plan',
+      );
+    }
+
+    await this.findCollaborator(mealPlan, collaboratorId);
+    await this.repository.delete(mealPlan.mealPlanId, collaboratorId);
+  }
+
+  /**
+   * Accept an invitation to collaborate on a meal plan
+   */
+  async acceptInvitation(id: string, userId: string): Promise<MealPlanCollaboratorResponseDto> {
+    const mealPlan = await this.findMealPlan(id);
+
+    const invitation = await this.repository.findCollaborator(mealPlan.mealPlanId, userId);
+    if (!invitation) {
+      throw new NotFoundException(`No invitation to meal plan ${id} for user ${userId}`);
+    }
+
+    if (invitation.acceptedAt) {
+      throw new ConflictException(`Invitation to meal plan ${id} has already been accepted`);
+    }
+
+    const collaborator = await this.repository.accept(mealPlan.mealPlanId, userId);
+    return this.toResponseDto(collaborator);
+  }
+
+  /**
+   * List the invitations the user has not accepted yet
+   */
+  async listInvitations(userId: string): Promise<MealPlanInvitationsApiResponseDto> {
+    const invitations = await this.repository.findPendingInvitations(userId);
+
+    return plainToInstance(
+      MealPlanInvitationsApiResponseDto,
+      {
+        success: true,
+        data: invitations.map((invitation) => this.toInvitationResponseDto(invitation)),
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  private async findMealPlan(id: string): Promise<MealPlan> {
+    const mealPlan = await this.mealPlansRepository.findById(this.parseMealPlanId(id));
+    if (!mealPlan) {
+      throw new NotFoundException(`Meal plan with ID ${id} not found`);
+    }
+
+    return mealPlan;
+  }
+
+  private async findCollaborator(
+    mealPlan: MealPlan,
+    collaboratorId: string,
+  ): Promise<MealPlanCollaborator> {
+    const collaborator = await this.repository.findCollaborator(
+      mealPlan.mealPlanId,
+      collaboratorId,
+    );
+    if (!collaborator) {
+      throw new NotFoundException(
+        `User ${collaboratorId} is not a collaborator on meal plan ${mealPlan.mealPlanId.toString()}`,
+      );
+    }
+
+    return collaborator;
+  }
+
+  private toResponseDto(collaborator: MealPlanCollaborator): MealPlanCollaboratorResponseDto {
+    return plainToInstance(
+      MealPlanCollaboratorResponseDto,
+      {
+        mealPlanId: collaborator.mealPlanId.toString(),
+        userId: collaborator.userId,
+        role: collaborator.role,
+        invitedBy: collaborator.invitedBy,
+        invitedAt: collaborator.invitedAt,
+        acceptedAt: collaborator.acceptedAt,
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  private toInvitationResponseDto(invitation: MealPlanInvitation): MealPlanInvitationResponseDto {
+    return plainToInstance(
+      MealPlanInvitationResponseDto,
+      {
+        ...this.toResponseDto(invitation),
+        mealPlanName: invitation.mealPlan.name,
+        ownerId: invitation.mealPlan.userId,
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  private parseMealPlanId(id: string): bigint {
+    try {
+      return BigInt(id);
+    } catch {
+      throw new NotFoundException(`Invalid meal plan ID: ${id}`);
+    }
+  }
+}
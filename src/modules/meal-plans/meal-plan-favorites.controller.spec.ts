@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { MealPlanFavoritesController } from './meal-plan-favorites.controller';
 import { MealPlanFavoritesService } from './meal-plan-favorites.service';
 import type { AuthenticatedUser } from '@/modules/auth/interfaces/jwt-payload.interface';
@@ -40,6 +41,8 @@ describe('MealPlanFavoritesController', () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [MealPlanFavoritesController],
       providers: [
+        // Required by ScopesGuard
+        { provide: ConfigService, useValue: { get: mock(() => undefined) } },
         {
           provide: MealPlanFavoritesService,
           useValue: mockService,
@@ -56,7 +59,16 @@ describe('MealPlanFavoritesController', () => {
       const expectedResponse = {
         success: true,
         data: [],
-        meta: { page: 1, limit: 20, total: 0, totalPages: 0, hasNext: false, hasPrevious: false },
+        meta: {
+          page: 1,
+          limit: 20,
+          total: 0,
+          totalPages: 0,
+          hasNext: false,
+          hasPrevious: false,
+          nextCursor: null,
+          prevCursor: null,
+        },
       };
 
       service.listFavorites.mockResolvedValue(expectedResponse as never);
@@ -83,7 +95,16 @@ describe('MealPlanFavoritesController', () => {
       const expectedResponse = {
         success: true,
         data: [],
-        meta: { page: 1, limit: 20, total: 0, totalPages: 0, hasNext: false, hasPrevious: false },
+        meta: {
+          page: 1,
+          limit: 20,
+          total: 0,
+          totalPages: 0,
+          hasNext: false,
+          hasPrevious: false,
+          nextCursor: null,
+          prevCursor: null,
+        },
       };
 
       service.listFavorites.mockResolvedValue(expectedResponse as never);
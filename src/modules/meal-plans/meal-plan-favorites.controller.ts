@@ -23,7 +23,7 @@ import { Throttle } from '@nestjs/throttler';
 import { MealPlanFavoritesService } from './meal-plan-favorites.service';
 import type { FavoritesSortBy, SortOrder } from './meal-plan-favorites.service';
 import {
-  PaginationDto,
+  CursorPaginationDto,
   PaginatedMealPlanFavoritesResponseDto,
   MealPlanFavoriteApiResponseDto,
   MealPlanFavoriteCheckApiResponseDto,
@@ -31,6 +31,9 @@ import {
 } from './dto';
 
 import { JwtAuthGuard } from '@/modules/auth/guards/jwt-auth.guard';
+import { ScopesGuard } from '@/modules/auth/guards/scopes.guard';
+import { RequireScopes } from '@/modules/auth/decorators/require-scopes.decorator';
+import { MealPlanScopes } from '@/modules/auth/constants/oauth2-scopes.constant';
 import { CurrentUser } from '@/modules/auth/decorators/current-user.decorator';
 import type { AuthenticatedUser } from '@/modules/auth/interfaces/jwt-payload.interface';
 
@@ -38,12 +41,13 @@ import type { AuthenticatedUser } from '@/modules/auth/interfaces/jwt-payload.in
 @Controller('meal-plan-management/meal-plans/favorites')
 @ApiBearerAuth('JWT-Auth')
 @UseInterceptors(ClassSerializerInterceptor)
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ScopesGuard)
 @Throttle({ default: { limit: 100, ttl: 60000 } })
 export class MealPlanFavoritesController {
   constructor(private readonly favoritesService: MealPlanFavoritesService) {}
 
   @Get()
+  @RequireScopes(MealPlanScopes.READ)
   @ApiOperation({
     summary: 'List favorite meal plans',
     description: "Retrieve a paginated list of the authenticated user's favorite meal plans",
@@ -54,6 +58,11 @@ export class MealPlanFavoritesController {
     description: 'List of favorite meal plans retrieved successfully',
     type: PaginatedMealPlanFavoritesResponseDto,
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid pagination cursor',
+    type: ErrorResponseDto,
+  })
   @ApiResponse({
     status: 401,
     description: 'Unauthorized - authentication required',
@@ -94,8 +103,21 @@ export class MealPlanFavoritesController {
     description: 'Number of items per page',
     type: Number,
   })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'Cursor from nextCursor or prevCursor of a previous page. Pages after or before it instead of by page number.',
+    type: String,
+  })
+  @ApiQuery({
+    name: 'includeTotal',
+    required: false,
+    description: 'Whether to count all items (default true). Set to false to skip the count.',
+    type: Boolean,
+  })
   async listFavorites(
-    @Query() paginationDto: PaginationDto,
+    @Query() paginationDto: CursorPaginationDto,
     @Query('includeMealPlan') includeMealPlan?: string,
     @Query('sortBy') sortBy?: FavoritesSortBy,
     @Query('sortOrder') sortOrder?: SortOrder,
@@ -113,6 +135,7 @@ export class MealPlanFavoritesController {
   }
 
   @Post(':mealPlanId')
+  @RequireScopes(MealPlanScopes.WRITE)
   @HttpCode(HttpStatus.CREATED)
   @Throttle({ default: { limit: 20, ttl: 60000 } })
   @ApiOperation({
@@ -164,6 +187,7 @@ export class MealPlanFavoritesController {
   }
 
   @Get(':mealPlanId')
+  @RequireScopes(MealPlanScopes.READ)
   @ApiOperation({
     summary: 'Check if meal plan is favorited',
     description: "Check if a specific meal plan is in the authenticated user's favorites",
@@ -198,6 +222,7 @@ export class MealPlanFavoritesController {
   }
 
   @Delete(':mealPlanId')
+  @RequireScopes(MealPlanScopes.WRITE)
   @HttpCode(HttpStatus.NO_CONTENT)
   @Throttle({ default: { limit: 20, ttl: 60000 } })
   @ApiOperation({
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
 import { Test, TestingModule } from '@nestjs/testing';
 import { PrismaService } from '@/config/database.config';
+import { MealPlanVisibility } from '@generated/prisma/client';
 import { MealPlanFavoritesRepository } from './meal-plan-favorites.repository';
 
 describe('MealPlanFavoritesRepository', () => {
@@ -14,12 +15,22 @@ describe('MealPlanFavoritesRepository', () => {
       delete: Mock<(...args: unknown[]) => unknown>;
     };
     mealPlan: {
-      count: Mock<(...args: unknown[]) => unknown>;
+      findUnique: Mock<(...args: unknown[]) => unknown>;
     };
   };
 
   const testUserId = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
   const testMealPlanId = BigInt(123);
+  const visibleFavoritesWhere = {
+    userId: testUserId,
+    mealPlan: {
+      OR: [
+        { userId: testUserId },
+        { visibility: MealPlanVisibility.PUBLIC },
+        { collaborators: { some: { userId: testUserId, acceptedAt: { not: null } } } },
+      ],
+    },
+  };
 
   const mockPrismaService = {
     mealPlanFavorite: {
@@ -30,7 +41,7 @@ describe('MealPlanFavoritesRepository', () => {
       delete: mock(() => {}),
     },
     mealPlan: {
-      count: mock(() => {}),
+      findUnique: mock(() => {}),
     },
   };
 
@@ -40,7 +51,7 @@ describe('MealPlanFavoritesRepository', () => {
     mockPrismaService.mealPlanFavorite.findMany.mockReset();
     mockPrismaService.mealPlanFavorite.count.mockReset();
     mockPrismaService.mealPlanFavorite.delete.mockReset();
-    mockPrismaService.mealPlan.count.mockReset();
+    mockPrismaService.mealPlan.findUnique.mockReset();
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -122,16 +133,17 @@ describe('MealPlanFavoritesRepository', () => {
       const result = await repository.findByUser(testUserId, {
         skip: 0,
         take: 20,
-        orderBy: { favoritedAt: 'desc' },
+        sortBy: 'favoritedAt',
+        sortOrder: 'desc',
         includeMealPlan: false,
       });
 
       expect(result).toEqual(expectedFavorites);
       expect(prisma.mealPlanFavorite.findMany).toHaveBeenCalledWith({
-        where: { userId: testUserId },
+        where: visibleFavoritesWhere,
         skip: 0,
         take: 20,
-        orderBy: { favoritedAt: 'desc' },
+        orderBy: [{ favoritedAt: 'desc' }, { mealPlanId: 'desc' }],
       });
     });
 
@@ -150,19 +162,56 @@ describe('MealPlanFavoritesRepository', () => {
       const result = await repository.findByUser(testUserId, {
         skip: 0,
         take: 20,
-        orderBy: { favoritedAt: 'desc' },
+        sortBy: 'favoritedAt',
+        sortOrder: 'desc',
         includeMealPlan: true,
       });
 
       expect(result).toEqual(expectedFavorites);
       expect(prisma.mealPlanFavorite.findMany).toHaveBeenCalledWith({
-        where: { userId: testUserId },
+        where: visibleFavoritesWhere,
         skip: 0,
         take: 20,
-        orderBy: { favoritedAt: 'desc' },
+        orderBy: [{ favoritedAt: 'desc' }, { mealPlanId: 'desc' }],
         include: { mealPlan: true },
       });
     });
+
+    it('should continue after a cursor instead of skipping rows', async () => {
+      const favoritedAt = new Date('2024-03-01T10:00:00.000Z');
+      prisma.mealPlanFavorite.findMany.mockResolvedValue([] as never);
+
+      await repository.findByUser(testUserId, {
+        skip: 20,
+        take: 21,
+        sortBy: 'favoritedAt',
+        sortOrder: 'desc',
+        cursor: {
+          sortBy: 'favoritedAt',
+          sortOrder: 'desc',
+          direction: 'next',
+          key: favoritedAt,
+          id: BigInt(7),
+        },
+        includeMealPlan: false,
+      });
+
+      expect(prisma.mealPlanFavorite.findMany).toHaveBeenCalledWith({
+        where: {
+          AND: [
+            visibleFavoritesWhere,
+            {
+              OR: [
+                { favoritedAt: { lt: favoritedAt } },
+                { favoritedAt, mealPlanId: { lt: BigInt(7) } },
+              ],
+            },
+          ],
+        },
+        take: 21,
+        orderBy: [{ favoritedAt: 'desc' }, { mealPlanId: 'desc' }],
+      });
+    });
   });
 
   describe('countByUser', () => {
@@ -173,7 +222,7 @@ describe('MealPlanFavoritesRepository', () => {
 
       expect(result).toBe(5);
       expect(prisma.mealPlanFavorite.count).toHaveBeenCalledWith({
-        where: { userId: testUserId },
+        where: visibleFavoritesWhere,
       });
     });
   });
@@ -195,24 +244,30 @@ describe('MealPlanFavoritesRepository', () => {
     });
   });
 
-  describe('mealPlanExists', () => {
-    it('should return true when meal plan exists', async () => {
-      prisma.mealPlan.count.mockResolvedValue(1 as never);
+  describe('findMealPlan', () => {
+    it('should return the owner and visibility of the meal plan', async () => {
+      const mealPlan = {
+        mealPlanId: testMealPlanId,
+        userId: testUserId,
+        visibility: MealPlanVisibility.PRIVATE,
+      };
+      prisma.mealPlan.findUnique.mockResolvedValue(mealPlan as never);
 
-      const result = await repository.mealPlanExists(testMealPlanId);
+      const result = await repository.findMealPlan(testMealPlanId);
 
-      expect(result).toBe(true);
-      expect(prisma.mealPlan.count).toHaveBeenCalledWith({
+      expect(result).toEqual(mealPlan);
+      expect(prisma.mealPlan.findUnique).toHaveBeenCalledWith({
         where: { mealPlanId: testMealPlanId },
+        select: { mealPlanId: true, userId: true, visibility: true },
       });
     });
 
-    it('should return false when meal plan does not exist', async () => {
-      prisma.mealPlan.count.mockResolvedValue(0 as never);
+    it('should return null when meal plan does not exist', async () => {
+      prisma.mealPlan.findUnique.mockResolvedValue(null as never);
 
-      const result = await repository.mealPlanExists(testMealPlanId);
+      const result = await repository.findMealPlan(testMealPlanId);
 
-      expect(result).toBe(false);
+      expect(result).toBeNull();
     });
   });
 });
@@ -1,6 +1,8 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '@/config/database.config';
-import { MealPlanFavorite, MealPlan, Prisma } from '@generated/prisma/client';
+import { MealPlanFavorite, MealPlan, MealPlanVisibility, Prisma } from '@generated/prisma/client';
+import type { MealPlanAudience } from './services/meal-plan-permission.service';
+import { CursorUtil, PageCursor } from './utils/cursor.util';
 
 export interface MealPlanFavoriteWithMealPlan extends MealPlanFavorite {
   mealPlan: MealPlan;
@@ -9,7 +11,10 @@ export interface MealPlanFavoriteWithMealPlan extends MealPlanFavorite {
 export interface FindFavoritesOptions {
   skip: number;
   take: number;
-  orderBy: Prisma.MealPlanFavoriteOrderByWithRelationInput;
+  sortBy: 'favoritedAt' | 'mealPlanId';
+  sortOrder: 'asc' | 'desc';
+  // Page right after or before this cursor instead of skipping rows
+  cursor?: PageCursor;
   includeMealPlan: boolean;
 }
 
@@ -47,17 +52,33 @@ export class MealPlanFavoritesRepository {
   }
 
   /**
-   * Find all favorites for a user with pagination and optional meal plan details
+   * Find all favorites for a user with pagination and optional meal plan details.
+   * Favorites of meal plans the user can no longer see are left out.
    */
   async findByUser(
     userId: string,
     options: FindFavoritesOptions,
   ): Promise<MealPlanFavorite[] | MealPlanFavoriteWithMealPlan[]> {
+    const { cursor } = options;
+    const where = this.buildVisibleFavoritesWhere(userId);
+
     return this.prisma.mealPlanFavorite.findMany({
-      where: { userId },
-      skip: options.skip,
+      where: cursor
+        ? {
+            AND: [
+              where,
+              CursorUtil.buildWhere<Prisma.MealPlanFavoriteWhereInput>(cursor, 'mealPlanId'),
+            ],
+          }
+        : where,
+      ...(!cursor && { skip: options.skip }),
       take: options.take,
-      orderBy: options.orderBy,
+      orderBy: CursorUtil.buildOrderBy<Prisma.MealPlanFavoriteOrderByWithRelationInput>(
+        options.sortBy,
+        'mealPlanId',
+        options.sortOrder,
+        cursor?.direction,
+      ),
       ...(options.includeMealPlan && {
         include: {
           mealPlan: true,
@@ -67,11 +88,11 @@ export class MealPlanFavoritesRepository {
   }
 
   /**
-   * Count total favorites for a user
+   * Count the favorites of a user that are still visible to them
    */
   async countByUser(userId: string): Promise<number> {
     return this.prisma.mealPlanFavorite.count({
-      where: { userId },
+      where: this.buildVisibleFavoritesWhere(userId),
     });
   }
 
@@ -90,12 +111,30 @@ export class MealPlanFavoritesRepository {
   }
 
   /**
-   * Check if a meal plan exists
+   * Find the owner and visibility of a meal plan, or null if it does not exist
    */
-  async mealPlanExists(mealPlanId: bigint): Promise<boolean> {
-    const count = await this.prisma.mealPlan.count({
+  async findMealPlan(mealPlanId: bigint): Promise<MealPlanAudience | null> {
+    return this.prisma.mealPlan.findUnique({
       where: { mealPlanId },
+      select: { mealPlanId: true, userId: true, visibility: true },
     });
-    return count > 0;
+  }
+
+  /**
+   * Favorites of a user whose meal plan they own, collaborate on or is public.
+   * Mirrors MealPlanPermissionService.canView so a meal plan made private
+   * drops out of the favorites of everyone who lost access to it.
+   */
+  private buildVisibleFavoritesWhere(userId: string): Prisma.MealPlanFavoriteWhereInput {
+    return {
+      userId,
+      mealPlan: {
+        OR: [
+          { userId },
+          { visibility: MealPlanVisibility.PUBLIC },
+          { collaborators: { some: { userId, acceptedAt: { not: null } } } },
+        ],
+      },
+    };
   }
 }
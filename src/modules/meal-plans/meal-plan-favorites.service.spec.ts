@@ -1,8 +1,19 @@
 import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
 import { Test, TestingModule } from '@nestjs/testing';
-import { NotFoundException, ConflictException } from '@nestjs/common';
+import {
+  NotFoundException,
+  ConflictException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { MealPlanVisibility } from '@generated/prisma/client';
 import { MealPlanFavoritesService } from './meal-plan-favorites.service';
 import { MealPlanFavoritesRepository } from './meal-plan-favorites.repository';
+import { MealPlanCollaboratorsRepository } from './meal-plan-collaborators.repository';
+import { MealPlanPermissionService } from './services/meal-plan-permission.service';
+import { MetricsService } from '@/modules/metrics/metrics.service';
+import { CacheService } from '@/shared/cache/cache.service';
+import { CursorUtil } from './utils/cursor.util';
 
 describe('MealPlanFavoritesService', () => {
   let service: MealPlanFavoritesService;
@@ -12,12 +23,18 @@ describe('MealPlanFavoritesService', () => {
     findByUser: Mock<(...args: unknown[]) => unknown>;
     countByUser: Mock<(...args: unknown[]) => unknown>;
     delete: Mock<(...args: unknown[]) => unknown>;
-    mealPlanExists: Mock<(...args: unknown[]) => unknown>;
+    findMealPlan: Mock<(...args: unknown[]) => unknown>;
   };
 
   const testUserId = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
   const testMealPlanId = '123';
   const testMealPlanIdBigInt = BigInt(123);
+  const otherUserId = 'b1ffcd88-8d1a-4ef8-bb6d-6bb9bd380a22';
+  const ownMealPlan = {
+    mealPlanId: testMealPlanIdBigInt,
+    userId: testUserId,
+    visibility: MealPlanVisibility.PRIVATE,
+  };
 
   const mockRepository = {
     create: mock(() => {}),
@@ -25,7 +42,19 @@ describe('MealPlanFavoritesService', () => {
     findByUser: mock(() => {}),
     countByUser: mock(() => {}),
     delete: mock(() => {}),
-    mealPlanExists: mock(() => {}),
+    findMealPlan: mock(() => {}),
+  };
+
+  const mockCollaboratorsRepository = {
+    findCollaborator: mock(() => {}),
+  };
+
+  const mockMetricsService = {
+    recordFavorite: mock(() => {}),
+  };
+
+  const mockCacheService = {
+    invalidate: mock(() => Promise.resolve()),
   };
 
   beforeEach(async () => {
@@ -34,7 +63,11 @@ describe('MealPlanFavoritesService', () => {
     mockRepository.findByUser.mockReset();
     mockRepository.countByUser.mockReset();
     mockRepository.delete.mockReset();
-    mockRepository.mealPlanExists.mockReset();
+    mockRepository.findMealPlan.mockReset();
+    mockCollaboratorsRepository.findCollaborator.mockReset();
+    mockCollaboratorsRepository.findCollaborator.mockResolvedValue(null as never);
+    mockMetricsService.recordFavorite.mockReset();
+    mockCacheService.invalidate.mockClear();
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -43,6 +76,19 @@ describe('MealPlanFavoritesService', () => {
           provide: MealPlanFavoritesRepository,
           useValue: mockRepository,
         },
+        MealPlanPermissionService,
+        {
+          provide: MealPlanCollaboratorsRepository,
+          useValue: mockCollaboratorsRepository,
+        },
+        {
+          provide: MetricsService,
+          useValue: mockMetricsService,
+        },
+        {
+          provide: CacheService,
+          useValue: mockCacheService,
+        },
       ],
     }).compile();
 
@@ -78,6 +124,58 @@ describe('MealPlanFavoritesService', () => {
       expect(result.data).toHaveLength(0);
       expect(result.meta.total).toBe(0);
     });
+
+    it('should page after a cursor without counting when includeTotal is false', async () => {
+      const favoritedAt = new Date('2024-03-01T10:00:00.000Z');
+      const cursor = CursorUtil.encode({
+        sortBy: 'favoritedAt',
+        sortOrder: 'desc',
+        direction: 'next',
+        key: new Date('2024-03-02T10:00:00.000Z'),
+        id: BigInt(5),
+      });
+      repository.findByUser.mockResolvedValue([
+        { userId: testUserId, mealPlanId: BigInt(4), favoritedAt },
+        { userId: testUserId, mealPlanId: BigInt(3), favoritedAt },
+      ] as never);
+
+      const result = await service.listFavorites(
+        testUserId,
+        { page: 1, limit: 1, offset: 0, cursor, includeTotal: false },
+        false,
+      );
+
+      expect(repository.findByUser).toHaveBeenCalledWith(testUserId, {
+        skip: 0,
+        take: 2,
+        sortBy: 'favoritedAt',
+        sortOrder: 'desc',
+        cursor: CursorUtil.decode(cursor, 'favoritedAt', 'desc'),
+        includeMealPlan: false,
+      });
+      expect(repository.countByUser).not.toHaveBeenCalled();
+      expect(result.data.map((favorite) => favorite.mealPlanId)).toEqual(['4']);
+      expect(result.meta.page).toBeUndefined();
+      expect(result.meta.total).toBeUndefined();
+      expect(result.meta.hasNext).toBe(true);
+      expect(result.meta.hasPrevious).toBe(true);
+      expect(CursorUtil.decode(result.meta.nextCursor!, 'favoritedAt', 'desc')).toEqual({
+        sortBy: 'favoritedAt',
+        sortOrder: 'desc',
+        direction: 'next',
+        key: favoritedAt,
+        id: BigInt(4),
+      });
+    });
+
+    it('should reject a malformed cursor', async () => {
+      const error = await service
+        .listFavorites(testUserId, { page: 1, limit: 20, offset: 0, cursor: 'not-a-cursor' }, false)
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect(repository.findByUser).not.toHaveBeenCalled();
+    });
   });
 
   describe('addFavorite', () => {
@@ -88,7 +186,7 @@ describe('MealPlanFavoritesService', () => {
         favoritedAt: new Date(),
       };
 
-      repository.mealPlanExists.mockResolvedValue(true as never);
+      repository.findMealPlan.mockResolvedValue(ownMealPlan as never);
       repository.findByUserAndMealPlan.mockResolvedValue(null as never);
       repository.create.mockResolvedValue(createdFavorite as never);
 
@@ -97,16 +195,42 @@ describe('MealPlanFavoritesService', () => {
       expect(result.success).toBe(true);
       expect(result.data.mealPlanId).toBe(testMealPlanId);
       expect(result.message).toBe('Meal plan added to favorites successfully');
+      expect(mockMetricsService.recordFavorite).toHaveBeenCalledWith('added');
+      expect(mockCacheService.invalidate).toHaveBeenCalledWith('meal-plans:trending');
     });
 
     it('should throw NotFoundException when meal plan does not exist', async () => {
-      repository.mealPlanExists.mockResolvedValue(false as never);
+      repository.findMealPlan.mockResolvedValue(null as never);
 
       expect(service.addFavorite(testUserId, testMealPlanId)).rejects.toThrow(NotFoundException);
     });
 
+    it("should throw ForbiddenException for another user's private meal plan", async () => {
+      repository.findMealPlan.mockResolvedValue({ ...ownMealPlan, userId: otherUserId } as never);
+
+      expect(service.addFavorite(testUserId, testMealPlanId)).rejects.toThrow(ForbiddenException);
+    });
+
+    it("should allow favoriting another user's public meal plan", async () => {
+      repository.findMealPlan.mockResolvedValue({
+        ...ownMealPlan,
+        userId: otherUserId,
+        visibility: MealPlanVisibility.PUBLIC,
+      } as never);
+      repository.findByUserAndMealPlan.mockResolvedValue(null as never);
+      repository.create.mockResolvedValue({
+        userId: testUserId,
+        mealPlanId: testMealPlanIdBigInt,
+        favoritedAt: new Date(),
+      } as never);
+
+      const result = await service.addFavorite(testUserId, testMealPlanId);
+
+      expect(result.success).toBe(true);
+    });
+
     it('should throw ConflictException when already favorited', async () => {
-      repository.mealPlanExists.mockResolvedValue(true as never);
+      repository.findMealPlan.mockResolvedValue(ownMealPlan as never);
       repository.findByUserAndMealPlan.mockResolvedValue({
         userId: testUserId,
         mealPlanId: testMealPlanIdBigInt,
@@ -159,10 +283,25 @@ describe('MealPlanFavoritesService', () => {
       expect(repository.delete).toHaveBeenCalledWith(testUserId, testMealPlanIdBigInt);
     });
 
+    it('should record the removal', async () => {
+      repository.findByUserAndMealPlan.mockResolvedValue({
+        userId: testUserId,
+        mealPlanId: testMealPlanIdBigInt,
+        favoritedAt: new Date(),
+      } as never);
+      repository.delete.mockResolvedValue(undefined as never);
+
+      await service.removeFavorite(testUserId, testMealPlanId);
+
+      expect(mockMetricsService.recordFavorite).toHaveBeenCalledWith('removed');
+      expect(mockCacheService.invalidate).toHaveBeenCalledWith('meal-plans:trending');
+    });
+
     it('should throw NotFoundException when favorite does not exist', async () => {
       repository.findByUserAndMealPlan.mockResolvedValue(null as never);
 
       expect(service.removeFavorite(testUserId, testMealPlanId)).rejects.toThrow(NotFoundException);
+      expect(mockMetricsService.recordFavorite).not.toHaveBeenCalled();
     });
   });
 
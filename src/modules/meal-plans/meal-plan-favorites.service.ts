@@ -1,15 +1,29 @@
-import { Injectable, NotFoundException, ConflictException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
 import { plainToInstance } from 'class-transformer';
-import { Prisma } from '@generated/prisma/client';
-import { MealPlanFavoritesRepository } from './meal-plan-favorites.repository';
+import { MealPlanFavorite } from '@generated/prisma/client';
+import {
+  MealPlanFavoritesRepository,
+  MealPlanFavoriteWithMealPlan,
+} from './meal-plan-favorites.repository';
+import { MealPlanPermissionService } from './services/meal-plan-permission.service';
+import { MetricsService } from '@/modules/metrics/metrics.service';
+import { CacheService } from '@/shared/cache/cache.service';
+import { MealPlanCacheTags } from './meal-plan-cache-tags';
+import { CursorUtil } from './utils/cursor.util';
 import {
-  PaginationDto,
+  CursorPaginationDto,
+  CursorPaginationMetaDto,
   MealPlanFavoriteResponseDto,
   MealPlanFavoriteCheckResponseDto,
   PaginatedMealPlanFavoritesResponseDto,
   MealPlanFavoriteApiResponseDto,
   MealPlanFavoriteCheckApiResponseDto,
-  PaginationMetaDto,
   MealPlanResponseDto,
 } from './dto';
 
@@ -18,14 +32,19 @@ export type SortOrder = 'asc' | 'desc';
 
 @Injectable()
 export class MealPlanFavoritesService {
-  constructor(private readonly repository: MealPlanFavoritesRepository) {}
+  constructor(
+    private readonly repository: MealPlanFavoritesRepository,
+    private readonly permissionService: MealPlanPermissionService,
+    private readonly metricsService: MetricsService,
+    private readonly cacheService: CacheService,
+  ) {}
 
   /**
    * List user's favorite meal plans with pagination
    */
   async listFavorites(
     userId: string,
-    paginationDto: PaginationDto,
+    paginationDto: CursorPaginationDto,
     includeMealPlan: boolean = false,
     sortBy: FavoritesSortBy = 'favoritedAt',
     sortOrder: SortOrder = 'desc',
@@ -34,23 +53,35 @@ export class MealPlanFavoritesService {
     const limit = paginationDto.limit ?? 20;
     const skip = (page - 1) * limit;
 
-    const orderBy: Prisma.MealPlanFavoriteOrderByWithRelationInput = {
-      [sortBy]: sortOrder,
-    };
+    const cursor = paginationDto.cursor
+      ? CursorUtil.decode(paginationDto.cursor, sortBy, sortOrder)
+      : null;
+    if (paginationDto.cursor && !cursor) {
+      throw new BadRequestException('Invalid pagination cursor for this sort order');
+    }
 
     const [favorites, total] = await Promise.all([
       this.repository.findByUser(userId, {
         skip,
-        take: limit,
-        orderBy,
+        take: limit + 1,
+        sortBy,
+        sortOrder,
+        ...(cursor && { cursor }),
         includeMealPlan,
       }),
-      this.repository.countByUser(userId),
+      paginationDto.includeTotal === false ? undefined : this.repository.countByUser(userId),
     ]);
 
-    const totalPages = Math.ceil(total / limit);
+    const favoritesPage = CursorUtil.toPage(
+      favorites as (MealPlanFavorite | MealPlanFavoriteWithMealPlan)[],
+      limit,
+      cursor,
+      { sortBy, sortOrder },
+      (favorite) => ({ key: favorite[sortBy], id: favorite.mealPlanId }),
+      page > 1,
+    );
 
-    const data = favorites.map((favorite) => {
+    const data = favoritesPage.items.map((favorite) => {
       const dto = plainToInstance(
         MealPlanFavoriteResponseDto,
         {
@@ -75,15 +106,8 @@ export class MealPlanFavoritesService {
     });
 
     const meta = plainToInstance(
-      PaginationMetaDto,
-      {
-        page,
-        limit,
-        total,
-        totalPages,
-        hasNext: page < totalPages,
-        hasPrevious: page > 1,
-      },
+      CursorPaginationMetaDto,
+      CursorUtil.toMeta(favoritesPage, { limit, page: cursor ? undefined : page, total }),
       { excludeExtraneousValues: true },
     );
 
@@ -104,12 +128,17 @@ export class MealPlanFavoritesService {
   async addFavorite(userId: string, mealPlanId: string): Promise<MealPlanFavoriteApiResponseDto> {
     const mealPlanIdBigInt = this.parseMealPlanId(mealPlanId);
 
-    // Check if meal plan exists
-    const mealPlanExists = await this.repository.mealPlanExists(mealPlanIdBigInt);
-    if (!mealPlanExists) {
+    // Check if meal plan exists and is visible to the user
+    const mealPlan = await this.repository.findMealPlan(mealPlanIdBigInt);
+    if (!mealPlan) {
       throw new NotFoundException(`Meal plan with ID ${mealPlanId} not found`);
     }
 
+    const canView = await this.permissionService.canView(mealPlan, userId);
+    if (!canView) {
+      throw new ForbiddenException('You do not have permission to favorite this meal plan');
+    }
+
     // Check if already favorited
     const existingFavorite = await this.repository.findByUserAndMealPlan(userId, mealPlanIdBigInt);
     if (existingFavorite) {
@@ -118,6 +147,9 @@ export class MealPlanFavoritesService {
 
     // Create the favorite
     const favorite = await this.repository.create(userId, mealPlanIdBigInt);
+    this.metricsService.recordFavorite('added');
+    // Favorites count towards the trending ranking
+    await this.cacheService.invalidate(MealPlanCacheTags.TRENDING);
 
     const data = plainToInstance(
       MealPlanFavoriteResponseDto,
@@ -183,6 +215,8 @@ export class MealPlanFavoritesService {
     }
 
     await this.repository.delete(userId, mealPlanIdBigInt);
+    this.metricsService.recordFavorite('removed');
+    await this.cacheService.invalidate(MealPlanCacheTags.TRENDING);
   }
 
   /**
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { MealPlanShareLinksController } from './meal-plan-share-links.controller';
+import { MealPlansService } from './meal-plans.service';
+import { MealPlanQueryResponseDto } from './dto';
+import { ScopesGuard } from '@/modules/auth/guards/scopes.guard';
+import { MealPlanScopes } from '@/modules/auth/constants/oauth2-scopes.constant';
+import type { AuthenticatedUser } from '@/modules/auth/interfaces/jwt-payload.interface';
+
+describe('MealPlanShareLinksController', () => {
+  let controller: MealPlanShareLinksController;
+  let service: {
+    createShareLink: Mock<(...args: unknown[]) => unknown>;
+    findSharedMealPlan: Mock<(...args: unknown[]) => unknown>;
+  };
+
+  const testUserId = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+
+  const mockUser: AuthenticatedUser = {
+    id: testUserId,
+    sub: testUserId,
+    clientId: 'test-client',
+    scopes: ['read', 'write'],
+    exp: Date.now() + 3600000,
+  };
+
+  const mockService = {
+    createShareLink: mock(() => {}),
+    findSharedMealPlan: mock(() => {}),
+  };
+
+  beforeEach(async () => {
+    mockService.createShareLink.mockReset();
+    mockService.findSharedMealPlan.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [MealPlanShareLinksController],
+      providers: [
+        // Required by ScopesGuard
+        { provide: ConfigService, useValue: { get: mock(() => undefined) } },
+        {
+          provide: MealPlansService,
+          useValue: mockService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<MealPlanShareLinksController>(MealPlanShareLinksController);
+    service = module.get(MealPlansService);
+  });
+
+  describe('createShareLink', () => {
+    it('should create a share link on behalf of the authenticated user', async () => {
+      const shareLink = {
+        token: 'signed-token',
+        url: '/api/v1/meal-plan-management/meal-plans/shared/signed-token',
+        expiresAt: new Date(),
+      };
+      service.createShareLink.mockResolvedValue(shareLink as never);
+
+      const result = await controller.createShareLink('123', mockUser);
+
+      expect(result).toEqual(shareLink);
+      expect(service.createShareLink).toHaveBeenCalledWith('123', testUserId);
+    });
+  });
+
+  describe('getSharedMealPlan', () => {
+    it('should return the meal plan of the share link', async () => {
+      const queryDto = { viewMode: 'week' as const };
+      const response = { success: true, data: { id: '123' } } as MealPlanQueryResponseDto;
+      service.findSharedMealPlan.mockResolvedValue(response as never);
+
+      const result = await controller.getSharedMealPlan('signed-token', queryDto);
+
+      expect(result).toEqual(response);
+      expect(service.findSharedMealPlan).toHaveBeenCalledWith('signed-token', queryDto, undefined);
+    });
+
+    it('should pass the Accept-Language header to the service', async () => {
+      const queryDto = { viewMode: 'month' as const };
+      service.findSharedMealPlan.mockResolvedValue({ success: true } as never);
+
+      await controller.getSharedMealPlan('signed-token', queryDto, 'es-ES');
+
+      expect(service.findSharedMealPlan).toHaveBeenCalledWith('signed-token', queryDto, 'es-ES');
+    });
+  });
+
+  describe('scopes', () => {
+    const guard = new ScopesGuard(
+      new Reflector(),
+      new ConfigService({ oauth2: { enabled: true } }),
+    );
+    const readOnlyUser: AuthenticatedUser = { ...mockUser, scopes: [MealPlanScopes.READ] };
+    const prototype = MealPlanShareLinksController.prototype;
+
+    const createContext = (handler: (...args: never[]) => unknown): ExecutionContext =>
+      ({
+        switchToHttp: () => ({ getRequest: () => ({ user: readOnlyUser }) }),
+        getHandler: () => handler,
+        getClass: () => MealPlanShareLinksController,
+      }) as unknown as ExecutionContext;
+
+    it('should reject read-only tokens on write routes', () => {
+      for (const handler of [prototype.createShareLink]) {
+        expect(() => guard.canActivate(createContext(handler))).toThrow(ForbiddenException);
+      }
+    });
+  });
+});
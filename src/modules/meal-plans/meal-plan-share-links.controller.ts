@@ -0,0 +1,153 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  UseInterceptors,
+  ClassSerializerInterceptor,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiHeader,
+} from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { MealPlansService } from './meal-plans.service';
+import {
+  MealPlanByIdQueryDto,
+  MealPlanQueryResponseDto,
+  MealPlanShareLinkResponseDto,
+  ErrorResponseDto,
+} from './dto';
+
+import { JwtAuthGuard } from '@/modules/auth/guards/jwt-auth.guard';
+import { ScopesGuard } from '@/modules/auth/guards/scopes.guard';
+import { RequireScopes } from '@/modules/auth/decorators/require-scopes.decorator';
+import { MealPlanScopes } from '@/modules/auth/constants/oauth2-scopes.constant';
+import { CurrentUser } from '@/modules/auth/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '@/modules/auth/interfaces/jwt-payload.interface';
+
+/**
+ * Share links for unlisted and public meal plans. Opening a shared meal plan
+ * is authenticated by the signed token in its URL, so people without an
+ * account can view it; creating a link requires a JWT.
+ */
+@ApiTags('meal-plans')
+@Controller('meal-plan-management/meal-plans')
+@UseInterceptors(ClassSerializerInterceptor)
+@Throttle({ default: { limit: 100, ttl: 60000 } })
+export class MealPlanShareLinksController {
+  constructor(private readonly mealPlansService: MealPlansService) {}
+
+  @Post(':id/share-link')
+  @UseGuards(JwtAuthGuard, ScopesGuard)
+  @RequireScopes(MealPlanScopes.WRITE)
+  @ApiBearerAuth('JWT-Auth')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create share link',
+    description:
+      'Create a signed link that lets anyone view the meal plan until it expires. Only the owner can share a meal plan, and it must be unlisted or public.',
+    operationId: 'createMealPlanShareLink',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Meal plan ID',
+    type: String,
+    example: '123',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Share link created successfully',
+    type: MealPlanShareLinkResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Private meal plans cannot be shared',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Only the owner can share the meal plan',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Meal plan not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable - share link secret is not configured',
+    type: ErrorResponseDto,
+  })
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  async createShareLink(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MealPlanShareLinkResponseDto> {
+    const userId = user.id;
+
+    return this.mealPlansService.createShareLink(id, userId);
+  }
+
+  @Get('shared/:token')
+  @ApiOperation({
+    summary: 'Get shared meal plan',
+    description:
+      'Retrieve a meal plan through its share link, with the same viewing options as getting a meal plan by ID. No Authorization header is needed.',
+    operationId: 'getSharedMealPlan',
+    security: [],
+  })
+  @ApiParam({
+    name: 'token',
+    description: 'Share link token',
+    type: String,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Meal plan retrieved successfully',
+    type: MealPlanQueryResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Share link is invalid or expired, or the meal plan is no longer shared',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable - share link secret is not configured',
+    type: ErrorResponseDto,
+  })
+  @ApiHeader({
+    name: 'Accept-Language',
+    required: false,
+    description: 'Preferred locales for day and month names when no locale query parameter is set',
+  })
+  @Throttle({ default: { limit: 30, ttl: 60000 } })
+  async getSharedMealPlan(
+    @Param('token') token: string,
+    @Query() queryDto: MealPlanByIdQueryDto,
+    @Headers('accept-language') acceptLanguage?: string,
+  ): Promise<MealPlanQueryResponseDto> {
+    return this.mealPlansService.findSharedMealPlan(token, queryDto, acceptLanguage);
+  }
+}
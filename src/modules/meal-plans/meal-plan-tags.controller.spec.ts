@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { MealPlanTagsController } from './meal-plan-tags.controller';
 import { MealPlanTagsService } from './meal-plan-tags.service';
 import type { AuthenticatedUser } from '@/modules/auth/interfaces/jwt-payload.interface';
@@ -44,6 +45,8 @@ describe('MealPlanTagsController', () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [MealPlanTagsController],
       providers: [
+        // Required by ScopesGuard
+        { provide: ConfigService, useValue: { get: mock(() => undefined) } },
         {
           provide: MealPlanTagsService,
           useValue: mockService,
@@ -63,7 +66,16 @@ describe('MealPlanTagsController', () => {
           { tagId: '1', name: 'Weekly' },
           { tagId: '2', name: 'Budget' },
         ],
-        meta: { page: 1, limit: 20, total: 2, totalPages: 1, hasNext: false, hasPrevious: false },
+        meta: {
+          page: 1,
+          limit: 20,
+          total: 2,
+          totalPages: 1,
+          hasNext: false,
+          hasPrevious: false,
+          nextCursor: null,
+          prevCursor: null,
+        },
       };
 
       service.listAllTags.mockResolvedValue(expectedResponse as never);
@@ -83,7 +95,16 @@ describe('MealPlanTagsController', () => {
       const expectedResponse = {
         success: true,
         data: [],
-        meta: { page: 1, limit: 20, total: 0, totalPages: 0, hasNext: false, hasPrevious: false },
+        meta: {
+          page: 1,
+          limit: 20,
+          total: 0,
+          totalPages: 0,
+          hasNext: false,
+          hasPrevious: false,
+          nextCursor: null,
+          prevCursor: null,
+        },
       };
 
       service.listAllTags.mockResolvedValue(expectedResponse as never);
@@ -26,7 +26,7 @@ import { Throttle } from '@nestjs/throttler';
 import { MealPlanTagsService } from './meal-plan-tags.service';
 import type { TagsSortBy, SortOrder } from './meal-plan-tags.service';
 import {
-  PaginationDto,
+  CursorPaginationDto,
   PaginatedTagsResponseDto,
   MealPlanTagsApiResponseDto,
   AddMealPlanTagsDto,
@@ -34,6 +34,9 @@ import {
 } from './dto';
 
 import { JwtAuthGuard } from '@/modules/auth/guards/jwt-auth.guard';
+import { ScopesGuard } from '@/modules/auth/guards/scopes.guard';
+import { RequireScopes } from '@/modules/auth/decorators/require-scopes.decorator';
+import { MealPlanScopes } from '@/modules/auth/constants/oauth2-scopes.constant';
 import { CurrentUser } from '@/modules/auth/decorators/current-user.decorator';
 import type { AuthenticatedUser } from '@/modules/auth/interfaces/jwt-payload.interface';
 
@@ -41,12 +44,13 @@ import type { AuthenticatedUser } from '@/modules/auth/interfaces/jwt-payload.in
 @Controller('meal-plan-management/meal-plans')
 @ApiBearerAuth('JWT-Auth')
 @UseInterceptors(ClassSerializerInterceptor)
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ScopesGuard)
 @Throttle({ default: { limit: 100, ttl: 60000 } })
 export class MealPlanTagsController {
   constructor(private readonly tagsService: MealPlanTagsService) {}
 
   @Get('tags')
+  @RequireScopes(MealPlanScopes.READ)
   @ApiOperation({
     summary: 'List all tags',
     description: 'Retrieve a paginated list of all available meal plan tags',
@@ -57,6 +61,11 @@ export class MealPlanTagsController {
     description: 'List of tags retrieved successfully',
     type: PaginatedTagsResponseDto,
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid pagination cursor',
+    type: ErrorResponseDto,
+  })
   @ApiResponse({
     status: 401,
     description: 'Unauthorized - authentication required',
@@ -97,8 +106,21 @@ export class MealPlanTagsController {
     description: 'Number of items per page',
     type: Number,
   })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'Cursor from nextCursor or prevCursor of a previous page. Pages after or before it instead of by page number.',
+    type: String,
+  })
+  @ApiQuery({
+    name: 'includeTotal',
+    required: false,
+    description: 'Whether to count all items (default true). Set to false to skip the count.',
+    type: Boolean,
+  })
   async listAllTags(
-    @Query() paginationDto: PaginationDto,
+    @Query() paginationDto: CursorPaginationDto,
     @Query('nameSearch') nameSearch?: string,
     @Query('sortBy') sortBy?: TagsSortBy,
     @Query('sortOrder') sortOrder?: SortOrder,
@@ -112,6 +134,7 @@ export class MealPlanTagsController {
   }
 
   @Get(':id/tags')
+  @RequireScopes(MealPlanScopes.READ)
   @ApiOperation({
     summary: 'Get meal plan tags',
     description: 'Retrieve all tags associated with a specific meal plan',
@@ -151,6 +174,7 @@ export class MealPlanTagsController {
   }
 
   @Post(':id/tags')
+  @RequireScopes(MealPlanScopes.WRITE)
   @HttpCode(HttpStatus.OK)
   @Throttle({ default: { limit: 20, ttl: 60000 } })
   @ApiOperation({
@@ -203,6 +227,7 @@ export class MealPlanTagsController {
   }
 
   @Put(':id/tags')
+  @RequireScopes(MealPlanScopes.WRITE)
   @Throttle({ default: { limit: 20, ttl: 60000 } })
   @ApiOperation({
     summary: 'Replace meal plan tags',
@@ -254,6 +279,7 @@ export class MealPlanTagsController {
   }
 
   @Delete(':id/tags/:tagId')
+  @RequireScopes(MealPlanScopes.WRITE)
   @HttpCode(HttpStatus.NO_CONTENT)
   @Throttle({ default: { limit: 20, ttl: 60000 } })
   @ApiOperation({
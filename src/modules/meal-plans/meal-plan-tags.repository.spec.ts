@@ -91,7 +91,8 @@ describe('MealPlanTagsRepository', () => {
       const result = await repository.findAllTags({
         skip: 0,
         take: 20,
-        orderBy: { name: 'asc' },
+        sortBy: 'name',
+        sortOrder: 'asc',
       });
 
       expect(result).toEqual(expectedTags);
@@ -99,7 +100,7 @@ describe('MealPlanTagsRepository', () => {
         where: {},
         skip: 0,
         take: 20,
-        orderBy: { name: 'asc' },
+        orderBy: [{ name: 'asc' }, { tagId: 'asc' }],
       });
     });
 
@@ -109,7 +110,8 @@ describe('MealPlanTagsRepository', () => {
       await repository.findAllTags({
         skip: 0,
         take: 20,
-        orderBy: { name: 'asc' },
+        sortBy: 'name',
+        sortOrder: 'asc',
         nameSearch: 'Week',
       });
 
@@ -122,7 +124,62 @@ describe('MealPlanTagsRepository', () => {
         },
         skip: 0,
         take: 20,
-        orderBy: { name: 'asc' },
+        orderBy: [{ name: 'asc' }, { tagId: 'asc' }],
+      });
+    });
+
+    it('should continue after a cursor instead of skipping rows', async () => {
+      prisma.mealPlanTag.findMany.mockResolvedValue([] as never);
+
+      await repository.findAllTags({
+        skip: 40,
+        take: 21,
+        sortBy: 'name',
+        sortOrder: 'asc',
+        cursor: {
+          sortBy: 'name',
+          sortOrder: 'asc',
+          direction: 'next',
+          key: 'Budget',
+          id: BigInt(2),
+        },
+      });
+
+      expect(prisma.mealPlanTag.findMany).toHaveBeenCalledWith({
+        where: {
+          AND: [
+            {},
+            {
+              OR: [{ name: { gt: 'Budget' } }, { name: 'Budget', tagId: { gt: BigInt(2) } }],
+            },
+          ],
+        },
+        take: 21,
+        orderBy: [{ name: 'asc' }, { tagId: 'asc' }],
+      });
+    });
+
+    it('should fetch the rows before a cursor in reverse order', async () => {
+      prisma.mealPlanTag.findMany.mockResolvedValue([] as never);
+
+      await repository.findAllTags({
+        skip: 0,
+        take: 21,
+        sortBy: 'tagId',
+        sortOrder: 'asc',
+        cursor: {
+          sortBy: 'tagId',
+          sortOrder: 'asc',
+          direction: 'prev',
+          key: BigInt(5),
+          id: BigInt(5),
+        },
+      });
+
+      expect(prisma.mealPlanTag.findMany).toHaveBeenCalledWith({
+        where: { AND: [{}, { tagId: { lt: BigInt(5) } }] },
+        take: 21,
+        orderBy: [{ tagId: 'desc' }],
       });
     });
   });
@@ -329,6 +386,21 @@ describe('MealPlanTagsRepository', () => {
     });
   });
 
+  describe('findMealPlan', () => {
+    it('should select the owner and visibility of the meal plan', async () => {
+      const mealPlan = { mealPlanId: testMealPlanId, userId: testUserId, visibility: 'PUBLIC' };
+      prisma.mealPlan.findUnique.mockResolvedValue(mealPlan as never);
+
+      const result = await repository.findMealPlan(testMealPlanId);
+
+      expect(result).toEqual(mealPlan as never);
+      expect(prisma.mealPlan.findUnique).toHaveBeenCalledWith({
+        where: { mealPlanId: testMealPlanId },
+        select: { mealPlanId: true, userId: true, visibility: true },
+      });
+    });
+  });
+
   describe('findTagById', () => {
     it('should return tag when found', async () => {
       const tag = { tagId: testTagId, name: 'Weekly' };
@@ -1,6 +1,8 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '@/config/database.config';
 import { MealPlanTag, MealPlanTagJunction, Prisma } from '@generated/prisma/client';
+import { CursorUtil, PageCursor } from './utils/cursor.util';
+import type { MealPlanAudience } from './services/meal-plan-permission.service';
 
 export interface MealPlanTagWithJunction extends MealPlanTag {
   mealPlanTagJunctions?: MealPlanTagJunction[];
@@ -9,7 +11,10 @@ export interface MealPlanTagWithJunction extends MealPlanTag {
 export interface FindTagsOptions {
   skip: number;
   take: number;
-  orderBy: Prisma.MealPlanTagOrderByWithRelationInput;
+  sortBy: 'name' | 'tagId';
+  sortOrder: 'asc' | 'desc';
+  // Page right after or before this cursor instead of skipping rows
+  cursor?: PageCursor;
   nameSearch?: string;
 }
 
@@ -29,11 +34,19 @@ export class MealPlanTagsRepository {
       };
     }
 
+    const { cursor } = options;
     return this.prisma.mealPlanTag.findMany({
-      where,
-      skip: options.skip,
+      where: cursor
+        ? { AND: [where, CursorUtil.buildWhere<Prisma.MealPlanTagWhereInput>(cursor, 'tagId')] }
+        : where,
+      ...(!cursor && { skip: options.skip }),
       take: options.take,
-      orderBy: options.orderBy,
+      orderBy: CursorUtil.buildOrderBy<Prisma.MealPlanTagOrderByWithRelationInput>(
+        options.sortBy,
+        'tagId',
+        options.sortOrder,
+        cursor?.direction,
+      ),
     });
   }
 
@@ -185,6 +198,16 @@ export class MealPlanTagsRepository {
     return mealPlan?.userId ?? null;
   }
 
+  /**
+   * Find the owner and visibility of a meal plan, or null if it does not exist
+   */
+  async findMealPlan(mealPlanId: bigint): Promise<MealPlanAudience | null> {
+    return this.prisma.mealPlan.findUnique({
+      where: { mealPlanId },
+      select: { mealPlanId: true, userId: true, visibility: true },
+    });
+  }
+
   /**
    * Find a tag by ID
    */
@@ -1,8 +1,13 @@
 import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
 import { Test, TestingModule } from '@nestjs/testing';
-import { NotFoundException, ForbiddenException } from '@nestjs/common';
+import { NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
 import { MealPlanTagsService } from './meal-plan-tags.service';
 import { MealPlanTagsRepository } from './meal-plan-tags.repository';
+import { MealPlanCollaboratorsRepository } from './meal-plan-collaborators.repository';
+import { MealPlanPermissionService } from './services/meal-plan-permission.service';
+import { MetricsService } from '@/modules/metrics/metrics.service';
+import { CacheService } from '@/shared/cache/cache.service';
+import { CursorUtil } from './utils/cursor.util';
 
 describe('MealPlanTagsService', () => {
   let service: MealPlanTagsService;
@@ -16,6 +21,7 @@ describe('MealPlanTagsService', () => {
     removeTagFromMealPlan: Mock<(...args: unknown[]) => unknown>;
     tagExistsOnMealPlan: Mock<(...args: unknown[]) => unknown>;
     getMealPlanOwner: Mock<(...args: unknown[]) => unknown>;
+    findMealPlan: Mock<(...args: unknown[]) => unknown>;
   };
 
   const testUserId = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
@@ -34,6 +40,20 @@ describe('MealPlanTagsService', () => {
     removeTagFromMealPlan: mock(() => {}),
     tagExistsOnMealPlan: mock(() => {}),
     getMealPlanOwner: mock(() => {}),
+    findMealPlan: mock(() => {}),
+  };
+
+  const mockCollaboratorsRepository = {
+    findCollaborator: mock(() => {}),
+  };
+
+  const mockMetricsService = {
+    recordTagChange: mock(() => {}),
+  };
+
+  const mockCacheService = {
+    getOrSet: mock((_key: string, _tags: string[], loader: () => Promise<unknown>) => loader()),
+    invalidate: mock(() => Promise.resolve()),
   };
 
   beforeEach(async () => {
@@ -46,6 +66,12 @@ describe('MealPlanTagsService', () => {
     mockRepository.removeTagFromMealPlan.mockReset();
     mockRepository.tagExistsOnMealPlan.mockReset();
     mockRepository.getMealPlanOwner.mockReset();
+    mockRepository.findMealPlan.mockReset();
+    mockCollaboratorsRepository.findCollaborator.mockReset();
+    mockCollaboratorsRepository.findCollaborator.mockResolvedValue(null as never);
+    mockMetricsService.recordTagChange.mockReset();
+    mockCacheService.getOrSet.mockClear();
+    mockCacheService.invalidate.mockClear();
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -54,6 +80,19 @@ describe('MealPlanTagsService', () => {
           provide: MealPlanTagsRepository,
           useValue: mockRepository,
         },
+        MealPlanPermissionService,
+        {
+          provide: MealPlanCollaboratorsRepository,
+          useValue: mockCollaboratorsRepository,
+        },
+        {
+          provide: MetricsService,
+          useValue: mockMetricsService,
+        },
+        {
+          provide: CacheService,
+          useValue: mockCacheService,
+        },
       ],
     }).compile();
 
@@ -77,6 +116,11 @@ describe('MealPlanTagsService', () => {
       expect(result.data).toHaveLength(2);
       expect(result.meta.total).toBe(2);
       expect(result.meta.page).toBe(1);
+      expect(mockCacheService.getOrSet).toHaveBeenCalledWith(
+        'meal-plan-tags:list:{"page":1,"limit":20,"sortBy":"name","sortOrder":"asc"}',
+        ['meal-plan-tags'],
+        expect.any(Function),
+      );
     });
 
     it('should handle empty results', async () => {
@@ -114,16 +158,94 @@ describe('MealPlanTagsService', () => {
       expect(result.meta.page).toBe(1);
       expect(result.meta.limit).toBe(20);
     });
+
+    it('should return a next cursor when there are more tags', async () => {
+      repository.findAllTags.mockResolvedValue([
+        { tagId: BigInt(2), name: 'Budget' },
+        { tagId: BigInt(1), name: 'Weekly' },
+      ] as never);
+      repository.countTags.mockResolvedValue(2 as never);
+
+      const result = await service.listAllTags({ page: 1, limit: 1, offset: 0 });
+
+      expect(repository.findAllTags).toHaveBeenCalledWith({
+        skip: 0,
+        take: 2,
+        sortBy: 'name',
+        sortOrder: 'asc',
+      });
+      expect(result.data).toHaveLength(1);
+      expect(result.meta.hasNext).toBe(true);
+      expect(result.meta.hasPrevious).toBe(false);
+      expect(result.meta.prevCursor).toBeNull();
+      expect(CursorUtil.decode(result.meta.nextCursor!, 'name', 'asc')).toEqual({
+        sortBy: 'name',
+        sortOrder: 'asc',
+        direction: 'next',
+        key: 'Budget',
+        id: BigInt(2),
+      });
+    });
+
+    it('should page before a cursor without counting when includeTotal is false', async () => {
+      const cursor = CursorUtil.encode({
+        sortBy: 'name',
+        sortOrder: 'asc',
+        direction: 'prev',
+        key: 'Weekly',
+        id: BigInt(1),
+      });
+      // Rows before the cursor come back nearest first
+      repository.findAllTags.mockResolvedValue([{ tagId: BigInt(2), name: 'Budget' }] as never);
+
+      const result = await service.listAllTags({
+        limit: 20,
+        offset: 0,
+        cursor,
+        includeTotal: false,
+      });
+
+      expect(repository.findAllTags).toHaveBeenCalledWith(
+        expect.objectContaining({ cursor: CursorUtil.decode(cursor, 'name', 'asc') }),
+      );
+      expect(repository.countTags).not.toHaveBeenCalled();
+      expect(result.data).toHaveLength(1);
+      expect(result.meta.total).toBeUndefined();
+      expect(result.meta.hasPrevious).toBe(false);
+      expect(result.meta.hasNext).toBe(true);
+    });
+
+    it('should reject a cursor from a differently sorted listing', async () => {
+      const cursor = CursorUtil.encode({
+        sortBy: 'name',
+        sortOrder: 'asc',
+        direction: 'next',
+        key: 'Budget',
+        id: BigInt(2),
+      });
+
+      const error = await service
+        .listAllTags({ limit: 20, offset: 0, cursor }, undefined, 'name', 'desc')
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+    });
   });
 
   describe('getMealPlanTags', () => {
+    const ownedMealPlan = (userId: string, visibility = 'PRIVATE') => ({
+      mealPlanId: testMealPlanIdBigInt,
+      userId,
+      visibility,
+    });
+
     it('should return tags for a meal plan', async () => {
       const tags = [
         { tagId: BigInt(1), name: 'Weekly' },
         { tagId: BigInt(2), name: 'Budget' },
       ];
 
-      repository.getMealPlanOwner.mockResolvedValue(testUserId as never);
+      repository.findMealPlan.mockResolvedValue(ownedMealPlan(testUserId) as never);
       repository.findTagsByMealPlanId.mockResolvedValue(tags as never);
 
       const result = await service.getMealPlanTags(testUserId, testMealPlanId);
@@ -134,7 +256,7 @@ describe('MealPlanTagsService', () => {
     });
 
     it('should throw NotFoundException when meal plan does not exist', async () => {
-      repository.getMealPlanOwner.mockResolvedValue(null as never);
+      repository.findMealPlan.mockResolvedValue(null as never);
 
       expect(service.getMealPlanTags(testUserId, testMealPlanId)).rejects.toThrow(
         NotFoundException,
@@ -142,12 +264,37 @@ describe('MealPlanTagsService', () => {
     });
 
     it('should throw ForbiddenException when user does not own meal plan', async () => {
-      repository.getMealPlanOwner.mockResolvedValue('other-user-id' as never);
+      repository.findMealPlan.mockResolvedValue(ownedMealPlan('other-user-id') as never);
 
       expect(service.getMealPlanTags(testUserId, testMealPlanId)).rejects.toThrow(
         ForbiddenException,
       );
     });
+
+    it('should return tags to an accepted viewer', async () => {
+      repository.findMealPlan.mockResolvedValue(ownedMealPlan('other-user-id') as never);
+      repository.findTagsByMealPlanId.mockResolvedValue([] as never);
+      mockCollaboratorsRepository.findCollaborator.mockResolvedValue({
+        role: 'VIEWER',
+        acceptedAt: new Date(),
+      } as never);
+
+      const result = await service.getMealPlanTags(testUserId, testMealPlanId);
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should return tags of a public meal plan to any user', async () => {
+      repository.findMealPlan.mockResolvedValue(ownedMealPlan('other-user-id', 'PUBLIC') as never);
+      repository.findTagsByMealPlanId.mockResolvedValue([
+        { tagId: BigInt(1), name: 'Weekly' },
+      ] as never);
+
+      const result = await service.getMealPlanTags(testUserId, testMealPlanId);
+
+      expect(result.data).toHaveLength(1);
+      expect(mockCollaboratorsRepository.findCollaborator).not.toHaveBeenCalled();
+    });
   });
 
   describe('addTagsToMealPlan', () => {
@@ -172,6 +319,12 @@ describe('MealPlanTagsService', () => {
         BigInt(1),
         BigInt(2),
       ]);
+      expect(mockMetricsService.recordTagChange).toHaveBeenCalledWith('added');
+      expect(mockCacheService.invalidate).toHaveBeenCalledWith(
+        `meal-plan:${testMealPlanId}`,
+        'meal-plans:trending',
+        'meal-plan-tags',
+      );
     });
 
     it('should throw NotFoundException when meal plan does not exist', async () => {
@@ -189,6 +342,18 @@ describe('MealPlanTagsService', () => {
         service.addTagsToMealPlan(testUserId, testMealPlanId, { tags: ['Test'] }),
       ).rejects.toThrow(ForbiddenException);
     });
+
+    it('should throw ForbiddenException when the collaborator is only a viewer', async () => {
+      repository.getMealPlanOwner.mockResolvedValue('other-user-id' as never);
+      mockCollaboratorsRepository.findCollaborator.mockResolvedValue({
+        role: 'VIEWER',
+        acceptedAt: new Date(),
+      } as never);
+
+      expect(
+        service.addTagsToMealPlan(testUserId, testMealPlanId, { tags: ['Test'] }),
+      ).rejects.toThrow(ForbiddenException);
+    });
   });
 
   describe('replaceTagsOnMealPlan', () => {
@@ -213,6 +378,12 @@ describe('MealPlanTagsService', () => {
         BigInt(3),
         BigInt(4),
       ]);
+      expect(mockMetricsService.recordTagChange).toHaveBeenCalledWith('replaced');
+      expect(mockCacheService.invalidate).toHaveBeenCalledWith(
+        `meal-plan:${testMealPlanId}`,
+        'meal-plans:trending',
+        'meal-plan-tags',
+      );
     });
 
     it('should throw NotFoundException when meal plan does not exist', async () => {
@@ -240,6 +411,17 @@ describe('MealPlanTagsService', () => {
       );
     });
 
+    it('should record the removal', async () => {
+      repository.getMealPlanOwner.mockResolvedValue(testUserId as never);
+      repository.tagExistsOnMealPlan.mockResolvedValue(true as never);
+      repository.removeTagFromMealPlan.mockResolvedValue(undefined as never);
+
+      await service.removeTagFromMealPlan(testUserId, testMealPlanId, testTagId);
+
+      expect(mockMetricsService.recordTagChange).toHaveBeenCalledWith('removed');
+      expect(mockCacheService.invalidate).toHaveBeenCalledTimes(1);
+    });
+
     it('should throw NotFoundException when meal plan does not exist', async () => {
       repository.getMealPlanOwner.mockResolvedValue(null as never);
 
@@ -272,7 +454,11 @@ describe('MealPlanTagsService', () => {
     });
 
     it('should handle valid BigInt string IDs', async () => {
-      repository.getMealPlanOwner.mockResolvedValue(testUserId as never);
+      repository.findMealPlan.mockResolvedValue({
+        mealPlanId: BigInt('999999999999'),
+        userId: testUserId,
+        visibility: 'PRIVATE',
+      } as never);
       repository.findTagsByMealPlanId.mockResolvedValue([] as never);
 
       const result = await service.getMealPlanTags(testUserId, '999999999999');
@@ -1,14 +1,24 @@
-import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
 import { plainToInstance } from 'class-transformer';
-import { Prisma } from '@generated/prisma/client';
 import { MealPlanTagsRepository } from './meal-plan-tags.repository';
+import { MealPlanPermissionService } from './services/meal-plan-permission.service';
+import { MetricsService } from '@/modules/metrics/metrics.service';
+import { CacheService } from '@/shared/cache/cache.service';
+import { MealPlanCacheTags } from './meal-plan-cache-tags';
+import { CursorUtil } from './utils/cursor.util';
 import {
-  PaginationDto,
+  CursorPaginationDto,
+  CursorPaginationMetaDto,
   MealPlanTagResponseDto,
   PaginatedTagsResponseDto,
   MealPlanTagsApiResponseDto,
   AddMealPlanTagsDto,
-  PaginationMetaDto,
+  MealPlanRole,
 } from './dto';
 
 export type TagsSortBy = 'name' | 'tagId';
@@ -16,40 +26,80 @@ export type SortOrder = 'asc' | 'desc';
 
 @Injectable()
 export class MealPlanTagsService {
-  constructor(private readonly repository: MealPlanTagsRepository) {}
+  constructor(
+    private readonly repository: MealPlanTagsRepository,
+    private readonly permissionService: MealPlanPermissionService,
+    private readonly metricsService: MetricsService,
+    private readonly cacheService: CacheService,
+  ) {}
 
   /**
    * List all tags in the system with pagination
    */
   async listAllTags(
-    paginationDto: PaginationDto,
+    paginationDto: CursorPaginationDto,
     nameSearch?: string,
     sortBy: TagsSortBy = 'name',
     sortOrder: SortOrder = 'asc',
+  ): Promise<PaginatedTagsResponseDto> {
+    const cacheKey = JSON.stringify({
+      page: paginationDto.page,
+      limit: paginationDto.limit,
+      cursor: paginationDto.cursor,
+      includeTotal: paginationDto.includeTotal,
+      nameSearch,
+      sortBy,
+      sortOrder,
+    });
+
+    return this.cacheService.getOrSet(
+      `meal-plan-tags:list:${cacheKey}`,
+      [MealPlanCacheTags.TAGS],
+      () => this.loadAllTags(paginationDto, nameSearch, sortBy, sortOrder),
+    );
+  }
+
+  private async loadAllTags(
+    paginationDto: CursorPaginationDto,
+    nameSearch: string | undefined,
+    sortBy: TagsSortBy,
+    sortOrder: SortOrder,
   ): Promise<PaginatedTagsResponseDto> {
     const page = paginationDto.page ?? 1;
     const limit = paginationDto.limit ?? 20;
     const skip = (page - 1) * limit;
 
-    const orderBy: Prisma.MealPlanTagOrderByWithRelationInput = {
-      [sortBy]: sortOrder,
-    };
+    const cursor = paginationDto.cursor
+      ? CursorUtil.decode(paginationDto.cursor, sortBy, sortOrder)
+      : null;
+    if (paginationDto.cursor && !cursor) {
+      throw new BadRequestException('Invalid pagination cursor for this sort order');
+    }
 
     const findOptions = {
       skip,
-      take: limit,
-      orderBy,
+      take: limit + 1,
+      sortBy,
+      sortOrder,
+      ...(cursor && { cursor }),
       ...(nameSearch && { nameSearch }),
     };
 
     const [tags, total] = await Promise.all([
       this.repository.findAllTags(findOptions),
-      this.repository.countTags(nameSearch),
+      paginationDto.includeTotal === false ? undefined : this.repository.countTags(nameSearch),
     ]);
 
-    const totalPages = Math.ceil(total / limit);
+    const tagsPage = CursorUtil.toPage(
+      tags,
+      limit,
+      cursor,
+      { sortBy, sortOrder },
+      (tag) => ({ key: tag[sortBy], id: tag.tagId }),
+      page > 1,
+    );
 
-    const data = tags.map((tag) =>
+    const data = tagsPage.items.map((tag) =>
       plainToInstance(
         MealPlanTagResponseDto,
         {
@@ -61,15 +111,8 @@ export class MealPlanTagsService {
     );
 
     const meta = plainToInstance(
-      PaginationMetaDto,
-      {
-        page,
-        limit,
-        total,
-        totalPages,
-        hasNext: page < totalPages,
-        hasPrevious: page > 1,
-      },
+      CursorPaginationMetaDto,
+      CursorUtil.toMeta(tagsPage, { limit, page: cursor ? undefined : page, total }),
       { excludeExtraneousValues: true },
     );
 
@@ -90,8 +133,8 @@ export class MealPlanTagsService {
   async getMealPlanTags(userId: string, mealPlanId: string): Promise<MealPlanTagsApiResponseDto> {
     const mealPlanIdBigInt = this.parseMealPlanId(mealPlanId);
 
-    // Check meal plan exists and user owns it
-    await this.verifyMealPlanOwnership(userId, mealPlanIdBigInt);
+    // Check meal plan exists and user can view it
+    await this.verifyMealPlanVisible(userId, mealPlanIdBigInt);
 
     const tags = await this.repository.findTagsByMealPlanId(mealPlanIdBigInt);
 
@@ -126,8 +169,8 @@ export class MealPlanTagsService {
   ): Promise<MealPlanTagsApiResponseDto> {
     const mealPlanIdBigInt = this.parseMealPlanId(mealPlanId);
 
-    // Check meal plan exists and user owns it
-    await this.verifyMealPlanOwnership(userId, mealPlanIdBigInt);
+    // Check meal plan exists and user can edit it
+    await this.verifyMealPlanRole(userId, mealPlanIdBigInt, MealPlanRole.EDITOR);
 
     // Find or create tags by name
     const tags = await this.repository.findOrCreateTagsByName(dto.tags);
@@ -135,6 +178,8 @@ export class MealPlanTagsService {
 
     // Add tags to meal plan (duplicates are ignored)
     await this.repository.addTagsToMealPlan(mealPlanIdBigInt, tagIds);
+    this.metricsService.recordTagChange('added');
+    await this.invalidateCachedTags(mealPlanIdBigInt);
 
     // Get all tags now on the meal plan
     const allTags = await this.repository.findTagsByMealPlanId(mealPlanIdBigInt);
@@ -171,8 +216,8 @@ export class MealPlanTagsService {
   ): Promise<MealPlanTagsApiResponseDto> {
     const mealPlanIdBigInt = this.parseMealPlanId(mealPlanId);
 
-    // Check meal plan exists and user owns it
-    await this.verifyMealPlanOwnership(userId, mealPlanIdBigInt);
+    // Check meal plan exists and user can edit it
+    await this.verifyMealPlanRole(userId, mealPlanIdBigInt, MealPlanRole.EDITOR);
 
     // Find or create tags by name
     const tags = await this.repository.findOrCreateTagsByName(dto.tags);
@@ -180,6 +225,8 @@ export class MealPlanTagsService {
 
     // Replace all tags on meal plan
     await this.repository.replaceTagsOnMealPlan(mealPlanIdBigInt, tagIds);
+    this.metricsService.recordTagChange('replaced');
+    await this.invalidateCachedTags(mealPlanIdBigInt);
 
     // Get all tags now on the meal plan
     const allTags = await this.repository.findTagsByMealPlanId(mealPlanIdBigInt);
@@ -213,8 +260,8 @@ export class MealPlanTagsService {
     const mealPlanIdBigInt = this.parseMealPlanId(mealPlanId);
     const tagIdBigInt = this.parseTagId(tagId);
 
-    // Check meal plan exists and user owns it
-    await this.verifyMealPlanOwnership(userId, mealPlanIdBigInt);
+    // Check meal plan exists and user can edit it
+    await this.verifyMealPlanRole(userId, mealPlanIdBigInt, MealPlanRole.EDITOR);
 
     // Check if tag exists on meal plan
     const tagExists = await this.repository.tagExistsOnMealPlan(mealPlanIdBigInt, tagIdBigInt);
@@ -225,20 +272,58 @@ export class MealPlanTagsService {
     }
 
     await this.repository.removeTagFromMealPlan(mealPlanIdBigInt, tagIdBigInt);
+    this.metricsService.recordTagChange('removed');
+    await this.invalidateCachedTags(mealPlanIdBigInt);
+  }
+
+  /**
+   * Drop the cached responses that show the tags of a meal plan, and the tag
+   * list, which gains the tags created on the fly
+   */
+  private async invalidateCachedTags(mealPlanId: bigint): Promise<void> {
+    await this.cacheService.invalidate(
+      MealPlanCacheTags.mealPlan(mealPlanId),
+      MealPlanCacheTags.TRENDING,
+      MealPlanCacheTags.TAGS,
+    );
   }
 
   /**
-   * Verify that a meal plan exists and the user owns it
+   * Verify that a meal plan exists and the user has at least the given role on it
    */
-  private async verifyMealPlanOwnership(userId: string, mealPlanId: bigint): Promise<void> {
+  private async verifyMealPlanRole(
+    userId: string,
+    mealPlanId: bigint,
+    requiredRole: MealPlanRole,
+  ): Promise<void> {
     const owner = await this.repository.getMealPlanOwner(mealPlanId);
 
     if (owner === null) {
       throw new NotFoundException(`Meal plan with ID ${mealPlanId.toString()} not found`);
     }
 
-    if (owner !== userId) {
-      throw new ForbiddenException('You do not have permission to modify tags on this meal plan');
+    await this.permissionService.assertRole(
+      { mealPlanId, userId: owner },
+      userId,
+      requiredRole,
+      'modify tags on this meal plan',
+    );
+  }
+
+  /**
+   * Verify that a meal plan exists and the user may see it, through a role or
+   * because it is public
+   */
+  private async verifyMealPlanVisible(userId: string, mealPlanId: bigint): Promise<void> {
+    const mealPlan = await this.repository.findMealPlan(mealPlanId);
+
+    if (mealPlan === null) {
+      throw new NotFoundException(`Meal plan with ID ${mealPlanId.toString()} not found`);
+    }
+
+    const canView = await this.permissionService.canView(mealPlan, userId);
+    if (!canView) {
+      throw new ForbiddenException('You do not have permission to view tags on this meal plan');
     }
   }
 
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { MealPlanTemplatesController } from './meal-plan-templates.controller';
+import { MealPlanTemplatesService } from './meal-plan-templates.service';
+import { CreateMealPlanTemplateDto, MealPlanResponseDto, MealType, PaginationDto } from './dto';
+import { ScopesGuard } from '@/modules/auth/guards/scopes.guard';
+import { MealPlanScopes } from '@/modules/auth/constants/oauth2-scopes.constant';
+import type { AuthenticatedUser } from '@/modules/auth/interfaces/jwt-payload.interface';
+
+describe('MealPlanTemplatesController', () => {
+  let controller: MealPlanTemplatesController;
+  let service: {
+    createTemplate: Mock<(...args: unknown[]) => unknown>;
+    listTemplates: Mock<(...args: unknown[]) => unknown>;
+    listLibrary: Mock<(...args: unknown[]) => unknown>;
+    getTemplate: Mock<(...args: unknown[]) => unknown>;
+    deleteTemplate: Mock<(...args: unknown[]) => unknown>;
+    instantiateTemplate: Mock<(...args: unknown[]) => unknown>;
+  };
+
+  const testUserId = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+
+  const mockUser: AuthenticatedUser = {
+    id: testUserId,
+    sub: testUserId,
+    clientId: 'test-client',
+    scopes: ['read', 'write'],
+    exp: Date.now() + 3600000,
+  };
+
+  const mockService = {
+    createTemplate: mock(() => {}),
+    listTemplates: mock(() => {}),
+    listLibrary: mock(() => {}),
+    getTemplate: mock(() => {}),
+    deleteTemplate: mock(() => {}),
+    instantiateTemplate: mock(() => {}),
+  };
+
+  const templateResponse = {
+    id: '42',
+    authorId: testUserId,
+    name: 'High Protein Week',
+    durationDays: 7,
+    isPublic: false,
+    slots: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const paginationDto: PaginationDto = { page: 1, limit: 20, offset: 0 };
+
+  const paginatedResponse = {
+    success: true,
+    data: [templateResponse],
+    meta: { page: 1, limit: 20, total: 1, totalPages: 1, hasNext: false, hasPrevious: false },
+  };
+
+  beforeEach(async () => {
+    mockService.createTemplate.mockReset();
+    mockService.listTemplates.mockReset();
+    mockService.listLibrary.mockReset();
+    mockService.getTemplate.mockReset();
+    mockService.deleteTemplate.mockReset();
+    mockService.instantiateTemplate.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [MealPlanTemplatesController],
+      providers: [
+        // Required by ScopesGuard
+        { provide: ConfigService, useValue: { get: mock(() => undefined) } },
+        {
+          provide: MealPlanTemplatesService,
+          useValue: mockService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<MealPlanTemplatesController>(MealPlanTemplatesController);
+    service = module.get(MealPlanTemplatesService);
+  });
+
+  describe('createTemplate', () => {
+    it('should create a template for the authenticated user', async () => {
+      const createDto: CreateMealPlanTemplateDto = {
+        name: 'High Protein Week',
+        slots: [{ recipeId: '456', dayOffset: 0, mealType: MealType.BREAKFAST }],
+      };
+      service.createTemplate.mockResolvedValue(templateResponse as never);
+
+      const result = await controller.createTemplate(createDto, mockUser);
+
+      expect(result).toEqual(templateResponse);
+      expect(service.createTemplate).toHaveBeenCalledWith(createDto, testUserId);
+    });
+  });
+
+  describe('listTemplates', () => {
+    it('should list the templates of the authenticated user', async () => {
+      service.listTemplates.mockResolvedValue(paginatedResponse as never);
+
+      const result = await controller.listTemplates(paginationDto, mockUser);
+
+      expect(result).toEqual(paginatedResponse);
+      expect(service.listTemplates).toHaveBeenCalledWith(testUserId, paginationDto);
+    });
+  });
+
+  describe('listLibrary', () => {
+    it('should list the shared templates', async () => {
+      service.listLibrary.mockResolvedValue(paginatedResponse as never);
+
+      const result = await controller.listLibrary(paginationDto);
+
+      expect(result).toEqual(paginatedResponse);
+      expect(service.listLibrary).toHaveBeenCalledWith(paginationDto);
+    });
+  });
+
+  describe('getTemplate', () => {
+    it('should return the template', async () => {
+      service.getTemplate.mockResolvedValue(templateResponse as never);
+
+      const result = await controller.getTemplate('42', mockUser);
+
+      expect(result).toEqual(templateResponse);
+      expect(service.getTemplate).toHaveBeenCalledWith('42', testUserId);
+    });
+  });
+
+  describe('deleteTemplate', () => {
+    it('should delete the template', async () => {
+      service.deleteTemplate.mockResolvedValue(undefined as never);
+
+      await controller.deleteTemplate('42', mockUser);
+
+      expect(service.deleteTemplate).toHaveBeenCalledWith('42', testUserId);
+    });
+  });
+
+  describe('instantiateTemplate', () => {
+    it('should create a meal plan from the template', async () => {
+      const queryDto = { startDate: new Date('2024-03-11') };
+      const mealPlanResponse = { id: '123', name: 'High Protein Week' } as MealPlanResponseDto;
+      service.instantiateTemplate.mockResolvedValue(mealPlanResponse as never);
+
+      const result = await controller.instantiateTemplate('42', queryDto, mockUser);
+
+      expect(result).toEqual(mealPlanResponse);
+      expect(service.instantiateTemplate).toHaveBeenCalledWith('42', queryDto, testUserId);
+    });
+
+    it('should propagate service errors', async () => {
+      service.instantiateTemplate.mockRejectedValue(new Error('Template not found') as never);
+
+      expect(
+        controller.instantiateTemplate('42', { startDate: new Date('2024-03-11') }, mockUser),
+      ).rejects.toThrow('Template not found');
+    });
+  });
+
+  describe('scopes', () => {
+    const guard = new ScopesGuard(
+      new Reflector(),
+      new ConfigService({ oauth2: { enabled: true } }),
+    );
+    const readOnlyUser: AuthenticatedUser = { ...mockUser, scopes: [MealPlanScopes.READ] };
+    const prototype = MealPlanTemplatesController.prototype;
+
+    const createContext = (handler: (...args: never[]) => unknown): ExecutionContext =>
+      ({
+        switchToHttp: () => ({ getRequest: () => ({ user: readOnlyUser }) }),
+        getHandler: () => handler,
+        getClass: () => MealPlanTemplatesController,
+      }) as unknown as ExecutionContext;
+
+    it('should reject read-only tokens on write routes', () => {
+      for (const handler of [
+        prototype.createTemplate,
+        prototype.deleteTemplate,
+        prototype.instantiateTemplate,
+      ]) {
+        expect(() => guard.canActivate(createContext(handler))).toThrow(ForbiddenException);
+      }
+    });
+
+    it('should accept read-only tokens on read routes', () => {
+      for (const handler of [
+        prototype.listTemplates,
+        prototype.listLibrary,
+        prototype.getTemplate,
+      ]) {
+        expect(guard.canActivate(createContext(handler))).toBe(true);
+      }
+    });
+  });
+});
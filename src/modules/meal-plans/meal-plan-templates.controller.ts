@@ -0,0 +1,322 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseInterceptors,
+  ClassSerializerInterceptor,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiQuery,
+  ApiBody,
+} from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { MealPlanTemplatesService } from './meal-plan-templates.service';
+import {
+  PaginationDto,
+  CreateMealPlanTemplateDto,
+  InstantiateMealPlanTemplateQueryDto,
+  MealPlanTemplateResponseDto,
+  PaginatedMealPlanTemplatesResponseDto,
+  MealPlanResponseDto,
+  ErrorResponseDto,
+} from './dto';
+
+import { JwtAuthGuard } from '@/modules/auth/guards/jwt-auth.guard';
+import { ScopesGuard } from '@/modules/auth/guards/scopes.guard';
+import { RequireScopes } from '@/modules/auth/decorators/require-scopes.decorator';
+import { MealPlanScopes } from '@/modules/auth/constants/oauth2-scopes.constant';
+import { CurrentUser } from '@/modules/auth/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '@/modules/auth/interfaces/jwt-payload.interface';
+
+@ApiTags('templates')
+@Controller('meal-plan-management/meal-plan-templates')
+@ApiBearerAuth('JWT-Auth')
+@UseInterceptors(ClassSerializerInterceptor)
+@UseGuards(JwtAuthGuard, ScopesGuard)
+@Throttle({ default: { limit: 100, ttl: 60000 } })
+export class MealPlanTemplatesController {
+  constructor(private readonly templatesService: MealPlanTemplatesService) {}
+
+  @Post()
+  @RequireScopes(MealPlanScopes.WRITE)
+  @HttpCode(HttpStatus.CREATED)
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @ApiOperation({
+    summary: 'Create a meal plan template',
+    description:
+      'Create a reusable template whose recipes are scheduled by day offset instead of calendar date. Set isPublic to share it in the template library.',
+    operationId: 'createMealPlanTemplate',
+  })
+  @ApiBody({
+    type: CreateMealPlanTemplateDto,
+    description: 'Template data with its recipe slots',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Template created successfully',
+    type: MealPlanTemplateResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error or day offset outside the template duration',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Recipe not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - recipe scheduled more than once in the same slot',
+    type: ErrorResponseDto,
+  })
+  async createTemplate(
+    @Body() createDto: CreateMealPlanTemplateDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MealPlanTemplateResponseDto> {
+    const userId = user.id;
+    return this.templatesService.createTemplate(createDto, userId);
+  }
+
+  @Get()
+  @RequireScopes(MealPlanScopes.READ)
+  @ApiOperation({
+    summary: 'List my meal plan templates',
+    description: 'Retrieve a paginated list of the templates created by the authenticated user',
+    operationId: 'listMealPlanTemplates',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'List of templates retrieved successfully',
+    type: PaginatedMealPlanTemplatesResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    description: 'Page number for pagination',
+    type: Number,
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: 'Number of items per page',
+    type: Number,
+  })
+  async listTemplates(
+    @Query() paginationDto: PaginationDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<PaginatedMealPlanTemplatesResponseDto> {
+    const userId = user.id;
+    return this.templatesService.listTemplates(userId, paginationDto);
+  }
+
+  @Get('library')
+  @RequireScopes(MealPlanScopes.READ)
+  @ApiOperation({
+    summary: 'Browse the template library',
+    description: 'Retrieve a paginated list of templates that their authors shared publicly',
+    operationId: 'listMealPlanTemplateLibrary',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'List of shared templates retrieved successfully',
+    type: PaginatedMealPlanTemplatesResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    description: 'Page number for pagination',
+    type: Number,
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: 'Number of items per page',
+    type: Number,
+  })
+  async listLibrary(
+    @Query() paginationDto: PaginationDto,
+  ): Promise<PaginatedMealPlanTemplatesResponseDto> {
+    return this.templatesService.listLibrary(paginationDto);
+  }
+
+  @Get(':id')
+  @RequireScopes(MealPlanScopes.READ)
+  @ApiOperation({
+    summary: 'Get a meal plan template',
+    description: 'Retrieve a template you created or one shared in the library',
+    operationId: 'getMealPlanTemplate',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Template ID',
+    type: String,
+    example: '42',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Template retrieved successfully',
+    type: MealPlanTemplateResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - template is not owned by the user and is not shared',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Template not found',
+    type: ErrorResponseDto,
+  })
+  async getTemplate(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MealPlanTemplateResponseDto> {
+    const userId = user.id;
+    return this.templatesService.getTemplate(id, userId);
+  }
+
+  @Delete(':id')
+  @RequireScopes(MealPlanScopes.WRITE)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @ApiOperation({
+    summary: 'Delete a meal plan template',
+    description: 'Delete a template you created. Meal plans already created from it are kept.',
+    operationId: 'deleteMealPlanTemplate',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Template ID',
+    type: String,
+    example: '42',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Template deleted successfully',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - template is not owned by the user',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Template not found',
+    type: ErrorResponseDto,
+  })
+  async deleteTemplate(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    const userId = user.id;
+    await this.templatesService.deleteTemplate(id, userId);
+  }
+
+  @Post(':id/instantiate')
+  @RequireScopes(MealPlanScopes.WRITE)
+  @HttpCode(HttpStatus.CREATED)
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @ApiOperation({
+    summary: 'Create a meal plan from a template',
+    description:
+      'Create a dated meal plan in your account from a template you created or one shared in the library. Each recipe is scheduled its day offset after the start date.',
+    operationId: 'instantiateMealPlanTemplate',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Template ID',
+    type: String,
+    example: '42',
+  })
+  @ApiQuery({
+    name: 'startDate',
+    required: true,
+    description: 'First day of the new meal plan (YYYY-MM-DD)',
+    type: String,
+    example: '2024-03-11',
+  })
+  @ApiQuery({
+    name: 'timezone',
+    required: false,
+    description: 'IANA time zone of the new meal plan (defaults to UTC)',
+    type: String,
+    example: 'Europe/Paris',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Meal plan created successfully',
+    type: MealPlanResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - missing or invalid start date',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - template is not owned by the user and is not shared',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Template not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - meal plan with overlapping dates exists',
+    type: ErrorResponseDto,
+  })
+  async instantiateTemplate(
+    @Param('id') id: string,
+    @Query() queryDto: InstantiateMealPlanTemplateQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MealPlanResponseDto> {
+    const userId = user.id;
+    return this.templatesService.instantiateTemplate(id, queryDto, userId);
+  }
+}
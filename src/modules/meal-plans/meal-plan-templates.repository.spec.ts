@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '@/config/database.config';
+import { MealType } from '@generated/prisma/client';
+import { MealPlanTemplatesRepository } from './meal-plan-templates.repository';
+
+describe('MealPlanTemplatesRepository', () => {
+  let repository: MealPlanTemplatesRepository;
+  let prisma: {
+    mealPlanTemplate: {
+      create: Mock<(...args: unknown[]) => unknown>;
+      findUnique: Mock<(...args: unknown[]) => unknown>;
+      findMany: Mock<(...args: unknown[]) => unknown>;
+      count: Mock<(...args: unknown[]) => unknown>;
+      delete: Mock<(...args: unknown[]) => unknown>;
+    };
+  };
+
+  const testUserId = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+  const slotsInclude = {
+    slots: {
+      orderBy: [{ dayOffset: 'asc' }, { mealType: 'asc' }],
+    },
+  };
+
+  const mockPrismaService = {
+    mealPlanTemplate: {
+      create: mock(() => {}),
+      findUnique: mock(() => {}),
+      findMany: mock(() => {}),
+      count: mock(() => {}),
+      delete: mock(() => {}),
+    },
+  };
+
+  beforeEach(async () => {
+    mockPrismaService.mealPlanTemplate.create.mockReset();
+    mockPrismaService.mealPlanTemplate.findUnique.mockReset();
+    mockPrismaService.mealPlanTemplate.findMany.mockReset();
+    mockPrismaService.mealPlanTemplate.count.mockReset();
+    mockPrismaService.mealPlanTemplate.delete.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MealPlanTemplatesRepository,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    repository = module.get<MealPlanTemplatesRepository>(MealPlanTemplatesRepository);
+    prisma = module.get(PrismaService);
+  });
+
+  describe('create', () => {
+    it('should create the template together with its slots', async () => {
+      const slots = [
+        { recipeId: BigInt(456), dayOffset: 0, mealType: MealType.BREAKFAST, servings: 2 },
+        { recipeId: BigInt(789), dayOffset: 6, mealType: MealType.DINNER },
+      ];
+      prisma.mealPlanTemplate.create.mockResolvedValue({ templateId: BigInt(42) } as never);
+
+      await repository.create({
+        userId: testUserId,
+        name: 'High Protein Week',
+        durationDays: 7,
+        isPublic: true,
+        slots,
+      });
+
+      expect(prisma.mealPlanTemplate.create).toHaveBeenCalledWith({
+        data: {
+          name: 'High Protein Week',
+          description: null,
+          durationDays: 7,
+          isPublic: true,
+          user: {
+            connect: { userId: testUserId },
+          },
+          slots: {
+            createMany: {
+              data: slots,
+            },
+          },
+        },
+        include: slotsInclude,
+      });
+    });
+  });
+
+  describe('findById', () => {
+    it('should load the template with its slots', async () => {
+      prisma.mealPlanTemplate.findUnique.mockResolvedValue(null as never);
+
+      const result = await repository.findById(BigInt(42));
+
+      expect(result).toBeNull();
+      expect(prisma.mealPlanTemplate.findUnique).toHaveBeenCalledWith({
+        where: { templateId: BigInt(42) },
+        include: slotsInclude,
+      });
+    });
+  });
+
+  describe('findByUser', () => {
+    it('should return a page of the user templates, newest first', async () => {
+      prisma.mealPlanTemplate.findMany.mockResolvedValue([] as never);
+
+      await repository.findByUser(testUserId, { skip: 20, take: 10 });
+
+      expect(prisma.mealPlanTemplate.findMany).toHaveBeenCalledWith({
+        where: { userId: testUserId },
+        skip: 20,
+        take: 10,
+        orderBy: { createdAt: 'desc' },
+        include: slotsInclude,
+      });
+    });
+  });
+
+  describe('findPublic', () => {
+    it('should only return templates shared in the library', async () => {
+      prisma.mealPlanTemplate.findMany.mockResolvedValue([] as never);
+      prisma.mealPlanTemplate.count.mockResolvedValue(0 as never);
+
+      await repository.findPublic({ skip: 0, take: 20 });
+      await repository.countPublic();
+
+      expect(prisma.mealPlanTemplate.findMany).toHaveBeenCalledWith({
+        where: { isPublic: true },
+        skip: 0,
+        take: 20,
+        orderBy: { createdAt: 'desc' },
+        include: slotsInclude,
+      });
+      expect(prisma.mealPlanTemplate.count).toHaveBeenCalledWith({
+        where: { isPublic: true },
+      });
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete the template', async () => {
+      prisma.mealPlanTemplate.delete.mockResolvedValue({} as never);
+
+      await repository.delete(BigInt(42));
+
+      expect(prisma.mealPlanTemplate.delete).toHaveBeenCalledWith({
+        where: { templateId: BigInt(42) },
+      });
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '@/config/database.config';
+import { MealPlanTemplate, MealPlanTemplateSlot, MealType } from '@generated/prisma/client';
+
+export interface MealPlanTemplateWithSlots extends MealPlanTemplate {
+  slots: MealPlanTemplateSlot[];
+}
+
+export interface CreateMealPlanTemplateSlotData {
+  recipeId: bigint;
+  dayOffset: number;
+  mealType: MealType;
+  servings?: number;
+}
+
+export interface CreateMealPlanTemplateData {
+  userId: string;
+  name: string;
+  description?: string;
+  durationDays: number;
+  isPublic: boolean;
+  slots: CreateMealPlanTemplateSlotData[];
+}
+
+export interface FindTemplatesOptions {
+  skip: number;
+  take: number;
+}
+
+const SLOTS_INCLUDE = {
+  slots: {
+    orderBy: [{ dayOffset: 'asc' as const }, { mealType: 'asc' as const }],
+  },
+};
+
+@Injectable()
+export class MealPlanTemplatesRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Create a template together with its slots
+   */
+  async create(data: CreateMealPlanTemplateData): Promise<MealPlanTemplateWithSlots> {
+    return this.prisma.mealPlanTemplate.create({
+      data: {
+        name: data.name,
+        description: data.description ?? null,
+        durationDays: data.durationDays,
+        isPublic: data.isPublic,
+        user: {
+          connect: { userId: data.userId },
+        },
+        slots: {
+          createMany: {
+            data: data.slots,
+          },
+        },
+      },
+      include: SLOTS_INCLUDE,
+    });
+  }
+
+  /**
+   * Find a template with its slots
+   */
+  async findById(templateId: bigint): Promise<MealPlanTemplateWithSlots | null> {
+    return this.prisma.mealPlanTemplate.findUnique({
+      where: { templateId },
+      include: SLOTS_INCLUDE,
+    });
+  }
+
+  /**
+   * Find the templates created by a user, newest first
+   */
+  async findByUser(
+    userId: string,
+    options: FindTemplatesOptions,
+  ): Promise<MealPlanTemplateWithSlots[]> {
+    return this.prisma.mealPlanTemplate.findMany({
+      where: { userId },
+      skip: options.skip,
+      take: options.take,
+      orderBy: { createdAt: 'desc' },
+      include: SLOTS_INCLUDE,
+    });
+  }
+
+  /**
+   * Count the templates created by a user
+   */
+  async countByUser(userId: string): Promise<number> {
+    return this.prisma.mealPlanTemplate.count({
+      where: { userId },
+    });
+  }
+
+  /**
+   * Find templates that their authors shared in the library, newest first
+   */
+  async findPublic(options: FindTemplatesOptions): Promise<MealPlanTemplateWithSlots[]> {
+    return this.prisma.mealPlanTemplate.findMany({
+      where: { isPublic: true },
+      skip: options.skip,
+      take: options.take,
+      orderBy: { createdAt: 'desc' },
+      include: SLOTS_INCLUDE,
+    });
+  }
+
+  /**
+   * Count templates shared in the library
+   */
+  async countPublic(): Promise<number> {
+    return this.prisma.mealPlanTemplate.count({
+      where: { isPublic: true },
+    });
+  }
+
+  /**
+   * Delete a template and its slots
+   */
+  async delete(templateId: bigint): Promise<void> {
+    await this.prisma.mealPlanTemplate.delete({
+      where: { templateId },
+    });
+  }
+}
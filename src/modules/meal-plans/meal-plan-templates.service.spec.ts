@@ -0,0 +1,447 @@
+import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TransactionService } from '@/shared/database/transaction.service';
+import { MetricsService } from '@/modules/metrics/metrics.service';
+import { MealPlanTemplatesService } from './meal-plan-templates.service';
+import { MealPlanTemplatesRepository } from './meal-plan-templates.repository';
+import { MealPlansRepository } from './meal-plans.repository';
+import { MealPlanValidationService } from './services/meal-plan-validation.service';
+import { RecipeIdResolverService } from './services/recipe-id-resolver.service';
+import {
+  CreateMealPlanTemplateDto,
+  MealPlanTemplateResponseDto,
+  MealPlanResponseDto,
+  MealType,
+  PaginationDto,
+} from './dto';
+
+describe('MealPlanTemplatesService', () => {
+  let service: MealPlanTemplatesService;
+  let repository: {
+    create: Mock<(...args: unknown[]) => unknown>;
+    findById: Mock<(...args: unknown[]) => unknown>;
+    findByUser: Mock<(...args: unknown[]) => unknown>;
+    countByUser: Mock<(...args: unknown[]) => unknown>;
+    findPublic: Mock<(...args: unknown[]) => unknown>;
+    countPublic: Mock<(...args: unknown[]) => unknown>;
+    delete: Mock<(...args: unknown[]) => unknown>;
+  };
+  let mealPlansRepository: {
+    recipeExists: Mock<(...args: unknown[]) => unknown>;
+    findRecipeIdByLegacyUuid: Mock<(...args: unknown[]) => unknown>;
+    instantiateTemplate: Mock<(...args: unknown[]) => unknown>;
+  };
+  let validationService: {
+    validateCreateMealPlanOrThrow: Mock<(...args: unknown[]) => unknown>;
+  };
+
+  const testUserId = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+  const otherUserId = 'b1ffcd88-8d1a-4ef8-bb6d-6bb9bd380a22';
+
+  const mockRepository = {
+    create: mock(() => {}),
+    findById: mock(() => {}),
+    findByUser: mock(() => {}),
+    countByUser: mock(() => {}),
+    findPublic: mock(() => {}),
+    countPublic: mock(() => {}),
+    delete: mock(() => {}),
+  };
+
+  const mockMealPlansRepository = {
+    recipeExists: mock(() => {}),
+    findRecipeIdByLegacyUuid: mock(() => {}),
+    instantiateTemplate: mock(() => {}),
+  };
+
+  const mockValidationService = {
+    validateCreateMealPlanOrThrow: mock(() => {}),
+  };
+
+  const mockMetricsService = {
+    recordMealPlanCreated: mock(() => {}),
+  };
+
+  const mockTx = {};
+
+  const mockTransactionService = {
+    executeTransaction: mock((fn: (tx: unknown) => Promise<unknown>) => fn(mockTx)),
+  };
+
+  const createTemplate = (overrides: Record<string, unknown> = {}) => ({
+    templateId: BigInt(42),
+    userId: testUserId,
+    name: 'High Protein Week',
+    description: 'Seven days of high protein meals',
+    durationDays: 7,
+    isPublic: false,
+    createdAt: new Date('2024-03-01T10:00:00.000Z'),
+    updatedAt: new Date('2024-03-01T10:00:00.000Z'),
+    slots: [
+      {
+        templateId: BigInt(42),
+        recipeId: BigInt(456),
+        dayOffset: 0,
+        mealType: MealType.BREAKFAST,
+        servings: 2,
+      },
+    ],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    mockRepository.create.mockReset();
+    mockRepository.findById.mockReset();
+    mockRepository.findByUser.mockReset();
+    mockRepository.countByUser.mockReset();
+    mockRepository.findPublic.mockReset();
+    mockRepository.countPublic.mockReset();
+    mockRepository.delete.mockReset();
+    mockMealPlansRepository.recipeExists.mockReset();
+    mockMealPlansRepository.findRecipeIdByLegacyUuid.mockReset();
+    mockMealPlansRepository.instantiateTemplate.mockReset();
+    mockValidationService.validateCreateMealPlanOrThrow.mockReset();
+    mockTransactionService.executeTransaction.mockClear();
+    mockMetricsService.recordMealPlanCreated.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MealPlanTemplatesService,
+        {
+          provide: MealPlanTemplatesRepository,
+          useValue: mockRepository,
+        },
+        {
+          provide: MealPlansRepository,
+          useValue: mockMealPlansRepository,
+        },
+        {
+          provide: MealPlanValidationService,
+          useValue: mockValidationService,
+        },
+        RecipeIdResolverService,
+        {
+          provide: ConfigService,
+          useValue: { get: mock(() => undefined) },
+        },
+        {
+          provide: TransactionService,
+          useValue: mockTransactionService,
+        },
+        {
+          provide: MetricsService,
+          useValue: mockMetricsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<MealPlanTemplatesService>(MealPlanTemplatesService);
+    repository = module.get(MealPlanTemplatesRepository);
+    mealPlansRepository = module.get(MealPlansRepository);
+    validationService = module.get(MealPlanValidationService);
+  });
+
+  describe('createTemplate', () => {
+    const createDto: CreateMealPlanTemplateDto = {
+      name: 'High Protein Week',
+      durationDays: 7,
+      isPublic: true,
+      slots: [
+        { recipeId: '456', dayOffset: 0, mealType: MealType.BREAKFAST, servings: 2 },
+        { recipeId: '456', dayOffset: 1, mealType: MealType.BREAKFAST },
+      ],
+    };
+
+    it('should create the template and return the response DTO', async () => {
+      mealPlansRepository.recipeExists.mockResolvedValue(true as never);
+      repository.create.mockResolvedValue(createTemplate({ isPublic: true }) as never);
+
+      const result = await service.createTemplate(createDto, testUserId);
+
+      expect(mealPlansRepository.recipeExists).toHaveBeenCalledTimes(1);
+      expect(mealPlansRepository.recipeExists).toHaveBeenCalledWith(BigInt(456));
+      expect(repository.create).toHaveBeenCalledWith({
+        userId: testUserId,
+        name: 'High Protein Week',
+        durationDays: 7,
+        isPublic: true,
+        slots: [
+          { recipeId: BigInt(456), dayOffset: 0, mealType: MealType.BREAKFAST, servings: 2 },
+          { recipeId: BigInt(456), dayOffset: 1, mealType: MealType.BREAKFAST },
+        ],
+      });
+      expect(result).toBeInstanceOf(MealPlanTemplateResponseDto);
+      expect(result.id).toBe('42');
+      expect(result.authorId).toBe(testUserId);
+      expect(result.slots).toEqual([
+        { recipeId: '456', dayOffset: 0, mealType: MealType.BREAKFAST, servings: 2 },
+      ]);
+    });
+
+    it('should store slots given with legacy recipe UUIDs under the numeric recipe ID', async () => {
+      const legacyUuid = '550e8400-e29b-41d4-a716-446655440000';
+      mealPlansRepository.findRecipeIdByLegacyUuid.mockResolvedValue(BigInt(456) as never);
+      mealPlansRepository.recipeExists.mockResolvedValue(true as never);
+      repository.create.mockResolvedValue(createTemplate() as never);
+
+      await service.createTemplate(
+        {
+          ...createDto,
+          slots: [{ recipeId: legacyUuid, dayOffset: 0, mealType: MealType.BREAKFAST }],
+        },
+        testUserId,
+      );
+
+      expect(mealPlansRepository.findRecipeIdByLegacyUuid).toHaveBeenCalledWith(legacyUuid);
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          slots: [{ recipeId: BigInt(456), dayOffset: 0, mealType: MealType.BREAKFAST }],
+        }),
+      );
+    });
+
+    it('should reject a slot outside the template duration', async () => {
+      expect(
+        service.createTemplate(
+          {
+            ...createDto,
+            durationDays: 3,
+            slots: [{ recipeId: '456', dayOffset: 3, mealType: MealType.DINNER }],
+          },
+          testUserId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a recipe scheduled twice in the same slot', async () => {
+      expect(
+        service.createTemplate(
+          {
+            ...createDto,
+            slots: [
+              { recipeId: '456', dayOffset: 2, mealType: MealType.DINNER },
+              { recipeId: '456', dayOffset: 2, mealType: MealType.DINNER, servings: 4 },
+            ],
+          },
+          testUserId,
+        ),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should throw NotFoundException when a recipe does not exist', async () => {
+      mealPlansRepository.recipeExists.mockResolvedValue(false as never);
+
+      expect(service.createTemplate(createDto, testUserId)).rejects.toThrow(
+        'Recipe with ID 456 not found',
+      );
+    });
+  });
+
+  describe('listTemplates', () => {
+    it('should return a page of the user templates with pagination metadata', async () => {
+      repository.findByUser.mockResolvedValue([createTemplate()] as never);
+      repository.countByUser.mockResolvedValue(21 as never);
+
+      const result = await service.listTemplates(testUserId, { page: 2, limit: 10, offset: 10 });
+
+      expect(repository.findByUser).toHaveBeenCalledWith(testUserId, { skip: 10, take: 10 });
+      expect(result.success).toBe(true);
+      expect(result.data).toHaveLength(1);
+      expect(result.meta).toEqual({
+        page: 2,
+        limit: 10,
+        total: 21,
+        totalPages: 3,
+        hasNext: true,
+        hasPrevious: true,
+      });
+    });
+  });
+
+  describe('listLibrary', () => {
+    it('should return shared templates of all authors', async () => {
+      repository.findPublic.mockResolvedValue([
+        createTemplate({ userId: otherUserId, isPublic: true }),
+      ] as never);
+      repository.countPublic.mockResolvedValue(1 as never);
+
+      const result = await service.listLibrary(new PaginationDto());
+
+      expect(repository.findPublic).toHaveBeenCalledWith({ skip: 0, take: 20 });
+      expect(result.data[0]?.authorId).toBe(otherUserId);
+      expect(result.meta.hasNext).toBe(false);
+    });
+  });
+
+  describe('getTemplate', () => {
+    it('should return a template owned by the user', async () => {
+      repository.findById.mockResolvedValue(createTemplate() as never);
+
+      const result = await service.getTemplate('42', testUserId);
+
+      expect(repository.findById).toHaveBeenCalledWith(BigInt(42));
+      expect(result.name).toBe('High Protein Week');
+    });
+
+    it('should return a template shared by another user', async () => {
+      repository.findById.mockResolvedValue(
+        createTemplate({ userId: otherUserId, isPublic: true }) as never,
+      );
+
+      const result = await service.getTemplate('42', testUserId);
+
+      expect(result.authorId).toBe(otherUserId);
+    });
+
+    it('should throw ForbiddenException for a private template of another user', async () => {
+      repository.findById.mockResolvedValue(createTemplate({ userId: otherUserId }) as never);
+
+      expect(service.getTemplate('42', testUserId)).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should throw NotFoundException when the template does not exist', async () => {
+      repository.findById.mockResolvedValue(null as never);
+
+      expect(service.getTemplate('42', testUserId)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should throw NotFoundException for an invalid template ID', async () => {
+      expect(service.getTemplate('invalid', testUserId)).rejects.toThrow(
+        'Invalid meal plan template ID: invalid',
+      );
+      expect(repository.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteTemplate', () => {
+    it('should delete a template owned by the user', async () => {
+      repository.findById.mockResolvedValue(createTemplate() as never);
+
+      await service.deleteTemplate('42', testUserId);
+
+      expect(repository.delete).toHaveBeenCalledWith(BigInt(42));
+    });
+
+    it('should not allow deleting a shared template of another user', async () => {
+      repository.findById.mockResolvedValue(
+        createTemplate({ userId: otherUserId, isPublic: true }) as never,
+      );
+
+      expect(service.deleteTemplate('42', testUserId)).rejects.toThrow(ForbiddenException);
+      expect(repository.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('instantiateTemplate', () => {
+    const startDate = new Date('2024-03-11');
+    const endDate = new Date('2024-03-17');
+
+    it('should create a meal plan spanning the template duration from the start date', async () => {
+      repository.findById.mockResolvedValue(
+        createTemplate({ userId: otherUserId, isPublic: true }) as never,
+      );
+      validationService.validateCreateMealPlanOrThrow.mockResolvedValue({
+        name: 'High Protein Week',
+        description: 'Seven days of high protein meals',
+        startDate,
+        endDate,
+      } as never);
+      mealPlansRepository.instantiateTemplate.mockResolvedValue({
+        mealPlanId: BigInt(123),
+        userId: testUserId,
+        name: 'High Protein Week',
+        startDate,
+        endDate,
+        mealPlanRecipes: [],
+      } as never);
+
+      const result = await service.instantiateTemplate('42', { startDate }, testUserId);
+
+      expect(validationService.validateCreateMealPlanOrThrow).toHaveBeenCalledWith(
+        {
+          name: 'High Protein Week',
+          description: 'Seven days of high protein meals',
+          startDate,
+          endDate,
+        },
+        { userId: testUserId },
+      );
+      expect(mockTransactionService.executeTransaction).toHaveBeenCalledTimes(1);
+      expect(mealPlansRepository.instantiateTemplate).toHaveBeenCalledWith(
+        BigInt(42),
+        {
+          userId: testUserId,
+          name: 'High Protein Week',
+          description: 'Seven days of high protein meals',
+          startDate,
+          endDate,
+        },
+        mockTx,
+      );
+      expect(result).toBeInstanceOf(MealPlanResponseDto);
+      expect(result.name).toBe('High Protein Week');
+      expect(result.tags).toEqual([]);
+      expect(mockMetricsService.recordMealPlanCreated).toHaveBeenCalledWith('template');
+    });
+
+    it('should create the meal plan in the given time zone', async () => {
+      repository.findById.mockResolvedValue(createTemplate() as never);
+      validationService.validateCreateMealPlanOrThrow.mockResolvedValue({
+        name: 'High Protein Week',
+        startDate,
+        endDate,
+        timezone: 'Asia/Tokyo',
+      } as never);
+      mealPlansRepository.instantiateTemplate.mockResolvedValue({
+        mealPlanId: BigInt(123),
+        userId: testUserId,
+        name: 'High Protein Week',
+        startDate,
+        endDate,
+        timezone: 'Asia/Tokyo',
+        mealPlanRecipes: [],
+      } as never);
+
+      await service.instantiateTemplate('42', { startDate, timezone: 'Asia/Tokyo' }, testUserId);
+
+      expect(validationService.validateCreateMealPlanOrThrow).toHaveBeenCalledWith(
+        expect.objectContaining({ timezone: 'Asia/Tokyo' }),
+        { userId: testUserId },
+      );
+      expect(mealPlansRepository.instantiateTemplate).toHaveBeenCalledWith(
+        BigInt(42),
+        expect.objectContaining({ timezone: 'Asia/Tokyo' }),
+        mockTx,
+      );
+    });
+
+    it('should not create a meal plan from a private template of another user', async () => {
+      repository.findById.mockResolvedValue(createTemplate({ userId: otherUserId }) as never);
+
+      expect(service.instantiateTemplate('42', { startDate }, testUserId)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mealPlansRepository.instantiateTemplate).not.toHaveBeenCalled();
+    });
+
+    it('should propagate validation errors without creating a meal plan', async () => {
+      repository.findById.mockResolvedValue(createTemplate() as never);
+      validationService.validateCreateMealPlanOrThrow.mockRejectedValue(
+        new BadRequestException('Validation failed') as never,
+      );
+
+      expect(service.instantiateTemplate('42', { startDate }, testUserId)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mealPlansRepository.instantiateTemplate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,287 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { TransactionService } from '@/shared/database/transaction.service';
+import { MetricsService } from '@/modules/metrics/metrics.service';
+import {
+  MealPlanTemplatesRepository,
+  MealPlanTemplateWithSlots,
+} from './meal-plan-templates.repository';
+import { CreateMealPlanData, MealPlansRepository } from './meal-plans.repository';
+import { MealPlanValidationService } from './services/meal-plan-validation.service';
+import { RecipeIdResolverService } from './services/recipe-id-resolver.service';
+import { RecipeIdUtil } from './utils/recipe-id.util';
+import { DateOnlyUtil } from './utils/date-only.util';
+import {
+  CreateMealPlanTemplateDto,
+  InstantiateMealPlanTemplateQueryDto,
+  MealPlanTemplateResponseDto,
+  PaginatedMealPlanTemplatesResponseDto,
+  PaginationDto,
+  PaginationMetaDto,
+  MealPlanResponseDto,
+} from './dto';
+
+@Injectable()
+export class MealPlanTemplatesService {
+  constructor(
+    private readonly repository: MealPlanTemplatesRepository,
+    private readonly mealPlansRepository: MealPlansRepository,
+    private readonly validationService: MealPlanValidationService,
+    private readonly recipeIdResolver: RecipeIdResolverService,
+    private readonly transactionService: TransactionService,
+    private readonly metricsService: MetricsService,
+  ) {}
+
+  /**
+   * Create a template with its day-offset slots
+   */
+  async createTemplate(
+    createDto: CreateMealPlanTemplateDto,
+    userId: string,
+  ): Promise<MealPlanTemplateResponseDto> {
+    const durationDays = createDto.durationDays ?? 7;
+    const slots = createDto.slots ?? [];
+    const recipeIds = await this.recipeIdResolver.resolveMany(slots.map((slot) => slot.recipeId));
+
+    const slotKeys = new Set<string>();
+    for (const slot of slots) {
+      if (slot.dayOffset >= durationDays) {
+        throw new BadRequestException(
+          `Day offset ${slot.dayOffset} is outside the template duration of ${durationDays} days`,
+        );
+      }
+
+      const key = `${recipeIds.get(slot.recipeId)}:${slot.dayOffset}:${slot.mealType}`;
+      if (slotKeys.has(key)) {
+        throw new ConflictException(
+          `Recipe ${slot.recipeId} is scheduled more than once for ${slot.mealType} on day offset ${slot.dayOffset}`,
+        );
+      }
+      slotKeys.add(key);
+    }
+
+    for (const [recipeId, resolvedId] of recipeIds) {
+      const recipeExists = await this.mealPlansRepository.recipeExists(resolvedId);
+      if (!recipeExists) {
+        throw new NotFoundException(`Recipe with ID ${recipeId} not found`);
+      }
+    }
+
+    const template = await this.repository.create({
+      userId,
+      name: createDto.name,
+      ...(createDto.description && { description: createDto.description }),
+      durationDays,
+      isPublic: createDto.isPublic ?? false,
+      slots: slots.map((slot) => ({
+        recipeId: recipeIds.get(slot.recipeId)!,
+        dayOffset: slot.dayOffset,
+        mealType: slot.mealType,
+        ...(slot.servings && { servings: slot.servings }),
+      })),
+    });
+
+    return this.toResponseDto(template);
+  }
+
+  /**
+   * List the templates created by the user
+   */
+  async listTemplates(
+    userId: string,
+    paginationDto: PaginationDto,
+  ): Promise<PaginatedMealPlanTemplatesResponseDto> {
+    const { page, limit, skip } = this.getPagination(paginationDto);
+
+    const [templates, total] = await Promise.all([
+      this.repository.findByUser(userId, { skip, take: limit }),
+      this.repository.countByUser(userId),
+    ]);
+
+    return this.toPaginatedResponse(templates, total, page, limit);
+  }
+
+  /**
+   * List the templates that authors shared in the library
+   */
+  async listLibrary(paginationDto: PaginationDto): Promise<PaginatedMealPlanTemplatesResponseDto> {
+    const { page, limit, skip } = this.getPagination(paginationDto);
+
+    const [templates, total] = await Promise.all([
+      this.repository.findPublic({ skip, take: limit }),
+      this.repository.countPublic(),
+    ]);
+
+    return this.toPaginatedResponse(templates, total, page, limit);
+  }
+
+  /**
+   * Get a template owned by the user or shared in the library
+   */
+  async getTemplate(id: string, userId: string): Promise<MealPlanTemplateResponseDto> {
+    const template = await this.getVisibleTemplate(id, userId);
+    return this.toResponseDto(template);
+  }
+
+  /**
+   * Delete a template owned by the user. Meal plans created from it are kept.
+   */
+  async deleteTemplate(id: string, userId: string): Promise<void> {
+    const template = await this.findTemplate(id);
+    if (template.userId !== userId) {
+      throw new ForbiddenException(`Access denied to meal plan template ${id} for user ${userId}`);
+    }
+
+    await this.repository.delete(template.templateId);
+  }
+
+  /**
+   * Create a dated meal plan from a template, starting on the given date
+   */
+  async instantiateTemplate(
+    id: string,
+    queryDto: InstantiateMealPlanTemplateQueryDto,
+    userId: string,
+  ): Promise<MealPlanResponseDto> {
+    const template = await this.getVisibleTemplate(id, userId);
+
+    const startDate = DateOnlyUtil.toDateOnly(queryDto.startDate);
+    const endDate = DateOnlyUtil.addDays(startDate, template.durationDays - 1);
+
+    // Validate and sanitize the new plan data (includes the date overlap check)
+    const sanitizedData = await this.validationService.validateCreateMealPlanOrThrow(
+      {
+        name: template.name,
+        description: template.description ?? undefined,
+        startDate,
+        endDate,
+        ...(queryDto.timezone && { timezone: queryDto.timezone }),
+      },
+      { userId },
+    );
+
+    const targetData: CreateMealPlanData & { startDate: Date } = {
+      userId,
+      name: sanitizedData.name,
+      startDate: sanitizedData.startDate,
+      endDate: sanitizedData.endDate,
+    };
+
+    if (sanitizedData.description) {
+      targetData.description = sanitizedData.description;
+    }
+
+    if (sanitizedData.timezone) {
+      targetData.timezone = sanitizedData.timezone;
+    }
+
+    const mealPlan = await this.transactionService.executeTransaction((tx) =>
+      this.mealPlansRepository.instantiateTemplate(template.templateId, targetData, tx),
+    );
+    this.metricsService.recordMealPlanCreated('template');
+
+    const response = plainToInstance(MealPlanResponseDto, mealPlan, {
+      excludeExtraneousValues: true,
+    });
+    response.tags = [];
+
+    return response;
+  }
+
+  private async getVisibleTemplate(id: string, userId: string): Promise<MealPlanTemplateWithSlots> {
+    const template = await this.findTemplate(id);
+    if (template.userId !== userId && !template.isPublic) {
+      throw new ForbiddenException(`Access denied to meal plan template ${id} for user ${userId}`);
+    }
+
+    return template;
+  }
+
+  private async findTemplate(id: string): Promise<MealPlanTemplateWithSlots> {
+    const template = await this.repository.findById(this.parseTemplateId(id));
+    if (!template) {
+      throw new NotFoundException(`Meal plan template with ID ${id} not found`);
+    }
+
+    return template;
+  }
+
+  private getPagination(paginationDto: PaginationDto): {
+    page: number;
+    limit: number;
+    skip: number;
+  } {
+    const page = paginationDto.page ?? 1;
+    const limit = paginationDto.limit ?? 20;
+    return { page, limit, skip: (page - 1) * limit };
+  }
+
+  private toPaginatedResponse(
+    templates: MealPlanTemplateWithSlots[],
+    total: number,
+    page: number,
+    limit: number,
+  ): PaginatedMealPlanTemplatesResponseDto {
+    const totalPages = Math.ceil(total / limit);
+
+    const meta = plainToInstance(
+      PaginationMetaDto,
+      {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrevious: page > 1,
+      },
+      { excludeExtraneousValues: true },
+    );
+
+    return plainToInstance(
+      PaginatedMealPlanTemplatesResponseDto,
+      {
+        success: true,
+        data: templates.map((template) => this.toResponseDto(template)),
+        meta,
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  private toResponseDto(template: MealPlanTemplateWithSlots): MealPlanTemplateResponseDto {
+    return plainToInstance(
+      MealPlanTemplateResponseDto,
+      {
+        id: template.templateId.toString(),
+        authorId: template.userId,
+        name: template.name,
+        description: template.description,
+        durationDays: template.durationDays,
+        isPublic: template.isPublic,
+        slots: template.slots.map((slot) => ({
+          recipeId: RecipeIdUtil.toCanonical(slot.recipeId),
+          dayOffset: slot.dayOffset,
+          mealType: slot.mealType,
+          servings: slot.servings,
+        })),
+        createdAt: template.createdAt,
+        updatedAt: template.updatedAt,
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  private parseTemplateId(id: string): bigint {
+    try {
+      return BigInt(id);
+    } catch {
+      throw new NotFoundException(`Invalid meal plan template ID: ${id}`);
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach, mock, type Mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ServiceAuthGuard } from '@/modules/auth/guards/service-auth.guard';
+import { TokenValidationService } from '@/modules/auth/services/token-validation.service';
+import { MealPlanUserDataController } from './meal-plan-user-data.controller';
+import { MealPlanUserDataService } from './meal-plan-user-data.service';
+import { TransferMealPlansDto } from './dto';
+import type { AuthenticatedUser } from '@/modules/auth/interfaces/jwt-payload.interface';
+import configuration from '@/config/configuration';
+
+describe('MealPlanUserDataController', () => {
+  let controller: MealPlanUserDataController;
+  let service: {
+    exportUserData: Mock<(...args: unknown[]) => unknown>;
+    eraseUserData: Mock<(...args: unknown[]) => unknown>;
+    transferMealPlans: Mock<(...args: unknown[]) => unknown>;
+  };
+
+  const testUserId = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+  const otherUserId = 'b1ffcd88-8d1a-4ef8-bb6d-6bb9bd380a22';
+
+  const mockServiceUser: AuthenticatedUser = {
+    id: 'user-management-service',
+    sub: 'user-management-service',
+    clientId: 'user-management-service',
+    scopes: ['user_data:admin'],
+    exp: Date.now() + 3600000,
+  };
+
+  const mockService = {
+    exportUserData: mock(() => {}),
+    eraseUserData: mock(() => {}),
+    transferMealPlans: mock(() => {}),
+  };
+
+  beforeEach(async () => {
+    mockService.exportUserData.mockReset();
+    mockService.eraseUserData.mockReset();
+    mockService.transferMealPlans.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [MealPlanUserDataController],
+      providers: [
+        {
+          provide: MealPlanUserDataService,
+          useValue: mockService,
+        },
+        // Required by ServiceAuthGuard
+        { provide: ConfigService, useValue: { get: mock(() => undefined) } },
+        { provide: TokenValidationService, useValue: { validateToken: mock(() => {}) } },
+      ],
+    }).compile();
+
+    controller = module.get<MealPlanUserDataController>(MealPlanUserDataController);
+    service = module.get(MealPlanUserDataService);
+  });
+
+  describe('exportUserData', () => {
+    it('should export the data of the user on behalf of the calling service', async () => {
+      const exportResponse = {
+        userId: testUserId,
+        exportedAt: new Date(),
+        mealPlans: [],
+        favorites: [],
+        tags: [],
+      };
+      service.exportUserData.mockResolvedValue(exportResponse as never);
+
+      const result = await controller.exportUserData(testUserId, mockServiceUser);
+
+      expect(result).toEqual(exportResponse);
+      expect(service.exportUserData).toHaveBeenCalledWith(testUserId, 'user-management-service');
+    });
+  });
+
+  describe('eraseUserData', () => {
+    it('should erase the data of the user with the requested mode', async () => {
+      const erasureResponse = { userId: testUserId, mode: 'anonymize' };
+      service.eraseUserData.mockResolvedValue(erasureResponse as never);
+
+      const result = await controller.eraseUserData(
+        testUserId,
+        { mode: 'anonymize' },
+        mockServiceUser,
+      );
+
+      expect(result).toEqual(erasureResponse as never);
+      expect(service.eraseUserData).toHaveBeenCalledWith(
+        testUserId,
+        'anonymize',
+        'user-management-service',
+      );
+    });
+  });
+
+  describe('transferMealPlans', () => {
+    it('should transfer the meal plans to the target user', async () => {
+      const transferDto: TransferMealPlansDto = { toUserId: otherUserId, mealPlanIds: ['123'] };
+      const transferResponse = {
+        fromUserId: testUserId,
+        toUserId: otherUserId,
+        mealPlanIds: ['123'],
+      };
+      service.transferMealPlans.mockResolvedValue(transferResponse as never);
+
+      const result = await controller.transferMealPlans(testUserId, transferDto, mockServiceUser);
+
+      expect(result).toEqual(transferResponse);
+      expect(service.transferMealPlans).toHaveBeenCalledWith(
+        testUserId,
+        transferDto,
+        'user-management-service',
+      );
+    });
+  });
+
+  describe('with the default configuration', () => {
+    let originalEnv: NodeJS.ProcessEnv;
+
+    beforeEach(() => {
+      originalEnv = { ...process.env };
+      delete process.env.OAUTH2_SERVICE_ENABLED;
+      delete process.env.OAUTH2_SERVICE_TO_SERVICE_ENABLED;
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it('should reject every route without authenticating the caller', async () => {
+      const tokenValidationService = { validateToken: mock(() => {}) };
+      const guard = new ServiceAuthGuard(
+        new ConfigService(configuration()),
+        tokenValidationService as unknown as TokenValidationService,
+        new Reflector(),
+      );
+      const prototype = MealPlanUserDataController.prototype;
+
+      for (const handler of [
+        prototype.exportUserData,
+        prototype.eraseUserData,
+        prototype.transferMealPlans,
+      ]) {
+        const context = {
+          switchToHttp: () => ({ getRequest: () => ({ headers: {} }) }),
+          getHandler: () => handler,
+          getClass: () => MealPlanUserDataController,
+        } as unknown as ExecutionContext;
+
+        const error = await guard.canActivate(context).catch((err: unknown) => err);
+
+        expect(error).toBeInstanceOf(ForbiddenException);
+      }
+      expect(tokenValidationService.validateToken).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  UseInterceptors,
+  ClassSerializerInterceptor,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBody } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { MealPlanUserDataService } from './meal-plan-user-data.service';
+import {
+  EraseUserDataQueryDto,
+  TransferMealPlansDto,
+  UserDataExportResponseDto,
+  UserDataErasureResponseDto,
+  MealPlanTransferResponseDto,
+  ErrorResponseDto,
+} from './dto';
+
+import { ServiceAuthGuard } from '@/modules/auth/guards/service-auth.guard';
+import { RequireScopes } from '@/modules/auth/decorators/require-scopes.decorator';
+import { UserDataScopes } from '@/modules/auth/constants/oauth2-scopes.constant';
+import { CurrentUser } from '@/modules/auth/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '@/modules/auth/interfaces/jwt-payload.interface';
+
+@ApiTags('user-data')
+@Controller('meal-plan-management/admin/users/:userId')
+@UseInterceptors(ClassSerializerInterceptor)
+@UseGuards(ServiceAuthGuard)
+@RequireScopes(UserDataScopes.ADMIN)
+@Throttle({ default: { limit: 20, ttl: 60000 } })
+@ApiParam({
+  name: 'userId',
+  description: 'ID of the user whose data is managed',
+  example: '123e4567-e89b-12d3-a456-426614174002',
+})
+@ApiResponse({
+  status: 401,
+  description: 'Unauthorized - service authentication required',
+  type: ErrorResponseDto,
+})
+@ApiResponse({
+  status: 403,
+  description:
+    'Forbidden - token is missing the user_data:admin scope, or service authentication is disabled',
+  type: ErrorResponseDto,
+})
+export class MealPlanUserDataController {
+  constructor(private readonly userDataService: MealPlanUserDataService) {}
+
+  @Get('data-export')
+  @ApiOperation({
+    summary: "Export a user's meal plan data",
+    description:
+      'Return every meal plan the user owns, with its recipes and tags, and the meal plans the user marked as favorite. For GDPR access requests from other services.',
+    operationId: 'exportUserData',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'User data exported successfully',
+    type: UserDataExportResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid user ID',
+    type: ErrorResponseDto,
+  })
+  async exportUserData(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @CurrentUser() service: AuthenticatedUser,
+  ): Promise<UserDataExportResponseDto> {
+    return this.userDataService.exportUserData(userId, service.clientId);
+  }
+
+  @Delete('data')
+  @ApiOperation({
+    summary: "Erase a user's meal plan data",
+    description:
+      'Delete the meal plans, templates, favorites, collaborations and calendar feed of the user, or anonymize them by handing public and unlisted meal plans and public templates to the configured anonymous user. The user record is left to the user management service.',
+    operationId: 'eraseUserData',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'User data erased successfully',
+    type: UserDataErasureResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid mode, or anonymization without an anonymous user',
+    type: ErrorResponseDto,
+  })
+  async eraseUserData(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Query() queryDto: EraseUserDataQueryDto,
+    @CurrentUser() service: AuthenticatedUser,
+  ): Promise<UserDataErasureResponseDto> {
+    return this.userDataService.eraseUserData(userId, queryDto.mode, service.clientId);
+  }
+
+  @Post('meal-plans/transfer')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Transfer meal plan ownership',
+    description:
+      'Make another user the owner of the listed meal plans, or of every meal plan of the user when none are listed. The transfer is all or nothing.',
+    operationId: 'transferUserMealPlans',
+  })
+  @ApiBody({
+    type: TransferMealPlansDto,
+    description: 'New owner and the meal plans to transfer',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Meal plans transferred successfully',
+    type: MealPlanTransferResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error or transfer to the current owner',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Target user not found, or a listed meal plan is not owned by the user',
+    type: ErrorResponseDto,
+  })
+  async transferMealPlans(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() transferDto: TransferMealPlansDto,
+    @CurrentUser() service: AuthenticatedUser,
+  ): Promise<MealPlanTransferResponseDto> {
+    return this.userDataService.transferMealPlans(userId, transferDto, service.clientId);
+  }
+}
@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '@/config/database.config';
+import { MealPlanVisibility, UserDataAuditAction } from '@generated/prisma/client';
+import { MealPlanUserDataRepository } from './meal-plan-user-data.repository';
+
+describe('MealPlanUserDataRepository', () => {
+  let repository: MealPlanUserDataRepository;
+
+  const testUserId = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+  const otherUserId = 'b1ffcd88-8d1a-4ef8-bb6d-6bb9bd380a22';
+  const anonymousUserId = '00000000-0000-4000-8000-000000000000';
+
+  const mockPrismaService = {
+    user: { count: mock(() => {}) },
+    mealPlan: {
+      findMany: mock(() => {}),
+      deleteMany: mock(() => {}),
+      updateMany: mock(() => {}),
+    },
+    mealPlanFavorite: { findMany: mock(() => {}), deleteMany: mock(() => {}) },
+    mealPlanCollaborator: { deleteMany: mock(() => {}) },
+    mealPlanCalendarFeed: { deleteMany: mock(() => {}) },
+    mealPlanEngagementEvent: { updateMany: mock(() => {}) },
+    mealPlanTemplate: { deleteMany: mock(() => {}), updateMany: mock(() => {}) },
+    userDataAuditLog: { create: mock(() => {}) },
+  };
+
+  beforeEach(async () => {
+    for (const delegate of Object.values(mockPrismaService)) {
+      Object.values(delegate).forEach((fn) => fn.mockReset());
+    }
+    mockPrismaService.mealPlanFavorite.deleteMany.mockResolvedValue({ count: 3 } as never);
+    mockPrismaService.mealPlanCollaborator.deleteMany.mockResolvedValue({ count: 2 } as never);
+    mockPrismaService.mealPlanCalendarFeed.deleteMany.mockResolvedValue({ count: 1 } as never);
+    mockPrismaService.mealPlanEngagementEvent.updateMany.mockResolvedValue({ count: 4 } as never);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MealPlanUserDataRepository,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    repository = module.get<MealPlanUserDataRepository>(MealPlanUserDataRepository);
+  });
+
+  describe('findUserData', () => {
+    it('should load the meal plans with recipes and tags and the favorites of the user', async () => {
+      mockPrismaService.mealPlan.findMany.mockResolvedValue([] as never);
+      mockPrismaService.mealPlanFavorite.findMany.mockResolvedValue([] as never);
+
+      const result = await repository.findUserData(testUserId);
+
+      expect(result).toEqual({ mealPlans: [], favorites: [] });
+      expect(mockPrismaService.mealPlan.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: testUserId },
+          include: expect.objectContaining({
+            mealPlanRecipes: expect.any(Object),
+            mealPlanTagJunctions: { select: { tag: { select: { name: true } } } },
+          }),
+        }),
+      );
+      expect(mockPrismaService.mealPlanFavorite.findMany).toHaveBeenCalledWith({
+        where: { userId: testUserId },
+        orderBy: { favoritedAt: 'asc' },
+      });
+    });
+  });
+
+  describe('deleteUserData', () => {
+    it('should delete everything the user owns and unlink them from other content', async () => {
+      mockPrismaService.mealPlan.findMany.mockResolvedValue([
+        { mealPlanId: BigInt(1) },
+        { mealPlanId: BigInt(2) },
+      ] as never);
+      mockPrismaService.mealPlanTemplate.deleteMany.mockResolvedValue({ count: 1 } as never);
+
+      const result = await repository.deleteUserData(testUserId);
+
+      expect(result).toEqual({
+        deletedMealPlanIds: [BigInt(1), BigInt(2)],
+        anonymizedMealPlanIds: [],
+        deletedTemplates: 1,
+        anonymizedTemplates: 0,
+        deletedFavorites: 3,
+        deletedCollaborations: 2,
+      });
+      expect(mockPrismaService.mealPlanCollaborator.deleteMany).toHaveBeenCalledWith({
+        where: { OR: [{ userId: testUserId }, { invitedBy: testUserId }] },
+      });
+      expect(mockPrismaService.mealPlanCalendarFeed.deleteMany).toHaveBeenCalledWith({
+        where: { userId: testUserId },
+      });
+      expect(mockPrismaService.mealPlanEngagementEvent.updateMany).toHaveBeenCalledWith({
+        where: { userId: testUserId },
+        data: { userId: null },
+      });
+      expect(mockPrismaService.mealPlan.deleteMany).toHaveBeenCalledWith({
+        where: { userId: testUserId },
+      });
+    });
+
+    it('should use the transaction client when one is passed', async () => {
+      const tx = {
+        ...mockPrismaService,
+        mealPlan: { ...mockPrismaService.mealPlan, findMany: mock(() => Promise.resolve([])) },
+        mealPlanTemplate: {
+          ...mockPrismaService.mealPlanTemplate,
+          deleteMany: mock(() => Promise.resolve({ count: 0 })),
+        },
+      };
+
+      await repository.deleteUserData(testUserId, tx as never);
+
+      expect(tx.mealPlan.findMany).toHaveBeenCalled();
+      expect(tx.mealPlanTemplate.deleteMany).toHaveBeenCalled();
+      expect(mockPrismaService.mealPlanTemplate.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('anonymizeUserData', () => {
+    it('should delete private content and hand shared content to the anonymous user', async () => {
+      mockPrismaService.mealPlan.findMany.mockResolvedValue([
+        { mealPlanId: BigInt(1), visibility: MealPlanVisibility.PRIVATE },
+        { mealPlanId: BigInt(2), visibility: MealPlanVisibility.PUBLIC },
+        { mealPlanId: BigInt(3), visibility: MealPlanVisibility.UNLISTED },
+      ] as never);
+      mockPrismaService.mealPlanTemplate.deleteMany.mockResolvedValue({ count: 2 } as never);
+      mockPrismaService.mealPlanTemplate.updateMany.mockResolvedValue({ count: 1 } as never);
+
+      const result = await repository.anonymizeUserData(testUserId, anonymousUserId);
+
+      expect(result).toEqual({
+        deletedMealPlanIds: [BigInt(1)],
+        anonymizedMealPlanIds: [BigInt(2), BigInt(3)],
+        deletedTemplates: 2,
+        anonymizedTemplates: 1,
+        deletedFavorites: 3,
+        deletedCollaborations: 2,
+      });
+      expect(mockPrismaService.mealPlanTemplate.deleteMany).toHaveBeenCalledWith({
+        where: { userId: testUserId, isPublic: false },
+      });
+      expect(mockPrismaService.mealPlanTemplate.updateMany).toHaveBeenCalledWith({
+        where: { userId: testUserId, isPublic: true },
+        data: { userId: anonymousUserId },
+      });
+      expect(mockPrismaService.mealPlan.deleteMany).toHaveBeenCalledWith({
+        where: { mealPlanId: { in: [BigInt(1)] } },
+      });
+      expect(mockPrismaService.mealPlan.updateMany).toHaveBeenCalledWith({
+        where: { mealPlanId: { in: [BigInt(2), BigInt(3)] } },
+        data: { userId: anonymousUserId },
+      });
+    });
+  });
+
+  describe('transferMealPlans', () => {
+    it('should move the listed meal plans owned by the user', async () => {
+      mockPrismaService.mealPlan.findMany.mockResolvedValue([{ mealPlanId: BigInt(123) }] as never);
+
+      const result = await repository.transferMealPlans(testUserId, otherUserId, [
+        BigInt(123),
+        BigInt(999),
+      ]);
+
+      expect(result).toEqual([BigInt(123)]);
+      expect(mockPrismaService.mealPlan.findMany).toHaveBeenCalledWith({
+        where: { userId: testUserId, mealPlanId: { in: [BigInt(123), BigInt(999)] } },
+        select: { mealPlanId: true },
+        orderBy: { mealPlanId: 'asc' },
+      });
+      expect(mockPrismaService.mealPlan.updateMany).toHaveBeenCalledWith({
+        where: { mealPlanId: { in: [BigInt(123)] } },
+        data: { userId: otherUserId },
+      });
+      expect(mockPrismaService.mealPlanCollaborator.deleteMany).toHaveBeenCalledWith({
+        where: { mealPlanId: { in: [BigInt(123)] }, userId: otherUserId },
+      });
+    });
+
+    it('should move every meal plan of the user when none are listed', async () => {
+      mockPrismaService.mealPlan.findMany.mockResolvedValue([] as never);
+
+      await repository.transferMealPlans(testUserId, otherUserId, undefined);
+
+      expect(mockPrismaService.mealPlan.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: testUserId } }),
+      );
+    });
+  });
+
+  describe('createAuditEntry', () => {
+    it('should store the entry with empty optional fields as null', async () => {
+      await repository.createAuditEntry({
+        action: UserDataAuditAction.EXPORT,
+        subjectUserId: testUserId,
+        details: { mealPlans: 2 },
+      });
+
+      expect(mockPrismaService.userDataAuditLog.create).toHaveBeenCalledWith({
+        data: {
+          action: UserDataAuditAction.EXPORT,
+          subjectUserId: testUserId,
+          targetUserId: null,
+          actorClientId: null,
+          details: { mealPlans: 2 },
+        },
+      });
+    });
+  });
+
+  describe('userExists', () => {
+    it('should check whether the user exists', async () => {
+      mockPrismaService.user.count.mockResolvedValue(1 as never);
+
+      expect(await repository.userExists(otherUserId)).toBe(true);
+      expect(mockPrismaService.user.count).toHaveBeenCalledWith({ where: { userId: otherUserId } });
+    });
+  });
+});
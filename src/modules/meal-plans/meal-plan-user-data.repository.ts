@@ -0,0 +1,237 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '@/config/database.config';
+import { TransactionClient } from '@/shared/database/transaction.service';
+import {
+  MealPlan,
+  MealPlanFavorite,
+  MealPlanRecipe,
+  MealPlanVisibility,
+  Prisma,
+  UserDataAuditAction,
+} from '@generated/prisma/client';
+
+export interface ExportedMealPlan extends MealPlan {
+  mealPlanRecipes: MealPlanRecipe[];
+  mealPlanTagJunctions: { tag: { name: string } }[];
+}
+
+export interface UserDataSnapshot {
+  mealPlans: ExportedMealPlan[];
+  favorites: MealPlanFavorite[];
+}
+
+export interface UserDataErasureResult {
+  deletedMealPlanIds: bigint[];
+  anonymizedMealPlanIds: bigint[];
+  deletedTemplates: number;
+  anonymizedTemplates: number;
+  deletedFavorites: number;
+  deletedCollaborations: number;
+}
+
+export interface CreateUserDataAuditData {
+  action: UserDataAuditAction;
+  subjectUserId: string;
+  targetUserId?: string;
+  actorClientId?: string;
+  details: Prisma.InputJsonObject;
+}
+
+// Meal plans that stay reachable by others when their owner is anonymized
+const SHARED_VISIBILITIES: MealPlanVisibility[] = [
+  MealPlanVisibility.PUBLIC,
+  MealPlanVisibility.UNLISTED,
+];
+
+/**
+ * Reads and rewrites everything a user owns or is linked to, for data export,
+ * erasure and ownership transfers requested by other services. Each change is
+ * recorded in the user data audit log.
+ */
+@Injectable()
+export class MealPlanUserDataRepository {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Check whether a user exists
+   */
+  async userExists(userId: string): Promise<boolean> {
+    const count = await this.prisma.user.count({
+      where: { userId },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Load the meal plans, with recipes and tags, and the favorites of a user
+   */
+  async findUserData(userId: string): Promise<UserDataSnapshot> {
+    const [mealPlans, favorites] = await Promise.all([
+      this.prisma.mealPlan.findMany({
+        where: { userId },
+        include: {
+          mealPlanRecipes: {
+            orderBy: [{ mealDate: 'asc' }, { mealType: 'asc' }],
+          },
+          mealPlanTagJunctions: {
+            select: { tag: { select: { name: true } } },
+          },
+        },
+        orderBy: { mealPlanId: 'asc' },
+      }),
+      this.prisma.mealPlanFavorite.findMany({
+        where: { userId },
+        orderBy: { favoritedAt: 'asc' },
+      }),
+    ]);
+
+    return { mealPlans, favorites };
+  }
+
+  /**
+   * Delete all meal plans, templates, favorites, collaborations and the
+   * calendar feed of a user. Engagement events the user caused on other
+   * meal plans are kept for trending, without the user ID.
+   */
+  async deleteUserData(userId: string, tx?: TransactionClient): Promise<UserDataErasureResult> {
+    const client = tx ?? this.prisma;
+
+    const mealPlans = await client.mealPlan.findMany({
+      where: { userId },
+      select: { mealPlanId: true },
+    });
+
+    const links = await this.removeUserLinks(userId, client);
+    const templates = await client.mealPlanTemplate.deleteMany({ where: { userId } });
+    await client.mealPlan.deleteMany({ where: { userId } });
+
+    return {
+      deletedMealPlanIds: mealPlans.map((mealPlan) => mealPlan.mealPlanId),
+      anonymizedMealPlanIds: [],
+      deletedTemplates: templates.count,
+      anonymizedTemplates: 0,
+      ...links,
+    };
+  }
+
+  /**
+   * Erase a user's personal data but keep the content others can reach:
+   * public and unlisted meal plans and public templates are handed to the
+   * anonymous user, everything else is deleted as in deleteUserData.
+   */
+  async anonymizeUserData(
+    userId: string,
+    anonymousUserId: string,
+    tx?: TransactionClient,
+  ): Promise<UserDataErasureResult> {
+    const client = tx ?? this.prisma;
+
+    const mealPlans = await client.mealPlan.findMany({
+      where: { userId },
+      select: { mealPlanId: true, visibility: true },
+    });
+    const sharedMealPlanIds = mealPlans
+      .filter((mealPlan) => SHARED_VISIBILITIES.includes(mealPlan.visibility))
+      .map((mealPlan) => mealPlan.mealPlanId);
+    const privateMealPlanIds = mealPlans
+      .filter((mealPlan) => !SHARED_VISIBILITIES.includes(mealPlan.visibility))
+      .map((mealPlan) => mealPlan.mealPlanId);
+
+    const links = await this.removeUserLinks(userId, client);
+    const deletedTemplates = await client.mealPlanTemplate.deleteMany({
+      where: { userId, isPublic: false },
+    });
+    const anonymizedTemplates = await client.mealPlanTemplate.updateMany({
+      where: { userId, isPublic: true },
+      data: { userId: anonymousUserId },
+    });
+    await client.mealPlan.deleteMany({
+      where: { mealPlanId: { in: privateMealPlanIds } },
+    });
+    await client.mealPlan.updateMany({
+      where: { mealPlanId: { in: sharedMealPlanIds } },
+      data: { userId: anonymousUserId },
+    });
+
+    return {
+      deletedMealPlanIds: privateMealPlanIds,
+      anonymizedMealPlanIds: sharedMealPlanIds,
+      deletedTemplates: deletedTemplates.count,
+      anonymizedTemplates: anonymizedTemplates.count,
+      ...links,
+    };
+  }
+
+  /**
+   * Move meal plans from one user to another. Collaborator records of the
+   * new owner on those meal plans are removed, since owners need none.
+   *
+   * @param mealPlanIds - Meal plans to move, or every meal plan of the user when omitted
+   * @returns IDs of the meal plans that were moved
+   */
+  async transferMealPlans(
+    fromUserId: string,
+    toUserId: string,
+    mealPlanIds: bigint[] | undefined,
+    tx?: TransactionClient,
+  ): Promise<bigint[]> {
+    const client = tx ?? this.prisma;
+
+    const mealPlans = await client.mealPlan.findMany({
+      where: {
+        userId: fromUserId,
+        ...(mealPlanIds && { mealPlanId: { in: mealPlanIds } }),
+      },
+      select: { mealPlanId: true },
+      orderBy: { mealPlanId: 'asc' },
+    });
+    const transferredIds = mealPlans.map((mealPlan) => mealPlan.mealPlanId);
+
+    await client.mealPlan.updateMany({
+      where: { mealPlanId: { in: transferredIds } },
+      data: { userId: toUserId },
+    });
+    await client.mealPlanCollaborator.deleteMany({
+      where: { mealPlanId: { in: transferredIds }, userId: toUserId },
+    });
+
+    return transferredIds;
+  }
+
+  /**
+   * Record an export, erasure or transfer in the user data audit log
+   */
+  async createAuditEntry(data: CreateUserDataAuditData, tx?: TransactionClient): Promise<void> {
+    const client = tx ?? this.prisma;
+
+    await client.userDataAuditLog.create({
+      data: {
+        action: data.action,
+        subjectUserId: data.subjectUserId,
+        targetUserId: data.targetUserId ?? null,
+        actorClientId: data.actorClientId ?? null,
+        details: data.details,
+      },
+    });
+  }
+
+  private async removeUserLinks(
+    userId: string,
+    client: TransactionClient | PrismaService,
+  ): Promise<Pick<UserDataErasureResult, 'deletedFavorites' | 'deletedCollaborations'>> {
+    const favorites = await client.mealPlanFavorite.deleteMany({ where: { userId } });
+    const collaborations = await client.mealPlanCollaborator.deleteMany({
+      where: { OR: [{ userId }, { invitedBy: userId }] },
+    });
+    await client.mealPlanCalendarFeed.deleteMany({ where: { userId } });
+    await client.mealPlanEngagementEvent.updateMany({
+      where: { userId },
+      data: { userId: null },
+    });
+
+    return {
+      deletedFavorites: favorites.count,
+      deletedCollaborations: collaborations.count,
+    };
+  }
+}
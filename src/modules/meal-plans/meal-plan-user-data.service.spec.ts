@@ -0,0 +1,340 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UserDataAuditAction } from '@generated/prisma/client';
+import { TransactionService } from '@/shared/database/transaction.service';
+import { CacheService } from '@/shared/cache/cache.service';
+import { MealPlanUserDataService } from './meal-plan-user-data.service';
+import { MealPlanUserDataRepository } from './meal-plan-user-data.repository';
+import { MealType, MealPlanStatus, MealPlanVisibility } from './dto';
+
+describe('MealPlanUserDataService', () => {
+  let service: MealPlanUserDataService;
+
+  const testUserId = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+  const otherUserId = 'b1ffcd88-8d1a-4ef8-bb6d-6bb9bd380a22';
+  const anonymousUserId = '00000000-0000-4000-8000-000000000000';
+  const clientId = 'user-management-service';
+
+  const mockRepository = {
+    userExists: mock(() => {}),
+    findUserData: mock(() => {}),
+    deleteUserData: mock(() => {}),
+    anonymizeUserData: mock(() => {}),
+    transferMealPlans: mock(() => {}),
+    createAuditEntry: mock(() => {}),
+  };
+
+  const mockTx = {};
+
+  const mockTransactionService = {
+    executeTransaction: mock((fn: (tx: unknown) => Promise<unknown>) => fn(mockTx)),
+  };
+
+  const mockCacheService = {
+    invalidate: mock(() => Promise.resolve()),
+  };
+
+  let userDataConfig: { anonymousUserId?: string };
+
+  const erasureResult = (overrides: Record<string, unknown> = {}) => ({
+    deletedMealPlanIds: [BigInt(1), BigInt(2)],
+    anonymizedMealPlanIds: [],
+    deletedTemplates: 1,
+    anonymizedTemplates: 0,
+    deletedFavorites: 3,
+    deletedCollaborations: 2,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    Object.values(mockRepository).forEach((fn) => fn.mockReset());
+    mockRepository.createAuditEntry.mockResolvedValue(undefined as never);
+    mockTransactionService.executeTransaction.mockClear();
+    mockCacheService.invalidate.mockClear();
+    userDataConfig = { anonymousUserId };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MealPlanUserDataService,
+        { provide: MealPlanUserDataRepository, useValue: mockRepository },
+        { provide: TransactionService, useValue: mockTransactionService },
+        { provide: CacheService, useValue: mockCacheService },
+        { provide: ConfigService, useValue: { get: mock(() => userDataConfig) } },
+      ],
+    }).compile();
+
+    service = module.get<MealPlanUserDataService>(MealPlanUserDataService);
+  });
+
+  describe('exportUserData', () => {
+    it('should export meal plans with recipes and tags, favorites and distinct tags', async () => {
+      const createdAt = new Date('2024-03-01T10:00:00.000Z');
+      mockRepository.findUserData.mockResolvedValue({
+        mealPlans: [
+          {
+            mealPlanId: BigInt(1),
+            userId: testUserId,
+            name: 'Week 1',
+            description: null,
+            startDate: new Date('2024-03-04'),
+            endDate: new Date('2024-03-10'),
+            status: MealPlanStatus.ACTIVE,
+            visibility: MealPlanVisibility.PRIVATE,
+            timezone: 'Europe/Paris',
+            createdAt,
+            updatedAt: createdAt,
+            mealPlanRecipes: [
+              {
+                mealPlanId: BigInt(1),
+                recipeId: BigInt(456),
+                mealDate: new Date('2024-03-04'),
+                mealType: MealType.DINNER,
+                servings: 2,
+              },
+            ],
+            mealPlanTagJunctions: [{ tag: { name: 'quick' } }, { tag: { name: 'vegetarian' } }],
+          },
+          {
+            mealPlanId: BigInt(2),
+            userId: testUserId,
+            name: 'Week 2',
+            description: 'Leftovers',
+            startDate: null,
+            endDate: null,
+            status: MealPlanStatus.DRAFT,
+            visibility: MealPlanVisibility.PUBLIC,
+            timezone: 'UTC',
+            createdAt,
+            updatedAt: createdAt,
+            mealPlanRecipes: [],
+            mealPlanTagJunctions: [{ tag: { name: 'quick' } }],
+          },
+        ],
+        favorites: [{ userId: testUserId, mealPlanId: BigInt(9), favoritedAt: createdAt }],
+      } as never);
+
+      const result = await service.exportUserData(testUserId, clientId);
+
+      expect(result.userId).toBe(testUserId);
+      expect(result.mealPlans).toHaveLength(2);
+      expect(result.mealPlans[0]?.id).toBe('1');
+      expect(result.mealPlans[0]?.timezone).toBe('Europe/Paris');
+      expect(result.mealPlans[0]?.recipes).toEqual([
+        expect.objectContaining({ recipeId: '456', mealType: MealType.DINNER, servings: 2 }),
+      ]);
+      expect(result.mealPlans[0]?.tags).toEqual(['quick', 'vegetarian']);
+      expect(result.favorites).toEqual([
+        expect.objectContaining({ mealPlanId: '9', favoritedAt: createdAt }),
+      ]);
+      expect(result.tags).toEqual(['quick', 'vegetarian']);
+      expect(mockRepository.createAuditEntry).toHaveBeenCalledWith({
+        action: UserDataAuditAction.EXPORT,
+        subjectUserId: testUserId,
+        actorClientId: clientId,
+        details: { mealPlans: 2, favorites: 1 },
+      });
+    });
+
+    it('should record the export without an actor when service authentication is disabled', async () => {
+      mockRepository.findUserData.mockResolvedValue({ mealPlans: [], favorites: [] } as never);
+
+      const result = await service.exportUserData(testUserId);
+
+      expect(result.mealPlans).toEqual([]);
+      expect(mockRepository.createAuditEntry).toHaveBeenCalledWith({
+        action: UserDataAuditAction.EXPORT,
+        subjectUserId: testUserId,
+        details: { mealPlans: 0, favorites: 0 },
+      });
+    });
+  });
+
+  describe('eraseUserData', () => {
+    it('should delete the data of the user and record it in the same transaction', async () => {
+      mockRepository.deleteUserData.mockResolvedValue(erasureResult() as never);
+
+      const result = await service.eraseUserData(testUserId, 'delete', clientId);
+
+      expect(mockRepository.deleteUserData).toHaveBeenCalledWith(testUserId, mockTx);
+      expect(mockRepository.anonymizeUserData).not.toHaveBeenCalled();
+      expect(mockRepository.createAuditEntry).toHaveBeenCalledWith(
+        {
+          action: UserDataAuditAction.DELETE,
+          subjectUserId: testUserId,
+          actorClientId: clientId,
+          details: {
+            deletedMealPlans: 2,
+            anonymizedMealPlans: 0,
+            deletedTemplates: 1,
+            anonymizedTemplates: 0,
+            deletedFavorites: 3,
+            deletedCollaborations: 2,
+          },
+        },
+        mockTx,
+      );
+      expect(result).toEqual(
+        expect.objectContaining({ userId: testUserId, mode: 'delete', deletedMealPlans: 2 }),
+      );
+      expect(mockCacheService.invalidate).toHaveBeenCalledWith(
+        'meal-plan:1',
+        'meal-plan:2',
+        'meal-plans:trending',
+        'meal-plan-tags',
+      );
+    });
+
+    it('should hand shared content to the anonymous user when anonymizing', async () => {
+      mockRepository.anonymizeUserData.mockResolvedValue(
+        erasureResult({
+          deletedMealPlanIds: [BigInt(1)],
+          anonymizedMealPlanIds: [BigInt(2)],
+          anonymizedTemplates: 1,
+        }) as never,
+      );
+
+      const result = await service.eraseUserData(testUserId, 'anonymize', clientId);
+
+      expect(mockRepository.anonymizeUserData).toHaveBeenCalledWith(
+        testUserId,
+        anonymousUserId,
+        mockTx,
+      );
+      expect(mockRepository.createAuditEntry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: UserDataAuditAction.ANONYMIZE,
+          targetUserId: anonymousUserId,
+        }),
+        mockTx,
+      );
+      expect(result.anonymizedMealPlans).toBe(1);
+      expect(result.anonymizedTemplates).toBe(1);
+      expect(mockCacheService.invalidate).toHaveBeenCalledWith(
+        'meal-plan:1',
+        'meal-plan:2',
+        'meal-plans:trending',
+        'meal-plan-tags',
+      );
+    });
+
+    it('should not touch the cache when the user owned no meal plans', async () => {
+      mockRepository.deleteUserData.mockResolvedValue(
+        erasureResult({ deletedMealPlanIds: [] }) as never,
+      );
+
+      await service.eraseUserData(testUserId, 'delete');
+
+      expect(mockCacheService.invalidate).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to anonymize without a configured anonymous user', async () => {
+      userDataConfig = {};
+
+      const thrownError = await service.eraseUserData(testUserId, 'anonymize').catch((err) => err);
+
+      expect(thrownError).toBeInstanceOf(BadRequestException);
+      expect(mockTransactionService.executeTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to anonymize the anonymous user', async () => {
+      const thrownError = await service
+        .eraseUserData(anonymousUserId, 'anonymize')
+        .catch((err) => err);
+
+      expect(thrownError).toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('transferMealPlans', () => {
+    it('should transfer the listed meal plans and record the transfer', async () => {
+      mockRepository.userExists.mockResolvedValue(true as never);
+      mockRepository.transferMealPlans.mockResolvedValue([BigInt(123), BigInt(124)] as never);
+
+      const result = await service.transferMealPlans(
+        testUserId,
+        { toUserId: otherUserId, mealPlanIds: ['123', '124'] },
+        clientId,
+      );
+
+      expect(mockRepository.transferMealPlans).toHaveBeenCalledWith(
+        testUserId,
+        otherUserId,
+        [BigInt(123), BigInt(124)],
+        mockTx,
+      );
+      expect(mockRepository.createAuditEntry).toHaveBeenCalledWith(
+        {
+          action: UserDataAuditAction.TRANSFER,
+          subjectUserId: testUserId,
+          targetUserId: otherUserId,
+          actorClientId: clientId,
+          details: { mealPlanIds: ['123', '124'] },
+        },
+        mockTx,
+      );
+      expect(result).toEqual(
+        expect.objectContaining({
+          fromUserId: testUserId,
+          toUserId: otherUserId,
+          mealPlanIds: ['123', '124'],
+        }),
+      );
+      expect(mockCacheService.invalidate).toHaveBeenCalledWith(
+        'meal-plan:123',
+        'meal-plan:124',
+        'meal-plans:trending',
+        'meal-plan-tags',
+      );
+    });
+
+    it('should transfer every meal plan of the user when none are listed', async () => {
+      mockRepository.userExists.mockResolvedValue(true as never);
+      mockRepository.transferMealPlans.mockResolvedValue([BigInt(1)] as never);
+
+      const result = await service.transferMealPlans(testUserId, { toUserId: otherUserId });
+
+      expect(mockRepository.transferMealPlans).toHaveBeenCalledWith(
+        testUserId,
+        otherUserId,
+        undefined,
+        mockTx,
+      );
+      expect(result.mealPlanIds).toEqual(['1']);
+    });
+
+    it('should roll back when a listed meal plan is not owned by the user', async () => {
+      mockRepository.userExists.mockResolvedValue(true as never);
+      mockRepository.transferMealPlans.mockResolvedValue([BigInt(123)] as never);
+
+      const thrownError = await service
+        .transferMealPlans(testUserId, { toUserId: otherUserId, mealPlanIds: ['123', '999'] })
+        .catch((err) => err);
+
+      expect(thrownError).toBeInstanceOf(NotFoundException);
+      expect(mockRepository.createAuditEntry).not.toHaveBeenCalled();
+      expect(mockCacheService.invalidate).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when the target user does not exist', async () => {
+      mockRepository.userExists.mockResolvedValue(false as never);
+
+      const thrownError = await service
+        .transferMealPlans(testUserId, { toUserId: otherUserId })
+        .catch((err) => err);
+
+      expect(thrownError).toBeInstanceOf(NotFoundException);
+      expect(mockRepository.transferMealPlans).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException when transferring to the current owner', async () => {
+      const thrownError = await service
+        .transferMealPlans(testUserId, { toUserId: testUserId })
+        .catch((err) => err);
+
+      expect(thrownError).toBeInstanceOf(BadRequestException);
+      expect(mockRepository.userExists).not.toHaveBeenCalled();
+    });
+  });
+});
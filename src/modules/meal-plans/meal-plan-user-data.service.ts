@@ -0,0 +1,229 @@
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { plainToInstance } from 'class-transformer';
+import { UserDataAuditAction } from '@generated/prisma/client';
+import { UserDataConfig } from '@/config/configuration';
+import { TransactionService } from '@/shared/database/transaction.service';
+import { CacheService } from '@/shared/cache/cache.service';
+import {
+  MealPlanUserDataRepository,
+  UserDataErasureResult,
+} from './meal-plan-user-data.repository';
+import { MealPlanCacheTags } from './meal-plan-cache-tags';
+import { RecipeIdUtil } from './utils/recipe-id.util';
+import {
+  UserDataErasureMode,
+  UserDataExportResponseDto,
+  UserDataErasureResponseDto,
+  TransferMealPlansDto,
+  MealPlanTransferResponseDto,
+} from './dto';
+
+/**
+ * Exports, erases and transfers the meal plan data of a user on behalf of
+ * other services, e.g. when the user management service handles a GDPR
+ * request or closes an account. Every call is written to the audit log.
+ */
+@Injectable()
+export class MealPlanUserDataService {
+  constructor(
+    private readonly repository: MealPlanUserDataRepository,
+    private readonly transactionService: TransactionService,
+    private readonly cacheService: CacheService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Export the meal plans, favorites and tags of a user
+   */
+  async exportUserData(userId: string, actorClientId?: string): Promise<UserDataExportResponseDto> {
+    const { mealPlans, favorites } = await this.repository.findUserData(userId);
+
+    const exportedMealPlans = mealPlans.map((mealPlan) => ({
+      id: mealPlan.mealPlanId.toString(),
+      name: mealPlan.name,
+      description: mealPlan.description,
+      startDate: mealPlan.startDate,
+      endDate: mealPlan.endDate,
+      status: mealPlan.status,
+      visibility: mealPlan.visibility,
+      timezone: mealPlan.timezone,
+      createdAt: mealPlan.createdAt,
+      updatedAt: mealPlan.updatedAt,
+      recipes: mealPlan.mealPlanRecipes.map((recipe) => ({
+        recipeId: RecipeIdUtil.toCanonical(recipe.recipeId),
+        mealDate: recipe.mealDate,
+        mealType: recipe.mealType,
+        servings: recipe.servings,
+      })),
+      tags: mealPlan.mealPlanTagJunctions.map((junction) => junction.tag.name),
+    }));
+    const tags = [...new Set(exportedMealPlans.flatMap((mealPlan) => mealPlan.tags))].sort();
+
+    await this.repository.createAuditEntry({
+      action: UserDataAuditAction.EXPORT,
+      subjectUserId: userId,
+      ...(actorClientId && { actorClientId }),
+      details: { mealPlans: mealPlans.length, favorites: favorites.length },
+    });
+
+    return plainToInstance(
+      UserDataExportResponseDto,
+      {
+        userId,
+        exportedAt: new Date(),
+        mealPlans: exportedMealPlans,
+        favorites: favorites.map((favorite) => ({
+          mealPlanId: favorite.mealPlanId.toString(),
+          favoritedAt: favorite.favoritedAt,
+        })),
+        tags,
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  /**
+   * Delete or anonymize the data of a user. The user record itself belongs to
+   * the user management service and is left in place.
+   */
+  async eraseUserData(
+    userId: string,
+    mode: UserDataErasureMode,
+    actorClientId?: string,
+  ): Promise<UserDataErasureResponseDto> {
+    const anonymousUserId = mode === 'anonymize' ? this.getAnonymousUserId(userId) : undefined;
+
+    const result = await this.transactionService.executeTransaction(async (tx) => {
+      const erasure: UserDataErasureResult = anonymousUserId
+        ? await this.repository.anonymizeUserData(userId, anonymousUserId, tx)
+        : await this.repository.deleteUserData(userId, tx);
+
+      await this.repository.createAuditEntry(
+        {
+          action: anonymousUserId ? UserDataAuditAction.ANONYMIZE : UserDataAuditAction.DELETE,
+          subjectUserId: userId,
+          ...(anonymousUserId && { targetUserId: anonymousUserId }),
+          ...(actorClientId && { actorClientId }),
+          details: this.toErasureSummary(erasure),
+        },
+        tx,
+      );
+
+      return erasure;
+    });
+
+    await this.invalidateCachedMealPlans([
+      ...result.deletedMealPlanIds,
+      ...result.anonymizedMealPlanIds,
+    ]);
+
+    return plainToInstance(
+      UserDataErasureResponseDto,
+      { userId, mode, ...this.toErasureSummary(result) },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  /**
+   * Make another user the owner of some or all meal plans of a user
+   */
+  async transferMealPlans(
+    fromUserId: string,
+    transferDto: TransferMealPlansDto,
+    actorClientId?: string,
+  ): Promise<MealPlanTransferResponseDto> {
+    const { toUserId } = transferDto;
+
+    if (toUserId === fromUserId) {
+      throw new BadRequestException('Meal plans cannot be transferred to their current owner');
+    }
+
+    if (!(await this.repository.userExists(toUserId))) {
+      throw new NotFoundException(`User with ID ${toUserId} not found`);
+    }
+
+    const requestedIds = transferDto.mealPlanIds?.map((id) => BigInt(id));
+
+    const transferredIds = await this.transactionService.executeTransaction(async (tx) => {
+      const ids = await this.repository.transferMealPlans(fromUserId, toUserId, requestedIds, tx);
+
+      // Requested meal plans the user does not own roll the whole transfer back
+      const missingIds = requestedIds?.filter((id) => !ids.includes(id)) ?? [];
+      if (missingIds.length > 0) {
+        throw new NotFoundException(
+          `Meal plans not owned by user ${fromUserId}: ${missingIds.join(', ')}`,
+        );
+      }
+
+      await this.repository.createAuditEntry(
+        {
+          action: UserDataAuditAction.TRANSFER,
+          subjectUserId: fromUserId,
+          targetUserId: toUserId,
+          ...(actorClientId && { actorClientId }),
+          details: { mealPlanIds: ids.map((id) => id.toString()) },
+        },
+        tx,
+      );
+
+      return ids;
+    });
+
+    await this.invalidateCachedMealPlans(transferredIds);
+
+    return plainToInstance(
+      MealPlanTransferResponseDto,
+      {
+        fromUserId,
+        toUserId,
+        mealPlanIds: transferredIds.map((id) => id.toString()),
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  private getAnonymousUserId(userId: string): string {
+    const anonymousUserId = this.configService.get<UserDataConfig>('userData')?.anonymousUserId;
+
+    if (!anonymousUserId) {
+      throw new BadRequestException('Anonymization requires an anonymous user to be configured');
+    }
+
+    if (anonymousUserId === userId) {
+      throw new BadRequestException('The anonymous user cannot be anonymized');
+    }
+
+    return anonymousUserId;
+  }
+
+  private toErasureSummary(erasure: UserDataErasureResult): {
+    deletedMealPlans: number;
+    anonymizedMealPlans: number;
+    deletedTemplates: number;
+    anonymizedTemplates: number;
+    deletedFavorites: number;
+    deletedCollaborations: number;
+  } {
+    return {
+      deletedMealPlans: erasure.deletedMealPlanIds.length,
+      anonymizedMealPlans: erasure.anonymizedMealPlanIds.length,
+      deletedTemplates: erasure.deletedTemplates,
+      anonymizedTemplates: erasure.anonymizedTemplates,
+      deletedFavorites: erasure.deletedFavorites,
+      deletedCollaborations: erasure.deletedCollaborations,
+    };
+  }
+
+  private async invalidateCachedMealPlans(mealPlanIds: bigint[]): Promise<void> {
+    if (mealPlanIds.length === 0) {
+      return;
+    }
+
+    await this.cacheService.invalidate(
+      ...mealPlanIds.map((id) => MealPlanCacheTags.mealPlan(id)),
+      MealPlanCacheTags.TRENDING,
+      MealPlanCacheTags.TAGS,
+    );
+  }
+}
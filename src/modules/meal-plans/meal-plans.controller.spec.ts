@@ -1,38 +1,65 @@
 import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { MealPlansController } from './meal-plans.controller';
 import { MealPlansService } from './meal-plans.service';
 import {
   MealPlanQueryDto,
   PaginationDto,
+  TrendingMealPlansQueryDto,
   MealPlanByIdQueryDto,
   PaginatedMealPlansResponseDto,
+  TrendingMealPlansResponseDto,
   MealPlanQueryResponseDto,
   CreateMealPlanDto,
   UpdateMealPlanDto,
   MealPlanResponseDto,
+  CloneMealPlanDto,
+  MealPlanRecipeApiResponseDto,
 } from './dto';
 import { MealType } from './enums/meal-type.enum';
+import { WeekStartDay } from './enums/week-start-day.enum';
+import { MealPlanStatus } from './enums/meal-plan-status.enum';
+import { MealPlanVisibility } from './enums/meal-plan-visibility.enum';
 import { AuthenticatedUser } from '../auth/interfaces/jwt-payload.interface';
 
 describe('MealPlansController', () => {
   let controller: MealPlansController;
   let service: {
-    findMealPlans: Mock<(...args: unknown[]) => unknown>;
-    findMealPlanById: Mock<(...args: unknown[]) => unknown>;
-    createMealPlan: Mock<(...args: unknown[]) => unknown>;
-    updateMealPlan: Mock<(...args: unknown[]) => unknown>;
-    deleteMealPlan: Mock<(...args: unknown[]) => unknown>;
-    getTrendingMealPlans: Mock<(...args: unknown[]) => unknown>;
+    findMealPlans: Mock<(...args: unknown[]) => Promise<unknown>>;
+    findMealPlanById: Mock<(...args: unknown[]) => Promise<unknown>>;
+    createMealPlan: Mock<(...args: unknown[]) => Promise<unknown>>;
+    updateMealPlan: Mock<(...args: unknown[]) => Promise<unknown>>;
+    deleteMealPlan: Mock<(...args: unknown[]) => Promise<unknown>>;
+    getTrendingMealPlans: Mock<(...args: unknown[]) => Promise<unknown>>;
+    addRecipeToMealPlan: Mock<(...args: unknown[]) => Promise<unknown>>;
+    updateMealPlanRecipe: Mock<(...args: unknown[]) => Promise<unknown>>;
+    removeRecipeFromMealPlan: Mock<(...args: unknown[]) => Promise<unknown>>;
+    cloneMealPlan: Mock<(...args: unknown[]) => Promise<unknown>>;
+    replaceDayRecipes: Mock<(...args: unknown[]) => Promise<unknown>>;
+    archiveMealPlan: Mock<(...args: unknown[]) => Promise<unknown>>;
+    unarchiveMealPlan: Mock<(...args: unknown[]) => Promise<unknown>>;
+    getShoppingList: Mock<(...args: unknown[]) => Promise<unknown>>;
   };
 
+  // Resolves to whatever response a test sets, like the async methods it stands in for
+  const asyncMock = () => mock((..._args: unknown[]): Promise<unknown> => Promise.resolve());
+
   const mockService = {
-    findMealPlans: mock(() => {}),
-    findMealPlanById: mock(() => {}),
-    createMealPlan: mock(() => {}),
-    updateMealPlan: mock(() => {}),
-    deleteMealPlan: mock(() => {}),
-    getTrendingMealPlans: mock(() => {}),
+    findMealPlans: asyncMock(),
+    findMealPlanById: asyncMock(),
+    createMealPlan: asyncMock(),
+    updateMealPlan: asyncMock(),
+    deleteMealPlan: asyncMock(),
+    getTrendingMealPlans: asyncMock(),
+    addRecipeToMealPlan: asyncMock(),
+    updateMealPlanRecipe: asyncMock(),
+    removeRecipeFromMealPlan: asyncMock(),
+    cloneMealPlan: asyncMock(),
+    replaceDayRecipes: asyncMock(),
+    archiveMealPlan: asyncMock(),
+    unarchiveMealPlan: asyncMock(),
+    getShoppingList: asyncMock(),
   };
 
   const mockPaginatedResponse: PaginatedMealPlansResponseDto = {
@@ -46,6 +73,9 @@ describe('MealPlansController', () => {
         startDate: new Date('2024-03-01'),
         endDate: new Date('2024-03-07'),
         isActive: true,
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
         createdAt: new Date(),
         updatedAt: new Date(),
       },
@@ -57,6 +87,8 @@ describe('MealPlansController', () => {
       totalPages: 1,
       hasNext: false,
       hasPrevious: false,
+      nextCursor: null,
+      prevCursor: null,
     },
   };
 
@@ -71,6 +103,9 @@ describe('MealPlansController', () => {
       startDate: new Date('2024-03-01'),
       endDate: new Date('2024-03-07'),
       isActive: true,
+      status: MealPlanStatus.ACTIVE,
+      visibility: MealPlanVisibility.PRIVATE,
+      timezone: 'UTC',
       createdAt: new Date(),
       updatedAt: new Date(),
     },
@@ -92,10 +127,20 @@ describe('MealPlansController', () => {
     mockService.updateMealPlan.mockReset();
     mockService.deleteMealPlan.mockReset();
     mockService.getTrendingMealPlans.mockReset();
+    mockService.addRecipeToMealPlan.mockReset();
+    mockService.updateMealPlanRecipe.mockReset();
+    mockService.removeRecipeFromMealPlan.mockReset();
+    mockService.cloneMealPlan.mockReset();
+    mockService.replaceDayRecipes.mockReset();
+    mockService.archiveMealPlan.mockReset();
+    mockService.unarchiveMealPlan.mockReset();
+    mockService.getShoppingList.mockReset();
 
     const module: TestingModule = await Test.createTestingModule({
       controllers: [MealPlansController],
       providers: [
+        // Required by ScopesGuard
+        { provide: ConfigService, useValue: { get: mock(() => undefined) } },
         {
           provide: MealPlansService,
           useValue: mockService,
@@ -151,6 +196,8 @@ describe('MealPlansController', () => {
           totalPages: 0,
           hasNext: false,
           hasPrevious: false,
+          nextCursor: null,
+          prevCursor: null,
         },
       });
 
@@ -197,7 +244,12 @@ describe('MealPlansController', () => {
       const result = await controller.getMealPlanById('123', queryDto, mockUser);
 
       expect(result).toEqual(mockMealPlanResponse);
-      expect(service.findMealPlanById).toHaveBeenCalledWith('123', queryDto, 'temp-user-id');
+      expect(service.findMealPlanById).toHaveBeenCalledWith(
+        '123',
+        queryDto,
+        'temp-user-id',
+        undefined,
+      );
     });
 
     it('should handle day view mode', async () => {
@@ -211,7 +263,12 @@ describe('MealPlansController', () => {
 
       await controller.getMealPlanById('123', dayQuery, mockUser);
 
-      expect(service.findMealPlanById).toHaveBeenCalledWith('123', dayQuery, 'temp-user-id');
+      expect(service.findMealPlanById).toHaveBeenCalledWith(
+        '123',
+        dayQuery,
+        'temp-user-id',
+        undefined,
+      );
     });
 
     it('should handle week view mode', async () => {
@@ -225,7 +282,12 @@ describe('MealPlansController', () => {
 
       await controller.getMealPlanById('123', weekQuery, mockUser);
 
-      expect(service.findMealPlanById).toHaveBeenCalledWith('123', weekQuery, 'temp-user-id');
+      expect(service.findMealPlanById).toHaveBeenCalledWith(
+        '123',
+        weekQuery,
+        'temp-user-id',
+        undefined,
+      );
     });
 
     it('should handle month view mode', async () => {
@@ -240,7 +302,31 @@ describe('MealPlansController', () => {
 
       await controller.getMealPlanById('123', monthQuery, mockUser);
 
-      expect(service.findMealPlanById).toHaveBeenCalledWith('123', monthQuery, 'temp-user-id');
+      expect(service.findMealPlanById).toHaveBeenCalledWith(
+        '123',
+        monthQuery,
+        'temp-user-id',
+        undefined,
+      );
+    });
+
+    it('should pass the week start day, locale and Accept-Language header through', async () => {
+      const localizedQuery: MealPlanByIdQueryDto = {
+        viewMode: 'week',
+        weekStartDay: WeekStartDay.SUNDAY,
+        locale: 'de-DE',
+      };
+
+      service.findMealPlanById.mockResolvedValue(mockMealPlanResponse);
+
+      await controller.getMealPlanById('123', localizedQuery, mockUser, 'fr-FR,fr;q=0.9');
+
+      expect(service.findMealPlanById).toHaveBeenCalledWith(
+        '123',
+        localizedQuery,
+        'temp-user-id',
+        'fr-FR,fr;q=0.9',
+      );
     });
 
     it('should handle meal type filtering', async () => {
@@ -254,18 +340,23 @@ describe('MealPlansController', () => {
 
       await controller.getMealPlanById('123', filteredQuery, mockUser);
 
-      expect(service.findMealPlanById).toHaveBeenCalledWith('123', filteredQuery, 'temp-user-id');
+      expect(service.findMealPlanById).toHaveBeenCalledWith(
+        '123',
+        filteredQuery,
+        'temp-user-id',
+        undefined,
+      );
     });
   });
 
   describe('getTrendingMealPlans', () => {
-    const paginationDto: PaginationDto = {
+    const paginationDto: TrendingMealPlansQueryDto = {
       page: 1,
       limit: 20,
       offset: 0,
     };
 
-    const mockTrendingResponse: PaginatedMealPlansResponseDto = {
+    const mockTrendingResponse: TrendingMealPlansResponseDto = {
       success: true,
       data: [
         {
@@ -276,6 +367,9 @@ describe('MealPlansController', () => {
           startDate: new Date('2024-03-01'),
           endDate: new Date('2024-03-07'),
           isActive: true,
+          status: MealPlanStatus.ACTIVE,
+          visibility: MealPlanVisibility.PRIVATE,
+          timezone: 'UTC',
           createdAt: new Date(),
           updatedAt: new Date(),
         },
@@ -300,7 +394,7 @@ describe('MealPlansController', () => {
     });
 
     it('should handle empty results', async () => {
-      const emptyResponse: PaginatedMealPlansResponseDto = {
+      const emptyResponse: TrendingMealPlansResponseDto = {
         success: true,
         data: [],
         meta: {
@@ -328,7 +422,7 @@ describe('MealPlansController', () => {
         offset: 10,
       };
 
-      const page2Response: PaginatedMealPlansResponseDto = {
+      const page2Response: TrendingMealPlansResponseDto = {
         ...mockTrendingResponse,
         meta: {
           page: 2,
@@ -350,6 +444,21 @@ describe('MealPlansController', () => {
       expect(result.meta.hasPrevious).toBe(true);
     });
 
+    it('should pass the tag and period filters to the service', async () => {
+      const queryDto: TrendingMealPlansQueryDto = {
+        page: 1,
+        limit: 20,
+        offset: 0,
+        tag: 'vegetarian',
+        period: 'week',
+      };
+      service.getTrendingMealPlans.mockResolvedValue(mockTrendingResponse);
+
+      await controller.getTrendingMealPlans(queryDto);
+
+      expect(service.getTrendingMealPlans).toHaveBeenCalledWith(queryDto);
+    });
+
     it('should handle maximum results (100 cap)', async () => {
       const maxPagination: PaginationDto = {
         page: 1,
@@ -357,7 +466,7 @@ describe('MealPlansController', () => {
         offset: 0,
       };
 
-      const maxResponse: PaginatedMealPlansResponseDto = {
+      const maxResponse: TrendingMealPlansResponseDto = {
         ...mockTrendingResponse,
         meta: {
           page: 1,
@@ -442,7 +551,12 @@ describe('MealPlansController', () => {
         service.findMealPlanById.mockRejectedValue(error);
 
         expect(controller.getMealPlanById('999', queryDto, mockUser)).rejects.toThrow(error);
-        expect(service.findMealPlanById).toHaveBeenCalledWith('999', queryDto, 'temp-user-id');
+        expect(service.findMealPlanById).toHaveBeenCalledWith(
+          '999',
+          queryDto,
+          'temp-user-id',
+          undefined,
+        );
       });
 
       it('should throw ForbiddenException when user lacks access to meal plan', async () => {
@@ -522,6 +636,8 @@ describe('MealPlansController', () => {
             totalPages: 0,
             hasNext: false,
             hasPrevious: false,
+            nextCursor: null,
+            prevCursor: null,
           },
         });
 
@@ -545,6 +661,8 @@ describe('MealPlansController', () => {
             totalPages: 1,
             hasNext: false,
             hasPrevious: true,
+            nextCursor: null,
+            prevCursor: null,
           },
         });
 
@@ -571,6 +689,8 @@ describe('MealPlansController', () => {
             totalPages: 0,
             hasNext: false,
             hasPrevious: false,
+            nextCursor: null,
+            prevCursor: null,
           },
         });
 
@@ -596,6 +716,8 @@ describe('MealPlansController', () => {
             totalPages: 0,
             hasNext: false,
             hasPrevious: false,
+            nextCursor: null,
+            prevCursor: null,
           },
         });
 
@@ -614,7 +736,12 @@ describe('MealPlansController', () => {
 
         await controller.getMealPlanById(largeId, queryDto, mockUser);
 
-        expect(service.findMealPlanById).toHaveBeenCalledWith(largeId, queryDto, 'temp-user-id');
+        expect(service.findMealPlanById).toHaveBeenCalledWith(
+          largeId,
+          queryDto,
+          'temp-user-id',
+          undefined,
+        );
       });
 
       it('should handle edge case dates for day view', async () => {
@@ -627,7 +754,12 @@ describe('MealPlansController', () => {
 
         await controller.getMealPlanById('123', queryDto, mockUser);
 
-        expect(service.findMealPlanById).toHaveBeenCalledWith('123', queryDto, 'temp-user-id');
+        expect(service.findMealPlanById).toHaveBeenCalledWith(
+          '123',
+          queryDto,
+          'temp-user-id',
+          undefined,
+        );
       });
 
       it('should handle year boundaries for month view', async () => {
@@ -641,21 +773,31 @@ describe('MealPlansController', () => {
 
         await controller.getMealPlanById('123', queryDto, mockUser);
 
-        expect(service.findMealPlanById).toHaveBeenCalledWith('123', queryDto, 'temp-user-id');
+        expect(service.findMealPlanById).toHaveBeenCalledWith(
+          '123',
+          queryDto,
+          'temp-user-id',
+          undefined,
+        );
       });
 
       it('should handle all meal types', async () => {
         for (const mealType of Object.values(MealType)) {
           const queryDto: MealPlanByIdQueryDto = {
             viewMode: 'full',
-            mealType: mealType as MealType,
+            mealType: mealType,
           };
 
           service.findMealPlanById.mockResolvedValue(mockMealPlanResponse);
 
           await controller.getMealPlanById('123', queryDto, mockUser);
 
-          expect(service.findMealPlanById).toHaveBeenCalledWith('123', queryDto, 'temp-user-id');
+          expect(service.findMealPlanById).toHaveBeenCalledWith(
+            '123',
+            queryDto,
+            'temp-user-id',
+            undefined,
+          );
         }
       });
 
@@ -674,7 +816,12 @@ describe('MealPlansController', () => {
 
         await controller.getMealPlanById('123', complexQuery, mockUser);
 
-        expect(service.findMealPlanById).toHaveBeenCalledWith('123', complexQuery, 'temp-user-id');
+        expect(service.findMealPlanById).toHaveBeenCalledWith(
+          '123',
+          complexQuery,
+          'temp-user-id',
+          undefined,
+        );
       });
     });
   });
@@ -694,7 +841,7 @@ describe('MealPlansController', () => {
           notes: 'Test recipe notes',
         },
       ],
-    } as any;
+    };
 
     const expectedResponse: MealPlanResponseDto = {
       id: '123',
@@ -704,6 +851,9 @@ describe('MealPlansController', () => {
       startDate: new Date('2024-03-10'),
       endDate: new Date('2024-03-16'),
       isActive: true,
+      status: MealPlanStatus.ACTIVE,
+      visibility: MealPlanVisibility.PRIVATE,
+      timezone: 'UTC',
       createdAt: new Date(),
       updatedAt: new Date(),
       recipes: [],
@@ -724,7 +874,7 @@ describe('MealPlansController', () => {
         description: 'No recipes',
         startDate: new Date('2024-03-10'),
         endDate: new Date('2024-03-16'),
-      } as any;
+      };
 
       const simpleResponse = {
         ...expectedResponse,
@@ -746,7 +896,7 @@ describe('MealPlansController', () => {
         name: 'Minimal Meal Plan',
         startDate: new Date('2024-03-10'),
         endDate: new Date('2024-03-16'),
-      } as any;
+      };
 
       const minimalResponse: MealPlanResponseDto = {
         ...expectedResponse,
@@ -909,6 +1059,9 @@ describe('MealPlansController', () => {
       startDate: new Date('2024-03-15T00:00:00.000Z'),
       endDate: new Date('2024-03-21T23:59:59.999Z'),
       isActive: true,
+      status: MealPlanStatus.ACTIVE,
+      visibility: MealPlanVisibility.PRIVATE,
+      timezone: 'UTC',
       createdAt: new Date('2024-03-01T00:00:00.000Z'),
       updatedAt: new Date(),
     };
@@ -1262,4 +1415,210 @@ describe('MealPlansController', () => {
       });
     });
   });
+
+  describe('meal plan recipe slots', () => {
+    const slotDto = {
+      recipeId: '456',
+      mealDate: new Date('2024-03-03'),
+      mealType: MealType.DINNER,
+    };
+
+    const mockSlotResponse: MealPlanRecipeApiResponseDto = {
+      success: true,
+      data: {
+        mealPlanRecipeId: '1',
+        mealPlanId: '123',
+        recipeId: '456',
+        recipeName: 'Lasagna',
+        mealDate: new Date('2024-03-03'),
+        mealType: MealType.DINNER,
+        servings: 1,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+      message: 'Recipe added to meal plan successfully',
+    };
+
+    it('should add a recipe to a meal plan', async () => {
+      service.addRecipeToMealPlan.mockResolvedValue(mockSlotResponse);
+
+      const result = await controller.addMealPlanRecipe('123', slotDto, mockUser);
+
+      expect(result).toEqual(mockSlotResponse);
+      expect(service.addRecipeToMealPlan).toHaveBeenCalledWith('123', slotDto, mockUser.id);
+    });
+
+    it('should update a recipe slot in a meal plan', async () => {
+      const updateDto = { ...slotDto, newMealType: MealType.LUNCH };
+      service.updateMealPlanRecipe.mockResolvedValue(mockSlotResponse);
+
+      const result = await controller.updateMealPlanRecipe('123', updateDto, mockUser);
+
+      expect(result).toEqual(mockSlotResponse);
+      expect(service.updateMealPlanRecipe).toHaveBeenCalledWith('123', updateDto, mockUser.id);
+    });
+
+    it('should remove a recipe slot from a meal plan', async () => {
+      service.removeRecipeFromMealPlan.mockResolvedValue(undefined);
+
+      const result = await controller.removeMealPlanRecipe('123', slotDto, mockUser);
+
+      expect(result).toBeUndefined();
+      expect(service.removeRecipeFromMealPlan).toHaveBeenCalledWith('123', slotDto, mockUser.id);
+    });
+
+    it('should propagate service errors', async () => {
+      service.addRecipeToMealPlan.mockRejectedValue(new Error('Meal plan not found'));
+
+      expect(controller.addMealPlanRecipe('123', slotDto, mockUser)).rejects.toThrow(
+        'Meal plan not found',
+      );
+    });
+  });
+
+  describe('replaceMealPlanDay', () => {
+    const replaceDto = {
+      recipes: [{ recipeId: '456', mealType: MealType.DINNER }],
+    };
+
+    it('should replace the recipes for a day', async () => {
+      const dayView = {
+        mealPlanId: '123',
+        mealPlanName: 'Test Meal Plan',
+        date: new Date('2024-03-05'),
+        meals: { dinner: [] },
+        totalMeals: 1,
+      };
+      service.replaceDayRecipes.mockResolvedValue(dayView);
+
+      const result = await controller.replaceMealPlanDay('123', '2024-03-05', replaceDto, mockUser);
+
+      expect(result).toEqual(dayView);
+      expect(service.replaceDayRecipes).toHaveBeenCalledWith(
+        '123',
+        '2024-03-05',
+        replaceDto,
+        mockUser.id,
+      );
+    });
+
+    it('should propagate service errors', async () => {
+      service.replaceDayRecipes.mockRejectedValue(new Error('Meal plan not found'));
+
+      expect(
+        controller.replaceMealPlanDay('123', '2024-03-05', replaceDto, mockUser),
+      ).rejects.toThrow('Meal plan not found');
+    });
+  });
+
+  describe('cloneMealPlan', () => {
+    const cloneDto: CloneMealPlanDto = {
+      name: 'Cloned Plan',
+      startDate: new Date('2024-04-01'),
+    };
+
+    it('should clone a meal plan for the current user', async () => {
+      const clonedResponse = {
+        id: '124',
+        name: 'Cloned Plan',
+        userId: mockUser.id,
+        startDate: new Date('2024-04-01'),
+        endDate: new Date('2024-04-07'),
+        isActive: true,
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      } as MealPlanResponseDto;
+      service.cloneMealPlan.mockResolvedValue(clonedResponse);
+
+      const result = await controller.cloneMealPlan('123', cloneDto, mockUser);
+
+      expect(result).toEqual(clonedResponse);
+      expect(service.cloneMealPlan).toHaveBeenCalledWith('123', cloneDto, mockUser.id);
+    });
+
+    it('should propagate service errors', async () => {
+      service.cloneMealPlan.mockRejectedValue(new Error('Meal plan not found'));
+
+      expect(controller.cloneMealPlan('123', cloneDto, mockUser)).rejects.toThrow(
+        'Meal plan not found',
+      );
+    });
+  });
+
+  describe('meal plan lifecycle', () => {
+    const archivedResponse = {
+      id: '123',
+      name: 'Test Meal Plan',
+      userId: mockUser.id,
+      startDate: new Date('2024-03-01'),
+      endDate: new Date('2024-03-07'),
+      isActive: false,
+      status: MealPlanStatus.ARCHIVED,
+      archivedAt: new Date('2024-03-10T08:00:00.000Z'),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } as MealPlanResponseDto;
+
+    it('should archive a meal plan for the current user', async () => {
+      service.archiveMealPlan.mockResolvedValue(archivedResponse);
+
+      const result = await controller.archiveMealPlan('123', mockUser);
+
+      expect(result).toEqual(archivedResponse);
+      expect(service.archiveMealPlan).toHaveBeenCalledWith('123', mockUser.id);
+    });
+
+    it('should unarchive a meal plan for the current user', async () => {
+      const restoredResponse = {
+        ...archivedResponse,
+        isActive: true,
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        archivedAt: null,
+      };
+      service.unarchiveMealPlan.mockResolvedValue(restoredResponse);
+
+      const result = await controller.unarchiveMealPlan('123', mockUser);
+
+      expect(result).toEqual(restoredResponse);
+      expect(service.unarchiveMealPlan).toHaveBeenCalledWith('123', mockUser.id);
+    });
+
+    it('should propagate service errors', async () => {
+      service.archiveMealPlan.mockRejectedValue(new Error('Meal plan 123 is already archived'));
+
+      expect(controller.archiveMealPlan('123', mockUser)).rejects.toThrow(
+        'Meal plan 123 is already archived',
+      );
+    });
+  });
+
+  describe('getShoppingList', () => {
+    it('should return the shopping list for the current user', async () => {
+      const queryDto = {
+        startDate: new Date('2024-03-01'),
+        endDate: new Date('2024-03-03'),
+      };
+      const shoppingList = {
+        mealPlanId: '123',
+        startDate: '2024-03-01',
+        endDate: '2024-03-03',
+        totalItems: 1,
+        categories: [
+          {
+            category: 'Pantry',
+            items: [{ name: 'Olive oil', quantity: 3, unit: 'tbsp', recipeIds: ['456'] }],
+          },
+        ],
+      };
+      service.getShoppingList.mockResolvedValue(shoppingList);
+
+      const result = await controller.getShoppingList('123', queryDto, mockUser);
+
+      expect(result).toEqual(shoppingList);
+      expect(service.getShoppingList).toHaveBeenCalledWith('123', queryDto, mockUser.id);
+    });
+  });
 });
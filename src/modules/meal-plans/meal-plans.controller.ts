@@ -3,10 +3,12 @@ import {
   Get,
   Post,
   Put,
+  Patch,
   Delete,
   Body,
   Param,
   Query,
+  Headers,
   HttpCode,
   HttpStatus,
   UseInterceptors,
@@ -21,23 +23,40 @@ import {
   ApiBearerAuth,
   ApiQuery,
   ApiBody,
+  ApiHeader,
 } from '@nestjs/swagger';
 import { Throttle } from '@nestjs/throttler';
 import { MealPlansService } from './meal-plans.service';
 import {
   MealPlanQueryDto,
-  PaginationDto,
+  CursorPaginationDto,
   MealPlanByIdQueryDto,
   PaginatedMealPlansResponseDto,
+  TrendingMealPlansResponseDto,
   MealPlanQueryResponseDto,
   ErrorResponseDto,
   CreateMealPlanDto,
   UpdateMealPlanDto,
   MealPlanResponseDto,
+  MealPlanRecipeSlotDto,
+  AddMealPlanRecipeDto,
+  UpdateMealPlanRecipeSlotDto,
+  MealPlanRecipeApiResponseDto,
+  CloneMealPlanDto,
+  ReplaceDayRecipesDto,
+  DayViewResponseDto,
+  ShoppingListQueryDto,
+  ShoppingListResponseDto,
+  TrendingMealPlansQueryDto,
+  TRENDING_PERIOD_VALUES,
 } from './dto';
 import { MEAL_TYPE_VALUES } from './enums/meal-type.enum';
+import { WEEK_START_DAY_VALUES } from './enums/week-start-day.enum';
 
 import { JwtAuthGuard } from '@/modules/auth/guards/jwt-auth.guard';
+import { ScopesGuard } from '@/modules/auth/guards/scopes.guard';
+import { RequireScopes } from '@/modules/auth/decorators/require-scopes.decorator';
+import { MealPlanScopes } from '@/modules/auth/constants/oauth2-scopes.constant';
 import { CurrentUser } from '@/modules/auth/decorators/current-user.decorator';
 import type { AuthenticatedUser } from '@/modules/auth/interfaces/jwt-payload.interface';
 
@@ -45,12 +64,13 @@ import type { AuthenticatedUser } from '@/modules/auth/interfaces/jwt-payload.in
 @Controller('meal-plan-management/meal-plans')
 @ApiBearerAuth('JWT-Auth')
 @UseInterceptors(ClassSerializerInterceptor)
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ScopesGuard)
 @Throttle({ default: { limit: 100, ttl: 60000 } })
 export class MealPlansController {
   constructor(private readonly mealPlansService: MealPlansService) {}
 
   @Get()
+  @RequireScopes(MealPlanScopes.READ)
   @ApiOperation({
     summary: 'List meal plans',
     description: 'Retrieve a paginated list of meal plans with optional filters',
@@ -153,9 +173,22 @@ export class MealPlansController {
     type: Number,
     example: 20,
   })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description:
+      'Cursor from nextCursor or prevCursor of a previous page. Pages after or before it instead of by page number.',
+    type: String,
+  })
+  @ApiQuery({
+    name: 'includeTotal',
+    required: false,
+    description: 'Whether to count all items (default true). Set to false to skip the count.',
+    type: Boolean,
+  })
   async listMealPlans(
     @Query() queryDto: MealPlanQueryDto,
-    @Query() paginationDto: PaginationDto,
+    @Query() paginationDto: CursorPaginationDto,
     @CurrentUser() user: AuthenticatedUser,
   ): Promise<PaginatedMealPlansResponseDto> {
     const userId = user.id;
@@ -164,6 +197,7 @@ export class MealPlansController {
   }
 
   @Post()
+  @RequireScopes(MealPlanScopes.WRITE)
   @ApiOperation({
     summary: 'Create a new meal plan',
     description: 'Create a new meal plan with optional recipe assignments',
@@ -209,6 +243,7 @@ export class MealPlansController {
   }
 
   @Put(':id')
+  @RequireScopes(MealPlanScopes.WRITE)
   @ApiOperation({
     summary: 'Update an existing meal plan',
     description: 'Update a meal plan by ID with new data. Only provided fields will be updated.',
@@ -271,23 +306,26 @@ export class MealPlansController {
   }
 
   @Get('trending')
+  @RequireScopes(MealPlanScopes.READ)
   @ApiTags('search')
   @ApiOperation({
     summary: 'Get trending meal plans',
     description: `Retrieves the most trending meal plans with pagination support.
 
 Meal plans are ordered by trending score in descending order, so the first
-item in the response is the "most trending" meal plan.
+item in the response is the "most trending" meal plan. Each item carries its
+trendingScore and trendingRank. Only public meal plans are ranked.
 
 **Trending Factors:**
-Trending score considers recent engagement metrics including favorites,
-with time-decay to prioritize recent activity.`,
+Trending score sums recent favorites, views (one per user, meal plan and day), clones and
+recipe additions, each with its own configurable weight and a time-decay to prioritize recent activity.
+Scores are precomputed and refreshed periodically, so pages stay stable between refreshes.`,
     operationId: 'getTrendingMealPlans',
   })
   @ApiResponse({
     status: 200,
     description: 'Trending meal plans retrieved successfully',
-    type: PaginatedMealPlansResponseDto,
+    type: TrendingMealPlansResponseDto,
   })
   @ApiResponse({
     status: 401,
@@ -313,13 +351,27 @@ with time-decay to prioritize recent activity.`,
     type: Number,
     example: 20,
   })
+  @ApiQuery({
+    name: 'tag',
+    required: false,
+    description: 'Only rank meal plans with this tag (case-insensitive)',
+    type: String,
+    example: 'Vegetarian',
+  })
+  @ApiQuery({
+    name: 'period',
+    required: false,
+    description: 'Only count engagement from the last day, week or month',
+    enum: TRENDING_PERIOD_VALUES,
+  })
   async getTrendingMealPlans(
-    @Query() paginationDto: PaginationDto,
-  ): Promise<PaginatedMealPlansResponseDto> {
-    return this.mealPlansService.getTrendingMealPlans(paginationDto);
+    @Query() queryDto: TrendingMealPlansQueryDto,
+  ): Promise<TrendingMealPlansResponseDto> {
+    return this.mealPlansService.getTrendingMealPlans(queryDto);
   }
 
   @Get(':id')
+  @RequireScopes(MealPlanScopes.READ)
   @ApiOperation({
     summary: 'Get meal plan by ID',
     description: 'Retrieve a specific meal plan with flexible viewing options and filters',
@@ -427,17 +479,38 @@ with time-decay to prioritize recent activity.`,
     description: 'Include meal statistics (useful for month view)',
     type: Boolean,
   })
+  @ApiQuery({
+    name: 'weekStartDay',
+    required: false,
+    description: 'First day of the week in week and month views (defaults to the server setting)',
+    enum: WEEK_START_DAY_VALUES,
+  })
+  @ApiQuery({
+    name: 'locale',
+    required: false,
+    description:
+      'Locale for day and month names in week and month views. Takes precedence over the Accept-Language header.',
+    type: String,
+    example: 'fr-FR',
+  })
+  @ApiHeader({
+    name: 'Accept-Language',
+    required: false,
+    description: 'Preferred locales for day and month names when no locale query parameter is set',
+  })
   async getMealPlanById(
     @Param('id') id: string,
     @Query() queryDto: MealPlanByIdQueryDto,
     @CurrentUser() user: AuthenticatedUser,
+    @Headers('accept-language') acceptLanguage?: string,
   ): Promise<MealPlanQueryResponseDto> {
     const userId = user.id;
 
-    return this.mealPlansService.findMealPlanById(id, queryDto, userId);
+    return this.mealPlansService.findMealPlanById(id, queryDto, userId, acceptLanguage);
   }
 
   @Delete(':id')
+  @RequireScopes(MealPlanScopes.WRITE)
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({
     summary: 'Delete a meal plan',
@@ -488,4 +561,518 @@ with time-decay to prioritize recent activity.`,
 
     await this.mealPlansService.deleteMealPlan(id, userId);
   }
+
+  @Post(':id/recipes')
+  @RequireScopes(MealPlanScopes.WRITE)
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Add a recipe to a meal plan',
+    description:
+      'Schedule a single recipe on a date and meal type within an existing meal plan. The date must fall within the meal plan date range.',
+    operationId: 'addMealPlanRecipe',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Meal plan ID',
+    type: String,
+    example: '123',
+  })
+  @ApiBody({
+    type: AddMealPlanRecipeDto,
+    description: 'Recipe, meal date, meal type and servings to schedule',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Recipe added to meal plan successfully',
+    type: MealPlanRecipeApiResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error or meal date outside the meal plan range',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - user does not own this meal plan',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Meal plan or recipe not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - recipe is already scheduled for this meal on this date',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 500,
+    description: 'Internal server error',
+    type: ErrorResponseDto,
+  })
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  async addMealPlanRecipe(
+    @Param('id') id: string,
+    @Body() slotDto: AddMealPlanRecipeDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MealPlanRecipeApiResponseDto> {
+    const userId = user.id;
+
+    return this.mealPlansService.addRecipeToMealPlan(id, slotDto, userId);
+  }
+
+  @Patch(':id/recipes')
+  @RequireScopes(MealPlanScopes.WRITE)
+  @ApiOperation({
+    summary: 'Update a recipe slot in a meal plan',
+    description:
+      'Change the date, meal type and/or servings of a scheduled recipe. The slot is identified by recipeId, mealDate and mealType.',
+    operationId: 'updateMealPlanRecipe',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Meal plan ID',
+    type: String,
+    example: '123',
+  })
+  @ApiBody({
+    type: UpdateMealPlanRecipeSlotDto,
+    description: 'Slot to change and its new date, meal type and/or servings',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Meal plan recipe updated successfully',
+    type: MealPlanRecipeApiResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error or meal date outside the meal plan range',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - user does not own this meal plan',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Meal plan or recipe slot not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - recipe is already scheduled for the target meal and date',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 500,
+    description: 'Internal server error',
+    type: ErrorResponseDto,
+  })
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  async updateMealPlanRecipe(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateMealPlanRecipeSlotDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MealPlanRecipeApiResponseDto> {
+    const userId = user.id;
+
+    return this.mealPlansService.updateMealPlanRecipe(id, updateDto, userId);
+  }
+
+  @Delete(':id/recipes')
+  @RequireScopes(MealPlanScopes.WRITE)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Remove a recipe from a meal plan',
+    description:
+      'Remove a single scheduled recipe from a meal plan. The slot is identified by recipeId, mealDate and mealType.',
+    operationId: 'removeMealPlanRecipe',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Meal plan ID',
+    type: String,
+    example: '123',
+  })
+  @ApiQuery({
+    name: 'recipeId',
+    required: true,
+    description: 'Recipe ID of the slot to remove',
+    type: String,
+  })
+  @ApiQuery({
+    name: 'mealDate',
+    required: true,
+    description: 'Meal date of the slot to remove',
+    type: String,
+    format: 'date',
+  })
+  @ApiQuery({
+    name: 'mealType',
+    required: true,
+    description: 'Meal type of the slot to remove',
+    enum: MEAL_TYPE_VALUES,
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Recipe removed from meal plan successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - user does not own this meal plan',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Meal plan or recipe slot not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 500,
+    description: 'Internal server error',
+    type: ErrorResponseDto,
+  })
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  async removeMealPlanRecipe(
+    @Param('id') id: string,
+    @Query() slotDto: MealPlanRecipeSlotDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    const userId = user.id;
+
+    await this.mealPlansService.removeRecipeFromMealPlan(id, slotDto, userId);
+  }
+
+  @Put(':id/days/:date')
+  @RequireScopes(MealPlanScopes.WRITE)
+  @ApiOperation({
+    summary: 'Replace the recipes for a day',
+    description:
+      'Atomically replace all recipes scheduled on a single day of a meal plan. When mealType is provided, only recipes of that meal type are replaced. Returns the updated day view.',
+    operationId: 'replaceMealPlanDay',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Meal plan ID',
+    type: String,
+    example: '123',
+  })
+  @ApiParam({
+    name: 'date',
+    description: 'Day to replace (YYYY-MM-DD)',
+    type: String,
+    example: '2024-03-15',
+  })
+  @ApiBody({
+    type: ReplaceDayRecipesDto,
+    description: 'Recipes to schedule on the day',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Day updated successfully',
+    type: DayViewResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error, invalid date or date outside the meal plan range',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - user does not own this meal plan',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Meal plan or recipe not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 500,
+    description: 'Internal server error',
+    type: ErrorResponseDto,
+  })
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  async replaceMealPlanDay(
+    @Param('id') id: string,
+    @Param('date') date: string,
+    @Body() replaceDto: ReplaceDayRecipesDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<DayViewResponseDto> {
+    const userId = user.id;
+
+    return this.mealPlansService.replaceDayRecipes(id, date, replaceDto, userId);
+  }
+
+  @Post(':id/clone')
+  @RequireScopes(MealPlanScopes.WRITE)
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Clone a meal plan',
+    description:
+      'Copy a meal plan, including its recipes and tags, into your account under a new name and start date. All recipe dates are shifted by the same number of days. You can clone your own meal plans and trending meal plans.',
+    operationId: 'cloneMealPlan',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID of the meal plan to clone',
+    type: String,
+    example: '123',
+  })
+  @ApiBody({
+    type: CloneMealPlanDto,
+    description: 'Name and start date for the new meal plan',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Meal plan cloned successfully',
+    type: MealPlanResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - validation error or source meal plan has no date range',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - meal plan is not owned by the user and is not trending',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Meal plan not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - meal plan with overlapping dates exists',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 500,
+    description: 'Internal server error',
+    type: ErrorResponseDto,
+  })
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  async cloneMealPlan(
+    @Param('id') id: string,
+    @Body() cloneDto: CloneMealPlanDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MealPlanResponseDto> {
+    const userId = user.id;
+
+    return this.mealPlansService.cloneMealPlan(id, cloneDto, userId);
+  }
+
+  @Post(':id/archive')
+  @RequireScopes(MealPlanScopes.WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Archive a meal plan',
+    description:
+      'Archive a meal plan. Archived meal plans are hidden from the meal plan list unless includeArchived=true is passed.',
+    operationId: 'archiveMealPlan',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Meal plan ID',
+    type: String,
+    example: '123',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Meal plan archived successfully',
+    type: MealPlanResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - user does not own this meal plan',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Meal plan not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - meal plan is already archived',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 500,
+    description: 'Internal server error',
+    type: ErrorResponseDto,
+  })
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  async archiveMealPlan(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MealPlanResponseDto> {
+    const userId = user.id;
+
+    return this.mealPlansService.archiveMealPlan(id, userId);
+  }
+
+  @Post(':id/unarchive')
+  @RequireScopes(MealPlanScopes.WRITE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Unarchive a meal plan',
+    description: 'Restore an archived meal plan. The restored meal plan becomes active again.',
+    operationId: 'unarchiveMealPlan',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Meal plan ID',
+    type: String,
+    example: '123',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Meal plan restored successfully',
+    type: MealPlanResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - user does not own this meal plan',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Meal plan not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - meal plan is not archived',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 500,
+    description: 'Internal server error',
+    type: ErrorResponseDto,
+  })
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  async unarchiveMealPlan(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MealPlanResponseDto> {
+    const userId = user.id;
+
+    return this.mealPlansService.unarchiveMealPlan(id, userId);
+  }
+
+  @Get(':id/shopping-list')
+  @RequireScopes(MealPlanScopes.READ)
+  @ApiOperation({
+    summary: 'Get shopping list for a meal plan',
+    description:
+      'Aggregate the ingredients of all recipes scheduled in the date range, scaled to the servings of each slot, merged across recipes and grouped by aisle or category. The range defaults to the full meal plan.',
+    operationId: 'getMealPlanShoppingList',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Meal plan ID',
+    type: String,
+    example: '123',
+  })
+  @ApiQuery({
+    name: 'startDate',
+    required: false,
+    description: 'First day to include (defaults to the meal plan start date)',
+    type: String,
+    format: 'date',
+    example: '2024-03-11',
+  })
+  @ApiQuery({
+    name: 'endDate',
+    required: false,
+    description: 'Last day to include (defaults to the meal plan end date)',
+    type: String,
+    format: 'date',
+    example: '2024-03-17',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Shopping list built successfully',
+    type: ShoppingListResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - invalid date range',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - authentication required',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - user does not have access to this meal plan',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Meal plan not found',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Service unavailable - recipe ingredients could not be loaded',
+    type: ErrorResponseDto,
+  })
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  async getShoppingList(
+    @Param('id') id: string,
+    @Query() queryDto: ShoppingListQueryDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ShoppingListResponseDto> {
+    const userId = user.id;
+
+    return this.mealPlansService.getShoppingList(id, queryDto, userId);
+  }
 }
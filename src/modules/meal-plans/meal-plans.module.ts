@@ -1,25 +1,76 @@
 import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { MetricsModule } from '../metrics/metrics.module';
 import { MealPlansController } from './meal-plans.controller';
 import { MealPlansService } from './meal-plans.service';
 import { MealPlansRepository } from './meal-plans.repository';
 import { MealPlanValidationService } from './services/meal-plan-validation.service';
+import { MealPlanPermissionService } from './services/meal-plan-permission.service';
+import { MealPlanShareLinkService } from './services/meal-plan-share-link.service';
+import { MealPlanTrendingRefreshService } from './services/meal-plan-trending-refresh.service';
+import { RecipeClientService } from './services/recipe-client.service';
+import { RecipeIdResolverService } from './services/recipe-id-resolver.service';
+import {
+  RECIPE_NUTRITION_PROVIDER,
+  RecipeServiceNutritionProvider,
+} from './services/recipe-nutrition.provider';
 import { MealPlanFavoritesController } from './meal-plan-favorites.controller';
 import { MealPlanFavoritesService } from './meal-plan-favorites.service';
 import { MealPlanFavoritesRepository } from './meal-plan-favorites.repository';
 import { MealPlanTagsController } from './meal-plan-tags.controller';
 import { MealPlanTagsService } from './meal-plan-tags.service';
 import { MealPlanTagsRepository } from './meal-plan-tags.repository';
+import { MealPlanCalendarController } from './meal-plan-calendar.controller';
+import { MealPlanCalendarService } from './meal-plan-calendar.service';
+import { MealPlanCalendarRepository } from './meal-plan-calendar.repository';
+import { MealPlanTemplatesController } from './meal-plan-templates.controller';
+import { MealPlanTemplatesService } from './meal-plan-templates.service';
+import { MealPlanTemplatesRepository } from './meal-plan-templates.repository';
+import { MealPlanCollaboratorsController } from './meal-plan-collaborators.controller';
+import { MealPlanCollaboratorsService } from './meal-plan-collaborators.service';
+import { MealPlanCollaboratorsRepository } from './meal-plan-collaborators.repository';
+import { MealPlanShareLinksController } from './meal-plan-share-links.controller';
+import { MealPlanUserDataController } from './meal-plan-user-data.controller';
+import { MealPlanUserDataService } from './meal-plan-user-data.service';
+import { MealPlanUserDataRepository } from './meal-plan-user-data.repository';
 
 @Module({
-  controllers: [MealPlansController, MealPlanFavoritesController, MealPlanTagsController],
+  imports: [AuthModule, MetricsModule],
+  controllers: [
+    MealPlansController,
+    MealPlanFavoritesController,
+    MealPlanTagsController,
+    MealPlanCalendarController,
+    MealPlanTemplatesController,
+    MealPlanCollaboratorsController,
+    MealPlanShareLinksController,
+    MealPlanUserDataController,
+  ],
   providers: [
     MealPlansService,
     MealPlansRepository,
     MealPlanValidationService,
+    MealPlanPermissionService,
+    MealPlanShareLinkService,
+    MealPlanTrendingRefreshService,
+    RecipeClientService,
+    RecipeIdResolverService,
+    {
+      provide: RECIPE_NUTRITION_PROVIDER,
+      useClass: RecipeServiceNutritionProvider,
+    },
     MealPlanFavoritesService,
     MealPlanFavoritesRepository,
     MealPlanTagsService,
     MealPlanTagsRepository,
+    MealPlanCalendarService,
+    MealPlanCalendarRepository,
+    MealPlanTemplatesService,
+    MealPlanTemplatesRepository,
+    MealPlanCollaboratorsService,
+    MealPlanCollaboratorsRepository,
+    MealPlanUserDataService,
+    MealPlanUserDataRepository,
   ],
   exports: [MealPlansService, MealPlansRepository, MealPlanTagsService, MealPlanTagsRepository],
 })
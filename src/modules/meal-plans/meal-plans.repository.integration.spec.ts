@@ -2,46 +2,49 @@ import { describe, it, expect, beforeEach, afterEach, mock, type Mock } from 'bu
 import { Test, TestingModule } from '@nestjs/testing';
 import { MealPlansRepository } from './meal-plans.repository';
 import { PrismaService } from '@/config/database.config';
-import { MealType } from '@generated/prisma/client';
+import { MealPlanStatus, MealPlanVisibility, MealType } from '@generated/prisma/client';
 
 describe('MealPlansRepository', () => {
   let repository: MealPlansRepository;
   let prisma: {
     mealPlan: {
-      create: Mock<(...args: unknown[]) => unknown>;
-      findUnique: Mock<(...args: unknown[]) => unknown>;
-      findMany: Mock<(...args: unknown[]) => unknown>;
-      update: Mock<(...args: unknown[]) => unknown>;
-      delete: Mock<(...args: unknown[]) => unknown>;
-      count: Mock<(...args: unknown[]) => unknown>;
+      create: Mock<(...args: unknown[]) => Promise<unknown>>;
+      findUnique: Mock<(...args: unknown[]) => Promise<unknown>>;
+      findMany: Mock<(...args: unknown[]) => Promise<unknown>>;
+      update: Mock<(...args: unknown[]) => Promise<unknown>>;
+      delete: Mock<(...args: unknown[]) => Promise<unknown>>;
+      count: Mock<(...args: unknown[]) => Promise<unknown>>;
     };
     mealPlanRecipe: {
-      create: Mock<(...args: unknown[]) => unknown>;
-      delete: Mock<(...args: unknown[]) => unknown>;
-      findMany: Mock<(...args: unknown[]) => unknown>;
-      groupBy: Mock<(...args: unknown[]) => unknown>;
-      count: Mock<(...args: unknown[]) => unknown>;
+      create: Mock<(...args: unknown[]) => Promise<unknown>>;
+      delete: Mock<(...args: unknown[]) => Promise<unknown>>;
+      findMany: Mock<(...args: unknown[]) => Promise<unknown>>;
+      groupBy: Mock<(...args: unknown[]) => Promise<unknown>>;
+      count: Mock<(...args: unknown[]) => Promise<unknown>>;
     };
   };
   const testUserId = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
   const testRecipeId = BigInt(1);
   const testMealPlanId = BigInt(1);
 
+  // Resolves to whatever fixture a test sets, like the Prisma queries it stands in for
+  const asyncMock = () => mock((..._args: unknown[]): Promise<unknown> => Promise.resolve());
+
   const mockPrismaService = {
     mealPlan: {
-      create: mock(() => {}),
-      findUnique: mock(() => {}),
-      findMany: mock(() => {}),
-      update: mock(() => {}),
-      delete: mock(() => {}),
-      count: mock(() => {}),
+      create: asyncMock(),
+      findUnique: asyncMock(),
+      findMany: asyncMock(),
+      update: asyncMock(),
+      delete: asyncMock(),
+      count: asyncMock(),
     },
     mealPlanRecipe: {
-      create: mock(() => {}),
-      delete: mock(() => {}),
-      findMany: mock(() => {}),
-      groupBy: mock(() => {}),
-      count: mock(() => {}),
+      create: asyncMock(),
+      delete: asyncMock(),
+      findMany: asyncMock(),
+      groupBy: asyncMock(),
+      count: asyncMock(),
     },
   };
 
@@ -90,6 +93,14 @@ describe('MealPlansRepository', () => {
       const expectedMealPlan = {
         mealPlanId: testMealPlanId,
         ...createData,
+        status: MealPlanStatus.DRAFT,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -105,6 +116,10 @@ describe('MealPlansRepository', () => {
           description: createData.description,
           startDate: createData.startDate,
           endDate: createData.endDate,
+          dailyCaloriesTarget: null,
+          dailyProteinTarget: null,
+          dailyCarbohydratesTarget: null,
+          dailyFatTarget: null,
           user: {
             connect: { userId: createData.userId },
           },
@@ -122,6 +137,14 @@ describe('MealPlansRepository', () => {
         description: null,
         startDate: null,
         endDate: null,
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -154,6 +177,14 @@ describe('MealPlansRepository', () => {
         description: null,
         startDate: new Date('2024-01-01'),
         endDate: new Date('2024-01-07'),
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
         createdAt: new Date(),
         updatedAt: new Date(),
         mealPlanRecipes: [
@@ -162,6 +193,7 @@ describe('MealPlansRepository', () => {
             recipeId: testRecipeId,
             mealDate: new Date('2024-01-02'),
             mealType: MealType.BREAKFAST,
+            servings: 1,
             recipe: {
               recipeId: testRecipeId,
               title: 'Test Recipe',
@@ -206,6 +238,14 @@ describe('MealPlansRepository', () => {
           description: null,
           startDate: null,
           endDate: null,
+          status: MealPlanStatus.ACTIVE,
+          visibility: MealPlanVisibility.PRIVATE,
+          timezone: 'UTC',
+          archivedAt: null,
+          dailyCaloriesTarget: null,
+          dailyProteinTarget: null,
+          dailyCarbohydratesTarget: null,
+          dailyFatTarget: null,
           createdAt: new Date(),
           updatedAt: new Date(),
         },
@@ -216,6 +256,14 @@ describe('MealPlansRepository', () => {
           description: null,
           startDate: null,
           endDate: null,
+          status: MealPlanStatus.ACTIVE,
+          visibility: MealPlanVisibility.PRIVATE,
+          timezone: 'UTC',
+          archivedAt: null,
+          dailyCaloriesTarget: null,
+          dailyProteinTarget: null,
+          dailyCarbohydratesTarget: null,
+          dailyFatTarget: null,
           createdAt: new Date(),
           updatedAt: new Date(),
         },
@@ -249,6 +297,14 @@ describe('MealPlansRepository', () => {
           description: null,
           startDate: new Date('2024-02-01'),
           endDate: new Date('2024-02-28'),
+          status: MealPlanStatus.ACTIVE,
+          visibility: MealPlanVisibility.PRIVATE,
+          timezone: 'UTC',
+          archivedAt: null,
+          dailyCaloriesTarget: null,
+          dailyProteinTarget: null,
+          dailyCarbohydratesTarget: null,
+          dailyFatTarget: null,
           createdAt: new Date(),
           updatedAt: new Date(),
         },
@@ -289,6 +345,14 @@ describe('MealPlansRepository', () => {
         ...updateData,
         startDate: null,
         endDate: null,
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -314,6 +378,14 @@ describe('MealPlansRepository', () => {
         description: null,
         startDate: null,
         endDate: null,
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -336,6 +408,7 @@ describe('MealPlansRepository', () => {
         recipeId: testRecipeId,
         mealDate: new Date('2024-01-02'),
         mealType: MealType.LUNCH,
+        servings: 1,
       };
 
       const expectedResult = { ...addRecipeData };
@@ -357,6 +430,7 @@ describe('MealPlansRepository', () => {
         recipeId: testRecipeId,
         mealDate,
         mealType: MealType.DINNER,
+        servings: 1,
       };
 
       prisma.mealPlanRecipe.delete.mockResolvedValue(expectedResult);
@@ -365,15 +439,17 @@ describe('MealPlansRepository', () => {
         testMealPlanId,
         testRecipeId,
         mealDate,
+        MealType.DINNER,
       );
 
       expect(result).toEqual(expectedResult);
       expect(prisma.mealPlanRecipe.delete).toHaveBeenCalledWith({
         where: {
-          mealPlanId_recipeId_mealDate: {
+          mealPlanId_recipeId_mealDate_mealType: {
             mealPlanId: testMealPlanId,
             recipeId: testRecipeId,
             mealDate,
+            mealType: MealType.DINNER,
           },
         },
       });
@@ -386,6 +462,7 @@ describe('MealPlansRepository', () => {
           recipeId: testRecipeId,
           mealDate: new Date('2024-01-02'),
           mealType: MealType.BREAKFAST,
+          servings: 1,
           recipe: {
             recipeId: testRecipeId,
             title: 'Test Recipe',
@@ -409,6 +486,7 @@ describe('MealPlansRepository', () => {
           recipeId: testRecipeId,
           mealDate,
           mealType: MealType.BREAKFAST,
+          servings: 1,
           recipe: {
             recipeId: testRecipeId,
             title: 'Breakfast Recipe',
@@ -420,6 +498,7 @@ describe('MealPlansRepository', () => {
           recipeId: BigInt(2),
           mealDate,
           mealType: MealType.LUNCH,
+          servings: 1,
           recipe: {
             recipeId: BigInt(2),
             title: 'Lunch Recipe',
@@ -465,7 +544,7 @@ describe('MealPlansRepository', () => {
         },
       ];
 
-      prisma.mealPlanRecipe.groupBy.mockResolvedValue(expectedResult as any);
+      prisma.mealPlanRecipe.groupBy.mockResolvedValue(expectedResult);
 
       const result = await repository.countMealsByType(testMealPlanId);
 
@@ -511,5 +590,28 @@ describe('MealPlansRepository', () => {
         },
       });
     });
+
+    it('should scope the recipe existence check to a meal type', async () => {
+      const mealDate = new Date('2024-01-02');
+
+      prisma.mealPlanRecipe.count.mockResolvedValue(1);
+
+      const result = await repository.recipeExistsInMealPlan(
+        testMealPlanId,
+        testRecipeId,
+        mealDate,
+        MealType.LUNCH,
+      );
+
+      expect(result).toBe(true);
+      expect(prisma.mealPlanRecipe.count).toHaveBeenCalledWith({
+        where: {
+          mealPlanId: testMealPlanId,
+          recipeId: testRecipeId,
+          mealDate,
+          mealType: MealType.LUNCH,
+        },
+      });
+    });
   });
 });
@@ -1,26 +1,40 @@
 import { describe, it, expect, beforeEach, afterEach, mock, type Mock } from 'bun:test';
 import { Test, TestingModule } from '@nestjs/testing';
 import { PrismaService } from '@/config/database.config';
-import { MealType } from '@generated/prisma/client';
-import { MealPlansRepository } from './meal-plans.repository';
+import {
+  MealType,
+  MealPlanStatus,
+  MealPlanVisibility,
+  MealPlanEngagementType,
+  Prisma,
+  TrendingWindow,
+} from '@generated/prisma/client';
+import { MealPlansRepository, TrendingMealPlan } from './meal-plans.repository';
+import { DateOnlyUtil } from './utils/date-only.util';
 
 describe('MealPlansRepository', () => {
   let repository: MealPlansRepository;
   let prisma: {
     mealPlan: {
-      create: Mock<(...args: unknown[]) => unknown>;
-      findUnique: Mock<(...args: unknown[]) => unknown>;
-      findMany: Mock<(...args: unknown[]) => unknown>;
-      update: Mock<(...args: unknown[]) => unknown>;
-      delete: Mock<(...args: unknown[]) => unknown>;
-      count: Mock<(...args: unknown[]) => unknown>;
+      create: Mock<(...args: unknown[]) => Promise<unknown>>;
+      findUnique: Mock<(...args: unknown[]) => Promise<unknown>>;
+      findMany: Mock<(...args: unknown[]) => Promise<unknown>>;
+      update: Mock<(...args: unknown[]) => Promise<unknown>>;
+      delete: Mock<(...args: unknown[]) => Promise<unknown>>;
+      count: Mock<(...args: unknown[]) => Promise<unknown>>;
     };
     mealPlanRecipe: {
-      create: Mock<(...args: unknown[]) => unknown>;
-      delete: Mock<(...args: unknown[]) => unknown>;
-      count: Mock<(...args: unknown[]) => unknown>;
-      groupBy: Mock<(...args: unknown[]) => unknown>;
-      findMany: Mock<(...args: unknown[]) => unknown>;
+      create: Mock<(...args: unknown[]) => Promise<unknown>>;
+      delete: Mock<(...args: unknown[]) => Promise<unknown>>;
+      count: Mock<(...args: unknown[]) => Promise<unknown>>;
+      groupBy: Mock<(...args: unknown[]) => Promise<unknown>>;
+      aggregate: Mock<(...args: unknown[]) => Promise<unknown>>;
+      findMany: Mock<(...args: unknown[]) => Promise<unknown>>;
+      findFirst: Mock<(...args: unknown[]) => Promise<unknown>>;
+      update: Mock<(...args: unknown[]) => Promise<unknown>>;
+    };
+    recipe: {
+      count: Mock<(...args: unknown[]) => Promise<unknown>>;
     };
   };
 
@@ -28,21 +42,30 @@ describe('MealPlansRepository', () => {
   const testMealPlanId = BigInt(1);
   const testRecipeId = BigInt(100);
 
+  // Resolves to whatever fixture a test sets, like the Prisma queries it stands in for
+  const asyncMock = () => mock((..._args: unknown[]): Promise<unknown> => Promise.resolve());
+
   const mockPrismaService = {
     mealPlan: {
-      create: mock(() => {}),
-      findUnique: mock(() => {}),
-      findMany: mock(() => {}),
-      update: mock(() => {}),
-      delete: mock(() => {}),
-      count: mock(() => {}),
+      create: asyncMock(),
+      findUnique: asyncMock(),
+      findMany: asyncMock(),
+      update: asyncMock(),
+      delete: asyncMock(),
+      count: asyncMock(),
     },
     mealPlanRecipe: {
-      create: mock(() => {}),
-      delete: mock(() => {}),
-      count: mock(() => {}),
-      groupBy: mock(() => {}),
-      findMany: mock(() => {}),
+      create: asyncMock(),
+      delete: asyncMock(),
+      count: asyncMock(),
+      groupBy: asyncMock(),
+      aggregate: asyncMock(),
+      findMany: asyncMock(),
+      findFirst: asyncMock(),
+      update: asyncMock(),
+    },
+    recipe: {
+      count: asyncMock(),
     },
   };
 
@@ -58,7 +81,11 @@ describe('MealPlansRepository', () => {
     mockPrismaService.mealPlanRecipe.delete.mockReset();
     mockPrismaService.mealPlanRecipe.count.mockReset();
     mockPrismaService.mealPlanRecipe.groupBy.mockReset();
+    mockPrismaService.mealPlanRecipe.aggregate.mockReset();
     mockPrismaService.mealPlanRecipe.findMany.mockReset();
+    mockPrismaService.mealPlanRecipe.findFirst.mockReset();
+    mockPrismaService.mealPlanRecipe.update.mockReset();
+    mockPrismaService.recipe.count.mockReset();
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -93,11 +120,17 @@ describe('MealPlansRepository', () => {
         ...createData,
         createdAt: new Date(),
         updatedAt: new Date(),
-        isActive: true,
-        isArchived: false,
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
       };
 
-      prisma.mealPlan.create.mockResolvedValue(expectedMealPlan as any);
+      prisma.mealPlan.create.mockResolvedValue(expectedMealPlan);
 
       const result = await repository.create(createData);
 
@@ -108,12 +141,70 @@ describe('MealPlansRepository', () => {
           description: createData.description,
           startDate: createData.startDate,
           endDate: createData.endDate,
+          dailyCaloriesTarget: null,
+          dailyProteinTarget: null,
+          dailyCarbohydratesTarget: null,
+          dailyFatTarget: null,
           user: {
             connect: { userId: createData.userId },
           },
         },
       });
     });
+
+    it('should create a meal plan with an explicit status', async () => {
+      prisma.mealPlan.create.mockResolvedValue({});
+
+      await repository.create({
+        userId: testUserId,
+        name: 'Active Plan',
+        status: MealPlanStatus.ACTIVE,
+      });
+
+      expect(prisma.mealPlan.create).toHaveBeenCalledWith({
+        data: {
+          name: 'Active Plan',
+          description: null,
+          startDate: null,
+          endDate: null,
+          status: MealPlanStatus.ACTIVE,
+          dailyCaloriesTarget: null,
+          dailyProteinTarget: null,
+          dailyCarbohydratesTarget: null,
+          dailyFatTarget: null,
+          user: {
+            connect: { userId: testUserId },
+          },
+        },
+      });
+    });
+
+    it('should create a meal plan with daily nutrition targets', async () => {
+      prisma.mealPlan.create.mockResolvedValue({});
+
+      await repository.create({
+        userId: testUserId,
+        name: 'Cutting Plan',
+        dailyCaloriesTarget: 1800,
+        dailyProteinTarget: 150,
+      });
+
+      expect(prisma.mealPlan.create).toHaveBeenCalledWith({
+        data: {
+          name: 'Cutting Plan',
+          description: null,
+          startDate: null,
+          endDate: null,
+          dailyCaloriesTarget: 1800,
+          dailyProteinTarget: 150,
+          dailyCarbohydratesTarget: null,
+          dailyFatTarget: null,
+          user: {
+            connect: { userId: testUserId },
+          },
+        },
+      });
+    });
   });
 
   describe('findById', () => {
@@ -127,11 +218,17 @@ describe('MealPlansRepository', () => {
         endDate: new Date('2024-01-07'),
         createdAt: new Date(),
         updatedAt: new Date(),
-        isActive: true,
-        isArchived: false,
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
       };
 
-      prisma.mealPlan.findUnique.mockResolvedValue(mockMealPlan as any);
+      prisma.mealPlan.findUnique.mockResolvedValue(mockMealPlan);
 
       const result = await repository.findById(testMealPlanId);
 
@@ -161,8 +258,14 @@ describe('MealPlansRepository', () => {
         endDate: new Date('2024-01-07'),
         createdAt: new Date(),
         updatedAt: new Date(),
-        isActive: true,
-        isArchived: false,
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
         mealPlanRecipes: [
           {
             mealPlanRecipeId: BigInt(1),
@@ -180,7 +283,7 @@ describe('MealPlansRepository', () => {
         ],
       };
 
-      prisma.mealPlan.findUnique.mockResolvedValue(mockMealPlanWithRecipes as any);
+      prisma.mealPlan.findUnique.mockResolvedValue(mockMealPlanWithRecipes);
 
       const result = await repository.findByIdWithRecipes(testMealPlanId);
 
@@ -217,12 +320,18 @@ describe('MealPlansRepository', () => {
           endDate: new Date('2024-01-07'),
           createdAt: new Date(),
           updatedAt: new Date(),
-          isActive: true,
-          isArchived: false,
+          status: MealPlanStatus.ACTIVE,
+          visibility: MealPlanVisibility.PRIVATE,
+          timezone: 'UTC',
+          archivedAt: null,
+          dailyCaloriesTarget: null,
+          dailyProteinTarget: null,
+          dailyCarbohydratesTarget: null,
+          dailyFatTarget: null,
         },
       ];
 
-      prisma.mealPlan.findMany.mockResolvedValue(mockMealPlans as any);
+      prisma.mealPlan.findMany.mockResolvedValue(mockMealPlans);
 
       const result = await repository.findByUser(testUserId);
 
@@ -249,11 +358,17 @@ describe('MealPlansRepository', () => {
         endDate: new Date('2024-01-07'),
         createdAt: new Date(),
         updatedAt: new Date(),
-        isActive: true,
-        isArchived: false,
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
       };
 
-      prisma.mealPlan.update.mockResolvedValue(updatedMealPlan as any);
+      prisma.mealPlan.update.mockResolvedValue(updatedMealPlan);
 
       const result = await repository.update(testMealPlanId, updateData);
 
@@ -276,11 +391,17 @@ describe('MealPlansRepository', () => {
         endDate: new Date('2024-01-07'),
         createdAt: new Date(),
         updatedAt: new Date(),
-        isActive: true,
-        isArchived: false,
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
       };
 
-      prisma.mealPlan.delete.mockResolvedValue(deletedMealPlan as any);
+      prisma.mealPlan.delete.mockResolvedValue(deletedMealPlan);
 
       const result = await repository.delete(testMealPlanId);
 
@@ -303,10 +424,10 @@ describe('MealPlansRepository', () => {
       const expectedRecipe = {
         mealPlanRecipeId: BigInt(1),
         ...addData,
-        servings: null,
+        servings: 1,
       };
 
-      prisma.mealPlanRecipe.create.mockResolvedValue(expectedRecipe as any);
+      prisma.mealPlanRecipe.create.mockResolvedValue(expectedRecipe);
 
       const result = await repository.addRecipeToMealPlan(addData);
 
@@ -320,6 +441,24 @@ describe('MealPlansRepository', () => {
         },
       });
     });
+
+    it('should persist servings when provided', async () => {
+      const addData = {
+        mealPlanId: testMealPlanId,
+        recipeId: testRecipeId,
+        mealDate: new Date('2024-01-01'),
+        mealType: MealType.BREAKFAST,
+        servings: 4,
+      };
+
+      prisma.mealPlanRecipe.create.mockResolvedValue(addData);
+
+      await repository.addRecipeToMealPlan(addData);
+
+      expect(prisma.mealPlanRecipe.create).toHaveBeenCalledWith({
+        data: addData,
+      });
+    });
   });
 
   describe('removeRecipeFromMealPlan', () => {
@@ -337,25 +476,140 @@ describe('MealPlansRepository', () => {
         servings: 2,
       };
 
-      prisma.mealPlanRecipe.delete.mockResolvedValue(deletedRecipe as any);
+      prisma.mealPlanRecipe.delete.mockResolvedValue(deletedRecipe);
 
       const result = await repository.removeRecipeFromMealPlan(
         removeData.mealPlanId,
         removeData.recipeId,
         removeData.mealDate,
+        removeData.mealType,
       );
 
       expect(result).toEqual(deletedRecipe);
       expect(prisma.mealPlanRecipe.delete).toHaveBeenCalledWith({
         where: {
-          mealPlanId_recipeId_mealDate: {
+          mealPlanId_recipeId_mealDate_mealType: {
             mealPlanId: removeData.mealPlanId,
             recipeId: removeData.recipeId,
             mealDate: removeData.mealDate,
+            mealType: removeData.mealType,
+          },
+        },
+      });
+    });
+  });
+
+  describe('findRecipeSlot', () => {
+    const slotKey = {
+      mealPlanId: testMealPlanId,
+      recipeId: testRecipeId,
+      mealDate: new Date('2024-01-01'),
+      mealType: MealType.DINNER,
+    };
+
+    it('should find a recipe slot by its full key', async () => {
+      const slot = {
+        ...slotKey,
+        servings: 1,
+        recipe: { recipeId: testRecipeId, title: 'Lasagna', userId: testUserId },
+      };
+      prisma.mealPlanRecipe.findFirst.mockResolvedValue(slot);
+
+      const result = await repository.findRecipeSlot(slotKey);
+
+      expect(result).toEqual(slot);
+      expect(prisma.mealPlanRecipe.findFirst).toHaveBeenCalledWith({
+        where: {
+          mealPlanId: testMealPlanId,
+          recipeId: testRecipeId,
+          mealDate: slotKey.mealDate,
+          mealType: MealType.DINNER,
+        },
+        include: {
+          recipe: {
+            select: {
+              recipeId: true,
+              title: true,
+              userId: true,
+            },
           },
         },
       });
     });
+
+    it('should return null when the slot does not exist', async () => {
+      prisma.mealPlanRecipe.findFirst.mockResolvedValue(null);
+
+      const result = await repository.findRecipeSlot(slotKey);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('updateRecipeSlot', () => {
+    it('should update the date and meal type of a recipe slot', async () => {
+      const slotKey = {
+        mealPlanId: testMealPlanId,
+        recipeId: testRecipeId,
+        mealDate: new Date('2024-01-01'),
+        mealType: MealType.DINNER,
+      };
+      const newDate = new Date('2024-01-02');
+      const updated = {
+        ...slotKey,
+        mealDate: newDate,
+        mealType: MealType.LUNCH,
+        servings: 1,
+        recipe: { recipeId: testRecipeId, title: 'Lasagna', userId: testUserId },
+      };
+      prisma.mealPlanRecipe.update.mockResolvedValue(updated);
+
+      const result = await repository.updateRecipeSlot(slotKey, {
+        mealDate: newDate,
+        mealType: MealType.LUNCH,
+      });
+
+      expect(result).toEqual(updated);
+      expect(prisma.mealPlanRecipe.update).toHaveBeenCalledWith({
+        where: {
+          mealPlanId_recipeId_mealDate_mealType: {
+            mealPlanId: testMealPlanId,
+            recipeId: testRecipeId,
+            mealDate: slotKey.mealDate,
+            mealType: MealType.DINNER,
+          },
+        },
+        data: { mealDate: newDate, mealType: MealType.LUNCH },
+        include: {
+          recipe: {
+            select: {
+              recipeId: true,
+              title: true,
+              userId: true,
+            },
+          },
+        },
+      });
+    });
+  });
+
+  describe('recipeExists', () => {
+    it('should return true when the recipe exists', async () => {
+      prisma.recipe.count.mockResolvedValue(1);
+
+      const result = await repository.recipeExists(testRecipeId);
+
+      expect(result).toBe(true);
+      expect(prisma.recipe.count).toHaveBeenCalledWith({ where: { recipeId: testRecipeId } });
+    });
+
+    it('should return false when the recipe does not exist', async () => {
+      prisma.recipe.count.mockResolvedValue(0);
+
+      const result = await repository.recipeExists(testRecipeId);
+
+      expect(result).toBe(false);
+    });
   });
 
   describe('existsByIdAndUser', () => {
@@ -410,18 +664,94 @@ describe('MealPlansRepository', () => {
           endDate: new Date('2024-01-07'),
           createdAt: new Date(),
           updatedAt: new Date(),
-          isActive: true,
-          isArchived: false,
+          status: MealPlanStatus.ACTIVE,
+          visibility: MealPlanVisibility.PRIVATE,
+          timezone: 'UTC',
+          archivedAt: null,
+          dailyCaloriesTarget: null,
+          dailyProteinTarget: null,
+          dailyCarbohydratesTarget: null,
+          dailyFatTarget: null,
         },
       ];
 
-      prisma.mealPlan.findMany.mockResolvedValue(mockMealPlans as any);
+      prisma.mealPlan.findMany.mockResolvedValue(mockMealPlans);
 
       const result = await repository.findManyWithFilters(filters, sorting, pagination);
 
       expect(result).toEqual(mockMealPlans);
       expect(prisma.mealPlan.findMany).toHaveBeenCalled();
     });
+
+    it('should include meal plans without a start date after a cursor when sorting up', async () => {
+      const startDate = new Date('2024-01-01');
+      prisma.mealPlan.findMany.mockResolvedValue([] as never);
+
+      await repository.findManyWithFilters(
+        { userId: testUserId },
+        { sortBy: 'startDate', sortOrder: 'asc' },
+        {
+          skip: 0,
+          take: 21,
+          cursor: {
+            sortBy: 'startDate',
+            sortOrder: 'asc',
+            direction: 'next',
+            key: startDate,
+            id: testMealPlanId,
+          },
+        },
+      );
+
+      expect(prisma.mealPlan.findMany).toHaveBeenCalledWith({
+        where: {
+          AND: [
+            expect.objectContaining({ userId: testUserId }),
+            {
+              OR: [
+                { startDate: { gt: startDate } },
+                { startDate, mealPlanId: { gt: testMealPlanId } },
+                { startDate: null },
+              ],
+            },
+          ],
+        },
+        orderBy: [{ startDate: 'asc' }, { mealPlanId: 'asc' }],
+        take: 21,
+      });
+    });
+
+    it('should page back from a meal plan without a start date when sorting down', async () => {
+      prisma.mealPlan.findMany.mockResolvedValue([] as never);
+
+      await repository.findManyWithFilters(
+        { userId: testUserId },
+        { sortBy: 'startDate', sortOrder: 'desc' },
+        {
+          skip: 0,
+          take: 21,
+          cursor: {
+            sortBy: 'startDate',
+            sortOrder: 'desc',
+            direction: 'prev',
+            key: null,
+            id: testMealPlanId,
+          },
+        },
+      );
+
+      // Nulls come first going down, so only other nulls with a higher ID are before it
+      expect(prisma.mealPlan.findMany).toHaveBeenCalledWith({
+        where: {
+          AND: [
+            expect.objectContaining({ userId: testUserId }),
+            { startDate: null, mealPlanId: { gt: testMealPlanId } },
+          ],
+        },
+        orderBy: [{ startDate: 'asc' }, { mealPlanId: 'asc' }],
+        take: 21,
+      });
+    });
   });
 
   describe('countMealPlans', () => {
@@ -440,10 +770,83 @@ describe('MealPlansRepository', () => {
     });
   });
 
+  describe('countActiveMealPlans', () => {
+    it('should count active meal plans across all users', async () => {
+      prisma.mealPlan.count.mockResolvedValue(12);
+
+      const result = await repository.countActiveMealPlans();
+
+      expect(result).toBe(12);
+      expect(prisma.mealPlan.count).toHaveBeenCalledWith({
+        where: { status: MealPlanStatus.ACTIVE },
+      });
+    });
+  });
+
+  describe('lifecycle filtering', () => {
+    beforeEach(() => {
+      prisma.mealPlan.count.mockResolvedValue(0);
+    });
+
+    it('should exclude archived meal plans by default', async () => {
+      await repository.countMealPlans({ userId: testUserId });
+
+      expect(prisma.mealPlan.count).toHaveBeenCalledWith({
+        where: {
+          userId: testUserId,
+          status: { notIn: [MealPlanStatus.ARCHIVED] },
+        },
+      });
+    });
+
+    it('should include archived meal plans when requested', async () => {
+      await repository.countMealPlans({ userId: testUserId, includeArchived: true });
+
+      expect(prisma.mealPlan.count).toHaveBeenCalledWith({
+        where: { userId: testUserId },
+      });
+    });
+
+    it('should only return active meal plans when isActive is true', async () => {
+      await repository.countMealPlans({ userId: testUserId, isActive: true });
+
+      expect(prisma.mealPlan.count).toHaveBeenCalledWith({
+        where: { userId: testUserId, status: MealPlanStatus.ACTIVE },
+      });
+    });
+
+    it('should return inactive meal plans when isActive is false', async () => {
+      await repository.countMealPlans({ userId: testUserId, isActive: false });
+
+      expect(prisma.mealPlan.count).toHaveBeenCalledWith({
+        where: {
+          userId: testUserId,
+          status: { notIn: [MealPlanStatus.ACTIVE, MealPlanStatus.ARCHIVED] },
+        },
+      });
+    });
+
+    it('should return drafts and archived plans when isActive is false and archived are included', async () => {
+      await repository.countMealPlans({
+        userId: testUserId,
+        isActive: false,
+        includeArchived: true,
+      });
+
+      expect(prisma.mealPlan.count).toHaveBeenCalledWith({
+        where: {
+          userId: testUserId,
+          status: { notIn: [MealPlanStatus.ACTIVE] },
+        },
+      });
+    });
+  });
+
   describe('getMealPlanStatistics', () => {
     it('should get meal plan statistics', async () => {
       const mockStats = {
         totalRecipes: 10,
+        totalServings: 24,
         mealTypeCounts: [
           { mealType: MealType.BREAKFAST, count: 5 },
           { mealType: MealType.LUNCH, count: 3 },
@@ -453,20 +856,24 @@ describe('MealPlansRepository', () => {
       };
 
       prisma.mealPlanRecipe.count.mockResolvedValue(mockStats.totalRecipes);
+      prisma.mealPlanRecipe.aggregate.mockResolvedValue({
+        _sum: { servings: mockStats.totalServings },
+      });
       prisma.mealPlanRecipe.groupBy.mockResolvedValue(
         mockStats.mealTypeCounts.map((item) => ({
           mealType: item.mealType,
           _count: { mealType: item.count },
-        })) as any,
+        })),
       );
       prisma.mealPlanRecipe.findMany.mockResolvedValue(
-        mockStats.uniqueDates.map((date) => ({ mealDate: date })) as any,
+        mockStats.uniqueDates.map((date) => ({ mealDate: date })),
       );
 
       const result = await repository.getMealPlanStatistics(testMealPlanId);
 
       expect(result).toEqual({
         totalRecipes: mockStats.totalRecipes,
+        totalServings: mockStats.totalServings,
         daysWithMeals: mockStats.uniqueDates.length,
         mealTypeCounts: mockStats.mealTypeCounts,
         uniqueDates: mockStats.uniqueDates,
@@ -543,7 +950,7 @@ describe('MealPlansRepository', () => {
         },
       ];
 
-      prisma.mealPlanRecipe.findMany.mockResolvedValue(mockRecipes as any);
+      prisma.mealPlanRecipe.findMany.mockResolvedValue(mockRecipes);
 
       const result = await repository.findRecipesForDateRange(
         testMealPlanId,
@@ -586,7 +993,7 @@ describe('MealPlansRepository', () => {
         },
       ];
 
-      prisma.mealPlanRecipe.findMany.mockResolvedValue(mockRecipes as any);
+      prisma.mealPlanRecipe.findMany.mockResolvedValue(mockRecipes);
 
       const result = await repository.findRecipesForDateRange(
         testMealPlanId,
@@ -631,7 +1038,7 @@ describe('MealPlansRepository', () => {
         },
       ];
 
-      prisma.mealPlanRecipe.findMany.mockResolvedValue(mockRecipes as any);
+      prisma.mealPlanRecipe.findMany.mockResolvedValue(mockRecipes);
 
       const result = await repository.findRecipesForWeek(testMealPlanId, startDate, filters);
 
@@ -641,7 +1048,7 @@ describe('MealPlansRepository', () => {
           mealPlanId: testMealPlanId,
           mealDate: {
             gte: startDate,
-            lte: expect.any(Date), // Should be startDate + 6 days, end of day
+            lte: new Date('2024-01-07'),
           },
           mealType: MealType.LUNCH,
         },
@@ -672,7 +1079,7 @@ describe('MealPlansRepository', () => {
         },
       ];
 
-      prisma.mealPlanRecipe.findMany.mockResolvedValue(mockRecipes as any);
+      prisma.mealPlanRecipe.findMany.mockResolvedValue(mockRecipes);
 
       const result = await repository.findRecipesForMonth(testMealPlanId, year, month, filters);
 
@@ -681,8 +1088,8 @@ describe('MealPlansRepository', () => {
         where: {
           mealPlanId: testMealPlanId,
           mealDate: {
-            gte: new Date(year, month - 1, 1),
-            lte: expect.any(Date), // Should be end of month
+            gte: new Date('2024-01-01'),
+            lte: new Date('2024-01-31'),
           },
         },
         include: {
@@ -737,12 +1144,18 @@ describe('MealPlansRepository', () => {
         endDate: new Date('2024-01-07'),
         createdAt: new Date(),
         updatedAt: new Date(),
-        isActive: true,
-        isArchived: false,
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
         mealPlanRecipes: [],
       };
 
-      prisma.mealPlan.findUnique.mockResolvedValue(mockMealPlanWithRecipes as any);
+      prisma.mealPlan.findUnique.mockResolvedValue(mockMealPlanWithRecipes);
 
       const result = await repository.findByIdWithRecipesFiltered(testMealPlanId, undefined);
 
@@ -776,7 +1189,7 @@ describe('MealPlansRepository', () => {
         mealPlanRecipes: [],
       };
 
-      prisma.mealPlan.findUnique.mockResolvedValue(mockMealPlanWithRecipes as any);
+      prisma.mealPlan.findUnique.mockResolvedValue(mockMealPlanWithRecipes);
 
       const result = await repository.findByIdWithRecipesFiltered(testMealPlanId, filters);
 
@@ -816,7 +1229,7 @@ describe('MealPlansRepository', () => {
         mealPlanRecipes: [],
       };
 
-      prisma.mealPlan.findUnique.mockResolvedValue(mockMealPlanWithRecipes as any);
+      prisma.mealPlan.findUnique.mockResolvedValue(mockMealPlanWithRecipes);
 
       const result = await repository.findByIdWithRecipesFiltered(testMealPlanId, filters);
 
@@ -862,7 +1275,7 @@ describe('MealPlansRepository', () => {
         mealPlanRecipes: [],
       };
 
-      prisma.mealPlan.findUnique.mockResolvedValue(mockMealPlanWithRecipes as any);
+      prisma.mealPlan.findUnique.mockResolvedValue(mockMealPlanWithRecipes);
 
       const result = await repository.findByIdWithRecipesFiltered(testMealPlanId, filters);
 
@@ -907,7 +1320,7 @@ describe('MealPlansRepository', () => {
         mealPlanRecipes: [],
       };
 
-      prisma.mealPlan.findUnique.mockResolvedValue(mockMealPlanWithRecipes as any);
+      prisma.mealPlan.findUnique.mockResolvedValue(mockMealPlanWithRecipes);
 
       const result = await repository.findByIdWithRecipesFiltered(testMealPlanId, filters);
 
@@ -950,7 +1363,7 @@ describe('MealPlansRepository', () => {
         mealPlanRecipes: [],
       };
 
-      prisma.mealPlan.findUnique.mockResolvedValue(mockMealPlanWithRecipes as any);
+      prisma.mealPlan.findUnique.mockResolvedValue(mockMealPlanWithRecipes);
 
       const result = await repository.findByIdWithRecipesFiltered(testMealPlanId, filters);
 
@@ -989,7 +1402,7 @@ describe('MealPlansRepository', () => {
         mealPlanRecipes: [],
       };
 
-      prisma.mealPlan.findUnique.mockResolvedValue(mockMealPlanWithRecipes as any);
+      prisma.mealPlan.findUnique.mockResolvedValue(mockMealPlanWithRecipes);
 
       const result = await repository.findByIdWithRecipesFiltered(testMealPlanId, filters);
 
@@ -1005,10 +1418,65 @@ describe('MealPlansRepository', () => {
     });
   });
 
+  const trendingOptions = {
+    trendingWindow: TrendingWindow.CONFIGURED,
+    maxResults: 100,
+  };
+
+  describe('recordEngagement', () => {
+    it('should store the engagement event', async () => {
+      const createMock = mock(() => Promise.resolve({}));
+      (mockPrismaService as any).mealPlanEngagementEvent = { create: createMock };
+
+      await repository.recordEngagement(testMealPlanId, MealPlanEngagementType.VIEW, testUserId);
+
+      expect(createMock).toHaveBeenCalledWith({
+        data: {
+          mealPlanId: testMealPlanId,
+          eventType: MealPlanEngagementType.VIEW,
+          userId: testUserId,
+        },
+      });
+    });
+  });
+
+  describe('recordView', () => {
+    it('should store at most one view per user, meal plan and day', async () => {
+      const createManyMock = mock(() => Promise.resolve({ count: 1 }));
+      (mockPrismaService as any).mealPlanEngagementEvent = { createMany: createManyMock };
+
+      await repository.recordView(testMealPlanId, testUserId);
+
+      expect(createManyMock).toHaveBeenCalledWith({
+        data: [
+          {
+            mealPlanId: testMealPlanId,
+            eventType: MealPlanEngagementType.VIEW,
+            userId: testUserId,
+            viewedOn: DateOnlyUtil.today('UTC'),
+          },
+        ],
+        skipDuplicates: true,
+      });
+    });
+  });
+
   describe('findTrendingMealPlans', () => {
+    const publicMealPlan = {
+      status: MealPlanStatus.ACTIVE,
+      visibility: MealPlanVisibility.PUBLIC,
+      timezone: 'UTC',
+      archivedAt: null,
+      dailyCaloriesTarget: null,
+      dailyProteinTarget: null,
+      dailyCarbohydratesTarget: null,
+      dailyFatTarget: null,
+    };
+
     it('should return trending meal plans with pagination', async () => {
-      const mockTrendingMealPlans = [
+      const mockTrendingMealPlans: TrendingMealPlan[] = [
         {
+          ...publicMealPlan,
           mealPlanId: BigInt(1),
           userId: testUserId,
           name: 'Trending Plan 1',
@@ -1017,8 +1485,11 @@ describe('MealPlansRepository', () => {
           endDate: new Date('2024-01-07'),
           createdAt: new Date(),
           updatedAt: new Date(),
+          trendingScore: 12.5,
+          trendingRank: 1,
         },
         {
+          ...publicMealPlan,
           mealPlanId: BigInt(2),
           userId: testUserId,
           name: 'Trending Plan 2',
@@ -1027,13 +1498,15 @@ describe('MealPlansRepository', () => {
           endDate: new Date('2024-01-14'),
           createdAt: new Date(),
           updatedAt: new Date(),
+          trendingScore: 8,
+          trendingRank: 2,
         },
       ];
 
       // Mock $queryRaw for the trending query
       (mockPrismaService as any).$queryRaw = mock(() => Promise.resolve(mockTrendingMealPlans));
 
-      const result = await repository.findTrendingMealPlans(0, 20);
+      const result = await repository.findTrendingMealPlans(trendingOptions, 0, 20);
 
       expect(result).toEqual(mockTrendingMealPlans);
       expect(result).toHaveLength(2);
@@ -1042,14 +1515,15 @@ describe('MealPlansRepository', () => {
     it('should return empty array when no meal plans exist', async () => {
       (mockPrismaService as any).$queryRaw = mock(() => Promise.resolve([]));
 
-      const result = await repository.findTrendingMealPlans(0, 20);
+      const result = await repository.findTrendingMealPlans(trendingOptions, 0, 20);
 
       expect(result).toEqual([]);
     });
 
     it('should apply skip and take for pagination', async () => {
-      const mockTrendingMealPlans = [
+      const mockTrendingMealPlans: TrendingMealPlan[] = [
         {
+          ...publicMealPlan,
           mealPlanId: BigInt(3),
           userId: testUserId,
           name: 'Trending Plan 3',
@@ -1058,13 +1532,15 @@ describe('MealPlansRepository', () => {
           endDate: new Date('2024-01-21'),
           createdAt: new Date(),
           updatedAt: new Date(),
+          trendingScore: 3.5,
+          trendingRank: 21,
         },
       ];
 
       const queryRawMock = mock(() => Promise.resolve(mockTrendingMealPlans));
       (mockPrismaService as any).$queryRaw = queryRawMock;
 
-      const result = await repository.findTrendingMealPlans(20, 10);
+      const result = await repository.findTrendingMealPlans(trendingOptions, 20, 10);
 
       expect(result).toEqual(mockTrendingMealPlans);
       expect(queryRawMock).toHaveBeenCalled();
@@ -1075,7 +1551,7 @@ describe('MealPlansRepository', () => {
     it('should return count capped at 100', async () => {
       (mockPrismaService as any).$queryRaw = mock(() => Promise.resolve([{ count: BigInt(50) }]));
 
-      const result = await repository.countTrendingMealPlans();
+      const result = await repository.countTrendingMealPlans(trendingOptions);
 
       expect(result).toBe(50);
     });
@@ -1083,7 +1559,7 @@ describe('MealPlansRepository', () => {
     it('should return 100 when actual count exceeds 100', async () => {
       (mockPrismaService as any).$queryRaw = mock(() => Promise.resolve([{ count: BigInt(100) }]));
 
-      const result = await repository.countTrendingMealPlans();
+      const result = await repository.countTrendingMealPlans(trendingOptions);
 
       expect(result).toBe(100);
     });
@@ -1091,9 +1567,101 @@ describe('MealPlansRepository', () => {
     it('should return 0 when no meal plans exist', async () => {
       (mockPrismaService as any).$queryRaw = mock(() => Promise.resolve([{ count: BigInt(0) }]));
 
-      const result = await repository.countTrendingMealPlans();
+      const result = await repository.countTrendingMealPlans(trendingOptions);
 
       expect(result).toBe(0);
     });
   });
+
+  describe('trending visibility', () => {
+    it('should only rank and count public meal plans', async () => {
+      const queryRawMock = mock((..._args: unknown[]) => Promise.resolve([{ count: BigInt(0) }]));
+      (mockPrismaService as any).$queryRaw = queryRawMock;
+
+      await repository.findTrendingMealPlans(trendingOptions, 0, 20);
+      await repository.countTrendingMealPlans(trendingOptions);
+
+      const [trendingSql, countSql] = queryRawMock.mock.calls.map((call) =>
+        (call[0] as TemplateStringsArray).join(''),
+      );
+      expect(trendingSql).toContain("AND mp.visibility = 'PUBLIC'");
+      expect(countSql).toContain("AND mp.visibility = 'PUBLIC'");
+    });
+  });
+
+  describe('trending options', () => {
+    it('should read the precomputed ranking of the window up to the cap', async () => {
+      const queryRawMock = mock((..._args: unknown[]) => Promise.resolve([]));
+      (mockPrismaService as any).$queryRaw = queryRawMock;
+
+      await repository.findTrendingMealPlans(
+        { trendingWindow: TrendingWindow.WEEK, maxResults: 50 },
+        10,
+        5,
+      );
+
+      const [strings, ...values] = queryRawMock.mock.calls[0]!;
+      const sql = (strings as TemplateStringsArray).join('');
+      expect(sql).toContain('recipe_manager.meal_plan_trending_scores');
+      expect(sql).toContain('ORDER BY ts.trending_rank');
+      expect(sql).not.toContain('meal_plan_engagement_events');
+      expect(values).toEqual(expect.arrayContaining([TrendingWindow.WEEK, 50, 10, 5]));
+    });
+
+    it('should only rank and count meal plans with the tag', async () => {
+      const queryRawMock = mock((..._args: unknown[]) => Promise.resolve([{ count: BigInt(0) }]));
+      (mockPrismaService as any).$queryRaw = queryRawMock;
+
+      await repository.findTrendingMealPlans({ ...trendingOptions, tag: 'Vegan' }, 0, 20);
+      await repository.countTrendingMealPlans({ ...trendingOptions, tag: 'Vegan' });
+
+      for (const [, ...values] of queryRawMock.mock.calls) {
+        const tagFilter = values.find((value) => value instanceof Prisma.Sql) as Prisma.Sql;
+        expect(tagFilter.sql).toContain('meal_plan_tag_junction');
+        expect(tagFilter.values).toEqual(['Vegan']);
+      }
+    });
+
+    it('should not filter by tag when none is given', async () => {
+      const queryRawMock = mock((..._args: unknown[]) => Promise.resolve([{ count: BigInt(0) }]));
+      (mockPrismaService as any).$queryRaw = queryRawMock;
+
+      await repository.countTrendingMealPlans(trendingOptions);
+
+      const [, ...values] = queryRawMock.mock.calls[0]!;
+      expect(values).toContain(Prisma.empty);
+    });
+  });
+
+  describe('refreshTrendingScores', () => {
+    it('should replace the ranking of the window in one locked transaction', async () => {
+      const deleteManyMock = mock(() => 'delete');
+      const executeRawMock = mock((strings: TemplateStringsArray, ..._values: unknown[]) =>
+        strings.join('').includes('pg_advisory_xact_lock') ? 'lock' : 'insert',
+      );
+      const transactionMock = mock(() => Promise.resolve([]));
+      (mockPrismaService as any).mealPlanTrendingScore = { deleteMany: deleteManyMock };
+      (mockPrismaService as any).$executeRaw = executeRawMock;
+      (mockPrismaService as any).$transaction = transactionMock;
+
+      await repository.refreshTrendingScores(TrendingWindow.DAY, {
+        weights: { favorite: 2, view: 0.25, clone: 5, recipeAdded: 1.5 },
+        decayRate: 0.1,
+        windowDays: 1,
+      });
+
+      expect(deleteManyMock).toHaveBeenCalledWith({
+        where: { trendingWindow: TrendingWindow.DAY },
+      });
+      expect(transactionMock).toHaveBeenCalledWith(['lock', 'delete', 'insert']);
+
+      const [strings, ...values] = executeRawMock.mock.calls[1]!;
+      const sql = strings.join('');
+      expect(sql).toContain('INSERT INTO recipe_manager.meal_plan_trending_scores');
+      expect(sql).toContain('recipe_manager.meal_plan_favorites');
+      expect(sql).toContain('recipe_manager.meal_plan_engagement_events');
+      expect(sql).toContain("WHERE mp.visibility = 'PUBLIC'");
+      expect(values).toEqual(expect.arrayContaining([2, 0.25, 5, 1.5, 0.1, 1, TrendingWindow.DAY]));
+    });
+  });
 });
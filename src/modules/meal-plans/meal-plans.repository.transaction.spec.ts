@@ -2,30 +2,36 @@ import { describe, it, expect, beforeEach, afterEach, mock, type Mock } from 'bu
 import { Test, TestingModule } from '@nestjs/testing';
 import { MealPlansRepository } from './meal-plans.repository';
 import { PrismaService } from '@/config/database.config';
-import { MealType } from '@generated/prisma/client';
+import { MealPlanStatus, MealPlanVisibility, MealType } from '@generated/prisma/client';
 
 describe('MealPlansRepository - Transaction Methods', () => {
   let repository: MealPlansRepository;
   let prisma: {
     mealPlan: {
-      create: Mock<(...args: unknown[]) => unknown>;
-      findUnique: Mock<(...args: unknown[]) => unknown>;
+      create: Mock<(...args: unknown[]) => Promise<unknown>>;
+      findUnique: Mock<(...args: unknown[]) => Promise<unknown>>;
     };
     mealPlanRecipe: {
-      createMany: Mock<(...args: unknown[]) => unknown>;
-      findMany: Mock<(...args: unknown[]) => unknown>;
-      deleteMany: Mock<(...args: unknown[]) => unknown>;
+      createMany: Mock<(...args: unknown[]) => Promise<unknown>>;
+      findMany: Mock<(...args: unknown[]) => Promise<unknown>>;
+      deleteMany: Mock<(...args: unknown[]) => Promise<unknown>>;
     };
   };
   let mockTx: {
     mealPlan: {
-      create: Mock<(...args: unknown[]) => unknown>;
-      findUnique: Mock<(...args: unknown[]) => unknown>;
+      create: Mock<(...args: unknown[]) => Promise<unknown>>;
+      findUnique: Mock<(...args: unknown[]) => Promise<unknown>>;
     };
     mealPlanRecipe: {
-      createMany: Mock<(...args: unknown[]) => unknown>;
-      findMany: Mock<(...args: unknown[]) => unknown>;
-      deleteMany: Mock<(...args: unknown[]) => unknown>;
+      createMany: Mock<(...args: unknown[]) => Promise<unknown>>;
+      findMany: Mock<(...args: unknown[]) => Promise<unknown>>;
+      deleteMany: Mock<(...args: unknown[]) => Promise<unknown>>;
+    };
+    mealPlanTagJunction: {
+      createMany: Mock<(...args: unknown[]) => Promise<unknown>>;
+    };
+    mealPlanTemplate: {
+      findUnique: Mock<(...args: unknown[]) => Promise<unknown>>;
     };
   };
 
@@ -33,15 +39,18 @@ describe('MealPlansRepository - Transaction Methods', () => {
   const testRecipeId = BigInt(1);
   const testMealPlanId = BigInt(1);
 
+  // Resolves to whatever fixture a test sets, like the Prisma queries it stands in for
+  const asyncMock = () => mock((..._args: unknown[]): Promise<unknown> => Promise.resolve());
+
   const mockPrismaService = {
     mealPlan: {
-      create: mock(() => {}),
-      findUnique: mock(() => {}),
+      create: asyncMock(),
+      findUnique: asyncMock(),
     },
     mealPlanRecipe: {
-      createMany: mock(() => {}),
-      findMany: mock(() => {}),
-      deleteMany: mock(() => {}),
+      createMany: asyncMock(),
+      findMany: asyncMock(),
+      deleteMany: asyncMock(),
     },
   };
 
@@ -56,13 +65,19 @@ describe('MealPlansRepository - Transaction Methods', () => {
     // Create a separate mock for transaction
     mockTx = {
       mealPlan: {
-        create: mock(() => {}),
-        findUnique: mock(() => {}),
+        create: asyncMock(),
+        findUnique: asyncMock(),
       },
       mealPlanRecipe: {
-        createMany: mock(() => {}),
-        findMany: mock(() => {}),
-        deleteMany: mock(() => {}),
+        createMany: asyncMock(),
+        findMany: asyncMock(),
+        deleteMany: asyncMock(),
+      },
+      mealPlanTagJunction: {
+        createMany: asyncMock(),
+      },
+      mealPlanTemplate: {
+        findUnique: asyncMock(),
       },
     };
 
@@ -115,6 +130,14 @@ describe('MealPlansRepository - Transaction Methods', () => {
         description: createData.description,
         startDate: createData.startDate,
         endDate: createData.endDate,
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -127,6 +150,7 @@ describe('MealPlansRepository - Transaction Methods', () => {
             recipeId: testRecipeId,
             mealDate: new Date('2024-01-02'),
             mealType: MealType.BREAKFAST,
+            servings: 1,
             recipe: {
               recipeId: testRecipeId,
               title: 'Breakfast Recipe',
@@ -138,6 +162,7 @@ describe('MealPlansRepository - Transaction Methods', () => {
             recipeId: BigInt(2),
             mealDate: new Date('2024-01-02'),
             mealType: MealType.LUNCH,
+            servings: 1,
             recipe: {
               recipeId: BigInt(2),
               title: 'Lunch Recipe',
@@ -165,6 +190,10 @@ describe('MealPlansRepository - Transaction Methods', () => {
           description: createData.description,
           startDate: createData.startDate,
           endDate: createData.endDate,
+          dailyCaloriesTarget: null,
+          dailyProteinTarget: null,
+          dailyCarbohydratesTarget: null,
+          dailyFatTarget: null,
           user: {
             connect: { userId: testUserId },
           },
@@ -202,6 +231,14 @@ describe('MealPlansRepository - Transaction Methods', () => {
         description: createData.description,
         startDate: null,
         endDate: null,
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -233,6 +270,14 @@ describe('MealPlansRepository - Transaction Methods', () => {
         description: null,
         startDate: null,
         endDate: null,
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -270,6 +315,7 @@ describe('MealPlansRepository - Transaction Methods', () => {
       const expectedRecipes = recipes.map((recipe, index) => ({
         mealPlanId: testMealPlanId,
         ...recipe,
+        servings: 1,
         recipe: {
           recipeId: recipe.recipeId,
           title: `Recipe ${index + 1}`,
@@ -298,10 +344,12 @@ describe('MealPlansRepository - Transaction Methods', () => {
         {
           recipeId: testRecipeId,
           mealDate: new Date('2024-01-02'),
+          mealType: MealType.LUNCH,
         },
         {
           recipeId: BigInt(2),
           mealDate: new Date('2024-01-03'),
+          mealType: MealType.DINNER,
         },
       ];
 
@@ -317,10 +365,10 @@ describe('MealPlansRepository - Transaction Methods', () => {
       expect(mockTx.mealPlanRecipe.deleteMany).toHaveBeenCalledWith({
         where: {
           mealPlanId: testMealPlanId,
-          OR: recipesToRemove.map((recipe) => ({
-            recipeId: recipe.recipeId,
-            mealDate: recipe.mealDate,
-          })),
+          OR: [
+            { recipeId: testRecipeId, mealDate: new Date('2024-01-02'), mealType: MealType.LUNCH },
+            { recipeId: BigInt(2), mealDate: new Date('2024-01-03'), mealType: MealType.DINNER },
+          ],
         },
       });
     });
@@ -344,6 +392,7 @@ describe('MealPlansRepository - Transaction Methods', () => {
         mealPlanId: testMealPlanId,
         mealDate,
         ...recipe,
+        servings: 1,
         recipe: {
           recipeId: recipe.recipeId,
           title: `Recipe ${recipe.recipeId}`,
@@ -359,6 +408,7 @@ describe('MealPlansRepository - Transaction Methods', () => {
         testMealPlanId,
         mealDate,
         newRecipes,
+        undefined,
         mockTx as any,
       );
 
@@ -387,6 +437,7 @@ describe('MealPlansRepository - Transaction Methods', () => {
         testMealPlanId,
         mealDate,
         [],
+        undefined,
         mockTx as any,
       );
 
@@ -394,6 +445,42 @@ describe('MealPlansRepository - Transaction Methods', () => {
       expect(mockTx.mealPlanRecipe.createMany).not.toHaveBeenCalled();
       expect(mockTx.mealPlanRecipe.findMany).not.toHaveBeenCalled();
     });
+
+    it('should only remove recipes of the given meal type when scoped', async () => {
+      const mealDate = new Date('2024-01-02');
+      const newRecipes = [{ recipeId: testRecipeId, mealType: MealType.DINNER, servings: 3 }];
+
+      mockTx.mealPlanRecipe.deleteMany.mockResolvedValue({ count: 1 });
+      mockTx.mealPlanRecipe.createMany.mockResolvedValue({ count: 1 });
+      mockTx.mealPlanRecipe.findMany.mockResolvedValue([]);
+
+      await repository.replaceRecipesForDate(
+        testMealPlanId,
+        mealDate,
+        newRecipes,
+        MealType.DINNER,
+        mockTx as any,
+      );
+
+      expect(mockTx.mealPlanRecipe.deleteMany).toHaveBeenCalledWith({
+        where: {
+          mealPlanId: testMealPlanId,
+          mealDate,
+          mealType: MealType.DINNER,
+        },
+      });
+      expect(mockTx.mealPlanRecipe.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            mealPlanId: testMealPlanId,
+            recipeId: testRecipeId,
+            mealDate,
+            mealType: MealType.DINNER,
+            servings: 3,
+          },
+        ],
+      });
+    });
   });
 
   describe('cloneMealPlan', () => {
@@ -405,6 +492,14 @@ describe('MealPlansRepository - Transaction Methods', () => {
         description: 'Original plan',
         startDate: new Date('2024-01-01'),
         endDate: new Date('2024-01-07'),
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
         createdAt: new Date(),
         updatedAt: new Date(),
         mealPlanRecipes: [
@@ -413,14 +508,20 @@ describe('MealPlansRepository - Transaction Methods', () => {
             recipeId: testRecipeId,
             mealDate: new Date('2024-01-02'),
             mealType: MealType.BREAKFAST,
+            servings: 2,
           },
           {
             mealPlanId: testMealPlanId,
             recipeId: BigInt(2),
             mealDate: new Date('2024-01-03'),
             mealType: MealType.LUNCH,
+            servings: 4,
           },
         ],
+        mealPlanTagJunctions: [
+          { mealPlanId: testMealPlanId, tagId: BigInt(10) },
+          { mealPlanId: testMealPlanId, tagId: BigInt(11) },
+        ],
       };
 
       const targetData = {
@@ -434,6 +535,14 @@ describe('MealPlansRepository - Transaction Methods', () => {
       const clonedMealPlan = {
         mealPlanId: BigInt(2),
         ...targetData,
+        status: MealPlanStatus.DRAFT,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -446,6 +555,7 @@ describe('MealPlansRepository - Transaction Methods', () => {
             recipeId: testRecipeId,
             mealDate: new Date('2024-01-09'), // 7 days offset
             mealType: MealType.BREAKFAST,
+            servings: 1,
             recipe: {
               recipeId: testRecipeId,
               title: 'Recipe 1',
@@ -457,6 +567,7 @@ describe('MealPlansRepository - Transaction Methods', () => {
             recipeId: BigInt(2),
             mealDate: new Date('2024-01-10'), // 7 days offset
             mealType: MealType.LUNCH,
+            servings: 1,
             recipe: {
               recipeId: BigInt(2),
               title: 'Recipe 2',
@@ -469,6 +580,7 @@ describe('MealPlansRepository - Transaction Methods', () => {
       mockTx.mealPlan.findUnique.mockResolvedValueOnce(sourceMealPlan);
       mockTx.mealPlan.create.mockResolvedValue(clonedMealPlan);
       mockTx.mealPlanRecipe.createMany.mockResolvedValue({ count: 2 });
+      mockTx.mealPlanTagJunction.createMany.mockResolvedValue({ count: 2 });
       mockTx.mealPlan.findUnique.mockResolvedValueOnce(expectedResult);
 
       const result = await repository.cloneMealPlan(
@@ -483,6 +595,7 @@ describe('MealPlansRepository - Transaction Methods', () => {
         where: { mealPlanId: testMealPlanId },
         include: {
           mealPlanRecipes: true,
+          mealPlanTagJunctions: true,
         },
       });
       expect(mockTx.mealPlanRecipe.createMany).toHaveBeenCalledWith({
@@ -492,15 +605,23 @@ describe('MealPlansRepository - Transaction Methods', () => {
             recipeId: testRecipeId,
             mealDate: new Date('2024-01-09'),
             mealType: MealType.BREAKFAST,
+            servings: 2,
           },
           {
             mealPlanId: BigInt(2),
             recipeId: BigInt(2),
             mealDate: new Date('2024-01-10'),
             mealType: MealType.LUNCH,
+            servings: 4,
           },
         ],
       });
+      expect(mockTx.mealPlanTagJunction.createMany).toHaveBeenCalledWith({
+        data: [
+          { mealPlanId: BigInt(2), tagId: BigInt(10) },
+          { mealPlanId: BigInt(2), tagId: BigInt(11) },
+        ],
+      });
     });
 
     it('should throw error when source meal plan not found', async () => {
@@ -524,9 +645,18 @@ describe('MealPlansRepository - Transaction Methods', () => {
         description: null,
         startDate: null,
         endDate: null,
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
         createdAt: new Date(),
         updatedAt: new Date(),
         mealPlanRecipes: [],
+        mealPlanTagJunctions: [],
       };
 
       const targetData = {
@@ -540,6 +670,14 @@ describe('MealPlansRepository - Transaction Methods', () => {
         description: null,
         startDate: null,
         endDate: null,
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -557,6 +695,122 @@ describe('MealPlansRepository - Transaction Methods', () => {
 
       expect(result).toEqual(expectedResult);
       expect(mockTx.mealPlanRecipe.createMany).not.toHaveBeenCalled();
+      expect(mockTx.mealPlanTagJunction.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('instantiateTemplate', () => {
+    it('should schedule each template slot its day offset after the start date', async () => {
+      const template = {
+        templateId: BigInt(42),
+        userId: testUserId,
+        name: 'High Protein Week',
+        description: null,
+        durationDays: 7,
+        isPublic: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        slots: [
+          {
+            templateId: BigInt(42),
+            recipeId: testRecipeId,
+            dayOffset: 0,
+            mealType: MealType.BREAKFAST,
+            servings: 2,
+          },
+          {
+            templateId: BigInt(42),
+            recipeId: BigInt(2),
+            dayOffset: 6,
+            mealType: MealType.DINNER,
+            servings: 4,
+          },
+        ],
+      };
+
+      const targetData = {
+        userId: testUserId,
+        name: 'High Protein Week',
+        startDate: new Date('2024-03-11'),
+        endDate: new Date('2024-03-17'),
+      };
+
+      const createdMealPlan = {
+        mealPlanId: BigInt(2),
+        ...targetData,
+        description: null,
+        status: MealPlanStatus.DRAFT,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      const expectedResult = { ...createdMealPlan, mealPlanRecipes: [] };
+
+      mockTx.mealPlanTemplate.findUnique.mockResolvedValue(template);
+      mockTx.mealPlan.create.mockResolvedValue(createdMealPlan);
+      mockTx.mealPlanRecipe.createMany.mockResolvedValue({ count: 2 });
+      mockTx.mealPlan.findUnique.mockResolvedValue(expectedResult);
+
+      const result = await repository.instantiateTemplate(BigInt(42), targetData, mockTx as any);
+
+      expect(result).toEqual(expectedResult);
+      expect(mockTx.mealPlanTemplate.findUnique).toHaveBeenCalledWith({
+        where: { templateId: BigInt(42) },
+        include: { slots: true },
+      });
+      expect(mockTx.mealPlan.create).toHaveBeenCalledWith({
+        data: {
+          name: 'High Protein Week',
+          description: null,
+          startDate: new Date('2024-03-11'),
+          endDate: new Date('2024-03-17'),
+          dailyCaloriesTarget: null,
+          dailyProteinTarget: null,
+          dailyCarbohydratesTarget: null,
+          dailyFatTarget: null,
+          user: {
+            connect: { userId: testUserId },
+          },
+        },
+      });
+      expect(mockTx.mealPlanRecipe.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            mealPlanId: BigInt(2),
+            recipeId: testRecipeId,
+            mealDate: new Date('2024-03-11'),
+            mealType: MealType.BREAKFAST,
+            servings: 2,
+          },
+          {
+            mealPlanId: BigInt(2),
+            recipeId: BigInt(2),
+            mealDate: new Date('2024-03-17'),
+            mealType: MealType.DINNER,
+            servings: 4,
+          },
+        ],
+      });
+      expect(mockTx.mealPlanTagJunction.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should throw error when template not found', async () => {
+      mockTx.mealPlanTemplate.findUnique.mockResolvedValue(null);
+
+      expect(
+        repository.instantiateTemplate(
+          BigInt(999),
+          { userId: testUserId, name: 'Plan', startDate: new Date('2024-03-11') },
+          mockTx as any,
+        ),
+      ).rejects.toThrow('Meal plan template not found');
     });
   });
 });
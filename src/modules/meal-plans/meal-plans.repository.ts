@@ -1,31 +1,56 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '@/config/database.config';
-import { MealPlan, MealPlanRecipe, MealType, Prisma } from '@generated/prisma/client';
+import {
+  MealPlan,
+  MealPlanEngagementType,
+  MealPlanRecipe,
+  MealPlanStatus,
+  MealPlanVisibility,
+  MealType,
+  Prisma,
+  TrendingWindow,
+} from '@generated/prisma/client';
 import { TransactionClient } from '@/shared/database/transaction.service';
+import { TrendingConfig } from '@/config/configuration';
+import { MealPlanNutritionTargetColumns } from './utils/nutrition.util';
+import { DateOnlyUtil } from './utils/date-only.util';
+import { CursorUtil, PageCursor } from './utils/cursor.util';
+
+// Advisory lock key held while a trending ranking is rebuilt
+const TRENDING_REFRESH_LOCK_KEY = 7_362_001;
+
+export interface MealPlanRecipeWithRecipe extends MealPlanRecipe {
+  recipe: {
+    recipeId: bigint;
+    title: string;
+    userId: string;
+  };
+}
 
 export interface MealPlanWithRecipes extends MealPlan {
-  mealPlanRecipes: (MealPlanRecipe & {
-    recipe: {
-      recipeId: bigint;
-      title: string;
-      userId: string;
-    };
-  })[];
+  mealPlanRecipes: MealPlanRecipeWithRecipe[];
 }
 
-export interface CreateMealPlanData {
+export interface CreateMealPlanData extends Partial<MealPlanNutritionTargetColumns> {
   userId: string;
   name: string;
   description?: string;
   startDate?: Date;
   endDate?: Date;
+  status?: MealPlanStatus;
+  visibility?: MealPlanVisibility;
+  timezone?: string;
 }
 
-export interface UpdateMealPlanData {
+export interface UpdateMealPlanData extends Partial<MealPlanNutritionTargetColumns> {
   name?: string;
   description?: string;
   startDate?: Date | null;
   endDate?: Date | null;
+  status?: MealPlanStatus;
+  visibility?: MealPlanVisibility;
+  timezone?: string;
+  archivedAt?: Date | null;
 }
 
 export interface AddRecipeToMealPlanData {
@@ -33,6 +58,31 @@ export interface AddRecipeToMealPlanData {
   recipeId: bigint;
   mealDate: Date;
   mealType: MealType;
+  servings?: number;
+}
+
+export interface MealPlanRecipeSlotKey {
+  mealPlanId: bigint;
+  recipeId: bigint;
+  mealDate: Date;
+  mealType: MealType;
+}
+
+export interface UpdateMealPlanRecipeSlotData {
+  mealDate?: Date;
+  mealType?: MealType;
+  servings?: number;
+}
+
+export interface TrendingOptions {
+  trendingWindow: TrendingWindow;
+  maxResults: number;
+  tag?: string;
+}
+
+export interface TrendingMealPlan extends MealPlan {
+  trendingScore: number;
+  trendingRank: number;
 }
 
 export interface MealPlanFilters {
@@ -57,6 +107,9 @@ export interface MealPlanSorting {
   sortOrder: 'asc' | 'desc';
 }
 
+// Sort fields that can be null, which keyset pagination has to step over
+const NULLABLE_SORT_FIELDS: MealPlanSorting['sortBy'][] = ['startDate', 'endDate'];
+
 export interface RecipeFilters {
   mealType?: MealType;
   dateRange?: {
@@ -72,6 +125,7 @@ export interface MealTypeCount {
 
 export interface StatisticsData {
   totalRecipes: number;
+  totalServings: number;
   daysWithMeals: number;
   mealTypeCounts: MealTypeCount[];
   uniqueDates: Date[];
@@ -98,6 +152,13 @@ export class MealPlansRepository {
         description: data.description ?? null,
         startDate: data.startDate ?? null,
         endDate: data.endDate ?? null,
+        ...(data.status && { status: data.status }),
+        ...(data.visibility && { visibility: data.visibility }),
+        ...(data.timezone && { timezone: data.timezone }),
+        dailyCaloriesTarget: data.dailyCaloriesTarget ?? null,
+        dailyProteinTarget: data.dailyProteinTarget ?? null,
+        dailyCarbohydratesTarget: data.dailyCarbohydratesTarget ?? null,
+        dailyFatTarget: data.dailyFatTarget ?? null,
         user: {
           connect: { userId: data.userId },
         },
@@ -188,6 +249,7 @@ export class MealPlansRepository {
         recipeId: data.recipeId,
         mealDate: data.mealDate,
         mealType: data.mealType,
+        ...(data.servings && { servings: data.servings }),
       },
     });
   }
@@ -196,13 +258,15 @@ export class MealPlansRepository {
     mealPlanId: bigint,
     recipeId: bigint,
     mealDate: Date,
+    mealType: MealType,
   ): Promise<MealPlanRecipe> {
     return this.prisma.mealPlanRecipe.delete({
       where: {
-        mealPlanId_recipeId_mealDate: {
+        mealPlanId_recipeId_mealDate_mealType: {
           mealPlanId,
           recipeId,
           mealDate,
+          mealType,
         },
       },
     });
@@ -263,21 +327,90 @@ export class MealPlansRepository {
     return count > 0;
   }
 
+  /**
+   * Check whether a recipe is scheduled on a date, optionally for a specific meal type
+   */
   async recipeExistsInMealPlan(
     mealPlanId: bigint,
     recipeId: bigint,
     mealDate: Date,
+    mealType?: MealType,
   ): Promise<boolean> {
     const count = await this.prisma.mealPlanRecipe.count({
       where: {
         mealPlanId,
         recipeId,
         mealDate,
+        ...(mealType && { mealType }),
       },
     });
     return count > 0;
   }
 
+  async findRecipeSlot(key: MealPlanRecipeSlotKey): Promise<MealPlanRecipeWithRecipe | null> {
+    return this.prisma.mealPlanRecipe.findFirst({
+      where: {
+        mealPlanId: key.mealPlanId,
+        recipeId: key.recipeId,
+        mealDate: key.mealDate,
+        mealType: key.mealType,
+      },
+      include: {
+        recipe: {
+          select: {
+            recipeId: true,
+            title: true,
+            userId: true,
+          },
+        },
+      },
+    });
+  }
+
+  async updateRecipeSlot(
+    key: MealPlanRecipeSlotKey,
+    data: UpdateMealPlanRecipeSlotData,
+  ): Promise<MealPlanRecipeWithRecipe> {
+    return this.prisma.mealPlanRecipe.update({
+      where: {
+        mealPlanId_recipeId_mealDate_mealType: {
+          mealPlanId: key.mealPlanId,
+          recipeId: key.recipeId,
+          mealDate: key.mealDate,
+          mealType: key.mealType,
+        },
+      },
+      data,
+      include: {
+        recipe: {
+          select: {
+            recipeId: true,
+            title: true,
+            userId: true,
+          },
+        },
+      },
+    });
+  }
+
+  async recipeExists(recipeId: bigint): Promise<boolean> {
+    const count = await this.prisma.recipe.count({
+      where: { recipeId },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Find the numeric ID of a recipe by its legacy UUID
+   */
+  async findRecipeIdByLegacyUuid(legacyUuid: string): Promise<bigint | null> {
+    const recipe = await this.prisma.recipe.findUnique({
+      where: { legacyUuid: legacyUuid.toLowerCase() },
+      select: { recipeId: true },
+    });
+    return recipe?.recipeId ?? null;
+  }
+
   // Transaction-aware methods
 
   /**
@@ -296,6 +429,12 @@ export class MealPlansRepository {
         description: data.description ?? null,
         startDate: data.startDate ?? null,
         endDate: data.endDate ?? null,
+        ...(data.status && { status: data.status }),
+        ...(data.timezone && { timezone: data.timezone }),
+        dailyCaloriesTarget: data.dailyCaloriesTarget ?? null,
+        dailyProteinTarget: data.dailyProteinTarget ?? null,
+        dailyCarbohydratesTarget: data.dailyCarbohydratesTarget ?? null,
+        dailyFatTarget: data.dailyFatTarget ?? null,
         user: {
           connect: { userId: data.userId },
         },
@@ -309,6 +448,7 @@ export class MealPlansRepository {
         recipeId: recipe.recipeId,
         mealDate: recipe.mealDate,
         mealType: recipe.mealType,
+        ...(recipe.servings && { servings: recipe.servings }),
       }));
 
       await client.mealPlanRecipe.createMany({
@@ -351,6 +491,7 @@ export class MealPlansRepository {
       recipeId: recipe.recipeId,
       mealDate: recipe.mealDate,
       mealType: recipe.mealType,
+      ...(recipe.servings && { servings: recipe.servings }),
     }));
 
     await client.mealPlanRecipe.createMany({
@@ -381,13 +522,15 @@ export class MealPlansRepository {
   }
 
   /**
-   * Remove multiple recipes from a meal plan in a single transaction
+   * Remove multiple recipe slots from a meal plan in a single transaction.
+   * Only the given meal type is removed when a recipe fills several on a day.
    */
   async removeMultipleRecipes(
     mealPlanId: bigint,
     recipes: Array<{
       recipeId: bigint;
       mealDate: Date;
+      mealType: MealType;
     }>,
     tx?: TransactionClient,
   ): Promise<number> {
@@ -399,6 +542,7 @@ export class MealPlansRepository {
         OR: recipes.map((recipe) => ({
           recipeId: recipe.recipeId,
           mealDate: recipe.mealDate,
+          mealType: recipe.mealType,
         })),
       },
     });
@@ -407,21 +551,24 @@ export class MealPlansRepository {
   }
 
   /**
-   * Replace all recipes for a specific date in a meal plan
+   * Replace all recipes for a specific date in a meal plan.
+   * When a meal type is given, only recipes of that meal type are removed.
    */
   async replaceRecipesForDate(
     mealPlanId: bigint,
     mealDate: Date,
     newRecipes: Omit<AddRecipeToMealPlanData, 'mealPlanId' | 'mealDate'>[],
+    mealType?: MealType,
     tx?: TransactionClient,
   ): Promise<MealPlanRecipe[]> {
     const client = tx ?? this.prisma;
 
-    // Remove existing recipes for the date
+    // Remove existing recipes for the date (and meal type, if scoped)
     await client.mealPlanRecipe.deleteMany({
       where: {
         mealPlanId,
         mealDate,
+        ...(mealType && { mealType }),
       },
     });
 
@@ -432,6 +579,7 @@ export class MealPlansRepository {
         recipeId: recipe.recipeId,
         mealDate,
         mealType: recipe.mealType,
+        ...(recipe.servings && { servings: recipe.servings }),
       }));
 
       await client.mealPlanRecipe.createMany({
@@ -460,7 +608,34 @@ export class MealPlansRepository {
   }
 
   /**
-   * Clone a meal plan with all its recipes to a new date range
+   * Replace all recipes scheduled on a meal plan
+   */
+  async replaceRecipes(
+    mealPlanId: bigint,
+    newRecipes: Omit<AddRecipeToMealPlanData, 'mealPlanId'>[],
+    tx?: TransactionClient,
+  ): Promise<void> {
+    const client = tx ?? this.prisma;
+
+    await client.mealPlanRecipe.deleteMany({
+      where: { mealPlanId },
+    });
+
+    if (newRecipes.length > 0) {
+      await client.mealPlanRecipe.createMany({
+        data: newRecipes.map((recipe) => ({
+          mealPlanId,
+          recipeId: recipe.recipeId,
+          mealDate: recipe.mealDate,
+          mealType: recipe.mealType,
+          ...(recipe.servings && { servings: recipe.servings }),
+        })),
+      });
+    }
+  }
+
+  /**
+   * Clone a meal plan with all its recipes and tags to a new date range
    */
   async cloneMealPlan(
     sourceMealPlanId: bigint,
@@ -475,6 +650,7 @@ export class MealPlansRepository {
       where: { mealPlanId: sourceMealPlanId },
       include: {
         mealPlanRecipes: true,
+        mealPlanTagJunctions: true,
       },
     });
 
@@ -482,6 +658,68 @@ export class MealPlansRepository {
       throw new Error('Source meal plan not found');
     }
 
+    // Clone recipes with date offset
+    const clonedRecipes = sourceMealPlan.mealPlanRecipes.map((recipe) => ({
+      recipeId: recipe.recipeId,
+      mealDate: DateOnlyUtil.addDays(recipe.mealDate, dayOffset),
+      mealType: recipe.mealType,
+      servings: recipe.servings,
+    }));
+
+    return this.createMealPlanCopy(
+      client,
+      {
+        ...targetData,
+        dailyCaloriesTarget: sourceMealPlan.dailyCaloriesTarget,
+        dailyProteinTarget: sourceMealPlan.dailyProteinTarget,
+        dailyCarbohydratesTarget: sourceMealPlan.dailyCarbohydratesTarget,
+        dailyFatTarget: sourceMealPlan.dailyFatTarget,
+      },
+      clonedRecipes,
+      sourceMealPlan.mealPlanTagJunctions.map((junction) => junction.tagId),
+    );
+  }
+
+  /**
+   * Create a dated meal plan from a template. Each template slot is scheduled
+   * its day offset after the target start date.
+   */
+  async instantiateTemplate(
+    templateId: bigint,
+    targetData: CreateMealPlanData & { startDate: Date },
+    tx?: TransactionClient,
+  ): Promise<MealPlanWithRecipes> {
+    const client = tx ?? this.prisma;
+
+    const template = await client.mealPlanTemplate.findUnique({
+      where: { templateId },
+      include: { slots: true },
+    });
+
+    if (!template) {
+      throw new Error('Meal plan template not found');
+    }
+
+    const recipes = template.slots.map((slot) => ({
+      recipeId: slot.recipeId,
+      mealDate: DateOnlyUtil.addDays(targetData.startDate, slot.dayOffset),
+      mealType: slot.mealType,
+      servings: slot.servings,
+    }));
+
+    return this.createMealPlanCopy(client, targetData, recipes, []);
+  }
+
+  /**
+   * Create a meal plan together with its recipes and tags. Shared by cloning
+   * and template instantiation.
+   */
+  private async createMealPlanCopy(
+    client: TransactionClient,
+    targetData: CreateMealPlanData,
+    recipes: Omit<AddRecipeToMealPlanData, 'mealPlanId'>[],
+    tagIds: bigint[],
+  ): Promise<MealPlanWithRecipes> {
     // Create new meal plan
     const newMealPlan = await client.mealPlan.create({
       data: {
@@ -489,28 +727,32 @@ export class MealPlansRepository {
         description: targetData.description ?? null,
         startDate: targetData.startDate ?? null,
         endDate: targetData.endDate ?? null,
+        ...(targetData.timezone && { timezone: targetData.timezone }),
+        dailyCaloriesTarget: targetData.dailyCaloriesTarget ?? null,
+        dailyProteinTarget: targetData.dailyProteinTarget ?? null,
+        dailyCarbohydratesTarget: targetData.dailyCarbohydratesTarget ?? null,
+        dailyFatTarget: targetData.dailyFatTarget ?? null,
         user: {
           connect: { userId: targetData.userId },
         },
       },
     });
 
-    // Clone recipes with date offset
-    if (sourceMealPlan.mealPlanRecipes.length > 0) {
-      const clonedRecipes = sourceMealPlan.mealPlanRecipes.map((recipe) => {
-        const newDate = new Date(recipe.mealDate);
-        newDate.setDate(newDate.getDate() + dayOffset);
-
-        return {
+    if (recipes.length > 0) {
+      await client.mealPlanRecipe.createMany({
+        data: recipes.map((recipe) => ({
           mealPlanId: newMealPlan.mealPlanId,
-          recipeId: recipe.recipeId,
-          mealDate: newDate,
-          mealType: recipe.mealType,
-        };
+          ...recipe,
+        })),
       });
+    }
 
-      await client.mealPlanRecipe.createMany({
-        data: clonedRecipes,
+    if (tagIds.length > 0) {
+      await client.mealPlanTagJunction.createMany({
+        data: tagIds.map((tagId) => ({
+          mealPlanId: newMealPlan.mealPlanId,
+          tagId,
+        })),
       });
     }
 
@@ -536,18 +778,38 @@ export class MealPlansRepository {
 
   // New methods for enhanced filtering and querying
 
+  /**
+   * Find a page of meal plans, either at an offset or right after or before
+   * a cursor. Ties in the sort field are broken by ID so pages never overlap.
+   */
   async findManyWithFilters(
     filters: EnhancedMealPlanFilters,
     sorting: MealPlanSorting,
-    pagination: { skip: number; take: number },
+    pagination: { skip: number; take: number; cursor?: PageCursor },
   ): Promise<MealPlan[]> {
+    const { cursor } = pagination;
     const where = this.buildWhereClause(filters);
-    const orderBy = this.buildOrderByClause(sorting);
 
     return this.prisma.mealPlan.findMany({
-      where,
-      orderBy,
-      skip: pagination.skip,
+      where: cursor
+        ? {
+            AND: [
+              where,
+              CursorUtil.buildWhere<Prisma.MealPlanWhereInput>(
+                cursor,
+                'mealPlanId',
+                NULLABLE_SORT_FIELDS.includes(sorting.sortBy),
+              ),
+            ],
+          }
+        : where,
+      orderBy: CursorUtil.buildOrderBy<Prisma.MealPlanOrderByWithRelationInput>(
+        sorting.sortBy,
+        'mealPlanId',
+        sorting.sortOrder,
+        cursor?.direction,
+      ),
+      ...(!cursor && { skip: pagination.skip }),
       take: pagination.take,
       ...(filters.includeRecipes && {
         include: {
@@ -606,8 +868,21 @@ export class MealPlansRepository {
       where.userId = filters.userId;
     }
 
-    // Note: isActive and includeArchived filtering not supported by current schema
-    // These can be implemented if isActive field is added to MealPlan model
+    // Archived plans are hidden unless explicitly requested
+    if (filters.isActive) {
+      where.status = MealPlanStatus.ACTIVE;
+    } else {
+      const excludedStatuses: MealPlanStatus[] = [];
+      if (filters.isActive === false) {
+        excludedStatuses.push(MealPlanStatus.ACTIVE);
+      }
+      if (!filters.includeArchived) {
+        excludedStatuses.push(MealPlanStatus.ARCHIVED);
+      }
+      if (excludedStatuses.length > 0) {
+        where.status = { notIn: excludedStatuses };
+      }
+    }
 
     // Date range filtering
     if (filters.startDateFrom || filters.endDateTo) {
@@ -696,12 +971,18 @@ export class MealPlansRepository {
   // Statistics & Analytics Methods
 
   async getMealPlanStatistics(mealPlanId: bigint): Promise<StatisticsData> {
-    const [totalRecipes, mealTypeCounts, uniqueDatesResult] = await Promise.all([
+    const [totalRecipes, servingsResult, mealTypeCounts, uniqueDatesResult] = await Promise.all([
       // Get total recipe count
       this.prisma.mealPlanRecipe.count({
         where: { mealPlanId },
       }),
 
+      // Get total servings across all recipe slots
+      this.prisma.mealPlanRecipe.aggregate({
+        where: { mealPlanId },
+        _sum: { servings: true },
+      }),
+
       // Get counts by meal type
       this.prisma.mealPlanRecipe.groupBy({
         by: ['mealType'],
@@ -728,6 +1009,7 @@ export class MealPlansRepository {
 
     return {
       totalRecipes,
+      totalServings: servingsResult._sum.servings ?? 0,
       daysWithMeals: uniqueDates.length,
       mealTypeCounts: mealTypeCountsTyped,
       uniqueDates,
@@ -801,11 +1083,11 @@ export class MealPlansRepository {
     weekStart: Date,
     filters?: RecipeFilters,
   ): Promise<MealPlanRecipe[]> {
-    const weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekStart.getDate() + 6);
-    weekEnd.setHours(23, 59, 59, 999);
+    // Meal dates are plain dates, so the range is compared as dates at midnight UTC
+    const rangeStart = DateOnlyUtil.toDateOnly(weekStart);
+    const rangeEnd = DateOnlyUtil.addDays(rangeStart, 6);
 
-    return this.findRecipesForDateRange(mealPlanId, weekStart, weekEnd, filters);
+    return this.findRecipesForDateRange(mealPlanId, rangeStart, rangeEnd, filters);
   }
 
   async findRecipesForMonth(
@@ -814,9 +1096,8 @@ export class MealPlansRepository {
     month: number,
     filters?: RecipeFilters,
   ): Promise<MealPlanRecipe[]> {
-    const monthStart = new Date(year, month - 1, 1);
-    const monthEnd = new Date(year, month, 0);
-    monthEnd.setHours(23, 59, 59, 999);
+    const monthStart = DateOnlyUtil.fromParts(year, month, 1);
+    const monthEnd = DateOnlyUtil.lastDayOfMonth(year, month);
 
     return this.findRecipesForDateRange(mealPlanId, monthStart, monthEnd, filters);
   }
@@ -948,6 +1229,15 @@ export class MealPlansRepository {
     }) as Promise<MealPlanWithCounts[]>;
   }
 
+  /**
+   * Count meal plans with the ACTIVE status across all users
+   */
+  async countActiveMealPlans(): Promise<number> {
+    return this.prisma.mealPlan.count({
+      where: { status: MealPlanStatus.ACTIVE },
+    });
+  }
+
   async countRecipesByMealPlan(mealPlanId: bigint): Promise<number> {
     return this.prisma.mealPlanRecipe.count({
       where: { mealPlanId },
@@ -957,37 +1247,139 @@ export class MealPlansRepository {
   // Trending Meal Plans Methods
 
   /**
-   * Find trending meal plans based on a time-decayed scoring algorithm.
-   * Score = Sum(3.0 * exp(-0.23 * AgeInDays))
-   * - Weight: Favorites = 3.0
-   * - Decay Rate: 0.23 (half-life of ~3 days)
-   * - Time Window: 30 days for engagement activity
+   * Record a clone or recipe addition that counts towards trending.
+   * Favorites are not recorded here; their favoritedAt is used directly,
+   * and views go through recordView.
+   */
+  async recordEngagement(
+    mealPlanId: bigint,
+    eventType: MealPlanEngagementType,
+    userId: string | null,
+  ): Promise<void> {
+    await this.prisma.mealPlanEngagementEvent.create({
+      data: { mealPlanId, eventType, userId },
+    });
+  }
+
+  /**
+   * Record a view that counts towards trending. Each user counts at most once
+   * per meal plan and UTC day; repeated views that day are ignored.
+   */
+  async recordView(mealPlanId: bigint, userId: string): Promise<void> {
+    await this.prisma.mealPlanEngagementEvent.createMany({
+      data: [
+        {
+          mealPlanId,
+          eventType: MealPlanEngagementType.VIEW,
+          userId,
+          viewedOn: DateOnlyUtil.today('UTC'),
+        },
+      ],
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Rebuild the precomputed trending ranking of one window.
+   * Score = Sum(weight * exp(-decayRate * AgeInDays)) over every favorite, view,
+   * clone and recipe addition from the last windowDays days, with one weight
+   * per signal type. Every public meal plan is ranked; meal plans with zero
+   * engagement are ordered by createdAt.
+   *
+   * The old ranking is replaced in a single transaction, so readers never see
+   * a partially refreshed window. The transaction first takes a Postgres
+   * advisory lock, so refreshes started by several instances run one at a
+   * time instead of interleaving their deletes and inserts.
+   *
+   * @param trendingWindow The ranking to rebuild
+   * @param options Weights, decay and the number of days of engagement to count
+   */
+  async refreshTrendingScores(
+    trendingWindow: TrendingWindow,
+    options: Pick<TrendingConfig, 'weights' | 'decayRate' | 'windowDays'>,
+  ): Promise<void> {
+    const { weights, decayRate, windowDays } = options;
+
+    await this.prisma.$transaction([
+      this.prisma.$executeRaw`SELECT pg_advisory_xact_lock(${TRENDING_REFRESH_LOCK_KEY}::int8)`,
+      this.prisma.mealPlanTrendingScore.deleteMany({
+        where: { trendingWindow },
+      }),
+      this.prisma.$executeRaw`
+        WITH signals AS (
+          SELECT meal_plan_id, ${weights.favorite}::float8 AS weight, favorited_at AS occurred_at
+          FROM recipe_manager.meal_plan_favorites
+          WHERE favorited_at > NOW() - make_interval(days => ${windowDays}::int)
+          UNION ALL
+          SELECT
+            meal_plan_id,
+            CASE event_type
+              WHEN 'VIEW' THEN ${weights.view}::float8
+              WHEN 'CLONE' THEN ${weights.clone}::float8
+              ELSE ${weights.recipeAdded}::float8
+            END AS weight,
+            occurred_at
+          FROM recipe_manager.meal_plan_engagement_events
+          WHERE occurred_at > NOW() - make_interval(days => ${windowDays}::int)
+        ),
+        scored AS (
+          SELECT
+            mp.meal_plan_id,
+            mp.created_at,
+            COALESCE(
+              SUM(s.weight * EXP(-${decayRate}::float8 * EXTRACT(EPOCH FROM (NOW() - s.occurred_at)) / 86400)),
+              0
+            ) as trending_score
+          FROM recipe_manager.meal_plans mp
+          LEFT JOIN signals s ON mp.meal_plan_id = s.meal_plan_id
+          WHERE mp.visibility = 'PUBLIC'
+          GROUP BY mp.meal_plan_id, mp.created_at
+        )
+        INSERT INTO recipe_manager.meal_plan_trending_scores
+          (meal_plan_id, trending_window, trending_score, trending_rank, refreshed_at)
+        SELECT
+          meal_plan_id,
+          ${trendingWindow}::recipe_manager.trending_window_enum,
+          trending_score,
+          ROW_NUMBER() OVER (ORDER BY trending_score DESC, created_at DESC, meal_plan_id DESC),
+          NOW()
+        FROM scored
+      `,
+    ]);
+  }
+
+  /**
+   * Find trending public meal plans from the precomputed ranking of a window.
+   * Meal plans made private since the last refresh are left out, and ranks are
+   * renumbered within the tag filter. Between refreshes the ranking does not
+   * change, so pages stay stable.
    *
-   * Returns at most 100 trending meal plans, paginated by skip/take.
-   * Meal plans with zero engagement are included and ordered by createdAt.
+   * Returns at most maxResults trending meal plans, paginated by skip/take.
    *
-   * @param skip Number of items to skip (for pagination within 100)
-   * @param take Number of items to take (for pagination within 100)
-   * @returns Array of meal plans ordered by trending score
+   * @param options Window, cap and optional tag filter
+   * @param skip Number of items to skip (for pagination within maxResults)
+   * @param take Number of items to take (for pagination within maxResults)
+   * @returns Meal plans ordered by trending score, with their score and rank
    */
-  async findTrendingMealPlans(skip: number, take: number): Promise<MealPlan[]> {
-    // Use raw SQL for the time-decay trending score calculation
-    // The CTE limits to 100 total, then we apply client pagination
-    const result = await this.prisma.$queryRaw<MealPlan[]>`
-      WITH trending AS (
+  async findTrendingMealPlans(
+    options: TrendingOptions,
+    skip: number,
+    take: number,
+  ): Promise<TrendingMealPlan[]> {
+    // The CTE limits the ranking to maxResults, then we apply client pagination
+    const result = await this.prisma.$queryRaw<TrendingMealPlan[]>`
+      WITH ranked AS (
         SELECT
-          mp.meal_plan_id,
-          COALESCE(
-            SUM(3.0 * EXP(-0.23 * EXTRACT(EPOCH FROM (NOW() - mpf.favorited_at)) / 86400)),
-            0
-          ) as trending_score
-        FROM recipe_manager.meal_plans mp
-        LEFT JOIN recipe_manager.meal_plan_favorites mpf
-          ON mp.meal_plan_id = mpf.meal_plan_id
-          AND mpf.favorited_at > NOW() - INTERVAL '30 days'
-        GROUP BY mp.meal_plan_id, mp.created_at
-        ORDER BY trending_score DESC, mp.created_at DESC
-        LIMIT 100
+          ts.meal_plan_id,
+          ts.trending_score,
+          ROW_NUMBER() OVER (ORDER BY ts.trending_rank) as trending_rank
+        FROM recipe_manager.meal_plan_trending_scores ts
+        JOIN recipe_manager.meal_plans mp ON ts.meal_plan_id = mp.meal_plan_id
+        WHERE ts.trending_window = ${options.trendingWindow}::recipe_manager.trending_window_enum
+          AND mp.visibility = 'PUBLIC'
+        ${this.buildTrendingTagFilter(options.tag)}
+        ORDER BY ts.trending_rank
+        LIMIT ${options.maxResults}
       )
       SELECT
         mp.meal_plan_id as "mealPlanId",
@@ -996,11 +1388,21 @@ export class MealPlansRepository {
         mp.description,
         mp.start_date as "startDate",
         mp.end_date as "endDate",
+        mp.status,
+        mp.visibility,
+        mp.timezone,
+        mp.archived_at as "archivedAt",
+        mp.daily_calories_target as "dailyCaloriesTarget",
+        mp.daily_protein_target as "dailyProteinTarget",
+        mp.daily_carbohydrates_target as "dailyCarbohydratesTarget",
+        mp.daily_fat_target as "dailyFatTarget",
         mp.created_at as "createdAt",
-        mp.updated_at as "updatedAt"
-      FROM trending t
-      JOIN recipe_manager.meal_plans mp ON t.meal_plan_id = mp.meal_plan_id
-      ORDER BY t.trending_score DESC, mp.created_at DESC
+        mp.updated_at as "updatedAt",
+        r.trending_score::float8 as "trendingScore",
+        r.trending_rank::int as "trendingRank"
+      FROM ranked r
+      JOIN recipe_manager.meal_plans mp ON r.meal_plan_id = mp.meal_plan_id
+      ORDER BY r.trending_rank
       OFFSET ${skip} LIMIT ${take}
     `;
 
@@ -1008,17 +1410,42 @@ export class MealPlansRepository {
   }
 
   /**
-   * Count trending meal plans (capped at 100).
-   * Returns the minimum of actual meal plan count and 100.
+   * Count trending meal plans in the precomputed ranking of a window (capped
+   * at maxResults). Stops reading once the cap is reached.
    *
-   * @returns Count of trending meal plans (max 100)
+   * @param options Window, cap and optional tag filter
+   * @returns Count of trending meal plans
    */
-  async countTrendingMealPlans(): Promise<number> {
+  async countTrendingMealPlans(options: TrendingOptions): Promise<number> {
     const result = await this.prisma.$queryRaw<[{ count: bigint }]>`
-      SELECT LEAST(COUNT(*), 100) as count
-      FROM recipe_manager.meal_plans
+      SELECT COUNT(*) as count
+      FROM (
+        SELECT 1
+        FROM recipe_manager.meal_plan_trending_scores ts
+        JOIN recipe_manager.meal_plans mp ON ts.meal_plan_id = mp.meal_plan_id
+        WHERE ts.trending_window = ${options.trendingWindow}::recipe_manager.trending_window_enum
+          AND mp.visibility = 'PUBLIC'
+        ${this.buildTrendingTagFilter(options.tag)}
+        LIMIT ${options.maxResults}
+      ) capped
     `;
 
     return Number(result[0].count);
   }
+
+  private buildTrendingTagFilter(tag?: string): Prisma.Sql {
+    if (!tag) {
+      return Prisma.empty;
+    }
+
+    return Prisma.sql`
+      AND EXISTS (
+        SELECT 1
+        FROM recipe_manager.meal_plan_tag_junction mptj
+        JOIN recipe_manager.meal_plan_tags mpt ON mptj.tag_id = mpt.tag_id
+        WHERE mptj.meal_plan_id = mp.meal_plan_id
+          AND LOWER(mpt.name) = LOWER(${tag})
+      )
+    `;
+  }
 }
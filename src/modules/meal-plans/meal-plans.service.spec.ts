@@ -1,73 +1,182 @@
-import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  beforeAll,
+  afterAll,
+  afterEach,
+  mock,
+  setSystemTime,
+  type Mock,
+} from 'bun:test';
 import { Test, TestingModule } from '@nestjs/testing';
-import { NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
 import { MealPlansService } from './meal-plans.service';
 import { MealPlansRepository } from './meal-plans.repository';
 import { MealPlanTagsRepository } from './meal-plan-tags.repository';
 import { MealPlanValidationService } from './services/meal-plan-validation.service';
-import { MealPlanQueryDto, PaginationDto, MealPlanByIdQueryDto } from './dto';
+import { MealPlanPermissionService } from './services/meal-plan-permission.service';
+import { MealPlanCollaboratorsRepository } from './meal-plan-collaborators.repository';
+import { MealPlanShareLinkService } from './services/meal-plan-share-link.service';
+import { RecipeClientService } from './services/recipe-client.service';
+import { RecipeIdResolverService } from './services/recipe-id-resolver.service';
+import { RECIPE_NUTRITION_PROVIDER } from './services/recipe-nutrition.provider';
+import { TransactionService } from '@/shared/database/transaction.service';
+import { MetricsService } from '@/modules/metrics/metrics.service';
+import { CacheService } from '@/shared/cache/cache.service';
+import {
+  MealPlanQueryDto,
+  PaginationDto,
+  CursorPaginationDto,
+  TrendingMealPlansQueryDto,
+  MealPlanByIdQueryDto,
+  CloneMealPlanDto,
+  DayViewResponseDto,
+  WeekViewResponseDto,
+  MonthViewResponseDto,
+} from './dto';
 import { MealType } from './enums/meal-type.enum';
+import { MealPlanStatus } from './enums/meal-plan-status.enum';
+import { MealPlanVisibility } from './enums/meal-plan-visibility.enum';
+import { WeekStartDay } from './enums/week-start-day.enum';
+import { DateOnlyUtil } from './utils/date-only.util';
+import { CursorUtil } from './utils/cursor.util';
+import { TrendingWindow } from '@generated/prisma/client';
 
 describe('MealPlansService', () => {
   let service: MealPlansService;
   let repository: {
-    findManyWithFilters: Mock<(...args: unknown[]) => unknown>;
-    countMealPlans: Mock<(...args: unknown[]) => unknown>;
-    findById: Mock<(...args: unknown[]) => unknown>;
-    findByIdWithRecipesFiltered: Mock<(...args: unknown[]) => unknown>;
-    verifyMealPlanOwnership: Mock<(...args: unknown[]) => unknown>;
-    getMealPlanStatistics: Mock<(...args: unknown[]) => unknown>;
-    checkMealPlanExists: Mock<(...args: unknown[]) => unknown>;
-    findRecipesForDateRange: Mock<(...args: unknown[]) => unknown>;
-    findRecipesForWeek: Mock<(...args: unknown[]) => unknown>;
-    findRecipesForMonth: Mock<(...args: unknown[]) => unknown>;
-    create: Mock<(...args: unknown[]) => unknown>;
-    addRecipeToMealPlan: Mock<(...args: unknown[]) => unknown>;
-    findByIdWithRecipes: Mock<(...args: unknown[]) => unknown>;
-    update: Mock<(...args: unknown[]) => unknown>;
-    delete: Mock<(...args: unknown[]) => unknown>;
-    findTrendingMealPlans: Mock<(...args: unknown[]) => unknown>;
-    countTrendingMealPlans: Mock<(...args: unknown[]) => unknown>;
+    findManyWithFilters: Mock<(...args: unknown[]) => Promise<unknown>>;
+    countMealPlans: Mock<(...args: unknown[]) => Promise<unknown>>;
+    findById: Mock<(...args: unknown[]) => Promise<unknown>>;
+    findByIdWithRecipesFiltered: Mock<(...args: unknown[]) => Promise<unknown>>;
+    getMealPlanStatistics: Mock<(...args: unknown[]) => Promise<unknown>>;
+    findRecipesForDateRange: Mock<(...args: unknown[]) => Promise<unknown>>;
+    findRecipesForWeek: Mock<(...args: unknown[]) => Promise<unknown>>;
+    findRecipesForMonth: Mock<(...args: unknown[]) => Promise<unknown>>;
+    create: Mock<(...args: unknown[]) => Promise<unknown>>;
+    addRecipeToMealPlan: Mock<(...args: unknown[]) => Promise<unknown>>;
+    findByIdWithRecipes: Mock<(...args: unknown[]) => Promise<unknown>>;
+    update: Mock<(...args: unknown[]) => Promise<unknown>>;
+    delete: Mock<(...args: unknown[]) => Promise<unknown>>;
+    findTrendingMealPlans: Mock<(...args: unknown[]) => Promise<unknown>>;
+    countTrendingMealPlans: Mock<(...args: unknown[]) => Promise<unknown>>;
+    findRecipeSlot: Mock<(...args: unknown[]) => Promise<unknown>>;
+    updateRecipeSlot: Mock<(...args: unknown[]) => Promise<unknown>>;
+    recipeExists: Mock<(...args: unknown[]) => Promise<unknown>>;
+    findRecipeIdByLegacyUuid: Mock<(...args: unknown[]) => Promise<unknown>>;
+    recipeExistsInMealPlan: Mock<(...args: unknown[]) => Promise<unknown>>;
+    removeRecipeFromMealPlan: Mock<(...args: unknown[]) => Promise<unknown>>;
+    cloneMealPlan: Mock<(...args: unknown[]) => Promise<unknown>>;
+    replaceRecipesForDate: Mock<(...args: unknown[]) => Promise<unknown>>;
+    replaceRecipes: Mock<(...args: unknown[]) => Promise<unknown>>;
+    recordEngagement: Mock<(...args: unknown[]) => Promise<unknown>>;
+    recordView: Mock<(...args: unknown[]) => Promise<unknown>>;
+    countActiveMealPlans: Mock<(...args: unknown[]) => Promise<unknown>>;
   };
 
+  // Resolves to whatever fixture a test sets, like the async methods it stands in for
+  const asyncMock = () => mock((..._args: unknown[]): Promise<unknown> => Promise.resolve());
+
   const mockRepository = {
-    findManyWithFilters: mock(() => {}),
-    countMealPlans: mock(() => {}),
-    findById: mock(() => {}),
-    findByIdWithRecipesFiltered: mock(() => {}),
-    verifyMealPlanOwnership: mock(() => {}),
-    getMealPlanStatistics: mock(() => {}),
-    checkMealPlanExists: mock(() => {}),
-    findRecipesForDateRange: mock(() => {}),
-    findRecipesForWeek: mock(() => {}),
-    findRecipesForMonth: mock(() => {}),
-    create: mock(() => {}),
-    addRecipeToMealPlan: mock(() => {}),
-    findByIdWithRecipes: mock(() => {}),
-    update: mock(() => {}),
-    delete: mock(() => {}),
-    findTrendingMealPlans: mock(() => {}),
-    countTrendingMealPlans: mock(() => {}),
+    findManyWithFilters: asyncMock(),
+    countMealPlans: asyncMock(),
+    findById: asyncMock(),
+    findByIdWithRecipesFiltered: asyncMock(),
+    getMealPlanStatistics: asyncMock(),
+    findRecipesForDateRange: asyncMock(),
+    findRecipesForWeek: asyncMock(),
+    findRecipesForMonth: asyncMock(),
+    create: asyncMock(),
+    addRecipeToMealPlan: asyncMock(),
+    findByIdWithRecipes: asyncMock(),
+    update: asyncMock(),
+    delete: asyncMock(),
+    findTrendingMealPlans: asyncMock(),
+    countTrendingMealPlans: asyncMock(),
+    findRecipeSlot: asyncMock(),
+    updateRecipeSlot: asyncMock(),
+    recipeExists: asyncMock(),
+    findRecipeIdByLegacyUuid: asyncMock(),
+    recipeExistsInMealPlan: asyncMock(),
+    removeRecipeFromMealPlan: asyncMock(),
+    cloneMealPlan: asyncMock(),
+    replaceRecipesForDate: asyncMock(),
+    replaceRecipes: asyncMock(),
+    recordEngagement: mock(() => Promise.resolve()),
+    recordView: mock(() => Promise.resolve()),
+    countActiveMealPlans: asyncMock(),
   };
 
   const mockValidationService = {
-    validateMealPlanAccess: mock(() => {}),
-    validateCreateMealPlan: mock(() => {}),
-    validateUpdateMealPlan: mock(() => {}),
+    validateMealPlanAccess: asyncMock(),
+    validateCreateMealPlan: asyncMock(),
+    validateUpdateMealPlan: asyncMock(),
   };
 
   const mockTagsRepository = {
-    findTagsByMealPlanId: mock(() => Promise.resolve([] as { tagId: bigint; name: string }[])),
+    findTagsByMealPlanId: mock((_mealPlanId: bigint) =>
+      Promise.resolve([] as { tagId: bigint; name: string }[]),
+    ),
     findOrCreateTagsByName: mock(() => {}),
     addTagsToMealPlan: mock(() => {}),
     replaceTagsOnMealPlan: mock(() => {}),
   };
 
+  const mockCollaboratorsRepository = {
+    findCollaborator: mock(() => {}),
+  };
+
+  const trendingOptions = {
+    trendingWindow: TrendingWindow.CONFIGURED,
+    maxResults: 100,
+  };
+
+  const mockShareLinkService = {
+    createShareLink: mock(() => {}),
+    verifyToken: mock(() => {}),
+  };
+
+  const mockMetricsService = {
+    recordMealPlanCreated: mock(() => {}),
+    recordMealPlanUpdated: mock(() => {}),
+    recordMealPlanDeleted: mock(() => {}),
+    trackActiveMealPlans: mock(() => {}),
+  };
+
+  const mockCacheService = {
+    getOrSet: mock((_key: string, _tags: string[], loader: () => Promise<unknown>) => loader()),
+    invalidate: mock(() => Promise.resolve()),
+  };
+
+  const mockTx = {};
+
+  const mockTransactionService = {
+    executeTransaction: mock((fn: (tx: unknown) => Promise<unknown>) => fn(mockTx)),
+  };
+
+  const mockRecipeClient = {
+    getRecipeIngredients: mock(() => {}),
+  };
+
+  const mockNutritionProvider = {
+    getNutritionPerServing: asyncMock(),
+  };
+
   const mockMealPlan = {
     mealPlanId: BigInt(123),
     name: 'Test Meal Plan',
     description: 'Test Description',
     userId: 'test-user-id',
+    visibility: MealPlanVisibility.PRIVATE,
+    timezone: 'UTC',
     startDate: new Date('2024-03-01'),
     endDate: new Date('2024-03-07'),
     createdAt: new Date(),
@@ -98,9 +207,7 @@ describe('MealPlansService', () => {
     mockRepository.countMealPlans.mockReset();
     mockRepository.findById.mockReset();
     mockRepository.findByIdWithRecipesFiltered.mockReset();
-    mockRepository.verifyMealPlanOwnership.mockReset();
     mockRepository.getMealPlanStatistics.mockReset();
-    mockRepository.checkMealPlanExists.mockReset();
     mockRepository.findRecipesForDateRange.mockReset();
     mockRepository.findRecipesForWeek.mockReset();
     mockRepository.findRecipesForMonth.mockReset();
@@ -111,6 +218,17 @@ describe('MealPlansService', () => {
     mockRepository.delete.mockReset();
     mockRepository.findTrendingMealPlans.mockReset();
     mockRepository.countTrendingMealPlans.mockReset();
+    mockRepository.findRecipeSlot.mockReset();
+    mockRepository.updateRecipeSlot.mockReset();
+    mockRepository.recipeExists.mockReset();
+    mockRepository.findRecipeIdByLegacyUuid.mockReset();
+    mockRepository.recipeExistsInMealPlan.mockReset();
+    mockRepository.removeRecipeFromMealPlan.mockReset();
+    mockRepository.cloneMealPlan.mockReset();
+    mockRepository.replaceRecipesForDate.mockReset();
+    mockRepository.replaceRecipes.mockReset();
+    mockRepository.recordEngagement.mockClear();
+    mockRepository.recordView.mockClear();
     mockValidationService.validateMealPlanAccess.mockReset();
     mockValidationService.validateCreateMealPlan.mockReset();
     mockValidationService.validateUpdateMealPlan.mockReset();
@@ -118,9 +236,23 @@ describe('MealPlansService', () => {
     mockTagsRepository.findOrCreateTagsByName.mockReset();
     mockTagsRepository.addTagsToMealPlan.mockReset();
     mockTagsRepository.replaceTagsOnMealPlan.mockReset();
+    mockTransactionService.executeTransaction.mockClear();
+    mockRecipeClient.getRecipeIngredients.mockReset();
+    mockNutritionProvider.getNutritionPerServing.mockReset();
+    mockCollaboratorsRepository.findCollaborator.mockReset();
+    mockShareLinkService.createShareLink.mockReset();
+    mockShareLinkService.verifyToken.mockReset();
+    mockRepository.countActiveMealPlans.mockReset();
+    mockCacheService.getOrSet.mockClear();
+    mockCacheService.invalidate.mockClear();
+    mockMetricsService.recordMealPlanCreated.mockReset();
+    mockMetricsService.recordMealPlanUpdated.mockReset();
+    mockMetricsService.recordMealPlanDeleted.mockReset();
+    mockMetricsService.trackActiveMealPlans.mockReset();
 
     // Set default mock values for tags repository
     mockTagsRepository.findTagsByMealPlanId.mockResolvedValue([]);
+    mockCollaboratorsRepository.findCollaborator.mockResolvedValue(null as never);
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -137,6 +269,42 @@ describe('MealPlansService', () => {
           provide: MealPlanTagsRepository,
           useValue: mockTagsRepository,
         },
+        {
+          provide: TransactionService,
+          useValue: mockTransactionService,
+        },
+        {
+          provide: RecipeClientService,
+          useValue: mockRecipeClient,
+        },
+        RecipeIdResolverService,
+        {
+          provide: RECIPE_NUTRITION_PROVIDER,
+          useValue: mockNutritionProvider,
+        },
+        MealPlanPermissionService,
+        {
+          provide: MealPlanCollaboratorsRepository,
+          useValue: mockCollaboratorsRepository,
+        },
+        {
+          provide: MealPlanShareLinkService,
+          useValue: mockShareLinkService,
+        },
+        {
+          provide: MetricsService,
+          useValue: mockMetricsService,
+        },
+        {
+          provide: CacheService,
+          useValue: mockCacheService,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: mock((key: string) => (key === 'trending.maxResults' ? 100 : undefined)),
+          },
+        },
       ],
     }).compile();
 
@@ -144,6 +312,20 @@ describe('MealPlansService', () => {
     repository = module.get(MealPlansRepository);
   });
 
+  describe('onModuleInit', () => {
+    it('should track the number of active meal plans', async () => {
+      repository.countActiveMealPlans.mockResolvedValue(7);
+
+      service.onModuleInit();
+
+      expect(mockMetricsService.trackActiveMealPlans).toHaveBeenCalledTimes(1);
+      const [countActiveMealPlans] = mockMetricsService.trackActiveMealPlans.mock
+        .calls[0] as unknown as [() => Promise<number>];
+      expect(await countActiveMealPlans()).toBe(7);
+      expect(repository.countActiveMealPlans).toHaveBeenCalled();
+    });
+  });
+
   describe('findMealPlans', () => {
     const queryDto: MealPlanQueryDto = {
       userId: 'test-user-id',
@@ -151,7 +333,7 @@ describe('MealPlansService', () => {
       includeRecipes: false,
     };
 
-    const paginationDto: PaginationDto = {
+    const paginationDto: CursorPaginationDto = {
       page: 1,
       limit: 20,
       offset: 0,
@@ -174,7 +356,14 @@ describe('MealPlansService', () => {
         totalPages: 1,
         hasNext: false,
         hasPrevious: false,
+        nextCursor: null,
+        prevCursor: null,
       });
+      expect(repository.findManyWithFilters).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'test-user-id' }),
+        { sortBy: 'createdAt', sortOrder: 'desc' },
+        { skip: 0, take: 21 },
+      );
     });
 
     it('should handle empty results', async () => {
@@ -186,6 +375,136 @@ describe('MealPlansService', () => {
       expect(result.data).toEqual([]);
       expect(result.meta.total).toBe(0);
     });
+
+    describe('cursor pagination', () => {
+      const mealPlanAt = (id: number, createdAt: string) => ({
+        ...mockMealPlan,
+        mealPlanId: BigInt(id),
+        name: `Plan ${id}`,
+        createdAt: new Date(createdAt),
+      });
+      const firstPage = [
+        mealPlanAt(3, '2024-03-03T00:00:00.000Z'),
+        mealPlanAt(2, '2024-03-02T00:00:00.000Z'),
+      ];
+
+      it('should return a cursor for the next page when there are more rows', async () => {
+        repository.findManyWithFilters.mockResolvedValue([
+          ...firstPage,
+          mealPlanAt(1, '2024-03-01T00:00:00.000Z'),
+        ] as never);
+        repository.countMealPlans.mockResolvedValue(3);
+
+        const result = await service.findMealPlans(
+          queryDto,
+          { page: 1, limit: 2, offset: 0 },
+          'test-user-id',
+        );
+
+        expect(result.data.map((mealPlan) => mealPlan.name)).toEqual(['Plan 3', 'Plan 2']);
+        expect(result.meta.hasNext).toBe(true);
+        expect(result.meta.prevCursor).toBeNull();
+        expect(CursorUtil.decode(result.meta.nextCursor!, 'createdAt', 'desc')).toEqual({
+          sortBy: 'createdAt',
+          sortOrder: 'desc',
+          direction: 'next',
+          key: new Date('2024-03-02T00:00:00.000Z'),
+          id: BigInt(2),
+        });
+      });
+
+      it('should continue from a cursor without a page number', async () => {
+        const cursor = CursorUtil.encode({
+          sortBy: 'createdAt',
+          sortOrder: 'desc',
+          direction: 'next',
+          key: new Date('2024-03-02T00:00:00.000Z'),
+          id: BigInt(2),
+        });
+        repository.findManyWithFilters.mockResolvedValue([
+          mealPlanAt(1, '2024-03-01T00:00:00.000Z'),
+        ] as never);
+        repository.countMealPlans.mockResolvedValue(3);
+
+        const result = await service.findMealPlans(
+          queryDto,
+          { page: 1, limit: 2, offset: 0, cursor },
+          'test-user-id',
+        );
+
+        expect(repository.findManyWithFilters).toHaveBeenCalledWith(
+          expect.anything(),
+          { sortBy: 'createdAt', sortOrder: 'desc' },
+          {
+            skip: 0,
+            take: 3,
+            cursor: CursorUtil.decode(cursor, 'createdAt', 'desc'),
+          },
+        );
+        expect(result.data.map((mealPlan) => mealPlan.name)).toEqual(['Plan 1']);
+        expect(result.meta.page).toBeUndefined();
+        expect(result.meta.hasNext).toBe(false);
+        expect(result.meta.nextCursor).toBeNull();
+        expect(result.meta.hasPrevious).toBe(true);
+        expect(CursorUtil.decode(result.meta.prevCursor!, 'createdAt', 'desc')?.id).toBe(BigInt(1));
+      });
+
+      it('should put the rows before a cursor back in order', async () => {
+        const cursor = CursorUtil.encode({
+          sortBy: 'createdAt',
+          sortOrder: 'desc',
+          direction: 'prev',
+          key: new Date('2024-03-01T00:00:00.000Z'),
+          id: BigInt(1),
+        });
+        repository.findManyWithFilters.mockResolvedValue([...firstPage].reverse());
+        repository.countMealPlans.mockResolvedValue(3);
+
+        const result = await service.findMealPlans(
+          queryDto,
+          { page: 1, limit: 2, offset: 0, cursor },
+          'test-user-id',
+        );
+
+        expect(result.data.map((mealPlan) => mealPlan.name)).toEqual(['Plan 3', 'Plan 2']);
+        expect(result.meta.hasPrevious).toBe(false);
+        expect(result.meta.prevCursor).toBeNull();
+        expect(result.meta.hasNext).toBe(true);
+        expect(CursorUtil.decode(result.meta.nextCursor!, 'createdAt', 'desc')?.id).toBe(BigInt(2));
+      });
+
+      it('should skip the count when includeTotal is false', async () => {
+        repository.findManyWithFilters.mockResolvedValue(firstPage);
+
+        const result = await service.findMealPlans(
+          queryDto,
+          { page: 1, limit: 2, offset: 0, includeTotal: false },
+          'test-user-id',
+        );
+
+        expect(repository.countMealPlans).not.toHaveBeenCalled();
+        expect(result.meta.total).toBeUndefined();
+        expect(result.meta.totalPages).toBeUndefined();
+        expect(result.meta.hasNext).toBe(false);
+      });
+
+      it('should reject a cursor issued for another sort order', async () => {
+        const cursor = CursorUtil.encode({
+          sortBy: 'name',
+          sortOrder: 'asc',
+          direction: 'next',
+          key: 'Plan',
+          id: BigInt(2),
+        });
+
+        const error = await service
+          .findMealPlans(queryDto, { page: 1, limit: 2, offset: 0, cursor }, 'test-user-id')
+          .catch((err) => err);
+
+        expect(error).toBeInstanceOf(BadRequestException);
+        expect(repository.findManyWithFilters).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe('createMealPlan', () => {
@@ -242,10 +561,12 @@ describe('MealPlansService', () => {
       expect(mockRepository.addRecipeToMealPlan).toHaveBeenCalledWith({
         mealPlanId: BigInt(123),
         recipeId: BigInt(456),
-        mealDate: new Date('2024-03-01'), // Day 1 of the mock meal plan (starts 2024-03-01)
+        mealDate: new Date('2024-03-10'), // Day 1 of the requested date range
         mealType: 'BREAKFAST',
+        servings: 2,
       });
       expect(result).toBeDefined();
+      expect(mockMetricsService.recordMealPlanCreated).toHaveBeenCalledWith('new');
     });
 
     it('should create a meal plan without recipes', async () => {
@@ -266,13 +587,102 @@ describe('MealPlansService', () => {
       mockRepository.create.mockResolvedValue(mockMealPlan);
       mockRepository.findByIdWithRecipes.mockResolvedValue(mockMealPlan);
 
-      const result = await service.createMealPlan(createMealPlanDtoWithoutRecipes as any, userId);
+      const result = await service.createMealPlan(createMealPlanDtoWithoutRecipes, userId);
 
       expect(mockRepository.create).toHaveBeenCalled();
       expect(mockRepository.addRecipeToMealPlan).not.toHaveBeenCalled();
       expect(result).toBeDefined();
     });
 
+    it('should create an active meal plan when isActive is true', async () => {
+      const activeMealPlanDto = {
+        name: 'Active Plan',
+        startDate: new Date('2024-03-10'),
+        endDate: new Date('2024-03-16'),
+        isActive: true,
+      };
+
+      mockValidationService.validateCreateMealPlan.mockResolvedValue({
+        isValid: true,
+        sanitizedData: activeMealPlanDto,
+        errors: [],
+      });
+      mockRepository.create.mockResolvedValue(mockMealPlan);
+      mockRepository.findByIdWithRecipes.mockResolvedValue(mockMealPlan);
+
+      await service.createMealPlan(activeMealPlanDto, userId);
+
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        userId,
+        name: 'Active Plan',
+        startDate: activeMealPlanDto.startDate,
+        endDate: activeMealPlanDto.endDate,
+        status: MealPlanStatus.ACTIVE,
+      });
+    });
+
+    it('should store the time zone of the plan', async () => {
+      const mealPlanDto = {
+        name: 'Paris Plan',
+        startDate: new Date('2024-03-10'),
+        endDate: new Date('2024-03-16'),
+        timezone: 'Europe/Paris',
+      };
+
+      mockValidationService.validateCreateMealPlan.mockResolvedValue({
+        isValid: true,
+        sanitizedData: mealPlanDto,
+        errors: [],
+      });
+      mockRepository.create.mockResolvedValue(mockMealPlan);
+      mockRepository.findByIdWithRecipes.mockResolvedValue(mockMealPlan);
+
+      await service.createMealPlan(mealPlanDto, userId);
+
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        userId,
+        name: 'Paris Plan',
+        startDate: mealPlanDto.startDate,
+        endDate: mealPlanDto.endDate,
+        timezone: 'Europe/Paris',
+      });
+    });
+
+    it('should store daily nutrition targets', async () => {
+      const mealPlanDto = {
+        name: 'Cutting Plan',
+        startDate: new Date('2024-03-10'),
+        endDate: new Date('2024-03-16'),
+        nutritionTargets: { calories: 1800, protein: 150 },
+      };
+
+      mockValidationService.validateCreateMealPlan.mockResolvedValue({
+        isValid: true,
+        sanitizedData: mealPlanDto,
+        errors: [],
+      });
+      mockRepository.create.mockResolvedValue(mockMealPlan);
+      mockRepository.findByIdWithRecipes.mockResolvedValue({
+        ...mockMealPlan,
+        dailyCaloriesTarget: 1800,
+        dailyProteinTarget: 150,
+      });
+
+      const result = await service.createMealPlan(mealPlanDto, userId);
+
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        userId,
+        name: 'Cutting Plan',
+        startDate: mealPlanDto.startDate,
+        endDate: mealPlanDto.endDate,
+        dailyCaloriesTarget: 1800,
+        dailyProteinTarget: 150,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
+      });
+      expect(result.nutritionTargets).toEqual({ calories: 1800, protein: 150 });
+    });
+
     it('should throw BadRequestException when validation fails', async () => {
       const validationResult = {
         isValid: false,
@@ -348,6 +758,103 @@ describe('MealPlansService', () => {
       );
     });
 
+    describe('multi-week plans', () => {
+      const multiWeekDto = {
+        ...createMealPlanDto,
+        startDate: new Date('2024-03-01'),
+        endDate: new Date('2024-03-28'),
+      };
+
+      beforeEach(() => {
+        mockValidationService.validateCreateMealPlan.mockResolvedValue({
+          isValid: true,
+          sanitizedData: {
+            name: multiWeekDto.name,
+            startDate: multiWeekDto.startDate,
+            endDate: multiWeekDto.endDate,
+          },
+          errors: [],
+        });
+        mockRepository.create.mockResolvedValue(mockMealPlan);
+        mockRepository.addRecipeToMealPlan.mockResolvedValue({});
+        mockRepository.findByIdWithRecipes.mockResolvedValue(mockMealPlanWithRecipes);
+      });
+
+      it('should schedule recipes by meal date or day offset anywhere in the plan', async () => {
+        await service.createMealPlan(
+          {
+            ...multiWeekDto,
+            recipes: [
+              { recipeId: '456', dayOffset: 20, mealType: MealType.LUNCH },
+              { recipeId: '789', mealDate: new Date('2024-03-28'), mealType: MealType.DINNER },
+              { recipeId: '456', day: 14, mealType: MealType.BREAKFAST },
+            ],
+          },
+          userId,
+        );
+
+        expect(mockRepository.addRecipeToMealPlan).toHaveBeenNthCalledWith(
+          1,
+          expect.objectContaining({ recipeId: BigInt(456), mealDate: new Date('2024-03-21') }),
+        );
+        expect(mockRepository.addRecipeToMealPlan).toHaveBeenNthCalledWith(
+          2,
+          expect.objectContaining({ recipeId: BigInt(789), mealDate: new Date('2024-03-28') }),
+        );
+        expect(mockRepository.addRecipeToMealPlan).toHaveBeenNthCalledWith(
+          3,
+          expect.objectContaining({ recipeId: BigInt(456), mealDate: new Date('2024-03-14') }),
+        );
+      });
+
+      it('should name every recipe entry outside the date range and create nothing', async () => {
+        const thrownError = await service
+          .createMealPlan(
+            {
+              ...multiWeekDto,
+              recipes: [
+                { recipeId: '456', dayOffset: 27, mealType: MealType.LUNCH },
+                { recipeId: '456', dayOffset: 28, mealType: MealType.LUNCH },
+                { recipeId: '789', mealDate: new Date('2024-02-29'), mealType: MealType.DINNER },
+              ],
+            } as any,
+            userId,
+          )
+          .catch((err) => err);
+
+        expect(thrownError).toBeInstanceOf(BadRequestException);
+        expect(thrownError.getResponse().errors).toEqual([
+          'recipes[1] (recipe 456) is scheduled on 2024-03-29, outside the meal plan date range (2024-03-01 to 2024-03-28)',
+          'recipes[2] (recipe 789) is scheduled on 2024-02-29, outside the meal plan date range (2024-03-01 to 2024-03-28)',
+        ]);
+        expect(mockRepository.create).not.toHaveBeenCalled();
+      });
+
+      it('should reject an entry that sets more than one of mealDate, dayOffset and day', async () => {
+        const thrownError = await service
+          .createMealPlan(
+            {
+              ...multiWeekDto,
+              recipes: [
+                {
+                  recipeId: '456',
+                  dayOffset: 2,
+                  mealDate: new Date('2024-03-03'),
+                  mealType: MealType.LUNCH,
+                },
+              ],
+            } as any,
+            userId,
+          )
+          .catch((err) => err);
+
+        expect(thrownError).toBeInstanceOf(BadRequestException);
+        expect(thrownError.getResponse().errors).toEqual([
+          'recipes[0] (recipe 456) must set exactly one of mealDate, dayOffset or day',
+        ]);
+      });
+    });
+
     it('should handle repository errors', async () => {
       const validationResult = {
         isValid: true,
@@ -423,7 +930,7 @@ describe('MealPlansService', () => {
         mockValidationService.validateUpdateMealPlan.mockResolvedValue(validationResult);
         mockRepository.update.mockResolvedValue(updatedMealPlan);
 
-        const result = await service.updateMealPlan(mealPlanId, updateMealPlanDto as any, userId);
+        const result = await service.updateMealPlan(mealPlanId, updateMealPlanDto, userId);
 
         expect(mockRepository.findById).toHaveBeenCalledWith(BigInt(123));
         expect(mockValidationService.validateUpdateMealPlan).toHaveBeenCalledWith(
@@ -438,6 +945,11 @@ describe('MealPlansService', () => {
         });
         expect(result).toBeDefined();
         expect(result.name).toBe('Updated Meal Plan');
+        expect(mockMetricsService.recordMealPlanUpdated).toHaveBeenCalledWith('details');
+        expect(mockCacheService.invalidate).toHaveBeenCalledWith(
+          'meal-plan:123',
+          'meal-plans:trending',
+        );
       });
 
       it('should update a meal plan with partial fields', async () => {
@@ -460,7 +972,7 @@ describe('MealPlansService', () => {
           name: 'Just Update Name',
         });
 
-        const result = await service.updateMealPlan(mealPlanId, partialUpdateDto as any, userId);
+        const result = await service.updateMealPlan(mealPlanId, partialUpdateDto, userId);
 
         expect(mockRepository.update).toHaveBeenCalledWith(BigInt(123), {
           name: 'Just Update Name',
@@ -468,6 +980,78 @@ describe('MealPlansService', () => {
         expect(result.name).toBe('Just Update Name');
       });
 
+      it('should map isActive to the meal plan status', async () => {
+        mockRepository.findById.mockResolvedValue({
+          ...existingMealPlan,
+          status: MealPlanStatus.DRAFT,
+        });
+        mockValidationService.validateUpdateMealPlan.mockResolvedValue({
+          isValid: true,
+          sanitizedData: { isActive: true },
+          errors: [],
+        });
+        mockRepository.update.mockResolvedValue({
+          ...existingMealPlan,
+          status: MealPlanStatus.ACTIVE,
+        });
+
+        const result = await service.updateMealPlan(mealPlanId, { isActive: true }, userId);
+
+        expect(mockRepository.update).toHaveBeenCalledWith(BigInt(123), {
+          status: MealPlanStatus.ACTIVE,
+        });
+        expect(result.isActive).toBe(true);
+        expect(mockMetricsService.recordMealPlanUpdated).toHaveBeenCalledWith('status');
+      });
+
+      it('should replace daily nutrition targets', async () => {
+        mockRepository.findById.mockResolvedValue({
+          ...existingMealPlan,
+          dailyCaloriesTarget: 2000,
+          dailyFatTarget: 70,
+        });
+        mockValidationService.validateUpdateMealPlan.mockResolvedValue({
+          isValid: true,
+          sanitizedData: {},
+          errors: [],
+        });
+        mockRepository.update.mockResolvedValue({
+          ...existingMealPlan,
+          dailyCaloriesTarget: 2200,
+        });
+
+        const result = await service.updateMealPlan(
+          mealPlanId,
+          { nutritionTargets: { calories: 2200 } },
+          userId,
+        );
+
+        expect(mockRepository.update).toHaveBeenCalledWith(BigInt(123), {
+          dailyCaloriesTarget: 2200,
+          dailyProteinTarget: null,
+          dailyCarbohydratesTarget: null,
+          dailyFatTarget: null,
+        });
+        expect(result.nutritionTargets).toEqual({ calories: 2200 });
+      });
+
+      it('should reject changing isActive on an archived meal plan', async () => {
+        mockRepository.findById.mockResolvedValue({
+          ...existingMealPlan,
+          status: MealPlanStatus.ARCHIVED,
+        });
+        mockValidationService.validateUpdateMealPlan.mockResolvedValue({
+          isValid: true,
+          sanitizedData: { isActive: false },
+          errors: [],
+        });
+
+        expect(
+          service.updateMealPlan(mealPlanId, { isActive: false } as any, userId),
+        ).rejects.toThrow(BadRequestException);
+        expect(mockRepository.update).not.toHaveBeenCalled();
+      });
+
       it('should handle empty update (no fields changed)', async () => {
         const emptyUpdateDto = {};
 
@@ -480,13 +1064,101 @@ describe('MealPlansService', () => {
         mockRepository.findById.mockResolvedValue(existingMealPlan);
         mockValidationService.validateUpdateMealPlan.mockResolvedValue(validationResult);
 
-        const result = await service.updateMealPlan(mealPlanId, emptyUpdateDto as any, userId);
+        const result = await service.updateMealPlan(mealPlanId, emptyUpdateDto, userId);
 
         expect(mockRepository.update).not.toHaveBeenCalled();
         expect(result).toBeDefined();
         expect(result.name).toBe('Original Meal Plan');
       });
 
+      it('should invalidate the cached tag list when tags are replaced', async () => {
+        mockRepository.findById.mockResolvedValue(existingMealPlan);
+        mockValidationService.validateUpdateMealPlan.mockResolvedValue({
+          isValid: true,
+          sanitizedData: {},
+          errors: [],
+        });
+        mockTagsRepository.findOrCreateTagsByName.mockResolvedValue([
+          { tagId: BigInt(10), name: 'family' },
+        ] as never);
+
+        await service.updateMealPlan(mealPlanId, { tags: ['family'] }, userId);
+
+        expect(mockTagsRepository.replaceTagsOnMealPlan).toHaveBeenCalledWith(BigInt(123), [
+          BigInt(10),
+        ]);
+        expect(mockCacheService.invalidate).toHaveBeenCalledWith('meal-plan-tags');
+      });
+
+      it('should replace the recipes, checking them against the updated dates', async () => {
+        const newDates = {
+          startDate: new Date('2024-04-01T00:00:00.000Z'),
+          endDate: new Date('2024-04-14T23:59:59.999Z'),
+        };
+        mockRepository.findById.mockResolvedValue(existingMealPlan);
+        mockValidationService.validateUpdateMealPlan.mockResolvedValue({
+          isValid: true,
+          sanitizedData: newDates,
+          errors: [],
+        });
+        mockRepository.update.mockResolvedValue({ ...existingMealPlan, ...newDates });
+
+        await service.updateMealPlan(
+          mealPlanId,
+          {
+            ...newDates,
+            recipes: [
+              { recipeId: '456', dayOffset: 13, mealType: MealType.DINNER, servings: 2 },
+              { recipeId: '789', mealDate: new Date('2024-04-08'), mealType: MealType.LUNCH },
+            ],
+          },
+          userId,
+        );
+
+        expect(mockTransactionService.executeTransaction).toHaveBeenCalledTimes(1);
+        expect(mockRepository.replaceRecipes).toHaveBeenCalledWith(
+          BigInt(123),
+          [
+            {
+              recipeId: BigInt(456),
+              mealDate: new Date('2024-04-14T00:00:00.000Z'),
+              mealType: MealType.DINNER,
+              servings: 2,
+            },
+            {
+              recipeId: BigInt(789),
+              mealDate: new Date('2024-04-08'),
+              mealType: MealType.LUNCH,
+            },
+          ],
+          mockTx,
+        );
+      });
+
+      it('should reject replacement recipes outside the current date range', async () => {
+        mockRepository.findById.mockResolvedValue(existingMealPlan);
+        mockValidationService.validateUpdateMealPlan.mockResolvedValue({
+          isValid: true,
+          sanitizedData: {},
+          errors: [],
+        });
+
+        const thrownError = await service
+          .updateMealPlan(
+            mealPlanId,
+            { recipes: [{ recipeId: '456', dayOffset: 7, mealType: MealType.DINNER }] } as any,
+            userId,
+          )
+          .catch((err) => err);
+
+        expect(thrownError).toBeInstanceOf(BadRequestException);
+        expect(thrownError.getResponse().errors).toEqual([
+          'recipes[0] (recipe 456) is scheduled on 2024-03-08, outside the meal plan date range (2024-03-01 to 2024-03-07)',
+        ]);
+        expect(mockRepository.replaceRecipes).not.toHaveBeenCalled();
+        expect(mockRepository.update).not.toHaveBeenCalled();
+      });
+
       it('should update only name field', async () => {
         const nameOnlyDto = { name: 'New Name' };
         const validationResult = {
@@ -502,13 +1174,34 @@ describe('MealPlansService', () => {
           name: 'New Name',
         });
 
-        await service.updateMealPlan(mealPlanId, nameOnlyDto as any, userId);
+        await service.updateMealPlan(mealPlanId, nameOnlyDto, userId);
 
         expect(mockRepository.update).toHaveBeenCalledWith(BigInt(123), {
           name: 'New Name',
         });
       });
 
+      it('should update the time zone of the plan', async () => {
+        const timezoneOnlyDto = { timezone: 'Asia/Tokyo' };
+
+        mockRepository.findById.mockResolvedValue(existingMealPlan);
+        mockValidationService.validateUpdateMealPlan.mockResolvedValue({
+          isValid: true,
+          sanitizedData: {},
+          errors: [],
+        });
+        mockRepository.update.mockResolvedValue({
+          ...existingMealPlan,
+          timezone: 'Asia/Tokyo',
+        });
+
+        await service.updateMealPlan(mealPlanId, timezoneOnlyDto, userId);
+
+        expect(mockRepository.update).toHaveBeenCalledWith(BigInt(123), {
+          timezone: 'Asia/Tokyo',
+        });
+      });
+
       it('should update only description field', async () => {
         const descOnlyDto = { description: 'New description' };
         const validationResult = {
@@ -524,7 +1217,7 @@ describe('MealPlansService', () => {
           description: 'New description',
         });
 
-        await service.updateMealPlan(mealPlanId, descOnlyDto as any, userId);
+        await service.updateMealPlan(mealPlanId, descOnlyDto, userId);
 
         expect(mockRepository.update).toHaveBeenCalledWith(BigInt(123), {
           description: 'New description',
@@ -554,7 +1247,7 @@ describe('MealPlansService', () => {
           endDate: new Date('2024-05-07T23:59:59.999Z'),
         });
 
-        await service.updateMealPlan(mealPlanId, dateOnlyDto as any, userId);
+        await service.updateMealPlan(mealPlanId, dateOnlyDto, userId);
 
         expect(mockRepository.update).toHaveBeenCalledWith(BigInt(123), {
           startDate: new Date('2024-05-01T00:00:00.000Z'),
@@ -679,7 +1372,7 @@ describe('MealPlansService', () => {
         mockValidationService.validateUpdateMealPlan.mockResolvedValue(validationResult);
         mockRepository.update.mockResolvedValue(existingMealPlan);
 
-        await service.updateMealPlan(mealPlanId, { name: 'Test' } as any, userId);
+        await service.updateMealPlan(mealPlanId, { name: 'Test' }, userId);
 
         expect(mockValidationService.validateUpdateMealPlan).toHaveBeenCalledWith(
           { name: 'Test', userId, id: mealPlanId },
@@ -718,6 +1411,11 @@ describe('MealPlansService', () => {
 
         expect(mockRepository.findById).toHaveBeenCalledWith(BigInt(123));
         expect(mockRepository.delete).toHaveBeenCalledWith(BigInt(123));
+        expect(mockMetricsService.recordMealPlanDeleted).toHaveBeenCalledTimes(1);
+        expect(mockCacheService.invalidate).toHaveBeenCalledWith(
+          'meal-plan:123',
+          'meal-plans:trending',
+        );
       });
 
       it('should verify ownership before deletion', async () => {
@@ -876,33 +1574,834 @@ describe('MealPlansService', () => {
     });
   });
 
-  describe('findMealPlanById', () => {
-    const queryDto: MealPlanByIdQueryDto = {
-      viewMode: 'full',
-      includeRecipes: true,
+  describe('meal plan lifecycle', () => {
+    const mealPlanId = '123';
+    const userId = 'test-user-id';
+    const activeMealPlan = { ...mockMealPlan, status: MealPlanStatus.ACTIVE, archivedAt: null };
+    const archivedMealPlan = {
+      ...mockMealPlan,
+      status: MealPlanStatus.ARCHIVED,
+      archivedAt: new Date('2024-03-10T08:00:00.000Z'),
     };
 
-    it('should return meal plan by id', async () => {
-      repository.checkMealPlanExists.mockResolvedValue(true);
-      repository.verifyMealPlanOwnership.mockResolvedValue(true);
-      repository.findByIdWithRecipesFiltered.mockResolvedValue(mockMealPlanWithRecipes);
+    describe('archiveMealPlan', () => {
+      it('should archive the meal plan and record when it was archived', async () => {
+        repository.findById.mockResolvedValue(activeMealPlan);
+        repository.update.mockResolvedValue(archivedMealPlan);
 
-      const result = await service.findMealPlanById('123', queryDto, 'test-user-id');
+        const result = await service.archiveMealPlan(mealPlanId, userId);
 
-      expect(result).toBeDefined();
-    });
+        expect(repository.update).toHaveBeenCalledWith(BigInt(123), {
+          status: MealPlanStatus.ARCHIVED,
+          archivedAt: expect.any(Date),
+        });
+        expect(result.status).toBe(MealPlanStatus.ARCHIVED);
+        expect(result.isActive).toBe(false);
+        expect(result.archivedAt).toEqual(archivedMealPlan.archivedAt);
+        expect(result.tags).toEqual([]);
+        expect(mockMetricsService.recordMealPlanUpdated).toHaveBeenCalledWith('status');
+      });
 
-    it('should throw NotFoundException when meal plan not found', async () => {
-      repository.checkMealPlanExists.mockResolvedValue(false);
+      it('should throw ConflictException when the meal plan is already archived', async () => {
+        repository.findById.mockResolvedValue(archivedMealPlan);
 
-      expect(service.findMealPlanById('123', queryDto, 'test-user-id')).rejects.toThrow(
-        NotFoundException,
-      );
+        expect(service.archiveMealPlan(mealPlanId, userId)).rejects.toThrow(ConflictException);
+        expect(repository.update).not.toHaveBeenCalled();
+      });
+
+      it('should throw ForbiddenException when the user does not own the meal plan', async () => {
+        repository.findById.mockResolvedValue({ ...activeMealPlan, userId: 'other-user' });
+
+        expect(service.archiveMealPlan(mealPlanId, userId)).rejects.toThrow(ForbiddenException);
+        expect(repository.update).not.toHaveBeenCalled();
+      });
+
+      it('should throw NotFoundException when the meal plan does not exist', async () => {
+        repository.findById.mockResolvedValue(null);
+
+        expect(service.archiveMealPlan(mealPlanId, userId)).rejects.toThrow(NotFoundException);
+      });
+    });
+
+    describe('unarchiveMealPlan', () => {
+      it('should restore an archived meal plan as active', async () => {
+        repository.findById.mockResolvedValue(archivedMealPlan);
+        repository.update.mockResolvedValue(activeMealPlan);
+
+        const result = await service.unarchiveMealPlan(mealPlanId, userId);
+
+        expect(repository.update).toHaveBeenCalledWith(BigInt(123), {
+          status: MealPlanStatus.ACTIVE,
+          archivedAt: null,
+        });
+        expect(result.status).toBe(MealPlanStatus.ACTIVE);
+        expect(result.isActive).toBe(true);
+      });
+
+      it('should throw ConflictException when the meal plan is not archived', async () => {
+        repository.findById.mockResolvedValue(activeMealPlan);
+
+        expect(service.unarchiveMealPlan(mealPlanId, userId)).rejects.toThrow(
+          'Meal plan 123 is not archived',
+        );
+        expect(repository.update).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('recipe slots', () => {
+    const mealPlanId = '123';
+    const userId = 'test-user-id';
+
+    const existingMealPlan = {
+      mealPlanId: BigInt(123),
+      name: 'Test Meal Plan',
+      description: 'Test description',
+      userId: 'test-user-id',
+      startDate: new Date('2024-03-01'),
+      endDate: new Date('2024-03-07'),
+      createdAt: new Date('2024-02-01T00:00:00.000Z'),
+      updatedAt: new Date('2024-02-01T00:00:00.000Z'),
+    };
+
+    const slotDto = {
+      recipeId: '456',
+      mealDate: new Date('2024-03-03'),
+      mealType: MealType.DINNER,
+    };
+
+    const slotKey = {
+      mealPlanId: BigInt(123),
+      recipeId: BigInt(456),
+      mealDate: new Date('2024-03-03'),
+      mealType: MealType.DINNER,
+    };
+
+    const existingSlot = {
+      ...slotKey,
+      servings: 1,
+      recipe: {
+        recipeId: BigInt(456),
+        title: 'Lasagna',
+        userId: 'test-user-id',
+      },
+    };
+
+    describe('addRecipeToMealPlan', () => {
+      it('should add a recipe slot and return it', async () => {
+        repository.findById.mockResolvedValue(existingMealPlan);
+        repository.recipeExists.mockResolvedValue(true);
+        repository.recipeExistsInMealPlan.mockResolvedValue(false);
+        repository.addRecipeToMealPlan.mockResolvedValue(slotKey);
+        repository.findRecipeSlot.mockResolvedValue(existingSlot);
+
+        const result = await service.addRecipeToMealPlan(mealPlanId, slotDto, userId);
+
+        expect(repository.addRecipeToMealPlan).toHaveBeenCalledWith(slotKey);
+        expect(repository.recordEngagement).toHaveBeenCalledWith(
+          BigInt(123),
+          'RECIPE_ADDED',
+          userId,
+        );
+        expect(result.success).toBe(true);
+        expect(result.data.recipeId).toBe('456');
+        expect(result.data.mealPlanId).toBe('123');
+        expect(result.data.recipeName).toBe('Lasagna');
+        expect(result.data.mealType).toBe(MealType.DINNER);
+        expect(result.data.servings).toBe(1);
+        expect(result.message).toBe('Recipe added to meal plan successfully');
+        expect(mockMetricsService.recordMealPlanUpdated).toHaveBeenCalledWith('recipes');
+        expect(mockCacheService.invalidate).toHaveBeenCalledWith(
+          'meal-plan:123',
+          'meal-plans:trending',
+        );
+      });
+
+      it('should resolve a legacy recipe UUID to the numeric recipe ID', async () => {
+        const legacyUuid = '550e8400-e29b-41d4-a716-446655440000';
+        repository.findById.mockResolvedValue(existingMealPlan);
+        repository.findRecipeIdByLegacyUuid.mockResolvedValue(BigInt(456));
+        repository.recipeExists.mockResolvedValue(true);
+        repository.recipeExistsInMealPlan.mockResolvedValue(false);
+        repository.addRecipeToMealPlan.mockResolvedValue(slotKey);
+        repository.findRecipeSlot.mockResolvedValue(existingSlot);
+
+        const result = await service.addRecipeToMealPlan(
+          mealPlanId,
+          { ...slotDto, recipeId: legacyUuid },
+          userId,
+        );
+
+        expect(repository.findRecipeIdByLegacyUuid).toHaveBeenCalledWith(legacyUuid);
+        expect(repository.addRecipeToMealPlan).toHaveBeenCalledWith(slotKey);
+        expect(result.data.recipeId).toBe('456');
+      });
+
+      it('should persist the requested servings', async () => {
+        repository.findById.mockResolvedValue(existingMealPlan);
+        repository.recipeExists.mockResolvedValue(true);
+        repository.recipeExistsInMealPlan.mockResolvedValue(false);
+        repository.addRecipeToMealPlan.mockResolvedValue({ ...slotKey, servings: 4 });
+        repository.findRecipeSlot.mockResolvedValue({ ...existingSlot, servings: 4 });
+
+        const result = await service.addRecipeToMealPlan(
+          mealPlanId,
+          { ...slotDto, servings: 4 },
+          userId,
+        );
+
+        expect(repository.addRecipeToMealPlan).toHaveBeenCalledWith({ ...slotKey, servings: 4 });
+        expect(result.data.servings).toBe(4);
+      });
+
+      it('should throw NotFoundException when the meal plan does not exist', async () => {
+        repository.findById.mockResolvedValue(null);
+
+        expect(service.addRecipeToMealPlan(mealPlanId, slotDto, userId)).rejects.toThrow(
+          NotFoundException,
+        );
+        expect(repository.addRecipeToMealPlan).not.toHaveBeenCalled();
+      });
+
+      it('should throw ForbiddenException when the user does not own the meal plan', async () => {
+        repository.findById.mockResolvedValue({ ...existingMealPlan, userId: 'other-user' });
+
+        expect(service.addRecipeToMealPlan(mealPlanId, slotDto, userId)).rejects.toThrow(
+          ForbiddenException,
+        );
+        expect(repository.addRecipeToMealPlan).not.toHaveBeenCalled();
+      });
+
+      it('should throw NotFoundException when the recipe does not exist', async () => {
+        repository.findById.mockResolvedValue(existingMealPlan);
+        repository.recipeExists.mockResolvedValue(false);
+
+        expect(service.addRecipeToMealPlan(mealPlanId, slotDto, userId)).rejects.toThrow(
+          'Recipe with ID 456 not found',
+        );
+      });
+
+      it('should throw BadRequestException when the date is outside the meal plan', async () => {
+        repository.findById.mockResolvedValue(existingMealPlan);
+        repository.recipeExists.mockResolvedValue(true);
+
+        expect(
+          service.addRecipeToMealPlan(
+            mealPlanId,
+            { ...slotDto, mealDate: new Date('2024-03-10') },
+            userId,
+          ),
+        ).rejects.toThrow(BadRequestException);
+        expect(repository.addRecipeToMealPlan).not.toHaveBeenCalled();
+      });
+
+      it('should throw ConflictException when the recipe is already scheduled for that meal', async () => {
+        repository.findById.mockResolvedValue(existingMealPlan);
+        repository.recipeExists.mockResolvedValue(true);
+        repository.recipeExistsInMealPlan.mockResolvedValue(true);
+
+        expect(service.addRecipeToMealPlan(mealPlanId, slotDto, userId)).rejects.toThrow(
+          ConflictException,
+        );
+        expect(repository.addRecipeToMealPlan).not.toHaveBeenCalled();
+      });
+
+      it('should check for conflicts within the same meal type only', async () => {
+        repository.findById.mockResolvedValue(existingMealPlan);
+        repository.recipeExists.mockResolvedValue(true);
+        repository.recipeExistsInMealPlan.mockResolvedValue(false);
+        repository.addRecipeToMealPlan.mockResolvedValue({ ...slotKey, mealType: MealType.LUNCH });
+        repository.findRecipeSlot.mockResolvedValue({ ...existingSlot, mealType: MealType.LUNCH });
+
+        await service.addRecipeToMealPlan(
+          mealPlanId,
+          { ...slotDto, mealType: MealType.LUNCH },
+          userId,
+        );
+
+        expect(repository.recipeExistsInMealPlan).toHaveBeenCalledWith(
+          BigInt(123),
+          BigInt(456),
+          slotKey.mealDate,
+          MealType.LUNCH,
+        );
+        expect(repository.addRecipeToMealPlan).toHaveBeenCalledWith({
+          ...slotKey,
+          mealType: MealType.LUNCH,
+        });
+      });
+    });
+
+    describe('updateMealPlanRecipe', () => {
+      it('should change the servings of a recipe slot', async () => {
+        repository.findById.mockResolvedValue(existingMealPlan);
+        repository.findRecipeSlot.mockResolvedValue(existingSlot);
+        repository.updateRecipeSlot.mockResolvedValue({ ...existingSlot, servings: 6 });
+
+        const result = await service.updateMealPlanRecipe(
+          mealPlanId,
+          { ...slotDto, newServings: 6 },
+          userId,
+        );
+
+        expect(repository.updateRecipeSlot).toHaveBeenCalledWith(slotKey, { servings: 6 });
+        expect(result.data.servings).toBe(6);
+      });
+
+      it('should move a recipe slot to a new date and meal type', async () => {
+        const newDate = new Date('2024-03-04');
+        repository.findById.mockResolvedValue(existingMealPlan);
+        repository.findRecipeSlot.mockResolvedValue(existingSlot);
+        repository.recipeExistsInMealPlan.mockResolvedValue(false);
+        repository.updateRecipeSlot.mockResolvedValue({
+          ...existingSlot,
+          mealDate: newDate,
+          mealType: MealType.LUNCH,
+        });
+
+        const result = await service.updateMealPlanRecipe(
+          mealPlanId,
+          { ...slotDto, newMealDate: newDate, newMealType: MealType.LUNCH },
+          userId,
+        );
+
+        expect(repository.updateRecipeSlot).toHaveBeenCalledWith(slotKey, {
+          mealDate: newDate,
+          mealType: MealType.LUNCH,
+        });
+        expect(result.data.mealType).toBe(MealType.LUNCH);
+        expect(result.data.mealDate).toEqual(newDate);
+      });
+
+      it('should only change the meal type when the date is unchanged', async () => {
+        repository.findById.mockResolvedValue(existingMealPlan);
+        repository.findRecipeSlot.mockResolvedValue(existingSlot);
+        repository.updateRecipeSlot.mockResolvedValue({
+          ...existingSlot,
+          mealType: MealType.LUNCH,
+        });
+
+        await service.updateMealPlanRecipe(
+          mealPlanId,
+          { ...slotDto, newMealDate: new Date('2024-03-03'), newMealType: MealType.LUNCH },
+          userId,
+        );
+
+        expect(repository.recipeExistsInMealPlan).toHaveBeenCalledWith(
+          BigInt(123),
+          BigInt(456),
+          slotKey.mealDate,
+          MealType.LUNCH,
+        );
+        expect(repository.updateRecipeSlot).toHaveBeenCalledWith(slotKey, {
+          mealType: MealType.LUNCH,
+        });
+      });
+
+      it('should throw ConflictException when the recipe already fills the target meal type', async () => {
+        repository.findById.mockResolvedValue(existingMealPlan);
+        repository.findRecipeSlot.mockResolvedValue(existingSlot);
+        repository.recipeExistsInMealPlan.mockResolvedValue(true);
+
+        expect(
+          service.updateMealPlanRecipe(
+            mealPlanId,
+            { ...slotDto, newMealType: MealType.LUNCH },
+            userId,
+          ),
+        ).rejects.toThrow(
+          'Recipe 456 is already scheduled for LUNCH on 2024-03-03 in meal plan 123',
+        );
+        expect(repository.updateRecipeSlot).not.toHaveBeenCalled();
+      });
+
+      it('should return the existing slot when nothing changes', async () => {
+        repository.findById.mockResolvedValue(existingMealPlan);
+        repository.findRecipeSlot.mockResolvedValue(existingSlot);
+
+        const result = await service.updateMealPlanRecipe(mealPlanId, slotDto, userId);
+
+        expect(repository.updateRecipeSlot).not.toHaveBeenCalled();
+        expect(result.data.recipeName).toBe('Lasagna');
+        expect(mockMetricsService.recordMealPlanUpdated).not.toHaveBeenCalled();
+      });
+
+      it('should throw NotFoundException when the slot does not exist', async () => {
+        repository.findById.mockResolvedValue(existingMealPlan);
+        repository.findRecipeSlot.mockResolvedValue(null);
+
+        expect(
+          service.updateMealPlanRecipe(
+            mealPlanId,
+            { ...slotDto, newMealType: MealType.LUNCH },
+            userId,
+          ),
+        ).rejects.toThrow('Recipe 456 is not scheduled for DINNER on 2024-03-03 in meal plan 123');
+      });
+
+      it('should throw BadRequestException when the new date is outside the meal plan', async () => {
+        repository.findById.mockResolvedValue(existingMealPlan);
+        repository.findRecipeSlot.mockResolvedValue(existingSlot);
+
+        expect(
+          service.updateMealPlanRecipe(
+            mealPlanId,
+            { ...slotDto, newMealDate: new Date('2024-02-28') },
+            userId,
+          ),
+        ).rejects.toThrow(BadRequestException);
+        expect(repository.updateRecipeSlot).not.toHaveBeenCalled();
+      });
+
+      it('should throw ConflictException when the recipe is already on the new date', async () => {
+        repository.findById.mockResolvedValue(existingMealPlan);
+        repository.findRecipeSlot.mockResolvedValue(existingSlot);
+        repository.recipeExistsInMealPlan.mockResolvedValue(true);
+
+        expect(
+          service.updateMealPlanRecipe(
+            mealPlanId,
+            { ...slotDto, newMealDate: new Date('2024-03-05') },
+            userId,
+          ),
+        ).rejects.toThrow(ConflictException);
+        expect(repository.updateRecipeSlot).not.toHaveBeenCalled();
+      });
+
+      it('should throw ForbiddenException when the user does not own the meal plan', async () => {
+        repository.findById.mockResolvedValue({ ...existingMealPlan, userId: 'other-user' });
+
+        expect(service.updateMealPlanRecipe(mealPlanId, slotDto, userId)).rejects.toThrow(
+          ForbiddenException,
+        );
+      });
+    });
+
+    describe('removeRecipeFromMealPlan', () => {
+      it('should remove an existing recipe slot', async () => {
+        repository.findById.mockResolvedValue(existingMealPlan);
+        repository.findRecipeSlot.mockResolvedValue(existingSlot);
+        repository.removeRecipeFromMealPlan.mockResolvedValue(slotKey);
+
+        await service.removeRecipeFromMealPlan(mealPlanId, slotDto, userId);
+
+        expect(repository.findRecipeSlot).toHaveBeenCalledWith(slotKey);
+        expect(repository.removeRecipeFromMealPlan).toHaveBeenCalledWith(
+          BigInt(123),
+          BigInt(456),
+          slotKey.mealDate,
+          MealType.DINNER,
+        );
+        expect(mockMetricsService.recordMealPlanUpdated).toHaveBeenCalledWith('recipes');
+      });
+
+      it('should throw NotFoundException when the slot does not exist', async () => {
+        repository.findById.mockResolvedValue(existingMealPlan);
+        repository.findRecipeSlot.mockResolvedValue(null);
+
+        expect(service.removeRecipeFromMealPlan(mealPlanId, slotDto, userId)).rejects.toThrow(
+          NotFoundException,
+        );
+        expect(repository.removeRecipeFromMealPlan).not.toHaveBeenCalled();
+      });
+
+      it('should throw ForbiddenException when the user does not own the meal plan', async () => {
+        repository.findById.mockResolvedValue({ ...existingMealPlan, userId: 'other-user' });
+
+        expect(service.removeRecipeFromMealPlan(mealPlanId, slotDto, userId)).rejects.toThrow(
+          ForbiddenException,
+        );
+      });
+    });
+  });
+
+  describe('replaceDayRecipes', () => {
+    const userId = 'test-user-id';
+    const mealPlanId = '123';
+    const date = '2024-03-05';
+    const mealDate = new Date('2024-03-05');
+    const replaceDto = {
+      recipes: [
+        { recipeId: '456', mealType: MealType.BREAKFAST },
+        { recipeId: '789', mealType: MealType.DINNER },
+      ],
+    };
+
+    it('should replace the day inside a transaction and return the day view', async () => {
+      repository.findById.mockResolvedValue(mockMealPlan);
+      repository.recipeExists.mockResolvedValue(true);
+      repository.replaceRecipesForDate.mockResolvedValue([]);
+      repository.findByIdWithRecipesFiltered.mockResolvedValue({
+        ...mockMealPlan,
+        mealPlanRecipes: [
+          {
+            mealPlanId: BigInt(123),
+            recipeId: BigInt(456),
+            mealDate,
+            mealType: MealType.BREAKFAST,
+            recipe: { recipeId: BigInt(456), title: 'Pancakes', userId },
+          },
+          {
+            mealPlanId: BigInt(123),
+            recipeId: BigInt(789),
+            mealDate,
+            mealType: MealType.DINNER,
+            recipe: { recipeId: BigInt(789), title: 'Lasagna', userId },
+          },
+        ],
+      });
+
+      const result = await service.replaceDayRecipes(mealPlanId, date, replaceDto, userId);
+
+      expect(mockTransactionService.executeTransaction).toHaveBeenCalledTimes(1);
+      expect(repository.replaceRecipesForDate).toHaveBeenCalledWith(
+        BigInt(123),
+        mealDate,
+        [
+          { recipeId: BigInt(456), mealType: MealType.BREAKFAST },
+          { recipeId: BigInt(789), mealType: MealType.DINNER },
+        ],
+        undefined,
+        mockTx,
+      );
+      expect(repository.findByIdWithRecipesFiltered).toHaveBeenCalledWith(BigInt(123), {
+        dateRange: { startDate: mealDate, endDate: mealDate },
+      });
+      expect(result.mealPlanId).toBe('123');
+      expect(result.date).toEqual(mealDate);
+      expect(result.totalMeals).toBe(2);
+      expect(result.meals.breakfast).toHaveLength(1);
+      expect(result.meals.dinner).toHaveLength(1);
+      expect(mockMetricsService.recordMealPlanUpdated).toHaveBeenCalledWith('recipes');
+    });
+
+    it('should reject the same recipe given as numeric ID and legacy UUID for one meal type', async () => {
+      repository.findById.mockResolvedValue(mockMealPlan);
+      repository.findRecipeIdByLegacyUuid.mockResolvedValue(BigInt(456));
+
+      const thrownError = await service
+        .replaceDayRecipes(
+          mealPlanId,
+          date,
+          {
+            recipes: [
+              { recipeId: '456', mealType: MealType.DINNER },
+              { recipeId: '550e8400-e29b-41d4-a716-446655440000', mealType: MealType.DINNER },
+            ],
+          },
+          userId,
+        )
+        .catch((err) => err);
+
+      expect(thrownError).toBeInstanceOf(BadRequestException);
+      expect(repository.replaceRecipesForDate).not.toHaveBeenCalled();
+    });
+
+    it('should clear the day when no recipes are provided', async () => {
+      repository.findById.mockResolvedValue(mockMealPlan);
+      repository.replaceRecipesForDate.mockResolvedValue([]);
+      repository.findByIdWithRecipesFiltered.mockResolvedValue(mockMealPlan);
+
+      const result = await service.replaceDayRecipes(mealPlanId, date, { recipes: [] }, userId);
+
+      expect(repository.recipeExists).not.toHaveBeenCalled();
+      expect(repository.replaceRecipesForDate).toHaveBeenCalledWith(
+        BigInt(123),
+        mealDate,
+        [],
+        undefined,
+        mockTx,
+      );
+      expect(result.totalMeals).toBe(0);
+    });
+
+    it('should scope the replacement to a single meal type', async () => {
+      repository.findById.mockResolvedValue(mockMealPlan);
+      repository.recipeExists.mockResolvedValue(true);
+      repository.replaceRecipesForDate.mockResolvedValue([]);
+      repository.findByIdWithRecipesFiltered.mockResolvedValue(mockMealPlan);
+
+      await service.replaceDayRecipes(
+        mealPlanId,
+        date,
+        { mealType: MealType.DINNER, recipes: [{ recipeId: '789', mealType: MealType.DINNER }] },
+        userId,
+      );
+
+      expect(repository.replaceRecipesForDate).toHaveBeenCalledWith(
+        BigInt(123),
+        mealDate,
+        [{ recipeId: BigInt(789), mealType: MealType.DINNER }],
+        MealType.DINNER,
+        mockTx,
+      );
+    });
+
+    it('should throw BadRequestException when a recipe does not match the scoped meal type', async () => {
+      repository.findById.mockResolvedValue(mockMealPlan);
+
+      expect(
+        service.replaceDayRecipes(
+          mealPlanId,
+          date,
+          { mealType: MealType.DINNER, recipes: [{ recipeId: '789', mealType: MealType.LUNCH }] },
+          userId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw BadRequestException when a recipe is listed twice', async () => {
+      repository.findById.mockResolvedValue(mockMealPlan);
+
+      expect(
+        service.replaceDayRecipes(
+          mealPlanId,
+          date,
+          {
+            recipes: [
+              { recipeId: '456', mealType: MealType.DINNER },
+              { recipeId: '456', mealType: MealType.DINNER },
+            ],
+          },
+          userId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should allow the same recipe under different meal types', async () => {
+      repository.findById.mockResolvedValue(mockMealPlan);
+      repository.recipeExists.mockResolvedValue(true);
+      repository.replaceRecipesForDate.mockResolvedValue([]);
+      repository.findByIdWithRecipesFiltered.mockResolvedValue(mockMealPlan);
+
+      await service.replaceDayRecipes(
+        mealPlanId,
+        date,
+        {
+          recipes: [
+            { recipeId: '456', mealType: MealType.LUNCH },
+            { recipeId: '456', mealType: MealType.DINNER },
+          ],
+        },
+        userId,
+      );
+
+      expect(repository.recipeExists).toHaveBeenCalledTimes(1);
+      expect(repository.replaceRecipesForDate).toHaveBeenCalledWith(
+        BigInt(123),
+        mealDate,
+        [
+          { recipeId: BigInt(456), mealType: MealType.LUNCH },
+          { recipeId: BigInt(456), mealType: MealType.DINNER },
+        ],
+        undefined,
+        mockTx,
+      );
+    });
+
+    it('should throw BadRequestException for an invalid date', async () => {
+      repository.findById.mockResolvedValue(mockMealPlan);
+
+      expect(
+        service.replaceDayRecipes(mealPlanId, 'not-a-date', replaceDto, userId),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw BadRequestException when the date is outside the meal plan', async () => {
+      repository.findById.mockResolvedValue(mockMealPlan);
+
+      expect(
+        service.replaceDayRecipes(mealPlanId, '2024-04-01', replaceDto, userId),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException when a recipe does not exist', async () => {
+      repository.findById.mockResolvedValue(mockMealPlan);
+      repository.recipeExists.mockResolvedValue(false);
+
+      expect(service.replaceDayRecipes(mealPlanId, date, replaceDto, userId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should throw ForbiddenException when the user does not own the meal plan', async () => {
+      repository.findById.mockResolvedValue({ ...mockMealPlan, userId: 'other-user' });
+
+      expect(service.replaceDayRecipes(mealPlanId, date, replaceDto, userId)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('cloneMealPlan', () => {
+    const userId = 'test-user-id';
+    const mealPlanId = '123';
+    const cloneDto: CloneMealPlanDto = {
+      name: 'Cloned Plan',
+      startDate: new Date('2024-04-01'),
+    };
+    const clonedMealPlan = {
+      ...mockMealPlan,
+      mealPlanId: BigInt(124),
+      name: 'Cloned Plan',
+      startDate: new Date('2024-04-01'),
+      endDate: new Date('2024-04-07'),
+    };
+
+    beforeEach(() => {
+      mockValidationService.validateCreateMealPlan.mockResolvedValue({
+        isValid: true,
+        sanitizedData: {
+          name: 'Cloned Plan',
+          description: 'Test Description',
+          startDate: new Date('2024-04-01'),
+          endDate: new Date('2024-04-07'),
+        },
+      });
+      repository.cloneMealPlan.mockResolvedValue(clonedMealPlan);
+    });
+
+    it('should clone an owned meal plan with shifted dates inside a transaction', async () => {
+      repository.findById.mockResolvedValue(mockMealPlan);
+      mockTagsRepository.findTagsByMealPlanId.mockResolvedValue([
+        { tagId: BigInt(10), name: 'family' },
+      ]);
+
+      const result = await service.cloneMealPlan(mealPlanId, cloneDto, userId);
+
+      expect(mockValidationService.validateCreateMealPlan).toHaveBeenCalledWith(
+        {
+          name: 'Cloned Plan',
+          description: 'Test Description',
+          startDate: new Date('2024-04-01'),
+          endDate: new Date('2024-04-07'),
+        },
+        { userId },
+      );
+      expect(mockTransactionService.executeTransaction).toHaveBeenCalledTimes(1);
+      expect(repository.cloneMealPlan).toHaveBeenCalledWith(
+        BigInt(123),
+        {
+          userId,
+          name: 'Cloned Plan',
+          description: 'Test Description',
+          startDate: new Date('2024-04-01'),
+          endDate: new Date('2024-04-07'),
+          timezone: 'UTC',
+        },
+        31,
+        mockTx,
+      );
+      expect(result.name).toBe('Cloned Plan');
+      expect(result.tags).toEqual([{ tagId: '10', name: 'family' }]);
+      expect(repository.recordEngagement).not.toHaveBeenCalled();
+      expect(mockMetricsService.recordMealPlanCreated).toHaveBeenCalledWith('clone');
+    });
+
+    it('should allow cloning a public meal plan owned by another user', async () => {
+      repository.findById.mockResolvedValue({
+        ...mockMealPlan,
+        userId: 'other-user',
+        visibility: MealPlanVisibility.PUBLIC,
+      });
+
+      await service.cloneMealPlan(mealPlanId, { ...cloneDto, description: 'Mine now' }, userId);
+
+      expect(repository.recordEngagement).toHaveBeenCalledWith(BigInt(123), 'CLONE', userId);
+
+      expect(mockValidationService.validateCreateMealPlan).toHaveBeenCalledWith(
+        expect.objectContaining({ description: 'Mine now' }),
+        { userId },
+      );
+      expect(repository.cloneMealPlan).toHaveBeenCalledWith(
+        BigInt(123),
+        expect.objectContaining({ userId }),
+        31,
+        mockTx,
+      );
+    });
+
+    it('should throw ForbiddenException for a private meal plan owned by another user', async () => {
+      repository.findById.mockResolvedValue({ ...mockMealPlan, userId: 'other-user' });
+
+      expect(service.cloneMealPlan(mealPlanId, cloneDto, userId)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(repository.cloneMealPlan).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when the source meal plan does not exist', async () => {
+      repository.findById.mockResolvedValue(null);
+
+      expect(service.cloneMealPlan(mealPlanId, cloneDto, userId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should throw BadRequestException when the source meal plan has no date range', async () => {
+      repository.findById.mockResolvedValue({ ...mockMealPlan, startDate: null, endDate: null });
+
+      expect(service.cloneMealPlan(mealPlanId, cloneDto, userId)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should throw BadRequestException when validation fails', async () => {
+      repository.findById.mockResolvedValue(mockMealPlan);
+      mockValidationService.validateCreateMealPlan.mockResolvedValue({
+        isValid: false,
+        errors: [{ field: 'dateRange', message: 'Overlaps with an existing meal plan' }],
+      });
+
+      expect(service.cloneMealPlan(mealPlanId, cloneDto, userId)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(repository.cloneMealPlan).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findMealPlanById', () => {
+    const queryDto: MealPlanByIdQueryDto = {
+      viewMode: 'full',
+      includeRecipes: true,
+    };
+
+    it('should return meal plan by id', async () => {
+      repository.findById.mockResolvedValue(mockMealPlan);
+      repository.findByIdWithRecipesFiltered.mockResolvedValue(mockMealPlanWithRecipes);
+
+      const result = await service.findMealPlanById('123', queryDto, 'test-user-id');
+
+      expect(result).toBeDefined();
+      expect(mockCacheService.getOrSet).toHaveBeenCalledWith(
+        `meal-plans:by-id:123:${JSON.stringify(queryDto)}`,
+        ['meal-plan:123'],
+        expect.any(Function),
+      );
+    });
+
+    it('should serve a cached response after checking access', async () => {
+      const cachedResponse = { success: true, viewMode: 'full', data: { mealPlanId: '123' } };
+      repository.findById.mockResolvedValue(mockMealPlan);
+      mockCacheService.getOrSet.mockResolvedValueOnce(cachedResponse);
+
+      const result = await service.findMealPlanById('123', queryDto, 'test-user-id');
+
+      expect(result).toEqual(cachedResponse as never);
+      expect(repository.findById).toHaveBeenCalledWith(BigInt(123));
+      expect(repository.findByIdWithRecipesFiltered).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when meal plan not found', async () => {
+      repository.findById.mockResolvedValue(null);
+
+      expect(service.findMealPlanById('123', queryDto, 'test-user-id')).rejects.toThrow(
+        NotFoundException,
+      );
     });
 
     it('should throw ForbiddenException when user lacks access', async () => {
-      repository.checkMealPlanExists.mockResolvedValue(true);
-      repository.verifyMealPlanOwnership.mockResolvedValue(false);
+      repository.findById.mockResolvedValue({ ...mockMealPlan, userId: 'other-user-id' });
 
       expect(service.findMealPlanById('123', queryDto, 'test-user-id')).rejects.toThrow(
         ForbiddenException,
@@ -910,13 +2409,12 @@ describe('MealPlansService', () => {
     });
 
     it('should handle different view modes', async () => {
-      repository.checkMealPlanExists.mockResolvedValue(true);
-      repository.verifyMealPlanOwnership.mockResolvedValue(true);
+      repository.findById.mockResolvedValue(mockMealPlan);
       repository.findByIdWithRecipesFiltered.mockResolvedValue(mockMealPlanWithRecipes);
 
       const dayQueryDto: MealPlanByIdQueryDto = {
         viewMode: 'day',
-        filterDate: new Date(2024, 2, 15),
+        filterDate: DateOnlyUtil.fromParts(2024, 3, 15),
         includeRecipes: true,
       };
 
@@ -924,47 +2422,223 @@ describe('MealPlansService', () => {
 
       expect(result).toBeDefined();
     });
+
+    it('should cache week views by the locale negotiated from Accept-Language', async () => {
+      repository.findById.mockResolvedValue(mockMealPlan);
+      repository.findByIdWithRecipesFiltered.mockResolvedValue(mockMealPlanWithRecipes);
+      const weekQueryDto: MealPlanByIdQueryDto = {
+        viewMode: 'week',
+        filterStartDate: DateOnlyUtil.fromParts(2024, 3, 10),
+        includeRecipes: true,
+      };
+
+      const result = await service.findMealPlanById(
+        '123',
+        weekQueryDto,
+        'test-user-id',
+        'xx-YY, es-ES;q=0.8, en;q=0.5',
+      );
+
+      const resolvedQueryDto = {
+        ...weekQueryDto,
+        weekStartDay: WeekStartDay.MONDAY,
+        locale: 'es-ES',
+      };
+      expect(mockCacheService.getOrSet).toHaveBeenCalledWith(
+        `meal-plans:by-id:123:${JSON.stringify(resolvedQueryDto)}`,
+        ['meal-plan:123'],
+        expect.any(Function),
+      );
+      expect((result.data as WeekViewResponseDto).days[0]?.dayOfWeek).toBe('domingo');
+    });
+
+    it('should prefer the locale query parameter over Accept-Language', async () => {
+      repository.findById.mockResolvedValue(mockMealPlan);
+      repository.findByIdWithRecipesFiltered.mockResolvedValue(mockMealPlanWithRecipes);
+      const monthQueryDto: MealPlanByIdQueryDto = {
+        viewMode: 'month',
+        filterYear: 2024,
+        filterMonth: 3,
+        locale: 'fr-FR',
+      };
+
+      const result = await service.findMealPlanById('123', monthQueryDto, 'test-user-id', 'de-DE');
+
+      expect((result.data as MonthViewResponseDto).monthName).toBe('mars');
+    });
+
+    it('should reject an unsupported locale', async () => {
+      const error = await service
+        .findMealPlanById('123', { viewMode: 'full', locale: 'xx' }, 'test-user-id')
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect(repository.findById).not.toHaveBeenCalled();
+    });
   });
 
-  describe('view transformation methods', () => {
-    it('should get week start date correctly', () => {
-      const testDate = new Date(2024, 2, 15); // March 15, 2024 (Friday)
-      const weekStart = service['getWeekStart'](testDate);
+  describe('findMealPlanById with nutrition', () => {
+    const mealPlanWithTargets = {
+      ...mockMealPlan,
+      dailyCaloriesTarget: 2000,
+      dailyProteinTarget: 100,
+      dailyCarbohydratesTarget: null,
+      dailyFatTarget: null,
+    };
+
+    const slots = [
+      {
+        mealPlanId: BigInt(123),
+        recipeId: BigInt(456),
+        mealDate: new Date('2024-03-04'),
+        mealType: MealType.BREAKFAST,
+        servings: 1,
+      },
+      {
+        mealPlanId: BigInt(123),
+        recipeId: BigInt(789),
+        mealDate: new Date('2024-03-04'),
+        mealType: MealType.DINNER,
+        servings: 2,
+      },
+    ];
 
-      expect(weekStart.getDay()).toBe(1); // Monday
+    beforeEach(() => {
+      repository.findById.mockResolvedValue(mealPlanWithTargets);
+      repository.findRecipesForDateRange.mockResolvedValue(slots);
+      mockNutritionProvider.getNutritionPerServing.mockResolvedValue(
+        new Map([
+          ['456', { calories: 400, protein: 20, carbohydrates: 50, fat: 10 }],
+          ['789', { calories: 600, protein: 45, carbohydrates: 40, fat: 25, sodium: 800 }],
+        ]),
+      );
     });
 
-    it('should get day of week name correctly', () => {
-      const testDate = new Date(2024, 2, 15); // March 15, 2024 (Friday)
-      const dayName = service['getDayOfWeekName'](testDate);
+    it('should add nutrition totals and target differences to the day view', async () => {
+      const result = await service.findMealPlanById(
+        '123',
+        { viewMode: 'day', filterDate: new Date('2024-03-04'), includeNutrition: true },
+        'test-user-id',
+      );
 
-      expect(dayName).toBe('Friday');
+      expect(repository.findRecipesForDateRange).toHaveBeenCalledWith(
+        BigInt(123),
+        new Date('2024-03-04'),
+        new Date('2024-03-04'),
+      );
+      expect(mockNutritionProvider.getNutritionPerServing).toHaveBeenCalledWith([
+        BigInt(456),
+        BigInt(789),
+      ]);
+
+      const { nutrition } = result.data as DayViewResponseDto;
+      expect(nutrition?.date).toBe('2024-03-04');
+      expect(nutrition?.totals).toEqual({
+        calories: 1600,
+        protein: 110,
+        carbohydrates: 130,
+        fat: 60,
+        sodium: 1600,
+      });
+      expect(nutrition?.byMealType.breakfast?.calories).toBe(400);
+      expect(nutrition?.byMealType.dinner?.calories).toBe(1200);
+      expect(nutrition?.targetDifference).toEqual({ calories: -400, protein: 10 });
     });
 
-    it('should get month name correctly', () => {
-      const monthName = service['getMonthName'](3);
+    it('should add per-day nutrition and a weekly summary to the week view', async () => {
+      const result = await service.findMealPlanById(
+        '123',
+        { viewMode: 'week', filterStartDate: new Date('2024-03-04'), includeNutrition: true },
+        'test-user-id',
+      );
 
-      expect(monthName).toBe('March');
+      const week = result.data as WeekViewResponseDto;
+      expect(week.days).toHaveLength(7);
+      expect(week.days[0]?.nutrition?.totals?.calories).toBe(1600);
+      expect(week.days[1]?.nutrition?.totals?.calories).toBe(0);
+      expect(week.nutrition?.totals?.calories).toBe(1600);
+      expect(week.nutrition?.dailyAverage?.calories).toBe(228.6);
+      expect(week.nutrition?.byMealType?.dinner?.protein).toBe(90);
     });
 
-    it('should handle invalid month number', () => {
-      const monthName = service['getMonthName'](13);
+    it('should add a nutrition rollup for the whole plan to the statistics', async () => {
+      repository.getMealPlanStatistics.mockResolvedValue({
+        totalRecipes: 2,
+        totalServings: 3,
+        daysWithMeals: 1,
+        mealTypeCounts: [
+          { mealType: MealType.BREAKFAST, count: 1 },
+          { mealType: MealType.DINNER, count: 1 },
+        ],
+        uniqueDates: [new Date('2024-03-04')],
+      });
+
+      const result = await service.findMealPlanById(
+        '123',
+        { viewMode: 'full', includeStatistics: true, includeNutrition: true },
+        'test-user-id',
+      );
 
-      expect(monthName).toBe('Unknown');
+      const nutrition = result.statistics?.nutrition;
+      expect(nutrition?.targets).toEqual({ calories: 2000, protein: 100 });
+      expect(nutrition?.days).toHaveLength(7);
+      expect(nutrition?.totals?.calories).toBe(1600);
+      expect(nutrition?.days[3]?.targetDifference).toEqual({ calories: -400, protein: 10 });
+      expect(nutrition?.days[0]?.targetDifference).toEqual({ calories: -2000, protein: -100 });
     });
 
+    it('should not load nutrition unless requested', async () => {
+      const result = await service.findMealPlanById(
+        '123',
+        { viewMode: 'day', filterDate: new Date('2024-03-04') },
+        'test-user-id',
+      );
+
+      expect(mockNutritionProvider.getNutritionPerServing).not.toHaveBeenCalled();
+      expect((result.data as DayViewResponseDto).nutrition).toBeUndefined();
+    });
+
+    it('should not call the provider when no recipes are scheduled', async () => {
+      repository.findRecipesForDateRange.mockResolvedValue([]);
+
+      const result = await service.findMealPlanById(
+        '123',
+        { viewMode: 'day', filterDate: new Date('2024-03-05'), includeNutrition: true },
+        'test-user-id',
+      );
+
+      expect(mockNutritionProvider.getNutritionPerServing).not.toHaveBeenCalled();
+      expect((result.data as DayViewResponseDto).nutrition?.totals).toEqual({
+        calories: 0,
+        protein: 0,
+        carbohydrates: 0,
+        fat: 0,
+      });
+    });
+  });
+
+  describe('view transformation methods', () => {
     it('should get week number correctly', () => {
-      const testDate = new Date(2024, 2, 15); // March 15, 2024
+      const testDate = DateOnlyUtil.fromParts(2024, 3, 15); // March 15, 2024
       const weekNumber = service['getWeekNumber'](testDate);
 
       expect(typeof weekNumber).toBe('number');
       expect(weekNumber).toBeGreaterThan(0);
     });
+
+    it('should number displayed weeks by the ISO week holding most of their days', () => {
+      // Sunday, March 10, 2024 starts a week that is mostly ISO week 11
+      expect(service['getDisplayedWeekNumber'](DateOnlyUtil.fromParts(2024, 3, 10))).toBe(11);
+      // Monday, March 11, 2024 starts ISO week 11
+      expect(service['getDisplayedWeekNumber'](DateOnlyUtil.fromParts(2024, 3, 11))).toBe(11);
+      // Saturday, March 9, 2024 starts a week that is mostly ISO week 11
+      expect(service['getDisplayedWeekNumber'](DateOnlyUtil.fromParts(2024, 3, 9))).toBe(11);
+    });
   });
 
   describe('date range methods', () => {
     it('should get date range from single filter date', () => {
-      const filterDate = new Date(2024, 2, 15);
+      const filterDate = DateOnlyUtil.fromParts(2024, 3, 15);
       const queryDto: MealPlanByIdQueryDto = {
         viewMode: 'day',
         filterDate: filterDate,
@@ -979,8 +2653,8 @@ describe('MealPlansService', () => {
     });
 
     it('should get date range from start and end dates', () => {
-      const startDate = new Date(2024, 2, 11);
-      const endDate = new Date(2024, 2, 17);
+      const startDate = DateOnlyUtil.fromParts(2024, 3, 11);
+      const endDate = DateOnlyUtil.fromParts(2024, 3, 17);
       const queryDto: MealPlanByIdQueryDto = {
         viewMode: 'week',
         filterStartDate: startDate,
@@ -1034,8 +2708,7 @@ describe('MealPlansService', () => {
 
   describe('meal plan access verification', () => {
     it('should verify meal plan access successfully', async () => {
-      repository.checkMealPlanExists.mockResolvedValue(true);
-      repository.verifyMealPlanOwnership.mockResolvedValue(true);
+      repository.findById.mockResolvedValue(mockMealPlan);
 
       // Verifying the call completes without throwing
       await service['verifyMealPlanAccess'](BigInt(123), 'test-user-id');
@@ -1044,19 +2717,254 @@ describe('MealPlansService', () => {
     });
 
     it('should throw ForbiddenException when access denied', async () => {
-      repository.checkMealPlanExists.mockResolvedValue(true);
-      repository.verifyMealPlanOwnership.mockResolvedValue(false);
+      repository.findById.mockResolvedValue({ ...mockMealPlan, userId: 'other-user-id' });
+
+      expect(service['verifyMealPlanAccess'](BigInt(123), 'test-user-id')).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('collaborator access', () => {
+    const ownerPlan = { ...mockMealPlan, userId: 'owner-user-id' };
+    const collaborator = (role: string, acceptedAt: Date | null = new Date('2024-02-01')) => ({
+      mealPlanId: BigInt(123),
+      userId: 'test-user-id',
+      role,
+      invitedBy: 'owner-user-id',
+      invitedAt: new Date('2024-01-31'),
+      acceptedAt,
+    });
+
+    it('should grant read access to an accepted viewer', async () => {
+      repository.findById.mockResolvedValue(ownerPlan);
+      mockCollaboratorsRepository.findCollaborator.mockResolvedValue(
+        collaborator('VIEWER') as never,
+      );
+
+      await service['verifyMealPlanAccess'](BigInt(123), 'test-user-id');
+
+      expect(mockCollaboratorsRepository.findCollaborator).toHaveBeenCalledWith(
+        BigInt(123),
+        'test-user-id',
+      );
+    });
+
+    it('should deny access while the invitation is pending', async () => {
+      repository.findById.mockResolvedValue(ownerPlan);
+      mockCollaboratorsRepository.findCollaborator.mockResolvedValue(
+        collaborator('EDITOR', null) as never,
+      );
 
       expect(service['verifyMealPlanAccess'](BigInt(123), 'test-user-id')).rejects.toThrow(
         ForbiddenException,
       );
     });
+
+    it('should let an editor update the meal plan and validate against the owner', async () => {
+      repository.findById.mockResolvedValue(ownerPlan);
+      mockCollaboratorsRepository.findCollaborator.mockResolvedValue(
+        collaborator('EDITOR') as never,
+      );
+      mockValidationService.validateUpdateMealPlan.mockResolvedValue({
+        isValid: true,
+        sanitizedData: { name: 'Shared Plan' },
+        errors: [],
+      });
+      repository.update.mockResolvedValue({ ...ownerPlan, name: 'Shared Plan' });
+
+      await service.updateMealPlan('123', { name: 'Shared Plan' }, 'test-user-id');
+
+      expect(mockValidationService.validateUpdateMealPlan).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'owner-user-id' }),
+        expect.objectContaining({ userId: 'owner-user-id' }),
+      );
+      expect(repository.update).toHaveBeenCalled();
+    });
+
+    it('should not let a viewer update the meal plan', async () => {
+      repository.findById.mockResolvedValue(ownerPlan);
+      mockCollaboratorsRepository.findCollaborator.mockResolvedValue(
+        collaborator('VIEWER') as never,
+      );
+
+      expect(
+        service.updateMealPlan('123', { name: 'Shared Plan' }, 'test-user-id'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should not let an editor delete the meal plan', async () => {
+      repository.findById.mockResolvedValue(ownerPlan);
+      mockCollaboratorsRepository.findCollaborator.mockResolvedValue(
+        collaborator('EDITOR') as never,
+      );
+
+      expect(service.deleteMealPlan('123', 'test-user-id')).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should let a collaborating owner delete the meal plan', async () => {
+      repository.findById.mockResolvedValue(ownerPlan);
+      repository.delete.mockResolvedValue(ownerPlan);
+      mockCollaboratorsRepository.findCollaborator.mockResolvedValue(
+        collaborator('OWNER') as never,
+      );
+
+      await service.deleteMealPlan('123', 'test-user-id');
+
+      expect(repository.delete).toHaveBeenCalledWith(BigInt(123));
+    });
+  });
+
+  describe('visibility and share links', () => {
+    const otherUsersPlan = { ...mockMealPlan, userId: 'owner-user-id' };
+    const queryDto: MealPlanByIdQueryDto = { viewMode: 'full', includeRecipes: true };
+
+    it("should let any user read another user's public meal plan", async () => {
+      repository.findById.mockResolvedValue({
+        ...otherUsersPlan,
+        visibility: MealPlanVisibility.PUBLIC,
+      });
+      repository.findByIdWithRecipesFiltered.mockResolvedValue(mockMealPlanWithRecipes);
+
+      const result = await service.findMealPlanById('123', queryDto, 'test-user-id');
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should not let other users read an unlisted meal plan by ID', async () => {
+      repository.findById.mockResolvedValue({
+        ...otherUsersPlan,
+        visibility: MealPlanVisibility.UNLISTED,
+      });
+
+      expect(service.findMealPlanById('123', queryDto, 'test-user-id')).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should not let an editor change the visibility', async () => {
+      repository.findById.mockResolvedValue(otherUsersPlan);
+      mockCollaboratorsRepository.findCollaborator.mockResolvedValue({
+        mealPlanId: BigInt(123),
+        userId: 'test-user-id',
+        role: 'EDITOR',
+        acceptedAt: new Date('2024-02-01'),
+      } as never);
+
+      expect(
+        service.updateMealPlan('123', { visibility: MealPlanVisibility.PUBLIC }, 'test-user-id'),
+      ).rejects.toThrow('You do not have permission to change the visibility of this meal plan');
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+
+    it('should let the owner change the visibility', async () => {
+      repository.findById.mockResolvedValue(mockMealPlan);
+      mockValidationService.validateUpdateMealPlan.mockResolvedValue({
+        isValid: true,
+        sanitizedData: {},
+        errors: [],
+      });
+      repository.update.mockResolvedValue({
+        ...mockMealPlan,
+        visibility: MealPlanVisibility.UNLISTED,
+      });
+
+      const result = await service.updateMealPlan(
+        '123',
+        { visibility: MealPlanVisibility.UNLISTED },
+        'test-user-id',
+      );
+
+      expect(repository.update).toHaveBeenCalledWith(
+        BigInt(123),
+        expect.objectContaining({ visibility: MealPlanVisibility.UNLISTED }),
+      );
+      expect(result.visibility).toBe(MealPlanVisibility.UNLISTED);
+    });
+
+    describe('createShareLink', () => {
+      const shareLink = {
+        token: 'signed-token',
+        url: '/api/v1/meal-plan-management/meal-plans/shared/signed-token',
+        expiresAt: new Date('2024-04-01'),
+      };
+
+      it('should create a share link for an unlisted meal plan', async () => {
+        repository.findById.mockResolvedValue({
+          ...mockMealPlan,
+          visibility: MealPlanVisibility.UNLISTED,
+        });
+        mockShareLinkService.createShareLink.mockReturnValue(shareLink as never);
+
+        const result = await service.createShareLink('123', 'test-user-id');
+
+        expect(result).toEqual(shareLink);
+        expect(mockShareLinkService.createShareLink).toHaveBeenCalledWith(BigInt(123));
+      });
+
+      it('should reject sharing a private meal plan', async () => {
+        repository.findById.mockResolvedValue(mockMealPlan);
+
+        expect(service.createShareLink('123', 'test-user-id')).rejects.toThrow(BadRequestException);
+      });
+
+      it('should only let the owner share the meal plan', async () => {
+        repository.findById.mockResolvedValue({
+          ...otherUsersPlan,
+          visibility: MealPlanVisibility.PUBLIC,
+        });
+
+        expect(service.createShareLink('123', 'test-user-id')).rejects.toThrow(ForbiddenException);
+      });
+
+      it('should throw NotFoundException when the meal plan does not exist', async () => {
+        repository.findById.mockResolvedValue(null);
+
+        expect(service.createShareLink('123', 'test-user-id')).rejects.toThrow(NotFoundException);
+      });
+    });
+
+    describe('findSharedMealPlan', () => {
+      it('should return the meal plan of a valid share link', async () => {
+        mockShareLinkService.verifyToken.mockReturnValue(BigInt(123) as never);
+        repository.findById.mockResolvedValue({
+          ...otherUsersPlan,
+          visibility: MealPlanVisibility.UNLISTED,
+        });
+        repository.findByIdWithRecipesFiltered.mockResolvedValue(mockMealPlanWithRecipes);
+
+        const result = await service.findSharedMealPlan('signed-token', queryDto);
+
+        expect(result.success).toBe(true);
+        expect(mockShareLinkService.verifyToken).toHaveBeenCalledWith('signed-token');
+        expect(repository.findByIdWithRecipesFiltered).toHaveBeenCalledWith(BigInt(123), undefined);
+      });
+
+      it('should throw NotFoundException for an invalid token', async () => {
+        mockShareLinkService.verifyToken.mockReturnValue(null as never);
+
+        expect(service.findSharedMealPlan('forged-token', queryDto)).rejects.toThrow(
+          'Shared meal plan not found',
+        );
+        expect(repository.findById).not.toHaveBeenCalled();
+      });
+
+      it('should throw NotFoundException once the meal plan is private again', async () => {
+        mockShareLinkService.verifyToken.mockReturnValue(BigInt(123) as never);
+        repository.findById.mockResolvedValue(otherUsersPlan);
+
+        expect(service.findSharedMealPlan('signed-token', queryDto)).rejects.toThrow(
+          NotFoundException,
+        );
+      });
+    });
   });
 
   describe('calculateStatistics', () => {
     it('should calculate statistics successfully', async () => {
       const mockStats = {
         totalRecipes: 10,
+        totalServings: 30,
         daysWithMeals: 5,
         mealTypeCounts: [
           { mealType: MealType.BREAKFAST, count: 5 },
@@ -1077,6 +2985,7 @@ describe('MealPlansService', () => {
 
       expect(result).toBeDefined();
       expect(result.totalRecipes).toBe(10);
+      expect(result.totalServings).toBe(30);
       expect(result.averageRecipesPerDay).toBe(2);
       expect(result.mealTypeBreakdown).toBeDefined();
     });
@@ -1084,6 +2993,7 @@ describe('MealPlansService', () => {
     it('should handle zero recipes', async () => {
       const mockStats = {
         totalRecipes: 0,
+        totalServings: 0,
         daysWithMeals: 0,
         mealTypeCounts: [],
         uniqueDates: [],
@@ -1093,6 +3003,7 @@ describe('MealPlansService', () => {
       const result = await service['calculateStatistics'](BigInt(123));
 
       expect(result.totalRecipes).toBe(0);
+      expect(result.totalServings).toBe(0);
       expect(result.averageRecipesPerDay).toBe(0);
     });
   });
@@ -1142,6 +3053,27 @@ describe('MealPlansService', () => {
         expect(result.totalMeals).toBe(2);
       });
 
+      it('should list a recipe under every meal type it is scheduled for', () => {
+        const breakfastSlots = mockMealPlanWithRecipes.mealPlanRecipes.filter(
+          (slot) => slot.mealType === MealType.BREAKFAST,
+        );
+        const mealPlan = {
+          ...mockMealPlanWithRecipes,
+          mealPlanRecipes: [
+            ...mockMealPlanWithRecipes.mealPlanRecipes,
+            ...breakfastSlots.map((slot) => ({ ...slot, mealType: MealType.DINNER })),
+          ],
+        };
+        const result = service['transformToDayView'](mealPlan, {
+          filterDate: new Date('2024-03-15'),
+        });
+
+        expect(result.totalMeals).toBe(3);
+        expect(result.meals.breakfast).toHaveLength(1);
+        expect(result.meals.dinner).toHaveLength(1);
+        expect(result.meals.dinner?.[0]?.mealType).toBe(MealType.DINNER);
+      });
+
       it('should use current date when no filter date provided', () => {
         const queryDto = {};
         const result = service['transformToDayView'](mockMealPlanWithRecipes, queryDto);
@@ -1160,6 +3092,27 @@ describe('MealPlansService', () => {
         expect(result.mealPlanId).toBe('123');
         expect(result.days).toHaveLength(7);
         expect(result.weekNumber).toBeGreaterThan(0);
+        expect(result.weekStartDay).toBe(WeekStartDay.MONDAY);
+        expect(result.locale).toBe('en-US');
+        expect(result.days[0]?.dayOfWeek).toBe('Monday');
+      });
+
+      it('should start the current week on the requested day with localized day names', () => {
+        const queryDto = { weekStartDay: WeekStartDay.SUNDAY, locale: 'fr-FR' };
+        const result = service['transformToWeekView'](mockMealPlanWithRecipes, queryDto);
+
+        expect(result.startDate.getUTCDay()).toBe(0);
+        expect(result.weekStartDay).toBe(WeekStartDay.SUNDAY);
+        expect(result.locale).toBe('fr-FR');
+        expect(result.days.map((day) => day.dayOfWeek)).toEqual([
+          'dimanche',
+          'lundi',
+          'mardi',
+          'mercredi',
+          'jeudi',
+          'vendredi',
+          'samedi',
+        ]);
       });
 
       it('should use week start when no filter start date provided', () => {
@@ -1185,6 +3138,21 @@ describe('MealPlansService', () => {
         expect(result.weeks).toBeDefined();
       });
 
+      it('should lay out weeks and name the month with the requested preferences', () => {
+        const queryDto = {
+          filterYear: 2024,
+          filterMonth: 3,
+          weekStartDay: WeekStartDay.SATURDAY,
+          locale: 'de-DE',
+        };
+        const result = service['transformToMonthView'](mockMealPlanWithRecipes, queryDto);
+
+        expect(result.monthName).toBe('März');
+        expect(result.weekStartDay).toBe(WeekStartDay.SATURDAY);
+        expect(result.locale).toBe('de-DE');
+        expect(result.weeks[0]?.startDate.getUTCDay()).toBe(6);
+      });
+
       it('should use current date when no filter provided', () => {
         const queryDto = {};
         const result = service['transformToMonthView'](mockMealPlanWithRecipes, queryDto);
@@ -1197,6 +3165,138 @@ describe('MealPlansService', () => {
     });
   });
 
+  describe('view transformations across server time zones', () => {
+    const mealPlan = {
+      ...mockMealPlan,
+      mealPlanRecipes: [
+        {
+          mealPlanId: BigInt(123),
+          recipeId: BigInt(456),
+          mealDate: new Date('2024-03-31'),
+          mealType: MealType.BREAKFAST,
+          recipe: { recipeId: BigInt(456), title: 'Month End Recipe', userId: 'test-user-id' },
+        },
+        {
+          mealPlanId: BigInt(123),
+          recipeId: BigInt(789),
+          mealDate: new Date('2024-04-01'),
+          mealType: MealType.DINNER,
+          recipe: { recipeId: BigInt(789), title: 'Month Start Recipe', userId: 'test-user-id' },
+        },
+      ],
+    };
+
+    describe.each(['UTC', 'America/Los_Angeles', 'Asia/Tokyo', 'Pacific/Kiritimati'])(
+      'TZ=%s',
+      (timeZone) => {
+        const originalTimeZone = process.env.TZ;
+
+        beforeAll(() => {
+          process.env.TZ = timeZone;
+        });
+
+        afterAll(() => {
+          if (originalTimeZone === undefined) {
+            delete process.env.TZ;
+          } else {
+            process.env.TZ = originalTimeZone;
+          }
+        });
+
+        it('should show the meals of the requested day only', () => {
+          const result = service['transformToDayView'](mealPlan, {
+            filterDate: new Date('2024-03-31'),
+          });
+
+          expect(result.date).toEqual(new Date('2024-03-31'));
+          expect(result.totalMeals).toBe(1);
+          expect(result.meals.breakfast).toHaveLength(1);
+          expect(result.meals.dinner).toHaveLength(0);
+        });
+
+        it('should lay out the week from its start date', () => {
+          const result = service['transformToWeekView'](mealPlan, {
+            filterStartDate: new Date('2024-03-25'),
+          });
+
+          expect(result.startDate).toEqual(new Date('2024-03-25'));
+          expect(result.endDate).toEqual(new Date('2024-03-31'));
+          expect(result.weekNumber).toBe(13);
+          expect(result.days.map((day) => day.dayOfWeek)).toEqual([
+            'Monday',
+            'Tuesday',
+            'Wednesday',
+            'Thursday',
+            'Friday',
+            'Saturday',
+            'Sunday',
+          ]);
+          expect(result.days[6]?.date).toEqual(new Date('2024-03-31'));
+          expect(result.days[6]?.totalMeals).toBe(1);
+          expect(result.totalMeals).toBe(1);
+        });
+
+        it('should keep meals on the last and first day of a month in their own month', () => {
+          const march = service['transformToMonthView'](mealPlan, {
+            filterYear: 2024,
+            filterMonth: 3,
+          });
+          const april = service['transformToMonthView'](mealPlan, {
+            filterYear: 2024,
+            filterMonth: 4,
+          });
+
+          expect(march.monthName).toBe('March');
+          expect(march.totalMeals).toBe(1);
+          expect(april.monthName).toBe('April');
+          expect(april.totalMeals).toBe(1);
+        });
+
+        it('should build month weeks of seven consecutive days', () => {
+          const weeks = service['buildMonthWeeks'](2024, 3, [], WeekStartDay.MONDAY);
+
+          expect(weeks[0]?.startDate).toEqual(new Date('2024-02-26'));
+          expect(weeks[weeks.length - 1]?.endDate).toEqual(new Date('2024-03-31'));
+          for (const week of weeks) {
+            expect(week.days.map((day) => day.date)).toEqual(
+              Array.from({ length: 7 }, (_, index) => DateOnlyUtil.addDays(week.startDate, index)),
+            );
+          }
+        });
+      },
+    );
+
+    describe('today in the plan time zone', () => {
+      afterEach(() => {
+        setSystemTime();
+      });
+
+      it('should default the day view to the current date where the plan is', () => {
+        // 06:00 UTC on March 1 is still February 29 in Los Angeles
+        setSystemTime(new Date('2024-03-01T06:00:00.000Z'));
+
+        const utcResult = service['transformToDayView'](mealPlan, {});
+        const laResult = service['transformToDayView'](
+          { ...mealPlan, timezone: 'America/Los_Angeles' },
+          {},
+        );
+
+        expect(utcResult.date).toEqual(new Date('2024-03-01'));
+        expect(laResult.date).toEqual(new Date('2024-02-29'));
+      });
+
+      it('should default the month view to the current month where the plan is', () => {
+        // 20:00 UTC on March 31 is already April 1 in Tokyo
+        setSystemTime(new Date('2024-03-31T20:00:00.000Z'));
+
+        const result = service['transformToMonthView']({ ...mealPlan, timezone: 'Asia/Tokyo' }, {});
+
+        expect(result.month).toBe(4);
+        expect(result.totalMeals).toBe(1);
+      });
+    });
+  });
+
   describe('validation methods', () => {
     describe('validateViewModeParams', () => {
       it('should validate day view parameters', () => {
@@ -1340,7 +3440,7 @@ describe('MealPlansService', () => {
           mealType: MealType.BREAKFAST,
         },
       ];
-      const result = service['buildMonthWeeks'](2024, 3, recipes);
+      const result = service['buildMonthWeeks'](2024, 3, recipes, WeekStartDay.MONDAY);
 
       expect(result).toBeInstanceOf(Array);
       expect(result.length).toBeGreaterThan(0);
@@ -1349,6 +3449,15 @@ describe('MealPlansService', () => {
       expect(result[0]!.days).toBeDefined();
       expect(result[0]!.days).toHaveLength(7);
     });
+
+    it('should start every week on the requested day', () => {
+      // March 1, 2024 is a Friday, so the first Sunday week starts on February 25
+      const result = service['buildMonthWeeks'](2024, 3, [], WeekStartDay.SUNDAY);
+
+      expect(result[0]!.startDate).toEqual(DateOnlyUtil.fromParts(2024, 2, 25));
+      expect(result.every((week) => week.startDate.getUTCDay() === 0)).toBe(true);
+      expect(result[result.length - 1]!.endDate).toEqual(DateOnlyUtil.fromParts(2024, 4, 6));
+    });
   });
 
   describe('getRecipesForViewMode', () => {
@@ -1417,8 +3526,119 @@ describe('MealPlansService', () => {
     });
   });
 
+  describe('getShoppingList', () => {
+    const userId = 'test-user-id';
+    const mealPlanId = '123';
+
+    const slot = (recipeId: number, mealDate: string, servings: number) => ({
+      mealPlanId: BigInt(123),
+      recipeId: BigInt(recipeId),
+      mealDate: new Date(mealDate),
+      mealType: MealType.DINNER,
+      servings,
+    });
+
+    beforeEach(() => {
+      repository.findById.mockResolvedValue(mockMealPlan);
+    });
+
+    it('should scale ingredients by slot servings and merge them across recipes', async () => {
+      repository.findRecipesForDateRange.mockResolvedValue([
+        slot(456, '2024-03-01', 4),
+        slot(456, '2024-03-03', 2),
+        slot(789, '2024-03-02', 1),
+      ]);
+      // Recipes are fetched in order of their first slot
+      mockRecipeClient.getRecipeIngredients
+        .mockResolvedValueOnce({
+          recipeId: '456',
+          servings: 2,
+          ingredients: [
+            { name: 'Olive oil', quantity: 1, unit: 'tbsp', category: 'Pantry' },
+            { name: 'Garlic', quantity: 2, unit: 'clove', category: 'Produce' },
+          ],
+        } as never)
+        .mockResolvedValueOnce({
+          recipeId: '789',
+          servings: 1,
+          ingredients: [{ name: 'olive oil', quantity: 2, unit: 'tablespoons' }],
+        } as never);
+
+      const result = await service.getShoppingList(mealPlanId, {}, userId);
+
+      expect(repository.findRecipesForDateRange).toHaveBeenCalledWith(
+        BigInt(123),
+        mockMealPlan.startDate,
+        mockMealPlan.endDate,
+      );
+      expect(mockRecipeClient.getRecipeIngredients).toHaveBeenCalledTimes(2);
+      expect(result.mealPlanId).toBe('123');
+      expect(result.startDate).toBe('2024-03-01');
+      expect(result.endDate).toBe('2024-03-07');
+      expect(result.totalItems).toBe(2);
+      expect(result.categories.map((category) => category.category)).toEqual(['Pantry', 'Produce']);
+      expect(result.categories[0]?.items[0]).toEqual({
+        name: 'Olive oil',
+        quantity: 5,
+        unit: 'tbsp',
+        recipeIds: ['456', '789'],
+      });
+      expect(result.categories[1]?.items[0]).toEqual({
+        name: 'Garlic',
+        quantity: 6,
+        unit: 'clove',
+        recipeIds: ['456'],
+      });
+    });
+
+    it('should use the requested date range', async () => {
+      repository.findRecipesForDateRange.mockResolvedValue([]);
+      const startDate = new Date('2024-03-02');
+      const endDate = new Date('2024-03-04');
+
+      const result = await service.getShoppingList(mealPlanId, { startDate, endDate }, userId);
+
+      expect(repository.findRecipesForDateRange).toHaveBeenCalledWith(
+        BigInt(123),
+        startDate,
+        endDate,
+      );
+      expect(mockRecipeClient.getRecipeIngredients).not.toHaveBeenCalled();
+      expect(result.totalItems).toBe(0);
+      expect(result.categories).toEqual([]);
+    });
+
+    it('should throw BadRequestException when the start date is after the end date', async () => {
+      expect(
+        service.getShoppingList(
+          mealPlanId,
+          { startDate: new Date('2024-03-05'), endDate: new Date('2024-03-02') },
+          userId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw BadRequestException when the meal plan has no dates and none are given', async () => {
+      repository.findById.mockResolvedValue({ ...mockMealPlan, startDate: null, endDate: null });
+
+      expect(service.getShoppingList(mealPlanId, {}, userId)).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw ForbiddenException when the user cannot access the meal plan', async () => {
+      repository.findById.mockResolvedValue({ ...mockMealPlan, userId: 'other-user-id' });
+
+      expect(service.getShoppingList(mealPlanId, {}, userId)).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should throw NotFoundException when the meal plan does not exist', async () => {
+      repository.findById.mockResolvedValue(null);
+
+      expect(service.getShoppingList(mealPlanId, {}, userId)).rejects.toThrow(NotFoundException);
+    });
+  });
+
   describe('getTrendingMealPlans', () => {
-    const paginationDto: PaginationDto = {
+    const paginationDto: TrendingMealPlansQueryDto = {
       page: 1,
       limit: 20,
       offset: 0,
@@ -1444,8 +3664,13 @@ describe('MealPlansService', () => {
 
       const result = await service.getTrendingMealPlans(paginationDto);
 
-      expect(repository.countTrendingMealPlans).toHaveBeenCalled();
-      expect(repository.findTrendingMealPlans).toHaveBeenCalledWith(0, 20);
+      expect(mockCacheService.getOrSet).toHaveBeenCalledWith(
+        'meal-plans:trending:{"page":1,"limit":20}',
+        ['meal-plans:trending'],
+        expect.any(Function),
+      );
+      expect(repository.countTrendingMealPlans).toHaveBeenCalledWith(trendingOptions);
+      expect(repository.findTrendingMealPlans).toHaveBeenCalledWith(trendingOptions, 0, 20);
       expect(result.success).toBe(true);
       expect(result.data).toHaveLength(1);
       expect(result.meta).toEqual({
@@ -1501,7 +3726,7 @@ describe('MealPlansService', () => {
 
       const result = await service.getTrendingMealPlans(page2Pagination);
 
-      expect(repository.findTrendingMealPlans).toHaveBeenCalledWith(10, 10);
+      expect(repository.findTrendingMealPlans).toHaveBeenCalledWith(trendingOptions, 10, 10);
       expect(result.meta).toEqual({
         page: 2,
         limit: 10,
@@ -1549,14 +3774,93 @@ describe('MealPlansService', () => {
       expect(result.data).toHaveLength(2);
       expect(mockTagsRepository.findTagsByMealPlanId).toHaveBeenCalledTimes(2);
     });
+
+    it('should return the score and rank of each meal plan', async () => {
+      repository.countTrendingMealPlans.mockResolvedValue(1);
+      repository.findTrendingMealPlans.mockResolvedValue([
+        { ...mockTrendingMealPlan, trendingScore: 12.5, trendingRank: 1 },
+      ]);
+
+      const result = await service.getTrendingMealPlans(paginationDto);
+
+      expect(result.data[0]?.trendingScore).toBe(12.5);
+      expect(result.data[0]?.trendingRank).toBe(1);
+    });
+
+    it('should read the ranking of the requested period', async () => {
+      repository.countTrendingMealPlans.mockResolvedValue(0);
+      repository.findTrendingMealPlans.mockResolvedValue([]);
+
+      await service.getTrendingMealPlans({ page: 1, limit: 20, offset: 0, period: 'week' });
+
+      expect(repository.findTrendingMealPlans).toHaveBeenCalledWith(
+        { trendingWindow: TrendingWindow.WEEK, maxResults: 100 },
+        0,
+        20,
+      );
+    });
+
+    it('should only rank meal plans with the requested tag', async () => {
+      repository.countTrendingMealPlans.mockResolvedValue(0);
+      repository.findTrendingMealPlans.mockResolvedValue([]);
+
+      await service.getTrendingMealPlans({ page: 1, limit: 20, offset: 0, tag: 'Vegan' });
+
+      expect(repository.countTrendingMealPlans).toHaveBeenCalledWith({
+        ...trendingOptions,
+        tag: 'Vegan',
+      });
+      expect(repository.findTrendingMealPlans).toHaveBeenCalledWith(
+        { ...trendingOptions, tag: 'Vegan' },
+        0,
+        20,
+      );
+    });
+  });
+
+  describe('trending engagement', () => {
+    const queryDto: MealPlanByIdQueryDto = { viewMode: 'full', includeRecipes: true };
+    const publicPlan = {
+      ...mockMealPlan,
+      userId: 'owner-user-id',
+      visibility: MealPlanVisibility.PUBLIC,
+    };
+
+    it("should record a view of another user's meal plan", async () => {
+      repository.findById.mockResolvedValue(publicPlan);
+      repository.findByIdWithRecipesFiltered.mockResolvedValue(mockMealPlanWithRecipes);
+
+      await service.findMealPlanById('123', queryDto, 'test-user-id');
+
+      expect(repository.recordView).toHaveBeenCalledWith(BigInt(123), 'test-user-id');
+    });
+
+    it('should not record owners viewing their own meal plan', async () => {
+      repository.findById.mockResolvedValue(mockMealPlan);
+      repository.findByIdWithRecipesFiltered.mockResolvedValue(mockMealPlanWithRecipes);
+
+      await service.findMealPlanById('123', queryDto, 'test-user-id');
+
+      expect(repository.recordView).not.toHaveBeenCalled();
+    });
+
+    it('should not record anonymous views through a share link', async () => {
+      mockShareLinkService.verifyToken.mockReturnValue(BigInt(123) as never);
+      repository.findById.mockResolvedValue(publicPlan);
+      repository.findByIdWithRecipesFiltered.mockResolvedValue(mockMealPlanWithRecipes);
+
+      await service.findSharedMealPlan('signed-token', queryDto);
+
+      expect(repository.recordView).not.toHaveBeenCalled();
+      expect(repository.recordEngagement).not.toHaveBeenCalled();
+    });
   });
 
   describe('error scenarios for findMealPlanById', () => {
     const queryDto: MealPlanByIdQueryDto = { viewMode: 'full', includeRecipes: true };
 
     it('should handle meal plan not found after verification passes', async () => {
-      repository.checkMealPlanExists.mockResolvedValue(true);
-      repository.verifyMealPlanOwnership.mockResolvedValue(true);
+      repository.findById.mockResolvedValue(mockMealPlan);
       repository.findByIdWithRecipesFiltered.mockResolvedValue(null);
 
       expect(service.findMealPlanById('123', queryDto, 'test-user-id')).rejects.toThrow(
@@ -1573,8 +3877,7 @@ describe('MealPlansService', () => {
         uniqueDates: [new Date('2024-03-01'), new Date('2024-03-02'), new Date('2024-03-03')],
       };
 
-      repository.checkMealPlanExists.mockResolvedValue(true);
-      repository.verifyMealPlanOwnership.mockResolvedValue(true);
+      repository.findById.mockResolvedValue(mockMealPlan);
       repository.findByIdWithRecipesFiltered.mockResolvedValue(mockMealPlanWithRecipes);
       repository.getMealPlanStatistics.mockResolvedValue(mockStats);
 
@@ -1584,8 +3887,7 @@ describe('MealPlansService', () => {
     });
 
     it('should handle different view modes in findMealPlanById', async () => {
-      repository.checkMealPlanExists.mockResolvedValue(true);
-      repository.verifyMealPlanOwnership.mockResolvedValue(true);
+      repository.findById.mockResolvedValue(mockMealPlan);
       repository.findByIdWithRecipesFiltered.mockResolvedValue(mockMealPlanWithRecipes);
 
       const dayQuery = {
@@ -1607,8 +3909,6 @@ describe('MealPlansService', () => {
         includeRecipes: false,
       };
 
-      repository.checkMealPlanExists.mockResolvedValue(true);
-      repository.verifyMealPlanOwnership.mockResolvedValue(true);
       repository.findById.mockResolvedValue({
         mealPlanId: BigInt(123),
         userId: 'test-user-id',
@@ -1620,7 +3920,7 @@ describe('MealPlansService', () => {
         updatedAt: new Date(),
         isActive: true,
         isArchived: false,
-      } as any);
+      });
 
       await service.findMealPlanById('123', queryDto, 'test-user-id');
 
@@ -1637,8 +3937,7 @@ describe('MealPlansService', () => {
         filterEndDate: new Date('2024-01-07'),
       };
 
-      repository.checkMealPlanExists.mockResolvedValue(true);
-      repository.verifyMealPlanOwnership.mockResolvedValue(true);
+      repository.findById.mockResolvedValue(mockMealPlan);
       repository.findByIdWithRecipesFiltered.mockResolvedValue(mockMealPlanWithRecipes);
 
       await service.findMealPlanById('123', queryDto, 'test-user-id');
@@ -1659,8 +3958,7 @@ describe('MealPlansService', () => {
         mealType: MealType.LUNCH,
       };
 
-      repository.checkMealPlanExists.mockResolvedValue(true);
-      repository.verifyMealPlanOwnership.mockResolvedValue(true);
+      repository.findById.mockResolvedValue(mockMealPlan);
       repository.findByIdWithRecipesFiltered.mockResolvedValue(mockMealPlanWithRecipes);
 
       await service.findMealPlanById('123', queryDto, 'test-user-id');
@@ -1676,8 +3974,7 @@ describe('MealPlansService', () => {
         includeRecipes: true,
       };
 
-      repository.checkMealPlanExists.mockResolvedValue(true);
-      repository.verifyMealPlanOwnership.mockResolvedValue(true);
+      repository.findById.mockResolvedValue(mockMealPlan);
       repository.findByIdWithRecipesFiltered.mockResolvedValue(mockMealPlanWithRecipes);
 
       await service.findMealPlanById('123', queryDto, 'test-user-id');
@@ -1691,8 +3988,6 @@ describe('MealPlansService', () => {
         includeStatistics: false,
       };
 
-      repository.checkMealPlanExists.mockResolvedValue(true);
-      repository.verifyMealPlanOwnership.mockResolvedValue(true);
       repository.findById.mockResolvedValue({
         mealPlanId: BigInt(123),
         userId: 'test-user-id',
@@ -1704,7 +3999,7 @@ describe('MealPlansService', () => {
         updatedAt: new Date(),
         isActive: true,
         isArchived: false,
-      } as any);
+      });
 
       const result = await service.findMealPlanById('123', queryDto, 'test-user-id');
 
@@ -1717,8 +4012,7 @@ describe('MealPlansService', () => {
         viewMode: 'day',
       };
 
-      repository.checkMealPlanExists.mockResolvedValue(true);
-      repository.verifyMealPlanOwnership.mockResolvedValue(true);
+      repository.findById.mockResolvedValue(mockMealPlan);
 
       expect(service.findMealPlanById('123', queryDto, 'test-user-id')).rejects.toThrow(
         'filterDate is required for day view mode',
@@ -1730,8 +4024,7 @@ describe('MealPlansService', () => {
         viewMode: 'week',
       };
 
-      repository.checkMealPlanExists.mockResolvedValue(true);
-      repository.verifyMealPlanOwnership.mockResolvedValue(true);
+      repository.findById.mockResolvedValue(mockMealPlan);
 
       expect(service.findMealPlanById('123', queryDto, 'test-user-id')).rejects.toThrow(
         'filterStartDate is required for week view mode',
@@ -1743,8 +4036,7 @@ describe('MealPlansService', () => {
         viewMode: 'month',
       };
 
-      repository.checkMealPlanExists.mockResolvedValue(true);
-      repository.verifyMealPlanOwnership.mockResolvedValue(true);
+      repository.findById.mockResolvedValue(mockMealPlan);
 
       expect(service.findMealPlanById('123', queryDto, 'test-user-id')).rejects.toThrow(
         'filterYear and filterMonth are required for month view mode',
@@ -1,23 +1,41 @@
 import {
+  Inject,
   Injectable,
+  OnModuleInit,
   NotFoundException,
   ForbiddenException,
   BadRequestException,
+  ConflictException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { plainToInstance } from 'class-transformer';
 import {
   MealPlansRepository,
   RecipeFilters,
   CreateMealPlanData,
   UpdateMealPlanData,
+  MealPlanRecipeSlotKey,
+  MealPlanRecipeWithRecipe,
+  UpdateMealPlanRecipeSlotData,
+  TrendingOptions,
 } from './meal-plans.repository';
 import { MealPlanTagsRepository } from './meal-plan-tags.repository';
 import { MealPlanValidationService } from './services/meal-plan-validation.service';
+import { MealPlanPermissionService } from './services/meal-plan-permission.service';
+import { MealPlanShareLinkService } from './services/meal-plan-share-link.service';
+import { RecipeClientService } from './services/recipe-client.service';
+import { RecipeIdResolverService } from './services/recipe-id-resolver.service';
+import { RECIPE_NUTRITION_PROVIDER } from './services/recipe-nutrition.provider';
+import { TransactionService } from '@/shared/database/transaction.service';
+import { MetricsService } from '@/modules/metrics/metrics.service';
+import { CacheService } from '@/shared/cache/cache.service';
+import { MealPlanCacheTags } from './meal-plan-cache-tags';
 import {
   MealPlanQueryDto,
-  PaginationDto,
+  CursorPaginationDto,
   MealPlanByIdQueryDto,
   PaginatedMealPlansResponseDto,
+  TrendingMealPlansResponseDto,
   MealPlanQueryResponseDto,
   MealPlanResponseDto,
   DayViewResponseDto,
@@ -26,10 +44,58 @@ import {
   MealPlanStatisticsDto,
   MealTypeBreakdownDto,
   CreateMealPlanDto,
+  CreateMealPlanRecipeDto,
   UpdateMealPlanDto,
+  MealPlanRecipeResponseDto,
+  MealPlanRecipeSlotDto,
+  AddMealPlanRecipeDto,
+  UpdateMealPlanRecipeSlotDto,
+  MealPlanRecipeApiResponseDto,
+  CloneMealPlanDto,
+  ReplaceDayRecipesDto,
+  ShoppingListQueryDto,
+  ShoppingListResponseDto,
+  DayNutritionDto,
+  NutritionSummaryDto,
+  MealPlanNutritionDto,
+  MealPlanRole,
+  MealPlanShareLinkResponseDto,
+  TrendingMealPlansQueryDto,
+  TrendingPeriod,
+  WeekStartDay,
 } from './dto';
-import { MealType } from '@generated/prisma/client';
+import {
+  MealPlan,
+  MealPlanEngagementType,
+  MealPlanStatus,
+  MealPlanVisibility,
+  MealType,
+  TrendingWindow,
+} from '@generated/prisma/client';
 import { RawMealPlanInput } from './types/validation.types';
+import { ShoppingListEntry, ShoppingListUtil } from './utils/shopping-list.util';
+import { NutritionUtil } from './utils/nutrition.util';
+import { RecipeIdUtil } from './utils/recipe-id.util';
+import { CalendarUtil } from './utils/calendar.util';
+import { DateOnlyUtil } from './utils/date-only.util';
+import { CursorUtil } from './utils/cursor.util';
+import type {
+  DayNutritionData,
+  NutritionValues,
+  RecipeNutritionProvider,
+} from './types/nutrition.types';
+
+const DEFAULT_TRENDING_MAX_RESULTS = 100;
+
+const DEFAULT_WEEK_START_DAY = WeekStartDay.MONDAY;
+const DEFAULT_LOCALE = 'en-US';
+const DEFAULT_TIMEZONE = 'UTC';
+
+const TRENDING_PERIOD_WINDOWS: Record<TrendingPeriod, TrendingWindow> = {
+  day: TrendingWindow.DAY,
+  week: TrendingWindow.WEEK,
+  month: TrendingWindow.MONTH,
+};
 
 export interface MealPlanFilters {
   userId?: string;
@@ -57,6 +123,7 @@ export interface MealPlanWithRecipesData {
   description?: string | null;
   startDate: Date | null;
   endDate: Date | null;
+  timezone?: string;
   isActive?: boolean;
   mealPlanRecipes?: MealPlanRecipeData[];
 }
@@ -89,12 +156,36 @@ export interface MealCounts {
 }
 
 @Injectable()
-export class MealPlansService {
+export class MealPlansService implements OnModuleInit {
+  private readonly trendingMaxResults: number;
+  private readonly defaultWeekStartDay: WeekStartDay;
+  private readonly defaultLocale: string;
+
   constructor(
     private readonly repository: MealPlansRepository,
     private readonly validationService: MealPlanValidationService,
+    private readonly permissionService: MealPlanPermissionService,
+    private readonly shareLinkService: MealPlanShareLinkService,
     private readonly tagsRepository: MealPlanTagsRepository,
-  ) {}
+    private readonly transactionService: TransactionService,
+    private readonly recipeClient: RecipeClientService,
+    private readonly recipeIdResolver: RecipeIdResolverService,
+    @Inject(RECIPE_NUTRITION_PROVIDER)
+    private readonly nutritionProvider: RecipeNutritionProvider,
+    private readonly metricsService: MetricsService,
+    private readonly cacheService: CacheService,
+    configService: ConfigService,
+  ) {
+    this.trendingMaxResults =
+      configService.get<number>('trending.maxResults') ?? DEFAULT_TRENDING_MAX_RESULTS;
+    this.defaultWeekStartDay =
+      configService.get<WeekStartDay>('calendar.weekStartDay') ?? DEFAULT_WEEK_START_DAY;
+    this.defaultLocale = configService.get<string>('calendar.defaultLocale') ?? DEFAULT_LOCALE;
+  }
+
+  onModuleInit(): void {
+    this.metricsService.trackActiveMealPlans(() => this.repository.countActiveMealPlans());
+  }
 
   async createMealPlan(
     createMealPlanDto: CreateMealPlanDto,
@@ -113,6 +204,13 @@ export class MealPlansService {
       });
     }
 
+    // Resolve legacy recipe UUIDs and meal dates before anything is written
+    const recipes = createMealPlanDto.recipes ?? [];
+    const mealDates = this.resolveRecipeMealDates(recipes, validationResult.sanitizedData!);
+    const recipeIds = await this.recipeIdResolver.resolveMany(
+      recipes.map((recipe) => recipe.recipeId),
+    );
+
     try {
       // Create the meal plan
       const createData: CreateMealPlanData = {
@@ -120,6 +218,11 @@ export class MealPlansService {
         name: validationResult.sanitizedData!.name,
         startDate: validationResult.sanitizedData!.startDate,
         endDate: validationResult.sanitizedData!.endDate,
+        ...(validationResult.sanitizedData!.isActive && { status: MealPlanStatus.ACTIVE }),
+        ...(createMealPlanDto.visibility && { visibility: createMealPlanDto.visibility }),
+        ...(createMealPlanDto.timezone && { timezone: createMealPlanDto.timezone }),
+        ...(createMealPlanDto.nutritionTargets &&
+          NutritionUtil.toTargetColumns(createMealPlanDto.nutritionTargets)),
       };
 
       // Only add description if it exists
@@ -128,24 +231,17 @@ export class MealPlansService {
       }
 
       const mealPlan = await this.repository.create(createData);
+      this.metricsService.recordMealPlanCreated('new');
 
       // If recipes are provided, add them to the meal plan
-      if (createMealPlanDto.recipes && createMealPlanDto.recipes.length > 0) {
-        for (const recipe of createMealPlanDto.recipes) {
-          // Convert day number to actual date within the meal plan range
-          const mealDate = this.calculateMealDateFromDay(
-            recipe.day,
-            mealPlan.startDate,
-            mealPlan.endDate,
-          );
-
-          await this.repository.addRecipeToMealPlan({
-            mealPlanId: mealPlan.mealPlanId,
-            recipeId: BigInt(recipe.recipeId),
-            mealDate,
-            mealType: recipe.mealType as MealType,
-          });
-        }
+      for (const [index, recipe] of recipes.entries()) {
+        await this.repository.addRecipeToMealPlan({
+          mealPlanId: mealPlan.mealPlanId,
+          recipeId: recipeIds.get(recipe.recipeId)!,
+          mealDate: mealDates[index]!,
+          mealType: recipe.mealType,
+          ...(recipe.servings && { servings: recipe.servings }),
+        });
       }
 
       // If tags are provided, add them to the meal plan
@@ -153,6 +249,7 @@ export class MealPlansService {
         const tags = await this.tagsRepository.findOrCreateTagsByName(createMealPlanDto.tags);
         const tagIds = tags.map((tag) => tag.tagId);
         await this.tagsRepository.addTagsToMealPlan(mealPlan.mealPlanId, tagIds);
+        await this.cacheService.invalidate(MealPlanCacheTags.TAGS);
       }
 
       // Return the created meal plan with recipes and tags if they were added
@@ -188,19 +285,35 @@ export class MealPlansService {
       throw new NotFoundException(`Meal plan with ID ${mealPlanId} not found`);
     }
 
-    // Check if user owns this meal plan
-    if (existingMealPlan.userId !== userId) {
-      throw new ForbiddenException('You do not have permission to update this meal plan');
+    // Owners and editors can update the meal plan
+    await this.permissionService.assertRole(
+      existingMealPlan,
+      userId,
+      MealPlanRole.EDITOR,
+      'update this meal plan',
+    );
+
+    // Only owners decide who else can see the meal plan
+    const visibility: MealPlanVisibility | undefined = updateMealPlanDto.visibility;
+    if (visibility !== undefined && visibility !== existingMealPlan.visibility) {
+      await this.permissionService.assertRole(
+        existingMealPlan,
+        userId,
+        MealPlanRole.OWNER,
+        'change the visibility of this meal plan',
+      );
     }
 
-    // Set context fields for validation
-    updateMealPlanDto.userId = userId;
+    // Set context fields for validation. Date overlaps are checked against the
+    // owner's meal plans, also when a collaborator makes the change.
+    const ownerId = existingMealPlan.userId;
+    updateMealPlanDto.userId = ownerId;
     updateMealPlanDto.id = mealPlanId;
 
     // Validate and sanitize the update data
     const validationResult = await this.validationService.validateUpdateMealPlan(
       updateMealPlanDto as RawMealPlanInput,
-      { userId, currentMealPlanId: mealPlanId },
+      { userId: ownerId, currentMealPlanId: mealPlanId },
     );
 
     if (!validationResult.isValid) {
@@ -210,6 +323,18 @@ export class MealPlansService {
       });
     }
 
+    // Replacement recipes are checked against the updated date range
+    const recipes = updateMealPlanDto.recipes;
+    const mealDates = recipes
+      ? this.resolveRecipeMealDates(recipes, {
+          startDate: validationResult.sanitizedData!.startDate ?? existingMealPlan.startDate,
+          endDate: validationResult.sanitizedData!.endDate ?? existingMealPlan.endDate,
+        })
+      : [];
+    const recipeIds = await this.recipeIdResolver.resolveMany(
+      recipes?.map((recipe) => recipe.recipeId) ?? [],
+    );
+
     try {
       // Build update data with only provided fields
       const updateData: UpdateMealPlanData = {};
@@ -230,6 +355,33 @@ export class MealPlansService {
         updateData.endDate = validationResult.sanitizedData!.endDate;
       }
 
+      if (typeof validationResult.sanitizedData!.isActive === 'boolean') {
+        if (existingMealPlan.status === MealPlanStatus.ARCHIVED) {
+          throw new BadRequestException(
+            'Archived meal plans must be unarchived before they can be activated or deactivated',
+          );
+        }
+        updateData.status = validationResult.sanitizedData!.isActive
+          ? MealPlanStatus.ACTIVE
+          : MealPlanStatus.DRAFT;
+      }
+
+      if (updateMealPlanDto.visibility !== undefined) {
+        updateData.visibility = updateMealPlanDto.visibility;
+      }
+
+      if (updateMealPlanDto.timezone !== undefined) {
+        updateData.timezone = updateMealPlanDto.timezone;
+      }
+
+      // Daily targets are replaced as a whole when provided
+      if (updateMealPlanDto.nutritionTargets !== undefined) {
+        Object.assign(
+          updateData,
+          NutritionUtil.toTargetColumns(updateMealPlanDto.nutritionTargets),
+        );
+      }
+
       // Handle tags update (replace semantics) - do this even if no other fields are updated
       if (updateMealPlanDto.tags !== undefined) {
         if (updateMealPlanDto.tags.length > 0) {
@@ -242,7 +394,23 @@ export class MealPlansService {
         }
       }
 
-      // If no fields to update (excluding tags), just fetch and return the meal plan
+      // Handle recipes update (replace semantics)
+      if (recipes !== undefined) {
+        await this.transactionService.executeTransaction((tx) =>
+          this.repository.replaceRecipes(
+            BigInt(mealPlanId),
+            recipes.map((recipe, index) => ({
+              recipeId: recipeIds.get(recipe.recipeId)!,
+              mealDate: mealDates[index]!,
+              mealType: recipe.mealType,
+              ...(recipe.servings && { servings: recipe.servings }),
+            })),
+            tx,
+          ),
+        );
+      }
+
+      // If no fields to update (excluding tags and recipes), just fetch and return the meal plan
       let mealPlanToReturn;
       if (Object.keys(updateData).length === 0) {
         mealPlanToReturn = existingMealPlan;
@@ -250,6 +418,13 @@ export class MealPlansService {
         // Update the meal plan
         mealPlanToReturn = await this.repository.update(BigInt(mealPlanId), updateData);
       }
+      this.metricsService.recordMealPlanUpdated(
+        updateData.status !== undefined ? 'status' : 'details',
+      );
+      await this.invalidateCachedMealPlan(BigInt(mealPlanId));
+      if (updateMealPlanDto.tags !== undefined) {
+        await this.cacheService.invalidate(MealPlanCacheTags.TAGS);
+      }
 
       // Build response with tags
       const response = plainToInstance(MealPlanResponseDto, mealPlanToReturn, {
@@ -283,14 +458,19 @@ export class MealPlansService {
       throw new NotFoundException(`Meal plan with ID ${mealPlanId} not found`);
     }
 
-    // Check if user owns this meal plan
-    if (existingMealPlan.userId !== userId) {
-      throw new ForbiddenException('You do not have permission to delete this meal plan');
-    }
+    // Only owners can delete the meal plan
+    await this.permissionService.assertRole(
+      existingMealPlan,
+      userId,
+      MealPlanRole.OWNER,
+      'delete this meal plan',
+    );
 
     try {
       // Delete the meal plan (Prisma will handle cascade deletion of recipes)
       await this.repository.delete(BigInt(mealPlanId));
+      this.metricsService.recordMealPlanDeleted();
+      await this.invalidateCachedMealPlan(BigInt(mealPlanId));
     } catch (error) {
       if (error instanceof NotFoundException || error instanceof ForbiddenException) {
         throw error;
@@ -299,26 +479,385 @@ export class MealPlansService {
     }
   }
 
+  /**
+   * Archive a meal plan. Archived plans are left out of the meal plan list
+   * unless includeArchived is requested.
+   */
+  async archiveMealPlan(id: string, userId: string): Promise<MealPlanResponseDto> {
+    const mealPlan = await this.getMealPlanForStatusChange(id, userId);
+    if (mealPlan.status === MealPlanStatus.ARCHIVED) {
+      throw new ConflictException(`Meal plan ${id} is already archived`);
+    }
+
+    const archivedMealPlan = await this.repository.update(mealPlan.mealPlanId, {
+      status: MealPlanStatus.ARCHIVED,
+      archivedAt: new Date(),
+    });
+    this.metricsService.recordMealPlanUpdated('status');
+    await this.invalidateCachedMealPlan(mealPlan.mealPlanId);
+
+    return this.toMealPlanResponseWithTags(archivedMealPlan);
+  }
+
+  /**
+   * Restore an archived meal plan. The plan comes back as active.
+   */
+  async unarchiveMealPlan(id: string, userId: string): Promise<MealPlanResponseDto> {
+    const mealPlan = await this.getMealPlanForStatusChange(id, userId);
+    if (mealPlan.status !== MealPlanStatus.ARCHIVED) {
+      throw new ConflictException(`Meal plan ${id} is not archived`);
+    }
+
+    const restoredMealPlan = await this.repository.update(mealPlan.mealPlanId, {
+      status: MealPlanStatus.ACTIVE,
+      archivedAt: null,
+    });
+    this.metricsService.recordMealPlanUpdated('status');
+    await this.invalidateCachedMealPlan(mealPlan.mealPlanId);
+
+    return this.toMealPlanResponseWithTags(restoredMealPlan);
+  }
+
+  /**
+   * Add a single recipe to an existing meal plan
+   */
+  async addRecipeToMealPlan(
+    mealPlanId: string,
+    slotDto: AddMealPlanRecipeDto,
+    userId: string,
+  ): Promise<MealPlanRecipeApiResponseDto> {
+    const mealPlan = await this.getEditableMealPlan(mealPlanId, userId);
+    const key = await this.buildRecipeSlotKey(mealPlan.mealPlanId, slotDto);
+
+    const recipeExists = await this.repository.recipeExists(key.recipeId);
+    if (!recipeExists) {
+      throw new NotFoundException(`Recipe with ID ${slotDto.recipeId} not found`);
+    }
+
+    this.validateMealDateWithinPlan(mealPlan, key.mealDate);
+
+    const alreadyScheduled = await this.repository.recipeExistsInMealPlan(
+      key.mealPlanId,
+      key.recipeId,
+      key.mealDate,
+      key.mealType,
+    );
+    if (alreadyScheduled) {
+      this.handleRecipeSlotConflict(mealPlanId, key);
+    }
+
+    await this.repository.addRecipeToMealPlan({
+      ...key,
+      ...(slotDto.servings && { servings: slotDto.servings }),
+    });
+    await this.repository.recordEngagement(
+      key.mealPlanId,
+      MealPlanEngagementType.RECIPE_ADDED,
+      userId,
+    );
+    this.metricsService.recordMealPlanUpdated('recipes');
+    await this.invalidateCachedMealPlan(key.mealPlanId);
+    const slot = await this.repository.findRecipeSlot(key);
+
+    return plainToInstance(
+      MealPlanRecipeApiResponseDto,
+      {
+        success: true,
+        data: this.toMealPlanRecipeResponse(slot!),
+        message: 'Recipe added to meal plan successfully',
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  /**
+   * Move an existing recipe slot to a new date and/or meal type
+   */
+  async updateMealPlanRecipe(
+    mealPlanId: string,
+    updateDto: UpdateMealPlanRecipeSlotDto,
+    userId: string,
+  ): Promise<MealPlanRecipeApiResponseDto> {
+    const mealPlan = await this.getEditableMealPlan(mealPlanId, userId);
+    const key = await this.buildRecipeSlotKey(mealPlan.mealPlanId, updateDto);
+
+    const existingSlot = await this.repository.findRecipeSlot(key);
+    if (!existingSlot) {
+      this.handleRecipeSlotNotFound(mealPlanId, updateDto);
+    }
+
+    const updateData: UpdateMealPlanRecipeSlotData = {};
+
+    if (updateDto.newMealDate && updateDto.newMealDate.getTime() !== key.mealDate.getTime()) {
+      this.validateMealDateWithinPlan(mealPlan, updateDto.newMealDate);
+      updateData.mealDate = updateDto.newMealDate;
+    }
+
+    if (updateDto.newMealType && updateDto.newMealType !== updateDto.mealType) {
+      updateData.mealType = updateDto.newMealType;
+    }
+
+    // Moving the slot must not collide with another slot of the same recipe
+    if (updateData.mealDate || updateData.mealType) {
+      const targetKey: MealPlanRecipeSlotKey = {
+        ...key,
+        mealDate: updateData.mealDate ?? key.mealDate,
+        mealType: updateData.mealType ?? key.mealType,
+      };
+      const alreadyScheduled = await this.repository.recipeExistsInMealPlan(
+        targetKey.mealPlanId,
+        targetKey.recipeId,
+        targetKey.mealDate,
+        targetKey.mealType,
+      );
+      if (alreadyScheduled) {
+        this.handleRecipeSlotConflict(mealPlanId, targetKey);
+      }
+    }
+
+    if (updateDto.newServings && updateDto.newServings !== existingSlot.servings) {
+      updateData.servings = updateDto.newServings;
+    }
+
+    let slot = existingSlot;
+    if (Object.keys(updateData).length > 0) {
+      slot = await this.repository.updateRecipeSlot(key, updateData);
+      this.metricsService.recordMealPlanUpdated('recipes');
+      await this.invalidateCachedMealPlan(key.mealPlanId);
+    }
+
+    return plainToInstance(
+      MealPlanRecipeApiResponseDto,
+      {
+        success: true,
+        data: this.toMealPlanRecipeResponse(slot),
+        message: 'Meal plan recipe updated successfully',
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  /**
+   * Remove a single recipe slot from a meal plan
+   */
+  async removeRecipeFromMealPlan(
+    mealPlanId: string,
+    slotDto: MealPlanRecipeSlotDto,
+    userId: string,
+  ): Promise<void> {
+    const mealPlan = await this.getEditableMealPlan(mealPlanId, userId);
+    const key = await this.buildRecipeSlotKey(mealPlan.mealPlanId, slotDto);
+
+    const existingSlot = await this.repository.findRecipeSlot(key);
+    if (!existingSlot) {
+      this.handleRecipeSlotNotFound(mealPlanId, slotDto);
+    }
+
+    await this.repository.removeRecipeFromMealPlan(
+      key.mealPlanId,
+      key.recipeId,
+      key.mealDate,
+      key.mealType,
+    );
+    this.metricsService.recordMealPlanUpdated('recipes');
+    await this.invalidateCachedMealPlan(key.mealPlanId);
+  }
+
+  /**
+   * Replace the recipes scheduled on a single day of a meal plan, optionally
+   * scoped to one meal type. The swap runs in a single transaction.
+   */
+  async replaceDayRecipes(
+    id: string,
+    date: string,
+    replaceDto: ReplaceDayRecipesDto,
+    userId: string,
+  ): Promise<DayViewResponseDto> {
+    const mealPlan = await this.getEditableMealPlan(id, userId);
+    const mealDate = this.parseMealDate(date);
+    this.validateMealDateWithinPlan(mealPlan, mealDate);
+
+    const recipeIds = await this.recipeIdResolver.resolveMany(
+      replaceDto.recipes.map((recipe) => recipe.recipeId),
+    );
+    const slotKeys = replaceDto.recipes.map(
+      (recipe) => `${recipeIds.get(recipe.recipeId)}:${recipe.mealType}`,
+    );
+    const duplicate = replaceDto.recipes.find(
+      (_recipe, index) => slotKeys.indexOf(slotKeys[index] as string) !== index,
+    );
+    if (duplicate) {
+      throw new BadRequestException(
+        `Recipe ${duplicate.recipeId} can only be scheduled once for ${duplicate.mealType} on ${this.formatDate(mealDate)}`,
+      );
+    }
+
+    if (replaceDto.mealType) {
+      const outOfScope = replaceDto.recipes.find(
+        (recipe) => recipe.mealType !== replaceDto.mealType,
+      );
+      if (outOfScope) {
+        throw new BadRequestException(
+          `Recipe ${outOfScope.recipeId} must use meal type ${replaceDto.mealType} when only ${replaceDto.mealType} is being replaced`,
+        );
+      }
+    }
+
+    for (const [recipeId, resolvedId] of recipeIds) {
+      const recipeExists = await this.repository.recipeExists(resolvedId);
+      if (!recipeExists) {
+        throw new NotFoundException(`Recipe with ID ${recipeId} not found`);
+      }
+    }
+
+    await this.transactionService.executeTransaction((tx) =>
+      this.repository.replaceRecipesForDate(
+        mealPlan.mealPlanId,
+        mealDate,
+        replaceDto.recipes.map((recipe) => ({
+          recipeId: recipeIds.get(recipe.recipeId)!,
+          mealType: recipe.mealType,
+          ...(recipe.servings && { servings: recipe.servings }),
+        })),
+        replaceDto.mealType,
+        tx,
+      ),
+    );
+    this.metricsService.recordMealPlanUpdated('recipes');
+    await this.invalidateCachedMealPlan(mealPlan.mealPlanId);
+
+    const updatedMealPlan = await this.repository.findByIdWithRecipesFiltered(mealPlan.mealPlanId, {
+      dateRange: { startDate: mealDate, endDate: mealDate },
+    });
+    if (!updatedMealPlan) {
+      this.handleMealPlanNotFound(id);
+    }
+
+    return this.transformToDayView(updatedMealPlan, { filterDate: mealDate });
+  }
+
+  /**
+   * Clone a meal plan into the user's account, shifting all recipe dates so the
+   * copy starts on the requested date. Users may clone any meal plan they can
+   * see: their own, those shared with them and public ones.
+   */
+  async cloneMealPlan(
+    id: string,
+    cloneDto: CloneMealPlanDto,
+    userId: string,
+  ): Promise<MealPlanResponseDto> {
+    const sourceMealPlanId = this.parseMealPlanId(id);
+    const sourceMealPlan = await this.repository.findById(sourceMealPlanId);
+    if (!sourceMealPlan) {
+      this.handleMealPlanNotFound(id);
+    }
+
+    const canView = await this.permissionService.canView(sourceMealPlan, userId);
+    if (!canView) {
+      throw new ForbiddenException('You do not have permission to clone this meal plan');
+    }
+
+    if (!sourceMealPlan.startDate || !sourceMealPlan.endDate) {
+      throw new BadRequestException('Cannot clone a meal plan without a start and end date');
+    }
+
+    const dayOffset = DateOnlyUtil.diffInDays(sourceMealPlan.startDate, cloneDto.startDate);
+    const endDate = DateOnlyUtil.addDays(sourceMealPlan.endDate, dayOffset);
+
+    // Validate and sanitize the new plan data (includes the date overlap check)
+    const validationResult = await this.validationService.validateCreateMealPlan(
+      {
+        name: cloneDto.name,
+        description: cloneDto.description ?? sourceMealPlan.description ?? undefined,
+        startDate: cloneDto.startDate,
+        endDate,
+      },
+      { userId },
+    );
+
+    if (!validationResult.isValid) {
+      throw new BadRequestException({
+        message: 'Validation failed',
+        errors: validationResult.errors,
+      });
+    }
+
+    const targetData: CreateMealPlanData = {
+      userId,
+      name: validationResult.sanitizedData!.name,
+      startDate: validationResult.sanitizedData!.startDate,
+      endDate: validationResult.sanitizedData!.endDate,
+      timezone: sourceMealPlan.timezone,
+    };
+
+    if (validationResult.sanitizedData!.description) {
+      targetData.description = validationResult.sanitizedData!.description;
+    }
+
+    const clonedMealPlan = await this.transactionService.executeTransaction((tx) =>
+      this.repository.cloneMealPlan(sourceMealPlanId, targetData, dayOffset, tx),
+    );
+    this.metricsService.recordMealPlanCreated('clone');
+
+    // Owners copying their own meal plans do not make them trend
+    if (sourceMealPlan.userId !== userId) {
+      await this.repository.recordEngagement(
+        sourceMealPlanId,
+        MealPlanEngagementType.CLONE,
+        userId,
+      );
+    }
+
+    const tagsData = await this.tagsRepository.findTagsByMealPlanId(clonedMealPlan.mealPlanId);
+    const response = plainToInstance(MealPlanResponseDto, clonedMealPlan, {
+      excludeExtraneousValues: true,
+    });
+    response.tags = tagsData.map((tag) => ({
+      tagId: tag.tagId.toString(),
+      name: tag.name,
+    }));
+
+    return response;
+  }
+
   async findMealPlans(
     queryDto: MealPlanQueryDto,
-    paginationDto: PaginationDto,
+    paginationDto: CursorPaginationDto,
     userId: string,
   ): Promise<PaginatedMealPlansResponseDto> {
     // Build filters from query DTO
     const filters = this.buildMealPlanFilters(queryDto, userId);
     const sorting = this.buildMealPlanSorting(queryDto);
+    const limit = paginationDto.limit!;
 
-    // Get total count for pagination
-    const total = await this.repository.countMealPlans(filters);
+    const cursor = paginationDto.cursor
+      ? CursorUtil.decode(paginationDto.cursor, sorting.sortBy, sorting.sortOrder)
+      : null;
+    if (paginationDto.cursor && !cursor) {
+      throw new BadRequestException('Invalid pagination cursor for this sort order');
+    }
 
-    // Get paginated results
-    const mealPlans = await this.repository.findManyWithFilters(filters, sorting, {
-      skip: paginationDto.offset,
-      take: paginationDto.limit!,
-    });
+    // Fetch one extra row to tell whether there is another page; counting is optional
+    const [mealPlans, total] = await Promise.all([
+      this.repository.findManyWithFilters(filters, sorting, {
+        skip: paginationDto.offset,
+        take: limit + 1,
+        ...(cursor && { cursor }),
+      }),
+      paginationDto.includeTotal === false ? undefined : this.repository.countMealPlans(filters),
+    ]);
+
+    const page = CursorUtil.toPage(
+      mealPlans,
+      limit,
+      cursor,
+      sorting,
+      (mealPlan) => ({ key: mealPlan[sorting.sortBy], id: mealPlan.mealPlanId }),
+      paginationDto.page! > 1,
+    );
 
     // Transform to response DTOs
-    const mealPlanDtos = mealPlans.map((mealPlan) =>
+    const mealPlanDtos = page.items.map((mealPlan) =>
       plainToInstance(MealPlanResponseDto, mealPlan, {
         excludeExtraneousValues: true,
       }),
@@ -328,14 +867,11 @@ export class MealPlansService {
     return {
       success: true,
       data: mealPlanDtos,
-      meta: {
-        page: paginationDto.page!,
-        limit: paginationDto.limit!,
+      meta: CursorUtil.toMeta(page, {
+        limit,
+        page: cursor ? undefined : paginationDto.page,
         total,
-        totalPages: Math.ceil(total / paginationDto.limit!),
-        hasNext: paginationDto.page! < Math.ceil(total / paginationDto.limit!),
-        hasPrevious: paginationDto.page! > 1,
-      },
+      }),
     };
   }
 
@@ -343,15 +879,119 @@ export class MealPlansService {
     id: string,
     queryDto: MealPlanByIdQueryDto,
     userId: string,
+    acceptLanguage?: string,
   ): Promise<MealPlanQueryResponseDto> {
     // Validate input parameters
     this.validateViewModeParams(queryDto);
+    const resolvedQueryDto = this.resolveCalendarPreferences(queryDto, acceptLanguage);
 
     const mealPlanId = this.parseMealPlanId(id);
 
     // Verify meal plan exists and user has access
-    await this.verifyMealPlanAccess(mealPlanId, userId);
+    const mealPlan = await this.verifyMealPlanAccess(mealPlanId, userId);
+
+    // Owners looking at their own meal plans do not make them trend
+    if (mealPlan.userId !== userId) {
+      await this.repository.recordView(mealPlanId, userId);
+    }
+
+    return this.getCachedMealPlanQueryResponse(mealPlanId, resolvedQueryDto);
+  }
+
+  /**
+   * Create a signed link that lets anyone view an unlisted or public meal plan
+   */
+  async createShareLink(id: string, userId: string): Promise<MealPlanShareLinkResponseDto> {
+    const mealPlanId = this.parseMealPlanId(id);
+    const mealPlan = await this.repository.findById(mealPlanId);
+    if (!mealPlan) {
+      this.handleMealPlanNotFound(id);
+    }
+
+    await this.permissionService.assertRole(
+      mealPlan,
+      userId,
+      MealPlanRole.OWNER,
+      'share this meal plan',
+    );
 
+    if (mealPlan.visibility === MealPlanVisibility.PRIVATE) {
+      throw new BadRequestException(
+        'Private meal plans cannot be shared. Change the visibility to unlisted or public first.',
+      );
+    }
+
+    return this.shareLinkService.createShareLink(mealPlanId);
+  }
+
+  /**
+   * Get a meal plan through a share link. Links stop working once they expire
+   * or the meal plan is made private again. Anonymous views through a link do
+   * not count towards trending.
+   */
+  async findSharedMealPlan(
+    token: string,
+    queryDto: MealPlanByIdQueryDto,
+    acceptLanguage?: string,
+  ): Promise<MealPlanQueryResponseDto> {
+    this.validateViewModeParams(queryDto);
+    const resolvedQueryDto = this.resolveCalendarPreferences(queryDto, acceptLanguage);
+
+    const mealPlanId = this.shareLinkService.verifyToken(token);
+    const mealPlan = mealPlanId !== null ? await this.repository.findById(mealPlanId) : null;
+    if (!mealPlan || mealPlan.visibility === MealPlanVisibility.PRIVATE) {
+      throw new NotFoundException('Shared meal plan not found');
+    }
+
+    return this.getCachedMealPlanQueryResponse(mealPlan.mealPlanId, resolvedQueryDto);
+  }
+
+  /**
+   * Fill in the week start day and locale of week and month views so that
+   * they are part of the cache key. The query parameters win over the
+   * Accept-Language header, which wins over the configured defaults.
+   */
+  private resolveCalendarPreferences(
+    queryDto: MealPlanByIdQueryDto,
+    acceptLanguage?: string,
+  ): MealPlanByIdQueryDto {
+    if (queryDto.locale !== undefined && !CalendarUtil.isSupportedLocale(queryDto.locale)) {
+      throw new BadRequestException(`Locale ${queryDto.locale} is not supported`);
+    }
+
+    if (queryDto.viewMode !== 'week' && queryDto.viewMode !== 'month') {
+      return queryDto;
+    }
+
+    const requestedLocale =
+      queryDto.locale !== undefined ? Intl.getCanonicalLocales(queryDto.locale)[0] : undefined;
+
+    return {
+      ...queryDto,
+      weekStartDay: queryDto.weekStartDay ?? this.defaultWeekStartDay,
+      locale: requestedLocale ?? CalendarUtil.negotiateLocale(acceptLanguage) ?? this.defaultLocale,
+    };
+  }
+
+  /**
+   * Build the response of a meal plan view through the cache. Responses do
+   * not depend on the user, so access must be checked before calling this.
+   */
+  private getCachedMealPlanQueryResponse(
+    mealPlanId: bigint,
+    queryDto: MealPlanByIdQueryDto,
+  ): Promise<MealPlanQueryResponseDto> {
+    return this.cacheService.getOrSet(
+      `meal-plans:by-id:${mealPlanId.toString()}:${JSON.stringify(queryDto)}`,
+      [MealPlanCacheTags.mealPlan(mealPlanId)],
+      () => this.buildMealPlanQueryResponse(mealPlanId, queryDto),
+    );
+  }
+
+  private async buildMealPlanQueryResponse(
+    mealPlanId: bigint,
+    queryDto: MealPlanByIdQueryDto,
+  ): Promise<MealPlanQueryResponseDto> {
     // Get meal plan with recipes if needed
     const mealPlan = queryDto.includeRecipes
       ? await this.repository.findByIdWithRecipesFiltered(
@@ -368,7 +1008,7 @@ export class MealPlansService {
       : await this.repository.findById(mealPlanId);
 
     if (!mealPlan) {
-      this.handleMealPlanNotFound(id);
+      this.handleMealPlanNotFound(mealPlanId.toString());
     }
 
     // Transform based on view mode
@@ -412,24 +1052,125 @@ export class MealPlansService {
       response.statistics = await this.calculateStatistics(mealPlanId);
     }
 
+    if (queryDto.includeNutrition) {
+      await this.addNutritionToResponse(mealPlan, response);
+    }
+
     return response;
   }
 
   /**
-   * Get trending meal plans based on time-decayed engagement score.
-   * Returns at most 100 trending meal plans, paginated by the client.
+   * Build a shopping list for the recipes scheduled in a meal plan. Ingredients
+   * are loaded from the recipe service, scaled to the servings of each slot and
+   * merged across recipes before being grouped by aisle or category.
+   */
+  async getShoppingList(
+    id: string,
+    queryDto: ShoppingListQueryDto,
+    userId: string,
+  ): Promise<ShoppingListResponseDto> {
+    const mealPlanId = this.parseMealPlanId(id);
+    await this.verifyMealPlanAccess(mealPlanId, userId);
+
+    const mealPlan = await this.repository.findById(mealPlanId);
+    if (!mealPlan) {
+      this.handleMealPlanNotFound(id);
+    }
+
+    const startDate = queryDto.startDate ?? mealPlan.startDate;
+    const endDate = queryDto.endDate ?? mealPlan.endDate;
+    if (!startDate || !endDate) {
+      throw new BadRequestException(
+        'startDate and endDate are required when the meal plan has no date range',
+      );
+    }
+    this.validateDateRanges(startDate, endDate);
+
+    const slots = await this.repository.findRecipesForDateRange(mealPlanId, startDate, endDate);
+
+    // Each recipe is fetched once, no matter how many slots it fills
+    const uniqueRecipeIds = [...new Set(slots.map((slot) => slot.recipeId))];
+    const recipes = await Promise.all(
+      uniqueRecipeIds.map((recipeId) => this.recipeClient.getRecipeIngredients(recipeId)),
+    );
+    const recipesById = new Map(recipes.map((recipe) => [recipe.recipeId, recipe]));
+
+    const entries: ShoppingListEntry[] = slots.flatMap((slot) => {
+      const recipe = recipesById.get(slot.recipeId.toString());
+      if (!recipe) {
+        return [];
+      }
+
+      const scale = slot.servings / recipe.servings;
+      return recipe.ingredients.map((ingredient) => ({
+        recipeId: recipe.recipeId,
+        name: ingredient.name,
+        quantity: typeof ingredient.quantity === 'number' ? ingredient.quantity * scale : null,
+        unit: ingredient.unit ?? null,
+        category: ingredient.category ?? null,
+      }));
+    });
+
+    const categories = ShoppingListUtil.aggregate(entries);
+
+    return plainToInstance(
+      ShoppingListResponseDto,
+      {
+        mealPlanId: id,
+        startDate: this.formatDate(startDate),
+        endDate: this.formatDate(endDate),
+        totalItems: categories.reduce((total, category) => total + category.items.length, 0),
+        categories,
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  /**
+   * Get trending meal plans from the precomputed ranking, which the trending
+   * refresh rebuilds from time-decayed engagement scores. Without a period the
+   * ranking over the configured window is used.
    *
-   * @param paginationDto Pagination parameters (page, limit)
-   * @returns Paginated list of trending meal plans
+   * @param queryDto Pagination parameters plus optional tag and period filters
+   * @returns Paginated list of trending meal plans with their score and rank
    */
-  async getTrendingMealPlans(paginationDto: PaginationDto): Promise<PaginatedMealPlansResponseDto> {
-    // Get total count (capped at 100)
-    const total = await this.repository.countTrendingMealPlans();
+  async getTrendingMealPlans(
+    queryDto: TrendingMealPlansQueryDto,
+  ): Promise<TrendingMealPlansResponseDto> {
+    const cacheKey = JSON.stringify({
+      page: queryDto.page,
+      limit: queryDto.limit,
+      tag: queryDto.tag?.toLowerCase(),
+      period: queryDto.period,
+    });
+
+    return this.cacheService.getOrSet(
+      `meal-plans:trending:${cacheKey}`,
+      [MealPlanCacheTags.TRENDING],
+      () => this.loadTrendingMealPlans(queryDto),
+    );
+  }
+
+  private async loadTrendingMealPlans(
+    queryDto: TrendingMealPlansQueryDto,
+  ): Promise<TrendingMealPlansResponseDto> {
+    const options: TrendingOptions = {
+      trendingWindow:
+        queryDto.period !== undefined
+          ? TRENDING_PERIOD_WINDOWS[queryDto.period]
+          : TrendingWindow.CONFIGURED,
+      maxResults: this.trendingMaxResults,
+    };
+    if (queryDto.tag) options.tag = queryDto.tag;
+
+    // Get total count (capped at maxResults)
+    const total = await this.repository.countTrendingMealPlans(options);
 
     // Get paginated trending meal plans
     const mealPlans = await this.repository.findTrendingMealPlans(
-      paginationDto.offset,
-      paginationDto.limit!,
+      options,
+      queryDto.offset,
+      queryDto.limit!,
     );
 
     // Fetch tags for each meal plan
@@ -451,18 +1192,18 @@ export class MealPlansService {
     );
 
     // Calculate pagination metadata with capped total
-    const totalPages = Math.ceil(total / paginationDto.limit!);
+    const totalPages = Math.ceil(total / queryDto.limit!);
 
     return {
       success: true,
       data: mealPlanDtos,
       meta: {
-        page: paginationDto.page!,
-        limit: paginationDto.limit!,
+        page: queryDto.page!,
+        limit: queryDto.limit!,
         total,
         totalPages,
-        hasNext: paginationDto.page! < totalPages,
-        hasPrevious: paginationDto.page! > 1,
+        hasNext: queryDto.page! < totalPages,
+        hasPrevious: queryDto.page! > 1,
       },
     };
   }
@@ -502,6 +1243,14 @@ export class MealPlansService {
     }
   }
 
+  private parseMealDate(date: string): Date {
+    const mealDate = DateOnlyUtil.parse(date);
+    if (!mealDate) {
+      throw new BadRequestException(`Invalid date: ${date}. Expected format YYYY-MM-DD`);
+    }
+    return mealDate;
+  }
+
   private getDateRangeFromQuery(
     queryDto: MealPlanByIdQueryDto,
   ): { startDate?: Date; endDate?: Date } | undefined {
@@ -520,8 +1269,8 @@ export class MealPlansService {
     }
 
     if (queryDto.filterYear && queryDto.filterMonth) {
-      const startDate = new Date(queryDto.filterYear, queryDto.filterMonth - 1, 1);
-      const endDate = new Date(queryDto.filterYear, queryDto.filterMonth, 0);
+      const startDate = DateOnlyUtil.fromParts(queryDto.filterYear, queryDto.filterMonth, 1);
+      const endDate = DateOnlyUtil.lastDayOfMonth(queryDto.filterYear, queryDto.filterMonth);
       return { startDate, endDate };
     }
 
@@ -538,14 +1287,15 @@ export class MealPlansService {
     mealPlan: MealPlanWithRecipesData,
     queryDto: MealPlanByIdQueryDto,
   ): DayViewResponseDto {
-    const targetDate = queryDto.filterDate ?? new Date();
+    const targetDate = queryDto.filterDate
+      ? DateOnlyUtil.toDateOnly(queryDto.filterDate)
+      : this.getToday(mealPlan);
 
     // Filter recipes for the specific day
     const dayRecipes =
-      mealPlan.mealPlanRecipes?.filter((recipe: MealPlanRecipeData) => {
-        const recipeDate = new Date(recipe.mealDate);
-        return this.isSameDay(recipeDate, targetDate);
-      }) ?? [];
+      mealPlan.mealPlanRecipes?.filter((recipe: MealPlanRecipeData) =>
+        DateOnlyUtil.isSameDay(recipe.mealDate, targetDate),
+      ) ?? [];
 
     // Group by meal type
     const meals = this.groupRecipesByMealType(dayRecipes);
@@ -567,14 +1317,17 @@ export class MealPlansService {
     mealPlan: MealPlanWithRecipesData,
     queryDto: MealPlanByIdQueryDto,
   ): WeekViewResponseDto {
-    const startDate = queryDto.filterStartDate ?? this.getWeekStart(new Date());
-    const endDate = new Date(startDate);
-    endDate.setDate(startDate.getDate() + 6);
+    const weekStartDay = queryDto.weekStartDay ?? this.defaultWeekStartDay;
+    const locale = queryDto.locale ?? this.defaultLocale;
+    const startDate = queryDto.filterStartDate
+      ? DateOnlyUtil.toDateOnly(queryDto.filterStartDate)
+      : CalendarUtil.getWeekStart(this.getToday(mealPlan), weekStartDay);
+    const endDate = DateOnlyUtil.addDays(startDate, 6);
 
     // Filter recipes for the week
     const weekRecipes =
       mealPlan.mealPlanRecipes?.filter((recipe: MealPlanRecipeData) => {
-        const recipeDate = new Date(recipe.mealDate);
+        const recipeDate = DateOnlyUtil.toDateOnly(recipe.mealDate);
         return recipeDate >= startDate && recipeDate <= endDate;
       }) ?? [];
 
@@ -583,17 +1336,15 @@ export class MealPlansService {
     let totalMeals = 0;
 
     for (let i = 0; i < 7; i++) {
-      const currentDate = new Date(startDate);
-      currentDate.setDate(startDate.getDate() + i);
+      const currentDate = DateOnlyUtil.addDays(startDate, i);
 
-      const dayRecipes = weekRecipes.filter((recipe: MealPlanRecipeData) => {
-        const recipeDate = new Date(recipe.mealDate);
-        return this.isSameDay(recipeDate, currentDate);
-      });
+      const dayRecipes = weekRecipes.filter((recipe: MealPlanRecipeData) =>
+        DateOnlyUtil.isSameDay(recipe.mealDate, currentDate),
+      );
 
       days.push({
         date: currentDate,
-        dayOfWeek: this.getDayOfWeekName(currentDate),
+        dayOfWeek: CalendarUtil.getDayOfWeekName(currentDate, locale),
         meals: this.groupRecipesByMealType(dayRecipes),
         totalMeals: dayRecipes.length,
       });
@@ -608,7 +1359,9 @@ export class MealPlansService {
         mealPlanName: mealPlan.name,
         startDate,
         endDate,
-        weekNumber: this.getWeekNumber(startDate),
+        weekNumber: this.getDisplayedWeekNumber(startDate),
+        weekStartDay,
+        locale,
         days,
         totalMeals,
       },
@@ -620,21 +1373,24 @@ export class MealPlansService {
     mealPlan: MealPlanWithRecipesData,
     queryDto: MealPlanByIdQueryDto,
   ): MonthViewResponseDto {
-    const year = queryDto.filterYear ?? new Date().getFullYear();
-    const month = queryDto.filterMonth ?? new Date().getMonth() + 1;
+    const today = this.getToday(mealPlan);
+    const year = queryDto.filterYear ?? today.getUTCFullYear();
+    const month = queryDto.filterMonth ?? today.getUTCMonth() + 1;
+    const weekStartDay = queryDto.weekStartDay ?? this.defaultWeekStartDay;
+    const locale = queryDto.locale ?? this.defaultLocale;
 
-    const monthStart = new Date(year, month - 1, 1);
-    const monthEnd = new Date(year, month, 0);
+    const monthStart = DateOnlyUtil.fromParts(year, month, 1);
+    const monthEnd = DateOnlyUtil.lastDayOfMonth(year, month);
 
     // Filter recipes for the month
     const monthRecipes =
       mealPlan.mealPlanRecipes?.filter((recipe: MealPlanRecipeData) => {
-        const recipeDate = new Date(recipe.mealDate);
+        const recipeDate = DateOnlyUtil.toDateOnly(recipe.mealDate);
         return recipeDate >= monthStart && recipeDate <= monthEnd;
       }) ?? [];
 
     // Build month structure (simplified for now)
-    const weeks = this.buildMonthWeeks(year, month, monthRecipes);
+    const weeks = this.buildMonthWeeks(year, month, monthRecipes, weekStartDay);
     const totalMeals = monthRecipes.length;
 
     return plainToInstance(
@@ -644,7 +1400,9 @@ export class MealPlansService {
         mealPlanName: mealPlan.name,
         year,
         month,
-        monthName: this.getMonthName(month),
+        monthName: CalendarUtil.getMonthName(month, locale),
+        weekStartDay,
+        locale,
         weeks,
         totalMeals,
       },
@@ -656,14 +1414,16 @@ export class MealPlansService {
     const stats = await this.repository.getMealPlanStatistics(mealPlanId);
 
     // Calculate start and end dates from unique dates
-    const startDate = stats.uniqueDates.length > 0 ? stats.uniqueDates[0] : new Date();
+    const today = DateOnlyUtil.today(DEFAULT_TIMEZONE);
+    const startDate = stats.uniqueDates.length > 0 ? stats.uniqueDates[0] : today;
     const endDate =
-      stats.uniqueDates.length > 0 ? stats.uniqueDates[stats.uniqueDates.length - 1] : new Date();
+      stats.uniqueDates.length > 0 ? stats.uniqueDates[stats.uniqueDates.length - 1] : today;
 
     if (stats.totalRecipes === 0) {
       return plainToInstance(MealPlanStatisticsDto, {
         averageRecipesPerDay: 0,
         totalRecipes: 0,
+        totalServings: 0,
         totalMealTypes: 0,
         mealTypeBreakdown: {
           breakfast: 0,
@@ -703,16 +1463,14 @@ export class MealPlansService {
       {
         averageRecipesPerDay: Math.round(averageMealsPerDay * 100) / 100,
         totalRecipes: stats.totalRecipes,
+        totalServings: stats.totalServings,
         totalMealTypes: Object.keys(mealTypeBreakdown).filter(
           (key) => mealTypeBreakdown[key as keyof typeof mealTypeBreakdown] > 0,
         ).length,
         mealTypeBreakdown: plainToInstance(MealTypeBreakdownDto, mealTypeBreakdown),
         startDate,
         endDate,
-        duration:
-          endDate && startDate
-            ? Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1
-            : 0,
+        duration: endDate && startDate ? DateOnlyUtil.diffInDays(startDate, endDate) + 1 : 0,
       },
       { excludeExtraneousValues: true },
     );
@@ -740,81 +1498,56 @@ export class MealPlansService {
     return grouped;
   }
 
-  private isSameDay(date1: Date, date2: Date): boolean {
-    return (
-      date1.getFullYear() === date2.getFullYear() &&
-      date1.getMonth() === date2.getMonth() &&
-      date1.getDate() === date2.getDate()
-    );
-  }
-
-  private getWeekStart(date: Date): Date {
-    const d = new Date(date);
-    const day = d.getDay();
-    const diff = d.getDate() - day + (day === 0 ? -6 : 1); // Adjust when day is Sunday
-    return new Date(d.setDate(diff));
-  }
-
-  private getDayOfWeekName(date: Date): string {
-    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    return days[date.getDay()] ?? 'Unknown';
+  /**
+   * Today's date in the time zone of the meal plan
+   */
+  private getToday(mealPlan: Pick<MealPlanWithRecipesData, 'timezone'>): Date {
+    return DateOnlyUtil.today(mealPlan.timezone ?? DEFAULT_TIMEZONE);
   }
 
+  /**
+   * ISO 8601 week number. ISO weeks start on Monday and belong to the year of
+   * their Thursday.
+   */
   private getWeekNumber(date: Date): number {
-    const d = new Date(date);
-    d.setHours(0, 0, 0, 0);
-    d.setDate(d.getDate() + 3 - ((d.getDay() + 6) % 7));
-    const week1 = new Date(d.getFullYear(), 0, 4);
-    return (
-      1 +
-      Math.round(((d.getTime() - week1.getTime()) / 86400000 - 3 + ((week1.getDay() + 6) % 7)) / 7)
-    );
+    const thursday = DateOnlyUtil.addDays(date, 3 - ((date.getUTCDay() + 6) % 7));
+    const yearStart = DateOnlyUtil.fromParts(thursday.getUTCFullYear(), 1, 1);
+    return 1 + Math.floor(DateOnlyUtil.diffInDays(yearStart, thursday) / 7);
   }
 
-  private getMonthName(month: number): string {
-    const months = [
-      'January',
-      'February',
-      'March',
-      'April',
-      'May',
-      'June',
-      'July',
-      'August',
-      'September',
-      'October',
-      'November',
-      'December',
-    ];
-    return months[month - 1] ?? 'Unknown';
+  /**
+   * ISO week number of a displayed week. Weeks that do not start on Monday
+   * straddle two ISO weeks, so use the one holding most of their days.
+   */
+  private getDisplayedWeekNumber(weekStart: Date): number {
+    return this.getWeekNumber(DateOnlyUtil.addDays(weekStart, 3));
   }
 
-  private buildMonthWeeks(year: number, month: number, recipes: MealPlanRecipeData[]) {
+  private buildMonthWeeks(
+    year: number,
+    month: number,
+    recipes: MealPlanRecipeData[],
+    weekStartDay: WeekStartDay,
+  ) {
     const weeks = [];
-    const monthStart = new Date(year, month - 1, 1);
-    const monthEnd = new Date(year, month, 0);
+    const monthStart = DateOnlyUtil.fromParts(year, month, 1);
+    const monthEnd = DateOnlyUtil.lastDayOfMonth(year, month);
 
-    // Get the first day of the first week (Monday before month start)
-    const firstWeekStart = this.getWeekStart(monthStart);
+    // Get the first day of the first week (on or before the month start)
+    let weekStart = CalendarUtil.getWeekStart(monthStart, weekStartDay);
 
-    const currentDate = new Date(firstWeekStart);
-
-    while (currentDate <= monthEnd) {
-      const weekStart = new Date(currentDate);
-      const weekEnd = new Date(currentDate);
-      weekEnd.setDate(weekEnd.getDate() + 6);
+    while (weekStart <= monthEnd) {
+      const weekEnd = DateOnlyUtil.addDays(weekStart, 6);
 
       const weekDays = [];
 
       for (let i = 0; i < 7; i++) {
-        const dayDate = new Date(weekStart);
-        dayDate.setDate(weekStart.getDate() + i);
+        const dayDate = DateOnlyUtil.addDays(weekStart, i);
 
         // Filter recipes for this specific day
-        const dayRecipes = recipes.filter((recipe: MealPlanRecipeData) => {
-          const recipeDate = new Date(recipe.mealDate);
-          return this.isSameDay(recipeDate, dayDate);
-        });
+        const dayRecipes = recipes.filter((recipe: MealPlanRecipeData) =>
+          DateOnlyUtil.isSameDay(recipe.mealDate, dayDate),
+        );
 
         // Count meals by type for this day
         const mealCounts = {
@@ -834,27 +1567,22 @@ export class MealPlansService {
 
         weekDays.push({
           date: dayDate,
-          dayOfMonth: dayDate.getDate(),
-          isCurrentMonth: dayDate.getMonth() === month - 1,
+          dayOfMonth: dayDate.getUTCDate(),
+          isCurrentMonth: dayDate.getUTCMonth() === month - 1,
           mealCount: dayRecipes.length,
           meals: mealCounts,
         });
       }
 
       weeks.push({
-        weekNumber: this.getWeekNumber(weekStart),
+        weekNumber: this.getDisplayedWeekNumber(weekStart),
         startDate: weekStart,
         endDate: weekEnd,
         days: weekDays,
       });
 
       // Move to next week
-      currentDate.setDate(currentDate.getDate() + 7);
-
-      // Stop if we've covered the month and moved past it
-      if (currentDate.getMonth() !== month - 1 && currentDate > monthEnd) {
-        break;
-      }
+      weekStart = DateOnlyUtil.addDays(weekStart, 7);
     }
 
     return weeks;
@@ -900,13 +1628,13 @@ export class MealPlansService {
   }
 
   private validateDateRanges(startDate: Date, endDate: Date): void {
-    if (startDate > endDate) {
+    const rangeDays = DateOnlyUtil.diffInDays(startDate, endDate);
+    if (rangeDays < 0) {
       throw new BadRequestException('Start date must be before or equal to end date');
     }
 
     // Check if date range is reasonable (not more than 1 year)
-    const oneYearMs = 365 * 24 * 60 * 60 * 1000;
-    if (endDate.getTime() - startDate.getTime() > oneYearMs) {
+    if (rangeDays > 365) {
       throw new BadRequestException('Date range cannot exceed one year');
     }
   }
@@ -921,18 +1649,233 @@ export class MealPlansService {
     throw new ForbiddenException(`Access denied to meal plan ${mealPlanId} for user ${userId}`);
   }
 
+  private handleRecipeSlotConflict(mealPlanId: string, key: MealPlanRecipeSlotKey): never {
+    throw new ConflictException(
+      `Recipe ${key.recipeId} is already scheduled for ${key.mealType} on ${this.formatDate(key.mealDate)} in meal plan ${mealPlanId}`,
+    );
+  }
+
+  private handleRecipeSlotNotFound(mealPlanId: string, slotDto: MealPlanRecipeSlotDto): never {
+    throw new NotFoundException(
+      `Recipe ${slotDto.recipeId} is not scheduled for ${slotDto.mealType} on ${this.formatDate(slotDto.mealDate)} in meal plan ${mealPlanId}`,
+    );
+  }
+
   // Authorization Helpers
 
-  private async verifyMealPlanAccess(mealPlanId: bigint, userId: string): Promise<void> {
-    const exists = await this.repository.checkMealPlanExists(mealPlanId);
-    if (!exists) {
+  /**
+   * Drop the cached views of a meal plan and the trending pages it may be on
+   */
+  private async invalidateCachedMealPlan(mealPlanId: bigint): Promise<void> {
+    await this.cacheService.invalidate(
+      MealPlanCacheTags.mealPlan(mealPlanId),
+      MealPlanCacheTags.TRENDING,
+    );
+  }
+
+  private async verifyMealPlanAccess(mealPlanId: bigint, userId: string): Promise<MealPlan> {
+    const mealPlan = await this.repository.findById(mealPlanId);
+    if (!mealPlan) {
       this.handleMealPlanNotFound(mealPlanId.toString());
     }
 
-    const hasAccess = await this.repository.verifyMealPlanOwnership(mealPlanId, userId);
+    const hasAccess = await this.permissionService.canView(mealPlan, userId);
     if (!hasAccess) {
       this.handleUnauthorizedAccess(mealPlanId.toString(), userId);
     }
+
+    return mealPlan;
+  }
+
+  /**
+   * Load a meal plan that the user is allowed to modify
+   */
+  private async getEditableMealPlan(id: string, userId: string): Promise<MealPlan> {
+    const mealPlan = await this.repository.findById(this.parseMealPlanId(id));
+    if (!mealPlan) {
+      this.handleMealPlanNotFound(id);
+    }
+
+    await this.permissionService.assertRole(
+      mealPlan,
+      userId,
+      MealPlanRole.EDITOR,
+      'modify recipes in this meal plan',
+    );
+
+    return mealPlan;
+  }
+
+  private async getMealPlanForStatusChange(id: string, userId: string): Promise<MealPlan> {
+    const mealPlan = await this.repository.findById(this.parseMealPlanId(id));
+    if (!mealPlan) {
+      this.handleMealPlanNotFound(id);
+    }
+
+    await this.permissionService.assertRole(
+      mealPlan,
+      userId,
+      MealPlanRole.EDITOR,
+      'change the status of this meal plan',
+    );
+
+    return mealPlan;
+  }
+
+  private async toMealPlanResponseWithTags(mealPlan: MealPlan): Promise<MealPlanResponseDto> {
+    const tagsData = await this.tagsRepository.findTagsByMealPlanId(mealPlan.mealPlanId);
+    const response = plainToInstance(MealPlanResponseDto, mealPlan, {
+      excludeExtraneousValues: true,
+    });
+    response.tags = tagsData.map((tag) => ({
+      tagId: tag.tagId.toString(),
+      name: tag.name,
+    }));
+
+    return response;
+  }
+
+  // Recipe Slot Helpers
+
+  private async buildRecipeSlotKey(
+    mealPlanId: bigint,
+    slotDto: MealPlanRecipeSlotDto,
+  ): Promise<MealPlanRecipeSlotKey> {
+    return {
+      mealPlanId,
+      recipeId: await this.recipeIdResolver.resolve(slotDto.recipeId),
+      mealDate: DateOnlyUtil.toDateOnly(slotDto.mealDate),
+      mealType: slotDto.mealType,
+    };
+  }
+
+  private validateMealDateWithinPlan(
+    mealPlan: Pick<MealPlan, 'startDate' | 'endDate'>,
+    mealDate: Date,
+  ): void {
+    const { startDate, endDate } = mealPlan;
+
+    if ((startDate && mealDate < startDate) || (endDate && mealDate > endDate)) {
+      throw new BadRequestException(
+        `Meal date ${this.formatDate(mealDate)} is outside the meal plan date range (${startDate ? this.formatDate(startDate) : 'open'} to ${endDate ? this.formatDate(endDate) : 'open'})`,
+      );
+    }
+  }
+
+  private toMealPlanRecipeResponse(slot: MealPlanRecipeWithRecipe): MealPlanRecipeResponseDto {
+    return plainToInstance(
+      MealPlanRecipeResponseDto,
+      {
+        mealPlanId: slot.mealPlanId.toString(),
+        recipeId: RecipeIdUtil.toCanonical(slot.recipeId),
+        recipeName: slot.recipe.title,
+        mealDate: slot.mealDate,
+        mealType: slot.mealType,
+        servings: slot.servings,
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  private formatDate(date: Date): string {
+    return DateOnlyUtil.format(date);
+  }
+
+  // Nutrition Helpers
+
+  /**
+   * Adds nutrition rollups to day, week and month views and to the statistics block
+   */
+  private async addNutritionToResponse(
+    mealPlan: MealPlan,
+    response: MealPlanQueryResponseDto,
+  ): Promise<void> {
+    const targets = NutritionUtil.getTargets(mealPlan);
+    const { data } = response;
+
+    if (data instanceof DayViewResponseDto) {
+      const [day] = await this.rollupNutrition(mealPlan.mealPlanId, data.date, data.date, targets);
+      data.nutrition = plainToInstance(DayNutritionDto, day, { excludeExtraneousValues: true });
+    } else if (data instanceof WeekViewResponseDto) {
+      const days = await this.rollupNutrition(
+        mealPlan.mealPlanId,
+        data.startDate,
+        data.endDate,
+        targets,
+      );
+      const daysByDate = new Map(days.map((day) => [day.date, day]));
+      for (const weekDay of data.days) {
+        weekDay.nutrition = plainToInstance(
+          DayNutritionDto,
+          daysByDate.get(this.formatDate(weekDay.date)),
+          { excludeExtraneousValues: true },
+        );
+      }
+      data.nutrition = this.toNutritionSummary(days);
+    } else if (data instanceof MonthViewResponseDto) {
+      const days = await this.rollupNutrition(
+        mealPlan.mealPlanId,
+        DateOnlyUtil.fromParts(data.year, data.month, 1),
+        DateOnlyUtil.lastDayOfMonth(data.year, data.month),
+        targets,
+      );
+      const daysByDate = new Map(days.map((day) => [day.date, day]));
+      for (const monthDay of data.weeks.flatMap((week) => week.days)) {
+        const day = daysByDate.get(this.formatDate(monthDay.date));
+        if (monthDay.isCurrentMonth && day) {
+          monthDay.nutrition = plainToInstance(DayNutritionDto, day, {
+            excludeExtraneousValues: true,
+          });
+        }
+      }
+      data.nutrition = this.toNutritionSummary(days);
+    }
+
+    if (response.statistics && mealPlan.startDate && mealPlan.endDate) {
+      const days = await this.rollupNutrition(
+        mealPlan.mealPlanId,
+        mealPlan.startDate,
+        mealPlan.endDate,
+        targets,
+      );
+      response.statistics.nutrition = plainToInstance(
+        MealPlanNutritionDto,
+        { ...this.toNutritionSummary(days), targets, days },
+        { excludeExtraneousValues: true },
+      );
+    }
+  }
+
+  /**
+   * Loads the recipe slots in a date range and rolls their nutrition up per day
+   */
+  private async rollupNutrition(
+    mealPlanId: bigint,
+    startDate: Date,
+    endDate: Date,
+    targets: NutritionValues | null,
+  ): Promise<DayNutritionData[]> {
+    // Slots are stored as plain dates, so compare against midnight UTC
+    const rangeStart = DateOnlyUtil.toDateOnly(startDate);
+    const rangeEnd = DateOnlyUtil.toDateOnly(endDate);
+
+    const slots = await this.repository.findRecipesForDateRange(mealPlanId, rangeStart, rangeEnd);
+    const nutritionByRecipe =
+      slots.length > 0
+        ? await this.nutritionProvider.getNutritionPerServing(slots.map((slot) => slot.recipeId))
+        : new Map<string, NutritionValues>();
+
+    return NutritionUtil.rollupDays(slots, nutritionByRecipe, rangeStart, rangeEnd, targets);
+  }
+
+  private toNutritionSummary(days: DayNutritionData[]): NutritionSummaryDto {
+    const { totals, byMealType } = NutritionUtil.sumDays(days);
+
+    return plainToInstance(
+      NutritionSummaryDto,
+      { totals, byMealType, dailyAverage: NutritionUtil.average(totals, days.length) },
+      { excludeExtraneousValues: true },
+    );
   }
 
   // Enhanced Utility Methods
@@ -1002,28 +1945,50 @@ export class MealPlansService {
   }
 
   /**
-   * Converts a day number (1-7) to an actual date within the meal plan's date range
+   * Works out the meal date of each recipe entry from its mealDate, its
+   * dayOffset or its 1-based day, and checks that it falls within the meal
+   * plan. Every entry is checked so the error names all entries that fail.
    */
-  private calculateMealDateFromDay(
-    day: number,
-    startDate: Date | null,
-    endDate: Date | null,
-  ): Date {
-    if (!startDate) {
-      throw new BadRequestException('Meal plan must have a start date to add recipes by day');
-    }
+  private resolveRecipeMealDates(
+    recipes: CreateMealPlanRecipeDto[],
+    dateRange: { startDate?: Date | null; endDate?: Date | null },
+  ): Date[] {
+    const { startDate, endDate } = dateRange;
+    const errors: string[] = [];
+
+    const mealDates = recipes.map((recipe, index) => {
+      const entry = `recipes[${index}] (recipe ${recipe.recipeId})`;
+      const schedules = [recipe.mealDate, recipe.dayOffset, recipe.day].filter(
+        (value) => value !== undefined,
+      );
+      if (schedules.length !== 1) {
+        errors.push(`${entry} must set exactly one of mealDate, dayOffset or day`);
+        return null;
+      }
 
-    // Calculate the date based on the day number (1 = first day of meal plan)
-    const mealDate = new Date(startDate);
-    mealDate.setDate(startDate.getDate() + (day - 1));
+      let mealDate = recipe.mealDate && DateOnlyUtil.toDateOnly(recipe.mealDate);
+      if (!mealDate) {
+        const dayOffset = recipe.dayOffset ?? (recipe.day as number) - 1;
+        if (!startDate) {
+          errors.push(`${entry} is scheduled by day, but the meal plan has no start date`);
+          return null;
+        }
+        mealDate = DateOnlyUtil.addDays(startDate, dayOffset);
+      }
 
-    // Validate that the calculated date is within the meal plan range
-    if (endDate && mealDate > endDate) {
-      throw new BadRequestException(
-        `Day ${day} is outside the meal plan date range (${startDate.toDateString()} to ${endDate.toDateString()})`,
-      );
+      if ((startDate && mealDate < startDate) || (endDate && mealDate > endDate)) {
+        errors.push(
+          `${entry} is scheduled on ${this.formatDate(mealDate)}, outside the meal plan date range (${startDate ? this.formatDate(startDate) : 'open'} to ${endDate ? this.formatDate(endDate) : 'open'})`,
+        );
+      }
+
+      return mealDate;
+    });
+
+    if (errors.length > 0) {
+      throw new BadRequestException({ message: 'Validation failed', errors });
     }
 
-    return mealDate;
+    return mealDates as Date[];
   }
 }
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { MealPlanPermissionService } from './meal-plan-permission.service';
+import { MealPlanCollaboratorsRepository } from '../meal-plan-collaborators.repository';
+import { MealPlanRole } from '../enums/meal-plan-role.enum';
+import { MealPlanVisibility } from '../enums/meal-plan-visibility.enum';
+
+describe('MealPlanPermissionService', () => {
+  let service: MealPlanPermissionService;
+  let collaboratorsRepository: {
+    findCollaborator: Mock<(...args: unknown[]) => unknown>;
+  };
+
+  const ownerId = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11';
+  const collaboratorId = 'b1ffcd88-8d1a-4ef8-bb6d-6bb9bd380a22';
+  const mealPlan = { mealPlanId: BigInt(123), userId: ownerId };
+
+  const mockCollaboratorsRepository = {
+    findCollaborator: mock(() => {}),
+  };
+
+  const collaborator = (role: MealPlanRole, acceptedAt: Date | null = new Date()) => ({
+    mealPlanId: BigInt(123),
+    userId: collaboratorId,
+    role,
+    invitedBy: ownerId,
+    invitedAt: new Date(),
+    acceptedAt,
+  });
+
+  beforeEach(async () => {
+    mockCollaboratorsRepository.findCollaborator.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MealPlanPermissionService,
+        {
+          provide: MealPlanCollaboratorsRepository,
+          useValue: mockCollaboratorsRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<MealPlanPermissionService>(MealPlanPermissionService);
+    collaboratorsRepository = module.get(MealPlanCollaboratorsRepository);
+  });
+
+  describe('getRole', () => {
+    it('should return OWNER for the creator of the meal plan without a lookup', async () => {
+      const role = await service.getRole(mealPlan, ownerId);
+
+      expect(role).toBe(MealPlanRole.OWNER);
+      expect(collaboratorsRepository.findCollaborator).not.toHaveBeenCalled();
+    });
+
+    it('should return the role of an accepted collaborator', async () => {
+      collaboratorsRepository.findCollaborator.mockResolvedValue(
+        collaborator(MealPlanRole.EDITOR) as never,
+      );
+
+      const role = await service.getRole(mealPlan, collaboratorId);
+
+      expect(role).toBe(MealPlanRole.EDITOR);
+      expect(collaboratorsRepository.findCollaborator).toHaveBeenCalledWith(
+        BigInt(123),
+        collaboratorId,
+      );
+    });
+
+    it('should return null for a pending invitation', async () => {
+      collaboratorsRepository.findCollaborator.mockResolvedValue(
+        collaborator(MealPlanRole.EDITOR, null) as never,
+      );
+
+      expect(await service.getRole(mealPlan, collaboratorId)).toBeNull();
+    });
+
+    it('should return null for a user without access', async () => {
+      collaboratorsRepository.findCollaborator.mockResolvedValue(null as never);
+
+      expect(await service.getRole(mealPlan, collaboratorId)).toBeNull();
+    });
+  });
+
+  describe('hasRole', () => {
+    it('should treat higher roles as including lower ones', async () => {
+      collaboratorsRepository.findCollaborator.mockResolvedValue(
+        collaborator(MealPlanRole.EDITOR) as never,
+      );
+
+      expect(await service.hasRole(mealPlan, collaboratorId, MealPlanRole.VIEWER)).toBe(true);
+      expect(await service.hasRole(mealPlan, collaboratorId, MealPlanRole.EDITOR)).toBe(true);
+      expect(await service.hasRole(mealPlan, collaboratorId, MealPlanRole.OWNER)).toBe(false);
+    });
+
+    it('should grant every role to the creator of the meal plan', async () => {
+      expect(await service.hasRole(mealPlan, ownerId, MealPlanRole.OWNER)).toBe(true);
+    });
+
+    it('should return false for a user without access', async () => {
+      collaboratorsRepository.findCollaborator.mockResolvedValue(null as never);
+
+      expect(await service.hasRole(mealPlan, collaboratorId, MealPlanRole.VIEWER)).toBe(false);
+    });
+  });
+
+  describe('canView', () => {
+    it('should let any user see a public meal plan without a lookup', async () => {
+      const allowed = await service.canView(
+        { ...mealPlan, visibility: MealPlanVisibility.PUBLIC },
+        collaboratorId,
+      );
+
+      expect(allowed).toBe(true);
+      expect(collaboratorsRepository.findCollaborator).not.toHaveBeenCalled();
+    });
+
+    it('should hide an unlisted meal plan from users without a role', async () => {
+      collaboratorsRepository.findCollaborator.mockResolvedValue(null as never);
+
+      const allowed = await service.canView(
+        { ...mealPlan, visibility: MealPlanVisibility.UNLISTED },
+        collaboratorId,
+      );
+
+      expect(allowed).toBe(false);
+    });
+
+    it('should let a viewer see a private meal plan', async () => {
+      collaboratorsRepository.findCollaborator.mockResolvedValue(
+        collaborator(MealPlanRole.VIEWER) as never,
+      );
+
+      const allowed = await service.canView(
+        { ...mealPlan, visibility: MealPlanVisibility.PRIVATE },
+        collaboratorId,
+      );
+
+      expect(allowed).toBe(true);
+    });
+  });
+
+  describe('assertRole', () => {
+    it('should resolve when the user has the required role', async () => {
+      collaboratorsRepository.findCollaborator.mockResolvedValue(
+        collaborator(MealPlanRole.OWNER) as never,
+      );
+
+      await service.assertRole(mealPlan, collaboratorId, MealPlanRole.OWNER, 'delete this');
+
+      expect(collaboratorsRepository.findCollaborator).toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenException naming the action otherwise', async () => {
+      collaboratorsRepository.findCollaborator.mockResolvedValue(
+        collaborator(MealPlanRole.VIEWER) as never,
+      );
+
+      const promise = service.assertRole(
+        mealPlan,
+        collaboratorId,
+        MealPlanRole.EDITOR,
+        'update this meal plan',
+      );
+
+      expect(promise).rejects.toThrow(ForbiddenException);
+      expect(promise).rejects.toThrow('You do not have permission to update this meal plan');
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { Injectable, ForbiddenException } from '@nestjs/common';
+import { MealPlan, MealPlanVisibility } from '@generated/prisma/client';
+import { MealPlanCollaboratorsRepository } from '../meal-plan-collaborators.repository';
+import { MealPlanRole } from '../enums/meal-plan-role.enum';
+
+/**
+ * The fields of a meal plan needed to decide what a user may do with it
+ */
+export type MealPlanOwnership = Pick<MealPlan, 'mealPlanId' | 'userId'>;
+
+/**
+ * The fields of a meal plan needed to decide whether a user may see it
+ */
+export type MealPlanAudience = MealPlanOwnership & Pick<MealPlan, 'visibility'>;
+
+const ROLE_RANK: Record<MealPlanRole, number> = {
+  [MealPlanRole.VIEWER]: 1,
+  [MealPlanRole.EDITOR]: 2,
+  [MealPlanRole.OWNER]: 3,
+};
+
+/**
+ * Single place that decides what a user may do with a meal plan. The user who
+ * created a meal plan is always its owner; other users get the role of their
+ * accepted collaborator invitation. Roles are cumulative: editors can do
+ * everything viewers can, and owners everything editors can.
+ *
+ * Visibility only widens read access: public meal plans can be seen by every
+ * user, while unlisted ones stay hidden unless opened through a share link.
+ */
+@Injectable()
+export class MealPlanPermissionService {
+  constructor(private readonly collaboratorsRepository: MealPlanCollaboratorsRepository) {}
+
+  /**
+   * Get the role of a user on a meal plan, or null if the user has no access
+   */
+  async getRole(mealPlan: MealPlanOwnership, userId: string): Promise<MealPlanRole | null> {
+    if (mealPlan.userId === userId) {
+      return MealPlanRole.OWNER;
+    }
+
+    const collaborator = await this.collaboratorsRepository.findCollaborator(
+      mealPlan.mealPlanId,
+      userId,
+    );
+    if (!collaborator?.acceptedAt) {
+      return null;
+    }
+
+    return collaborator.role as MealPlanRole;
+  }
+
+  /**
+   * Check if a user has at least the given role on a meal plan
+   */
+  async hasRole(
+    mealPlan: MealPlanOwnership,
+    userId: string,
+    requiredRole: MealPlanRole,
+  ): Promise<boolean> {
+    const role = await this.getRole(mealPlan, userId);
+    return role !== null && ROLE_RANK[role] >= ROLE_RANK[requiredRole];
+  }
+
+  /**
+   * Check if a user may see a meal plan, either through a role or because the
+   * meal plan is public
+   */
+  async canView(mealPlan: MealPlanAudience, userId: string): Promise<boolean> {
+    if (mealPlan.visibility === MealPlanVisibility.PUBLIC) {
+      return true;
+    }
+
+    return this.hasRole(mealPlan, userId, MealPlanRole.VIEWER);
+  }
+
+  /**
+   * Throw ForbiddenException unless the user has at least the given role.
+   * The action completes the message "You do not have permission to ...".
+   */
+  async assertRole(
+    mealPlan: MealPlanOwnership,
+    userId: string,
+    requiredRole: MealPlanRole,
+    action: string,
+  ): Promise<void> {
+    const allowed = await this.hasRole(mealPlan, userId, requiredRole);
+    if (!allowed) {
+      throw new ForbiddenException(`You do not have permission to ${action}`);
+    }
+  }
+}
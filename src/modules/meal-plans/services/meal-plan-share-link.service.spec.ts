@@ -0,0 +1,101 @@
+import { describe, it, expect, mock } from 'bun:test';
+import { ServiceUnavailableException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { MealPlanShareLinkService } from './meal-plan-share-link.service';
+import { ShareLinkConfig } from '@/config/configuration';
+
+describe('MealPlanShareLinkService', () => {
+  const shareLinkConfig: ShareLinkConfig = {
+    secret: 'share-link-secret-that-is-long-enough',
+    ttlDays: 7,
+    baseUrl: 'https://api.example.com/',
+  };
+
+  const createService = async (
+    config: ShareLinkConfig = shareLinkConfig,
+  ): Promise<MealPlanShareLinkService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MealPlanShareLinkService,
+        {
+          provide: ConfigService,
+          useValue: { get: mock(() => config) },
+        },
+      ],
+    }).compile();
+
+    return module.get<MealPlanShareLinkService>(MealPlanShareLinkService);
+  };
+
+  describe('createShareLink', () => {
+    it('should create a link that expires after the configured number of days', async () => {
+      const service = await createService();
+      const before = Date.now();
+
+      const result = service.createShareLink(BigInt(123));
+
+      expect(result.url).toBe(
+        `https://api.example.com/api/v1/meal-plan-management/meal-plans/shared/${result.token}`,
+      );
+      expect(result.expiresAt.getTime()).toBeGreaterThanOrEqual(before + 7 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should create a relative link when no base URL is configured', async () => {
+      const service = await createService({ secret: 'share-link-secret', ttlDays: 30 });
+
+      const result = service.createShareLink(BigInt(123));
+
+      expect(result.url).toBe(`/api/v1/meal-plan-management/meal-plans/shared/${result.token}`);
+    });
+
+    it('should throw when no secret is configured', async () => {
+      const service = await createService({ secret: '', ttlDays: 30 });
+
+      expect(() => service.createShareLink(BigInt(123))).toThrow(ServiceUnavailableException);
+    });
+  });
+
+  describe('verifyToken', () => {
+    it('should return the meal plan ID of a token it signed', async () => {
+      const service = await createService();
+      const { token } = service.createShareLink(BigInt(123));
+
+      expect(service.verifyToken(token)).toBe(BigInt(123));
+    });
+
+    it('should reject a token pointed at another meal plan', async () => {
+      const service = await createService();
+      const { token } = service.createShareLink(BigInt(123));
+      const [encodedPayload, signature] = token.split('.');
+      const payload = Buffer.from(encodedPayload!, 'base64url').toString();
+      const forgedPayload = Buffer.from(payload.replace(/^123\./, '124.')).toString('base64url');
+
+      expect(service.verifyToken(`${forgedPayload}.${signature}`)).toBeNull();
+    });
+
+    it('should reject a token signed with another secret', async () => {
+      const otherService = await createService({ ...shareLinkConfig, secret: 'another-secret' });
+      const { token } = otherService.createShareLink(BigInt(123));
+      const service = await createService();
+
+      expect(service.verifyToken(token)).toBeNull();
+    });
+
+    it('should reject an expired token', async () => {
+      const service = await createService();
+      const payload = `123.${Math.floor(Date.now() / 1000) - 60}`;
+      const token = `${Buffer.from(payload).toString('base64url')}.${service['sign'](payload)}`;
+
+      expect(service.verifyToken(token)).toBeNull();
+    });
+
+    it('should reject malformed tokens', async () => {
+      const service = await createService();
+
+      expect(service.verifyToken('')).toBeNull();
+      expect(service.verifyToken('not-a-token')).toBeNull();
+      expect(service.verifyToken('a.b.c')).toBeNull();
+    });
+  });
+});
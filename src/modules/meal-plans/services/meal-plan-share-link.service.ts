@@ -0,0 +1,78 @@
+import { Injectable, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { plainToInstance } from 'class-transformer';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { ShareLinkConfig } from '@/config/configuration';
+import { MealPlanShareLinkResponseDto } from '../dto';
+
+const SHARE_PATH = '/api/v1/meal-plan-management/meal-plans/shared';
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Signs and verifies share-link tokens. A token carries the meal plan ID and
+ * its expiry, signed with HMAC-SHA256, so links need no database lookup and
+ * cannot be forged or pointed at another meal plan.
+ *
+ * Token format: base64url("<mealPlanId>.<expiresAtSeconds>").base64url(signature)
+ */
+@Injectable()
+export class MealPlanShareLinkService {
+  private readonly config: ShareLinkConfig | undefined;
+
+  constructor(configService: ConfigService) {
+    this.config = configService.get<ShareLinkConfig>('shareLinks');
+  }
+
+  /**
+   * Create a signed share link for a meal plan
+   */
+  createShareLink(mealPlanId: bigint): MealPlanShareLinkResponseDto {
+    const ttlDays = this.config?.ttlDays ?? 30;
+    const expiresAt = new Date(Date.now() + ttlDays * MS_PER_DAY);
+    const payload = `${mealPlanId.toString()}.${Math.floor(expiresAt.getTime() / 1000)}`;
+    const token = `${Buffer.from(payload).toString('base64url')}.${this.sign(payload)}`;
+
+    return plainToInstance(
+      MealPlanShareLinkResponseDto,
+      {
+        token,
+        url: `${this.config?.baseUrl?.replace(/\/+$/, '') ?? ''}${SHARE_PATH}/${token}`,
+        expiresAt,
+      },
+      { excludeExtraneousValues: true },
+    );
+  }
+
+  /**
+   * Get the meal plan ID from a share-link token, or null if the token is
+   * malformed, has been tampered with or has expired
+   */
+  verifyToken(token: string): bigint | null {
+    const [encodedPayload, signature, ...rest] = token.split('.');
+    if (!encodedPayload || !signature || rest.length > 0) {
+      return null;
+    }
+
+    const payload = Buffer.from(encodedPayload, 'base64url').toString();
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    const match = /^(\d+)\.(\d+)$/.exec(payload);
+    if (!match || Number(match[2]) * 1000 <= Date.now()) {
+      return null;
+    }
+
+    return BigInt(match[1]!);
+  }
+
+  private sign(payload: string): string {
+    if (!this.config?.secret) {
+      throw new ServiceUnavailableException('Share link secret is not configured');
+    }
+
+    return createHmac('sha256', this.config.secret).update(payload).digest('base64url');
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, mock, type Mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { TrendingWindow } from '@generated/prisma/client';
+import { TrendingConfig } from '@/config/configuration';
+import { MetricsService } from '@/modules/metrics/metrics.service';
+import { CacheService } from '@/shared/cache/cache.service';
+import { MealPlansRepository } from '../meal-plans.repository';
+import { MealPlanTrendingRefreshService } from './meal-plan-trending-refresh.service';
+
+describe('MealPlanTrendingRefreshService', () => {
+  let service: MealPlanTrendingRefreshService;
+  let repository: { refreshTrendingScores: Mock<() => Promise<void>> };
+  let metricsService: { recordTrendingRefresh: Mock<(...args: unknown[]) => unknown> };
+  let cacheService: { invalidate: Mock<(...args: unknown[]) => unknown> };
+
+  const trendingConfig: TrendingConfig = {
+    weights: { favorite: 3, view: 0.5, clone: 4, recipeAdded: 1 },
+    decayRate: 0.23,
+    windowDays: 14,
+    maxResults: 100,
+    refreshIntervalSeconds: 0,
+  };
+
+  beforeEach(async () => {
+    repository = { refreshTrendingScores: mock(() => Promise.resolve()) };
+    metricsService = { recordTrendingRefresh: mock(() => {}) };
+    cacheService = { invalidate: mock(() => Promise.resolve()) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MealPlanTrendingRefreshService,
+        { provide: MealPlansRepository, useValue: repository },
+        { provide: MetricsService, useValue: metricsService },
+        { provide: CacheService, useValue: cacheService },
+        {
+          provide: ConfigService,
+          useValue: { get: mock(() => trendingConfig) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MealPlanTrendingRefreshService>(MealPlanTrendingRefreshService);
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+  });
+
+  describe('refresh', () => {
+    it('should rebuild the configured window and every fixed period', async () => {
+      const result = await service.refresh();
+
+      expect(result).toBe(true);
+      expect(repository.refreshTrendingScores).toHaveBeenCalledTimes(4);
+      expect(repository.refreshTrendingScores).toHaveBeenCalledWith(
+        TrendingWindow.CONFIGURED,
+        trendingConfig,
+      );
+      expect(repository.refreshTrendingScores).toHaveBeenCalledWith(TrendingWindow.DAY, {
+        ...trendingConfig,
+        windowDays: 1,
+      });
+      expect(repository.refreshTrendingScores).toHaveBeenCalledWith(TrendingWindow.WEEK, {
+        ...trendingConfig,
+        windowDays: 7,
+      });
+      expect(repository.refreshTrendingScores).toHaveBeenCalledWith(TrendingWindow.MONTH, {
+        ...trendingConfig,
+        windowDays: 30,
+      });
+      expect(metricsService.recordTrendingRefresh).toHaveBeenCalledWith(expect.any(Number), true);
+      expect(cacheService.invalidate).toHaveBeenCalledWith('meal-plans:trending');
+    });
+
+    it('should record a failed refresh without throwing', async () => {
+      repository.refreshTrendingScores.mockRejectedValue(new Error('Connection lost'));
+
+      const result = await service.refresh();
+
+      expect(result).toBe(false);
+      expect(metricsService.recordTrendingRefresh).toHaveBeenCalledWith(expect.any(Number), false);
+      expect(cacheService.invalidate).not.toHaveBeenCalled();
+    });
+
+    it('should skip a refresh while another is running', async () => {
+      let finishRefresh: () => void = () => {};
+      repository.refreshTrendingScores.mockImplementationOnce(
+        () => new Promise<void>((resolve) => (finishRefresh = resolve)),
+      );
+
+      const running = service.refresh();
+      const skipped = await service.refresh();
+      finishRefresh();
+
+      expect(skipped).toBe(false);
+      expect(await running).toBe(true);
+      expect(metricsService.recordTrendingRefresh).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('onModuleInit', () => {
+    it('should not schedule refreshes when the interval is 0', () => {
+      service.onModuleInit();
+
+      expect(repository.refreshTrendingScores).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TrendingWindow } from '@generated/prisma/client';
+import { TrendingConfig } from '@/config/configuration';
+import { MetricsService } from '@/modules/metrics/metrics.service';
+import { CacheService } from '@/shared/cache/cache.service';
+import { MealPlansRepository } from '../meal-plans.repository';
+import { MealPlanCacheTags } from '../meal-plan-cache-tags';
+
+const DEFAULT_TRENDING_CONFIG: TrendingConfig = {
+  weights: { favorite: 3, view: 0.5, clone: 4, recipeAdded: 1 },
+  decayRate: 0.23,
+  windowDays: 30,
+  maxResults: 100,
+  refreshIntervalSeconds: 300,
+};
+
+const FIXED_WINDOW_DAYS: Record<Exclude<TrendingWindow, 'CONFIGURED'>, number> = {
+  [TrendingWindow.DAY]: 1,
+  [TrendingWindow.WEEK]: 7,
+  [TrendingWindow.MONTH]: 30,
+};
+
+/**
+ * Rebuilds the precomputed trending rankings on a fixed interval, so the
+ * trending endpoint reads scores instead of computing them per request.
+ * A refresh starts when the module initializes and is skipped while the
+ * previous one is still running; the repository serializes refreshes across
+ * instances with an advisory lock. Setting the interval to 0 disables the
+ * scheduler.
+ */
+@Injectable()
+export class MealPlanTrendingRefreshService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MealPlanTrendingRefreshService.name);
+  private readonly config: TrendingConfig;
+  private refreshInterval?: NodeJS.Timeout;
+  private isRefreshing = false;
+
+  constructor(
+    private readonly repository: MealPlansRepository,
+    private readonly metricsService: MetricsService,
+    private readonly cacheService: CacheService,
+    configService: ConfigService,
+  ) {
+    this.config = configService.get<TrendingConfig>('trending') ?? DEFAULT_TRENDING_CONFIG;
+  }
+
+  onModuleInit(): void {
+    const interval = this.config.refreshIntervalSeconds * 1000;
+
+    if (interval > 0) {
+      void this.refresh();
+      this.refreshInterval = setInterval(() => {
+        void this.refresh();
+      }, interval);
+    }
+  }
+
+  onModuleDestroy(): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      delete this.refreshInterval;
+    }
+  }
+
+  /**
+   * Rebuild the ranking of the configured window and of each fixed period.
+   * Failures are logged and recorded rather than thrown, so the previous
+   * ranking keeps being served until the next refresh succeeds.
+   *
+   * @returns Whether the rankings were refreshed
+   */
+  async refresh(): Promise<boolean> {
+    if (this.isRefreshing) {
+      return false;
+    }
+
+    this.isRefreshing = true;
+    const startTime = Date.now();
+    let succeeded = false;
+
+    try {
+      await this.repository.refreshTrendingScores(TrendingWindow.CONFIGURED, this.config);
+      for (const [trendingWindow, windowDays] of Object.entries(FIXED_WINDOW_DAYS)) {
+        await this.repository.refreshTrendingScores(trendingWindow as TrendingWindow, {
+          ...this.config,
+          windowDays,
+        });
+      }
+      await this.cacheService.invalidate(MealPlanCacheTags.TRENDING);
+      succeeded = true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to refresh trending scores: ${errorMessage}`);
+    } finally {
+      this.isRefreshing = false;
+      this.metricsService.recordTrendingRefresh((Date.now() - startTime) / 1000, succeeded);
+    }
+
+    return succeeded;
+  }
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, mock, spyOn, type Mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ServiceUnavailableException } from '@nestjs/common';
+import { RecipeClientService } from './recipe-client.service';
+import { ServiceAuthService } from '@/modules/auth/services/service-auth.service';
+import { ExternalServicesConfig } from '@/config/configuration';
+
+describe('RecipeClientService', () => {
+  type AxiosGet = (url: string, config?: unknown) => Promise<{ data: unknown }>;
+
+  let mockAxiosInstance: { get: Mock<AxiosGet> };
+
+  const mockServiceAuthService = {
+    getAuthorizationHeader: mock(() => Promise.resolve({ Authorization: 'Bearer service-token' })),
+  };
+
+  const createService = async (config: ExternalServicesConfig): Promise<RecipeClientService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecipeClientService,
+        {
+          provide: ConfigService,
+          useValue: { get: mock(() => config) },
+        },
+        {
+          provide: ServiceAuthService,
+          useValue: mockServiceAuthService,
+        },
+      ],
+    }).compile();
+
+    const service = module.get<RecipeClientService>(RecipeClientService);
+    spyOn(service['logger'], 'error').mockImplementation(() => {});
+    return service;
+  };
+
+  beforeEach(() => {
+    mockAxiosInstance = {
+      get: mock<AxiosGet>(),
+    };
+    mockServiceAuthService.getAuthorizationHeader.mockClear();
+  });
+
+  describe('getRecipeIngredients', () => {
+    it('should throw ServiceUnavailableException when the recipe service is not configured', async () => {
+      const service = await createService({});
+
+      expect(service.getRecipeIngredients(BigInt(456))).rejects.toThrow(
+        'Recipe service is not configured',
+      );
+      expect(mockServiceAuthService.getAuthorizationHeader).not.toHaveBeenCalled();
+    });
+
+    describe('when the recipe service is configured', () => {
+      let service: RecipeClientService;
+
+      beforeEach(async () => {
+        service = await createService({ recipeServiceUrl: 'http://recipe-service/api/v1' });
+
+        // Replace the axios instance created in constructor with our mock
+        (service as any).httpClient = mockAxiosInstance;
+      });
+
+      it('should load ingredients with a service token', async () => {
+        const ingredients = [{ name: 'Olive oil', quantity: 1, unit: 'tbsp', category: 'Pantry' }];
+        mockAxiosInstance.get.mockResolvedValue({
+          data: { recipeId: 456, title: 'Pasta', servings: 4, ingredients },
+        });
+
+        const result = await service.getRecipeIngredients(BigInt(456));
+
+        expect(mockAxiosInstance.get).toHaveBeenCalledWith('/recipes/456', {
+          headers: { Authorization: 'Bearer service-token' },
+        });
+        expect(result).toEqual({ recipeId: '456', servings: 4, ingredients });
+      });
+
+      it('should default to one serving and no ingredients when they are missing', async () => {
+        mockAxiosInstance.get.mockResolvedValue({
+          data: { recipeId: 456, servings: 0 },
+        });
+
+        const result = await service.getRecipeIngredients(BigInt(456));
+
+        expect(result).toEqual({ recipeId: '456', servings: 1, ingredients: [] });
+      });
+
+      it('should throw ServiceUnavailableException when the request fails', async () => {
+        mockAxiosInstance.get.mockRejectedValue(new Error('Request failed with status code 404'));
+
+        expect(service.getRecipeIngredients(BigInt(456))).rejects.toThrow(
+          ServiceUnavailableException,
+        );
+      });
+
+      it('should throw ServiceUnavailableException when no service token can be obtained', async () => {
+        mockServiceAuthService.getAuthorizationHeader.mockRejectedValueOnce(
+          new Error('Service-to-service authentication is disabled'),
+        );
+
+        expect(service.getRecipeIngredients(BigInt(456))).rejects.toThrow(
+          'Could not load ingredients for recipe 456 from the recipe service',
+        );
+        expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('getRecipeNutrition', () => {
+    let service: RecipeClientService;
+
+    beforeEach(async () => {
+      service = await createService({ recipeServiceUrl: 'http://recipe-service/api/v1' });
+      (service as any).httpClient = mockAxiosInstance;
+    });
+
+    it('should return the per-serving nutrition and drop missing values', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: {
+          recipeId: 456,
+          nutrition: { calories: 520, protein: 32.5, carbohydrates: null, fat: 18, sodium: 640 },
+        },
+      });
+
+      const result = await service.getRecipeNutrition(BigInt(456));
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/recipes/456', {
+        headers: { Authorization: 'Bearer service-token' },
+      });
+      expect(result).toEqual({ calories: 520, protein: 32.5, fat: 18, sodium: 640 });
+    });
+
+    it('should return null when the recipe has no nutrition data', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: { recipeId: 456 } });
+
+      const result = await service.getRecipeNutrition(BigInt(456));
+
+      expect(result).toBeNull();
+    });
+
+    it('should throw ServiceUnavailableException when the request fails', async () => {
+      mockAxiosInstance.get.mockRejectedValue(new Error('timeout of 5000ms exceeded'));
+
+      expect(service.getRecipeNutrition(BigInt(456))).rejects.toThrow(
+        'Could not load nutrition for recipe 456 from the recipe service',
+      );
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosInstance } from 'axios';
+import { ExternalServicesConfig } from '@/config/configuration';
+import { ServiceAuthService } from '@/modules/auth/services/service-auth.service';
+import { RecipeIngredientsData, RecipeServiceRecipe } from '../types/recipe-service.types';
+import { CORE_NUTRIENTS, MICRONUTRIENTS, NutritionValues } from '../types/nutrition.types';
+
+/**
+ * Client for the recipe service. Requests are authenticated with a
+ * service-to-service token from the client credentials flow.
+ */
+@Injectable()
+export class RecipeClientService {
+  private readonly logger = new Logger(RecipeClientService.name);
+  private readonly httpClient: AxiosInstance | null;
+
+  constructor(
+    configService: ConfigService,
+    private readonly serviceAuthService: ServiceAuthService,
+  ) {
+    const recipeServiceUrl =
+      configService.get<ExternalServicesConfig>('externalServices')?.recipeServiceUrl;
+
+    this.httpClient = recipeServiceUrl
+      ? axios.create({
+          baseURL: recipeServiceUrl,
+          timeout: 5000,
+        })
+      : null;
+  }
+
+  /**
+   * Load the ingredients of a recipe and the number of servings they make
+   */
+  async getRecipeIngredients(recipeId: bigint): Promise<RecipeIngredientsData> {
+    const recipe = await this.fetchRecipe(recipeId, 'ingredients');
+
+    return {
+      recipeId: recipeId.toString(),
+      servings: recipe.servings && recipe.servings > 0 ? recipe.servings : 1,
+      ingredients: recipe.ingredients ?? [],
+    };
+  }
+
+  /**
+   * Load the nutrition facts for one serving of a recipe, or null when the
+   * recipe service has no nutrition data for it
+   */
+  async getRecipeNutrition(recipeId: bigint): Promise<NutritionValues | null> {
+    const recipe = await this.fetchRecipe(recipeId, 'nutrition');
+    if (!recipe.nutrition) {
+      return null;
+    }
+
+    const nutrition: NutritionValues = {};
+    for (const nutrient of [...CORE_NUTRIENTS, ...MICRONUTRIENTS]) {
+      const value = recipe.nutrition[nutrient];
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        nutrition[nutrient] = value;
+      }
+    }
+    return nutrition;
+  }
+
+  private async fetchRecipe(
+    recipeId: bigint,
+    resource: 'ingredients' | 'nutrition',
+  ): Promise<RecipeServiceRecipe> {
+    if (!this.httpClient) {
+      throw new ServiceUnavailableException('Recipe service is not configured');
+    }
+
+    try {
+      const headers = await this.serviceAuthService.getAuthorizationHeader();
+      const response = await this.httpClient.get<RecipeServiceRecipe>(
+        `/recipes/${recipeId.toString()}`,
+        { headers },
+      );
+
+      return response.data;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to load ${resource} for recipe ${recipeId}: ${errorMessage}`);
+
+      throw new ServiceUnavailableException(
+        `Could not load ${resource} for recipe ${recipeId} from the recipe service`,
+      );
+    }
+  }
+}
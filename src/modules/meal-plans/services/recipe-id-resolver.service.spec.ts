@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RecipeIdConfig } from '@/config/configuration';
+import { MealPlansRepository } from '../meal-plans.repository';
+import { RecipeIdResolverService } from './recipe-id-resolver.service';
+
+describe('RecipeIdResolverService', () => {
+  const legacyUuid = '550e8400-e29b-41d4-a716-446655440000';
+
+  const mockRepository = {
+    findRecipeIdByLegacyUuid: mock(() => {}),
+  };
+
+  const createService = async (
+    config: RecipeIdConfig | undefined = { acceptLegacyUuids: true },
+  ): Promise<RecipeIdResolverService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecipeIdResolverService,
+        { provide: MealPlansRepository, useValue: mockRepository },
+        { provide: ConfigService, useValue: { get: mock(() => config) } },
+      ],
+    }).compile();
+
+    return module.get<RecipeIdResolverService>(RecipeIdResolverService);
+  };
+
+  beforeEach(() => {
+    mockRepository.findRecipeIdByLegacyUuid.mockReset();
+  });
+
+  describe('resolve', () => {
+    it('should use numeric recipe IDs without a lookup', async () => {
+      const service = await createService();
+
+      expect(await service.resolve('456')).toBe(BigInt(456));
+      expect(mockRepository.findRecipeIdByLegacyUuid).not.toHaveBeenCalled();
+    });
+
+    it('should look legacy recipe UUIDs up', async () => {
+      mockRepository.findRecipeIdByLegacyUuid.mockResolvedValue(BigInt(456) as never);
+      const service = await createService();
+
+      expect(await service.resolve(legacyUuid)).toBe(BigInt(456));
+      expect(mockRepository.findRecipeIdByLegacyUuid).toHaveBeenCalledWith(legacyUuid);
+    });
+
+    it('should accept legacy recipe UUIDs when the migration window is not configured', async () => {
+      mockRepository.findRecipeIdByLegacyUuid.mockResolvedValue(BigInt(456) as never);
+      const service = await createService(undefined);
+
+      expect(await service.resolve(legacyUuid)).toBe(BigInt(456));
+    });
+
+    it('should throw NotFoundException for an unknown legacy recipe UUID', async () => {
+      mockRepository.findRecipeIdByLegacyUuid.mockResolvedValue(null as never);
+      const service = await createService();
+
+      const thrownError = await service.resolve(legacyUuid).catch((err) => err);
+
+      expect(thrownError).toBeInstanceOf(NotFoundException);
+      expect(thrownError.message).toBe(`Recipe with ID ${legacyUuid} not found`);
+    });
+
+    it('should reject legacy recipe UUIDs once the migration window is closed', async () => {
+      const service = await createService({ acceptLegacyUuids: false });
+
+      const thrownError = await service.resolve(legacyUuid).catch((err) => err);
+
+      expect(thrownError).toBeInstanceOf(BadRequestException);
+      expect(mockRepository.findRecipeIdByLegacyUuid).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed recipe IDs', async () => {
+      const service = await createService();
+
+      const thrownError = await service.resolve('recipe-456').catch((err) => err);
+
+      expect(thrownError).toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('resolveMany', () => {
+    it('should resolve each distinct recipe ID once', async () => {
+      mockRepository.findRecipeIdByLegacyUuid.mockResolvedValue(BigInt(789) as never);
+      const service = await createService();
+
+      const result = await service.resolveMany(['456', legacyUuid, '456', legacyUuid]);
+
+      expect(result).toEqual(
+        new Map([
+          ['456', BigInt(456)],
+          [legacyUuid, BigInt(789)],
+        ]),
+      );
+      expect(mockRepository.findRecipeIdByLegacyUuid).toHaveBeenCalledTimes(1);
+    });
+  });
+});
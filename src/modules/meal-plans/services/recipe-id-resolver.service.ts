@@ -0,0 +1,63 @@
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RecipeIdConfig } from '@/config/configuration';
+import { MealPlansRepository } from '../meal-plans.repository';
+import { RecipeIdUtil } from '../utils/recipe-id.util';
+
+/**
+ * Turns recipe IDs from requests into recipe primary keys. Numeric IDs are
+ * used as they are; legacy recipe UUIDs are looked up through Recipe.legacyUuid
+ * for as long as the migration window is open (recipeIds.acceptLegacyUuids).
+ */
+@Injectable()
+export class RecipeIdResolverService {
+  private readonly acceptLegacyUuids: boolean;
+
+  constructor(
+    private readonly mealPlansRepository: MealPlansRepository,
+    configService: ConfigService,
+  ) {
+    this.acceptLegacyUuids =
+      configService.get<RecipeIdConfig>('recipeIds')?.acceptLegacyUuids ?? true;
+  }
+
+  /**
+   * Resolve a recipe ID in either accepted form to the recipe primary key
+   *
+   * @throws BadRequestException if the ID is malformed, or a legacy UUID after the migration window
+   * @throws NotFoundException if no recipe has the legacy UUID
+   */
+  async resolve(recipeId: string): Promise<bigint> {
+    if (RecipeIdUtil.isCanonical(recipeId)) {
+      return BigInt(recipeId);
+    }
+
+    if (!RecipeIdUtil.isLegacy(recipeId)) {
+      throw new BadRequestException(`Invalid recipe ID: ${recipeId}`);
+    }
+
+    if (!this.acceptLegacyUuids) {
+      throw new BadRequestException(
+        `Legacy recipe UUIDs are no longer accepted, use the numeric recipe ID instead of ${recipeId}`,
+      );
+    }
+
+    const resolvedId = await this.mealPlansRepository.findRecipeIdByLegacyUuid(recipeId);
+    if (resolvedId === null) {
+      throw new NotFoundException(`Recipe with ID ${recipeId} not found`);
+    }
+
+    return resolvedId;
+  }
+
+  /**
+   * Resolve several recipe IDs, looking each distinct legacy UUID up once
+   */
+  async resolveMany(recipeIds: string[]): Promise<Map<string, bigint>> {
+    const resolved = new Map<string, bigint>();
+    for (const recipeId of new Set(recipeIds)) {
+      resolved.set(recipeId, await this.resolve(recipeId));
+    }
+    return resolved;
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RecipeServiceNutritionProvider } from './recipe-nutrition.provider';
+import { RecipeClientService } from './recipe-client.service';
+
+describe('RecipeServiceNutritionProvider', () => {
+  let provider: RecipeServiceNutritionProvider;
+
+  const mockRecipeClient = {
+    getRecipeNutrition: mock((recipeId: bigint) =>
+      Promise.resolve(recipeId === BigInt(456) ? { calories: 500, protein: 30 } : null),
+    ),
+  };
+
+  beforeEach(async () => {
+    mockRecipeClient.getRecipeNutrition.mockClear();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecipeServiceNutritionProvider,
+        {
+          provide: RecipeClientService,
+          useValue: mockRecipeClient,
+        },
+      ],
+    }).compile();
+
+    provider = module.get<RecipeServiceNutritionProvider>(RecipeServiceNutritionProvider);
+  });
+
+  it('should load each recipe once and key the results by recipe ID', async () => {
+    const result = await provider.getNutritionPerServing([BigInt(456), BigInt(789), BigInt(456)]);
+
+    expect(mockRecipeClient.getRecipeNutrition).toHaveBeenCalledTimes(2);
+    expect(result).toEqual(new Map([['456', { calories: 500, protein: 30 }]]));
+  });
+
+  it('should propagate recipe service errors', async () => {
+    mockRecipeClient.getRecipeNutrition.mockRejectedValueOnce(new Error('Recipe service down'));
+
+    expect(provider.getNutritionPerServing([BigInt(456)])).rejects.toThrow('Recipe service down');
+  });
+});
@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { RecipeClientService } from './recipe-client.service';
+import { NutritionValues, RecipeNutritionProvider } from '../types/nutrition.types';
+
+/**
+ * Injection token for the active RecipeNutritionProvider
+ */
+export const RECIPE_NUTRITION_PROVIDER = 'RECIPE_NUTRITION_PROVIDER';
+
+/**
+ * Default nutrition provider backed by the recipe service
+ */
+@Injectable()
+export class RecipeServiceNutritionProvider implements RecipeNutritionProvider {
+  constructor(private readonly recipeClient: RecipeClientService) {}
+
+  async getNutritionPerServing(recipeIds: bigint[]): Promise<Map<string, NutritionValues>> {
+    const uniqueRecipeIds = [...new Set(recipeIds)];
+    const results = await Promise.all(
+      uniqueRecipeIds.map(
+        async (recipeId) =>
+          [recipeId.toString(), await this.recipeClient.getRecipeNutrition(recipeId)] as const,
+      ),
+    );
+
+    const nutritionByRecipe = new Map<string, NutritionValues>();
+    for (const [recipeId, nutrition] of results) {
+      if (nutrition) {
+        nutritionByRecipe.set(recipeId, nutrition);
+      }
+    }
+    return nutritionByRecipe;
+  }
+}
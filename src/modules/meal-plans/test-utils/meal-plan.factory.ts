@@ -1,4 +1,12 @@
-import { MealPlan, MealPlanRecipe, User, Recipe, MealType } from '@generated/prisma/client';
+import {
+  MealPlan,
+  MealPlanRecipe,
+  User,
+  Recipe,
+  MealType,
+  MealPlanStatus,
+  MealPlanVisibility,
+} from '@generated/prisma/client';
 
 export class MealPlanFactory {
   static createMealPlan(overrides?: Partial<MealPlan>): MealPlan {
@@ -9,6 +17,14 @@ export class MealPlanFactory {
       description: 'A test meal plan',
       startDate: new Date('2024-01-01'),
       endDate: new Date('2024-01-07'),
+      status: MealPlanStatus.ACTIVE,
+      visibility: MealPlanVisibility.PRIVATE,
+      timezone: 'UTC',
+      archivedAt: null,
+      dailyCaloriesTarget: null,
+      dailyProteinTarget: null,
+      dailyCarbohydratesTarget: null,
+      dailyFatTarget: null,
       createdAt: new Date(),
       updatedAt: new Date(),
       ...overrides,
@@ -21,6 +37,7 @@ export class MealPlanFactory {
       recipeId: BigInt(1),
       mealDate: new Date('2024-01-02'),
       mealType: MealType.LUNCH,
+      servings: 1,
       ...overrides,
     };
   }
@@ -38,6 +55,7 @@ export class MealPlanFactory {
       recipeId: BigInt(1),
       userId: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
       title: 'Test Recipe',
+      legacyUuid: null,
       ...overrides,
     };
   }
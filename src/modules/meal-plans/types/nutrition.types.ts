@@ -0,0 +1,43 @@
+/**
+ * Type definitions for meal plan nutrition rollups
+ */
+
+/**
+ * Nutrients that are always reported: calories (kcal) and macros (g)
+ */
+export const CORE_NUTRIENTS = ['calories', 'protein', 'carbohydrates', 'fat'] as const;
+
+/**
+ * Nutrients that are only reported when the provider has data for them.
+ * Fiber and sugar are in grams, sodium in mg.
+ */
+export const MICRONUTRIENTS = ['fiber', 'sugar', 'sodium'] as const;
+
+export type Nutrient = (typeof CORE_NUTRIENTS)[number] | (typeof MICRONUTRIENTS)[number];
+
+export type NutritionValues = Partial<Record<Nutrient, number>>;
+
+export type MealTypeKey = 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'dessert';
+
+/**
+ * Nutrition totals for a single day of a meal plan
+ */
+export interface DayNutritionData {
+  date: string;
+  totals: NutritionValues;
+  byMealType: Partial<Record<MealTypeKey, NutritionValues>>;
+  // Totals minus the daily targets; positive values are over target
+  targetDifference?: NutritionValues;
+}
+
+/**
+ * Source of per-serving nutrition facts for recipes. Bound to the
+ * RECIPE_NUTRITION_PROVIDER token so it can be swapped per deployment.
+ */
+export interface RecipeNutritionProvider {
+  /**
+   * Nutrition for one serving of each recipe, keyed by recipe ID.
+   * Recipes without nutrition data are left out of the map.
+   */
+  getNutritionPerServing(recipeIds: bigint[]): Promise<Map<string, NutritionValues>>;
+}
@@ -0,0 +1,47 @@
+/**
+ * Type definitions for data loaded from the recipe service
+ */
+
+/**
+ * Ingredient as returned by the recipe service
+ */
+export interface RecipeServiceIngredient {
+  name: string;
+  quantity?: number | null;
+  unit?: string | null;
+  category?: string | null;
+}
+
+/**
+ * Nutrition facts for one serving, as returned by the recipe service.
+ * Calories are in kcal, sodium in mg and everything else in grams.
+ */
+export interface RecipeServiceNutrition {
+  calories?: number | null;
+  protein?: number | null;
+  carbohydrates?: number | null;
+  fat?: number | null;
+  fiber?: number | null;
+  sugar?: number | null;
+  sodium?: number | null;
+}
+
+/**
+ * Recipe payload returned by GET /recipes/{recipeId} on the recipe service
+ */
+export interface RecipeServiceRecipe {
+  recipeId: number | string;
+  title?: string;
+  servings?: number | null;
+  ingredients?: RecipeServiceIngredient[];
+  nutrition?: RecipeServiceNutrition | null;
+}
+
+/**
+ * Ingredients of a single recipe together with the servings they yield
+ */
+export interface RecipeIngredientsData {
+  recipeId: string;
+  servings: number;
+  ingredients: RecipeServiceIngredient[];
+}
@@ -35,6 +35,8 @@ export interface DateRangeValidationArgs extends ValidationConstraintConfig {
   maxDurationDays?: number;
   minDurationDays?: number;
   allowPastDates?: boolean;
+  // Property holding the IANA time zone that decides which date is today (UTC when unset)
+  timeZoneProperty?: string;
 }
 
 /**
@@ -90,7 +92,8 @@ export interface MealPlanWhereClause {
  * Prisma recipe where clause for recipe existence queries
  */
 export interface RecipeWhereClause {
-  recipeId: bigint;
+  recipeId?: bigint;
+  legacyUuid?: string;
   userId?: string;
   deletedAt?: Date | null;
 }
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'bun:test';
+import { CalendarUtil } from './calendar.util';
+import { DateOnlyUtil } from './date-only.util';
+import { WeekStartDay } from '../enums/week-start-day.enum';
+
+describe('CalendarUtil', () => {
+  describe('getWeekStart', () => {
+    // Friday, March 15, 2024
+    const friday = DateOnlyUtil.fromParts(2024, 3, 15);
+
+    it('should start weeks on Monday', () => {
+      expect(CalendarUtil.getWeekStart(friday, WeekStartDay.MONDAY)).toEqual(
+        DateOnlyUtil.fromParts(2024, 3, 11),
+      );
+    });
+
+    it('should start weeks on Sunday', () => {
+      expect(CalendarUtil.getWeekStart(friday, WeekStartDay.SUNDAY)).toEqual(
+        DateOnlyUtil.fromParts(2024, 3, 10),
+      );
+    });
+
+    it('should start weeks on Saturday', () => {
+      expect(CalendarUtil.getWeekStart(friday, WeekStartDay.SATURDAY)).toEqual(
+        DateOnlyUtil.fromParts(2024, 3, 9),
+      );
+    });
+
+    it('should return the date itself when it is the first day of the week', () => {
+      const sunday = DateOnlyUtil.fromParts(2024, 3, 17);
+
+      expect(CalendarUtil.getWeekStart(sunday, WeekStartDay.SUNDAY)).toEqual(sunday);
+      expect(CalendarUtil.getWeekStart(sunday, WeekStartDay.MONDAY)).toEqual(
+        DateOnlyUtil.fromParts(2024, 3, 11),
+      );
+    });
+
+    it('should not modify the input date', () => {
+      const date = DateOnlyUtil.fromParts(2024, 3, 15);
+      CalendarUtil.getWeekStart(date, WeekStartDay.MONDAY);
+
+      expect(date).toEqual(DateOnlyUtil.fromParts(2024, 3, 15));
+    });
+  });
+
+  describe('getDayOfWeekName', () => {
+    it('should name the day in the locale', () => {
+      const friday = DateOnlyUtil.fromParts(2024, 3, 15);
+
+      expect(CalendarUtil.getDayOfWeekName(friday, 'en-US')).toBe('Friday');
+      expect(CalendarUtil.getDayOfWeekName(friday, 'fr-FR')).toBe('vendredi');
+      expect(CalendarUtil.getDayOfWeekName(friday, 'de-DE')).toBe('Freitag');
+    });
+  });
+
+  describe('getMonthName', () => {
+    it('should name the month in the locale', () => {
+      expect(CalendarUtil.getMonthName(3, 'en-US')).toBe('March');
+      expect(CalendarUtil.getMonthName(3, 'es-ES')).toBe('marzo');
+      expect(CalendarUtil.getMonthName(12, 'de-DE')).toBe('Dezember');
+    });
+  });
+
+  describe('isSupportedLocale', () => {
+    it('should accept locales with date formatting data', () => {
+      expect(CalendarUtil.isSupportedLocale('en-GB')).toBe(true);
+      expect(CalendarUtil.isSupportedLocale('fr')).toBe(true);
+    });
+
+    it('should reject unknown and malformed locales', () => {
+      expect(CalendarUtil.isSupportedLocale('xx')).toBe(false);
+      expect(CalendarUtil.isSupportedLocale('not a locale')).toBe(false);
+    });
+  });
+
+  describe('negotiateLocale', () => {
+    it('should return undefined without a header', () => {
+      expect(CalendarUtil.negotiateLocale(undefined)).toBeUndefined();
+      expect(CalendarUtil.negotiateLocale('')).toBeUndefined();
+    });
+
+    it('should pick the first supported locale in header order', () => {
+      expect(CalendarUtil.negotiateLocale('fr-CH, fr;q=0.9, en;q=0.8')).toBe('fr-CH');
+    });
+
+    it('should honour quality values', () => {
+      expect(CalendarUtil.negotiateLocale('en;q=0.5, de-DE;q=0.9')).toBe('de-DE');
+    });
+
+    it('should skip wildcards, rejected and unsupported locales', () => {
+      expect(CalendarUtil.negotiateLocale('*, xx, es;q=0, it;q=0.3')).toBe('it');
+    });
+
+    it('should canonicalize the language tag', () => {
+      expect(CalendarUtil.negotiateLocale('pt-br')).toBe('pt-BR');
+    });
+
+    it('should return undefined when no locale is supported', () => {
+      expect(CalendarUtil.negotiateLocale('xx, *')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { WeekStartDay } from '../enums/week-start-day.enum';
+import { DateOnlyUtil } from './date-only.util';
+
+/**
+ * Date.getUTCDay() index of each day a calendar week can start on
+ */
+const WEEK_START_DAY_INDEX: Record<WeekStartDay, number> = {
+  [WeekStartDay.SUNDAY]: 0,
+  [WeekStartDay.MONDAY]: 1,
+  [WeekStartDay.SATURDAY]: 6,
+};
+
+/**
+ * Utility functions for laying out calendar weeks and naming days and months
+ * in the viewer's locale. Dates are calendar dates (see DateOnlyUtil).
+ */
+export class CalendarUtil {
+  /**
+   * Returns the first day of the week that contains the date
+   */
+  static getWeekStart(date: Date, weekStartDay: WeekStartDay): Date {
+    const daysSinceWeekStart = (date.getUTCDay() - WEEK_START_DAY_INDEX[weekStartDay] + 7) % 7;
+    return DateOnlyUtil.addDays(date, -daysSinceWeekStart);
+  }
+
+  /**
+   * Returns the full name of the day of the week, e.g. "Monday" or "lundi"
+   */
+  static getDayOfWeekName(date: Date, locale: string): string {
+    return new Intl.DateTimeFormat(locale, { weekday: 'long', timeZone: 'UTC' }).format(date);
+  }
+
+  /**
+   * Returns the full name of a month (1-12), e.g. "March" or "mars"
+   */
+  static getMonthName(month: number, locale: string): string {
+    return new Intl.DateTimeFormat(locale, { month: 'long', timeZone: 'UTC' }).format(
+      DateOnlyUtil.fromParts(2000, month, 1),
+    );
+  }
+
+  /**
+   * Whether day and month names can be formatted in the locale
+   */
+  static isSupportedLocale(locale: string): boolean {
+    try {
+      return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+    } catch {
+      // Malformed language tags throw a RangeError
+      return false;
+    }
+  }
+
+  /**
+   * Picks the preferred supported locale from an Accept-Language header,
+   * honouring quality values. Returns undefined when none is supported.
+   */
+  static negotiateLocale(acceptLanguage?: string): string | undefined {
+    if (!acceptLanguage) {
+      return undefined;
+    }
+
+    const candidates = acceptLanguage
+      .split(',')
+      .map((entry) => {
+        const [tag = '', ...params] = entry.trim().split(';');
+        const qParam = params.find((param) => param.trim().startsWith('q='));
+        const quality = qParam ? parseFloat(qParam.trim().slice(2)) : 1;
+        return { tag: tag.trim(), quality: isNaN(quality) ? 0 : quality };
+      })
+      .filter(({ tag, quality }) => tag !== '' && tag !== '*' && quality > 0)
+      .sort((a, b) => b.quality - a.quality);
+
+    const preferred = candidates.find(({ tag }) => this.isSupportedLocale(tag));
+    return preferred ? Intl.getCanonicalLocales(preferred.tag)[0] : undefined;
+  }
+}
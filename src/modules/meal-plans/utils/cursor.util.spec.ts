@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'bun:test';
+import { CursorUtil, type PageCursor } from './cursor.util';
+
+describe('CursorUtil', () => {
+  const cursor: PageCursor = {
+    sortBy: 'startDate',
+    sortOrder: 'asc',
+    direction: 'next',
+    key: new Date('2024-03-01'),
+    id: BigInt(42),
+  };
+
+  describe('encode and decode', () => {
+    it('should round-trip every kind of sort key', () => {
+      for (const key of [new Date('2024-03-01'), 'Weekly', BigInt(7), null]) {
+        const value = CursorUtil.encode({ ...cursor, key });
+
+        expect(CursorUtil.decode(value, 'startDate', 'asc')).toEqual({ ...cursor, key });
+      }
+    });
+
+    it('should encode an opaque URL-safe string', () => {
+      expect(CursorUtil.encode(cursor)).toMatch(/^[A-Za-z0-9_-]+$/);
+    });
+
+    it('should reject cursors of a differently sorted listing', () => {
+      const value = CursorUtil.encode(cursor);
+
+      expect(CursorUtil.decode(value, 'endDate', 'asc')).toBeNull();
+      expect(CursorUtil.decode(value, 'startDate', 'desc')).toBeNull();
+    });
+
+    it('should reject malformed cursors', () => {
+      const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+      const valid = { s: 'startDate', o: 'asc', d: 'n', k: null, i: '1' };
+
+      expect(CursorUtil.decode('not-a-cursor', 'startDate', 'asc')).toBeNull();
+      expect(CursorUtil.decode(encode(null), 'startDate', 'asc')).toBeNull();
+      expect(CursorUtil.decode(encode({ ...valid, i: '-1' }), 'startDate', 'asc')).toBeNull();
+      expect(CursorUtil.decode(encode({ ...valid, d: 'x' }), 'startDate', 'asc')).toBeNull();
+      expect(
+        CursorUtil.decode(encode({ ...valid, k: ['d', 'yesterday'] }), 'startDate', 'asc'),
+      ).toBeNull();
+      expect(CursorUtil.decode(encode({ ...valid, k: ['x', '1'] }), 'startDate', 'asc')).toBeNull();
+    });
+  });
+
+  describe('buildOrderBy', () => {
+    it('should break ties on the id', () => {
+      expect(CursorUtil.buildOrderBy('name', 'tagId', 'asc')).toEqual([
+        { name: 'asc' },
+        { tagId: 'asc' },
+      ]);
+    });
+
+    it('should only order by the id when sorting by it', () => {
+      expect(CursorUtil.buildOrderBy('tagId', 'tagId', 'desc')).toEqual([{ tagId: 'desc' }]);
+    });
+
+    it('should reverse the order for pages before a cursor', () => {
+      expect(CursorUtil.buildOrderBy('name', 'tagId', 'asc', 'prev')).toEqual([
+        { name: 'desc' },
+        { tagId: 'desc' },
+      ]);
+    });
+  });
+
+  describe('buildWhere', () => {
+    const buildWhere = (at: PageCursor, idField: string, nullable?: boolean) =>
+      CursorUtil.buildWhere<Record<string, unknown>>(at, idField, nullable);
+
+    it('should select rows after the key, or with the same key and a later id', () => {
+      expect(buildWhere(cursor, 'id')).toEqual({
+        OR: [{ startDate: { gt: cursor.key } }, { startDate: cursor.key, id: { gt: BigInt(42) } }],
+      });
+    });
+
+    it('should include the nulls sorted last when the key is nullable', () => {
+      expect(buildWhere(cursor, 'id', true)).toEqual({
+        OR: [
+          { startDate: { gt: cursor.key } },
+          { startDate: cursor.key, id: { gt: BigInt(42) } },
+          { startDate: null },
+        ],
+      });
+    });
+
+    it('should select rows before the key for descending listings', () => {
+      expect(buildWhere({ ...cursor, sortOrder: 'desc' }, 'id', true)).toEqual({
+        OR: [{ startDate: { lt: cursor.key } }, { startDate: cursor.key, id: { lt: BigInt(42) } }],
+      });
+    });
+
+    it('should handle a null key', () => {
+      const nullCursor = { ...cursor, key: null };
+
+      expect(buildWhere(nullCursor, 'id', true)).toEqual({
+        startDate: null,
+        id: { gt: BigInt(42) },
+      });
+      expect(buildWhere({ ...nullCursor, direction: 'prev' }, 'id', true)).toEqual({
+        OR: [{ startDate: null, id: { lt: BigInt(42) } }, { startDate: { not: null } }],
+      });
+    });
+
+    it('should only compare ids when sorting by the id', () => {
+      expect(
+        buildWhere({ ...cursor, sortBy: 'tagId', key: BigInt(3), id: BigInt(3) }, 'tagId'),
+      ).toEqual({ tagId: { gt: BigInt(3) } });
+    });
+  });
+
+  describe('toPage', () => {
+    const sort = { sortBy: 'name', sortOrder: 'asc' as const };
+    const position = (row: { id: bigint; name: string }) => ({ key: row.name, id: row.id });
+    const rows = [
+      { id: BigInt(1), name: 'a' },
+      { id: BigInt(2), name: 'b' },
+      { id: BigInt(3), name: 'c' },
+    ];
+
+    it('should drop the extra row and point the next cursor at the last item', () => {
+      const page = CursorUtil.toPage(rows, 2, null, sort, position);
+
+      expect(page.items).toEqual(rows.slice(0, 2));
+      expect(page.hasNext).toBe(true);
+      expect(page.hasPrevious).toBe(false);
+      expect(page.prevCursor).toBeNull();
+      expect(CursorUtil.decode(page.nextCursor!, 'name', 'asc')).toMatchObject({
+        direction: 'next',
+        key: 'b',
+        id: BigInt(2),
+      });
+    });
+
+    it('should report a previous page for skipped offset rows', () => {
+      const page = CursorUtil.toPage(rows.slice(2), 2, null, sort, position, true);
+
+      expect(page.hasNext).toBe(false);
+      expect(page.nextCursor).toBeNull();
+      expect(page.hasPrevious).toBe(true);
+      expect(CursorUtil.decode(page.prevCursor!, 'name', 'asc')).toMatchObject({
+        direction: 'prev',
+        key: 'c',
+      });
+    });
+
+    it('should flip rows fetched before a cursor back into order', () => {
+      const prevCursor: PageCursor = { ...sort, direction: 'prev', key: 'd', id: BigInt(4) };
+      const page = CursorUtil.toPage([...rows].reverse(), 2, prevCursor, sort, position);
+
+      expect(page.items.map((row) => row.name)).toEqual(['b', 'c']);
+      expect(page.hasNext).toBe(true);
+      expect(page.hasPrevious).toBe(true);
+    });
+  });
+
+  describe('toMeta', () => {
+    const page = {
+      items: [],
+      hasNext: true,
+      hasPrevious: false,
+      nextCursor: 'next',
+      prevCursor: null,
+    };
+
+    it('should include the page number and totals when known', () => {
+      expect(CursorUtil.toMeta(page, { limit: 20, page: 1, total: 45 })).toEqual({
+        page: 1,
+        limit: 20,
+        total: 45,
+        totalPages: 3,
+        hasNext: true,
+        hasPrevious: false,
+        nextCursor: 'next',
+        prevCursor: null,
+      });
+    });
+
+    it('should leave out the page number and totals otherwise', () => {
+      expect(CursorUtil.toMeta(page, { limit: 20 })).toEqual({
+        limit: 20,
+        hasNext: true,
+        hasPrevious: false,
+        nextCursor: 'next',
+        prevCursor: null,
+      });
+    });
+  });
+});
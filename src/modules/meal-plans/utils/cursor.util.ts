@@ -0,0 +1,243 @@
+import type { CursorPaginationMetaDto } from '../dto/pagination.dto';
+
+/**
+ * Value of the sort key a cursor points at. Nullable sort keys (such as the
+ * start date of a meal plan) can be null.
+ */
+export type CursorKey = string | Date | bigint | null;
+
+export type CursorDirection = 'next' | 'prev';
+
+/**
+ * Position in a listing sorted by a key, with the id as tie-breaker
+ */
+export interface PageCursor {
+  sortBy: string;
+  sortOrder: 'asc' | 'desc';
+  direction: CursorDirection;
+  key: CursorKey;
+  id: bigint;
+}
+
+/**
+ * One page of a listing fetched with limit + 1 rows, so whether there are
+ * more rows is known without counting them
+ */
+export interface CursorPage<T> {
+  items: T[];
+  hasNext: boolean;
+  hasPrevious: boolean;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+type EncodedKey = ['s' | 'd' | 'b', string] | null;
+
+interface EncodedCursor {
+  s: string;
+  o: 'asc' | 'desc';
+  d: 'n' | 'p';
+  k: EncodedKey;
+  i: string;
+}
+
+const ID_PATTERN = /^\d+$/;
+
+/**
+ * Utility functions for opaque keyset pagination cursors.
+ *
+ * A cursor records the sort key and id of the first or last row of a page,
+ * so the next page starts right after that row however many rows were added
+ * or removed before it. Listings order by the sort key and then the id, and
+ * rely on Postgres sorting nulls last in ascending and first in descending order.
+ */
+export class CursorUtil {
+  static encode(cursor: PageCursor): string {
+    const encoded: EncodedCursor = {
+      s: cursor.sortBy,
+      o: cursor.sortOrder,
+      d: cursor.direction === 'next' ? 'n' : 'p',
+      k: this.encodeKey(cursor.key),
+      i: cursor.id.toString(),
+    };
+    return Buffer.from(JSON.stringify(encoded)).toString('base64url');
+  }
+
+  /**
+   * Decodes a cursor for a listing sorted by the given field and order.
+   * Returns null for malformed cursors and for cursors of a differently
+   * sorted listing, whose position means nothing in this one.
+   */
+  static decode(value: string, sortBy: string, sortOrder: 'asc' | 'desc'): PageCursor | null {
+    let encoded: Partial<EncodedCursor> | null;
+    try {
+      encoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as EncodedCursor;
+    } catch {
+      return null;
+    }
+
+    if (
+      encoded?.s !== sortBy ||
+      encoded.o !== sortOrder ||
+      (encoded.d !== 'n' && encoded.d !== 'p') ||
+      typeof encoded.i !== 'string' ||
+      !ID_PATTERN.test(encoded.i)
+    ) {
+      return null;
+    }
+
+    const key = this.decodeKey(encoded.k);
+    if (key === undefined) {
+      return null;
+    }
+
+    return {
+      sortBy,
+      sortOrder,
+      direction: encoded.d === 'n' ? 'next' : 'prev',
+      key,
+      id: BigInt(encoded.i),
+    };
+  }
+
+  /**
+   * Order of the rows to fetch. Pages before a cursor are fetched in reverse
+   * order, starting next to the cursor, and flipped back by toPage.
+   */
+  static buildOrderBy<TOrderBy>(
+    sortBy: string,
+    idField: string,
+    sortOrder: 'asc' | 'desc',
+    direction: CursorDirection = 'next',
+  ): TOrderBy[] {
+    const order = direction === 'next' ? sortOrder : sortOrder === 'asc' ? 'desc' : 'asc';
+    const orderBy =
+      sortBy === idField ? [{ [idField]: order }] : [{ [sortBy]: order }, { [idField]: order }];
+    return orderBy as TOrderBy[];
+  }
+
+  /**
+   * Where clause for the rows past the cursor in its direction
+   */
+  static buildWhere<TWhere>(cursor: PageCursor, idField: string, nullable = false): TWhere {
+    const ascending = (cursor.sortOrder === 'asc') === (cursor.direction === 'next');
+    const operator = ascending ? 'gt' : 'lt';
+    const afterId = { [idField]: { [operator]: cursor.id } };
+
+    if (cursor.sortBy === idField) {
+      return afterId as TWhere;
+    }
+
+    const sameKey = { [cursor.sortBy]: cursor.key, ...afterId };
+    if (cursor.key === null) {
+      // Nulls come last going up and first going down
+      return (
+        ascending ? sameKey : { OR: [sameKey, { [cursor.sortBy]: { not: null } }] }
+      ) as TWhere;
+    }
+
+    const past: Record<string, unknown>[] = [
+      { [cursor.sortBy]: { [operator]: cursor.key } },
+      sameKey,
+    ];
+    if (ascending && nullable) {
+      past.push({ [cursor.sortBy]: null });
+    }
+    return { OR: past } as TWhere;
+  }
+
+  /**
+   * Builds a page from rows fetched with buildOrderBy and limit + 1 rows.
+   * Without a cursor the rows come from an offset, and hasPreviousOffset
+   * says whether rows were skipped.
+   */
+  static toPage<T>(
+    rows: T[],
+    limit: number,
+    cursor: PageCursor | null,
+    sort: { sortBy: string; sortOrder: 'asc' | 'desc' },
+    position: (row: T) => { key: CursorKey; id: bigint },
+    hasPreviousOffset = false,
+  ): CursorPage<T> {
+    const hasMore = rows.length > limit;
+    const items = rows.slice(0, limit);
+    const backwards = cursor?.direction === 'prev';
+    if (backwards) {
+      items.reverse();
+    }
+
+    const hasNext = backwards || hasMore;
+    const hasPrevious = backwards ? hasMore : cursor !== null || hasPreviousOffset;
+    const cursorAt = (row: T | undefined, direction: CursorDirection) =>
+      row === undefined ? null : this.encode({ ...sort, direction, ...position(row) });
+
+    return {
+      items,
+      hasNext,
+      hasPrevious,
+      nextCursor: hasNext ? cursorAt(items[items.length - 1], 'next') : null,
+      prevCursor: hasPrevious ? cursorAt(items[0], 'prev') : null,
+    };
+  }
+
+  /**
+   * Pagination metadata of a page. The page number only applies without a
+   * cursor, and the totals only when the rows were counted.
+   */
+  static toMeta(
+    page: CursorPage<unknown>,
+    options: { limit: number; page?: number | undefined; total?: number | undefined },
+  ): CursorPaginationMetaDto {
+    return {
+      ...(options.page !== undefined && { page: options.page }),
+      limit: options.limit,
+      ...(options.total !== undefined && {
+        total: options.total,
+        totalPages: Math.ceil(options.total / options.limit),
+      }),
+      hasNext: page.hasNext,
+      hasPrevious: page.hasPrevious,
+      nextCursor: page.nextCursor,
+      prevCursor: page.prevCursor,
+    };
+  }
+
+  private static encodeKey(key: CursorKey): EncodedKey {
+    if (key === null) {
+      return null;
+    }
+    if (key instanceof Date) {
+      return ['d', key.toISOString()];
+    }
+    if (typeof key === 'bigint') {
+      return ['b', key.toString()];
+    }
+    return ['s', key];
+  }
+
+  /**
+   * Returns undefined when the key is malformed
+   */
+  private static decodeKey(encoded: unknown): CursorKey | undefined {
+    if (encoded === null) {
+      return null;
+    }
+    if (!Array.isArray(encoded) || encoded.length !== 2 || typeof encoded[1] !== 'string') {
+      return undefined;
+    }
+
+    const [type, value] = encoded as [unknown, string];
+    switch (type) {
+      case 's':
+        return value;
+      case 'd': {
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? undefined : date;
+      }
+      case 'b':
+        return ID_PATTERN.test(value) ? BigInt(value) : undefined;
+      default:
+        return undefined;
+    }
+  }
+}
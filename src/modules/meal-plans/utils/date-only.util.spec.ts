@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'bun:test';
+import { DateOnlyUtil } from './date-only.util';
+
+describe('DateOnlyUtil', () => {
+  describe('fromParts', () => {
+    it('should build the date at midnight UTC', () => {
+      expect(DateOnlyUtil.fromParts(2024, 3, 15).toISOString()).toBe('2024-03-15T00:00:00.000Z');
+    });
+
+    it('should roll days past the end of the month over', () => {
+      expect(DateOnlyUtil.fromParts(2024, 3, 0)).toEqual(new Date('2024-02-29'));
+      expect(DateOnlyUtil.fromParts(2024, 12, 32)).toEqual(new Date('2025-01-01'));
+    });
+  });
+
+  describe('toDateOnly', () => {
+    it('should drop the time of day', () => {
+      expect(DateOnlyUtil.toDateOnly(new Date('2024-03-15T23:59:59.999Z'))).toEqual(
+        new Date('2024-03-15'),
+      );
+    });
+  });
+
+  describe('parse', () => {
+    it('should parse YYYY-MM-DD strings', () => {
+      expect(DateOnlyUtil.parse('2024-02-29')).toEqual(new Date('2024-02-29'));
+    });
+
+    it('should reject dates that do not exist', () => {
+      expect(DateOnlyUtil.parse('2024-02-30')).toBeNull();
+      expect(DateOnlyUtil.parse('2023-02-29')).toBeNull();
+      expect(DateOnlyUtil.parse('2024-13-01')).toBeNull();
+    });
+
+    it('should reject other formats', () => {
+      expect(DateOnlyUtil.parse('2024-3-15')).toBeNull();
+      expect(DateOnlyUtil.parse('2024-03-15T00:00:00Z')).toBeNull();
+      expect(DateOnlyUtil.parse('15/03/2024')).toBeNull();
+    });
+  });
+
+  describe('format', () => {
+    it('should format the date as YYYY-MM-DD', () => {
+      expect(DateOnlyUtil.format(DateOnlyUtil.fromParts(2024, 3, 5))).toBe('2024-03-05');
+    });
+  });
+
+  describe('addDays', () => {
+    it('should move across month and year ends', () => {
+      expect(DateOnlyUtil.addDays(new Date('2024-02-28'), 2)).toEqual(new Date('2024-03-01'));
+      expect(DateOnlyUtil.addDays(new Date('2024-01-01'), -1)).toEqual(new Date('2023-12-31'));
+    });
+
+    it('should keep whole days across daylight saving changes', () => {
+      // Spring forward in Europe and the US
+      expect(DateOnlyUtil.addDays(new Date('2024-03-30'), 2)).toEqual(new Date('2024-04-01'));
+      expect(DateOnlyUtil.addDays(new Date('2024-03-09'), 2)).toEqual(new Date('2024-03-11'));
+    });
+
+    it('should not change the given date', () => {
+      const date = new Date('2024-03-15');
+      DateOnlyUtil.addDays(date, 1);
+
+      expect(date).toEqual(new Date('2024-03-15'));
+    });
+  });
+
+  describe('diffInDays', () => {
+    it('should count calendar days between dates', () => {
+      expect(DateOnlyUtil.diffInDays(new Date('2024-03-01'), new Date('2024-04-01'))).toBe(31);
+      expect(DateOnlyUtil.diffInDays(new Date('2024-04-01'), new Date('2024-03-01'))).toBe(-31);
+    });
+
+    it('should ignore the time of day', () => {
+      expect(
+        DateOnlyUtil.diffInDays(
+          new Date('2024-03-01T23:00:00.000Z'),
+          new Date('2024-03-02T01:00:00.000Z'),
+        ),
+      ).toBe(1);
+    });
+  });
+
+  describe('isSameDay', () => {
+    it('should compare calendar dates only', () => {
+      expect(
+        DateOnlyUtil.isSameDay(new Date('2024-03-15'), new Date('2024-03-15T18:30:00.000Z')),
+      ).toBe(true);
+      expect(DateOnlyUtil.isSameDay(new Date('2024-03-15'), new Date('2024-03-16'))).toBe(false);
+    });
+  });
+
+  describe('lastDayOfMonth', () => {
+    it('should handle leap years', () => {
+      expect(DateOnlyUtil.lastDayOfMonth(2024, 2)).toEqual(new Date('2024-02-29'));
+      expect(DateOnlyUtil.lastDayOfMonth(2023, 2)).toEqual(new Date('2023-02-28'));
+      expect(DateOnlyUtil.lastDayOfMonth(2024, 12)).toEqual(new Date('2024-12-31'));
+    });
+  });
+
+  describe('today', () => {
+    const now = new Date('2024-03-01T06:00:00.000Z');
+
+    it('should return the date in the time zone', () => {
+      expect(DateOnlyUtil.today('UTC', now)).toEqual(new Date('2024-03-01'));
+      expect(DateOnlyUtil.today('America/Los_Angeles', now)).toEqual(new Date('2024-02-29'));
+      expect(
+        DateOnlyUtil.today('Pacific/Kiritimati', new Date('2024-03-01T12:00:00.000Z')),
+      ).toEqual(new Date('2024-03-02'));
+    });
+  });
+
+  describe('isValidTimeZone', () => {
+    it('should accept IANA time zones', () => {
+      expect(DateOnlyUtil.isValidTimeZone('Europe/Paris')).toBe(true);
+      expect(DateOnlyUtil.isValidTimeZone('UTC')).toBe(true);
+    });
+
+    it('should reject unknown time zones', () => {
+      expect(DateOnlyUtil.isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+      expect(DateOnlyUtil.isValidTimeZone('')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Utility functions for calendar dates (meal dates, plan start and end dates).
+ *
+ * These are Postgres DATE values, which Prisma reads and writes as Date objects
+ * at midnight UTC. A calendar date is therefore always a Date at midnight UTC
+ * and is only ever read and changed through its UTC fields, so results never
+ * depend on the TZ of the server. Time zones only come in when working out
+ * which date it is "today" for someone.
+ */
+export class DateOnlyUtil {
+  /**
+   * Builds the calendar date for a year, month (1-12) and day. Days past the
+   * end of the month roll over, so day 0 is the last day of the previous month.
+   */
+  static fromParts(year: number, month: number, day: number): Date {
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+
+  /**
+   * Drops the time of day, keeping the UTC calendar date
+   */
+  static toDateOnly(date: Date): Date {
+    return this.fromParts(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+  }
+
+  /**
+   * Parses a strict YYYY-MM-DD string. Returns null for anything else,
+   * including dates that do not exist such as 2024-02-30.
+   */
+  static parse(value: string): Date | null {
+    const match = DATE_ONLY_PATTERN.exec(value);
+    if (!match) {
+      return null;
+    }
+
+    const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    const date = this.fromParts(year, month, day);
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+  }
+
+  /**
+   * Formats a calendar date as YYYY-MM-DD
+   */
+  static format(date: Date): string {
+    return date.toISOString().split('T')[0]!;
+  }
+
+  static addDays(date: Date, days: number): Date {
+    const result = this.toDateOnly(date);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result;
+  }
+
+  /**
+   * Number of calendar days from one date to another (negative when `to` is earlier)
+   */
+  static diffInDays(from: Date, to: Date): number {
+    return Math.round(
+      (this.toDateOnly(to).getTime() - this.toDateOnly(from).getTime()) / MS_PER_DAY,
+    );
+  }
+
+  static isSameDay(date1: Date, date2: Date): boolean {
+    return this.diffInDays(date1, date2) === 0;
+  }
+
+  static lastDayOfMonth(year: number, month: number): Date {
+    return this.fromParts(year, month + 1, 0);
+  }
+
+  /**
+   * The calendar date of an instant (now by default) in an IANA time zone
+   */
+  static today(timeZone: string, now: Date = new Date()): Date {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+    }).formatToParts(now);
+    const part = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find((p) => p.type === type)?.value);
+
+    return this.fromParts(part('year'), part('month'), part('day'));
+  }
+
+  /**
+   * Whether a value is an IANA time zone name such as Europe/Paris
+   */
+  static isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      // Unknown time zones throw a RangeError
+      return false;
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'bun:test';
+import { ICalUtil } from './ical.util';
+
+describe('ICalUtil', () => {
+  describe('buildCalendar', () => {
+    it('should build a calendar with one event per entry', () => {
+      const calendar = ICalUtil.buildCalendar(
+        'Weekly Meal Prep',
+        [
+          {
+            uid: '123-20240311-DINNER-456@meal-plan-management',
+            start: new Date('2024-03-11T18:00:00.000Z'),
+            end: new Date('2024-03-11T19:00:00.000Z'),
+            summary: 'Dinner: Pasta, with pesto',
+            description: 'Meal plan: Weekly Meal Prep\nServings: 4',
+          },
+        ],
+        new Date('2024-03-01T09:30:00.000Z'),
+      );
+
+      expect(calendar.split('\r\n')).toEqual([
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Recipe Web App//Meal Plan Management//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        'X-WR-CALNAME:Weekly Meal Prep',
+        'BEGIN:VEVENT',
+        'UID:123-20240311-DINNER-456@meal-plan-management',
+        'DTSTAMP:20240301T093000Z',
+        'DTSTART:20240311T180000',
+        'DTEND:20240311T190000',
+        'SUMMARY:Dinner: Pasta\\, with pesto',
+        'DESCRIPTION:Meal plan: Weekly Meal Prep\\nServings: 4',
+        'END:VEVENT',
+        'END:VCALENDAR',
+        '',
+      ]);
+    });
+
+    it('should build an empty calendar when there are no events', () => {
+      const calendar = ICalUtil.buildCalendar('Meal Plans', []);
+
+      expect(calendar).toContain('X-WR-CALNAME:Meal Plans\r\nEND:VCALENDAR\r\n');
+      expect(calendar).not.toContain('BEGIN:VEVENT');
+    });
+  });
+
+  describe('escapeText', () => {
+    it('should escape special characters', () => {
+      expect(ICalUtil.escapeText('a\\b;c,d\r\ne')).toBe('a\\\\b\\;c\\,d\\ne');
+    });
+  });
+
+  describe('foldLine', () => {
+    it('should leave short lines unchanged', () => {
+      expect(ICalUtil.foldLine('SUMMARY:Dinner')).toBe('SUMMARY:Dinner');
+    });
+
+    it('should fold long lines at 75 octets', () => {
+      const folded = ICalUtil.foldLine(`SUMMARY:${'a'.repeat(150)}`);
+      const lines = folded.split('\r\n');
+
+      expect(lines).toHaveLength(3);
+      expect(lines[0]).toHaveLength(75);
+      expect(lines[1]).toBe(` ${'a'.repeat(74)}`);
+      expect(lines.map((line, index) => (index === 0 ? line : line.slice(1))).join('')).toBe(
+        `SUMMARY:${'a'.repeat(150)}`,
+      );
+    });
+
+    it('should not split multi-byte characters', () => {
+      const folded = ICalUtil.foldLine(`SUMMARY:${'é'.repeat(40)}`);
+
+      for (const line of folded.split('\r\n')) {
+        expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      }
+      expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'é'.repeat(40)}`);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * A single calendar event. Start and end are floating wall-clock times: the
+ * UTC fields of the dates are written without a time zone, so calendar apps
+ * show them in the subscriber's local time (dinner at 18:00 stays at 18:00).
+ */
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+}
+
+const PRODUCT_ID = '-//Recipe Web App//Meal Plan Management//EN';
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Utility functions for building iCalendar (RFC 5545) documents
+ */
+export class ICalUtil {
+  /**
+   * Builds a VCALENDAR document with one VEVENT per event
+   */
+  static buildCalendar(name: string, events: CalendarEvent[], stamp: Date = new Date()): string {
+    const dtStamp = this.formatDateTime(stamp, true);
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${this.escapeText(name)}`,
+    ];
+
+    for (const event of events) {
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${dtStamp}`,
+        `DTSTART:${this.formatDateTime(event.start, false)}`,
+        `DTEND:${this.formatDateTime(event.end, false)}`,
+        `SUMMARY:${this.escapeText(event.summary)}`,
+      );
+      if (event.description) {
+        lines.push(`DESCRIPTION:${this.escapeText(event.description)}`);
+      }
+      lines.push('END:VEVENT');
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map((line) => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Escapes backslashes, semicolons, commas and newlines in TEXT values
+   */
+  static escapeText(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Splits a content line into lines of at most 75 octets. Continuation lines
+   * start with a single space. Multi-byte characters are never split.
+   */
+  static foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    let currentOctets = 0;
+
+    for (const char of line) {
+      const octets = Buffer.byteLength(char);
+      // Continuation lines lose one octet to the leading space
+      const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+      if (currentOctets + octets > limit) {
+        parts.push(current);
+        current = '';
+        currentOctets = 0;
+      }
+      current += char;
+      currentOctets += octets;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+  }
+
+  private static formatDateTime(date: Date, utc: boolean): string {
+    const formatted = date
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .replace(/\.\d{3}Z$/, '');
+    return utc ? `${formatted}Z` : formatted;
+  }
+}
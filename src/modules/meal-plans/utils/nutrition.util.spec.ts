@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'bun:test';
+import { NutritionUtil, NutritionSlot } from './nutrition.util';
+import { NutritionValues } from '../types/nutrition.types';
+
+const slot = (overrides: Partial<NutritionSlot>): NutritionSlot => ({
+  recipeId: BigInt(456),
+  mealDate: new Date('2024-03-01'),
+  mealType: 'DINNER',
+  servings: 1,
+  ...overrides,
+});
+
+describe('NutritionUtil', () => {
+  const nutritionByRecipe = new Map<string, NutritionValues>([
+    ['456', { calories: 500, protein: 30, carbohydrates: 50, fat: 20, sodium: 600 }],
+    ['789', { calories: 250.25, protein: 10, carbohydrates: 30.5, fat: 8 }],
+  ]);
+
+  describe('add', () => {
+    it('should add scaled values and only add micronutrients that are present', () => {
+      const totals = NutritionUtil.emptyTotals();
+
+      NutritionUtil.add(totals, { calories: 100, protein: 5, fiber: 2 }, 3);
+
+      expect(totals).toEqual({ calories: 300, protein: 15, carbohydrates: 0, fat: 0, fiber: 6 });
+    });
+  });
+
+  describe('getTargets', () => {
+    it('should read the target columns that are set', () => {
+      expect(
+        NutritionUtil.getTargets({
+          dailyCaloriesTarget: 2000,
+          dailyProteinTarget: null,
+          dailyCarbohydratesTarget: 250,
+          dailyFatTarget: null,
+        }),
+      ).toEqual({ calories: 2000, carbohydrates: 250 });
+    });
+
+    it('should return null when no targets are set', () => {
+      expect(NutritionUtil.getTargets({ dailyCaloriesTarget: null })).toBeNull();
+      expect(NutritionUtil.getTargets({})).toBeNull();
+    });
+  });
+
+  describe('toTargetColumns', () => {
+    it('should clear targets that are not provided', () => {
+      expect(NutritionUtil.toTargetColumns({ calories: 1800 })).toEqual({
+        dailyCaloriesTarget: 1800,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
+      });
+    });
+  });
+
+  describe('difference', () => {
+    it('should report totals minus targets for targeted nutrients only', () => {
+      expect(
+        NutritionUtil.difference(
+          { calories: 2150.44, protein: 80, carbohydrates: 200, fat: 70 },
+          { calories: 2000, protein: 100 },
+        ),
+      ).toEqual({ calories: 150.4, protein: -20 });
+    });
+  });
+
+  describe('rollupDays', () => {
+    it('should build totals for every day in the range, scaled by slot servings', () => {
+      const days = NutritionUtil.rollupDays(
+        [
+          slot({ servings: 2 }),
+          slot({ recipeId: BigInt(789), mealType: 'BREAKFAST' }),
+          slot({ mealDate: new Date('2024-03-03'), mealType: 'LUNCH' }),
+        ],
+        nutritionByRecipe,
+        new Date('2024-03-01'),
+        new Date('2024-03-03'),
+        null,
+      );
+
+      expect(days.map((day) => day.date)).toEqual(['2024-03-01', '2024-03-02', '2024-03-03']);
+      expect(days[0]).toEqual({
+        date: '2024-03-01',
+        totals: { calories: 1250.3, protein: 70, carbohydrates: 130.5, fat: 48, sodium: 1200 },
+        byMealType: {
+          dinner: { calories: 1000, protein: 60, carbohydrates: 100, fat: 40, sodium: 1200 },
+          breakfast: { calories: 250.3, protein: 10, carbohydrates: 30.5, fat: 8 },
+        },
+      });
+      expect(days[1]).toEqual({
+        date: '2024-03-02',
+        totals: { calories: 0, protein: 0, carbohydrates: 0, fat: 0 },
+        byMealType: {},
+      });
+      expect(days[2]?.byMealType.lunch?.calories).toBe(500);
+    });
+
+    it('should skip recipes without nutrition data', () => {
+      const [day] = NutritionUtil.rollupDays(
+        [slot({ recipeId: BigInt(999) })],
+        nutritionByRecipe,
+        new Date('2024-03-01'),
+        new Date('2024-03-01'),
+        null,
+      );
+
+      expect(day?.totals).toEqual(NutritionUtil.emptyTotals());
+    });
+
+    it('should report how far each day is from the targets', () => {
+      const days = NutritionUtil.rollupDays(
+        [slot({ servings: 3 })],
+        nutritionByRecipe,
+        new Date('2024-03-01'),
+        new Date('2024-03-02'),
+        { calories: 2000, protein: 100 },
+      );
+
+      expect(days[0]?.targetDifference).toEqual({ calories: -500, protein: -10 });
+      expect(days[1]?.targetDifference).toEqual({ calories: -2000, protein: -100 });
+    });
+  });
+
+  describe('sumDays and average', () => {
+    it('should sum days overall and per meal type', () => {
+      const days = NutritionUtil.rollupDays(
+        [
+          slot({}),
+          slot({ mealDate: new Date('2024-03-02') }),
+          slot({ recipeId: BigInt(789), mealType: 'SNACK' }),
+        ],
+        nutritionByRecipe,
+        new Date('2024-03-01'),
+        new Date('2024-03-02'),
+        null,
+      );
+
+      const { totals, byMealType } = NutritionUtil.sumDays(days);
+
+      expect(totals).toEqual({
+        calories: 1250.3,
+        protein: 70,
+        carbohydrates: 130.5,
+        fat: 48,
+        sodium: 1200,
+      });
+      expect(byMealType.dinner?.calories).toBe(1000);
+      expect(byMealType.snack?.calories).toBe(250.3);
+      expect(NutritionUtil.average(totals, days.length)).toEqual({
+        calories: 625.2,
+        protein: 35,
+        carbohydrates: 65.3,
+        fat: 24,
+        sodium: 600,
+      });
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import {
+  CORE_NUTRIENTS,
+  DayNutritionData,
+  MICRONUTRIENTS,
+  MealTypeKey,
+  NutritionValues,
+} from '../types/nutrition.types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Recipe slot fields needed to roll up nutrition
+ */
+export interface NutritionSlot {
+  recipeId: bigint;
+  mealDate: Date;
+  mealType: string;
+  servings: number;
+}
+
+/**
+ * Daily nutrition target columns stored on a meal plan
+ */
+export interface MealPlanNutritionTargetColumns {
+  dailyCaloriesTarget: number | null;
+  dailyProteinTarget: number | null;
+  dailyCarbohydratesTarget: number | null;
+  dailyFatTarget: number | null;
+}
+
+const TARGET_COLUMNS: Record<
+  (typeof CORE_NUTRIENTS)[number],
+  keyof MealPlanNutritionTargetColumns
+> = {
+  calories: 'dailyCaloriesTarget',
+  protein: 'dailyProteinTarget',
+  carbohydrates: 'dailyCarbohydratesTarget',
+  fat: 'dailyFatTarget',
+};
+
+/**
+ * Utility functions for rolling up recipe nutrition across a meal plan
+ */
+export class NutritionUtil {
+  /**
+   * Totals with every core nutrient set to zero
+   */
+  static emptyTotals(): NutritionValues {
+    return { calories: 0, protein: 0, carbohydrates: 0, fat: 0 };
+  }
+
+  /**
+   * Adds values multiplied by factor to totals. Micronutrients are only added
+   * once some recipe reports them, so missing data is not shown as zero.
+   */
+  static add(totals: NutritionValues, values: NutritionValues, factor = 1): void {
+    for (const nutrient of [...CORE_NUTRIENTS, ...MICRONUTRIENTS]) {
+      const value = values[nutrient];
+      if (value !== undefined) {
+        totals[nutrient] = (totals[nutrient] ?? 0) + value * factor;
+      }
+    }
+  }
+
+  /**
+   * Rounds every value to one decimal place
+   */
+  static round(values: NutritionValues): NutritionValues {
+    const rounded: NutritionValues = {};
+    for (const [nutrient, value] of Object.entries(values) as [keyof NutritionValues, number][]) {
+      rounded[nutrient] = Math.round(value * 10) / 10;
+    }
+    return rounded;
+  }
+
+  /**
+   * Divides totals evenly over a number of days
+   */
+  static average(totals: NutritionValues, days: number): NutritionValues {
+    const average: NutritionValues = {};
+    this.add(average, totals, days > 0 ? 1 / days : 0);
+    return this.round(average);
+  }
+
+  /**
+   * Reads the daily targets of a meal plan, or null when none are set
+   */
+  static getTargets(mealPlan: Partial<MealPlanNutritionTargetColumns>): NutritionValues | null {
+    const targets: NutritionValues = {};
+    for (const nutrient of CORE_NUTRIENTS) {
+      const value = mealPlan[TARGET_COLUMNS[nutrient]];
+      if (typeof value === 'number') {
+        targets[nutrient] = value;
+      }
+    }
+    return Object.keys(targets).length > 0 ? targets : null;
+  }
+
+  /**
+   * Maps daily targets to meal plan columns. Targets that are not given are
+   * cleared, so the result always replaces every stored target.
+   */
+  static toTargetColumns(
+    targets: NutritionValues | null | undefined,
+  ): MealPlanNutritionTargetColumns {
+    return {
+      dailyCaloriesTarget: targets?.calories ?? null,
+      dailyProteinTarget: targets?.protein ?? null,
+      dailyCarbohydratesTarget: targets?.carbohydrates ?? null,
+      dailyFatTarget: targets?.fat ?? null,
+    };
+  }
+
+  /**
+   * Totals minus targets for every nutrient that has a target.
+   * Positive values are over target, negative values are under.
+   */
+  static difference(totals: NutritionValues, targets: NutritionValues): NutritionValues {
+    const difference: NutritionValues = {};
+    for (const [nutrient, target] of Object.entries(targets) as [keyof NutritionValues, number][]) {
+      difference[nutrient] = (totals[nutrient] ?? 0) - target;
+    }
+    return this.round(difference);
+  }
+
+  /**
+   * Builds nutrition totals for every day between startDate and endDate
+   * (inclusive). Each slot contributes its recipe's per-serving nutrition
+   * multiplied by the slot servings.
+   */
+  static rollupDays(
+    slots: NutritionSlot[],
+    nutritionByRecipe: Map<string, NutritionValues>,
+    startDate: Date,
+    endDate: Date,
+    targets: NutritionValues | null,
+  ): DayNutritionData[] {
+    const days = new Map<string, DayNutritionData>();
+    const lastDay = this.toDateKey(endDate);
+    for (let time = startDate.getTime(); ; time += MS_PER_DAY) {
+      const date = this.toDateKey(new Date(time));
+      days.set(date, { date, totals: this.emptyTotals(), byMealType: {} });
+      if (date >= lastDay) {
+        break;
+      }
+    }
+
+    for (const slot of slots) {
+      const day = days.get(this.toDateKey(slot.mealDate));
+      const nutrition = nutritionByRecipe.get(slot.recipeId.toString());
+      if (!day || !nutrition) {
+        continue;
+      }
+
+      const mealType = slot.mealType.toLowerCase() as MealTypeKey;
+      day.byMealType[mealType] ??= this.emptyTotals();
+      this.add(day.byMealType[mealType], nutrition, slot.servings);
+      this.add(day.totals, nutrition, slot.servings);
+    }
+
+    return [...days.values()].map((day) => ({
+      date: day.date,
+      totals: this.round(day.totals),
+      byMealType: Object.fromEntries(
+        Object.entries(day.byMealType).map(([mealType, values]) => [mealType, this.round(values)]),
+      ),
+      ...(targets && { targetDifference: this.difference(day.totals, targets) }),
+    }));
+  }
+
+  /**
+   * Sums the totals of several days, overall and per meal type
+   */
+  static sumDays(days: DayNutritionData[]): Omit<DayNutritionData, 'date' | 'targetDifference'> {
+    const totals = this.emptyTotals();
+    const byMealType: Partial<Record<MealTypeKey, NutritionValues>> = {};
+
+    for (const day of days) {
+      this.add(totals, day.totals);
+      for (const [mealType, values] of Object.entries(day.byMealType) as [
+        MealTypeKey,
+        NutritionValues,
+      ][]) {
+        byMealType[mealType] ??= this.emptyTotals();
+        this.add(byMealType[mealType], values);
+      }
+    }
+
+    return {
+      totals: this.round(totals),
+      byMealType: Object.fromEntries(
+        Object.entries(byMealType).map(([mealType, values]) => [mealType, this.round(values)]),
+      ),
+    };
+  }
+
+  private static toDateKey(date: Date): string {
+    return date.toISOString().split('T')[0]!;
+  }
+}
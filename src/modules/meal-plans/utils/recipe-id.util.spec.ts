@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'bun:test';
+import { RecipeIdUtil } from './recipe-id.util';
+
+describe('RecipeIdUtil', () => {
+  const legacyUuid = '550e8400-e29b-41d4-a716-446655440000';
+
+  describe('isCanonical', () => {
+    it('should accept positive numeric strings', () => {
+      expect(RecipeIdUtil.isCanonical('1')).toBe(true);
+      expect(RecipeIdUtil.isCanonical('9223372036854775807')).toBe(true);
+    });
+
+    it('should reject zero, negative, padded and non-numeric values', () => {
+      expect(RecipeIdUtil.isCanonical('0')).toBe(false);
+      expect(RecipeIdUtil.isCanonical('007')).toBe(false);
+      expect(RecipeIdUtil.isCanonical('-1')).toBe(false);
+      expect(RecipeIdUtil.isCanonical(' 1')).toBe(false);
+      expect(RecipeIdUtil.isCanonical(legacyUuid)).toBe(false);
+      expect(RecipeIdUtil.isCanonical(1)).toBe(false);
+    });
+
+    it('should reject values above the largest recipe_id', () => {
+      expect(RecipeIdUtil.isCanonical('9223372036854775808')).toBe(false);
+      expect(RecipeIdUtil.isCanonical('99999999999999999999')).toBe(false);
+    });
+  });
+
+  describe('isLegacy', () => {
+    it('should accept UUIDs in either case', () => {
+      expect(RecipeIdUtil.isLegacy(legacyUuid)).toBe(true);
+      expect(RecipeIdUtil.isLegacy(legacyUuid.toUpperCase())).toBe(true);
+    });
+
+    it('should reject numeric IDs and malformed UUIDs', () => {
+      expect(RecipeIdUtil.isLegacy('123')).toBe(false);
+      expect(RecipeIdUtil.isLegacy('550e8400-e29b-41d4-a716')).toBe(false);
+    });
+  });
+
+  describe('isAccepted', () => {
+    it('should accept both forms and nothing else', () => {
+      expect(RecipeIdUtil.isAccepted('123')).toBe(true);
+      expect(RecipeIdUtil.isAccepted(legacyUuid)).toBe(true);
+      expect(RecipeIdUtil.isAccepted('recipe-123')).toBe(false);
+      expect(RecipeIdUtil.isAccepted(undefined)).toBe(false);
+    });
+  });
+
+  describe('toCanonical', () => {
+    it('should serialize the primary key without precision loss', () => {
+      expect(RecipeIdUtil.toCanonical(BigInt('9223372036854775807'))).toBe('9223372036854775807');
+    });
+  });
+});
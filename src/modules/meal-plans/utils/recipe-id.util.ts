@@ -0,0 +1,53 @@
+/**
+ * Canonical recipe IDs are the positive integer primary key of the recipe,
+ * serialized as a decimal string so they survive JSON without precision loss
+ */
+export const CANONICAL_RECIPE_ID_PATTERN = /^[1-9]\d*$/;
+
+// Largest value of the int8 recipe_id column
+export const MAX_RECIPE_ID = BigInt('9223372036854775807');
+
+/**
+ * Legacy recipe IDs are UUIDs that older clients still send while they migrate
+ * to numeric IDs. They are resolved through Recipe.legacyUuid.
+ */
+export const LEGACY_RECIPE_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Utility functions for recipe identifiers
+ */
+export class RecipeIdUtil {
+  /**
+   * Whether a value is a canonical (numeric string) recipe ID that fits the
+   * recipe_id column
+   */
+  static isCanonical(value: unknown): boolean {
+    return (
+      typeof value === 'string' &&
+      CANONICAL_RECIPE_ID_PATTERN.test(value) &&
+      BigInt(value) <= MAX_RECIPE_ID
+    );
+  }
+
+  /**
+   * Whether a value is a legacy (UUID) recipe ID
+   */
+  static isLegacy(value: unknown): boolean {
+    return typeof value === 'string' && LEGACY_RECIPE_ID_PATTERN.test(value);
+  }
+
+  /**
+   * Whether a value is a recipe ID in either accepted form
+   */
+  static isAccepted(value: unknown): boolean {
+    return this.isCanonical(value) || this.isLegacy(value);
+  }
+
+  /**
+   * Serialize a recipe primary key as a canonical recipe ID
+   */
+  static toCanonical(recipeId: bigint): string {
+    return recipeId.toString();
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  ShoppingListUtil,
+  ShoppingListEntry,
+  UNCATEGORIZED_SHOPPING_LIST_CATEGORY,
+} from './shopping-list.util';
+
+const entry = (overrides: Partial<ShoppingListEntry>): ShoppingListEntry => ({
+  recipeId: '456',
+  name: 'Flour',
+  quantity: 1,
+  unit: null,
+  category: null,
+  ...overrides,
+});
+
+describe('ShoppingListUtil', () => {
+  describe('normalizeUnit', () => {
+    it('should resolve aliases and abbreviations', () => {
+      expect(ShoppingListUtil.normalizeUnit('Tablespoons')?.unit).toBe('tbsp');
+      expect(ShoppingListUtil.normalizeUnit('tsp.')?.unit).toBe('tsp');
+      expect(ShoppingListUtil.normalizeUnit(' grams ')?.unit).toBe('g');
+      expect(ShoppingListUtil.normalizeUnit('lbs')?.unit).toBe('lb');
+      expect(ShoppingListUtil.normalizeUnit('Fluid Ounces')?.unit).toBe('fl oz');
+    });
+
+    it('should return null for unknown or missing units', () => {
+      expect(ShoppingListUtil.normalizeUnit('clove')).toBeNull();
+      expect(ShoppingListUtil.normalizeUnit(null)).toBeNull();
+      expect(ShoppingListUtil.normalizeUnit('')).toBeNull();
+    });
+  });
+
+  describe('aggregate', () => {
+    it('should sum quantities in the shared unit when every entry uses the same unit', () => {
+      const result = ShoppingListUtil.aggregate([
+        entry({ name: 'Flour', quantity: 1, unit: 'cup', category: 'Baking' }),
+        entry({ recipeId: '789', name: 'flour', quantity: 2, unit: 'cups' }),
+      ]);
+
+      expect(result).toEqual([
+        {
+          category: 'Baking',
+          items: [{ name: 'Flour', quantity: 3, unit: 'cup', recipeIds: ['456', '789'] }],
+        },
+      ]);
+    });
+
+    it('should convert mixed units of the same dimension to metric', () => {
+      const result = ShoppingListUtil.aggregate([
+        entry({ name: 'Sugar', quantity: 500, unit: 'g' }),
+        entry({ name: 'Sugar', quantity: 0.75, unit: 'kg' }),
+        entry({ name: 'Milk', quantity: 1, unit: 'cup' }),
+        entry({ name: 'Milk', quantity: 2, unit: 'tbsp' }),
+      ]);
+
+      expect(result[0]?.items).toEqual([
+        { name: 'Milk', quantity: 266.16, unit: 'ml', recipeIds: ['456'] },
+        { name: 'Sugar', quantity: 1.25, unit: 'kg', recipeIds: ['456'] },
+      ]);
+    });
+
+    it('should keep incompatible units as separate items', () => {
+      const result = ShoppingListUtil.aggregate([
+        entry({ name: 'Butter', quantity: 100, unit: 'g' }),
+        entry({ name: 'Butter', quantity: 2, unit: 'tbsp' }),
+        entry({ name: 'Garlic', quantity: 2, unit: 'clove' }),
+        entry({ name: 'Garlic', quantity: 1, unit: 'Clove' }),
+      ]);
+
+      expect(result[0]?.items).toEqual([
+        { name: 'Butter', quantity: 100, unit: 'g', recipeIds: ['456'] },
+        { name: 'Butter', quantity: 2, unit: 'tbsp', recipeIds: ['456'] },
+        { name: 'Garlic', quantity: 3, unit: 'clove', recipeIds: ['456'] },
+      ]);
+    });
+
+    it('should keep the quantity null when no entry specifies one', () => {
+      const result = ShoppingListUtil.aggregate([
+        entry({ name: 'Salt', quantity: null, unit: null }),
+        entry({ recipeId: '789', name: 'Salt', quantity: null, unit: null }),
+      ]);
+
+      expect(result[0]?.items).toEqual([
+        { name: 'Salt', quantity: null, unit: null, recipeIds: ['456', '789'] },
+      ]);
+    });
+
+    it('should round quantities to two decimals', () => {
+      const result = ShoppingListUtil.aggregate([entry({ name: 'Eggs', quantity: 4 / 3 })]);
+
+      expect(result[0]?.items[0]?.quantity).toBe(1.33);
+    });
+
+    it('should group by category and list uncategorized items last', () => {
+      const result = ShoppingListUtil.aggregate([
+        entry({ name: 'Salt', category: null }),
+        entry({ name: 'Tomatoes', category: 'Produce' }),
+        entry({ name: 'Cheese', category: 'Dairy' }),
+        entry({ name: 'Basil', category: ' Produce ' }),
+        entry({ name: 'Cheese', category: 'Deli' }),
+      ]);
+
+      expect(result.map((category) => category.category)).toEqual([
+        'Dairy',
+        'Produce',
+        UNCATEGORIZED_SHOPPING_LIST_CATEGORY,
+      ]);
+      expect(result[1]?.items.map((item) => item.name)).toEqual(['Basil', 'Tomatoes']);
+      expect(result[0]?.items[0]?.quantity).toBe(2);
+    });
+
+    it('should skip entries without a name', () => {
+      expect(ShoppingListUtil.aggregate([entry({ name: '  ' })])).toEqual([]);
+    });
+  });
+});
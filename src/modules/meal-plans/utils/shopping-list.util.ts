@@ -0,0 +1,234 @@
+/**
+ * Ingredient line contributed by a single recipe slot, already scaled to the slot servings
+ */
+export interface ShoppingListEntry {
+  recipeId: string;
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  category: string | null;
+}
+
+/**
+ * Merged ingredient on the shopping list
+ */
+export interface ShoppingListItem {
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  recipeIds: string[];
+}
+
+/**
+ * Shopping list items that belong to the same aisle or category
+ */
+export interface ShoppingListCategory {
+  category: string;
+  items: ShoppingListItem[];
+}
+
+type UnitDimension = 'volume' | 'mass';
+
+interface UnitDefinition {
+  unit: string;
+  dimension: UnitDimension;
+  // Factor to convert one of this unit into the base unit (ml or g)
+  toBase: number;
+}
+
+interface IngredientGroup {
+  name: string;
+  category: string | null;
+  definition: UnitDefinition | null;
+  rawUnit: string | null;
+  units: Set<string>;
+  baseQuantity: number | null;
+  recipeIds: Set<string>;
+}
+
+export const UNCATEGORIZED_SHOPPING_LIST_CATEGORY = 'Other';
+
+const UNIT_DEFINITIONS: Record<string, UnitDefinition> = {
+  ml: { unit: 'ml', dimension: 'volume', toBase: 1 },
+  l: { unit: 'l', dimension: 'volume', toBase: 1000 },
+  tsp: { unit: 'tsp', dimension: 'volume', toBase: 4.92892 },
+  tbsp: { unit: 'tbsp', dimension: 'volume', toBase: 14.7868 },
+  'fl oz': { unit: 'fl oz', dimension: 'volume', toBase: 29.5735 },
+  cup: { unit: 'cup', dimension: 'volume', toBase: 236.588 },
+  pint: { unit: 'pint', dimension: 'volume', toBase: 473.176 },
+  quart: { unit: 'quart', dimension: 'volume', toBase: 946.353 },
+  gallon: { unit: 'gallon', dimension: 'volume', toBase: 3785.41 },
+  mg: { unit: 'mg', dimension: 'mass', toBase: 0.001 },
+  g: { unit: 'g', dimension: 'mass', toBase: 1 },
+  kg: { unit: 'kg', dimension: 'mass', toBase: 1000 },
+  oz: { unit: 'oz', dimension: 'mass', toBase: 28.3495 },
+  lb: { unit: 'lb', dimension: 'mass', toBase: 453.592 },
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  milliliter: 'ml',
+  milliliters: 'ml',
+  millilitre: 'ml',
+  millilitres: 'ml',
+  liter: 'l',
+  liters: 'l',
+  litre: 'l',
+  litres: 'l',
+  teaspoon: 'tsp',
+  teaspoons: 'tsp',
+  tsps: 'tsp',
+  tablespoon: 'tbsp',
+  tablespoons: 'tbsp',
+  tbsps: 'tbsp',
+  tbs: 'tbsp',
+  'fluid ounce': 'fl oz',
+  'fluid ounces': 'fl oz',
+  cups: 'cup',
+  pints: 'pint',
+  pt: 'pint',
+  quarts: 'quart',
+  qt: 'quart',
+  gallons: 'gallon',
+  gal: 'gallon',
+  milligram: 'mg',
+  milligrams: 'mg',
+  gram: 'g',
+  grams: 'g',
+  gr: 'g',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  kgs: 'kg',
+  ounce: 'oz',
+  ounces: 'oz',
+  pound: 'lb',
+  pounds: 'lb',
+  lbs: 'lb',
+};
+
+/**
+ * Utility functions for building shopping lists from recipe ingredients
+ */
+export class ShoppingListUtil {
+  /**
+   * Resolves a unit name or abbreviation to a known unit, or null when the unit
+   * cannot be converted (e.g. "clove", "pinch")
+   */
+  static normalizeUnit(unit: string | null | undefined): UnitDefinition | null {
+    if (!unit) {
+      return null;
+    }
+
+    const key = unit.trim().toLowerCase().replace(/\.$/, '');
+    return UNIT_DEFINITIONS[UNIT_ALIASES[key] ?? key] ?? null;
+  }
+
+  /**
+   * Merges ingredient entries with the same name and a compatible unit, then
+   * groups the merged items by category
+   */
+  static aggregate(entries: ShoppingListEntry[]): ShoppingListCategory[] {
+    const groups = new Map<string, IngredientGroup>();
+
+    for (const entry of entries) {
+      const name = entry.name.trim();
+      if (!name) {
+        continue;
+      }
+
+      const definition = this.normalizeUnit(entry.unit);
+      const rawUnit = entry.unit?.trim() ? entry.unit.trim().toLowerCase() : null;
+      const key = `${name.toLowerCase()}|${definition?.dimension ?? rawUnit ?? ''}`;
+
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          name,
+          category: null,
+          definition,
+          rawUnit,
+          units: new Set<string>(),
+          baseQuantity: null,
+          recipeIds: new Set<string>(),
+        };
+        groups.set(key, group);
+      }
+
+      if (entry.quantity !== null) {
+        group.baseQuantity = (group.baseQuantity ?? 0) + entry.quantity * (definition?.toBase ?? 1);
+      }
+      if (definition) {
+        group.units.add(definition.unit);
+      }
+      if (!group.category && entry.category?.trim()) {
+        group.category = entry.category.trim();
+      }
+      group.recipeIds.add(entry.recipeId);
+    }
+
+    const categories = new Map<string, ShoppingListItem[]>();
+    for (const group of groups.values()) {
+      const category = group.category ?? UNCATEGORIZED_SHOPPING_LIST_CATEGORY;
+      const items = categories.get(category) ?? [];
+      items.push(this.toShoppingListItem(group));
+      categories.set(category, items);
+    }
+
+    return [...categories.entries()]
+      .sort(([a], [b]) => {
+        if (a === UNCATEGORIZED_SHOPPING_LIST_CATEGORY) return 1;
+        if (b === UNCATEGORIZED_SHOPPING_LIST_CATEGORY) return -1;
+        return a.localeCompare(b);
+      })
+      .map(([category, items]) => ({
+        category,
+        items: items.sort((a, b) => a.name.localeCompare(b.name)),
+      }));
+  }
+
+  private static toShoppingListItem(group: IngredientGroup): ShoppingListItem {
+    const recipeIds = [...group.recipeIds];
+
+    if (group.baseQuantity === null) {
+      return {
+        name: group.name,
+        quantity: null,
+        unit: group.definition?.unit ?? group.rawUnit,
+        recipeIds,
+      };
+    }
+
+    if (!group.definition) {
+      return {
+        name: group.name,
+        quantity: this.round(group.baseQuantity),
+        unit: group.rawUnit,
+        recipeIds,
+      };
+    }
+
+    // Keep the recipe unit when every entry used it, otherwise fall back to metric
+    const [onlyUnit] = group.units;
+    const displayUnit =
+      group.units.size === 1 && onlyUnit
+        ? UNIT_DEFINITIONS[onlyUnit]!
+        : this.metricDisplayUnit(group.definition.dimension, group.baseQuantity);
+
+    return {
+      name: group.name,
+      quantity: this.round(group.baseQuantity / displayUnit.toBase),
+      unit: displayUnit.unit,
+      recipeIds,
+    };
+  }
+
+  private static metricDisplayUnit(dimension: UnitDimension, baseQuantity: number): UnitDefinition {
+    if (dimension === 'volume') {
+      return baseQuantity >= 1000 ? UNIT_DEFINITIONS.l! : UNIT_DEFINITIONS.ml!;
+    }
+    return baseQuantity >= 1000 ? UNIT_DEFINITIONS.kg! : UNIT_DEFINITIONS.g!;
+  }
+
+  private static round(quantity: number): number {
+    return Math.round(quantity * 100) / 100;
+  }
+}
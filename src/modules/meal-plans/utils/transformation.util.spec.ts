@@ -186,6 +186,21 @@ describe('MealPlanTransformationUtil', () => {
       expect(result).not.toBeNull();
       expect(result!.recipes).toEqual([{ id: '1', title: 'Recipe 1' }]);
     });
+
+    it('should serialize BigInt recipe and meal plan IDs as numeric strings', () => {
+      const dbModel = {
+        mealPlanId: BigInt(123),
+        userId: 'user-123',
+        name: 'Test Plan',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        recipes: [{ mealPlanId: BigInt(123), recipeId: BigInt(456), mealType: 'DINNER' }],
+      };
+
+      const result = MealPlanTransformationUtil.fromDatabaseModel(dbModel);
+
+      expect(result!.recipes).toEqual([{ mealPlanId: '123', recipeId: '456', mealType: 'DINNER' }]);
+    });
   });
 
   describe('fromDatabaseModels', () => {
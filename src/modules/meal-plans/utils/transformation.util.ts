@@ -12,6 +12,7 @@ import {
   ApiResponse,
   SanitizableFields,
 } from '../types/validation.types';
+import { RecipeIdUtil } from './recipe-id.util';
 
 /**
  * Utility functions for transforming meal plan data
@@ -127,12 +128,28 @@ export class MealPlanTransformationUtil {
 
     // Include additional fields if present
     if (dbModel.recipes) {
-      transformed.recipes = dbModel.recipes;
+      transformed.recipes = dbModel.recipes.map((recipe) => this.fromDatabaseRecipe(recipe));
     }
 
     return transformed;
   }
 
+  /**
+   * Serializes the BigInt IDs of a meal plan recipe as canonical numeric strings
+   */
+  private static fromDatabaseRecipe(recipe: unknown): unknown {
+    if (!recipe || typeof recipe !== 'object') {
+      return recipe;
+    }
+
+    const { recipeId, mealPlanId } = recipe as { recipeId?: unknown; mealPlanId?: unknown };
+    return {
+      ...recipe,
+      ...(typeof recipeId === 'bigint' && { recipeId: RecipeIdUtil.toCanonical(recipeId) }),
+      ...(typeof mealPlanId === 'bigint' && { mealPlanId: mealPlanId.toString() }),
+    };
+  }
+
   /**
    * Transforms array of database models to response format
    */
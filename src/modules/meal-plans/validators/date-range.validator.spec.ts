@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'bun:test';
+import { describe, it, expect, afterEach, setSystemTime } from 'bun:test';
 import { validate } from 'class-validator';
 import { plainToClass } from 'class-transformer';
 import {
@@ -27,6 +27,7 @@ class TestMealPlanDto {
 
   startDate?: Date;
   endDate?: Date;
+  timezone?: string;
 }
 
 class TestMealPlanUpdateDto {
@@ -275,6 +276,55 @@ describe('IsMealPlanDateRangeValid', () => {
     const errors = await validate(dto);
     expect(errors).toHaveLength(0);
   });
+
+  describe('today in the plan time zone', () => {
+    afterEach(() => {
+      setSystemTime();
+    });
+
+    it('should accept a start date that is today where the plan is', async () => {
+      // 06:00 UTC on March 1 is still February 29 in Los Angeles
+      setSystemTime(new Date('2024-03-01T06:00:00.000Z'));
+
+      const dto = plainToClass(TestMealPlanDto, {
+        startDate: new Date('2024-02-29'),
+        endDate: new Date('2024-03-06'),
+        timezone: 'America/Los_Angeles',
+      });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject a start date that is already past where the plan is', async () => {
+      // 20:00 UTC on March 1 is already March 2 in Tokyo
+      setSystemTime(new Date('2024-03-01T20:00:00.000Z'));
+
+      const dto = plainToClass(TestMealPlanDto, {
+        startDate: new Date('2024-03-01'),
+        endDate: new Date('2024-03-07'),
+        timezone: 'Asia/Tokyo',
+      });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]!.constraints!.isDateRangeValid).toContain('cannot be in the past');
+    });
+
+    it('should use UTC when the plan has no valid time zone', async () => {
+      setSystemTime(new Date('2024-03-01T06:00:00.000Z'));
+
+      const dto = plainToClass(TestMealPlanDto, {
+        startDate: new Date('2024-02-29'),
+        endDate: new Date('2024-03-06'),
+        timezone: 'Not/A_Zone',
+      });
+
+      const errors = await validate(dto);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]!.constraints!.isDateRangeValid).toContain('cannot be in the past');
+    });
+  });
 });
 
 describe('IsMealPlanUpdateDateRangeValid', () => {
@@ -9,6 +9,7 @@ import {
   TypedValidationArguments,
   DecoratorTarget,
 } from '../types/validator.types';
+import { DateOnlyUtil } from '../utils/date-only.util';
 
 @ValidatorConstraint({ name: 'isDateRangeValid', async: false })
 export class IsDateRangeValidConstraint implements ValidatorConstraintInterface {
@@ -62,13 +63,8 @@ export class IsDateRangeValidConstraint implements ValidatorConstraintInterface
     }
 
     // Check if past dates are allowed
-    if (!config.allowPastDates) {
-      const now = new Date();
-      now.setHours(0, 0, 0, 0); // Start of today
-
-      if (start < now) {
-        return false;
-      }
+    if (!config.allowPastDates && this.startsInThePast(start, args)) {
+      return false;
     }
 
     return true;
@@ -119,17 +115,25 @@ export class IsDateRangeValidConstraint implements ValidatorConstraintInterface
       return `Meal plan duration must be at least ${config.minDurationDays} day${config.minDurationDays > 1 ? 's' : ''}`;
     }
 
-    if (!config.allowPastDates) {
-      const now = new Date();
-      now.setHours(0, 0, 0, 0);
-
-      if (start < now) {
-        return 'Meal plan start date cannot be in the past';
-      }
+    if (!config.allowPastDates && this.startsInThePast(start, args)) {
+      return 'Meal plan start date cannot be in the past';
     }
 
     return 'Invalid date range';
   }
+
+  /**
+   * Whether the start date is before today in the time zone of the object
+   */
+  private startsInThePast(start: Date, args: TypedValidationArguments): boolean {
+    const config = args.constraints[0] as DateRangeValidationArgs;
+    const timeZone = config.timeZoneProperty ? args.object[config.timeZoneProperty] : undefined;
+    const today = DateOnlyUtil.today(
+      typeof timeZone === 'string' && DateOnlyUtil.isValidTimeZone(timeZone) ? timeZone : 'UTC',
+    );
+
+    return DateOnlyUtil.toDateOnly(start) < today;
+  }
 }
 
 /**
@@ -164,6 +168,7 @@ export function IsMealPlanDateRangeValid(validationOptions?: ValidationOptions)
       maxDurationDays: 90, // 3 months max
       minDurationDays: 1, // At least 1 day
       allowPastDates: false, // No past dates for new meal plans
+      timeZoneProperty: 'timezone',
     },
     validationOptions,
   );
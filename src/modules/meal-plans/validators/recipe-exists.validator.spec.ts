@@ -56,6 +56,25 @@ describe('RecipeExistsConstraint', () => {
       expect(mockPrismaService.recipe.findFirst).not.toHaveBeenCalled();
     });
 
+    it('should look up legacy recipe UUIDs by the legacy UUID column', async () => {
+      mockPrismaService.recipe.findFirst.mockResolvedValueOnce({
+        recipeId: BigInt(123),
+      } as never);
+
+      const isValid = await constraint.validate('550E8400-E29B-41D4-A716-446655440000', {
+        constraints: [{}],
+        object: {},
+      } as any);
+
+      expect(isValid).toBe(true);
+      expect(mockPrismaService.recipe.findFirst).toHaveBeenCalledWith({
+        where: {
+          legacyUuid: '550e8400-e29b-41d4-a716-446655440000',
+        },
+        select: { recipeId: true },
+      });
+    });
+
     it('should pass when recipeId is empty (let other validators handle required)', async () => {
       const isValid = await constraint.validate('', {
         constraints: [{}],
@@ -169,17 +188,14 @@ describe('RecipeExistsConstraint', () => {
       // Error is handled gracefully without logging
     });
 
-    it('should handle BigInt conversion errors', async () => {
-      // Very large number that might cause BigInt issues
-      mockPrismaService.recipe.findFirst.mockResolvedValueOnce(null);
-
+    it('should reject IDs too large for the recipe_id column without querying', async () => {
       const isValid = await constraint.validate('99999999999999999999999999999', {
         constraints: [{}],
         object: {},
       } as any);
 
       expect(isValid).toBe(false);
-      expect(mockPrismaService.recipe.findFirst).toHaveBeenCalled();
+      expect(mockPrismaService.recipe.findFirst).not.toHaveBeenCalled();
     });
   });
 
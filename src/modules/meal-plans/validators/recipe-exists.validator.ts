@@ -12,6 +12,7 @@ import {
   DecoratorTarget,
   RecipeWhereClause,
 } from '../types/validator.types';
+import { RecipeIdUtil } from '../utils/recipe-id.util';
 
 @ValidatorConstraint({ name: 'recipeExists', async: true })
 @Injectable()
@@ -31,29 +32,17 @@ export class RecipeExistsConstraint implements ValidatorConstraintInterface {
       const config = args.constraints[0] as RecipeExistsValidationArgs;
       const object = args.object;
 
-      // Convert string ID to BigInt for database query
-      // First validate that it's a valid number string
+      // Numeric IDs match the primary key, legacy UUIDs the legacy UUID column
       const trimmedId = recipeId.trim();
-      if (!/^-?\d+$/.test(trimmedId)) {
+      let whereClause: RecipeWhereClause;
+      if (RecipeIdUtil.isCanonical(trimmedId)) {
+        whereClause = { recipeId: BigInt(trimmedId) };
+      } else if (RecipeIdUtil.isLegacy(trimmedId)) {
+        whereClause = { legacyUuid: trimmedId.toLowerCase() };
+      } else {
         return false;
       }
 
-      let recipeIdBigInt: bigint;
-      try {
-        recipeIdBigInt = BigInt(trimmedId);
-      } catch {
-        return false;
-      }
-
-      // Recipe IDs should be positive
-      if (recipeIdBigInt <= 0n) {
-        return false;
-      }
-
-      const whereClause: RecipeWhereClause = {
-        recipeId: recipeIdBigInt,
-      };
-
       // If ownership check is required, add user filter
       if (config?.checkOwnership && config.userIdProperty) {
         const userId = object[config.userIdProperty];
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'bun:test';
+import { validate } from 'class-validator';
+import { plainToInstance } from 'class-transformer';
+import { IsRecipeId } from './recipe-id.validator';
+
+class TestRecipeSlotDto {
+  @IsRecipeId()
+  recipeId!: string;
+}
+
+describe('IsRecipeId', () => {
+  const validateRecipeId = async (recipeId: unknown) =>
+    validate(plainToInstance(TestRecipeSlotDto, { recipeId }));
+
+  it('should pass for a numeric recipe ID', async () => {
+    expect(await validateRecipeId('456')).toHaveLength(0);
+  });
+
+  it('should pass for a legacy recipe UUID', async () => {
+    expect(await validateRecipeId('550e8400-e29b-41d4-a716-446655440000')).toHaveLength(0);
+  });
+
+  it('should fail for other values with the recipe ID message', async () => {
+    for (const recipeId of ['0', '-1', 'recipe-456', 456, undefined]) {
+      const errors = await validateRecipeId(recipeId);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]?.constraints).toEqual({
+        isRecipeId: 'Recipe ID must be a numeric string (legacy recipe UUIDs are also accepted)',
+      });
+    }
+  });
+});
@@ -0,0 +1,38 @@
+import {
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+  registerDecorator,
+  ValidationOptions,
+} from 'class-validator';
+import { DecoratorTarget } from '../types/validator.types';
+import { RecipeIdUtil } from '../utils/recipe-id.util';
+
+@ValidatorConstraint({ name: 'isRecipeId', async: false })
+export class IsRecipeIdConstraint implements ValidatorConstraintInterface {
+  validate(value: unknown): boolean {
+    return RecipeIdUtil.isAccepted(value);
+  }
+
+  defaultMessage(): string {
+    return 'Recipe ID must be a numeric string (legacy recipe UUIDs are also accepted)';
+  }
+}
+
+/**
+ * Validates that a value is a recipe ID: a numeric string, or a legacy recipe
+ * UUID during the migration window. Whether legacy UUIDs are still accepted is
+ * decided when they are resolved, see RecipeIdResolverService.
+ * @param validationOptions Standard class-validator options
+ */
+export function IsRecipeId(validationOptions?: ValidationOptions) {
+  return function (object: DecoratorTarget, propertyName: string) {
+    registerDecorator({
+      name: 'isRecipeId',
+      target: object.constructor,
+      propertyName: propertyName,
+      options: validationOptions ?? {},
+      constraints: [],
+      validator: IsRecipeIdConstraint,
+    });
+  };
+}
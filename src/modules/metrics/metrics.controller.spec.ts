@@ -56,7 +56,7 @@ meal_plan_service_http_requests_total{method="GET",route="/api/v1/meal-plans",st
 
 # HELP meal_plan_service_meal_plans_created_total Total number of meal plans created
 # TYPE meal_plan_service_meal_plans_created_total counter
-meal_plan_service_meal_plans_created_total{user_id="user123"} 5`;
+meal_plan_service_meal_plans_created_total{source="new"} 5`;
 
       metricsService.getMetrics.mockResolvedValue(mockMetrics);
 
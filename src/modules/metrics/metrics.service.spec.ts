@@ -58,37 +58,52 @@ describe('MetricsService', () => {
   });
 
   describe('meal plan business metrics', () => {
-    it('should record meal plan creation', async () => {
-      const userId = 'user123';
-
-      service.recordMealPlanCreated(userId);
+    it('should record meal plan creation by source', async () => {
+      service.recordMealPlanCreated('clone');
 
       const metrics = await service.getMetrics();
 
-      expect(metrics).toContain('meal_plan_service_meal_plans_created_total');
-      expect(metrics).toContain(`user_id="${userId}"`);
+      expect(metrics).toContain('meal_plan_service_meal_plans_created_total{source="clone"} 1');
     });
 
-    it('should record meal plan update', async () => {
-      const userId = 'user456';
-
-      service.recordMealPlanUpdated(userId);
+    it('should record meal plan update by change', async () => {
+      service.recordMealPlanUpdated('recipes');
 
       const metrics = await service.getMetrics();
 
-      expect(metrics).toContain('meal_plan_service_meal_plans_updated_total');
-      expect(metrics).toContain(`user_id="${userId}"`);
+      expect(metrics).toContain('meal_plan_service_meal_plans_updated_total{change="recipes"} 1');
     });
 
     it('should record meal plan deletion', async () => {
-      const userId = 'user789';
+      service.recordMealPlanDeleted();
 
-      service.recordMealPlanDeleted(userId);
+      const metrics = await service.getMetrics();
+
+      expect(metrics).toContain('meal_plan_service_meal_plans_deleted_total 1');
+    });
+
+    it('should record favorites and tag changes by action', async () => {
+      service.recordFavorite('added');
+      service.recordFavorite('removed');
+      service.recordTagChange('replaced');
 
       const metrics = await service.getMetrics();
 
-      expect(metrics).toContain('meal_plan_service_meal_plans_deleted_total');
-      expect(metrics).toContain(`user_id="${userId}"`);
+      expect(metrics).toContain('meal_plan_service_meal_plan_favorites_total{action="added"} 1');
+      expect(metrics).toContain('meal_plan_service_meal_plan_favorites_total{action="removed"} 1');
+      expect(metrics).toContain(
+        'meal_plan_service_meal_plan_tag_changes_total{action="replaced"} 1',
+      );
+    });
+
+    it('should not label business metrics with user IDs', async () => {
+      service.recordMealPlanCreated('new');
+      service.recordMealPlanUpdated('details');
+      service.recordMealPlanDeleted();
+
+      const metrics = await service.getMetrics();
+
+      expect(metrics).not.toContain('user_id=');
     });
 
     it('should update active meal plans gauge', async () => {
@@ -102,19 +117,53 @@ describe('MetricsService', () => {
       expect(metrics).toContain(`${count}`);
     });
 
-    it('should handle multiple operations for same user', async () => {
-      const userId = 'user123';
+    it('should add up repeated operations', async () => {
+      service.recordMealPlanCreated('new');
+      service.recordMealPlanCreated('new');
+      service.recordMealPlanUpdated('details');
+
+      const metrics = await service.getMetrics();
+
+      expect(metrics).toContain('meal_plan_service_meal_plans_created_total{source="new"} 2');
+      expect(metrics).toContain('meal_plan_service_meal_plans_updated_total{change="details"} 1');
+    });
 
-      service.recordMealPlanCreated(userId);
-      service.recordMealPlanCreated(userId);
-      service.recordMealPlanUpdated(userId);
+    it('should count active meal plans when metrics are collected', async () => {
+      service.trackActiveMealPlans(() => Promise.resolve(7));
 
       const metrics = await service.getMetrics();
 
-      // Should show count of 2 for created
-      expect(metrics).toContain('meal_plan_service_meal_plans_created_total');
-      expect(metrics).toContain('meal_plan_service_meal_plans_updated_total');
-      expect(metrics).toContain(`user_id="${userId}"`);
+      expect(metrics).toContain('meal_plan_service_active_meal_plans 7');
+    });
+
+    it('should keep the last active meal plan count when counting fails', async () => {
+      service.updateActiveMealPlans(5);
+      service.trackActiveMealPlans(() => Promise.reject(new Error('Connection lost')));
+
+      const metrics = await service.getMetrics();
+
+      expect(metrics).toContain('meal_plan_service_active_meal_plans 5');
+    });
+  });
+
+  describe('trending metrics', () => {
+    it('should record a successful trending refresh and its time', async () => {
+      service.recordTrendingRefresh(1.5, true);
+
+      const metrics = await service.getMetrics();
+
+      expect(metrics).toContain('meal_plan_service_trending_refresh_duration_seconds');
+      expect(metrics).toContain('status="success"');
+      expect(metrics).toMatch(/meal_plan_service_trending_last_refresh_timestamp_seconds [1-9]/);
+    });
+
+    it('should not move the last refresh time when a refresh fails', async () => {
+      service.recordTrendingRefresh(0.2, false);
+
+      const metrics = await service.getMetrics();
+
+      expect(metrics).toContain('status="failure"');
+      expect(metrics).toContain('meal_plan_service_trending_last_refresh_timestamp_seconds 0');
     });
   });
 
@@ -174,7 +223,7 @@ describe('MetricsService', () => {
     it('should return metrics in Prometheus format', async () => {
       // Record some test data
       service.recordHttpRequest('GET', '/test', 200, 0.1);
-      service.recordMealPlanCreated('user123');
+      service.recordMealPlanCreated('new');
 
       const metrics = await service.getMetrics();
 
@@ -205,13 +254,11 @@ describe('MetricsService', () => {
 
   describe('metric labels and values', () => {
     it('should handle special characters in labels', async () => {
-      const userId = 'user-with-special@chars.com';
-
-      service.recordMealPlanCreated(userId);
+      service.recordHttpRequest('GET', '/api/v1/meal-plans?name="quoted"', 200, 0.1);
 
       const metrics = await service.getMetrics();
 
-      expect(metrics).toContain('meal_plan_service_meal_plans_created_total');
+      expect(metrics).toContain('meal_plan_service_http_requests_total');
       // Prometheus should escape or handle special characters appropriately
     });
 
@@ -1,6 +1,12 @@
 import { Injectable } from '@nestjs/common';
 import { Counter, Gauge, Histogram, register, collectDefaultMetrics } from 'prom-client';
 
+// Label values are fixed sets so that series counts stay bounded
+export type MealPlanCreationSource = 'new' | 'clone' | 'template';
+export type MealPlanChange = 'details' | 'status' | 'recipes';
+export type FavoriteAction = 'added' | 'removed';
+export type TagAction = 'added' | 'replaced' | 'removed';
+
 @Injectable()
 export class MetricsService {
   // HTTP metrics
@@ -12,6 +18,13 @@ export class MetricsService {
   private readonly mealPlansUpdatedCounter: Counter<string>;
   private readonly mealPlansDeletedCounter: Counter<string>;
   private readonly activeMealPlansGauge: Gauge<string>;
+  private readonly favoritesCounter: Counter<string>;
+  private readonly tagChangesCounter: Counter<string>;
+  private countActiveMealPlans?: () => Promise<number>;
+
+  // Trending metrics
+  private readonly trendingRefreshDurationHistogram: Histogram<string>;
+  private readonly trendingLastRefreshGauge: Gauge<string>;
 
   // Database metrics
   private readonly databaseQueryDurationHistogram: Histogram<string>;
@@ -40,24 +53,63 @@ export class MetricsService {
     this.mealPlansCreatedCounter = new Counter({
       name: 'meal_plan_service_meal_plans_created_total',
       help: 'Total number of meal plans created',
-      labelNames: ['user_id'],
+      labelNames: ['source'],
     });
 
     this.mealPlansUpdatedCounter = new Counter({
       name: 'meal_plan_service_meal_plans_updated_total',
       help: 'Total number of meal plans updated',
-      labelNames: ['user_id'],
+      labelNames: ['change'],
     });
 
     this.mealPlansDeletedCounter = new Counter({
       name: 'meal_plan_service_meal_plans_deleted_total',
       help: 'Total number of meal plans deleted',
-      labelNames: ['user_id'],
     });
 
+    // Counted at scrape time when a source is registered, so every instance
+    // reports the database total rather than its own share of writes
+    const countActiveMealPlans = () => this.countActiveMealPlans;
     this.activeMealPlansGauge = new Gauge({
       name: 'meal_plan_service_active_meal_plans',
       help: 'Number of currently active meal plans',
+      async collect() {
+        const count = countActiveMealPlans();
+        if (!count) {
+          return;
+        }
+
+        try {
+          this.set(await count());
+        } catch {
+          // Keep the last value rather than failing the whole scrape
+        }
+      },
+    });
+
+    this.favoritesCounter = new Counter({
+      name: 'meal_plan_service_meal_plan_favorites_total',
+      help: 'Total number of meal plans favorited or unfavorited',
+      labelNames: ['action'],
+    });
+
+    this.tagChangesCounter = new Counter({
+      name: 'meal_plan_service_meal_plan_tag_changes_total',
+      help: 'Total number of changes to the tags of meal plans',
+      labelNames: ['action'],
+    });
+
+    // Trending Metrics
+    this.trendingRefreshDurationHistogram = new Histogram({
+      name: 'meal_plan_service_trending_refresh_duration_seconds',
+      help: 'Duration of trending score refreshes in seconds',
+      labelNames: ['status'],
+      buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+    });
+
+    this.trendingLastRefreshGauge = new Gauge({
+      name: 'meal_plan_service_trending_last_refresh_timestamp_seconds',
+      help: 'Unix time of the last successful trending score refresh',
     });
 
     // Database Metrics
@@ -86,22 +138,22 @@ export class MetricsService {
   /**
    * Record meal plan creation
    */
-  recordMealPlanCreated(userId: string): void {
-    this.mealPlansCreatedCounter.inc({ user_id: userId });
+  recordMealPlanCreated(source: MealPlanCreationSource): void {
+    this.mealPlansCreatedCounter.inc({ source });
   }
 
   /**
    * Record meal plan update
    */
-  recordMealPlanUpdated(userId: string): void {
-    this.mealPlansUpdatedCounter.inc({ user_id: userId });
+  recordMealPlanUpdated(change: MealPlanChange): void {
+    this.mealPlansUpdatedCounter.inc({ change });
   }
 
   /**
    * Record meal plan deletion
    */
-  recordMealPlanDeleted(userId: string): void {
-    this.mealPlansDeletedCounter.inc({ user_id: userId });
+  recordMealPlanDeleted(): void {
+    this.mealPlansDeletedCounter.inc();
   }
 
   /**
@@ -111,6 +163,42 @@ export class MetricsService {
     this.activeMealPlansGauge.set(count);
   }
 
+  /**
+   * Count active meal plans with the given function whenever metrics are
+   * collected
+   */
+  trackActiveMealPlans(countActiveMealPlans: () => Promise<number>): void {
+    this.countActiveMealPlans = countActiveMealPlans;
+  }
+
+  /**
+   * Record a meal plan being favorited or unfavorited
+   */
+  recordFavorite(action: FavoriteAction): void {
+    this.favoritesCounter.inc({ action });
+  }
+
+  /**
+   * Record tags being added to, replaced on or removed from a meal plan
+   */
+  recordTagChange(action: TagAction): void {
+    this.tagChangesCounter.inc({ action });
+  }
+
+  /**
+   * Record a trending score refresh; only successful refreshes move the last
+   * refresh time
+   */
+  recordTrendingRefresh(duration: number, succeeded: boolean): void {
+    this.trendingRefreshDurationHistogram.observe(
+      { status: succeeded ? 'success' : 'failure' },
+      duration,
+    );
+    if (succeeded) {
+      this.trendingLastRefreshGauge.setToCurrentTime();
+    }
+  }
+
   /**
    * Record database query metrics
    */
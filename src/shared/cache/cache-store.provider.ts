@@ -0,0 +1,20 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisConfig } from '@/config/configuration';
+import { CACHE_STORE, CacheStore } from './cache.store';
+import { MemoryCacheStore } from './memory-cache.store';
+import { RedisCacheStore } from './redis-cache.store';
+
+/**
+ * Provides the Redis cache store when Redis is enabled, and the in-memory
+ * store otherwise
+ */
+export const cacheStoreProvider: Provider = {
+  provide: CACHE_STORE,
+  useFactory: (configService: ConfigService): CacheStore => {
+    const redisConfig = configService.get<RedisConfig>('redis');
+
+    return redisConfig?.enabled ? RedisCacheStore.fromConfig(redisConfig) : new MemoryCacheStore();
+  },
+  inject: [ConfigService],
+};
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CacheService } from './cache.service';
+import { CACHE_STORE } from './cache.store';
+import { MemoryCacheStore } from './memory-cache.store';
+
+describe('CacheService', () => {
+  let service: CacheService;
+  let store: MemoryCacheStore;
+  let ttlSeconds: number;
+
+  const createService = async (): Promise<CacheService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CacheService,
+        { provide: CACHE_STORE, useValue: store },
+        {
+          provide: ConfigService,
+          useValue: { get: mock(() => ({ ttlSeconds })) },
+        },
+      ],
+    }).compile();
+
+    return module.get<CacheService>(CacheService);
+  };
+
+  beforeEach(async () => {
+    store = new MemoryCacheStore();
+    ttlSeconds = 60;
+    service = await createService();
+  });
+
+  describe('getOrSet', () => {
+    it('should load and cache the value on a miss', async () => {
+      const loader = mock(() => Promise.resolve({ name: 'Week 1' }));
+
+      const result = await service.getOrSet('meal-plans:by-id:1', ['meal-plan:1'], loader);
+
+      expect(result).toEqual({ name: 'Week 1' });
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(await store.get('meal-plans:by-id:1')).toBe('{"name":"Week 1"}');
+    });
+
+    it('should serve the cached value on a hit', async () => {
+      const loader = mock(() => Promise.resolve({ name: 'Week 1' }));
+      await service.getOrSet('meal-plans:by-id:1', ['meal-plan:1'], loader);
+
+      const result = await service.getOrSet('meal-plans:by-id:1', ['meal-plan:1'], loader);
+
+      expect(result).toEqual({ name: 'Week 1' });
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('should load the value when the store fails', async () => {
+      store.get = mock(() => Promise.reject(new Error('Connection is closed')));
+      store.set = mock(() => Promise.reject(new Error('Connection is closed')));
+
+      const result = await service.getOrSet('meal-plans:by-id:1', [], () =>
+        Promise.resolve({ name: 'Week 1' }),
+      );
+
+      expect(result).toEqual({ name: 'Week 1' });
+    });
+
+    it('should not cache when the TTL is 0', async () => {
+      ttlSeconds = 0;
+      service = await createService();
+
+      await service.getOrSet('meal-plans:by-id:1', [], () => Promise.resolve({ name: 'Week 1' }));
+
+      expect(await store.get('meal-plans:by-id:1')).toBeNull();
+    });
+  });
+
+  describe('invalidate', () => {
+    it('should reload values after their tag is invalidated', async () => {
+      const loader = mock(() => Promise.resolve({ name: 'Week 1' }));
+      await service.getOrSet('meal-plans:by-id:1', ['meal-plan:1'], loader);
+
+      await service.invalidate('meal-plan:1');
+      await service.getOrSet('meal-plans:by-id:1', ['meal-plan:1'], loader);
+
+      expect(loader).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not throw when the store fails', async () => {
+      store.invalidateTags = mock(() => Promise.reject(new Error('Connection is closed')));
+
+      expect(service.invalidate('meal-plan:1')).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CacheConfig } from '@/config/configuration';
+import { CACHE_STORE } from './cache.store';
+import type { CacheStore } from './cache.store';
+
+const DEFAULT_TTL_SECONDS = 60;
+
+/**
+ * Caches JSON-serializable responses under a key and a set of tags. Writes
+ * invalidate the tags of the responses they change, and every entry expires
+ * after the configured TTL regardless. Store failures are logged and never
+ * fail the request: reads fall back to the loader.
+ */
+@Injectable()
+export class CacheService {
+  private readonly logger = new Logger(CacheService.name);
+  private readonly ttlSeconds: number;
+
+  constructor(
+    @Inject(CACHE_STORE) private readonly store: CacheStore,
+    configService: ConfigService,
+  ) {
+    this.ttlSeconds = configService.get<CacheConfig>('cache')?.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+  }
+
+  /**
+   * Return the cached value of a key, or load, cache and return it. Cached
+   * values are plain JSON, so class instances come back as plain objects.
+   *
+   * @param key - Key of the cached value
+   * @param tags - Tags that invalidate the cached value
+   * @param loader - Loads the value on a cache miss
+   */
+  async getOrSet<T>(key: string, tags: string[], loader: () => Promise<T>): Promise<T> {
+    if (this.ttlSeconds <= 0) {
+      return loader();
+    }
+
+    const cached = await this.runSafely(`read ${key}`, () => this.store.get(key));
+    if (typeof cached === 'string') {
+      return JSON.parse(cached) as T;
+    }
+
+    const value = await loader();
+    await this.runSafely(`write ${key}`, () =>
+      this.store.set(key, JSON.stringify(value), this.ttlSeconds, tags),
+    );
+
+    return value;
+  }
+
+  /**
+   * Drop every cached value stored with any of the tags
+   */
+  async invalidate(...tags: string[]): Promise<void> {
+    await this.runSafely(`invalidate ${tags.join(', ')}`, () => this.store.invalidateTags(tags));
+  }
+
+  private async runSafely<T>(action: string, operation: () => Promise<T>): Promise<T | undefined> {
+    try {
+      return await operation();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to ${action} in the cache: ${errorMessage}`);
+      return undefined;
+    }
+  }
+}
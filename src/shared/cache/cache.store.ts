@@ -0,0 +1,14 @@
+/**
+ * Injection token for the active CacheStore
+ */
+export const CACHE_STORE = 'CACHE_STORE';
+
+/**
+ * Key-value store behind CacheService. Entries expire after their TTL and can
+ * be dropped earlier through any of the tags they were stored with.
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number, tags: string[]): Promise<void>;
+  invalidateTags(tags: string[]): Promise<void>;
+}
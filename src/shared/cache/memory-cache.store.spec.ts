@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach, setSystemTime } from 'bun:test';
+import { MemoryCacheStore } from './memory-cache.store';
+
+describe('MemoryCacheStore', () => {
+  let store: MemoryCacheStore;
+
+  beforeEach(() => {
+    store = new MemoryCacheStore();
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  it('should return stored values', async () => {
+    await store.set('meal-plans:by-id:1', '{"name":"Week 1"}', 60, ['meal-plan:1']);
+
+    expect(await store.get('meal-plans:by-id:1')).toBe('{"name":"Week 1"}');
+  });
+
+  it('should return null for unknown keys', async () => {
+    expect(await store.get('meal-plans:by-id:1')).toBeNull();
+  });
+
+  it('should expire values after their TTL', async () => {
+    setSystemTime(new Date('2024-03-01T10:00:00.000Z'));
+    await store.set('meal-plans:by-id:1', '{}', 60, []);
+
+    setSystemTime(new Date('2024-03-01T10:01:00.000Z'));
+
+    expect(await store.get('meal-plans:by-id:1')).toBeNull();
+  });
+
+  it('should prune expired values and their tags on a later write', async () => {
+    setSystemTime(new Date('2024-03-01T10:00:00.000Z'));
+    store = new MemoryCacheStore();
+    await store.set('oauth2:introspection:a', '{}', 30, ['meal-plan:1']);
+
+    setSystemTime(new Date('2024-03-01T10:01:00.000Z'));
+    await store.set('oauth2:introspection:b', '{}', 30, []);
+
+    const internals = store as unknown as {
+      entries: Map<string, unknown>;
+      keysByTag: Map<string, Set<string>>;
+    };
+    expect([...internals.entries.keys()]).toEqual(['oauth2:introspection:b']);
+    expect(internals.keysByTag.size).toBe(0);
+  });
+
+  it('should drop every value stored with an invalidated tag', async () => {
+    await store.set('meal-plans:by-id:1:full', '{}', 60, ['meal-plan:1']);
+    await store.set('meal-plans:by-id:1:week', '{}', 60, ['meal-plan:1']);
+    await store.set('meal-plans:by-id:2:full', '{}', 60, ['meal-plan:2']);
+
+    await store.invalidateTags(['meal-plan:1']);
+
+    expect(await store.get('meal-plans:by-id:1:full')).toBeNull();
+    expect(await store.get('meal-plans:by-id:1:week')).toBeNull();
+    expect(await store.get('meal-plans:by-id:2:full')).toBe('{}');
+  });
+});
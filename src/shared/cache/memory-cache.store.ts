@@ -0,0 +1,82 @@
+import { CacheStore } from './cache.store';
+
+// Expired entries are only dropped on read, so sweep them at most this often
+const PRUNE_INTERVAL_MS = 60_000;
+
+interface MemoryCacheEntry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * In-process cache store used when Redis is disabled, so tests and local runs
+ * work without a Redis server. Entries are not shared between instances.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, MemoryCacheEntry>();
+  private readonly keysByTag = new Map<string, Set<string>>();
+  private lastPrunedAt = Date.now();
+
+  get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return Promise.resolve(null);
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return Promise.resolve(null);
+    }
+
+    return Promise.resolve(entry.value);
+  }
+
+  set(key: string, value: string, ttlSeconds: number, tags: string[]): Promise<void> {
+    this.pruneExpiredEntries();
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+    for (const tag of tags) {
+      const keys = this.keysByTag.get(tag) ?? new Set<string>();
+      keys.add(key);
+      this.keysByTag.set(tag, keys);
+    }
+
+    return Promise.resolve();
+  }
+
+  invalidateTags(tags: string[]): Promise<void> {
+    for (const tag of tags) {
+      for (const key of this.keysByTag.get(tag) ?? []) {
+        this.entries.delete(key);
+      }
+      this.keysByTag.delete(tag);
+    }
+
+    return Promise.resolve();
+  }
+
+  private pruneExpiredEntries(): void {
+    const now = Date.now();
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPrunedAt = now;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+
+    for (const [tag, keys] of this.keysByTag) {
+      for (const key of keys) {
+        if (!this.entries.has(key)) {
+          keys.delete(key);
+        }
+      }
+      if (keys.size === 0) {
+        this.keysByTag.delete(tag);
+      }
+    }
+  }
+}
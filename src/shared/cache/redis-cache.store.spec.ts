@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
+import type Redis from 'ioredis';
+import { RedisCacheStore } from './redis-cache.store';
+
+describe('RedisCacheStore', () => {
+  let store: RedisCacheStore;
+  let transaction: {
+    set: Mock<(...args: unknown[]) => unknown>;
+    sadd: Mock<(...args: unknown[]) => unknown>;
+    expire: Mock<(...args: unknown[]) => unknown>;
+    exec: Mock<(...args: unknown[]) => unknown>;
+  };
+  let client: {
+    on: Mock<(...args: unknown[]) => unknown>;
+    get: Mock<(...args: unknown[]) => unknown>;
+    multi: Mock<(...args: unknown[]) => unknown>;
+    smembers: Mock<(...args: unknown[]) => unknown>;
+    del: Mock<(...args: unknown[]) => unknown>;
+    quit: Mock<(...args: unknown[]) => unknown>;
+  };
+
+  beforeEach(() => {
+    transaction = {
+      set: mock(() => transaction),
+      sadd: mock(() => transaction),
+      expire: mock(() => transaction),
+      exec: mock(() => Promise.resolve([])),
+    };
+    client = {
+      on: mock(() => client),
+      get: mock(() => Promise.resolve('{}')),
+      multi: mock(() => transaction),
+      smembers: mock(() => Promise.resolve([])),
+      del: mock(() => Promise.resolve(0)),
+      quit: mock(() => Promise.resolve('OK')),
+    };
+
+    store = new RedisCacheStore(client as unknown as Redis);
+  });
+
+  it('should read values by key', async () => {
+    const result = await store.get('meal-plans:by-id:1');
+
+    expect(result).toBe('{}');
+    expect(client.get).toHaveBeenCalledWith('meal-plans:by-id:1');
+  });
+
+  it('should store the value and add its key to each tag set in one transaction', async () => {
+    await store.set('meal-plans:by-id:1', '{}', 60, ['meal-plan:1', 'meal-plans:trending']);
+
+    expect(transaction.set).toHaveBeenCalledWith('meal-plans:by-id:1', '{}', 'EX', 60);
+    expect(transaction.sadd).toHaveBeenCalledWith('tag:meal-plan:1', 'meal-plans:by-id:1');
+    expect(transaction.sadd).toHaveBeenCalledWith('tag:meal-plans:trending', 'meal-plans:by-id:1');
+    expect(transaction.expire).toHaveBeenCalledWith('tag:meal-plan:1', 60);
+    expect(transaction.exec).toHaveBeenCalledTimes(1);
+  });
+
+  it('should delete the keys of invalidated tags together with the tag sets', async () => {
+    client.smembers.mockImplementation((tagKey) =>
+      Promise.resolve(
+        tagKey === 'tag:meal-plan:1' ? ['meal-plans:by-id:1:a', 'meal-plans:by-id:1:b'] : [],
+      ),
+    );
+
+    await store.invalidateTags(['meal-plan:1', 'meal-plans:trending']);
+
+    expect(client.del).toHaveBeenCalledWith(
+      'meal-plans:by-id:1:a',
+      'meal-plans:by-id:1:b',
+      'tag:meal-plan:1',
+      'tag:meal-plans:trending',
+    );
+  });
+
+  it('should close the connection on module destroy', async () => {
+    await store.onModuleDestroy();
+
+    expect(client.quit).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,70 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import Redis from 'ioredis';
+import { RedisConfig } from '@/config/configuration';
+import { CacheStore } from './cache.store';
+
+const KEY_PREFIX = 'meal-plan-service:cache:';
+
+/**
+ * Cache store backed by Redis, shared by every instance of the service.
+ * Each tag is a set holding the keys stored with it, so invalidating a tag
+ * deletes those keys together with the set. Tag sets expire along with the
+ * newest entry added to them.
+ */
+export class RedisCacheStore implements CacheStore, OnModuleDestroy {
+  private readonly logger = new Logger(RedisCacheStore.name);
+
+  constructor(private readonly client: Redis) {
+    // Without a listener, connection errors are reported as unhandled
+    this.client.on('error', (error: Error) => {
+      this.logger.warn(`Redis connection error: ${error.message}`);
+    });
+  }
+
+  /**
+   * Create a store connected with the Redis settings. Commands fail right away
+   * while Redis is unreachable instead of queueing, so reads fall back to the
+   * database rather than waiting for a reconnect.
+   */
+  static fromConfig(config: RedisConfig): RedisCacheStore {
+    return new RedisCacheStore(
+      new Redis({
+        host: config.host,
+        port: config.port,
+        db: config.db,
+        ...(config.user && { username: config.user }),
+        ...(config.password && { password: config.password }),
+        keyPrefix: KEY_PREFIX,
+        enableOfflineQueue: false,
+        maxRetriesPerRequest: 1,
+      }),
+    );
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.client.quit();
+  }
+
+  get(key: string): Promise<string | null> {
+    return this.client.get(key);
+  }
+
+  async set(key: string, value: string, ttlSeconds: number, tags: string[]): Promise<void> {
+    const transaction = this.client.multi().set(key, value, 'EX', ttlSeconds);
+    for (const tag of tags) {
+      transaction.sadd(this.tagKey(tag), key).expire(this.tagKey(tag), ttlSeconds);
+    }
+    await transaction.exec();
+  }
+
+  async invalidateTags(tags: string[]): Promise<void> {
+    const tagKeys = tags.map((tag) => this.tagKey(tag));
+    const keys = await Promise.all(tagKeys.map((tagKey) => this.client.smembers(tagKey)));
+
+    await this.client.del(...keys.flat(), ...tagKeys);
+  }
+
+  private tagKey(tag: string): string {
+    return `tag:${tag}`;
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
+import { createQueryMetricsExtension } from './query-metrics.extension';
+
+type AllOperations = (params: {
+  model?: string;
+  operation: string;
+  args: unknown;
+  query: (args: unknown) => Promise<unknown>;
+}) => Promise<unknown>;
+
+describe('createQueryMetricsExtension', () => {
+  let metricsService: { recordDatabaseQuery: Mock<(...args: unknown[]) => void> };
+  let allOperations: AllOperations;
+
+  beforeEach(() => {
+    metricsService = { recordDatabaseQuery: mock(() => {}) };
+
+    // Capture the extension definition that would be passed to $extends
+    const extension = createQueryMetricsExtension(metricsService) as unknown as (client: {
+      $extends: (definition: { query: { $allOperations: AllOperations } }) => unknown;
+    }) => unknown;
+    extension({
+      $extends: (definition) => {
+        allOperations = definition.query.$allOperations;
+        return definition;
+      },
+    });
+  });
+
+  it('should record the duration of a model query by operation and model', async () => {
+    const query = mock(() => Promise.resolve([{ mealPlanId: BigInt(1) }]));
+
+    const result = await allOperations({
+      model: 'MealPlan',
+      operation: 'findMany',
+      args: { take: 1 },
+      query,
+    });
+
+    expect(result).toEqual([{ mealPlanId: BigInt(1) }]);
+    expect(query).toHaveBeenCalledWith({ take: 1 });
+    expect(metricsService.recordDatabaseQuery).toHaveBeenCalledWith(
+      'findMany',
+      'MealPlan',
+      expect.any(Number),
+    );
+  });
+
+  it('should record raw queries under the raw table', async () => {
+    await allOperations({
+      operation: '$queryRaw',
+      args: {},
+      query: () => Promise.resolve([]),
+    });
+
+    expect(metricsService.recordDatabaseQuery).toHaveBeenCalledWith(
+      '$queryRaw',
+      'raw',
+      expect.any(Number),
+    );
+  });
+
+  it('should record failed queries and rethrow their error', async () => {
+    const promise = allOperations({
+      model: 'MealPlan',
+      operation: 'create',
+      args: {},
+      query: () => Promise.reject(new Error('Unique constraint failed')),
+    });
+
+    expect(promise).rejects.toThrow('Unique constraint failed');
+    await promise.catch(() => {});
+    expect(metricsService.recordDatabaseQuery).toHaveBeenCalledWith(
+      'create',
+      'MealPlan',
+      expect.any(Number),
+    );
+  });
+});
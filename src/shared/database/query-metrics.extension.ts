@@ -0,0 +1,33 @@
+import { Prisma } from '@generated/prisma/client';
+import type { MetricsService } from '@/modules/metrics/metrics.service';
+
+/**
+ * Prisma query extension that times every query, including raw queries and
+ * queries inside transactions, and records it in the database query duration
+ * histogram by operation and model. Raw queries are recorded under the 'raw'
+ * table, since their SQL is not parsed.
+ *
+ * @param metricsService - Service that owns the histogram
+ * @returns Extension to pass to $extends
+ */
+export const createQueryMetricsExtension = (
+  metricsService: Pick<MetricsService, 'recordDatabaseQuery'>,
+) =>
+  Prisma.defineExtension({
+    name: 'query-metrics',
+    query: {
+      async $allOperations({ model, operation, args, query }) {
+        const startTime = performance.now();
+
+        try {
+          return (await query(args)) as unknown;
+        } finally {
+          metricsService.recordDatabaseQuery(
+            operation,
+            model ?? 'raw',
+            (performance.now() - startTime) / 1000,
+          );
+        }
+      },
+    },
+  });
@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach, afterEach, mock, spyOn, type Mock } f
 import { TestDatabase } from './test-database';
 import { PrismaService } from '@/config/database.config';
 import { LoggerService } from '@/shared/services/logger.service';
-import { MealType } from '@generated/prisma/client';
+import { MealPlanStatus, MealPlanVisibility, MealType } from '@generated/prisma/client';
 
 describe('TestDatabase', () => {
   let testDb: TestDatabase;
@@ -181,6 +181,7 @@ describe('TestDatabase', () => {
         recipeId: BigInt(1),
         userId: 'user-1',
         title: 'Test Recipe',
+        legacyUuid: null,
       };
 
       prismaService.recipe.create.mockResolvedValue(mockRecipe);
@@ -245,7 +246,14 @@ describe('TestDatabase', () => {
         description: 'Test description',
         startDate: new Date(),
         endDate: new Date(),
-        isActive: true,
+        status: MealPlanStatus.ACTIVE,
+        visibility: MealPlanVisibility.PRIVATE,
+        timezone: 'UTC',
+        archivedAt: null,
+        dailyCaloriesTarget: null,
+        dailyProteinTarget: null,
+        dailyCarbohydratesTarget: null,
+        dailyFatTarget: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -283,7 +291,7 @@ describe('TestDatabase', () => {
       const seedMealPlanForUserSpy = spyOn(
         testDb['seeder'],
         'seedMealPlanForUser',
-      ).mockResolvedValue(mockResult as any);
+      ).mockResolvedValue(mockResult);
 
       const result = await testDb.createMealPlanWithRecipes(userId, recipeIds, options);
 
@@ -305,6 +313,7 @@ describe('TestDatabase', () => {
         recipeId: BigInt(1),
         mealDate: new Date(),
         mealType: MealType.DINNER,
+        servings: 1,
       };
 
       (prismaService as any).mealPlanRecipe.create = mock(() =>
@@ -1,8 +1,9 @@
 import { describe, it, expect, beforeEach, mock, type Mock } from 'bun:test';
 import { ResponseInterceptor } from './response.interceptor';
-import { ExecutionContext, CallHandler } from '@nestjs/common';
+import { ExecutionContext, CallHandler, StreamableFile } from '@nestjs/common';
 import { of } from 'rxjs';
 import { Request } from 'express';
+import { ApiResponse } from '@/shared/interfaces';
 
 describe('ResponseInterceptor', () => {
   let interceptor: ResponseInterceptor<any>;
@@ -105,6 +106,18 @@ describe('ResponseInterceptor', () => {
     });
   });
 
+  it('should pass files through without wrapping them', (done: () => void) => {
+    const file = new StreamableFile(Buffer.from('BEGIN:VCALENDAR'));
+    (mockCallHandler.handle as Mock<() => any>).mockReturnValue(of(file));
+
+    const result$ = interceptor.intercept(mockExecutionContext, mockCallHandler);
+
+    result$.subscribe((response) => {
+      expect(response).toBe(file);
+      done();
+    });
+  });
+
   it('should use correct request path', (done: () => void) => {
     mockRequest.url = '/api/v1/meal-plans';
     (mockCallHandler.handle as Mock<() => any>).mockReturnValue(of({}));
@@ -112,7 +125,7 @@ describe('ResponseInterceptor', () => {
     const result$ = interceptor.intercept(mockExecutionContext, mockCallHandler);
 
     result$.subscribe((response) => {
-      expect(response.path).toBe('/api/v1/meal-plans');
+      expect((response as ApiResponse<unknown>).path).toBe('/api/v1/meal-plans');
       done();
     });
   });
@@ -2,6 +2,11 @@ import { Global, Module } from '@nestjs/common';
 import { PrismaService } from '@/config/database.config';
 import { LoggerService } from './services/logger.service';
 import { RequestContextService } from './services/request-context.service';
+import { TransactionService } from './database/transaction.service';
+import { MetricsModule } from '@/modules/metrics/metrics.module';
+import { CacheService } from './cache/cache.service';
+import { cacheStoreProvider } from './cache/cache-store.provider';
+import { CACHE_STORE } from './cache/cache.store';
 
 /**
  * SharedModule provides common services that are used across the entire application.
@@ -13,11 +18,32 @@ import { RequestContextService } from './services/request-context.service';
  * Services provided:
  * - LoggerService: Structured logging with correlation ID support
  * - RequestContextService: Request context management for tracking
- * - PrismaService: Database connection and operations
+ * - PrismaService: Database connection and operations, with query timings
+ *   recorded through MetricsModule
+ * - TransactionService: Interactive database transactions
+ * - CacheService: Tag-invalidated response cache, stored in Redis when enabled
+ *   and in process memory otherwise
+ * - CACHE_STORE: The underlying key-value store, for caches that manage their
+ *   own keys and TTLs such as the token introspection cache
  */
 @Global()
 @Module({
-  providers: [LoggerService, RequestContextService, PrismaService],
-  exports: [LoggerService, RequestContextService, PrismaService],
+  imports: [MetricsModule],
+  providers: [
+    LoggerService,
+    RequestContextService,
+    PrismaService,
+    TransactionService,
+    cacheStoreProvider,
+    CacheService,
+  ],
+  exports: [
+    LoggerService,
+    RequestContextService,
+    PrismaService,
+    TransactionService,
+    CACHE_STORE,
+    CacheService,
+  ],
 })
 export class SharedModule {}